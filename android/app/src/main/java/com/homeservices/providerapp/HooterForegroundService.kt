@@ -5,7 +5,9 @@ import android.content.Context
 import android.content.Intent
 import android.media.MediaPlayer
 import android.os.Build
+import android.os.Handler
 import android.os.IBinder
+import android.os.Looper
 import androidx.core.app.NotificationCompat
 import android.app.NotificationChannel
 import android.app.NotificationManager
@@ -15,12 +17,37 @@ import android.os.VibratorManager
 
 /**
  * Foreground Service for playing hooter sound for job alerts
- * This service runs in the foreground and can play sounds even when app is in background
+ * This service runs in the foreground and can play sounds even when app is in background.
+ * The alert profile (tone, volume ramp, vibration, escalation) comes in the start intent
+ * and matches what soundService plays in JS (see alertProfileService.ts).
  */
 class HooterForegroundService : Service() {
     private var mediaPlayer: MediaPlayer? = null
     private var isPlaying = false
     private var vibrator: Vibrator? = null
+    private var profile = AlertProfile()
+    private var startedAt = 0L
+    private var escalated = false
+    private val handler = Handler(Looper.getMainLooper())
+    private val rampTick = object : Runnable {
+        override fun run() {
+            updateVolume()
+            if (isPlaying) handler.postDelayed(this, RAMP_TICK_MS)
+        }
+    }
+
+    /** Mirrors AlertProfile in alertProfileService.ts */
+    private data class AlertProfile(
+        val tone: String = "hooter",
+        val silent: Boolean = false,
+        val startVolume: Float = 1.0f,
+        val maxVolume: Float = 1.0f,
+        val rampSec: Float = 0f,
+        val vibrationPattern: LongArray = longArrayOf(0, 500, 200, 500),
+        val escalate: Boolean = false,
+        val escalateAfterSec: Float = 0f,
+        val escalationTone: String = "hooter"
+    )
     private val CHANNEL_ID = "HooterForegroundServiceChannel"
     private val NOTIFICATION_ID = 1001
 
@@ -41,6 +68,7 @@ class HooterForegroundService : Service() {
     override fun onStartCommand(intent: Intent?, flags: Int, startId: Int): Int {
         when (intent?.action) {
             ACTION_START_HOOTER -> {
+                profile = profileFrom(intent)
                 startHooter()
             }
             ACTION_STOP_HOOTER -> {
@@ -91,6 +119,21 @@ class HooterForegroundService : Service() {
         startForeground(NOTIFICATION_ID, notification)
     }
 
+    private fun profileFrom(intent: Intent): AlertProfile {
+        val defaults = AlertProfile()
+        return AlertProfile(
+            tone = intent.getStringExtra(EXTRA_TONE) ?: defaults.tone,
+            silent = intent.getBooleanExtra(EXTRA_SILENT, defaults.silent),
+            startVolume = intent.getFloatExtra(EXTRA_START_VOLUME, defaults.startVolume),
+            maxVolume = intent.getFloatExtra(EXTRA_MAX_VOLUME, defaults.maxVolume),
+            rampSec = intent.getFloatExtra(EXTRA_RAMP_SEC, defaults.rampSec),
+            vibrationPattern = intent.getLongArrayExtra(EXTRA_VIBRATION_PATTERN) ?: defaults.vibrationPattern,
+            escalate = intent.getBooleanExtra(EXTRA_ESCALATE, defaults.escalate),
+            escalateAfterSec = intent.getFloatExtra(EXTRA_ESCALATE_AFTER_SEC, defaults.escalateAfterSec),
+            escalationTone = intent.getStringExtra(EXTRA_ESCALATION_TONE) ?: defaults.escalationTone
+        )
+    }
+
     private fun startHooter() {
         if (isPlaying) {
             return // Already playing
@@ -103,48 +146,94 @@ class HooterForegroundService : Service() {
             // Vibrate
             vibrate()
 
-            // Load and play sound from res/raw/hooter.wav
-            val resourceId = resources.getIdentifier("hooter", "raw", packageName)
-            if (resourceId == 0) {
-                android.util.Log.e("HooterService", "hooter.wav not found in res/raw")
-                stopHooter()
+            isPlaying = true
+            startedAt = System.currentTimeMillis()
+            escalated = false
+
+            // Quiet hours: vibration only
+            if (profile.silent) {
+                android.util.Log.d("HooterService", "Silent profile, vibrating only")
                 return
             }
-            
-            mediaPlayer = MediaPlayer.create(this, resourceId)
-            
-            mediaPlayer?.let { mp ->
-                mp.setOnErrorListener { _, what, extra ->
-                    android.util.Log.e("HooterService", "MediaPlayer error: what=$what, extra=$extra")
-                    stopHooter()
-                    false
-                }
-                
-                mp.isLooping = true
-                mp.setVolume(1.0f, 1.0f)
-                mp.start()
-                isPlaying = true
-                
-                android.util.Log.d("HooterService", "Hooter sound started successfully")
-            } ?: run {
-                android.util.Log.e("HooterService", "Failed to create MediaPlayer")
-                stopHooter()
-            }
+
+            playTone(profile.tone, volumeAt(0f))
+            handler.postDelayed(rampTick, RAMP_TICK_MS)
         } catch (e: Exception) {
             android.util.Log.e("HooterService", "Error starting hooter", e)
             stopHooter()
         }
     }
 
+    /** Load and loop a tone from res/raw/<tone>.wav */
+    private fun playTone(tone: String, volume: Float) {
+        var resourceId = resources.getIdentifier(tone, "raw", packageName)
+        if (resourceId == 0) {
+            android.util.Log.w("HooterService", "$tone.wav not found in res/raw, using hooter")
+            resourceId = resources.getIdentifier("hooter", "raw", packageName)
+        }
+        if (resourceId == 0) {
+            android.util.Log.e("HooterService", "hooter.wav not found in res/raw")
+            stopHooter()
+            return
+        }
+
+        releasePlayer()
+        mediaPlayer = MediaPlayer.create(this, resourceId)
+
+        mediaPlayer?.let { mp ->
+            mp.setOnErrorListener { _, what, extra ->
+                android.util.Log.e("HooterService", "MediaPlayer error: what=$what, extra=$extra")
+                stopHooter()
+                false
+            }
+
+            mp.isLooping = true
+            mp.setVolume(volume, volume)
+            mp.start()
+
+            android.util.Log.d("HooterService", "Hooter sound started successfully ($tone)")
+        } ?: run {
+            android.util.Log.e("HooterService", "Failed to create MediaPlayer")
+            stopHooter()
+        }
+    }
+
+    /** Same ramp as volumeAt() in alertProfileService.ts */
+    private fun volumeAt(elapsedSec: Float): Float {
+        if (escalated) return 1.0f
+        if (profile.rampSec <= 0f || profile.maxVolume <= profile.startVolume) return profile.maxVolume
+        val progress = (elapsedSec / profile.rampSec).coerceAtMost(1.0f)
+        return profile.startVolume + (profile.maxVolume - profile.startVolume) * progress
+    }
+
+    private fun updateVolume() {
+        if (!isPlaying || profile.silent) return
+        val elapsedSec = (System.currentTimeMillis() - startedAt) / 1000f
+        if (profile.escalate && !escalated && elapsedSec >= profile.escalateAfterSec) {
+            // Unanswered too long: switch to the escalation tone at full volume
+            escalated = true
+            playTone(profile.escalationTone, 1.0f)
+            return
+        }
+        val volume = volumeAt(elapsedSec)
+        mediaPlayer?.setVolume(volume, volume)
+    }
+
+    private fun releasePlayer() {
+        mediaPlayer?.let { mp ->
+            if (mp.isPlaying) {
+                mp.stop()
+            }
+            mp.release()
+        }
+        mediaPlayer = null
+    }
+
     private fun stopHooter() {
         try {
-            mediaPlayer?.let { mp ->
-                if (mp.isPlaying) {
-                    mp.stop()
-                }
-                mp.release()
-            }
-            mediaPlayer = null
+            handler.removeCallbacks(rampTick)
+            releasePlayer()
+            vibrator?.cancel()
             isPlaying = false
             
             // Stop foreground service
@@ -159,13 +248,14 @@ class HooterForegroundService : Service() {
 
     private fun vibrate() {
         try {
+            val pattern = profile.vibrationPattern
+            if (pattern.isEmpty()) return
             vibrator?.let { vib ->
                 if (Build.VERSION.SDK_INT >= Build.VERSION_CODES.O) {
-                    val pattern = longArrayOf(0, 500, 200, 500)
                     vib.vibrate(VibrationEffect.createWaveform(pattern, 0))
                 } else {
                     @Suppress("DEPRECATION")
-                    vib.vibrate(longArrayOf(0, 500, 200, 500), 0)
+                    vib.vibrate(pattern, 0)
                 }
             }
         } catch (e: Exception) {
@@ -181,6 +271,18 @@ class HooterForegroundService : Service() {
     companion object {
         const val ACTION_START_HOOTER = "com.homeservices.providerapp.START_HOOTER"
         const val ACTION_STOP_HOOTER = "com.homeservices.providerapp.STOP_HOOTER"
+
+        const val EXTRA_TONE = "tone"
+        const val EXTRA_SILENT = "silent"
+        const val EXTRA_START_VOLUME = "startVolume"
+        const val EXTRA_MAX_VOLUME = "maxVolume"
+        const val EXTRA_RAMP_SEC = "rampSec"
+        const val EXTRA_VIBRATION_PATTERN = "vibrationPattern"
+        const val EXTRA_ESCALATE = "escalate"
+        const val EXTRA_ESCALATE_AFTER_SEC = "escalateAfterSec"
+        const val EXTRA_ESCALATION_TONE = "escalationTone"
+
+        private const val RAMP_TICK_MS = 500L
     }
 }
 
@@ -5,6 +5,7 @@ import com.facebook.react.bridge.ReactApplicationContext
 import com.facebook.react.bridge.ReactContextBaseJavaModule
 import com.facebook.react.bridge.ReactMethod
 import com.facebook.react.bridge.Promise
+import com.facebook.react.bridge.ReadableMap
 
 /**
  * React Native module to control the Hooter Foreground Service
@@ -15,11 +16,15 @@ class HooterServiceModule(reactContext: ReactApplicationContext) : ReactContextB
         return "HooterServiceModule"
     }
 
+    /**
+     * @param config alert profile from alertProfileService (null plays the plain hooter)
+     */
     @ReactMethod
-    fun startHooter(promise: Promise) {
+    fun startHooter(config: ReadableMap?, promise: Promise) {
         try {
             val intent = Intent(reactApplicationContext, HooterForegroundService::class.java).apply {
                 action = HooterForegroundService.ACTION_START_HOOTER
+                config?.let { putAlertConfig(this, it) }
             }
             
             if (android.os.Build.VERSION.SDK_INT >= android.os.Build.VERSION_CODES.O) {
@@ -34,6 +39,30 @@ class HooterServiceModule(reactContext: ReactApplicationContext) : ReactContextB
         }
     }
 
+    private fun putAlertConfig(intent: Intent, config: ReadableMap) {
+        fun string(key: String) = if (config.hasKey(key) && !config.isNull(key)) config.getString(key) else null
+        fun double(key: String) = if (config.hasKey(key) && !config.isNull(key)) config.getDouble(key) else null
+        fun bool(key: String) = if (config.hasKey(key) && !config.isNull(key)) config.getBoolean(key) else null
+
+        string("tone")?.let { intent.putExtra(HooterForegroundService.EXTRA_TONE, it) }
+        bool("silent")?.let { intent.putExtra(HooterForegroundService.EXTRA_SILENT, it) }
+        double("startVolume")?.let { intent.putExtra(HooterForegroundService.EXTRA_START_VOLUME, it.toFloat()) }
+        double("maxVolume")?.let { intent.putExtra(HooterForegroundService.EXTRA_MAX_VOLUME, it.toFloat()) }
+        double("rampSec")?.let { intent.putExtra(HooterForegroundService.EXTRA_RAMP_SEC, it.toFloat()) }
+        bool("escalate")?.let { intent.putExtra(HooterForegroundService.EXTRA_ESCALATE, it) }
+        double("escalateAfterSec")?.let { intent.putExtra(HooterForegroundService.EXTRA_ESCALATE_AFTER_SEC, it.toFloat()) }
+        string("escalationTone")?.let { intent.putExtra(HooterForegroundService.EXTRA_ESCALATION_TONE, it) }
+        if (config.hasKey("vibrationPattern") && !config.isNull("vibrationPattern")) {
+            val pattern = config.getArray("vibrationPattern")
+            if (pattern != null) {
+                intent.putExtra(
+                    HooterForegroundService.EXTRA_VIBRATION_PATTERN,
+                    LongArray(pattern.size()) { pattern.getDouble(it).toLong() }
+                )
+            }
+        }
+    }
+
     @ReactMethod
     fun stopHooter(promise: Promise) {
         try {
@@ -30,7 +30,7 @@ app.use(express.json());
 app.use((req, res, next) => {
   res.header('Access-Control-Allow-Origin', '*');
   res.header('Access-Control-Allow-Methods', 'GET, POST, PUT, DELETE, OPTIONS');
-  res.header('Access-Control-Allow-Headers', 'Origin, X-Requested-With, Content-Type, Accept, Authorization');
+  res.header('Access-Control-Allow-Headers', 'Origin, X-Requested-With, Content-Type, Accept, Authorization, X-Reauth-Token');
   if (req.method === 'OPTIONS') {
     res.sendStatus(200);
   } else {
@@ -274,6 +274,204 @@ app.post('/api/payment/webhook', express.raw({type: 'application/json'}), (req,
   }
 });
 
+/**
+ * Payout accounts — local stub
+ * In-memory stand-in for the backend's payout account endpoints so the
+ * app's verification flow can be exercised without a bank integration.
+ * Accounts are keyed by the caller's Authorization header and are lost on
+ * restart.
+ *
+ *   GET    /api/providers/me/payout-accounts
+ *   PUT    /api/providers/me/payout-accounts/:type         (needs X-Reauth-Token)
+ *   POST   /api/providers/me/payout-accounts/:type/verify
+ *   DELETE /api/providers/me/payout-accounts/:type         (needs X-Reauth-Token)
+ *
+ * Verification settles after PAYOUT_VERIFY_DELAY_MS: bank accounts ending
+ * in 0000 and UPI IDs containing "fail" are rejected, everything else is
+ * verified. The real backend must also check that the re-entry token was
+ * issued to the same provider within the last few minutes.
+ */
+const PAYOUT_TYPES = ['bank', 'upi'];
+const PAYOUT_VERIFY_DELAY_MS = 8000;
+const payoutAccounts = new Map();
+
+const payoutOwner = req => req.header('Authorization') || 'anonymous';
+
+const accountsOf = req => {
+  const owner = payoutOwner(req);
+  if (!payoutAccounts.has(owner)) {
+    payoutAccounts.set(owner, {});
+  }
+  return payoutAccounts.get(owner);
+};
+
+const maskAccountNumber = value =>
+  value ? 'X'.repeat(Math.max(0, value.length - 4)) + value.slice(-4) : value;
+
+const publicAccount = account => {
+  const {timer, ...rest} = account;
+  return rest.bank
+    ? {...rest, bank: {...rest.bank, accountNumber: maskAccountNumber(rest.bank.accountNumber)}}
+    : rest;
+};
+
+const requirePayoutType = (req, res) => {
+  if (PAYOUT_TYPES.includes(req.params.type)) {
+    return true;
+  }
+  res.status(404).json({success: false, error: 'Unknown payout account type'});
+  return false;
+};
+
+const requireReauth = (req, res) => {
+  if (req.header('X-Reauth-Token')) {
+    return true;
+  }
+  res.status(403).json({
+    success: false,
+    code: 'REAUTH_REQUIRED',
+    error: 'Re-enter your PIN to change payout details',
+  });
+  return false;
+};
+
+app.get('/api/providers/me/payout-accounts', (req, res) => {
+  res.json({success: true, data: Object.values(accountsOf(req)).map(publicAccount)});
+});
+
+app.put('/api/providers/me/payout-accounts/:type', (req, res) => {
+  if (!requirePayoutType(req, res) || !requireReauth(req, res)) {
+    return;
+  }
+  const {type} = req.params;
+  const body = req.body || {};
+  const invalid =
+    type === 'bank'
+      ? !/^\d{9,18}$/.test(body.accountNumber || '') ||
+        !/^[A-Z]{4}0[A-Z0-9]{6}$/.test(body.ifsc || '') ||
+        !body.accountHolderName
+      : !/^[^@\s]{2,256}@[a-z][a-z0-9]{1,63}$/i.test(body.vpa || '');
+  if (invalid) {
+    return res.status(400).json({success: false, error: 'Invalid payout account details'});
+  }
+
+  const accounts = accountsOf(req);
+  clearTimeout(accounts[type]?.timer);
+  accounts[type] = {
+    type,
+    ...(type === 'bank'
+      ? {
+          bank: {
+            accountHolderName: body.accountHolderName,
+            accountNumber: body.accountNumber,
+            ifsc: body.ifsc,
+            bankName: body.bankName,
+            branch: body.branch,
+          },
+        }
+      : {upi: {vpa: String(body.vpa).toLowerCase()}}),
+    status: 'unverified',
+    updatedAt: new Date().toISOString(),
+  };
+  res.json({success: true, data: publicAccount(accounts[type])});
+});
+
+app.post('/api/providers/me/payout-accounts/:type/verify', (req, res) => {
+  if (!requirePayoutType(req, res)) {
+    return;
+  }
+  const account = accountsOf(req)[req.params.type];
+  if (!account) {
+    return res.status(404).json({success: false, error: 'No payout account to verify'});
+  }
+  if (account.status !== 'unverified' && account.status !== 'failed') {
+    return res.status(409).json({success: false, error: `Account is already ${account.status}`});
+  }
+
+  account.status = 'pending';
+  account.failureReason = undefined;
+  account.updatedAt = new Date().toISOString();
+  account.timer = setTimeout(() => {
+    const fails = account.bank
+      ? account.bank.accountNumber.endsWith('0000')
+      : account.upi.vpa.includes('fail');
+    account.status = fails ? 'failed' : 'verified';
+    account.failureReason = fails
+      ? account.bank
+        ? 'Account number and IFSC do not match an active account'
+        : 'UPI ID not found'
+      : undefined;
+    if (!fails) {
+      account.verifiedAt = new Date().toISOString();
+      if (account.upi) {
+        account.upi.holderName = 'Registered Holder';
+      }
+    }
+    account.updatedAt = new Date().toISOString();
+    account.timer = undefined;
+  }, PAYOUT_VERIFY_DELAY_MS);
+
+  res.json({success: true, data: publicAccount(account)});
+});
+
+app.delete('/api/providers/me/payout-accounts/:type', (req, res) => {
+  if (!requirePayoutType(req, res) || !requireReauth(req, res)) {
+    return;
+  }
+  const accounts = accountsOf(req);
+  clearTimeout(accounts[req.params.type]?.timer);
+  delete accounts[req.params.type];
+  res.json({success: true});
+});
+
+/**
+ * IFSC branch lookup for the payout form
+ *
+ *   GET    /api/banks/ifsc/:ifsc
+ *
+ * Resolved through Razorpay's public IFSC API (RBI's branch list), so the
+ * app does not have to bundle the whole list. Unknown codes are 404;
+ * answers are cached for the life of the process.
+ */
+const IFSC_API_URL = process.env.IFSC_API_URL || 'https://ifsc.razorpay.com';
+const ifscCache = new Map();
+
+app.get('/api/banks/ifsc/:ifsc', async (req, res) => {
+  const ifsc = String(req.params.ifsc || '').toUpperCase();
+  if (!/^[A-Z]{4}0[A-Z0-9]{6}$/.test(ifsc)) {
+    return res.status(400).json({success: false, error: 'Invalid IFSC'});
+  }
+  try {
+    if (!ifscCache.has(ifsc)) {
+      const response = await fetch(`${IFSC_API_URL}/${ifsc}`);
+      if (response.status === 404) {
+        ifscCache.set(ifsc, null);
+      } else if (!response.ok) {
+        throw new Error(`IFSC lookup returned ${response.status}`);
+      } else {
+        const branch = await response.json();
+        ifscCache.set(ifsc, {
+          ifsc,
+          bankName: branch.BANK,
+          branch: branch.BRANCH,
+          address: branch.ADDRESS,
+          city: branch.CITY,
+          district: branch.DISTRICT,
+          state: branch.STATE,
+        });
+      }
+    }
+    const details = ifscCache.get(ifsc);
+    if (!details) {
+      return res.status(404).json({success: false, error: 'IFSC not found'});
+    }
+    res.json({success: true, data: details});
+  } catch (error) {
+    console.error('IFSC lookup error:', error);
+    res.status(502).json({success: false, error: 'IFSC lookup unavailable'});
+  }
+});
+
 // Error handling middleware
 app.use((err, req, res, next) => {
   console.error('Server error:', err);
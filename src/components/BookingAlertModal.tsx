@@ -20,6 +20,10 @@ import Icon from 'react-native-vector-icons/MaterialIcons';
 import {lightTheme, darkTheme} from '../utils/theme';
 import {useStore} from '../store';
 import {getProviderStatus, getDistanceToCustomer} from '../services/providerLocationService';
+import type {BookingConflict} from '../services/bookingConflictService';
+import type {ServiceAreaCheck} from '../services/serviceAreaService';
+import type {BookingOffer} from '../services/bookingOfferQueue';
+import BookingOfferStack from './BookingOfferStack';
 import auth from '@react-native-firebase/auth';
 
 const {width: SCREEN_WIDTH} = Dimensions.get('window');
@@ -34,8 +38,39 @@ interface BookingAlertModalProps {
   onDismiss: () => void;
   /** Seconds remaining before auto-decline */
   secondsLeft?: number;
+  /** Open jobs this booking clashes with — accepting is then a confirmation */
+  conflicts?: BookingConflict[];
+  /** In / out of the provider's service area, with distance from the base address */
+  serviceArea?: ServiceAreaCheck | null;
+  /** Other open offers, shown as a compact stack under the actions */
+  queuedOffers?: BookingOffer[];
+  now?: number;
+  onSelectOffer?: (serviceRequestId: string) => void;
+  onAcceptOffer?: (serviceRequestId: string) => void;
+  onRejectOffer?: (serviceRequestId: string) => void;
 }
 
+const formatClock = (date: Date) =>
+  date.toLocaleTimeString('en-IN', {hour: '2-digit', minute: '2-digit'});
+
+const SERVICE_AREA_REASONS: Record<ServiceAreaCheck['reason'], string> = {
+  unrestricted: 'No service area limits set',
+  radius: 'Within your travel radius',
+  pincode: 'Pincode you serve',
+  district: 'District you serve',
+  boundary: 'Inside your service boundary',
+  excluded: 'In an excluded zone',
+  beyond_radius: 'Beyond your travel radius',
+  not_served: 'Pincode / district not in your list',
+  no_location: 'Customer location not available',
+};
+
+const SERVICE_AREA_STYLES: Record<ServiceAreaCheck['status'], {label: string; color: string; icon: string}> = {
+  in_area: {label: 'In your service area', color: '#34C759', icon: 'check-circle'},
+  out_of_area: {label: 'Outside your service area', color: '#FF3B30', icon: 'wrong-location'},
+  unknown: {label: 'Service area not checked', color: '#8E8E93', icon: 'help-outline'},
+};
+
 export default function BookingAlertModal({
   visible,
   bookingData,
@@ -43,6 +78,13 @@ export default function BookingAlertModal({
   onReject,
   onDismiss,
   secondsLeft,
+  conflicts = [],
+  serviceArea,
+  queuedOffers = [],
+  now = Date.now(),
+  onSelectOffer = () => {},
+  onAcceptOffer = () => {},
+  onRejectOffer = () => {},
 }: BookingAlertModalProps) {
   const {isDarkMode} = useStore();
   const theme = isDarkMode ? darkTheme : lightTheme;
@@ -94,6 +136,15 @@ export default function BookingAlertModal({
     }
   }, [visible]);
 
+  // Conflicts found after a tap block that accept — re-arm the buttons for the confirmation
+  useEffect(() => {
+    if (!visible || conflicts.length === 0) return;
+    slideAnim.setValue(0);
+    setIsAccepted(false);
+    acceptOnceRef.current = false;
+    setButtonText('Swipe Right to Accept');
+  }, [conflicts.length]);
+
   // Pan responder for swipeable button
   const panResponder = useRef(
     PanResponder.create({
@@ -212,7 +263,7 @@ export default function BookingAlertModal({
   }
   
   console.log('✅ BookingAlertModal: Rendering modal with booking:', {
-    id: bookingData?.consultationId || bookingData?.id || bookingData?.bookingId,
+    serviceRequestId: bookingData?.serviceRequestId,
     customerName: bookingData?.customerName || bookingData?.patientName,
     visible: visible,
   });
@@ -232,7 +283,9 @@ export default function BookingAlertModal({
                 <Icon name="notifications-active" size={24} color={theme.primary} />
               </View>
               <View>
-                <Text style={[styles.title, {color: theme.text}]}>NEW JOB</Text>
+                <Text style={[styles.title, {color: theme.text}]}>
+                  {queuedOffers.length > 0 ? `NEW JOB · 1 of ${queuedOffers.length + 1}` : 'NEW JOB'}
+                </Text>
                 <Text style={[styles.subtitle, {color: theme.textSecondary}]}>
                   {secondsLeft != null
                     ? `Respond in ${secondsLeft}s`
@@ -246,6 +299,72 @@ export default function BookingAlertModal({
           </View>
 
           <ScrollView style={styles.content} showsVerticalScrollIndicator={false}>
+            {/* Schedule clashes with already accepted jobs */}
+            {conflicts.length > 0 && (
+              <View style={styles.conflictBox}>
+                <View style={styles.conflictHeader}>
+                  <Icon name="warning" size={20} color="#FF9500" />
+                  <Text style={styles.conflictTitle}>
+                    {conflicts.some(c => c.kind === 'overlap')
+                      ? 'Clashes with an accepted job'
+                      : 'Not enough travel time'}
+                  </Text>
+                </View>
+                {conflicts.map(conflict => (
+                  <View
+                    key={conflict.jobCard.id || conflict.jobCard._id}
+                    style={styles.conflictRow}>
+                    <Text style={[styles.conflictJob, {color: theme.text}]}>
+                      {conflict.jobCard.customerName} · {conflict.jobCard.serviceType}
+                      {conflict.jobCard.status === 'in-progress' ? ' (in progress)' : ''}
+                    </Text>
+                    <Text style={[styles.conflictDetail, {color: theme.textSecondary}]}>
+                      {formatClock(conflict.jobStart)} – {formatClock(conflict.jobEnd)}
+                      {conflict.kind === 'overlap'
+                        ? ' · overlaps this booking'
+                        : ` · ${conflict.gapMinutes} min gap`}
+                    </Text>
+                    {conflict.travelMinutes != null && (
+                      <Text style={[styles.conflictDetail, {color: theme.textSecondary}]}>
+                        Travel between jobs: ~{conflict.travelMinutes} min
+                        {conflict.distanceFormatted ? ` (${conflict.distanceFormatted})` : ''}
+                      </Text>
+                    )}
+                  </View>
+                ))}
+              </View>
+            )}
+
+            {/* Service area annotation */}
+            {serviceArea && (
+              <View
+                style={[
+                  styles.areaBox,
+                  {backgroundColor: SERVICE_AREA_STYLES[serviceArea.status].color + '15'},
+                ]}>
+                <Icon
+                  name={SERVICE_AREA_STYLES[serviceArea.status].icon}
+                  size={20}
+                  color={SERVICE_AREA_STYLES[serviceArea.status].color}
+                />
+                <View style={styles.areaText}>
+                  <Text
+                    style={[
+                      styles.areaTitle,
+                      {color: SERVICE_AREA_STYLES[serviceArea.status].color},
+                    ]}>
+                    {SERVICE_AREA_STYLES[serviceArea.status].label}
+                    {serviceArea.distanceFormatted ? ` · ${serviceArea.distanceFormatted}` : ''}
+                  </Text>
+                  <Text style={[styles.areaDetail, {color: theme.textSecondary}]}>
+                    {SERVICE_AREA_REASONS[serviceArea.reason]}
+                    {serviceArea.exclusionLabel ? ` (${serviceArea.exclusionLabel})` : ''}
+                    {serviceArea.distanceFormatted ? ' · from your base address' : ''}
+                  </Text>
+                </View>
+              </View>
+            )}
+
             {/* Customer Info */}
             <View style={styles.customerInfo}>
               <View style={styles.customerRow}>
@@ -356,7 +475,9 @@ export default function BookingAlertModal({
                 setIsAccepted(true);
                 onAccept();
               }}>
-              <Text style={styles.acceptBtnText}>Accept</Text>
+              <Text style={styles.acceptBtnText}>
+                {conflicts.length > 0 ? 'Accept anyway' : 'Accept'}
+              </Text>
             </TouchableOpacity>
           </View>
 
@@ -384,6 +505,14 @@ export default function BookingAlertModal({
               </View>
             </Animated.View>
           </View>
+
+          <BookingOfferStack
+            offers={queuedOffers}
+            now={now}
+            onSelect={onSelectOffer}
+            onAccept={onAcceptOffer}
+            onReject={onRejectOffer}
+          />
         </View>
       </View>
     </Modal>
@@ -439,6 +568,55 @@ const styles = StyleSheet.create({
   content: {
     maxHeight: 400,
   },
+  conflictBox: {
+    backgroundColor: '#FF950015',
+    borderColor: '#FF9500',
+    borderWidth: 1,
+    borderRadius: 12,
+    padding: 12,
+    marginBottom: 16,
+  },
+  conflictHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    marginBottom: 8,
+  },
+  conflictTitle: {
+    color: '#FF9500',
+    fontSize: 15,
+    fontWeight: '700',
+  },
+  conflictRow: {
+    marginTop: 4,
+  },
+  conflictJob: {
+    fontSize: 14,
+    fontWeight: '600',
+  },
+  conflictDetail: {
+    fontSize: 12,
+    marginTop: 2,
+  },
+  areaBox: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    borderRadius: 12,
+    padding: 12,
+    marginBottom: 16,
+    gap: 10,
+  },
+  areaText: {
+    flex: 1,
+  },
+  areaTitle: {
+    fontSize: 15,
+    fontWeight: '700',
+  },
+  areaDetail: {
+    fontSize: 12,
+    marginTop: 2,
+  },
   customerInfo: {
     marginBottom: 16,
     paddingBottom: 16,
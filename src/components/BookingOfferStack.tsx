@@ -0,0 +1,154 @@
+/**
+ * Booking Offer Stack
+ * Compact rows for the offers waiting behind the one in focus — each with
+ * its own countdown and quick accept / decline. Tap a row to bring it into
+ * focus with full details.
+ */
+
+import React from 'react';
+import {View, Text, StyleSheet, TouchableOpacity} from 'react-native';
+import Icon from 'react-native-vector-icons/MaterialIcons';
+import {lightTheme, darkTheme} from '../utils/theme';
+import {useStore} from '../store';
+import useTranslation from '../hooks/useTranslation';
+import {BookingOffer, secondsLeftFor} from '../services/bookingOfferQueue';
+
+interface BookingOfferStackProps {
+  offers: BookingOffer[];
+  /** Shared clock from the booking context */
+  now: number;
+  onSelect: (serviceRequestId: string) => void;
+  onAccept: (serviceRequestId: string) => void;
+  onReject: (serviceRequestId: string) => void;
+}
+
+export default function BookingOfferStack({
+  offers,
+  now,
+  onSelect,
+  onAccept,
+  onReject,
+}: BookingOfferStackProps) {
+  const {isDarkMode} = useStore();
+  const theme = isDarkMode ? darkTheme : lightTheme;
+  const {t} = useTranslation();
+  const tx = (key: string, opts?: any) => String(t(key, opts));
+
+  if (offers.length === 0) return null;
+
+  return (
+    <View style={[styles.container, {borderTopColor: theme.border}]}>
+      <Text style={[styles.title, {color: theme.textSecondary}]}>
+        {tx('dashboard.offers.moreWaiting', {count: offers.length})}
+      </Text>
+      {offers.map(offer => {
+        const {booking} = offer;
+        const id = booking.serviceRequestId;
+        const seconds = secondsLeftFor(offer, now);
+        const hasConflicts = (offer.conflicts?.length ?? 0) > 0;
+        return (
+          <TouchableOpacity
+            key={id}
+            style={[styles.row, {backgroundColor: theme.background}]}
+            onPress={() => onSelect(id)}
+            activeOpacity={0.8}>
+            <Icon
+              name={offer.immediate ? 'flash-on' : 'schedule'}
+              size={18}
+              color={offer.immediate ? '#FF9500' : theme.textSecondary}
+            />
+            <View style={styles.info}>
+              <Text style={[styles.service, {color: theme.text}]} numberOfLines={1}>
+                {booking.serviceType || tx('dashboard.offers.service')}
+                {hasConflicts ? ' ⚠️' : ''}
+              </Text>
+              <Text style={[styles.meta, {color: theme.textSecondary}]} numberOfLines={1}>
+                {[
+                  offer.immediate
+                    ? tx('dashboard.offers.immediate')
+                    : new Date(booking.scheduledTime!).toLocaleString('en-IN', {
+                        day: 'numeric',
+                        month: 'short',
+                        hour: '2-digit',
+                        minute: '2-digit',
+                      }),
+                  offer.distanceFormatted,
+                  booking.serviceFee != null ? `₹${booking.serviceFee}` : undefined,
+                ]
+                  .filter(Boolean)
+                  .join(' · ')}
+              </Text>
+            </View>
+            <Text style={[styles.countdown, {color: seconds <= 10 ? '#FF3B30' : theme.textSecondary}]}>
+              {seconds}s
+            </Text>
+            <TouchableOpacity
+              style={[styles.action, styles.decline]}
+              onPress={() => onReject(id)}
+              accessibilityLabel={tx('dashboard.decline')}>
+              <Icon name="close" size={18} color="#fff" />
+            </TouchableOpacity>
+            <TouchableOpacity
+              style={[styles.action, styles.accept]}
+              onPress={() => (hasConflicts ? onSelect(id) : onAccept(id))}
+              accessibilityLabel={tx('dashboard.accept')}>
+              <Icon name="check" size={18} color="#fff" />
+            </TouchableOpacity>
+          </TouchableOpacity>
+        );
+      })}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    borderTopWidth: 1,
+    paddingTop: 10,
+    marginTop: 4,
+    gap: 6,
+  },
+  title: {
+    fontSize: 12,
+    fontWeight: '600',
+    textTransform: 'uppercase',
+  },
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    borderRadius: 10,
+    paddingVertical: 8,
+    paddingHorizontal: 10,
+    gap: 8,
+  },
+  info: {
+    flex: 1,
+  },
+  service: {
+    fontSize: 14,
+    fontWeight: '600',
+  },
+  meta: {
+    fontSize: 12,
+    marginTop: 1,
+  },
+  countdown: {
+    fontSize: 13,
+    fontWeight: '700',
+    minWidth: 28,
+    textAlign: 'right',
+  },
+  action: {
+    width: 32,
+    height: 32,
+    borderRadius: 16,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  decline: {
+    backgroundColor: '#FF3B30',
+  },
+  accept: {
+    backgroundColor: '#34C759',
+  },
+});
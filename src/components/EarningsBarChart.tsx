@@ -0,0 +1,99 @@
+/**
+ * Stacked bar chart of earnings per bucket (labour + materials),
+ * drawn with plain Views so it needs no charting dependency.
+ */
+
+import React from 'react';
+import {View, Text, ScrollView, StyleSheet} from 'react-native';
+import type {EarningsBucket} from '../services/earningsService';
+
+type ThemeColors = {
+  text: string;
+  textSecondary: string;
+  border: string;
+};
+
+type Props = {
+  buckets: EarningsBucket[];
+  theme: ThemeColors;
+  height?: number;
+};
+
+export const LABOUR_COLOR = '#34C759';
+export const MATERIALS_COLOR = '#FF9500';
+
+const formatShort = (n: number) =>
+  n >= 1000 ? `₹${(n / 1000).toFixed(n >= 10000 ? 0 : 1)}k` : `₹${Math.round(n)}`;
+
+export default function EarningsBarChart({buckets, theme, height = 160}: Props) {
+  const max = Math.max(1, ...buckets.map(b => b.gross));
+
+  return (
+    <ScrollView horizontal showsHorizontalScrollIndicator={false}>
+      <View style={[styles.chart, {height: height + 36, borderColor: theme.border}]}>
+        {buckets.map(bucket => {
+          const labourHeight = (bucket.labour / max) * height;
+          const materialsHeight = (bucket.materials / max) * height;
+          return (
+            <View key={bucket.key} style={styles.column}>
+              <Text style={[styles.value, {color: theme.textSecondary}]}>
+                {bucket.gross > 0 ? formatShort(bucket.gross) : ''}
+              </Text>
+              <View style={[styles.barArea, {height}]}>
+                <View
+                  style={[
+                    styles.bar,
+                    styles.barTop,
+                    {height: materialsHeight, backgroundColor: MATERIALS_COLOR},
+                  ]}
+                />
+                <View
+                  style={[
+                    styles.bar,
+                    materialsHeight === 0 && styles.barTop,
+                    {height: labourHeight, backgroundColor: LABOUR_COLOR},
+                  ]}
+                />
+              </View>
+              <Text style={[styles.label, {color: theme.text}]} numberOfLines={1}>
+                {bucket.label}
+              </Text>
+            </View>
+          );
+        })}
+      </View>
+    </ScrollView>
+  );
+}
+
+const styles = StyleSheet.create({
+  chart: {
+    flexDirection: 'row',
+    alignItems: 'flex-end',
+    borderBottomWidth: 1,
+    paddingHorizontal: 4,
+  },
+  column: {
+    width: 48,
+    alignItems: 'center',
+    marginHorizontal: 2,
+  },
+  value: {
+    fontSize: 10,
+    marginBottom: 2,
+  },
+  barArea: {
+    justifyContent: 'flex-end',
+  },
+  bar: {
+    width: 24,
+  },
+  barTop: {
+    borderTopLeftRadius: 4,
+    borderTopRightRadius: 4,
+  },
+  label: {
+    fontSize: 10,
+    marginTop: 4,
+  },
+});
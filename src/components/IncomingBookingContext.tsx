@@ -1,5 +1,7 @@
 /**
  * Shared incoming booking state for Home NEW JOB card + modal host.
+ * Offers queue up (see bookingOfferQueue); the focused one fills the modal
+ * and the rest sit in a compact stack beneath it.
  */
 
 import React, {
@@ -15,6 +17,7 @@ import {ActivityIndicator, View} from 'react-native';
 import {useStore} from '../store';
 import {getUserId} from '../services/session';
 import websocketService from '../services/websocketService';
+import {NewBookingEvent, parseBooking} from '../services/socketProtocol';
 import {getMyProfile} from '../services/api/providersApi';
 import {serviceRequestsApi} from '../services/api/serviceRequestsApi';
 import {createJobCard} from '../services/jobCardService';
@@ -22,55 +25,63 @@ import BookingAlertModal from './BookingAlertModal';
 import AlertModal from './AlertModal';
 import Toast from './Toast';
 import useTranslation from '../hooks/useTranslation';
-import {speakNewJobReceived} from '../services/voicePromptService';
-
-export const ACCEPT_TIMEOUT_SEC = 40;
-
-function bookingIdOf(data: any): string {
-  if (!data) return '';
-  return String(
-    data.serviceRequestId ||
-      data.consultationId ||
-      data.id ||
-      data.bookingId ||
-      data._id ||
-      '',
-  );
-}
-
-function toBookingShape(latest: any) {
-  const id = bookingIdOf(latest);
-  return {
-    consultationId: id,
-    id,
-    bookingId: id,
-    serviceRequestId: id,
-    customerId: latest.customerId,
-    customerName: latest.customerName,
-    patientName: latest.customerName,
-    customerPhone: latest.customerPhone,
-    patientPhone: latest.customerPhone,
-    customerAddress: latest.customerAddress,
-    patientAddress: latest.customerAddress,
-    serviceType: latest.serviceType,
-    problem: latest.problem,
-    questionnaireAnswers: latest.questionnaireAnswers,
-    consultationFee: latest.consultationFee ?? latest.serviceFee,
-    serviceFee: latest.serviceFee ?? latest.consultationFee,
-    providerId: latest.providerId,
-    isTargeted: !!latest.providerId,
-    status: latest.status,
-    createdAt: latest.createdAt,
-  };
-}
+import {announce, cancelAnnouncements} from '../services/voicePromptService';
+import {getApiErrorMessage} from '../utils/apiErrorMessages';
+import {
+  BookingConflict,
+  checkBookingConflicts,
+} from '../services/bookingConflictService';
+import {
+  checkBookingServiceArea,
+  ServiceAreaCheck,
+  shouldSkipBookingAlert,
+} from '../services/serviceAreaService';
+import {
+  isSavingPower,
+  registerTask,
+  setOnDuty,
+} from '../services/backgroundScheduler';
+import {
+  BookingOffer,
+  createOffer,
+  enqueueOffer,
+  MAX_QUEUED_OFFERS,
+  OFFER_TIMEOUT_SEC,
+  removeOffer,
+  secondsLeftFor,
+  updateOffer,
+} from '../services/bookingOfferQueue';
+import {applyBookingRules} from '../services/bookingRulesService';
+
+export const ACCEPT_TIMEOUT_SEC = OFFER_TIMEOUT_SEC;
+
+/** Offers get a spoken warning this close to lapsing */
+const OFFER_EXPIRING_WARN_SEC = 10;
+
+const offerAnnouncementKey = (serviceRequestId: string) => `offer:${serviceRequestId}`;
+
+/** Socket pushes are the primary channel; polling only catches misses */
+const BOOKING_POLL_MS = 20 * 1000;
+const BOOKING_POLL_SAVER_MS = 60 * 1000;
 
 type IncomingBookingContextValue = {
-  incomingBooking: any | null;
+  /** Every open offer, highest priority first */
+  offers: BookingOffer[];
+  /** The offer in focus (modal / Home card) — the top one unless another was picked */
+  incomingBooking: NewBookingEvent | null;
   secondsLeft: number;
+  /** Ticks while offers are open; pass to `secondsLeftFor` for per-offer countdowns */
+  now: number;
   loading: boolean;
-  acceptBooking: () => Promise<void>;
-  rejectBooking: () => Promise<void>;
-  dismissBooking: () => void;
+  /** Open jobs the focused booking clashes with (time or travel) */
+  bookingConflicts: BookingConflict[];
+  /** In / out of the provider's service area (null while unknown) */
+  bookingServiceArea: ServiceAreaCheck | null;
+  /** Accept / decline / dismiss the offer with this id (the one on screen when tapped) */
+  acceptBooking: (serviceRequestId: string) => Promise<void>;
+  rejectBooking: (serviceRequestId: string) => Promise<void>;
+  dismissBooking: (serviceRequestId: string) => void;
+  focusBooking: (serviceRequestId: string) => void;
   /** When true, modal is hidden (Home shows inline card). */
   setPreferInlineCard: (prefer: boolean) => void;
 };
@@ -83,12 +94,17 @@ export function useIncomingBooking(): IncomingBookingContextValue {
   const ctx = useContext(IncomingBookingContext);
   if (!ctx) {
     return {
+      offers: [],
       incomingBooking: null,
       secondsLeft: ACCEPT_TIMEOUT_SEC,
+      now: Date.now(),
       loading: false,
+      bookingConflicts: [],
+      bookingServiceArea: null,
       acceptBooking: async () => {},
       rejectBooking: async () => {},
       dismissBooking: () => {},
+      focusBooking: () => {},
       setPreferInlineCard: () => {},
     };
   }
@@ -104,8 +120,9 @@ export function IncomingBookingProvider({
   const userId = getUserId(currentUser);
   const {t} = useTranslation();
 
-  const [incomingBooking, setIncomingBooking] = useState<any>(null);
-  const [secondsLeft, setSecondsLeft] = useState(ACCEPT_TIMEOUT_SEC);
+  const [offers, setOffers] = useState<BookingOffer[]>([]);
+  const [focusedId, setFocusedId] = useState<string | null>(null);
+  const [now, setNow] = useState(Date.now());
   const [loading, setLoading] = useState(false);
   const [preferInlineCard, setPreferInlineCard] = useState(false);
   const [showToast, setShowToast] = useState(false);
@@ -117,9 +134,15 @@ export function IncomingBookingProvider({
     type: 'success' | 'error' | 'info' | 'warning';
   }>({title: '', message: '', type: 'info'});
 
+  /** Ids already offered (or skipped) — never shown twice */
   const handledIdsRef = useRef<Set<string>>(new Set());
+  /** Ids whose area check is still running */
+  const pendingIdsRef = useRef<Set<string>>(new Set());
   const acceptingRef = useRef(false);
-  const timeoutFiredRef = useRef(false);
+  /** Offers already warned about as lapsing */
+  const expiryWarnedRef = useRef<Set<string>>(new Set());
+  // Source of truth for the queue; state mirrors it for rendering
+  const offersRef = useRef<BookingOffer[]>([]);
 
   const showAlert = (
     title: string,
@@ -130,205 +153,324 @@ export function IncomingBookingProvider({
     setAlertVisible(true);
   };
 
-  const presentBooking = useCallback((bookingData: any) => {
-    if (!bookingData) return;
-    const id = bookingIdOf(bookingData);
-    if (!id) return;
-    if (handledIdsRef.current.has(id)) return;
-
-    setIncomingBooking((prev: any) => {
-      if (prev) return prev;
-      handledIdsRef.current.add(id);
-      timeoutFiredRef.current = false;
-      setSecondsLeft(ACCEPT_TIMEOUT_SEC);
-      void speakNewJobReceived();
-      return bookingData;
-    });
+  const commitOffers = useCallback((next: BookingOffer[]) => {
+    offersRef.current = next;
+    setOffers(next);
+    // The hooter keeps going while anything is still waiting for an answer
+    if (next.length === 0) websocketService.stopSound();
   }, []);
 
+  const takeOffer = useCallback(
+    (serviceRequestId: string) => {
+      handledIdsRef.current.add(serviceRequestId);
+      // Nothing left to say about an answered offer
+      cancelAnnouncements(offerAnnouncementKey(serviceRequestId));
+      expiryWarnedRef.current.delete(serviceRequestId);
+      const offer = offersRef.current.find(
+        item => item.booking.serviceRequestId === serviceRequestId,
+      );
+      if (offer) commitOffers(removeOffer(offersRef.current, serviceRequestId));
+      return offer;
+    },
+    [commitOffers],
+  );
+
+  // An id that is no longer queued (expired, withdrawn, taken) must not
+  // fall through to another customer's offer
+  const findOffer = (serviceRequestId: string): BookingOffer | undefined =>
+    offersRef.current.find(item => item.booking.serviceRequestId === serviceRequestId);
+
+  // Classify against the service area first; out-of-area requests are
+  // skipped silently when the provider asked for that
+  const considerBooking = useCallback(
+    async (bookingData: NewBookingEvent) => {
+      const id = bookingData.serviceRequestId;
+      if (handledIdsRef.current.has(id) || pendingIdsRef.current.has(id)) return;
+      // A full queue leaves the rest for the next poll
+      if (offersRef.current.length >= MAX_QUEUED_OFFERS) return;
+      pendingIdsRef.current.add(id);
+      try {
+        const check = await checkBookingServiceArea(bookingData);
+        if (await shouldSkipBookingAlert(bookingData, check)) {
+          handledIdsRef.current.add(id);
+          if (offersRef.current.length === 0) websocketService.stopSound();
+          return;
+        }
+        if (handledIdsRef.current.has(id)) return;
+        // Filters and auto-accept rules settle some offers without the provider
+        if (userId && (await applyBookingRules(bookingData, check, userId)) !== 'offer') {
+          handledIdsRef.current.add(id);
+          if (offersRef.current.length === 0) websocketService.stopSound();
+          return;
+        }
+        if (handledIdsRef.current.has(id)) return;
+        handledIdsRef.current.add(id);
+        const offer = createOffer(bookingData, check);
+        commitOffers(enqueueOffer(offersRef.current, offer));
+        void announce(
+          'new_offer',
+          {service: bookingData.serviceType, distanceKm: offer.distanceKm},
+          {key: offerAnnouncementKey(id), expiresAt: offer.expiresAt},
+        );
+
+        // Clashes are checked up front so the warning is visible before accepting
+        if (userId) {
+          const conflicts = await checkBookingConflicts(bookingData, userId);
+          commitOffers(updateOffer(offersRef.current, id, {conflicts}));
+        }
+      } finally {
+        pendingIdsRef.current.delete(id);
+      }
+    },
+    [userId, commitOffers],
+  );
+
   useEffect(() => {
     if (!userId) return;
 
     const unsubscribe = websocketService.onNewBooking(bookingData => {
-      presentBooking(bookingData);
+      void considerBooking(bookingData);
     });
     websocketService.connect(userId);
     return () => {
       unsubscribe();
     };
-  }, [userId, presentBooking]);
+  }, [userId, considerBooking]);
+
+  // The customer cancelled or another provider got there first: pull the
+  // offer from the queue and never show that request again
+  useEffect(() => {
+    if (!userId) return;
+
+    const closeBooking = (serviceRequestId: string, messageKey: string) => {
+      if (!takeOffer(serviceRequestId)) return;
+      setToastMessage(String(t(messageKey)));
+      setShowToast(true);
+    };
+
+    const unsubscribeWithdrawn = websocketService.onBookingWithdrawn(({serviceRequestId}) =>
+      closeBooking(serviceRequestId, 'dashboard.requestWithdrawn'),
+    );
+    const unsubscribeTaken = websocketService.onBookingTakenByOther(({serviceRequestId}) =>
+      closeBooking(serviceRequestId, 'dashboard.requestTakenByOther'),
+    );
+    return () => {
+      unsubscribeWithdrawn();
+      unsubscribeTaken();
+    };
+  }, [userId, t, takeOffer]);
 
   useEffect(() => {
     if (!userId) return;
     let cancelled = false;
 
+    // Polls only run on duty; the scheduler learns the current status here
+    // and from the online toggle afterwards
+    void getMyProfile()
+      .then(profile => {
+        if (!cancelled) setOnDuty(!!profile?.isOnline);
+      })
+      .catch(() => {});
+
+    // Poll results go through the same parser as socket pushes
+    const unhandled = (items: unknown[]) =>
+      items
+        .map(parseBooking)
+        .filter(
+          (booking): booking is NewBookingEvent =>
+            !!booking && !handledIdsRef.current.has(booking.serviceRequestId),
+        );
+
     const poll = async () => {
       try {
-        const profile = await getMyProfile();
-        if (!profile?.isOnline || cancelled) return;
-
-        const pending = await serviceRequestsApi.getMyPending();
+        const pending = unhandled(await serviceRequestsApi.getMyPending());
         if (cancelled) return;
-        const nextPending = pending.find(
-          item => !handledIdsRef.current.has(bookingIdOf(item)),
-        );
-        if (nextPending) {
-          presentBooking(toBookingShape(nextPending));
-          return;
-        }
-
-        const nearby = await serviceRequestsApi.getNearbyPending();
+        const nearby = unhandled((await serviceRequestsApi.getNearbyPending()) || []);
         if (cancelled) return;
-        const nextNearby = (nearby || []).find(
-          item => !handledIdsRef.current.has(bookingIdOf(item)),
-        );
-        if (nextNearby) {
-          presentBooking(toBookingShape(nextNearby));
+        for (const booking of [...pending, ...nearby]) {
+          await considerBooking(booking);
+          if (cancelled) return;
         }
       } catch (e) {
         console.warn('[BOOKING] poll failed', e);
       }
     };
 
-    void poll();
-    const interval = setInterval(() => void poll(), 20000);
+    const unregister = registerTask({
+      id: 'booking-poll',
+      run: poll,
+      nextDelayMs: () => (isSavingPower() ? BOOKING_POLL_SAVER_MS : BOOKING_POLL_MS),
+    });
     return () => {
       cancelled = true;
-      clearInterval(interval);
+      unregister();
     };
-  }, [userId, presentBooking]);
-
-  const handleAcceptBooking = useCallback(async () => {
-    if (!incomingBooking || !userId || acceptingRef.current) return;
-    acceptingRef.current = true;
-    const bookingData = incomingBooking;
-    const id = bookingIdOf(bookingData);
-    if (id) handledIdsRef.current.add(id);
-
-    websocketService.stopSound();
-    setIncomingBooking(null);
-
-    try {
-      setLoading(true);
-      const provider = await getMyProfile();
-      if (
-        !provider ||
-        !(provider as any).address ||
-        !(provider as any).address.pincode
-      ) {
+  }, [userId, considerBooking]);
+
+  const handleAcceptBooking = useCallback(
+    async (serviceRequestId: string) => {
+      const offer = findOffer(serviceRequestId);
+      if (!offer || !userId || acceptingRef.current) return;
+      acceptingRef.current = true;
+      const bookingData = offer.booking;
+      const id = bookingData.serviceRequestId;
+
+      // Conflicts already on screen count as acknowledged; otherwise check now
+      // and stop so the provider sees the warning and confirms with a second tap
+      if (!offer.conflicts) {
+        const conflicts = await checkBookingConflicts(bookingData, userId);
+        commitOffers(updateOffer(offersRef.current, id, {conflicts}));
+        if (conflicts.length > 0) {
+          setFocusedId(id);
+          acceptingRef.current = false;
+          return;
+        }
+      }
+
+      takeOffer(id);
+
+      try {
+        setLoading(true);
+        const provider = await getMyProfile();
+        if (
+          !provider ||
+          !(provider as any).address ||
+          !(provider as any).address.pincode
+        ) {
+          showAlert(
+            String(t('common.error')),
+            String(t('dashboard.addressRequired')),
+            'error',
+          );
+          return;
+        }
+
+        await websocketService.acceptBooking(
+          bookingData,
+          provider._id || provider.id || userId,
+          provider,
+        );
+        await createJobCard(bookingData, (provider as any).address);
+        setToastMessage(String(t('dashboard.requestAccepted')));
+        setShowToast(true);
+      } catch (error: any) {
         showAlert(
           String(t('common.error')),
-          String(t('dashboard.addressRequired')),
+          getApiErrorMessage(error, String(t('dashboard.acceptRequestError'))),
           'error',
         );
-        return;
+      } finally {
+        setLoading(false);
+        acceptingRef.current = false;
       }
+    },
+    [userId, t, commitOffers, takeOffer],
+  );
 
-      await websocketService.acceptBooking(
-        bookingData,
-        provider._id || provider.id || userId,
-        provider,
-      );
-      await createJobCard(bookingData, (provider as any).address);
-      setToastMessage(String(t('dashboard.requestAccepted')));
-      setShowToast(true);
-    } catch (error: any) {
-      showAlert(
-        String(t('common.error')),
-        error.message || String(t('dashboard.acceptRequestError')),
-        'error',
-      );
-    } finally {
-      setLoading(false);
-      acceptingRef.current = false;
-    }
-  }, [incomingBooking, userId, t]);
-
-  const handleRejectBooking = useCallback(async () => {
-    if (!incomingBooking || acceptingRef.current) return;
-    const bookingData = incomingBooking;
-    const id = bookingIdOf(bookingData);
-    if (id) handledIdsRef.current.add(id);
-
-    websocketService.stopSound();
-    setIncomingBooking(null);
-    try {
-      setLoading(true);
-      await websocketService.rejectBooking(bookingData);
-      setToastMessage(String(t('dashboard.requestRejected')));
-      setShowToast(true);
-    } catch (error: any) {
-      showAlert(
-        String(t('common.error')),
-        error.message || String(t('dashboard.rejectRequestError')),
-        'error',
-      );
-    } finally {
-      setLoading(false);
-    }
-  }, [incomingBooking, t]);
-
-  const handleDismissBooking = useCallback(() => {
-    const id = bookingIdOf(incomingBooking);
-    if (id) handledIdsRef.current.add(id);
-    websocketService.stopSound();
-    setIncomingBooking(null);
-  }, [incomingBooking]);
-
-  const incomingRef = useRef<any>(null);
-  incomingRef.current = incomingBooking;
-
-  // Countdown + auto dismiss/decline
+  const handleRejectBooking = useCallback(
+    async (serviceRequestId: string) => {
+      const offer = findOffer(serviceRequestId);
+      if (!offer) return;
+      const bookingData = offer.booking;
+      takeOffer(bookingData.serviceRequestId);
+      try {
+        setLoading(true);
+        await websocketService.rejectBooking(bookingData);
+        setToastMessage(String(t('dashboard.requestRejected')));
+        setShowToast(true);
+      } catch (error: any) {
+        showAlert(
+          String(t('common.error')),
+          getApiErrorMessage(error, String(t('dashboard.rejectRequestError'))),
+          'error',
+        );
+      } finally {
+        setLoading(false);
+      }
+    },
+    [t, takeOffer],
+  );
+
+  const handleDismissBooking = useCallback(
+    (serviceRequestId: string) => {
+      const offer = findOffer(serviceRequestId);
+      if (offer) takeOffer(offer.booking.serviceRequestId);
+    },
+    [takeOffer],
+  );
+
+  // One clock drives every countdown; expired offers are auto-declined
+  const hasOffers = offers.length > 0;
   useEffect(() => {
-    if (!incomingBooking) {
-      setSecondsLeft(ACCEPT_TIMEOUT_SEC);
-      return;
-    }
-    setSecondsLeft(ACCEPT_TIMEOUT_SEC);
-    timeoutFiredRef.current = false;
-    const started = Date.now();
+    if (!hasOffers) return;
     const tick = setInterval(() => {
-      const left = Math.max(
-        0,
-        ACCEPT_TIMEOUT_SEC - Math.floor((Date.now() - started) / 1000),
-      );
-      setSecondsLeft(left);
-      if (left <= 0 && !timeoutFiredRef.current) {
-        timeoutFiredRef.current = true;
-        clearInterval(tick);
-        const booking = incomingRef.current;
-        if (!booking) return;
-        const id = bookingIdOf(booking);
-        if (id) handledIdsRef.current.add(id);
-        websocketService.stopSound();
-        setIncomingBooking(null);
-        void websocketService.rejectBooking(booking).catch(() => {});
-      }
+      const current = Date.now();
+      setNow(current);
+      offersRef.current
+        .filter(offer => offer.expiresAt <= current)
+        .forEach(offer => {
+          takeOffer(offer.booking.serviceRequestId);
+          void websocketService.rejectBooking(offer.booking).catch(() => {});
+        });
+      offersRef.current
+        .filter(
+          offer =>
+            secondsLeftFor(offer, current) <= OFFER_EXPIRING_WARN_SEC &&
+            !expiryWarnedRef.current.has(offer.booking.serviceRequestId),
+        )
+        .forEach(offer => {
+          const id = offer.booking.serviceRequestId;
+          expiryWarnedRef.current.add(id);
+          void announce(
+            'offer_expiring',
+            {seconds: secondsLeftFor(offer, current)},
+            {key: offerAnnouncementKey(id), expiresAt: offer.expiresAt},
+          );
+        });
     }, 250);
     return () => clearInterval(tick);
-  }, [incomingBooking]);
+  }, [hasOffers, takeOffer]);
+
+  const focusedOffer = useMemo(
+    () =>
+      offers.find(offer => offer.booking.serviceRequestId === focusedId) || offers[0] || null,
+    [offers, focusedId],
+  );
+  const incomingBooking = focusedOffer?.booking ?? null;
+  const secondsLeft = focusedOffer ? secondsLeftFor(focusedOffer, now) : ACCEPT_TIMEOUT_SEC;
+  const bookingConflicts = useMemo(() => focusedOffer?.conflicts ?? [], [focusedOffer]);
+  const bookingServiceArea = focusedOffer?.serviceArea ?? null;
 
   const value = useMemo(
     () => ({
+      offers,
       incomingBooking,
       secondsLeft,
+      now,
       loading,
+      bookingConflicts,
+      bookingServiceArea,
       acceptBooking: handleAcceptBooking,
       rejectBooking: handleRejectBooking,
       dismissBooking: handleDismissBooking,
+      focusBooking: setFocusedId,
       setPreferInlineCard,
     }),
     [
+      offers,
       incomingBooking,
       secondsLeft,
+      now,
       loading,
+      bookingConflicts,
+      bookingServiceArea,
       handleAcceptBooking,
       handleRejectBooking,
       handleDismissBooking,
     ],
   );
 
-  const showModal = !!incomingBooking && !preferInlineCard;
+  const showModal = !!focusedOffer && !preferInlineCard;
 
   return (
     <IncomingBookingContext.Provider value={value}>
@@ -349,13 +491,20 @@ export function IncomingBookingProvider({
 
       {showModal ? (
         <BookingAlertModal
-          key={bookingIdOf(incomingBooking) || 'booking-modal'}
+          key={incomingBooking?.serviceRequestId || 'booking-modal'}
           visible
           bookingData={incomingBooking}
           secondsLeft={secondsLeft}
-          onAccept={handleAcceptBooking}
-          onReject={handleRejectBooking}
-          onDismiss={handleDismissBooking}
+          conflicts={bookingConflicts}
+          serviceArea={bookingServiceArea}
+          onAccept={() => void handleAcceptBooking(focusedOffer.booking.serviceRequestId)}
+          onReject={() => void handleRejectBooking(focusedOffer.booking.serviceRequestId)}
+          onDismiss={() => handleDismissBooking(focusedOffer.booking.serviceRequestId)}
+          queuedOffers={offers.filter(offer => offer !== focusedOffer)}
+          now={now}
+          onSelectOffer={setFocusedId}
+          onAcceptOffer={id => void handleAcceptBooking(id)}
+          onRejectOffer={id => void handleRejectBooking(id)}
         />
       ) : null}
 
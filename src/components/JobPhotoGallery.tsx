@@ -0,0 +1,329 @@
+/**
+ * Before / after work photos on the job details screen: thumbnails per
+ * phase with upload state, capture from camera or gallery, and a
+ * full-screen viewer.
+ */
+
+import React, {useEffect, useMemo, useState} from 'react';
+import {
+  View,
+  Text,
+  Image,
+  Modal,
+  ScrollView,
+  TouchableOpacity,
+  StyleSheet,
+  ActivityIndicator,
+  Alert,
+} from 'react-native';
+import Icon from 'react-native-vector-icons/MaterialIcons';
+import type {JobCardPhoto, JobPhotoPhase} from '../services/api/jobCardsApi';
+import {
+  captureJobPhotos,
+  getLocalJobPhotos,
+  LocalJobPhoto,
+  onJobPhotosChange,
+  retryJobPhotoUploads,
+  uploadJobPhoto,
+} from '../services/jobPhotoService';
+import useTranslation from '../hooks/useTranslation';
+
+type ThemeColors = {
+  card: string;
+  text: string;
+  textSecondary: string;
+  border: string;
+  primary: string;
+};
+
+type Props = {
+  jobCardId: string;
+  /** Photos already attached to the job card */
+  photos?: JobCardPhoto[];
+  theme: ThemeColors;
+  /** Hide the add tiles once the job is closed */
+  canCapture?: boolean;
+  /** "After" photo is mandatory for this category */
+  afterRequired?: boolean;
+  onError?: (message: string) => void;
+};
+
+type GalleryItem = {
+  key: string;
+  phase: JobPhotoPhase;
+  uri: string;
+  capturedAt: string | Date;
+  latitude?: number;
+  longitude?: number;
+  /** Local photo id while it is not on the job card yet */
+  localId?: string;
+  status?: LocalJobPhoto['status'];
+};
+
+const PHASES: JobPhotoPhase[] = ['before', 'after'];
+
+export default function JobPhotoGallery({
+  jobCardId,
+  photos = [],
+  theme,
+  canCapture = false,
+  afterRequired = false,
+  onError,
+}: Props) {
+  const {t} = useTranslation();
+  const tx = (key: string, opts?: Record<string, unknown>) => String(t(key, opts));
+  const [localPhotos, setLocalPhotos] = useState<LocalJobPhoto[]>([]);
+  const [capturing, setCapturing] = useState<JobPhotoPhase | null>(null);
+  const [viewing, setViewing] = useState<GalleryItem | null>(null);
+
+  useEffect(() => {
+    let mounted = true;
+    getLocalJobPhotos(jobCardId).then(list => {
+      if (mounted) setLocalPhotos(list);
+    });
+    // Pick up uploads that failed or were interrupted last time
+    void retryJobPhotoUploads(jobCardId);
+    const unsubscribe = onJobPhotosChange((id, list) => {
+      if (id === jobCardId) setLocalPhotos(list);
+    });
+    return () => {
+      mounted = false;
+      unsubscribe();
+    };
+  }, [jobCardId]);
+
+  const items = useMemo<GalleryItem[]>(() => {
+    const remote: GalleryItem[] = photos.map((photo, index) => ({
+      key: photo._id || `${photo.url}-${index}`,
+      phase: photo.phase,
+      uri: photo.url,
+      capturedAt: photo.capturedAt,
+      latitude: photo.latitude,
+      longitude: photo.longitude,
+    }));
+    const remoteUrls = new Set(photos.map(photo => photo.url));
+    const local: GalleryItem[] = localPhotos
+      .filter(photo => !(photo.url && remoteUrls.has(photo.url)))
+      .map(photo => ({
+        key: photo.id,
+        phase: photo.phase,
+        uri: photo.localPath ? `file://${photo.localPath}` : photo.url || '',
+        capturedAt: photo.capturedAt,
+        latitude: photo.latitude,
+        longitude: photo.longitude,
+        localId: photo.status === 'uploaded' ? undefined : photo.id,
+        status: photo.status,
+      }))
+      .filter(item => !!item.uri);
+    return [...remote, ...local];
+  }, [photos, localPhotos]);
+
+  const capture = async (phase: JobPhotoPhase, source: 'camera' | 'library') => {
+    try {
+      setCapturing(phase);
+      await captureJobPhotos(jobCardId, phase, source);
+    } catch (error: any) {
+      onError?.(error?.message || tx('jobDetails.photos.captureFailed'));
+    } finally {
+      setCapturing(null);
+    }
+  };
+
+  const handleAdd = (phase: JobPhotoPhase) => {
+    Alert.alert(tx(`jobDetails.photos.add.${phase}`), undefined, [
+      {text: tx('jobDetails.photos.camera'), onPress: () => void capture(phase, 'camera')},
+      {text: tx('jobDetails.photos.gallery'), onPress: () => void capture(phase, 'library')},
+      {text: tx('common.cancel'), style: 'cancel'},
+    ]);
+  };
+
+  const handlePress = (item: GalleryItem) => {
+    if (item.localId && item.status === 'failed') {
+      void uploadJobPhoto(item.localId);
+      return;
+    }
+    setViewing(item);
+  };
+
+  const formatCapturedAt = (value: string | Date) => {
+    const date = new Date(value);
+    return Number.isNaN(date.getTime())
+      ? ''
+      : date.toLocaleString(undefined, {day: 'numeric', month: 'short', hour: '2-digit', minute: '2-digit'});
+  };
+
+  return (
+    <View style={[styles.card, {backgroundColor: theme.card}]}>
+      <Text style={[styles.title, {color: theme.text}]}>{tx('jobDetails.photos.title')}</Text>
+
+      {PHASES.map(phase => {
+        const phaseItems = items.filter(item => item.phase === phase);
+        const missingRequired = phase === 'after' && afterRequired && phaseItems.length === 0;
+        return (
+          <View key={phase} style={styles.section}>
+            <View style={styles.sectionHeader}>
+              <Text style={[styles.sectionTitle, {color: theme.textSecondary}]}>
+                {tx(`jobDetails.photos.${phase}`)}
+              </Text>
+              {missingRequired && (
+                <Text style={styles.required}>{tx('jobDetails.photos.afterRequired')}</Text>
+              )}
+            </View>
+            <ScrollView horizontal showsHorizontalScrollIndicator={false}>
+              {phaseItems.map(item => (
+                <TouchableOpacity
+                  key={item.key}
+                  style={styles.thumbWrapper}
+                  onPress={() => handlePress(item)}>
+                  <Image source={{uri: item.uri}} style={[styles.thumb, {borderColor: theme.border}]} />
+                  {item.localId && (
+                    <View style={styles.overlay}>
+                      {item.status === 'failed' ? (
+                        <>
+                          <Icon name="refresh" size={22} color="#fff" />
+                          <Text style={styles.overlayText}>{tx('jobDetails.photos.retry')}</Text>
+                        </>
+                      ) : (
+                        <ActivityIndicator size="small" color="#fff" />
+                      )}
+                    </View>
+                  )}
+                </TouchableOpacity>
+              ))}
+              {canCapture && (
+                <TouchableOpacity
+                  style={[styles.thumb, styles.addTile, {borderColor: theme.primary}]}
+                  onPress={() => handleAdd(phase)}
+                  disabled={capturing !== null}>
+                  {capturing === phase ? (
+                    <ActivityIndicator size="small" color={theme.primary} />
+                  ) : (
+                    <Icon name="add-a-photo" size={26} color={theme.primary} />
+                  )}
+                </TouchableOpacity>
+              )}
+              {!canCapture && phaseItems.length === 0 && (
+                <Text style={[styles.empty, {color: theme.textSecondary}]}>
+                  {tx('jobDetails.photos.none')}
+                </Text>
+              )}
+            </ScrollView>
+          </View>
+        );
+      })}
+
+      <Modal
+        visible={!!viewing}
+        transparent
+        animationType="fade"
+        onRequestClose={() => setViewing(null)}>
+        <View style={styles.viewer}>
+          <TouchableOpacity style={styles.viewerClose} onPress={() => setViewing(null)}>
+            <Icon name="close" size={28} color="#fff" />
+          </TouchableOpacity>
+          {viewing && (
+            <>
+              <Image source={{uri: viewing.uri}} style={styles.viewerImage} resizeMode="contain" />
+              <Text style={styles.viewerCaption}>
+                {tx(`jobDetails.photos.${viewing.phase}`)} · {formatCapturedAt(viewing.capturedAt)}
+                {viewing.latitude != null && viewing.longitude != null
+                  ? `\n${viewing.latitude.toFixed(5)}, ${viewing.longitude.toFixed(5)}`
+                  : ''}
+              </Text>
+            </>
+          )}
+        </View>
+      </Modal>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  card: {
+    padding: 16,
+    marginHorizontal: 16,
+    marginBottom: 12,
+    borderRadius: 12,
+    elevation: 2,
+    shadowColor: '#000',
+    shadowOffset: {width: 0, height: 1},
+    shadowOpacity: 0.22,
+    shadowRadius: 2.22,
+  },
+  title: {
+    fontSize: 18,
+    fontWeight: '600',
+    marginBottom: 8,
+  },
+  section: {
+    marginTop: 8,
+  },
+  sectionHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: 8,
+  },
+  sectionTitle: {
+    fontSize: 14,
+    fontWeight: '600',
+  },
+  required: {
+    fontSize: 12,
+    fontWeight: '600',
+    color: '#FF3B30',
+  },
+  thumbWrapper: {
+    marginRight: 8,
+  },
+  thumb: {
+    width: 80,
+    height: 80,
+    borderRadius: 8,
+    borderWidth: StyleSheet.hairlineWidth,
+  },
+  addTile: {
+    borderWidth: 1.5,
+    borderStyle: 'dashed',
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  overlay: {
+    ...StyleSheet.absoluteFillObject,
+    borderRadius: 8,
+    backgroundColor: 'rgba(0,0,0,0.45)',
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  overlayText: {
+    color: '#fff',
+    fontSize: 11,
+    fontWeight: '600',
+  },
+  empty: {
+    fontSize: 14,
+    paddingVertical: 8,
+  },
+  viewer: {
+    flex: 1,
+    backgroundColor: 'rgba(0,0,0,0.95)',
+    justifyContent: 'center',
+  },
+  viewerClose: {
+    position: 'absolute',
+    top: 40,
+    right: 20,
+    zIndex: 1,
+    padding: 8,
+  },
+  viewerImage: {
+    width: '100%',
+    height: '75%',
+  },
+  viewerCaption: {
+    color: '#fff',
+    fontSize: 13,
+    textAlign: 'center',
+    marginTop: 12,
+  },
+});
@@ -0,0 +1,506 @@
+/**
+ * One KYC document on the profile setup screen: its review status and
+ * validity, and — for a new, rejected or lapsing document — the form to
+ * upload a replacement (type, number, issue / expiry date, file).
+ */
+
+import React, {useState} from 'react';
+import {
+  View,
+  Text,
+  TextInput,
+  Image,
+  TouchableOpacity,
+  ActivityIndicator,
+  StyleSheet,
+  Platform,
+} from 'react-native';
+import Icon from 'react-native-vector-icons/MaterialIcons';
+import DateTimePicker, {DateTimePickerEvent} from '@react-native-community/datetimepicker';
+import type {
+  DocumentSubmission,
+  ProviderDocument,
+  ProviderDocumentKind,
+} from '../services/api/documentsApi';
+import {
+  canReplaceDocument,
+  daysUntilExpiry,
+  DOCUMENT_TYPES,
+  EXPIRING_TYPES,
+  expiryStateOf,
+  formatDocumentDate,
+  ID_NUMBER_KINDS,
+  parseDocumentDate,
+  REQUIRED_DOCUMENT_KINDS,
+  validateDocumentNumber,
+} from '../services/kycDocumentService';
+import {idNumberErrorKey, maskIdNumber} from '../utils/identity';
+import useTranslation from '../hooks/useTranslation';
+
+/** A submission being filled in (fileUrl is empty until the upload finishes) */
+export type DocumentDraft = Omit<DocumentSubmission, 'kind'>;
+
+type Props = {
+  kind: ProviderDocumentKind;
+  document?: ProviderDocument;
+  draft?: DocumentDraft;
+  uploading: boolean;
+  onPickFile: () => void;
+  onChangeDraft: (patch: Partial<DocumentDraft>) => void;
+  onRemove: () => void;
+};
+
+const STATUS_COLORS = {
+  pending: {color: '#FF9500', background: '#FFF3E0', icon: 'hourglass-empty'},
+  verified: {color: '#4CAF50', background: '#E8F5E9', icon: 'verified'},
+  rejected: {color: '#FF3B30', background: '#FFEBEE', icon: 'error-outline'},
+} as const;
+
+type DateField = 'issueDate' | 'expiryDate';
+
+export default function KycDocumentCard({
+  kind,
+  document,
+  draft,
+  uploading,
+  onPickFile,
+  onChangeDraft,
+  onRemove,
+}: Props) {
+  const {t} = useTranslation();
+  const tx = (key: string, opts?: any) => String(t(key, opts));
+  const [pickingDate, setPickingDate] = useState<DateField | null>(null);
+  // Number errors show once the field is left, not on every keystroke
+  const [numberTouched, setNumberTouched] = useState(false);
+
+  const required = REQUIRED_DOCUMENT_KINDS.includes(kind);
+  const expiry = document ? expiryStateOf(document) : 'valid';
+  const daysLeft = document ? daysUntilExpiry(document) : null;
+  const replaceable = canReplaceDocument(document);
+
+  const handleDatePicked = (event: DateTimePickerEvent, date?: Date) => {
+    const field = pickingDate;
+    // Android closes the dialog itself; iOS keeps the inline spinner open
+    if (Platform.OS === 'android') setPickingDate(null);
+    if (!field || event.type === 'dismissed' || !date) return;
+    onChangeDraft({[field]: formatDocumentDate(date)});
+  };
+
+  const renderStatus = () => {
+    if (!document) return null;
+    const colors = STATUS_COLORS[document.status];
+    return (
+      <View style={[styles.badge, {backgroundColor: colors.background}]}>
+        <Icon name={colors.icon} size={14} color={colors.color} />
+        <Text style={[styles.badgeText, {color: colors.color}]}>
+          {tx(`kyc.status.${document.status}`)}
+        </Text>
+      </View>
+    );
+  };
+
+  const renderUploadButton = (label: string) => (
+    <TouchableOpacity
+      style={[styles.uploadButton, uploading && styles.uploadButtonDisabled]}
+      onPress={onPickFile}
+      disabled={uploading}>
+      {uploading ? (
+        <ActivityIndicator color="#007AFF" />
+      ) : (
+        <>
+          <Icon name="cloud-upload" size={24} color="#007AFF" />
+          <Text style={styles.uploadButtonText}>{label}</Text>
+        </>
+      )}
+    </TouchableOpacity>
+  );
+
+  const renderDraft = (value: DocumentDraft) => {
+    const needsExpiry = EXPIRING_TYPES.includes(value.type);
+    const dateFields: DateField[] = needsExpiry ? ['issueDate', 'expiryDate'] : ['issueDate'];
+    const pickerDate = (pickingDate && parseDocumentDate(value[pickingDate])) || new Date();
+    const numberKind = ID_NUMBER_KINDS[value.type];
+    const numberCheck = validateDocumentNumber(value.type, value.number);
+    const numberError =
+      numberTouched && numberKind && numberCheck?.error
+        ? tx(idNumberErrorKey(numberKind, numberCheck.error))
+        : null;
+    return (
+      <View>
+        <Text style={styles.fieldLabel}>{tx('kyc.documentType')}</Text>
+        <View style={styles.chipRow}>
+          {DOCUMENT_TYPES[kind].map(type => {
+            const selected = type === value.type;
+            return (
+              <TouchableOpacity
+                key={type}
+                style={[styles.chip, selected && styles.chipSelected]}
+                onPress={() =>
+                  onChangeDraft({
+                    type,
+                    expiryDate: EXPIRING_TYPES.includes(type) ? value.expiryDate : undefined,
+                  })
+                }>
+                <Text style={[styles.chipText, selected && styles.chipTextSelected]}>
+                  {tx(`kyc.types.${type}`)}
+                </Text>
+              </TouchableOpacity>
+            );
+          })}
+        </View>
+
+        <Text style={styles.fieldLabel}>{tx('kyc.number')}</Text>
+        <TextInput
+          style={[styles.input, numberError ? styles.inputError : null]}
+          value={value.number || ''}
+          onChangeText={number => onChangeDraft({number})}
+          onBlur={() => setNumberTouched(true)}
+          placeholder={tx('kyc.numberPlaceholder')}
+          placeholderTextColor="#999"
+          autoCapitalize="characters"
+          autoCorrect={false}
+          keyboardType={value.type === 'aadhaar' ? 'number-pad' : 'default'}
+        />
+        {numberError ? <Text style={styles.errorText}>{numberError}</Text> : null}
+
+        <View style={styles.dateRow}>
+          {dateFields.map(field => (
+            <View key={field} style={styles.dateField}>
+              <Text style={styles.fieldLabel}>
+                {tx(`kyc.${field}`)}
+                {field === 'expiryDate' ? ' *' : ''}
+              </Text>
+              <TouchableOpacity style={styles.dateButton} onPress={() => setPickingDate(field)}>
+                <Icon name="event" size={18} color="#007AFF" />
+                <Text style={[styles.dateText, !value[field] && styles.placeholderText]}>
+                  {value[field] || tx('kyc.pickDate')}
+                </Text>
+              </TouchableOpacity>
+            </View>
+          ))}
+        </View>
+        {pickingDate && (
+          <View>
+            <DateTimePicker
+              value={pickerDate}
+              mode="date"
+              minimumDate={pickingDate === 'expiryDate' ? new Date() : undefined}
+              maximumDate={pickingDate === 'issueDate' ? new Date() : undefined}
+              display={Platform.OS === 'ios' ? 'spinner' : 'default'}
+              onChange={handleDatePicked}
+            />
+            {Platform.OS === 'ios' && (
+              <TouchableOpacity style={styles.doneButton} onPress={() => setPickingDate(null)}>
+                <Text style={styles.doneText}>{tx('common.ok')}</Text>
+              </TouchableOpacity>
+            )}
+          </View>
+        )}
+
+        {value.fileUrl ? (
+          <View style={styles.documentPreview}>
+            <Image source={{uri: value.fileUrl}} style={styles.documentImage} />
+            <TouchableOpacity style={styles.removeButton} onPress={onRemove}>
+              <Icon name="delete" size={20} color="#FF3B30" />
+            </TouchableOpacity>
+            <TouchableOpacity
+              style={styles.replaceButton}
+              onPress={onPickFile}
+              disabled={uploading}>
+              {uploading ? (
+                <ActivityIndicator color="#007AFF" size="small" />
+              ) : (
+                <Icon name="cloud-upload" size={20} color="#007AFF" />
+              )}
+            </TouchableOpacity>
+          </View>
+        ) : (
+          renderUploadButton(tx('kyc.uploadFile'))
+        )}
+        {document && (
+          <TouchableOpacity style={styles.linkButton} onPress={onRemove}>
+            <Text style={styles.linkText}>{tx('kyc.keepCurrent')}</Text>
+          </TouchableOpacity>
+        )}
+      </View>
+    );
+  };
+
+  const renderDocument = (current: ProviderDocument) => (
+    <View>
+      <View style={styles.documentPreview}>
+        <Image source={{uri: current.fileUrl}} style={styles.documentImage} />
+        {current.status !== 'verified' && (
+          <TouchableOpacity style={styles.removeButton} onPress={onRemove}>
+            <Icon name="delete" size={20} color="#FF3B30" />
+          </TouchableOpacity>
+        )}
+      </View>
+      <Text style={styles.detailText}>
+        {[
+          tx(`kyc.types.${current.type}`),
+          maskIdNumber(current.number, ID_NUMBER_KINDS[current.type]),
+          current.expiryDate ? tx('kyc.expiresOn', {date: current.expiryDate}) : null,
+        ]
+          .filter(Boolean)
+          .join(' · ')}
+      </Text>
+      {replaceable && renderUploadButton(tx('kyc.uploadReplacement'))}
+    </View>
+  );
+
+  return (
+    <View style={styles.documentSection}>
+      <View style={styles.labelRow}>
+        <Text style={styles.documentLabel}>
+          {tx(`kyc.kinds.${kind}`)}
+          {required ? ' *' : ''}
+        </Text>
+        {renderStatus()}
+      </View>
+      <Text style={styles.optionalText}>{tx(`kyc.kindHints.${kind}`)}</Text>
+
+      {document?.status === 'rejected' && (
+        <View style={[styles.notice, styles.rejectedNotice]}>
+          <Icon name="error-outline" size={18} color="#FF3B30" />
+          <Text style={styles.noticeText}>
+            {document.rejectionReason
+              ? tx('kyc.rejectedWithReason', {reason: document.rejectionReason})
+              : tx('kyc.rejected')}
+          </Text>
+        </View>
+      )}
+      {document && document.status !== 'rejected' && expiry !== 'valid' && (
+        <View style={[styles.notice, styles.expiryNotice]}>
+          <Icon name="schedule" size={18} color="#FF9500" />
+          <Text style={styles.noticeText}>
+            {expiry === 'expired'
+              ? tx('kyc.expired')
+              : tx('kyc.expiresInDays', {count: daysLeft ?? 0})}
+          </Text>
+        </View>
+      )}
+
+      {draft
+        ? renderDraft(draft)
+        : document
+        ? renderDocument(document)
+        : renderUploadButton(tx(`kyc.upload.${kind}`))}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  documentSection: {
+    marginBottom: 20,
+    marginTop: 8,
+  },
+  labelRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    marginBottom: 4,
+  },
+  documentLabel: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#333',
+    flex: 1,
+  },
+  optionalText: {
+    fontSize: 12,
+    color: '#999',
+    marginBottom: 8,
+    fontStyle: 'italic',
+  },
+  badge: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingHorizontal: 8,
+    paddingVertical: 4,
+    borderRadius: 12,
+    gap: 4,
+  },
+  badgeText: {
+    fontSize: 12,
+    fontWeight: '600',
+  },
+  notice: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    padding: 10,
+    borderRadius: 8,
+    marginBottom: 8,
+    gap: 8,
+    borderLeftWidth: 3,
+  },
+  rejectedNotice: {
+    backgroundColor: '#FFEBEE',
+    borderLeftColor: '#FF3B30',
+  },
+  expiryNotice: {
+    backgroundColor: '#FFF3E0',
+    borderLeftColor: '#FF9500',
+  },
+  noticeText: {
+    flex: 1,
+    fontSize: 13,
+    color: '#333',
+  },
+  fieldLabel: {
+    fontSize: 13,
+    fontWeight: '500',
+    color: '#666',
+    marginTop: 8,
+    marginBottom: 6,
+  },
+  chipRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+  },
+  chip: {
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 16,
+    borderWidth: 1,
+    borderColor: '#ddd',
+    backgroundColor: '#fff',
+  },
+  chipSelected: {
+    backgroundColor: '#007AFF',
+    borderColor: '#007AFF',
+  },
+  chipText: {
+    fontSize: 13,
+    color: '#333',
+  },
+  chipTextSelected: {
+    color: '#fff',
+  },
+  input: {
+    borderWidth: 1,
+    borderColor: '#ddd',
+    borderRadius: 8,
+    padding: 12,
+    fontSize: 16,
+    backgroundColor: '#fff',
+    color: '#333',
+  },
+  inputError: {
+    borderColor: '#FF3B30',
+  },
+  errorText: {
+    fontSize: 12,
+    color: '#FF3B30',
+    marginTop: 4,
+  },
+  dateRow: {
+    flexDirection: 'row',
+    gap: 12,
+  },
+  dateField: {
+    flex: 1,
+  },
+  dateButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    borderWidth: 1,
+    borderColor: '#ddd',
+    borderRadius: 8,
+    padding: 12,
+    backgroundColor: '#fff',
+    gap: 6,
+  },
+  dateText: {
+    fontSize: 14,
+    color: '#333',
+  },
+  placeholderText: {
+    color: '#999',
+  },
+  doneButton: {
+    alignSelf: 'flex-end',
+    padding: 8,
+  },
+  doneText: {
+    color: '#007AFF',
+    fontSize: 14,
+    fontWeight: '600',
+  },
+  uploadButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    paddingVertical: 14,
+    paddingHorizontal: 20,
+    marginTop: 12,
+    borderRadius: 8,
+    borderWidth: 2,
+    borderColor: '#007AFF',
+    borderStyle: 'dashed',
+    backgroundColor: '#f8f9ff',
+    gap: 8,
+  },
+  uploadButtonDisabled: {
+    opacity: 0.5,
+  },
+  uploadButtonText: {
+    color: '#007AFF',
+    fontSize: 16,
+    fontWeight: '500',
+  },
+  documentPreview: {
+    position: 'relative',
+    marginTop: 12,
+    borderRadius: 8,
+    overflow: 'hidden',
+    borderWidth: 1,
+    borderColor: '#ddd',
+    backgroundColor: '#fff',
+  },
+  documentImage: {
+    width: '100%',
+    height: 200,
+    resizeMode: 'contain',
+    backgroundColor: '#f5f5f5',
+  },
+  removeButton: {
+    position: 'absolute',
+    top: 8,
+    right: 8,
+    backgroundColor: '#fff',
+    borderRadius: 20,
+    width: 36,
+    height: 36,
+    justifyContent: 'center',
+    alignItems: 'center',
+    elevation: 5,
+  },
+  replaceButton: {
+    position: 'absolute',
+    top: 8,
+    right: 48,
+    backgroundColor: '#fff',
+    borderRadius: 20,
+    width: 36,
+    height: 36,
+    justifyContent: 'center',
+    alignItems: 'center',
+    elevation: 5,
+  },
+  detailText: {
+    fontSize: 13,
+    color: '#666',
+    marginTop: 8,
+  },
+  linkButton: {
+    alignSelf: 'flex-start',
+    paddingVertical: 8,
+  },
+  linkText: {
+    color: '#007AFF',
+    fontSize: 14,
+    fontWeight: '500',
+  },
+});
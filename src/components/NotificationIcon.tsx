@@ -9,9 +9,8 @@ interface NotificationIconProps {
 }
 
 const NotificationIcon: React.FC<NotificationIconProps> = ({onPress}) => {
-  const {isDarkMode, getUnreadCount, currentUser} = useStore();
+  const {isDarkMode, unreadNotificationCount: unreadCount} = useStore();
   const theme = isDarkMode ? darkTheme : lightTheme;
-  const unreadCount = getUnreadCount(currentUser?.id);
 
   return (
     <TouchableOpacity
@@ -1,4 +1,4 @@
-import React, {useState} from 'react';
+import React, {useEffect, useState} from 'react';
 import {
   Modal,
   View,
@@ -15,6 +15,7 @@ import Icon from 'react-native-vector-icons/Ionicons';
 import {useStore} from '../store';
 import {lightTheme, darkTheme} from '../utils/theme';
 import useTranslation from '../hooks/useTranslation';
+import {getApiErrorMessage} from '../utils/apiErrorMessages';
 
 interface Material {
   description: string;
@@ -28,13 +29,35 @@ interface PINVerificationModalProps {
   onVerify: (pin: string, amount?: number, materials?: Material[], timeStarted?: Date, timeCompleted?: Date) => Promise<void>;
   onCancel: () => void;
   timeStarted?: Date;
+  /** Pre-fill from the approved quotation */
+  initialAmount?: number;
+  initialMaterials?: Array<{
+    description: string;
+    quantity?: number;
+    unitPrice?: number;
+    total?: number;
+  }>;
 }
 
+const toMaterialInputs = (
+  materials?: PINVerificationModalProps['initialMaterials'],
+): Material[] =>
+  materials && materials.length > 0
+    ? materials.map(m => ({
+        description: m.description,
+        quantity: m.quantity != null ? String(m.quantity) : '',
+        unitPrice: m.unitPrice != null ? String(m.unitPrice) : '',
+        total: m.total != null ? m.total.toFixed(2) : '',
+      }))
+    : [{description: '', quantity: '', unitPrice: ''}];
+
 const PINVerificationModal: React.FC<PINVerificationModalProps> = ({
   visible,
   onVerify,
   onCancel,
   timeStarted,
+  initialAmount,
+  initialMaterials,
 }) => {
   const {isDarkMode} = useStore();
   const theme = isDarkMode ? darkTheme : lightTheme;
@@ -45,6 +68,14 @@ const PINVerificationModal: React.FC<PINVerificationModalProps> = ({
   const [amount, setAmount] = useState('');
   const [materials, setMaterials] = useState<Material[]>([{description: '', quantity: '', unitPrice: ''}]);
   const [showAmountSection, setShowAmountSection] = useState(false);
+  const prefilled = initialAmount != null || !!initialMaterials?.length;
+
+  useEffect(() => {
+    if (!visible || !prefilled) return;
+    setAmount(initialAmount != null ? String(initialAmount) : '');
+    setMaterials(toMaterialInputs(initialMaterials));
+    setShowAmountSection(true);
+  }, [visible]);
 
   const handleVerify = async () => {
     if (!pin || pin.length !== 4) {
@@ -74,7 +105,7 @@ const PINVerificationModal: React.FC<PINVerificationModalProps> = ({
       setMaterials([{description: '', quantity: '', unitPrice: ''}]);
       setShowAmountSection(false);
     } catch (err: any) {
-      setError(err.message || String(t('jobDetails.invalidPIN')));
+      setError(getApiErrorMessage(err, String(t('jobDetails.invalidPIN'))));
     } finally {
       setVerifying(false);
     }
@@ -196,6 +227,11 @@ const PINVerificationModal: React.FC<PINVerificationModalProps> = ({
               {/* Amount and Materials Section */}
               {showAmountSection && (
                 <View style={styles.amountSection}>
+                  {prefilled && (
+                    <Text style={[styles.prefillNote, {color: theme.textSecondary}]}>
+                      {String(t('jobDetails.quotation.prefilled'))}
+                    </Text>
+                  )}
                   {/* Service Amount */}
                   <View style={styles.amountInputContainer}>
                     <Text style={[styles.label, {color: theme.text}]}>
@@ -384,6 +420,10 @@ const styles = StyleSheet.create({
   amountSection: {
     marginBottom: 20,
   },
+  prefillNote: {
+    fontSize: 12,
+    marginBottom: 12,
+  },
   amountInputContainer: {
     marginBottom: 16,
   },
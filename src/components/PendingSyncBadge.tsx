@@ -0,0 +1,56 @@
+/**
+ * Small "pending sync" / "sync conflict" pill for job cards with queued
+ * offline actions.
+ */
+
+import React from 'react';
+import {View, Text, StyleSheet, StyleProp, ViewStyle} from 'react-native';
+import Icon from 'react-native-vector-icons/MaterialIcons';
+import useTranslation from '../hooks/useTranslation';
+
+type Props = {
+  pendingCount: number;
+  conflictCount?: number;
+  style?: StyleProp<ViewStyle>;
+};
+
+export default function PendingSyncBadge({
+  pendingCount,
+  conflictCount = 0,
+  style,
+}: Props) {
+  const {t} = useTranslation();
+  if (pendingCount <= 0 && conflictCount <= 0) return null;
+
+  const conflict = conflictCount > 0;
+  const color = conflict ? '#FF3B30' : '#FF9500';
+
+  return (
+    <View style={[styles.badge, {backgroundColor: color + '20'}, style]}>
+      <Icon name={conflict ? 'sync-problem' : 'sync'} size={14} color={color} />
+      <Text style={[styles.text, {color}]}>
+        {String(
+          conflict
+            ? t('jobCards.syncConflict')
+            : t('jobCards.pendingSync', {count: pendingCount}),
+        )}
+      </Text>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  badge: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    alignSelf: 'flex-start',
+    gap: 4,
+    paddingHorizontal: 8,
+    paddingVertical: 3,
+    borderRadius: 10,
+  },
+  text: {
+    fontSize: 12,
+    fontWeight: '600',
+  },
+});
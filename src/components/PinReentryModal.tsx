@@ -0,0 +1,232 @@
+import React, {useEffect, useState} from 'react';
+import {
+  Modal,
+  View,
+  Text,
+  StyleSheet,
+  TouchableOpacity,
+  Dimensions,
+  KeyboardAvoidingView,
+  Platform,
+  ActivityIndicator,
+} from 'react-native';
+import Icon from 'react-native-vector-icons/Ionicons';
+import {useStore} from '../store';
+import {lightTheme, darkTheme} from '../utils/theme';
+import useTranslation from '../hooks/useTranslation';
+import {getApiErrorMessage} from '../utils/apiErrorMessages';
+import {UnauthorizedError} from '../services/api/apiErrors';
+import {confirmPin} from '../services/payoutAccountService';
+import PinBoxesInput from './PinBoxesInput';
+
+const PIN_LENGTH = 6;
+
+interface PinReentryModalProps {
+  visible: boolean;
+  /** Why the PIN is being asked for */
+  message?: string;
+  onConfirmed: () => void;
+  onCancel: () => void;
+}
+
+/**
+ * Asks for the login PIN again before a sensitive change (payout details)
+ */
+const PinReentryModal: React.FC<PinReentryModalProps> = ({
+  visible,
+  message,
+  onConfirmed,
+  onCancel,
+}) => {
+  const {isDarkMode} = useStore();
+  const theme = isDarkMode ? darkTheme : lightTheme;
+  const {t} = useTranslation();
+  const [pin, setPin] = useState('');
+  const [checking, setChecking] = useState(false);
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    if (!visible) {
+      setPin('');
+      setError('');
+    }
+  }, [visible]);
+
+  const handleConfirm = async (code: string = pin) => {
+    if (code.length !== PIN_LENGTH) {
+      setError(String(t('auth.pinMustBeSixDigits')));
+      return;
+    }
+    if (checking) return;
+    setChecking(true);
+    setError('');
+    try {
+      await confirmPin(code);
+      onConfirmed();
+    } catch (err) {
+      setError(
+        err instanceof UnauthorizedError
+          ? String(t('auth.incorrectPin'))
+          : getApiErrorMessage(err, String(t('auth.incorrectPin'))),
+      );
+      setPin('');
+    } finally {
+      setChecking(false);
+    }
+  };
+
+  return (
+    <Modal visible={visible} transparent={true} animationType="fade" onRequestClose={onCancel}>
+      <KeyboardAvoidingView
+        behavior={Platform.OS === 'ios' ? 'padding' : 'height'}
+        style={styles.overlay}>
+        <View style={[styles.modalContainer, {backgroundColor: theme.card}]}>
+          <View style={styles.headerContainer}>
+            <View style={[styles.iconContainer, {backgroundColor: theme.primary + '15'}]}>
+              <Icon name="lock-closed" size={32} color={theme.primary} />
+            </View>
+            <Text style={[styles.headerTitle, {color: theme.text}]}>
+              {String(t('payouts.reauth.title'))}
+            </Text>
+            <Text style={[styles.headerSubtitle, {color: theme.textSecondary}]}>
+              {message || String(t('payouts.reauth.message'))}
+            </Text>
+          </View>
+
+          <PinBoxesInput
+            value={pin}
+            length={PIN_LENGTH}
+            onChange={(text: string) => {
+              setPin(text);
+              setError('');
+            }}
+            onComplete={(code: string) => {
+              void handleConfirm(code);
+            }}
+            editable={!checking}
+            autoFocus
+            secure
+            cellBackground={theme.background}
+            cellBorder={error ? '#FF3B30' : theme.border}
+            textColor={theme.text}
+            focusedBorder={theme.primary}
+          />
+          {error ? <Text style={styles.errorText}>{error}</Text> : null}
+
+          <View style={styles.buttonContainer}>
+            <TouchableOpacity
+              style={[
+                styles.cancelButton,
+                {borderColor: theme.border, backgroundColor: theme.background},
+              ]}
+              onPress={onCancel}
+              disabled={checking}>
+              <Text style={[styles.cancelButtonText, {color: theme.text}]}>
+                {String(t('common.cancel'))}
+              </Text>
+            </TouchableOpacity>
+            <TouchableOpacity
+              style={[
+                styles.confirmButton,
+                {backgroundColor: theme.primary, opacity: checking ? 0.6 : 1},
+              ]}
+              onPress={() => void handleConfirm()}
+              disabled={checking || pin.length !== PIN_LENGTH}>
+              {checking ? (
+                <ActivityIndicator color="#FFFFFF" />
+              ) : (
+                <Text style={styles.confirmButtonText}>{String(t('common.confirm'))}</Text>
+              )}
+            </TouchableOpacity>
+          </View>
+        </View>
+      </KeyboardAvoidingView>
+    </Modal>
+  );
+};
+
+const {width} = Dimensions.get('window');
+const modalWidth = width * 0.85;
+
+const styles = StyleSheet.create({
+  overlay: {
+    flex: 1,
+    backgroundColor: 'rgba(0, 0, 0, 0.5)',
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  modalContainer: {
+    width: modalWidth,
+    maxWidth: 400,
+    borderRadius: 20,
+    padding: 24,
+    elevation: 10,
+    shadowColor: '#000',
+    shadowOffset: {width: 0, height: 4},
+    shadowOpacity: 0.3,
+    shadowRadius: 8,
+  },
+  headerContainer: {
+    alignItems: 'center',
+    marginBottom: 20,
+  },
+  iconContainer: {
+    width: 64,
+    height: 64,
+    borderRadius: 32,
+    justifyContent: 'center',
+    alignItems: 'center',
+    marginBottom: 12,
+  },
+  headerTitle: {
+    fontSize: 20,
+    fontWeight: '700',
+    textAlign: 'center',
+    marginBottom: 8,
+  },
+  headerSubtitle: {
+    fontSize: 14,
+    textAlign: 'center',
+    lineHeight: 20,
+  },
+  errorText: {
+    color: '#FF3B30',
+    fontSize: 12,
+    marginTop: 8,
+    textAlign: 'center',
+  },
+  buttonContainer: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    gap: 12,
+    marginTop: 24,
+  },
+  cancelButton: {
+    flex: 1,
+    paddingVertical: 14,
+    paddingHorizontal: 20,
+    borderRadius: 12,
+    borderWidth: 1.5,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  cancelButtonText: {
+    fontSize: 15,
+    fontWeight: '600',
+  },
+  confirmButton: {
+    flex: 1,
+    paddingVertical: 14,
+    paddingHorizontal: 20,
+    borderRadius: 12,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  confirmButtonText: {
+    color: '#FFFFFF',
+    fontSize: 15,
+    fontWeight: '700',
+  },
+});
+
+export default PinReentryModal;
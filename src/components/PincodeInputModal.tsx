@@ -15,6 +15,7 @@ import {lightTheme, darkTheme} from '../utils/theme';
 import auth from '@react-native-firebase/auth';
 import firestore from '@react-native-firebase/firestore';
 import GeolocationService from '../services/geolocationService';
+import {geocodePincode} from '../services/geocodingService';
 
 interface PincodeInputModalProps {
   visible: boolean;
@@ -89,8 +90,8 @@ const PincodeInputModal: React.FC<PincodeInputModalProps> = ({
     const timeoutId = setTimeout(async () => {
       setIsFetchingAddress(true);
       try {
-        const addressData = await GeolocationService.geocodePincode(pincode.trim());
-        if (addressData.address) {
+        const addressData = await geocodePincode(pincode.trim());
+        if (addressData?.address) {
           setAddress(addressData.address);
         } else {
           setAddress('');
@@ -132,11 +133,11 @@ const PincodeInputModal: React.FC<PincodeInputModalProps> = ({
 
       // Always re-geocode from pincode to ensure address matches the pincode
       // This fixes cases where GPS coordinates gave wrong address
-      const geocodeData = await GeolocationService.geocodePincode(pincode.trim());
-      if (geocodeData.address && geocodeData.country === 'India') {
+      const geocodeData = await geocodePincode(pincode.trim());
+      if (geocodeData?.address && geocodeData.country === 'India') {
         // Use address from pincode geocoding (most accurate)
         addressData.address = geocodeData.address;
-        addressData.city = geocodeData.city;
+        addressData.city = geocodeData.city || geocodeData.district;
         addressData.state = geocodeData.state;
         addressData.country = geocodeData.country || 'India';
         if (geocodeData.latitude) addressData.latitude = geocodeData.latitude;
@@ -179,7 +180,7 @@ const PincodeInputModal: React.FC<PincodeInputModalProps> = ({
             }
           } else {
             // For non-Indian pincodes, use geocoded data if available
-            if (geocodeData.address) {
+            if (geocodeData?.address) {
               addressData.address = geocodeData.address;
               addressData.city = geocodeData.city;
               addressData.state = geocodeData.state;
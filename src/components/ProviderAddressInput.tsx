@@ -13,6 +13,7 @@ import {
 import Icon from 'react-native-vector-icons/MaterialIcons';
 import {Select} from 'sapvt-ltd-app-packages';
 import GeolocationService from '../services/geolocationService';
+import {geocodePincode} from '../services/geocodingService';
 import {
   getGeographyMeta,
   hasWarmGeographyMeta,
@@ -115,11 +116,25 @@ const ProviderAddressInput: React.FC<ProviderAddressInputProps> = ({
 
     setIsFetchingAddress(true);
     try {
-      const geocodeData = await GeolocationService.geocodePincode(pincode);
-      if (geocodeData.address) {
-        setAddress(geocodeData.address);
-        setCity(geocodeData.city || '');
+      const geocodeData = await geocodePincode(pincode);
+      if (geocodeData?.address) {
+        // Centroid matches only know the district — keep a typed street address
+        if (!geocodeData.approximate || !address.trim()) {
+          setAddress(geocodeData.address);
+        }
+        const districtName = geocodeData.district || geocodeData.city || '';
+        setCity(districtName);
         setState(geocodeData.state || '');
+        const matchedState = geoStates.find(
+          s => s.name.toLowerCase() === (geocodeData.state || '').toLowerCase(),
+        );
+        const matchedDistrict = geoDistricts.find(
+          d =>
+            d.name.toLowerCase() === districtName.toLowerCase() &&
+            (!matchedState || d.stateId === matchedState._id),
+        );
+        if (matchedState) setStateId(matchedState._id);
+        if (matchedDistrict) setDistrictId(matchedDistrict._id);
       }
     } catch (error) {
       console.error('Error fetching address:', error);
@@ -0,0 +1,456 @@
+import React, {useEffect, useState} from 'react';
+import {
+  Modal,
+  View,
+  Text,
+  StyleSheet,
+  TouchableOpacity,
+  TextInput,
+  Dimensions,
+  KeyboardAvoidingView,
+  Platform,
+  ScrollView,
+} from 'react-native';
+import Icon from 'react-native-vector-icons/Ionicons';
+import {useStore} from '../store';
+import {lightTheme, darkTheme} from '../utils/theme';
+import useTranslation from '../hooks/useTranslation';
+import {getApiErrorMessage} from '../utils/apiErrorMessages';
+import type {
+  JobCardQuotation,
+  QuotationLine,
+  SendQuotationData,
+} from '../services/api/jobCardsApi';
+import {
+  calculateQuotationTotals,
+  lineTotal,
+  validateQuotation,
+} from '../services/quotationService';
+
+/** Editable line — numbers kept as typed */
+interface DraftLine {
+  kind: QuotationLine['kind'];
+  description: string;
+  quantity: string;
+  unitPrice: string;
+}
+
+interface QuotationEditorModalProps {
+  visible: boolean;
+  /** Previous quotation, pre-filled when revising */
+  initial?: JobCardQuotation | null;
+  onSubmit: (data: SendQuotationData) => Promise<void>;
+  onCancel: () => void;
+}
+
+const emptyLine = (kind: QuotationLine['kind']): DraftLine => ({
+  kind,
+  description: '',
+  quantity: kind === 'labour' ? '1' : '',
+  unitPrice: '',
+});
+
+const toDraft = (quotation?: JobCardQuotation | null): DraftLine[] =>
+  quotation?.lines.length
+    ? quotation.lines.map(line => ({
+        kind: line.kind,
+        description: line.description,
+        quantity: String(line.quantity),
+        unitPrice: String(line.unitPrice),
+      }))
+    : [emptyLine('labour')];
+
+const toLines = (drafts: DraftLine[]): QuotationLine[] =>
+  drafts
+    // Blank rows left by "add" are ignored rather than rejected
+    .filter(d => d.description.trim() || d.quantity.trim() || d.unitPrice.trim())
+    .map(d => {
+      const quantity = parseFloat(d.quantity) || 0;
+      const unitPrice = parseFloat(d.unitPrice) || 0;
+      return {
+        kind: d.kind,
+        description: d.description,
+        quantity,
+        unitPrice,
+        total: lineTotal(quantity, unitPrice),
+      };
+    });
+
+const QuotationEditorModal: React.FC<QuotationEditorModalProps> = ({
+  visible,
+  initial,
+  onSubmit,
+  onCancel,
+}) => {
+  const {isDarkMode} = useStore();
+  const theme = isDarkMode ? darkTheme : lightTheme;
+  const {t} = useTranslation();
+  const [lines, setLines] = useState<DraftLine[]>(() => toDraft(initial));
+  const [taxPercent, setTaxPercent] = useState('');
+  const [note, setNote] = useState('');
+  const [sending, setSending] = useState(false);
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    if (!visible) return;
+    setLines(toDraft(initial));
+    setTaxPercent(initial ? String(initial.taxPercent) : '');
+    setNote(initial?.note || '');
+    setError('');
+  }, [visible, initial]);
+
+  const parsedLines = toLines(lines);
+  const parsedTax = parseFloat(taxPercent) || 0;
+  const totals = calculateQuotationTotals(parsedLines, parsedTax);
+
+  const updateLine = (index: number, field: keyof DraftLine, value: string) => {
+    const updated = [...lines];
+    updated[index] = {...updated[index], [field]: value};
+    setLines(updated);
+    setError('');
+  };
+
+  const removeLine = (index: number) => {
+    setLines(lines.filter((_, i) => i !== index));
+  };
+
+  const handleSend = async () => {
+    const data: SendQuotationData = {lines: parsedLines, taxPercent: parsedTax, note};
+    const invalid = validateQuotation(data);
+    if (invalid) {
+      setError(String(t(invalid)));
+      return;
+    }
+    setSending(true);
+    setError('');
+    try {
+      await onSubmit(data);
+    } catch (err: any) {
+      setError(getApiErrorMessage(err, String(t('jobDetails.quotation.sendFailed'))));
+    } finally {
+      setSending(false);
+    }
+  };
+
+  const renderSection = (kind: QuotationLine['kind']) => (
+    <View style={styles.section}>
+      <View style={styles.sectionHeader}>
+        <Text style={[styles.label, {color: theme.text}]}>
+          {String(t(kind === 'labour' ? 'jobDetails.quotation.labour' : 'jobDetails.quotation.materials'))}
+        </Text>
+        <TouchableOpacity
+          style={[styles.addButton, {backgroundColor: theme.primary}]}
+          onPress={() => setLines([...lines, emptyLine(kind)])}>
+          <Icon name="add" size={20} color="#fff" />
+          <Text style={styles.addButtonText}>{String(t('common.add'))}</Text>
+        </TouchableOpacity>
+      </View>
+
+      {lines.map((line, index) =>
+        line.kind !== kind ? null : (
+          <View key={index} style={[styles.lineRow, {backgroundColor: theme.background}]}>
+            <TouchableOpacity style={styles.removeButton} onPress={() => removeLine(index)}>
+              <Icon name="close" size={18} color="#FF3B30" />
+            </TouchableOpacity>
+            <View style={styles.lineInputs}>
+              <TextInput
+                style={[styles.input, {backgroundColor: theme.card, color: theme.text, borderColor: theme.border}]}
+                value={line.description}
+                onChangeText={text => updateLine(index, 'description', text)}
+                placeholder={String(
+                  t(kind === 'labour' ? 'jobDetails.quotation.labourPlaceholder' : 'jobDetails.materialDescription'),
+                )}
+                placeholderTextColor={theme.textSecondary}
+              />
+              <View style={styles.quantityPrice}>
+                <TextInput
+                  style={[styles.input, styles.half, {backgroundColor: theme.card, color: theme.text, borderColor: theme.border}]}
+                  value={line.quantity}
+                  onChangeText={text => updateLine(index, 'quantity', text.replace(/[^0-9.]/g, ''))}
+                  placeholder={String(t(kind === 'labour' ? 'jobDetails.quotation.hours' : 'jobDetails.quantity'))}
+                  placeholderTextColor={theme.textSecondary}
+                  keyboardType="decimal-pad"
+                />
+                <TextInput
+                  style={[styles.input, styles.half, {backgroundColor: theme.card, color: theme.text, borderColor: theme.border}]}
+                  value={line.unitPrice}
+                  onChangeText={text => updateLine(index, 'unitPrice', text.replace(/[^0-9.]/g, ''))}
+                  placeholder={String(t(kind === 'labour' ? 'jobDetails.quotation.rate' : 'jobDetails.unitPrice'))}
+                  placeholderTextColor={theme.textSecondary}
+                  keyboardType="decimal-pad"
+                />
+              </View>
+              <Text style={[styles.lineTotal, {color: theme.primary}]}>
+                {String(t('common.total'))}: ₹
+                {lineTotal(parseFloat(line.quantity) || 0, parseFloat(line.unitPrice) || 0).toFixed(2)}
+              </Text>
+            </View>
+          </View>
+        ),
+      )}
+    </View>
+  );
+
+  return (
+    <Modal visible={visible} transparent={true} animationType="fade" onRequestClose={onCancel}>
+      <KeyboardAvoidingView
+        behavior={Platform.OS === 'ios' ? 'padding' : 'height'}
+        style={styles.overlay}>
+        <View style={styles.overlay}>
+          <View style={[styles.modalContainer, {backgroundColor: theme.card}]}>
+            <ScrollView
+              style={styles.scrollView}
+              showsVerticalScrollIndicator={false}
+              keyboardShouldPersistTaps="handled">
+              <Text style={[styles.headerTitle, {color: theme.text}]}>
+                {String(t(initial ? 'jobDetails.quotation.reviseTitle' : 'jobDetails.quotation.createTitle'))}
+              </Text>
+              {initial?.status === 'revision_requested' && !!initial.customerComment && (
+                <View style={[styles.commentBox, {backgroundColor: '#FF950015'}]}>
+                  <Icon name="chatbubble-ellipses" size={18} color="#FF9500" />
+                  <Text style={[styles.commentText, {color: theme.text}]}>
+                    {initial.customerComment}
+                  </Text>
+                </View>
+              )}
+
+              {renderSection('labour')}
+              {renderSection('material')}
+
+              <View style={styles.section}>
+                <Text style={[styles.label, {color: theme.text}]}>
+                  {String(t('jobDetails.quotation.taxPercent'))}
+                </Text>
+                <TextInput
+                  style={[styles.input, {backgroundColor: theme.background, color: theme.text, borderColor: theme.border}]}
+                  value={taxPercent}
+                  onChangeText={text => {
+                    setTaxPercent(text.replace(/[^0-9.]/g, ''));
+                    setError('');
+                  }}
+                  placeholder="0"
+                  placeholderTextColor={theme.textSecondary}
+                  keyboardType="decimal-pad"
+                />
+                <TextInput
+                  style={[styles.input, styles.noteInput, {backgroundColor: theme.background, color: theme.text, borderColor: theme.border}]}
+                  value={note}
+                  onChangeText={setNote}
+                  placeholder={String(t('jobDetails.quotation.notePlaceholder'))}
+                  placeholderTextColor={theme.textSecondary}
+                  multiline
+                />
+              </View>
+
+              <View style={[styles.totals, {borderTopColor: theme.border}]}>
+                <View style={styles.totalRow}>
+                  <Text style={[styles.totalLabel, {color: theme.textSecondary}]}>
+                    {String(t('jobDetails.quotation.subtotal'))}
+                  </Text>
+                  <Text style={[styles.totalLabel, {color: theme.text}]}>₹{totals.subtotal.toFixed(2)}</Text>
+                </View>
+                <View style={styles.totalRow}>
+                  <Text style={[styles.totalLabel, {color: theme.textSecondary}]}>
+                    {String(t('jobDetails.quotation.tax', {percent: parsedTax}))}
+                  </Text>
+                  <Text style={[styles.totalLabel, {color: theme.text}]}>₹{totals.taxAmount.toFixed(2)}</Text>
+                </View>
+                <View style={styles.totalRow}>
+                  <Text style={[styles.grandTotal, {color: theme.text}]}>{String(t('common.total'))}</Text>
+                  <Text style={[styles.grandTotal, {color: theme.primary}]}>₹{totals.total.toFixed(2)}</Text>
+                </View>
+              </View>
+
+              {!!error && <Text style={styles.errorText}>{error}</Text>}
+            </ScrollView>
+
+            <View style={styles.buttonContainer}>
+              <TouchableOpacity
+                style={[styles.cancelButton, {borderColor: theme.border, backgroundColor: theme.background}]}
+                onPress={onCancel}
+                disabled={sending}>
+                <Text style={[styles.cancelButtonText, {color: theme.text}]}>
+                  {String(t('common.cancel'))}
+                </Text>
+              </TouchableOpacity>
+              <TouchableOpacity
+                style={[styles.sendButton, {backgroundColor: theme.primary, opacity: sending ? 0.6 : 1}]}
+                onPress={handleSend}
+                disabled={sending}>
+                <Text style={styles.sendButtonText}>
+                  {String(t(sending ? 'jobDetails.quotation.sending' : 'jobDetails.quotation.send'))}
+                </Text>
+              </TouchableOpacity>
+            </View>
+          </View>
+        </View>
+      </KeyboardAvoidingView>
+    </Modal>
+  );
+};
+
+const {width} = Dimensions.get('window');
+const modalWidth = width * 0.9;
+
+const styles = StyleSheet.create({
+  overlay: {
+    flex: 1,
+    backgroundColor: 'rgba(0, 0, 0, 0.5)',
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  modalContainer: {
+    width: modalWidth,
+    maxWidth: 420,
+    maxHeight: '90%',
+    borderRadius: 20,
+    padding: 20,
+    elevation: 10,
+    shadowColor: '#000',
+    shadowOffset: {width: 0, height: 4},
+    shadowOpacity: 0.3,
+    shadowRadius: 8,
+  },
+  scrollView: {
+    maxHeight: 560,
+  },
+  headerTitle: {
+    fontSize: 20,
+    fontWeight: '700',
+    textAlign: 'center',
+    marginBottom: 16,
+  },
+  commentBox: {
+    flexDirection: 'row',
+    padding: 12,
+    borderRadius: 12,
+    marginBottom: 16,
+    gap: 8,
+  },
+  commentText: {
+    flex: 1,
+    fontSize: 13,
+    lineHeight: 18,
+  },
+  section: {
+    marginBottom: 16,
+  },
+  sectionHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: 8,
+  },
+  label: {
+    fontSize: 14,
+    fontWeight: '600',
+    marginBottom: 8,
+  },
+  addButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 8,
+    gap: 4,
+  },
+  addButtonText: {
+    color: '#fff',
+    fontSize: 12,
+    fontWeight: '600',
+  },
+  lineRow: {
+    flexDirection: 'row',
+    marginBottom: 10,
+    padding: 10,
+    borderRadius: 12,
+    gap: 8,
+  },
+  removeButton: {
+    padding: 4,
+    paddingTop: 8,
+  },
+  lineInputs: {
+    flex: 1,
+  },
+  input: {
+    height: 44,
+    borderWidth: 1,
+    borderRadius: 8,
+    paddingHorizontal: 12,
+    fontSize: 14,
+    marginBottom: 8,
+  },
+  half: {
+    flex: 1,
+  },
+  noteInput: {
+    height: 72,
+    paddingTop: 10,
+    textAlignVertical: 'top',
+  },
+  quantityPrice: {
+    flexDirection: 'row',
+    gap: 8,
+  },
+  lineTotal: {
+    fontSize: 13,
+    fontWeight: '600',
+    textAlign: 'right',
+  },
+  totals: {
+    borderTopWidth: StyleSheet.hairlineWidth,
+    paddingTop: 12,
+    marginBottom: 8,
+    gap: 6,
+  },
+  totalRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+  },
+  totalLabel: {
+    fontSize: 14,
+  },
+  grandTotal: {
+    fontSize: 16,
+    fontWeight: '700',
+  },
+  errorText: {
+    color: '#FF3B30',
+    fontSize: 12,
+    marginTop: 8,
+    textAlign: 'center',
+  },
+  buttonContainer: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    gap: 12,
+    marginTop: 12,
+  },
+  cancelButton: {
+    flex: 1,
+    paddingVertical: 14,
+    borderRadius: 12,
+    borderWidth: 1.5,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  cancelButtonText: {
+    fontSize: 15,
+    fontWeight: '600',
+  },
+  sendButton: {
+    flex: 1,
+    paddingVertical: 14,
+    borderRadius: 12,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  sendButtonText: {
+    color: '#FFFFFF',
+    fontSize: 15,
+    fontWeight: '700',
+  },
+});
+
+export default QuotationEditorModal;
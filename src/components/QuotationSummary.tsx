@@ -0,0 +1,197 @@
+/**
+ * Job details card for the quotation: status, lines, totals and the
+ * customer's revision comment.
+ */
+
+import React from 'react';
+import {View, Text, TouchableOpacity, StyleSheet} from 'react-native';
+import Icon from 'react-native-vector-icons/MaterialIcons';
+import type {JobCardQuotation, QuotationStatus} from '../services/api/jobCardsApi';
+import useTranslation from '../hooks/useTranslation';
+
+type ThemeColors = {
+  card: string;
+  text: string;
+  textSecondary: string;
+  border: string;
+  primary: string;
+};
+
+type Props = {
+  quotation: JobCardQuotation | null;
+  theme: ThemeColors;
+  /** Omitted when the quote can no longer be changed (job started) */
+  onEdit?: () => void;
+};
+
+const STATUS_COLORS: Record<QuotationStatus, string> = {
+  sent: '#FF9500',
+  approved: '#34C759',
+  revision_requested: '#FF9500',
+  rejected: '#FF3B30',
+};
+
+export default function QuotationSummary({quotation, theme, onEdit}: Props) {
+  const {t} = useTranslation();
+  const tx = (key: string, opts?: Record<string, unknown>) => String(t(key, opts));
+
+  return (
+    <View style={[styles.card, {backgroundColor: theme.card}]}>
+      <View style={styles.header}>
+        <Text style={[styles.title, {color: theme.text}]}>{tx('jobDetails.quotation.title')}</Text>
+        {quotation && (
+          <View style={[styles.badge, {backgroundColor: STATUS_COLORS[quotation.status] + '20'}]}>
+            <Text style={[styles.badgeText, {color: STATUS_COLORS[quotation.status]}]}>
+              {tx(`jobDetails.quotation.status.${quotation.status}`)}
+            </Text>
+          </View>
+        )}
+      </View>
+
+      {!quotation ? (
+        <Text style={[styles.empty, {color: theme.textSecondary}]}>
+          {tx('jobDetails.quotation.none')}
+        </Text>
+      ) : (
+        <>
+          {quotation.lines.map((line, index) => (
+            <View key={index} style={styles.lineRow}>
+              <Icon
+                name={line.kind === 'labour' ? 'handyman' : 'inventory'}
+                size={16}
+                color={theme.textSecondary}
+              />
+              <Text style={[styles.lineText, {color: theme.text}]} numberOfLines={2}>
+                {line.description}
+                <Text style={{color: theme.textSecondary}}>
+                  {'  '}
+                  {line.quantity} × ₹{line.unitPrice.toFixed(2)}
+                </Text>
+              </Text>
+              <Text style={[styles.amount, {color: theme.text}]}>₹{line.total.toFixed(2)}</Text>
+            </View>
+          ))}
+          <View style={[styles.totals, {borderTopColor: theme.border}]}>
+            <View style={styles.lineRow}>
+              <Text style={[styles.lineText, {color: theme.textSecondary}]}>
+                {tx('jobDetails.quotation.tax', {percent: quotation.taxPercent})}
+              </Text>
+              <Text style={[styles.amount, {color: theme.text}]}>
+                ₹{quotation.taxAmount.toFixed(2)}
+              </Text>
+            </View>
+            <View style={styles.lineRow}>
+              <Text style={[styles.lineText, styles.bold, {color: theme.text}]}>
+                {tx('common.total')}
+              </Text>
+              <Text style={[styles.amount, styles.bold, {color: theme.primary}]}>
+                ₹{quotation.total.toFixed(2)}
+              </Text>
+            </View>
+          </View>
+          {quotation.status !== 'approved' && !!quotation.customerComment && (
+            <View style={[styles.comment, {backgroundColor: '#FF950015'}]}>
+              <Icon name="chat" size={16} color="#FF9500" />
+              <Text style={[styles.commentText, {color: theme.text}]}>
+                {quotation.customerComment}
+              </Text>
+            </View>
+          )}
+        </>
+      )}
+
+      {onEdit && quotation?.status !== 'sent' && (
+        <TouchableOpacity
+          style={[styles.editButton, {borderColor: theme.primary}]}
+          onPress={onEdit}>
+          <Icon name={quotation ? 'edit' : 'request-quote'} size={18} color={theme.primary} />
+          <Text style={[styles.editText, {color: theme.primary}]}>
+            {tx(quotation ? 'jobDetails.quotation.revise' : 'jobDetails.quotation.create')}
+          </Text>
+        </TouchableOpacity>
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  card: {
+    padding: 16,
+    marginHorizontal: 16,
+    marginBottom: 12,
+    borderRadius: 12,
+    elevation: 2,
+    shadowColor: '#000',
+    shadowOffset: {width: 0, height: 1},
+    shadowOpacity: 0.22,
+    shadowRadius: 2.22,
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: 12,
+  },
+  title: {
+    fontSize: 18,
+    fontWeight: '600',
+  },
+  badge: {
+    paddingHorizontal: 10,
+    paddingVertical: 4,
+    borderRadius: 12,
+  },
+  badgeText: {
+    fontSize: 12,
+    fontWeight: '600',
+  },
+  empty: {
+    fontSize: 14,
+  },
+  lineRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 4,
+    gap: 8,
+  },
+  lineText: {
+    flex: 1,
+    fontSize: 14,
+  },
+  amount: {
+    fontSize: 14,
+  },
+  bold: {
+    fontWeight: '700',
+  },
+  totals: {
+    borderTopWidth: StyleSheet.hairlineWidth,
+    marginTop: 8,
+    paddingTop: 8,
+  },
+  comment: {
+    flexDirection: 'row',
+    padding: 10,
+    borderRadius: 8,
+    marginTop: 12,
+    gap: 8,
+  },
+  commentText: {
+    flex: 1,
+    fontSize: 13,
+  },
+  editButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    borderWidth: 1.5,
+    borderRadius: 10,
+    paddingVertical: 10,
+    marginTop: 12,
+    gap: 6,
+  },
+  editText: {
+    fontSize: 14,
+    fontWeight: '600',
+  },
+});
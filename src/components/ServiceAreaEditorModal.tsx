@@ -0,0 +1,726 @@
+import React, {useEffect, useMemo, useState} from 'react';
+import {
+  Modal,
+  View,
+  Text,
+  StyleSheet,
+  TouchableOpacity,
+  TextInput,
+  Dimensions,
+  KeyboardAvoidingView,
+  Platform,
+  ScrollView,
+  Switch,
+  ActivityIndicator,
+} from 'react-native';
+import Icon from 'react-native-vector-icons/Ionicons';
+import {useStore} from '../store';
+import {lightTheme, darkTheme} from '../utils/theme';
+import useTranslation from '../hooks/useTranslation';
+import {getApiErrorMessage} from '../utils/apiErrorMessages';
+import GeolocationService from '../services/geolocationService';
+import {createIdempotencyKey} from '../services/api/apiClient';
+import {getGeographyMeta, GeographyDistrict} from '../services/api/geographyApi';
+import type {
+  GeoPoint,
+  ProviderServiceArea,
+  ServiceAreaExclusion,
+} from '../services/api/providersApi';
+import {
+  normalizeServiceArea,
+  PINCODE_PATTERN,
+  validateServiceArea,
+} from '../services/serviceAreaService';
+
+interface ServiceAreaEditorModalProps {
+  visible: boolean;
+  initial?: ProviderServiceArea | null;
+  /** Provider's state — the district list is limited to it when known */
+  stateId?: string;
+  stateName?: string;
+  onSave: (area: ProviderServiceArea) => Promise<void>;
+  onCancel: () => void;
+}
+
+/** Polygon being walked: the service boundary or a new exclusion zone */
+type RecordingTarget = 'boundary' | 'exclusion';
+
+const ServiceAreaEditorModal: React.FC<ServiceAreaEditorModalProps> = ({
+  visible,
+  initial,
+  stateId,
+  stateName,
+  onSave,
+  onCancel,
+}) => {
+  const {isDarkMode} = useStore();
+  const theme = isDarkMode ? darkTheme : lightTheme;
+  const {t} = useTranslation();
+  const tx = (key: string, opts?: Record<string, unknown>) => String(t(key, opts));
+
+  const [area, setArea] = useState<ProviderServiceArea>(() => normalizeServiceArea(initial));
+  const [radius, setRadius] = useState('');
+  const [pincodeInput, setPincodeInput] = useState('');
+  const [excludePincode, setExcludePincode] = useState('');
+  const [excludeRadius, setExcludeRadius] = useState('1');
+  const [districts, setDistricts] = useState<GeographyDistrict[]>([]);
+  const [districtQuery, setDistrictQuery] = useState('');
+  const [recording, setRecording] = useState<RecordingTarget | null>(null);
+  const [recordedPoints, setRecordedPoints] = useState<GeoPoint[]>([]);
+  const [locating, setLocating] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    if (!visible) return;
+    const next = normalizeServiceArea(initial);
+    setArea(next);
+    setRadius(next.maxRadiusKm ? String(next.maxRadiusKm) : '');
+    setPincodeInput('');
+    setExcludePincode('');
+    setRecording(null);
+    setRecordedPoints([]);
+    setError('');
+  }, [visible, initial]);
+
+  useEffect(() => {
+    if (!visible) return;
+    let mounted = true;
+    getGeographyMeta()
+      .then(meta => {
+        if (!mounted) return;
+        const inState = meta.districts.filter(
+          d =>
+            (!stateId && !stateName) ||
+            d.stateId === stateId ||
+            d.stateName?.toLowerCase() === stateName?.toLowerCase(),
+        );
+        setDistricts(inState.length > 0 ? inState : meta.districts);
+      })
+      .catch(() => setDistricts([]));
+    return () => {
+      mounted = false;
+    };
+  }, [visible, stateId, stateName]);
+
+  const visibleDistricts = useMemo(() => {
+    const query = districtQuery.trim().toLowerCase();
+    const selected = districts.filter(d => area.districtIds.includes(d._id));
+    if (!query) return selected;
+    const matches = districts.filter(
+      d => d.name.toLowerCase().includes(query) && !area.districtIds.includes(d._id),
+    );
+    return [...selected, ...matches.slice(0, 12)];
+  }, [districts, districtQuery, area.districtIds]);
+
+  const update = (patch: Partial<ProviderServiceArea>) => {
+    setArea(prev => ({...prev, ...patch}));
+    setError('');
+  };
+
+  const addPincode = () => {
+    const pincode = pincodeInput.trim();
+    if (!PINCODE_PATTERN.test(pincode)) {
+      setError(tx('profile.serviceArea.invalidPincode'));
+      return;
+    }
+    if (!area.pincodes.includes(pincode)) {
+      update({pincodes: [...area.pincodes, pincode]});
+    }
+    setPincodeInput('');
+  };
+
+  const toggleDistrict = (id: string) => {
+    update({
+      districtIds: area.districtIds.includes(id)
+        ? area.districtIds.filter(d => d !== id)
+        : [...area.districtIds, id],
+    });
+  };
+
+  const addExclusion = (zone: ServiceAreaExclusion) => {
+    update({exclusions: [...area.exclusions, zone]});
+  };
+
+  const currentPoint = async (): Promise<GeoPoint | null> => {
+    setLocating(true);
+    try {
+      const location = await GeolocationService.getCurrentLocation();
+      return {latitude: location.latitude, longitude: location.longitude};
+    } catch (err: any) {
+      setError(err?.message || tx('profile.serviceArea.locationFailed'));
+      return null;
+    } finally {
+      setLocating(false);
+    }
+  };
+
+  const addPincodeExclusion = () => {
+    const pincode = excludePincode.trim();
+    if (!PINCODE_PATTERN.test(pincode)) {
+      setError(tx('profile.serviceArea.invalidPincode'));
+      return;
+    }
+    addExclusion({id: createIdempotencyKey(), kind: 'pincode', pincode, label: pincode});
+    setExcludePincode('');
+  };
+
+  const addCircleExclusion = async () => {
+    const radiusKm = parseFloat(excludeRadius);
+    if (!(radiusKm > 0)) {
+      setError(tx('profile.serviceArea.invalidRadius'));
+      return;
+    }
+    const center = await currentPoint();
+    if (!center) return;
+    addExclusion({
+      id: createIdempotencyKey(),
+      kind: 'circle',
+      center,
+      radiusKm,
+      label: tx('profile.serviceArea.circleLabel', {radius: radiusKm}),
+    });
+  };
+
+  const recordPoint = async () => {
+    const point = await currentPoint();
+    if (point) setRecordedPoints(prev => [...prev, point]);
+  };
+
+  const finishRecording = () => {
+    if (recordedPoints.length < 3) {
+      setError(tx('profile.serviceArea.polygonTooSmall'));
+      return;
+    }
+    if (recording === 'boundary') {
+      update({boundary: recordedPoints});
+    } else {
+      addExclusion({
+        id: createIdempotencyKey(),
+        kind: 'polygon',
+        points: recordedPoints,
+        label: tx('profile.serviceArea.polygonLabel', {count: recordedPoints.length}),
+      });
+    }
+    setRecording(null);
+    setRecordedPoints([]);
+  };
+
+  const describeExclusion = (zone: ServiceAreaExclusion) => {
+    switch (zone.kind) {
+      case 'pincode':
+        return tx('profile.serviceArea.excludedPincode', {pincode: zone.pincode});
+      case 'circle':
+        return zone.label || tx('profile.serviceArea.circleLabel', {radius: zone.radiusKm});
+      case 'polygon':
+        return zone.label || tx('profile.serviceArea.polygonLabel', {count: zone.points.length});
+    }
+  };
+
+  const handleSave = async () => {
+    const trimmedRadius = radius.trim();
+    const next: ProviderServiceArea = {
+      ...area,
+      maxRadiusKm: trimmedRadius ? parseFloat(trimmedRadius) : undefined,
+    };
+    const invalid = validateServiceArea(next);
+    if (invalid) {
+      setError(tx(invalid));
+      return;
+    }
+    setSaving(true);
+    setError('');
+    try {
+      await onSave(next);
+    } catch (err: any) {
+      setError(getApiErrorMessage(err, tx('profile.serviceArea.saveFailed')));
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const inputStyle = [
+    styles.input,
+    {backgroundColor: theme.background, color: theme.text, borderColor: theme.border},
+  ];
+
+  const renderChip = (key: string, label: string, onRemove: () => void, color = theme.primary) => (
+    <View key={key} style={[styles.chip, {backgroundColor: color + '14', borderColor: color + '33'}]}>
+      <Text style={[styles.chipText, {color}]} numberOfLines={1}>
+        {label}
+      </Text>
+      <TouchableOpacity onPress={onRemove} hitSlop={{top: 8, bottom: 8, left: 8, right: 8}}>
+        <Icon name="close" size={14} color={color} />
+      </TouchableOpacity>
+    </View>
+  );
+
+  return (
+    <Modal visible={visible} transparent={true} animationType="fade" onRequestClose={onCancel}>
+      <KeyboardAvoidingView
+        behavior={Platform.OS === 'ios' ? 'padding' : 'height'}
+        style={styles.overlay}>
+        <View style={styles.overlay}>
+          <View style={[styles.modalContainer, {backgroundColor: theme.card}]}>
+            <ScrollView
+              style={styles.scrollView}
+              showsVerticalScrollIndicator={false}
+              keyboardShouldPersistTaps="handled">
+              <Text style={[styles.headerTitle, {color: theme.text}]}>
+                {tx('profile.serviceArea.editTitle')}
+              </Text>
+              <Text style={[styles.hint, {color: theme.textSecondary}]}>
+                {tx('profile.serviceArea.editHint')}
+              </Text>
+
+              {/* Radius from the base address */}
+              <View style={styles.section}>
+                <Text style={[styles.label, {color: theme.text}]}>
+                  {tx('profile.serviceArea.radius')}
+                </Text>
+                <TextInput
+                  style={inputStyle}
+                  value={radius}
+                  onChangeText={text => {
+                    setRadius(text.replace(/[^0-9.]/g, ''));
+                    setError('');
+                  }}
+                  placeholder={tx('profile.serviceArea.radiusPlaceholder')}
+                  placeholderTextColor={theme.textSecondary}
+                  keyboardType="decimal-pad"
+                />
+              </View>
+
+              {/* Served pincodes */}
+              <View style={styles.section}>
+                <Text style={[styles.label, {color: theme.text}]}>
+                  {tx('profile.serviceArea.pincodes')}
+                </Text>
+                <View style={styles.inlineRow}>
+                  <TextInput
+                    style={[inputStyle, styles.flex]}
+                    value={pincodeInput}
+                    onChangeText={text => setPincodeInput(text.replace(/[^0-9]/g, ''))}
+                    placeholder={tx('profile.serviceArea.pincodePlaceholder')}
+                    placeholderTextColor={theme.textSecondary}
+                    keyboardType="number-pad"
+                    maxLength={6}
+                    onSubmitEditing={addPincode}
+                  />
+                  <TouchableOpacity
+                    style={[styles.addButton, {backgroundColor: theme.primary}]}
+                    onPress={addPincode}>
+                    <Icon name="add" size={20} color="#fff" />
+                  </TouchableOpacity>
+                </View>
+                <View style={styles.chipRow}>
+                  {area.pincodes.map(pincode =>
+                    renderChip(pincode, pincode, () =>
+                      update({pincodes: area.pincodes.filter(p => p !== pincode)}),
+                    ),
+                  )}
+                </View>
+              </View>
+
+              {/* Served districts */}
+              <View style={styles.section}>
+                <Text style={[styles.label, {color: theme.text}]}>
+                  {tx('profile.serviceArea.districts')}
+                </Text>
+                <TextInput
+                  style={inputStyle}
+                  value={districtQuery}
+                  onChangeText={setDistrictQuery}
+                  placeholder={tx('profile.serviceArea.districtSearch')}
+                  placeholderTextColor={theme.textSecondary}
+                />
+                <View style={styles.chipRow}>
+                  {visibleDistricts.map(district => {
+                    const selected = area.districtIds.includes(district._id);
+                    return (
+                      <TouchableOpacity
+                        key={district._id}
+                        onPress={() => toggleDistrict(district._id)}
+                        style={[
+                          styles.chip,
+                          {
+                            backgroundColor: selected ? theme.primary : theme.background,
+                            borderColor: selected ? theme.primary : theme.border,
+                          },
+                        ]}>
+                        <Text style={[styles.chipText, {color: selected ? '#fff' : theme.text}]}>
+                          {district.name}
+                        </Text>
+                      </TouchableOpacity>
+                    );
+                  })}
+                </View>
+              </View>
+
+              {/* Boundary polygon */}
+              <View style={styles.section}>
+                <View style={styles.sectionHeader}>
+                  <Text style={[styles.label, {color: theme.text}]}>
+                    {tx('profile.serviceArea.boundary')}
+                  </Text>
+                  {area.boundary && !recording && (
+                    <TouchableOpacity onPress={() => update({boundary: undefined})}>
+                      <Text style={styles.removeText}>{tx('profile.serviceArea.clear')}</Text>
+                    </TouchableOpacity>
+                  )}
+                </View>
+                <Text style={[styles.hint, {color: theme.textSecondary}]}>
+                  {area.boundary
+                    ? tx('profile.serviceArea.polygonLabel', {count: area.boundary.length})
+                    : tx('profile.serviceArea.boundaryHint')}
+                </Text>
+                {!recording && (
+                  <TouchableOpacity
+                    style={[styles.outlineButton, {borderColor: theme.primary}]}
+                    onPress={() => {
+                      setRecording('boundary');
+                      setRecordedPoints([]);
+                    }}>
+                    <Icon name="git-commit-outline" size={18} color={theme.primary} />
+                    <Text style={[styles.outlineButtonText, {color: theme.primary}]}>
+                      {tx('profile.serviceArea.recordBoundary')}
+                    </Text>
+                  </TouchableOpacity>
+                )}
+              </View>
+
+              {/* Exclusion zones */}
+              <View style={styles.section}>
+                <Text style={[styles.label, {color: theme.text}]}>
+                  {tx('profile.serviceArea.exclusions')}
+                </Text>
+                {area.exclusions.map(zone => (
+                  <View key={zone.id} style={[styles.zoneRow, {backgroundColor: theme.background}]}>
+                    <Icon
+                      name={zone.kind === 'pincode' ? 'pricetag-outline' : zone.kind === 'circle' ? 'radio-button-on-outline' : 'shapes-outline'}
+                      size={18}
+                      color="#FF3B30"
+                    />
+                    <Text style={[styles.zoneText, {color: theme.text}]}>{describeExclusion(zone)}</Text>
+                    <TouchableOpacity
+                      onPress={() => update({exclusions: area.exclusions.filter(z => z.id !== zone.id)})}>
+                      <Icon name="trash-outline" size={18} color="#FF3B30" />
+                    </TouchableOpacity>
+                  </View>
+                ))}
+                <View style={styles.inlineRow}>
+                  <TextInput
+                    style={[inputStyle, styles.flex]}
+                    value={excludePincode}
+                    onChangeText={text => setExcludePincode(text.replace(/[^0-9]/g, ''))}
+                    placeholder={tx('profile.serviceArea.excludePincode')}
+                    placeholderTextColor={theme.textSecondary}
+                    keyboardType="number-pad"
+                    maxLength={6}
+                  />
+                  <TouchableOpacity
+                    style={[styles.addButton, {backgroundColor: '#FF3B30'}]}
+                    onPress={addPincodeExclusion}>
+                    <Icon name="remove" size={20} color="#fff" />
+                  </TouchableOpacity>
+                </View>
+                <View style={styles.inlineRow}>
+                  <TextInput
+                    style={[inputStyle, styles.radiusInput]}
+                    value={excludeRadius}
+                    onChangeText={text => setExcludeRadius(text.replace(/[^0-9.]/g, ''))}
+                    keyboardType="decimal-pad"
+                  />
+                  <TouchableOpacity
+                    style={[styles.outlineButton, styles.flex, {borderColor: '#FF3B30', marginTop: 0}]}
+                    onPress={() => void addCircleExclusion()}
+                    disabled={locating}>
+                    <Icon name="locate-outline" size={18} color="#FF3B30" />
+                    <Text style={[styles.outlineButtonText, {color: '#FF3B30'}]}>
+                      {tx('profile.serviceArea.excludeHere')}
+                    </Text>
+                  </TouchableOpacity>
+                </View>
+                {!recording && (
+                  <TouchableOpacity
+                    style={[styles.outlineButton, {borderColor: '#FF3B30'}]}
+                    onPress={() => {
+                      setRecording('exclusion');
+                      setRecordedPoints([]);
+                    }}>
+                    <Icon name="shapes-outline" size={18} color="#FF3B30" />
+                    <Text style={[styles.outlineButtonText, {color: '#FF3B30'}]}>
+                      {tx('profile.serviceArea.recordExclusion')}
+                    </Text>
+                  </TouchableOpacity>
+                )}
+              </View>
+
+              {/* Walking a polygon: one point per tap at the current location */}
+              {recording && (
+                <View style={[styles.recordBox, {borderColor: theme.primary}]}>
+                  <Text style={[styles.label, {color: theme.text}]}>
+                    {tx(
+                      recording === 'boundary'
+                        ? 'profile.serviceArea.recordingBoundary'
+                        : 'profile.serviceArea.recordingExclusion',
+                      {count: recordedPoints.length},
+                    )}
+                  </Text>
+                  <Text style={[styles.hint, {color: theme.textSecondary}]}>
+                    {tx('profile.serviceArea.recordHint')}
+                  </Text>
+                  <View style={styles.inlineRow}>
+                    <TouchableOpacity
+                      style={[styles.outlineButton, styles.flex, {borderColor: theme.primary, marginTop: 0}]}
+                      onPress={() => void recordPoint()}
+                      disabled={locating}>
+                      {locating ? (
+                        <ActivityIndicator size="small" color={theme.primary} />
+                      ) : (
+                        <Icon name="add-circle-outline" size={18} color={theme.primary} />
+                      )}
+                      <Text style={[styles.outlineButtonText, {color: theme.primary}]}>
+                        {tx('profile.serviceArea.addPoint')}
+                      </Text>
+                    </TouchableOpacity>
+                    <TouchableOpacity
+                      style={[styles.addButton, {backgroundColor: theme.primary}]}
+                      onPress={finishRecording}>
+                      <Icon name="checkmark" size={20} color="#fff" />
+                    </TouchableOpacity>
+                    <TouchableOpacity
+                      style={[styles.addButton, {backgroundColor: theme.border}]}
+                      onPress={() => {
+                        setRecording(null);
+                        setRecordedPoints([]);
+                      }}>
+                      <Icon name="close" size={20} color={theme.text} />
+                    </TouchableOpacity>
+                  </View>
+                </View>
+              )}
+
+              <View style={[styles.switchRow, {borderTopColor: theme.border}]}>
+                <View style={styles.flex}>
+                  <Text style={[styles.label, {color: theme.text, marginBottom: 2}]}>
+                    {tx('profile.serviceArea.hideOutOfArea')}
+                  </Text>
+                  <Text style={[styles.hint, {color: theme.textSecondary, marginBottom: 0}]}>
+                    {tx('profile.serviceArea.hideOutOfAreaHint')}
+                  </Text>
+                </View>
+                <Switch
+                  value={!!area.hideOutOfArea}
+                  onValueChange={value => update({hideOutOfArea: value})}
+                  trackColor={{false: theme.border, true: theme.primary}}
+                />
+              </View>
+
+              {!!error && <Text style={styles.errorText}>{error}</Text>}
+            </ScrollView>
+
+            <View style={styles.buttonContainer}>
+              <TouchableOpacity
+                style={[styles.cancelButton, {borderColor: theme.border, backgroundColor: theme.background}]}
+                onPress={onCancel}
+                disabled={saving}>
+                <Text style={[styles.cancelButtonText, {color: theme.text}]}>
+                  {tx('common.cancel')}
+                </Text>
+              </TouchableOpacity>
+              <TouchableOpacity
+                style={[styles.saveButton, {backgroundColor: theme.primary, opacity: saving || recording ? 0.6 : 1}]}
+                onPress={handleSave}
+                disabled={saving || !!recording}>
+                {saving ? (
+                  <ActivityIndicator size="small" color="#fff" />
+                ) : (
+                  <Text style={styles.saveButtonText}>{tx('common.save')}</Text>
+                )}
+              </TouchableOpacity>
+            </View>
+          </View>
+        </View>
+      </KeyboardAvoidingView>
+    </Modal>
+  );
+};
+
+const {width} = Dimensions.get('window');
+const modalWidth = width * 0.9;
+
+const styles = StyleSheet.create({
+  overlay: {
+    flex: 1,
+    backgroundColor: 'rgba(0, 0, 0, 0.5)',
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  modalContainer: {
+    width: modalWidth,
+    maxWidth: 420,
+    maxHeight: '90%',
+    borderRadius: 20,
+    padding: 20,
+    elevation: 10,
+    shadowColor: '#000',
+    shadowOffset: {width: 0, height: 4},
+    shadowOpacity: 0.3,
+    shadowRadius: 8,
+  },
+  scrollView: {
+    maxHeight: 560,
+  },
+  headerTitle: {
+    fontSize: 20,
+    fontWeight: '700',
+    textAlign: 'center',
+    marginBottom: 8,
+  },
+  hint: {
+    fontSize: 12,
+    lineHeight: 17,
+    marginBottom: 10,
+  },
+  section: {
+    marginBottom: 16,
+  },
+  sectionHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+  },
+  label: {
+    fontSize: 14,
+    fontWeight: '600',
+    marginBottom: 8,
+  },
+  input: {
+    height: 44,
+    borderWidth: 1,
+    borderRadius: 8,
+    paddingHorizontal: 12,
+    fontSize: 14,
+    marginBottom: 8,
+  },
+  inlineRow: {
+    flexDirection: 'row',
+    alignItems: 'flex-start',
+    gap: 8,
+  },
+  flex: {
+    flex: 1,
+  },
+  radiusInput: {
+    width: 64,
+  },
+  addButton: {
+    width: 44,
+    height: 44,
+    borderRadius: 8,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  chipRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 6,
+  },
+  chip: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    borderWidth: 1,
+    borderRadius: 16,
+    paddingHorizontal: 10,
+    paddingVertical: 5,
+    gap: 4,
+  },
+  chipText: {
+    fontSize: 13,
+    fontWeight: '500',
+  },
+  outlineButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    height: 44,
+    borderWidth: 1.5,
+    borderRadius: 8,
+    marginTop: 4,
+    gap: 6,
+  },
+  outlineButtonText: {
+    fontSize: 13,
+    fontWeight: '600',
+  },
+  removeText: {
+    color: '#FF3B30',
+    fontSize: 13,
+    fontWeight: '600',
+  },
+  zoneRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    padding: 10,
+    borderRadius: 8,
+    marginBottom: 8,
+    gap: 8,
+  },
+  zoneText: {
+    flex: 1,
+    fontSize: 13,
+  },
+  recordBox: {
+    borderWidth: 1.5,
+    borderStyle: 'dashed',
+    borderRadius: 12,
+    padding: 12,
+    marginBottom: 16,
+  },
+  switchRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    borderTopWidth: StyleSheet.hairlineWidth,
+    paddingTop: 12,
+    gap: 12,
+  },
+  errorText: {
+    color: '#FF3B30',
+    fontSize: 12,
+    marginTop: 8,
+    textAlign: 'center',
+  },
+  buttonContainer: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    gap: 12,
+    marginTop: 12,
+  },
+  cancelButton: {
+    flex: 1,
+    paddingVertical: 14,
+    borderRadius: 12,
+    borderWidth: 1.5,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  cancelButtonText: {
+    fontSize: 15,
+    fontWeight: '600',
+  },
+  saveButton: {
+    flex: 1,
+    paddingVertical: 14,
+    borderRadius: 12,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  saveButtonText: {
+    color: '#FFFFFF',
+    fontSize: 15,
+    fontWeight: '700',
+  },
+});
+
+export default ServiceAreaEditorModal;
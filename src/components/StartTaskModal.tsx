@@ -10,12 +10,19 @@ import {
 import Icon from 'react-native-vector-icons/Ionicons';
 import {useStore} from '../store';
 import {lightTheme, darkTheme} from '../utils/theme';
+import useTranslation from '../hooks/useTranslation';
+import type {JobCardQuotation} from '../services/api/jobCardsApi';
+import {getStartBlockReason} from '../services/quotationService';
 
 interface StartTaskModalProps {
   visible: boolean;
   onConfirm: () => void;
   onCancel: () => void;
   loading?: boolean;
+  /** Starting is blocked until this quotation is approved */
+  quotation?: JobCardQuotation | null;
+  /** Opens the quotation editor (create / revise) */
+  onOpenQuotation?: () => void;
 }
 
 const StartTaskModal: React.FC<StartTaskModalProps> = ({
@@ -23,9 +30,15 @@ const StartTaskModal: React.FC<StartTaskModalProps> = ({
   onConfirm,
   onCancel,
   loading = false,
+  quotation,
+  onOpenQuotation,
 }) => {
   const {isDarkMode} = useStore();
   const theme = isDarkMode ? darkTheme : lightTheme;
+  const {t} = useTranslation();
+  const blockReason = getStartBlockReason(quotation);
+  // Awaiting the customer: nothing to do but wait; otherwise (re)quote
+  const canEditQuotation = !!onOpenQuotation && blockReason !== null && blockReason !== 'awaiting';
 
   return (
     <Modal
@@ -60,12 +73,28 @@ const StartTaskModal: React.FC<StartTaskModalProps> = ({
           </View>
 
           {/* Info Box */}
-          <View style={[styles.infoBox, {backgroundColor: theme.primary + '10'}]}>
-            <Icon name="information-circle" size={20} color={theme.primary} />
-            <Text style={[styles.infoText, {color: theme.text}]}>
-              The customer will receive the PIN via notification. Make sure to ask the customer for the PIN when completing the service.
-            </Text>
-          </View>
+          {blockReason ? (
+            <View style={[styles.infoBox, {backgroundColor: '#FF950015'}]}>
+              <Icon name="document-text" size={20} color="#FF9500" />
+              <View style={styles.blockedTextContainer}>
+                <Text style={[styles.infoText, {color: theme.text}]}>
+                  {String(t(`jobDetails.quotation.startBlocked.${blockReason}`))}
+                </Text>
+                {blockReason === 'revision_requested' && !!quotation?.customerComment && (
+                  <Text style={[styles.infoText, styles.customerComment, {color: theme.textSecondary}]}>
+                    “{quotation.customerComment}”
+                  </Text>
+                )}
+              </View>
+            </View>
+          ) : (
+            <View style={[styles.infoBox, {backgroundColor: theme.primary + '10'}]}>
+              <Icon name="information-circle" size={20} color={theme.primary} />
+              <Text style={[styles.infoText, {color: theme.text}]}>
+                The customer will receive the PIN via notification. Make sure to ask the customer for the PIN when completing the service.
+              </Text>
+            </View>
+          )}
 
           {/* Action Buttons */}
           <View style={styles.buttonContainer}>
@@ -88,22 +117,47 @@ const StartTaskModal: React.FC<StartTaskModalProps> = ({
               </Text>
             </TouchableOpacity>
 
-            <TouchableOpacity
-              style={[
-                styles.confirmButton,
-                {
-                  backgroundColor: theme.primary,
-                  opacity: loading ? 0.6 : 1,
-                },
-              ]}
-              onPress={onConfirm}
-              disabled={loading}>
-              {loading ? (
-                <Text style={styles.confirmButtonText}>Starting...</Text>
-              ) : (
-                <Text style={styles.confirmButtonText}>Start Service</Text>
-              )}
-            </TouchableOpacity>
+            {blockReason ? (
+              <TouchableOpacity
+                style={[
+                  styles.confirmButton,
+                  {
+                    backgroundColor: theme.primary,
+                    opacity: canEditQuotation ? 1 : 0.6,
+                  },
+                ]}
+                onPress={onOpenQuotation}
+                disabled={!canEditQuotation}>
+                <Text style={styles.confirmButtonText}>
+                  {String(
+                    t(
+                      blockReason === 'missing'
+                        ? 'jobDetails.quotation.create'
+                        : blockReason === 'awaiting'
+                        ? 'jobDetails.quotation.awaitingApproval'
+                        : 'jobDetails.quotation.revise',
+                    ),
+                  )}
+                </Text>
+              </TouchableOpacity>
+            ) : (
+              <TouchableOpacity
+                style={[
+                  styles.confirmButton,
+                  {
+                    backgroundColor: theme.primary,
+                    opacity: loading ? 0.6 : 1,
+                  },
+                ]}
+                onPress={onConfirm}
+                disabled={loading}>
+                {loading ? (
+                  <Text style={styles.confirmButtonText}>Starting...</Text>
+                ) : (
+                  <Text style={styles.confirmButtonText}>Start Service</Text>
+                )}
+              </TouchableOpacity>
+            )}
           </View>
         </View>
       </View>
@@ -166,6 +220,13 @@ const styles = StyleSheet.create({
     fontSize: 13,
     lineHeight: 18,
   },
+  blockedTextContainer: {
+    flex: 1,
+  },
+  customerComment: {
+    marginTop: 6,
+    fontStyle: 'italic',
+  },
   buttonContainer: {
     flexDirection: 'row',
     justifyContent: 'space-between',
@@ -2,6 +2,7 @@
  * Swipeable Booking Card Component
  * Shows incoming booking requests with swipe gestures
  * Right swipe = Accept, Left swipe = Reject
+ * Further queued offers show as cards peeking out behind this one
  */
 
 import React, {useRef, useState} from 'react';
@@ -28,6 +29,10 @@ interface SwipeableBookingCardProps {
   onAccept: () => void;
   onReject: () => void;
   onDismiss: () => void;
+  /** Seconds remaining on this offer */
+  secondsLeft?: number;
+  /** Offers waiting behind this one */
+  queuedCount?: number;
 }
 
 export default function SwipeableBookingCard({
@@ -35,6 +40,8 @@ export default function SwipeableBookingCard({
   onAccept,
   onReject,
   onDismiss,
+  secondsLeft,
+  queuedCount = 0,
 }: SwipeableBookingCardProps) {
   const {isDarkMode} = useStore();
   const theme = isDarkMode ? darkTheme : lightTheme;
@@ -150,6 +157,22 @@ export default function SwipeableBookingCard({
         </Animated.View>
       </View>
 
+      {/* Queued offers peeking out behind */}
+      {Array.from({length: Math.min(queuedCount, 2)}, (_, index) => (
+        <View
+          key={`stacked-${index}`}
+          style={[
+            styles.stackedCard,
+            {
+              backgroundColor: theme.card,
+              top: 8 * (index + 1),
+              width: CARD_WIDTH - 16 * (index + 1),
+              opacity: 0.7 - index * 0.25,
+            },
+          ]}
+        />
+      ))}
+
       {/* Swipeable Card */}
       <Animated.View
         style={[
@@ -172,7 +195,8 @@ export default function SwipeableBookingCard({
             <View>
               <Text style={[styles.title, {color: theme.text}]}>New Service Request</Text>
               <Text style={[styles.subtitle, {color: theme.textSecondary}]}>
-                Swipe right to accept • Swipe left to reject
+                {secondsLeft != null ? `Respond in ${secondsLeft}s • ` : ''}
+                {queuedCount > 0 ? `+${queuedCount} more waiting` : 'Swipe right to accept • Swipe left to reject'}
               </Text>
             </View>
           </View>
@@ -280,6 +304,12 @@ const styles = StyleSheet.create({
     fontWeight: 'bold',
     marginTop: 4,
   },
+  stackedCard: {
+    position: 'absolute',
+    height: '100%',
+    borderRadius: 16,
+    elevation: 4,
+  },
   card: {
     width: CARD_WIDTH,
     borderRadius: 16,
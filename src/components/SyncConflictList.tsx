@@ -0,0 +1,104 @@
+/**
+ * Offline actions that could not be applied when the outbox replayed
+ * (e.g. the job was cancelled by admin while the start was queued).
+ */
+
+import React from 'react';
+import {View, Text, TouchableOpacity, StyleSheet} from 'react-native';
+import Icon from 'react-native-vector-icons/MaterialIcons';
+import type {OutboxEntry} from '../services/jobCardOutbox';
+import useTranslation from '../hooks/useTranslation';
+
+type ThemeColors = {
+  text: string;
+  textSecondary: string;
+  card: string;
+};
+
+type Props = {
+  conflicts: OutboxEntry[];
+  theme: ThemeColors;
+  onDismiss: (entry: OutboxEntry) => void;
+};
+
+export default function SyncConflictList({conflicts, theme, onDismiss}: Props) {
+  const {t} = useTranslation();
+  if (conflicts.length === 0) return null;
+
+  return (
+    <View style={[styles.card, {backgroundColor: theme.card}]}>
+      {conflicts.map(entry => (
+        <View key={entry.id} style={styles.row}>
+          <Icon name="sync-problem" size={22} color="#FF3B30" />
+          <View style={styles.body}>
+            <Text style={[styles.title, {color: theme.text}]}>
+              {String(
+                t('jobDetails.syncConflictTitle', {
+                  action: t(`jobDetails.outboxAction.${entry.type}`),
+                }),
+              )}
+            </Text>
+            {!!entry.conflictReason && (
+              <Text style={[styles.reason, {color: theme.textSecondary}]}>
+                {entry.conflictReason}
+              </Text>
+            )}
+            <Text style={[styles.reason, {color: theme.textSecondary}]}>
+              {new Date(entry.createdAt).toLocaleString('en-IN', {
+                day: 'numeric',
+                month: 'short',
+                hour: '2-digit',
+                minute: '2-digit',
+              })}
+            </Text>
+          </View>
+          <TouchableOpacity onPress={() => onDismiss(entry)} style={styles.dismiss}>
+            <Text style={styles.dismissText}>
+              {String(t('jobDetails.dismissConflict'))}
+            </Text>
+          </TouchableOpacity>
+        </View>
+      ))}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  card: {
+    padding: 16,
+    marginHorizontal: 16,
+    marginBottom: 12,
+    borderRadius: 12,
+    borderLeftWidth: 4,
+    borderLeftColor: '#FF3B30',
+    gap: 12,
+  },
+  row: {
+    flexDirection: 'row',
+    alignItems: 'flex-start',
+    gap: 12,
+  },
+  body: {
+    flex: 1,
+  },
+  title: {
+    fontSize: 15,
+    fontWeight: '600',
+    marginBottom: 4,
+  },
+  reason: {
+    fontSize: 13,
+    lineHeight: 18,
+  },
+  dismiss: {
+    paddingHorizontal: 10,
+    paddingVertical: 6,
+    borderRadius: 8,
+    backgroundColor: '#FF3B3020',
+  },
+  dismissText: {
+    color: '#FF3B30',
+    fontSize: 13,
+    fontWeight: '600',
+  },
+});
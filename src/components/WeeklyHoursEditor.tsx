@@ -0,0 +1,158 @@
+/**
+ * Per-weekday working hours editor (enable switch + start / end time).
+ */
+
+import React, {useState} from 'react';
+import {View, Text, Switch, TouchableOpacity, StyleSheet, Platform} from 'react-native';
+import DateTimePicker, {DateTimePickerEvent} from '@react-native-community/datetimepicker';
+import type {ProviderAvailability, Weekday, WorkingHours} from '../services/api/providersApi';
+import {parseTime, formatTime} from '../services/availabilityService';
+import useTranslation from '../hooks/useTranslation';
+
+type ThemeColors = {
+  text: string;
+  textSecondary: string;
+  border: string;
+  primary: string;
+};
+
+type Props = {
+  weeklyHours: ProviderAvailability['weeklyHours'];
+  theme: ThemeColors;
+  onChange: (weeklyHours: ProviderAvailability['weeklyHours']) => void;
+};
+
+/** Display order — Monday first */
+const DAYS: Weekday[] = ['mon', 'tue', 'wed', 'thu', 'fri', 'sat', 'sun'];
+
+type Editing = {day: Weekday; field: 'start' | 'end'} | null;
+
+export default function WeeklyHoursEditor({weeklyHours, theme, onChange}: Props) {
+  const {t} = useTranslation();
+  const [editing, setEditing] = useState<Editing>(null);
+
+  const updateDay = (day: Weekday, patch: Partial<WorkingHours>) => {
+    onChange({...weeklyHours, [day]: {...weeklyHours[day], ...patch}});
+  };
+
+  const pickerValue = (() => {
+    const date = new Date();
+    const minutes = editing ? parseTime(weeklyHours[editing.day][editing.field]) : NaN;
+    date.setHours(0, Number.isNaN(minutes) ? 9 * 60 : minutes, 0, 0);
+    return date;
+  })();
+
+  const handlePicked = (event: DateTimePickerEvent, date?: Date) => {
+    const target = editing;
+    // Android closes the dialog itself; iOS keeps the inline spinner open
+    if (Platform.OS === 'android') setEditing(null);
+    if (!target || event.type === 'dismissed' || !date) return;
+    updateDay(target.day, {
+      [target.field]: formatTime(date.getHours() * 60 + date.getMinutes()),
+    });
+  };
+
+  return (
+    <View>
+      {DAYS.map(day => {
+        const hours = weeklyHours[day];
+        const overnight = hours.enabled && parseTime(hours.end) <= parseTime(hours.start);
+        return (
+          <View key={day} style={[styles.row, {borderBottomColor: theme.border}]}>
+            <Text style={[styles.dayLabel, {color: theme.text}]}>
+              {String(t(`schedule.weekdays.${day}`))}
+            </Text>
+            <Switch
+              value={hours.enabled}
+              onValueChange={enabled => updateDay(day, {enabled})}
+            />
+            {hours.enabled ? (
+              <View style={styles.times}>
+                {(['start', 'end'] as const).map(field => (
+                  <TouchableOpacity
+                    key={field}
+                    style={[styles.timeButton, {borderColor: theme.primary}]}
+                    onPress={() => setEditing({day, field})}>
+                    <Text style={[styles.timeText, {color: theme.primary}]}>
+                      {hours[field]}
+                    </Text>
+                  </TouchableOpacity>
+                ))}
+                {overnight && (
+                  <Text style={[styles.overnight, {color: theme.textSecondary}]}>
+                    {String(t('schedule.overnight'))}
+                  </Text>
+                )}
+              </View>
+            ) : (
+              <Text style={[styles.offText, {color: theme.textSecondary}]}>
+                {String(t('schedule.dayOff'))}
+              </Text>
+            )}
+          </View>
+        );
+      })}
+
+      {editing && (
+        <View>
+          <DateTimePicker
+            value={pickerValue}
+            mode="time"
+            is24Hour
+            display={Platform.OS === 'ios' ? 'spinner' : 'default'}
+            onChange={handlePicked}
+          />
+          {Platform.OS === 'ios' && (
+            <TouchableOpacity style={styles.doneButton} onPress={() => setEditing(null)}>
+              <Text style={[styles.timeText, {color: theme.primary}]}>
+                {String(t('common.ok'))}
+              </Text>
+            </TouchableOpacity>
+          )}
+        </View>
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 10,
+    borderBottomWidth: StyleSheet.hairlineWidth,
+    gap: 8,
+  },
+  dayLabel: {
+    width: 44,
+    fontSize: 14,
+    fontWeight: '600',
+  },
+  times: {
+    flex: 1,
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+  },
+  timeButton: {
+    paddingHorizontal: 10,
+    paddingVertical: 6,
+    borderRadius: 8,
+    borderWidth: 1,
+  },
+  timeText: {
+    fontSize: 14,
+    fontWeight: '600',
+  },
+  overnight: {
+    fontSize: 11,
+  },
+  offText: {
+    flex: 1,
+    fontSize: 14,
+  },
+  doneButton: {
+    alignSelf: 'flex-end',
+    padding: 8,
+  },
+});
@@ -26,3 +26,8 @@ export const SOCKET_URL = API_BASE_URL.replace(/\/api\/?$/, '');
 
 // Default timeout for API requests (in milliseconds)
 export const API_TIMEOUT = 30000; // 30 seconds
+
+// Retry policy for idempotent requests (GET/PUT/DELETE, and POST with an Idempotency-Key)
+export const API_MAX_RETRIES = 2;
+export const API_RETRY_BASE_DELAY_MS = 500;
+export const API_RETRY_MAX_DELAY_MS = 5000;
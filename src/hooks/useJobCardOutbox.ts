@@ -0,0 +1,37 @@
+import {useCallback, useEffect, useState} from 'react';
+import {
+  dismissOutboxEntry,
+  onOutboxChange,
+  OutboxEntry,
+} from '../services/jobCardOutbox';
+
+/**
+ * Live view of the offline job card outbox.
+ * Screens use it for "pending sync" badges and replay conflicts.
+ */
+export const useJobCardOutbox = () => {
+  const [entries, setEntries] = useState<OutboxEntry[]>([]);
+
+  useEffect(() => onOutboxChange(setEntries), []);
+
+  const pendingFor = useCallback(
+    (jobCardId?: string) =>
+      entries.filter(e => e.jobCardId === jobCardId && e.state === 'pending'),
+    [entries],
+  );
+
+  const conflictsFor = useCallback(
+    (jobCardId?: string) =>
+      entries.filter(e => e.jobCardId === jobCardId && e.state === 'conflict'),
+    [entries],
+  );
+
+  return {
+    entries,
+    pendingFor,
+    conflictsFor,
+    dismiss: dismissOutboxEntry,
+  };
+};
+
+export default useJobCardOutbox;
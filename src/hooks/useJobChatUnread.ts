@@ -0,0 +1,25 @@
+import {useCallback, useEffect, useState} from 'react';
+import {onChatUnreadChange, refreshChatUnreadCounts} from '../services/chatService';
+
+/**
+ * Live unread customer chat messages per job card.
+ * Screens use it for the unread badge on job rows.
+ */
+export const useJobChatUnread = () => {
+  const [unread, setUnread] = useState<Record<string, number>>({});
+
+  useEffect(() => onChatUnreadChange(setUnread), []);
+
+  const unreadFor = useCallback(
+    (jobCardId?: string) => (jobCardId ? unread[jobCardId] || 0 : 0),
+    [unread],
+  );
+
+  return {
+    unread,
+    unreadFor,
+    refresh: refreshChatUnreadCounts,
+  };
+};
+
+export default useJobChatUnread;
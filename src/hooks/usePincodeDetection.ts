@@ -1,6 +1,7 @@
 import {useEffect, useState} from 'react';
 import {useStore} from '../store';
 import GeolocationService, {LocationData} from '../services/geolocationService';
+import {reverseGeocode} from '../services/geocodingService';
 import auth from '@react-native-firebase/auth';
 import {getMe, updateMe} from '../services/api/usersApi';
 
@@ -95,6 +96,18 @@ export const usePincodeDetection = () => {
           );
 
           const location = await Promise.race([locationPromise, timeoutPromise]) as LocationData;
+
+          // The fix came back without an address (e.g. the online geocoders
+          // timed out) — the geocoder chain can still place it offline
+          if (location && !location.pincode) {
+            const resolved = await reverseGeocode(location.latitude, location.longitude);
+            if (resolved?.pincode) {
+              location.pincode = resolved.pincode;
+              location.address = location.address || resolved.address;
+              location.city = location.city || resolved.city || resolved.district;
+              location.state = location.state || resolved.state;
+            }
+          }
           
           // Clear the overall timeout if location detection succeeded
           if (timeoutId) {
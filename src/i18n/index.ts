@@ -18,6 +18,13 @@ import enJobDetails from './locales/en/jobDetails.json';
 import enOnboarding from './locales/en/onboarding.json';
 import enProviderProfile from './locales/en/providerProfile.json';
 import enRecommendations from './locales/en/recommendations.json';
+import enEarnings from './locales/en/earnings.json';
+import enSchedule from './locales/en/schedule.json';
+import enBookingRules from './locales/en/bookingRules.json';
+import enAnnouncements from './locales/en/announcements.json';
+import enAlertProfiles from './locales/en/alertProfiles.json';
+import enKyc from './locales/en/kyc.json';
+import enPayouts from './locales/en/payouts.json';
 
 // Hindi translations
 import hiCommon from './locales/hi/common.json';
@@ -35,6 +42,13 @@ import hiJobDetails from './locales/hi/jobDetails.json';
 import hiOnboarding from './locales/hi/onboarding.json';
 import hiProviderProfile from './locales/hi/providerProfile.json';
 import hiRecommendations from './locales/hi/recommendations.json';
+import hiEarnings from './locales/hi/earnings.json';
+import hiSchedule from './locales/hi/schedule.json';
+import hiBookingRules from './locales/hi/bookingRules.json';
+import hiAnnouncements from './locales/hi/announcements.json';
+import hiAlertProfiles from './locales/hi/alertProfiles.json';
+import hiKyc from './locales/hi/kyc.json';
+import hiPayouts from './locales/hi/payouts.json';
 
 // Merge all translations
 const en = {
@@ -53,6 +67,13 @@ const en = {
   dashboard: enDashboard,
   onboarding: enOnboarding,
   recommendations: enRecommendations,
+  earnings: enEarnings,
+  schedule: enSchedule,
+  bookingRules: enBookingRules,
+  announcements: enAnnouncements,
+  alertProfiles: enAlertProfiles,
+  kyc: enKyc,
+  payouts: enPayouts,
 };
 
 const hi = {
@@ -71,6 +92,13 @@ const hi = {
   dashboard: hiDashboard,
   onboarding: hiOnboarding,
   recommendations: hiRecommendations,
+  earnings: hiEarnings,
+  schedule: hiSchedule,
+  bookingRules: hiBookingRules,
+  announcements: hiAnnouncements,
+  alertProfiles: hiAlertProfiles,
+  kyc: hiKyc,
+  payouts: hiPayouts,
 };
 
 const LANGUAGE_KEY = '@app_language';
@@ -22,10 +22,17 @@ import SignUpScreen from '../screens/SignUpScreen';
 import RoleSelectionScreen from '../screens/RoleSelectionScreen';
 import ProviderTabNavigator from './ProviderTabNavigator';
 import JobDetailsScreen from '../screens/JobDetailsScreen';
+import JobChatScreen from '../screens/JobChatScreen';
 import ServiceProviderProfileSetupScreen from '../screens/ServiceProviderProfileSetupScreen';
 import HelpSupportScreen from '../screens/HelpSupportScreen';
 import PhoneVerificationScreen from '../screens/PhoneVerificationScreen';
 import ShareContactRecommendationScreen from '../screens/ShareContactRecommendationScreen';
+import ScheduleScreen from '../screens/ScheduleScreen';
+import DayRouteScreen from '../screens/DayRouteScreen';
+import BookingRulesScreen from '../screens/BookingRulesScreen';
+import VoiceAnnouncementsScreen from '../screens/VoiceAnnouncementsScreen';
+import AlertProfilesScreen from '../screens/AlertProfilesScreen';
+import PayoutAccountsScreen from '../screens/PayoutAccountsScreen';
 
 const Stack = createNativeStackNavigator();
 const navigationRef = createNavigationContainerRef();
@@ -133,6 +140,16 @@ export default function AppNavigator() {
             headerTintColor: theme.text,
           }}
         />
+        <Stack.Screen
+          name="JobChat"
+          component={JobChatScreen}
+          options={{
+            headerShown: true,
+            title: String(t('jobDetails.chat.title')),
+            headerStyle: {backgroundColor: theme.card},
+            headerTintColor: theme.text,
+          }}
+        />
         <Stack.Screen
           name="ProviderProfileSetup"
           component={ServiceProviderProfileSetupScreen}
@@ -151,6 +168,66 @@ export default function AppNavigator() {
             ),
           }}
         />
+        <Stack.Screen
+          name="Schedule"
+          component={ScheduleScreen}
+          options={{
+            headerShown: true,
+            title: String(t('schedule.title')),
+            headerStyle: {backgroundColor: theme.card},
+            headerTintColor: theme.text,
+          }}
+        />
+        <Stack.Screen
+          name="DayRoute"
+          component={DayRouteScreen}
+          options={{
+            headerShown: true,
+            title: String(t('schedule.route.title')),
+            headerStyle: {backgroundColor: theme.card},
+            headerTintColor: theme.text,
+          }}
+        />
+        <Stack.Screen
+          name="BookingRules"
+          component={BookingRulesScreen}
+          options={{
+            headerShown: true,
+            title: String(t('bookingRules.title')),
+            headerStyle: {backgroundColor: theme.card},
+            headerTintColor: theme.text,
+          }}
+        />
+        <Stack.Screen
+          name="VoiceAnnouncements"
+          component={VoiceAnnouncementsScreen}
+          options={{
+            headerShown: true,
+            title: String(t('announcements.title')),
+            headerStyle: {backgroundColor: theme.card},
+            headerTintColor: theme.text,
+          }}
+        />
+        <Stack.Screen
+          name="AlertProfiles"
+          component={AlertProfilesScreen}
+          options={{
+            headerShown: true,
+            title: String(t('alertProfiles.title')),
+            headerStyle: {backgroundColor: theme.card},
+            headerTintColor: theme.text,
+          }}
+        />
+        <Stack.Screen
+          name="PayoutAccounts"
+          component={PayoutAccountsScreen}
+          options={{
+            headerShown: true,
+            title: String(t('payouts.title')),
+            headerStyle: {backgroundColor: theme.card},
+            headerTintColor: theme.text,
+          }}
+        />
         <Stack.Screen
           name="HelpSupport"
           component={HelpSupportScreen}
@@ -10,6 +10,7 @@ import ProviderDashboardScreen from '../screens/ProviderDashboardScreen';
 import JobsScreen from '../screens/JobsScreen';
 import JobsHistoryScreen from '../screens/JobsHistoryScreen';
 import ProviderProfileScreen from '../screens/ProviderProfileScreen';
+import EarningsScreen from '../screens/EarningsScreen';
 import NotificationsScreen from '../screens/NotificationsScreen';
 import NotificationIcon from '../components/NotificationIcon';
 import ProfileSetupModal from '../components/ProfileSetupModal';
@@ -18,6 +19,14 @@ import {lightTheme, darkTheme} from '../utils/theme';
 import websocketService from '../services/websocketService';
 import useTranslation from '../hooks/useTranslation';
 import {IncomingBookingProvider} from '../components/IncomingBookingContext';
+import {startOutboxSync} from '../services/jobCardOutbox';
+import {startChatSync} from '../services/chatService';
+import {startBookingRules} from '../services/bookingRulesService';
+import {startAvailabilitySchedule} from '../services/availabilityService';
+import {startNotificationSync} from '../services/notificationCenterService';
+import {startAnnouncements} from '../services/announcementService';
+import {startDocumentSync} from '../services/kycDocumentService';
+import {startPayoutAccountSync} from '../services/payoutAccountService';
 
 const Tab = createBottomTabNavigator();
 const Stack = createNativeStackNavigator();
@@ -98,6 +107,33 @@ const JobsHistoryStack = () => {
   );
 };
 
+// Stack wrapper for Earnings with header
+const EarningsStack = () => {
+  const {isDarkMode} = useStore();
+  const theme = isDarkMode ? darkTheme : lightTheme;
+  const {t} = useTranslation();
+
+  return (
+    <Stack.Navigator
+      screenOptions={{
+        headerShown: true,
+        headerStyle: {
+          backgroundColor: theme.card,
+        },
+        headerTintColor: theme.text,
+        headerTitleStyle: {
+          fontWeight: '600',
+        },
+      }}>
+      <Stack.Screen
+        name="EarningsMain"
+        component={EarningsScreen}
+        options={{title: String(t('earnings.title'))}}
+      />
+    </Stack.Navigator>
+  );
+};
+
 export default function ProviderTabNavigator() {
   const navigation = useNavigation();
   const {t} = useTranslation();
@@ -150,6 +186,54 @@ export default function ProviderTabNavigator() {
     };
   }, []);
 
+  // Replay job card actions queued while offline once connectivity returns
+  useEffect(() => {
+    if (!userId) return;
+    return startOutboxSync(userId);
+  }, [userId]);
+
+  // Job chat: incoming messages, receipts and sends queued while offline
+  useEffect(() => {
+    if (!userId) return;
+    return startChatSync();
+  }, [userId]);
+
+  // Filters and auto-accept rules decide which offers ring the hooter
+  useEffect(() => {
+    if (!userId) return;
+    return startBookingRules();
+  }, [userId]);
+
+  // Go online / offline at shift boundaries when the provider enabled auto-toggle
+  useEffect(() => {
+    if (!userId) return;
+    return startAvailabilitySchedule();
+  }, [userId]);
+
+  // Keep the notification inbox and its read state in step with the server
+  useEffect(() => {
+    if (!userId) return;
+    return startNotificationSync();
+  }, [userId]);
+
+  // Spoken heads-ups for cancellations, payments and the next scheduled job
+  useEffect(() => {
+    if (!userId) return;
+    return startAnnouncements(userId);
+  }, [userId]);
+
+  // KYC document reviews and reminders before a document lapses
+  useEffect(() => {
+    if (!userId) return;
+    return startDocumentSync();
+  }, [userId]);
+
+  // Payout accounts, including any verification still running
+  useEffect(() => {
+    if (!userId) return;
+    return startPayoutAccountSync();
+  }, [userId]);
+
   // Re-check profile when screen comes into focus (e.g., after returning from profile setup)
   useFocusEffect(
     useCallback(() => {
@@ -225,6 +309,16 @@ export default function ProviderTabNavigator() {
             tabBarLabel: String(t('common.history')),
           }}
         />
+        <Tab.Screen
+          name="Earnings"
+          component={EarningsStack}
+          options={{
+            tabBarIcon: ({color, size}) => (
+              <Icon name="account-balance-wallet" size={size} color={color} />
+            ),
+            tabBarLabel: String(t('common.earnings')),
+          }}
+        />
         <Tab.Screen
           name="Profile"
           component={ProviderProfileScreen}
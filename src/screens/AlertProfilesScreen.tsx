@@ -0,0 +1,517 @@
+/**
+ * Alert Profiles Screen
+ * Provider app - How the hooter rings for immediate and scheduled requests,
+ * escalation when an offer goes unanswered, and vibrate-only quiet hours
+ */
+
+import React, {useEffect, useRef, useState} from 'react';
+import {
+  View,
+  Text,
+  TextInput,
+  ScrollView,
+  TouchableOpacity,
+  StyleSheet,
+  Switch,
+  ActivityIndicator,
+  Alert,
+} from 'react-native';
+import Icon from 'react-native-vector-icons/MaterialIcons';
+import {useStore} from '../store';
+import {lightTheme, darkTheme} from '../utils/theme';
+import useTranslation from '../hooks/useTranslation';
+import soundService from '../services/soundService';
+import websocketService from '../services/websocketService';
+import {
+  ALERT_PROFILE_KINDS,
+  ALERT_TONES,
+  AlertProfile,
+  AlertProfileKind,
+  AlertProfileSettings,
+  AlertTone,
+  getAlertProfiles,
+  saveAlertProfiles,
+  VIBRATION_STYLES,
+} from '../services/alertProfileService';
+
+const VOLUME_STEPS = [0.25, 0.5, 0.75, 1];
+const TIME_PATTERN = /^([01]\d|2[0-3]):[0-5]\d$/;
+const PREVIEW_MS = 6000;
+
+const toSeconds = (text: string, min: number): number => Math.max(min, parseInt(text, 10) || 0);
+
+export default function AlertProfilesScreen() {
+  const {t} = useTranslation();
+  const tx = (key: string, opts?: any) => String(t(key, opts));
+  const {isDarkMode} = useStore();
+  const theme = isDarkMode ? darkTheme : lightTheme;
+
+  const [settings, setSettings] = useState<AlertProfileSettings | null>(null);
+  const [kind, setKind] = useState<AlertProfileKind>('immediate');
+  const [saving, setSaving] = useState(false);
+  const [dirty, setDirty] = useState(false);
+  const [previewing, setPreviewing] = useState(false);
+  const previewTimer = useRef<ReturnType<typeof setTimeout> | null>(null);
+
+  useEffect(() => {
+    void getAlertProfiles().then(setSettings);
+    return () => {
+      if (previewTimer.current) {
+        clearTimeout(previewTimer.current);
+        soundService.stopContinuousPlay();
+      }
+    };
+  }, []);
+
+  const updateSettings = (next: AlertProfileSettings) => {
+    setSettings(next);
+    setDirty(true);
+  };
+
+  const updateProfile = (patch: Partial<AlertProfile>) => {
+    if (!settings) return;
+    updateSettings({
+      ...settings,
+      profiles: {...settings.profiles, [kind]: {...settings.profiles[kind], ...patch}},
+    });
+  };
+
+  const stopPreview = () => {
+    if (previewTimer.current) clearTimeout(previewTimer.current);
+    previewTimer.current = null;
+    soundService.stopContinuousPlay();
+    setPreviewing(false);
+  };
+
+  const handlePreview = () => {
+    if (!settings) return;
+    if (previewing) {
+      stopPreview();
+      return;
+    }
+    // A real offer's hooter is not interrupted for a sample
+    if (websocketService.isHooterRinging()) return;
+    soundService.startContinuousPlay({...settings.profiles[kind], kind});
+    setPreviewing(true);
+    previewTimer.current = setTimeout(stopPreview, PREVIEW_MS);
+  };
+
+  const handleSave = async () => {
+    if (!settings) return;
+    const {quietHours} = settings;
+    if (
+      quietHours.enabled &&
+      (!TIME_PATTERN.test(quietHours.start) || !TIME_PATTERN.test(quietHours.end))
+    ) {
+      Alert.alert(tx('common.error'), tx('alertProfiles.invalidTime'));
+      return;
+    }
+    try {
+      setSaving(true);
+      await saveAlertProfiles(settings);
+      setDirty(false);
+    } catch {
+      Alert.alert(tx('common.error'), tx('alertProfiles.saveFailed'));
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  if (!settings) {
+    return (
+      <View style={[styles.container, styles.loaderContainer, {backgroundColor: theme.background}]}>
+        <ActivityIndicator size="large" color={theme.primary} />
+      </View>
+    );
+  }
+
+  const profile = settings.profiles[kind];
+  const quiet = kind === 'quiet';
+  const inputStyle = [
+    styles.input,
+    {color: theme.text, borderColor: theme.border, backgroundColor: theme.background},
+  ];
+
+  const renderChips = <T extends string | number>(
+    options: T[],
+    selected: T,
+    label: (option: T) => string,
+    onSelect: (option: T) => void,
+  ) => (
+    <View style={styles.chipRow}>
+      {options.map(option => {
+        const active = option === selected;
+        return (
+          <TouchableOpacity
+            key={String(option)}
+            style={[
+              styles.chip,
+              {
+                borderColor: active ? theme.primary : theme.border,
+                backgroundColor: active ? theme.primary : 'transparent',
+              },
+            ]}
+            onPress={() => onSelect(option)}>
+            <Text style={[styles.chipText, {color: active ? '#fff' : theme.text}]}>
+              {label(option)}
+            </Text>
+          </TouchableOpacity>
+        );
+      })}
+    </View>
+  );
+
+  const toneLabel = (tone: AlertTone) => tx(`alertProfiles.tones.${tone}`);
+  const percent = (volume: number) => `${Math.round(volume * 100)}%`;
+
+  return (
+    <ScrollView
+      style={[styles.container, {backgroundColor: theme.background}]}
+      contentContainerStyle={styles.content}
+      keyboardShouldPersistTaps="handled">
+      <View style={styles.segmented}>
+        {ALERT_PROFILE_KINDS.map(option => {
+          const selected = option === kind;
+          return (
+            <TouchableOpacity
+              key={option}
+              style={[
+                styles.segment,
+                {
+                  borderColor: theme.primary,
+                  backgroundColor: selected ? theme.primary : 'transparent',
+                },
+              ]}
+              onPress={() => setKind(option)}>
+              <Text style={[styles.segmentText, {color: selected ? '#fff' : theme.primary}]}>
+                {tx(`alertProfiles.kinds.${option}`)}
+              </Text>
+            </TouchableOpacity>
+          );
+        })}
+      </View>
+      <Text style={[styles.hint, styles.kindHint, {color: theme.textSecondary}]}>
+        {tx(`alertProfiles.kindHints.${kind}`)}
+      </Text>
+
+      <View style={[styles.card, {backgroundColor: theme.card}]}>
+        {!quiet && (
+          <>
+            <View style={styles.switchRow}>
+              <View style={styles.flex}>
+                <Text style={[styles.sectionTitle, {color: theme.text}]}>
+                  {tx('alertProfiles.sound')}
+                </Text>
+                <Text style={[styles.hint, {color: theme.textSecondary}]}>
+                  {tx('alertProfiles.silentHint')}
+                </Text>
+              </View>
+              <Switch
+                value={!profile.silent}
+                onValueChange={value => updateProfile({silent: !value})}
+                trackColor={{false: theme.border, true: theme.primary}}
+                thumbColor="#FFFFFF"
+              />
+            </View>
+            <Text style={[styles.label, {color: theme.textSecondary}]}>
+              {tx('alertProfiles.tone')}
+            </Text>
+            {renderChips(ALERT_TONES, profile.tone, toneLabel, tone => updateProfile({tone}))}
+
+            <Text style={[styles.label, {color: theme.textSecondary}]}>
+              {tx('alertProfiles.startVolume')}
+            </Text>
+            {renderChips(VOLUME_STEPS, profile.startVolume, percent, startVolume =>
+              updateProfile({
+                startVolume,
+                maxVolume: Math.max(startVolume, profile.maxVolume),
+              }),
+            )}
+            <Text style={[styles.label, {color: theme.textSecondary}]}>
+              {tx('alertProfiles.maxVolume')}
+            </Text>
+            {renderChips(VOLUME_STEPS, profile.maxVolume, percent, maxVolume =>
+              updateProfile({
+                maxVolume,
+                startVolume: Math.min(maxVolume, profile.startVolume),
+              }),
+            )}
+            <Text style={[styles.label, {color: theme.textSecondary}]}>
+              {tx('alertProfiles.rampSec')}
+            </Text>
+            <TextInput
+              key={`ramp-${kind}`}
+              style={[inputStyle, styles.shortInput]}
+              defaultValue={String(profile.rampSec)}
+              onChangeText={text => updateProfile({rampSec: toSeconds(text, 0)})}
+              keyboardType="number-pad"
+              maxLength={2}
+            />
+          </>
+        )}
+
+        <Text style={[styles.label, {color: theme.textSecondary}]}>
+          {tx('alertProfiles.vibration')}
+        </Text>
+        {renderChips(
+          VIBRATION_STYLES,
+          profile.vibration,
+          style => tx(`alertProfiles.vibrations.${style}`),
+          vibration => updateProfile({vibration}),
+        )}
+
+        <TouchableOpacity
+          style={[styles.outlineButton, {borderColor: theme.primary}]}
+          onPress={handlePreview}>
+          <Icon name={previewing ? 'stop' : 'play-arrow'} size={18} color={theme.primary} />
+          <Text style={[styles.outlineButtonText, {color: theme.primary}]}>
+            {tx(previewing ? 'alertProfiles.stopPreview' : 'alertProfiles.preview')}
+          </Text>
+        </TouchableOpacity>
+      </View>
+
+      {!quiet && (
+        <View style={[styles.card, {backgroundColor: theme.card}]}>
+          <View style={styles.switchRow}>
+            <View style={styles.flex}>
+              <Text style={[styles.sectionTitle, {color: theme.text}]}>
+                {tx('alertProfiles.escalation.title')}
+              </Text>
+              <Text style={[styles.hint, {color: theme.textSecondary}]}>
+                {tx('alertProfiles.escalation.subtitle')}
+              </Text>
+            </View>
+            <Switch
+              value={profile.escalation.enabled}
+              onValueChange={enabled =>
+                updateProfile({escalation: {...profile.escalation, enabled}})
+              }
+              trackColor={{false: theme.border, true: theme.primary}}
+              thumbColor="#FFFFFF"
+            />
+          </View>
+          {profile.escalation.enabled && (
+            <>
+              <Text style={[styles.label, {color: theme.textSecondary}]}>
+                {tx('alertProfiles.escalation.afterSec')}
+              </Text>
+              <TextInput
+                key={`escalate-${kind}`}
+                style={[inputStyle, styles.shortInput]}
+                defaultValue={String(profile.escalation.afterSec)}
+                onChangeText={text =>
+                  updateProfile({
+                    escalation: {...profile.escalation, afterSec: toSeconds(text, 5)},
+                  })
+                }
+                keyboardType="number-pad"
+                maxLength={2}
+              />
+              <Text style={[styles.label, {color: theme.textSecondary}]}>
+                {tx('alertProfiles.escalation.tone')}
+              </Text>
+              {renderChips(ALERT_TONES, profile.escalation.tone, toneLabel, tone =>
+                updateProfile({escalation: {...profile.escalation, tone}}),
+              )}
+              <View style={[styles.switchRow, styles.spaced]}>
+                <Text style={[styles.label, styles.flex, {color: theme.textSecondary}]}>
+                  {tx('alertProfiles.escalation.voiceReminder')}
+                </Text>
+                <Switch
+                  value={profile.escalation.voiceReminder}
+                  onValueChange={voiceReminder =>
+                    updateProfile({escalation: {...profile.escalation, voiceReminder}})
+                  }
+                  trackColor={{false: theme.border, true: theme.primary}}
+                  thumbColor="#FFFFFF"
+                />
+              </View>
+            </>
+          )}
+        </View>
+      )}
+
+      {quiet && (
+        <View style={[styles.card, {backgroundColor: theme.card}]}>
+          <View style={styles.switchRow}>
+            <View style={styles.flex}>
+              <Text style={[styles.sectionTitle, {color: theme.text}]}>
+                {tx('alertProfiles.quietHours.title')}
+              </Text>
+              <Text style={[styles.hint, {color: theme.textSecondary}]}>
+                {tx('alertProfiles.quietHours.subtitle')}
+              </Text>
+            </View>
+            <Switch
+              value={settings.quietHours.enabled}
+              onValueChange={enabled =>
+                updateSettings({...settings, quietHours: {...settings.quietHours, enabled}})
+              }
+              trackColor={{false: theme.border, true: theme.primary}}
+              thumbColor="#FFFFFF"
+            />
+          </View>
+          {settings.quietHours.enabled && (
+            <View style={styles.inputRow}>
+              <TextInput
+                style={[inputStyle, styles.flex]}
+                defaultValue={settings.quietHours.start}
+                onChangeText={start =>
+                  updateSettings({...settings, quietHours: {...settings.quietHours, start}})
+                }
+                placeholder="22:00"
+                placeholderTextColor={theme.textSecondary}
+                maxLength={5}
+              />
+              <Text style={{color: theme.textSecondary}}>–</Text>
+              <TextInput
+                style={[inputStyle, styles.flex]}
+                defaultValue={settings.quietHours.end}
+                onChangeText={end =>
+                  updateSettings({...settings, quietHours: {...settings.quietHours, end}})
+                }
+                placeholder="07:00"
+                placeholderTextColor={theme.textSecondary}
+                maxLength={5}
+              />
+            </View>
+          )}
+        </View>
+      )}
+
+      <TouchableOpacity
+        style={[styles.saveButton, {backgroundColor: dirty ? theme.primary : theme.border}]}
+        disabled={!dirty || saving}
+        onPress={() => void handleSave()}>
+        {saving ? (
+          <ActivityIndicator color="#fff" />
+        ) : (
+          <Text style={styles.saveButtonText}>{tx('alertProfiles.save')}</Text>
+        )}
+      </TouchableOpacity>
+    </ScrollView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  loaderContainer: {
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  content: {
+    padding: 16,
+    paddingBottom: 32,
+  },
+  card: {
+    padding: 16,
+    marginBottom: 12,
+    borderRadius: 12,
+    elevation: 2,
+    shadowColor: '#000',
+    shadowOffset: {width: 0, height: 1},
+    shadowOpacity: 0.22,
+    shadowRadius: 2.22,
+  },
+  sectionTitle: {
+    fontSize: 16,
+    fontWeight: '600',
+    marginBottom: 4,
+  },
+  hint: {
+    fontSize: 12,
+  },
+  kindHint: {
+    marginTop: 8,
+    marginBottom: 12,
+  },
+  label: {
+    fontSize: 13,
+    fontWeight: '500',
+    marginTop: 12,
+    marginBottom: 6,
+  },
+  flex: {
+    flex: 1,
+  },
+  spaced: {
+    marginTop: 4,
+  },
+  switchRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+  },
+  inputRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+    marginTop: 12,
+  },
+  input: {
+    borderWidth: 1,
+    borderRadius: 8,
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+    fontSize: 14,
+  },
+  shortInput: {
+    width: 90,
+  },
+  chipRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+  },
+  chip: {
+    borderWidth: 1,
+    borderRadius: 16,
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+  },
+  chipText: {
+    fontSize: 13,
+  },
+  segmented: {
+    flexDirection: 'row',
+    gap: 8,
+  },
+  segment: {
+    flex: 1,
+    borderWidth: 1,
+    borderRadius: 8,
+    paddingVertical: 8,
+    alignItems: 'center',
+  },
+  segmentText: {
+    fontSize: 13,
+    fontWeight: '600',
+  },
+  outlineButton: {
+    flexDirection: 'row',
+    justifyContent: 'center',
+    borderWidth: 1,
+    borderRadius: 8,
+    paddingVertical: 10,
+    alignItems: 'center',
+    marginTop: 16,
+    gap: 6,
+  },
+  outlineButtonText: {
+    fontSize: 14,
+    fontWeight: '600',
+  },
+  saveButton: {
+    borderRadius: 12,
+    paddingVertical: 14,
+    alignItems: 'center',
+    marginBottom: 12,
+  },
+  saveButtonText: {
+    color: '#fff',
+    fontSize: 16,
+    fontWeight: '700',
+  },
+});
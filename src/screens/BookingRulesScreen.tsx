@@ -0,0 +1,642 @@
+/**
+ * Booking Rules Screen
+ * Provider app - Filters that keep unwanted offers silent, auto-accept rules
+ * with daily caps, and the log of every decision the rules made
+ */
+
+import React, {useState, useEffect, useCallback} from 'react';
+import {
+  View,
+  Text,
+  TextInput,
+  ScrollView,
+  TouchableOpacity,
+  StyleSheet,
+  Switch,
+  ActivityIndicator,
+  Alert,
+} from 'react-native';
+import Icon from 'react-native-vector-icons/MaterialIcons';
+import {useStore} from '../store';
+import {lightTheme, darkTheme} from '../utils/theme';
+import useTranslation from '../hooks/useTranslation';
+import {fetchServiceCategories} from '../services/serviceCategoriesService';
+import {
+  AutoAcceptRule,
+  BookingCriteria,
+  BookingDecision,
+  BookingRules,
+  clearBookingDecisions,
+  createAutoAcceptRule,
+  DecisionOutcome,
+  getAutoAcceptCountsToday,
+  getBookingDecisions,
+  getBookingRules,
+  onBookingDecisions,
+  saveBookingRules,
+  UrgencyPreference,
+} from '../services/bookingRulesService';
+
+const URGENCIES: UrgencyPreference[] = ['any', 'immediate', 'scheduled'];
+const TIME_PATTERN = /^([01]\d|2[0-3]):[0-5]\d$/;
+const DEFAULT_WINDOW = {start: '09:00', end: '18:00'};
+
+const OUTCOME_STYLES: Record<DecisionOutcome, {icon: string; color: string}> = {
+  auto_accepted: {icon: 'bolt', color: '#34C759'},
+  filtered: {icon: 'filter-alt', color: '#8E8E93'},
+  offered: {icon: 'front-hand', color: '#FF9500'},
+};
+
+const toNumberOrNull = (text: string): number | null => {
+  const value = parseFloat(text);
+  return Number.isFinite(value) && value >= 0 ? value : null;
+};
+
+export default function BookingRulesScreen() {
+  const {t} = useTranslation();
+  const tx = (key: string, opts?: any) => String(t(key, opts));
+  const {isDarkMode} = useStore();
+  const theme = isDarkMode ? darkTheme : lightTheme;
+
+  const [rules, setRules] = useState<BookingRules | null>(null);
+  const [categories, setCategories] = useState<string[]>([]);
+  const [countsToday, setCountsToday] = useState<Record<string, number>>({});
+  const [decisions, setDecisions] = useState<BookingDecision[]>([]);
+  const [expandedRuleId, setExpandedRuleId] = useState<string | null>(null);
+  const [saving, setSaving] = useState(false);
+  const [dirty, setDirty] = useState(false);
+
+  const load = useCallback(async () => {
+    const [stored, counts, log] = await Promise.all([
+      getBookingRules(),
+      getAutoAcceptCountsToday(),
+      getBookingDecisions(),
+    ]);
+    setRules(stored);
+    setCountsToday(counts);
+    setDecisions(log);
+    try {
+      setCategories((await fetchServiceCategories()).map(category => category.name));
+    } catch {
+      // chips fall back to the categories already in use
+    }
+  }, []);
+
+  useEffect(() => {
+    void load();
+    return onBookingDecisions(log => {
+      setDecisions(log);
+      void getAutoAcceptCountsToday().then(setCountsToday);
+    });
+  }, [load]);
+
+  const updateRules = (next: BookingRules) => {
+    setRules(next);
+    setDirty(true);
+  };
+
+  const updateRule = (id: string, patch: Partial<AutoAcceptRule>) => {
+    if (!rules) return;
+    updateRules({
+      ...rules,
+      autoAcceptRules: rules.autoAcceptRules.map(rule => (rule.id === id ? {...rule, ...patch} : rule)),
+    });
+  };
+
+  const invalidWindow = (criteria: BookingCriteria) =>
+    !!criteria.timeWindow &&
+    (!TIME_PATTERN.test(criteria.timeWindow.start) || !TIME_PATTERN.test(criteria.timeWindow.end));
+
+  const handleSave = async () => {
+    if (!rules) return;
+    if (invalidWindow(rules.filters) || rules.autoAcceptRules.some(invalidWindow)) {
+      Alert.alert(tx('common.error'), tx('bookingRules.invalidTime'));
+      return;
+    }
+    if (rules.autoAcceptRules.some(rule => !rule.name.trim())) {
+      Alert.alert(tx('common.error'), tx('bookingRules.nameRequired'));
+      return;
+    }
+    try {
+      setSaving(true);
+      await saveBookingRules(rules);
+      setDirty(false);
+    } catch {
+      Alert.alert(tx('common.error'), tx('bookingRules.saveFailed'));
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleAddRule = () => {
+    if (!rules) return;
+    const rule = createAutoAcceptRule(
+      tx('bookingRules.autoAccept.defaultName', {number: rules.autoAcceptRules.length + 1}),
+    );
+    updateRules({...rules, autoAcceptRules: [...rules.autoAcceptRules, rule]});
+    setExpandedRuleId(rule.id);
+  };
+
+  const handleDeleteRule = (rule: AutoAcceptRule) => {
+    Alert.alert(tx('bookingRules.autoAccept.deleteTitle'), rule.name, [
+      {text: tx('common.cancel'), style: 'cancel'},
+      {
+        text: tx('common.delete'),
+        style: 'destructive',
+        onPress: () =>
+          rules &&
+          updateRules({
+            ...rules,
+            autoAcceptRules: rules.autoAcceptRules.filter(item => item.id !== rule.id),
+          }),
+      },
+    ]);
+  };
+
+  if (!rules) {
+    return (
+      <View style={[styles.container, styles.loaderContainer, {backgroundColor: theme.background}]}>
+        <ActivityIndicator size="large" color={theme.primary} />
+      </View>
+    );
+  }
+
+  const inputStyle = [
+    styles.input,
+    {color: theme.text, borderColor: theme.border, backgroundColor: theme.background},
+  ];
+
+  const renderCriteria = (
+    criteria: BookingCriteria,
+    onChange: (patch: Partial<BookingCriteria>) => void,
+  ) => {
+    const chips = [...new Set([...categories, ...criteria.categories])];
+    return (
+      <>
+        <Text style={[styles.label, {color: theme.textSecondary}]}>
+          {tx('bookingRules.criteria.categories')}
+        </Text>
+        <View style={styles.chipRow}>
+          {chips.map(name => {
+            const selected = criteria.categories.includes(name);
+            return (
+              <TouchableOpacity
+                key={name}
+                style={[
+                  styles.chip,
+                  {
+                    borderColor: selected ? theme.primary : theme.border,
+                    backgroundColor: selected ? theme.primary : 'transparent',
+                  },
+                ]}
+                onPress={() =>
+                  onChange({
+                    categories: selected
+                      ? criteria.categories.filter(item => item !== name)
+                      : [...criteria.categories, name],
+                  })
+                }>
+                <Text style={[styles.chipText, {color: selected ? '#fff' : theme.text}]}>{name}</Text>
+              </TouchableOpacity>
+            );
+          })}
+        </View>
+        <Text style={[styles.hint, {color: theme.textSecondary}]}>
+          {criteria.categories.length === 0 ? tx('bookingRules.criteria.allCategories') : ''}
+        </Text>
+
+        <View style={styles.inputRow}>
+          <View style={styles.flex}>
+            <Text style={[styles.label, {color: theme.textSecondary}]}>
+              {tx('bookingRules.criteria.maxDistance')}
+            </Text>
+            <TextInput
+              style={inputStyle}
+              defaultValue={criteria.maxDistanceKm != null ? String(criteria.maxDistanceKm) : ''}
+              onChangeText={text => onChange({maxDistanceKm: toNumberOrNull(text)})}
+              placeholder={tx('bookingRules.criteria.noLimit')}
+              placeholderTextColor={theme.textSecondary}
+              keyboardType="decimal-pad"
+            />
+          </View>
+          <View style={styles.flex}>
+            <Text style={[styles.label, {color: theme.textSecondary}]}>
+              {tx('bookingRules.criteria.minFare')}
+            </Text>
+            <TextInput
+              style={inputStyle}
+              defaultValue={criteria.minFare != null ? String(criteria.minFare) : ''}
+              onChangeText={text => onChange({minFare: toNumberOrNull(text)})}
+              placeholder={tx('bookingRules.criteria.noLimit')}
+              placeholderTextColor={theme.textSecondary}
+              keyboardType="number-pad"
+            />
+          </View>
+        </View>
+
+        <Text style={[styles.label, {color: theme.textSecondary}]}>
+          {tx('bookingRules.criteria.urgency')}
+        </Text>
+        <View style={styles.segmented}>
+          {URGENCIES.map(urgency => {
+            const selected = criteria.urgency === urgency;
+            return (
+              <TouchableOpacity
+                key={urgency}
+                style={[
+                  styles.segment,
+                  {
+                    borderColor: theme.primary,
+                    backgroundColor: selected ? theme.primary : 'transparent',
+                  },
+                ]}
+                onPress={() => onChange({urgency})}>
+                <Text style={[styles.segmentText, {color: selected ? '#fff' : theme.primary}]}>
+                  {tx(`bookingRules.urgency.${urgency}`)}
+                </Text>
+              </TouchableOpacity>
+            );
+          })}
+        </View>
+
+        <View style={styles.switchRow}>
+          <Text style={[styles.label, styles.flex, {color: theme.textSecondary}]}>
+            {tx('bookingRules.criteria.timeWindow')}
+          </Text>
+          <Switch
+            value={!!criteria.timeWindow}
+            onValueChange={on => onChange({timeWindow: on ? DEFAULT_WINDOW : null})}
+            trackColor={{false: theme.border, true: theme.primary}}
+            thumbColor="#FFFFFF"
+          />
+        </View>
+        {criteria.timeWindow && (
+          <View style={styles.inputRow}>
+            <TextInput
+              style={[inputStyle, styles.flex]}
+              defaultValue={criteria.timeWindow.start}
+              onChangeText={start => onChange({timeWindow: {...criteria.timeWindow!, start}})}
+              placeholder="09:00"
+              placeholderTextColor={theme.textSecondary}
+              maxLength={5}
+            />
+            <Text style={{color: theme.textSecondary}}>–</Text>
+            <TextInput
+              style={[inputStyle, styles.flex]}
+              defaultValue={criteria.timeWindow.end}
+              onChangeText={end => onChange({timeWindow: {...criteria.timeWindow!, end}})}
+              placeholder="18:00"
+              placeholderTextColor={theme.textSecondary}
+              maxLength={5}
+            />
+          </View>
+        )}
+      </>
+    );
+  };
+
+  const renderRule = (rule: AutoAcceptRule) => {
+    const expanded = expandedRuleId === rule.id;
+    return (
+      <View key={rule.id} style={[styles.ruleBox, {borderColor: theme.border}]}>
+        <TouchableOpacity
+          style={styles.ruleHeader}
+          onPress={() => setExpandedRuleId(expanded ? null : rule.id)}>
+          <Icon name={expanded ? 'expand-less' : 'expand-more'} size={22} color={theme.textSecondary} />
+          <View style={styles.flex}>
+            <Text style={[styles.ruleName, {color: theme.text}]}>{rule.name}</Text>
+            <Text style={[styles.hint, {color: theme.textSecondary}]}>
+              {tx('bookingRules.autoAccept.usedToday', {
+                count: countsToday[rule.id] || 0,
+                cap: rule.dailyCap,
+              })}
+            </Text>
+          </View>
+          <Switch
+            value={rule.enabled}
+            onValueChange={enabled => updateRule(rule.id, {enabled})}
+            trackColor={{false: theme.border, true: theme.primary}}
+            thumbColor="#FFFFFF"
+          />
+        </TouchableOpacity>
+        {expanded && (
+          <View style={styles.ruleBody}>
+            <View style={styles.inputRow}>
+              <View style={styles.flex}>
+                <Text style={[styles.label, {color: theme.textSecondary}]}>
+                  {tx('bookingRules.autoAccept.name')}
+                </Text>
+                <TextInput
+                  style={inputStyle}
+                  defaultValue={rule.name}
+                  onChangeText={name => updateRule(rule.id, {name})}
+                  placeholderTextColor={theme.textSecondary}
+                />
+              </View>
+              <View style={styles.capInput}>
+                <Text style={[styles.label, {color: theme.textSecondary}]}>
+                  {tx('bookingRules.autoAccept.dailyCap')}
+                </Text>
+                <TextInput
+                  style={inputStyle}
+                  defaultValue={String(rule.dailyCap)}
+                  onChangeText={text =>
+                    updateRule(rule.id, {dailyCap: Math.max(0, parseInt(text, 10) || 0)})
+                  }
+                  keyboardType="number-pad"
+                  maxLength={2}
+                />
+              </View>
+            </View>
+            {renderCriteria(rule, patch => updateRule(rule.id, patch))}
+            <TouchableOpacity style={styles.deleteRow} onPress={() => handleDeleteRule(rule)}>
+              <Icon name="delete-outline" size={18} color="#FF3B30" />
+              <Text style={styles.deleteText}>{tx('bookingRules.autoAccept.delete')}</Text>
+            </TouchableOpacity>
+          </View>
+        )}
+      </View>
+    );
+  };
+
+  const renderDecision = (decision: BookingDecision) => {
+    const style = OUTCOME_STYLES[decision.outcome];
+    const details = [
+      decision.distanceKm !== undefined ? `${decision.distanceKm.toFixed(1)} km` : undefined,
+      decision.fare !== undefined ? `₹${decision.fare}` : undefined,
+      tx(`bookingRules.urgency.${decision.immediate ? 'immediate' : 'scheduled'}`),
+    ].filter(Boolean);
+    return (
+      <View key={decision.id} style={[styles.decisionRow, {borderBottomColor: theme.border}]}>
+        <Icon name={style.icon} size={20} color={style.color} />
+        <View style={styles.flex}>
+          <Text style={[styles.decisionTitle, {color: theme.text}]}>
+            {tx(`bookingRules.log.outcome.${decision.outcome}`)} ·{' '}
+            {decision.serviceType || tx('dashboard.offers.service')}
+          </Text>
+          <Text style={[styles.hint, {color: theme.textSecondary}]}>
+            {decision.customerName} · {details.join(' · ')}
+          </Text>
+          {decision.ruleName ? (
+            <Text style={[styles.hint, {color: theme.textSecondary}]}>
+              {tx('bookingRules.log.rule', {name: decision.ruleName})}
+            </Text>
+          ) : null}
+          {decision.reasons.length > 0 ? (
+            <Text style={[styles.hint, {color: style.color}]}>
+              {decision.reasons.map(reason => tx(`bookingRules.log.reason.${reason}`)).join(', ')}
+              {decision.error ? ` (${decision.error})` : ''}
+            </Text>
+          ) : null}
+        </View>
+        <Text style={[styles.hint, {color: theme.textSecondary}]}>
+          {new Date(decision.at).toLocaleString('en-IN', {
+            day: 'numeric',
+            month: 'short',
+            hour: '2-digit',
+            minute: '2-digit',
+          })}
+        </Text>
+      </View>
+    );
+  };
+
+  return (
+    <ScrollView
+      style={[styles.container, {backgroundColor: theme.background}]}
+      contentContainerStyle={styles.content}
+      keyboardShouldPersistTaps="handled">
+      <View style={[styles.card, {backgroundColor: theme.card}]}>
+        <View style={styles.switchRow}>
+          <View style={styles.flex}>
+            <Text style={[styles.sectionTitle, {color: theme.text}]}>
+              {tx('bookingRules.filters.title')}
+            </Text>
+            <Text style={[styles.hint, {color: theme.textSecondary}]}>
+              {tx('bookingRules.filters.subtitle')}
+            </Text>
+          </View>
+          <Switch
+            value={rules.filters.enabled}
+            onValueChange={enabled => updateRules({...rules, filters: {...rules.filters, enabled}})}
+            trackColor={{false: theme.border, true: theme.primary}}
+            thumbColor="#FFFFFF"
+          />
+        </View>
+        {rules.filters.enabled &&
+          renderCriteria(rules.filters, patch =>
+            updateRules({...rules, filters: {...rules.filters, ...patch}}),
+          )}
+      </View>
+
+      <View style={[styles.card, {backgroundColor: theme.card}]}>
+        <Text style={[styles.sectionTitle, {color: theme.text}]}>
+          {tx('bookingRules.autoAccept.title')}
+        </Text>
+        <Text style={[styles.hint, {color: theme.textSecondary}]}>
+          {tx('bookingRules.autoAccept.subtitle')}
+        </Text>
+        {rules.autoAcceptRules.map(renderRule)}
+        <TouchableOpacity
+          style={[styles.outlineButton, {borderColor: theme.primary}]}
+          onPress={handleAddRule}>
+          <Icon name="add" size={18} color={theme.primary} />
+          <Text style={[styles.outlineButtonText, {color: theme.primary}]}>
+            {tx('bookingRules.autoAccept.add')}
+          </Text>
+        </TouchableOpacity>
+      </View>
+
+      <TouchableOpacity
+        style={[styles.saveButton, {backgroundColor: dirty ? theme.primary : theme.border}]}
+        disabled={!dirty || saving}
+        onPress={() => void handleSave()}>
+        {saving ? (
+          <ActivityIndicator color="#fff" />
+        ) : (
+          <Text style={styles.saveButtonText}>{tx('bookingRules.save')}</Text>
+        )}
+      </TouchableOpacity>
+
+      <View style={[styles.card, {backgroundColor: theme.card}]}>
+        <View style={styles.switchRow}>
+          <Text style={[styles.sectionTitle, styles.flex, {color: theme.text}]}>
+            {tx('bookingRules.log.title')}
+          </Text>
+          {decisions.length > 0 && (
+            <TouchableOpacity onPress={() => void clearBookingDecisions()}>
+              <Text style={[styles.clearText, {color: theme.primary}]}>
+                {tx('bookingRules.log.clear')}
+              </Text>
+            </TouchableOpacity>
+          )}
+        </View>
+        {decisions.length === 0 ? (
+          <Text style={[styles.hint, {color: theme.textSecondary}]}>{tx('bookingRules.log.empty')}</Text>
+        ) : (
+          decisions.map(renderDecision)
+        )}
+      </View>
+    </ScrollView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  loaderContainer: {
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  content: {
+    padding: 16,
+    paddingBottom: 32,
+  },
+  card: {
+    padding: 16,
+    marginBottom: 12,
+    borderRadius: 12,
+    elevation: 2,
+    shadowColor: '#000',
+    shadowOffset: {width: 0, height: 1},
+    shadowOpacity: 0.22,
+    shadowRadius: 2.22,
+  },
+  sectionTitle: {
+    fontSize: 16,
+    fontWeight: '600',
+    marginBottom: 4,
+  },
+  hint: {
+    fontSize: 12,
+  },
+  label: {
+    fontSize: 13,
+    fontWeight: '500',
+    marginTop: 12,
+    marginBottom: 6,
+  },
+  flex: {
+    flex: 1,
+  },
+  switchRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+  },
+  inputRow: {
+    flexDirection: 'row',
+    alignItems: 'flex-end',
+    gap: 12,
+  },
+  input: {
+    borderWidth: 1,
+    borderRadius: 8,
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+    fontSize: 14,
+  },
+  capInput: {
+    width: 90,
+  },
+  chipRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+  },
+  chip: {
+    borderWidth: 1,
+    borderRadius: 16,
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+  },
+  chipText: {
+    fontSize: 13,
+  },
+  segmented: {
+    flexDirection: 'row',
+    gap: 8,
+  },
+  segment: {
+    flex: 1,
+    borderWidth: 1,
+    borderRadius: 8,
+    paddingVertical: 8,
+    alignItems: 'center',
+  },
+  segmentText: {
+    fontSize: 13,
+    fontWeight: '600',
+  },
+  ruleBox: {
+    borderWidth: 1,
+    borderRadius: 10,
+    marginTop: 12,
+  },
+  ruleHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    padding: 12,
+    gap: 8,
+  },
+  ruleName: {
+    fontSize: 15,
+    fontWeight: '600',
+  },
+  ruleBody: {
+    paddingHorizontal: 12,
+    paddingBottom: 12,
+  },
+  deleteRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+    marginTop: 16,
+  },
+  deleteText: {
+    color: '#FF3B30',
+    fontSize: 14,
+    fontWeight: '600',
+  },
+  outlineButton: {
+    flexDirection: 'row',
+    justifyContent: 'center',
+    borderWidth: 1,
+    borderRadius: 8,
+    paddingVertical: 10,
+    alignItems: 'center',
+    marginTop: 12,
+    gap: 6,
+  },
+  outlineButtonText: {
+    fontSize: 14,
+    fontWeight: '600',
+  },
+  saveButton: {
+    borderRadius: 12,
+    paddingVertical: 14,
+    alignItems: 'center',
+    marginBottom: 12,
+  },
+  saveButtonText: {
+    color: '#fff',
+    fontSize: 16,
+    fontWeight: '700',
+  },
+  clearText: {
+    fontSize: 14,
+    fontWeight: '600',
+  },
+  decisionRow: {
+    flexDirection: 'row',
+    alignItems: 'flex-start',
+    gap: 10,
+    paddingVertical: 10,
+    borderBottomWidth: StyleSheet.hairlineWidth,
+  },
+  decisionTitle: {
+    fontSize: 14,
+    fontWeight: '600',
+  },
+});
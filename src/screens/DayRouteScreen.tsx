@@ -0,0 +1,322 @@
+/**
+ * Day Route Screen
+ * Provider app - A day's accepted jobs in driving order with the estimated
+ * arrival at each stop, infeasible time windows flagged, and one-tap
+ * navigation for every leg
+ */
+
+import React, {useState, useEffect, useCallback} from 'react';
+import {
+  View,
+  Text,
+  ScrollView,
+  TouchableOpacity,
+  StyleSheet,
+  ActivityIndicator,
+  RefreshControl,
+  Alert,
+} from 'react-native';
+import Icon from 'react-native-vector-icons/MaterialIcons';
+import {useStore} from '../store';
+import {lightTheme, darkTheme} from '../utils/theme';
+import {getUserId} from '../services/session';
+import {toDateKey} from '../services/availabilityService';
+import {planDayRoute, RoutePlan, RoutePlanStop} from '../services/routePlannerService';
+import {openNavigate} from '../services/contactActions';
+import {getApiErrorMessage} from '../utils/apiErrorMessages';
+import useTranslation from '../hooks/useTranslation';
+
+const LATE_COLOR = '#FF3B30';
+const WAIT_COLOR = '#FF9500';
+
+export default function DayRouteScreen({navigation, route}: any) {
+  const {t} = useTranslation();
+  const tx = (key: string, opts?: any) => String(t(key, opts));
+  const {isDarkMode, currentUser} = useStore();
+  const theme = isDarkMode ? darkTheme : lightTheme;
+  const userId = getUserId(currentUser);
+  const date: string = route?.params?.date || toDateKey(new Date());
+
+  const [plan, setPlan] = useState<RoutePlan | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [refreshing, setRefreshing] = useState(false);
+  const [error, setError] = useState('');
+
+  const loadPlan = useCallback(async () => {
+    if (!userId) return;
+    try {
+      setError('');
+      setPlan(await planDayRoute(userId, date));
+    } catch (err) {
+      setError(getApiErrorMessage(err, tx('schedule.route.loadFailed')));
+    } finally {
+      setLoading(false);
+      setRefreshing(false);
+    }
+  }, [userId, date, t]);
+
+  useEffect(() => {
+    loadPlan();
+  }, [loadPlan]);
+
+  const formatTime = (value: Date) =>
+    value.toLocaleTimeString('en-IN', {hour: '2-digit', minute: '2-digit'});
+
+  const handleNavigate = async (stop: RoutePlanStop) => {
+    try {
+      await openNavigate({
+        latitude: stop.location?.latitude,
+        longitude: stop.location?.longitude,
+        address: stop.jobCard.customerAddress?.address,
+        origin: stop.from,
+      });
+    } catch (err: any) {
+      Alert.alert(tx('common.error'), err?.message || tx('schedule.route.navigateFailed'));
+    }
+  };
+
+  if (loading) {
+    return (
+      <View style={[styles.container, styles.loaderContainer, {backgroundColor: theme.background}]}>
+        <ActivityIndicator size="large" color={theme.primary} />
+      </View>
+    );
+  }
+
+  const renderStop = (stop: RoutePlanStop) => (
+    <View
+      key={stop.jobCard.id || stop.jobCard._id || stop.sequence}
+      style={[styles.card, {backgroundColor: theme.card}]}>
+      {stop.travelMinutes !== undefined ? (
+        <View style={styles.legRow}>
+          <Icon name="directions-car" size={16} color={theme.textSecondary} />
+          <Text style={[styles.hint, {color: theme.textSecondary}]}>
+            {tx('schedule.route.leg', {
+              distance: stop.distanceFormatted,
+              minutes: stop.travelMinutes,
+            })}
+          </Text>
+        </View>
+      ) : (
+        <View style={styles.legRow}>
+          <Icon name="location-off" size={16} color={WAIT_COLOR} />
+          <Text style={[styles.hint, {color: WAIT_COLOR}]}>{tx('schedule.route.noCoordinates')}</Text>
+        </View>
+      )}
+
+      <TouchableOpacity
+        style={styles.stopRow}
+        onPress={() =>
+          navigation.navigate('JobDetails', {jobCardId: stop.jobCard.id || stop.jobCard._id})
+        }>
+        <View
+          style={[
+            styles.sequence,
+            {backgroundColor: stop.infeasible ? LATE_COLOR : theme.primary},
+          ]}>
+          <Text style={styles.sequenceText}>{stop.sequence}</Text>
+        </View>
+        <View style={styles.stopInfo}>
+          <Text style={[styles.stopCustomer, {color: theme.text}]}>{stop.jobCard.customerName}</Text>
+          <Text style={[styles.hint, {color: theme.textSecondary}]} numberOfLines={1}>
+            {stop.jobCard.serviceType}
+            {stop.jobCard.customerAddress?.address ? ` · ${stop.jobCard.customerAddress.address}` : ''}
+          </Text>
+          <Text style={[styles.hint, {color: theme.textSecondary}]}>
+            {stop.hasWindow
+              ? tx('schedule.route.window', {
+                  start: formatTime(stop.windowStart),
+                  end: formatTime(stop.windowEnd),
+                })
+              : tx('schedule.route.anyTime')}
+          </Text>
+        </View>
+        <View style={styles.etaBox}>
+          <Text style={[styles.hint, {color: theme.textSecondary}]}>{tx('schedule.route.eta')}</Text>
+          <Text style={[styles.etaTime, {color: stop.infeasible ? LATE_COLOR : theme.text}]}>
+            {formatTime(stop.arrival)}
+          </Text>
+        </View>
+      </TouchableOpacity>
+
+      {stop.infeasible ? (
+        <View style={styles.flagRow}>
+          <Icon name="error-outline" size={16} color={LATE_COLOR} />
+          <Text style={[styles.flagText, {color: LATE_COLOR}]}>
+            {tx('schedule.route.late', {minutes: stop.lateMinutes})}
+          </Text>
+        </View>
+      ) : stop.waitMinutes >= 10 ? (
+        <View style={styles.flagRow}>
+          <Icon name="hourglass-empty" size={16} color={WAIT_COLOR} />
+          <Text style={[styles.flagText, {color: WAIT_COLOR}]}>
+            {tx('schedule.route.wait', {minutes: stop.waitMinutes})}
+          </Text>
+        </View>
+      ) : null}
+
+      <TouchableOpacity
+        style={[styles.outlineButton, {borderColor: theme.primary}]}
+        onPress={() => void handleNavigate(stop)}>
+        <Icon name="navigation" size={18} color={theme.primary} />
+        <Text style={[styles.outlineButtonText, {color: theme.primary}]}>
+          {tx('schedule.route.navigate')}
+        </Text>
+      </TouchableOpacity>
+    </View>
+  );
+
+  return (
+    <ScrollView
+      style={[styles.container, {backgroundColor: theme.background}]}
+      contentContainerStyle={styles.content}
+      refreshControl={
+        <RefreshControl
+          refreshing={refreshing}
+          onRefresh={() => {
+            setRefreshing(true);
+            void loadPlan();
+          }}
+          tintColor={theme.primary}
+        />
+      }>
+      <View style={[styles.card, {backgroundColor: theme.card}]}>
+        <Text style={[styles.sectionTitle, {color: theme.text}]}>
+          {new Date(`${date}T00:00:00`).toLocaleDateString('en-IN', {
+            weekday: 'long',
+            day: 'numeric',
+            month: 'long',
+          })}
+        </Text>
+        {error ? (
+          <Text style={[styles.hint, {color: LATE_COLOR}]}>{error}</Text>
+        ) : plan && plan.stops.length > 0 ? (
+          <>
+            <Text style={[styles.hint, {color: theme.textSecondary}]}>
+              {tx('schedule.route.summary', {
+                count: plan.stops.length,
+                distance: plan.totalDistanceKm.toFixed(1),
+                minutes: plan.totalTravelMinutes,
+              })}
+            </Text>
+            <Text style={[styles.hint, {color: theme.textSecondary}]}>
+              {tx('schedule.route.startFinish', {
+                start: formatTime(plan.startTime),
+                finish: formatTime(plan.finishTime),
+              })}
+              {plan.start ? '' : ` · ${tx('schedule.route.noStart')}`}
+            </Text>
+            {plan.infeasibleCount > 0 && (
+              <View style={styles.flagRow}>
+                <Icon name="warning" size={16} color={LATE_COLOR} />
+                <Text style={[styles.flagText, {color: LATE_COLOR}]}>
+                  {tx('schedule.route.infeasible', {count: plan.infeasibleCount})}
+                </Text>
+              </View>
+            )}
+          </>
+        ) : (
+          <Text style={[styles.hint, {color: theme.textSecondary}]}>
+            {tx('schedule.route.empty')}
+          </Text>
+        )}
+      </View>
+
+      {plan?.stops.map(renderStop)}
+    </ScrollView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  loaderContainer: {
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  content: {
+    padding: 16,
+    paddingBottom: 32,
+  },
+  card: {
+    padding: 16,
+    marginBottom: 12,
+    borderRadius: 12,
+    elevation: 2,
+    shadowColor: '#000',
+    shadowOffset: {width: 0, height: 1},
+    shadowOpacity: 0.22,
+    shadowRadius: 2.22,
+  },
+  sectionTitle: {
+    fontSize: 16,
+    fontWeight: '600',
+    marginBottom: 8,
+  },
+  hint: {
+    fontSize: 12,
+  },
+  legRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+    marginBottom: 10,
+  },
+  stopRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+  },
+  sequence: {
+    width: 28,
+    height: 28,
+    borderRadius: 14,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  sequenceText: {
+    color: '#fff',
+    fontSize: 14,
+    fontWeight: '700',
+  },
+  stopInfo: {
+    flex: 1,
+    gap: 2,
+  },
+  stopCustomer: {
+    fontSize: 14,
+    fontWeight: '600',
+  },
+  etaBox: {
+    alignItems: 'flex-end',
+  },
+  etaTime: {
+    fontSize: 16,
+    fontWeight: '700',
+  },
+  flagRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+    marginTop: 8,
+  },
+  flagText: {
+    fontSize: 13,
+    fontWeight: '600',
+  },
+  outlineButton: {
+    flexDirection: 'row',
+    justifyContent: 'center',
+    borderWidth: 1,
+    borderRadius: 8,
+    paddingVertical: 10,
+    alignItems: 'center',
+    marginTop: 12,
+    gap: 6,
+  },
+  outlineButtonText: {
+    fontSize: 14,
+    fontWeight: '600',
+  },
+});
@@ -0,0 +1,485 @@
+/**
+ * Earnings Screen
+ * Provider app - Earnings ledger (labour vs. materials, COD vs. online),
+ * platform commission / GST, payout history and statement export
+ */
+
+import React, {useState, useEffect, useCallback, useMemo} from 'react';
+import {
+  View,
+  Text,
+  ScrollView,
+  TouchableOpacity,
+  StyleSheet,
+  ActivityIndicator,
+  RefreshControl,
+  Alert,
+} from 'react-native';
+import Icon from 'react-native-vector-icons/MaterialIcons';
+import {useStore} from '../store';
+import {lightTheme, darkTheme} from '../utils/theme';
+import {getUserId} from '../services/session';
+import {earningsApi, EarningsConfig, Payout, UNCONFIGURED_EARNINGS_CONFIG} from '../services/api/earningsApi';
+import {
+  EarningsEntry,
+  EarningsPeriod,
+  aggregateEarnings,
+  defaultRangeStart,
+  loadEarningsLedger,
+  sumEntries,
+  shareEarningsCSV,
+  shareEarningsStatementPDF,
+} from '../services/earningsService';
+import EarningsBarChart, {LABOUR_COLOR, MATERIALS_COLOR} from '../components/EarningsBarChart';
+import {getApiErrorMessage} from '../utils/apiErrorMessages';
+import useTranslation from '../hooks/useTranslation';
+
+const PERIODS: EarningsPeriod[] = ['day', 'week', 'month'];
+
+const formatAmount = (n: number) =>
+  `₹${n.toLocaleString('en-IN', {minimumFractionDigits: 0, maximumFractionDigits: 2})}`;
+
+const PAYOUT_COLORS: Record<Payout['status'], string> = {
+  pending: '#FF9500',
+  processing: '#007AFF',
+  paid: '#34C759',
+  failed: '#FF3B30',
+};
+
+export default function EarningsScreen() {
+  const {t} = useTranslation();
+  const {isDarkMode, currentUser} = useStore();
+  const theme = isDarkMode ? darkTheme : lightTheme;
+  const userId = getUserId(currentUser);
+
+  const [period, setPeriod] = useState<EarningsPeriod>('week');
+  const [entries, setEntries] = useState<EarningsEntry[]>([]);
+  const [config, setConfig] = useState<EarningsConfig>(UNCONFIGURED_EARNINGS_CONFIG);
+  const [payouts, setPayouts] = useState<Payout[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [refreshing, setRefreshing] = useState(false);
+  const [exporting, setExporting] = useState<'csv' | 'pdf' | null>(null);
+
+  const rangeStart = useMemo(() => defaultRangeStart(period), [period]);
+
+  const loadEarnings = useCallback(async () => {
+    if (!userId) return;
+
+    try {
+      const [ledger, payoutList] = await Promise.all([
+        loadEarningsLedger(rangeStart),
+        earningsApi.getPayouts({limit: 20}).catch(error => {
+          console.warn('Error loading payouts:', error);
+          return [] as Payout[];
+        }),
+      ]);
+      setEntries(ledger.entries);
+      setConfig(ledger.config);
+      setPayouts(payoutList);
+    } catch (error) {
+      console.error('Error loading earnings:', error);
+      Alert.alert(String(t('common.error')), getApiErrorMessage(error, String(t('earnings.loadFailed'))));
+    } finally {
+      setLoading(false);
+      setRefreshing(false);
+    }
+  }, [userId, rangeStart, t]);
+
+  useEffect(() => {
+    setLoading(true);
+    loadEarnings();
+  }, [loadEarnings]);
+
+  const onRefresh = () => {
+    setRefreshing(true);
+    loadEarnings();
+  };
+
+  const totals = useMemo(() => sumEntries(entries), [entries]);
+  const buckets = useMemo(() => aggregateEarnings(entries, period), [entries, period]);
+
+  const handleExport = async (format: 'csv' | 'pdf') => {
+    if (entries.length === 0) {
+      Alert.alert(String(t('common.info')), String(t('earnings.nothingToExport')));
+      return;
+    }
+    setExporting(format);
+    try {
+      if (format === 'csv') {
+        await shareEarningsCSV(entries);
+      } else {
+        await shareEarningsStatementPDF(
+          entries,
+          config,
+          rangeStart,
+          new Date(),
+          currentUser?.name,
+        );
+      }
+    } catch (error) {
+      console.error('Error exporting earnings:', error);
+      Alert.alert(String(t('common.error')), String(t('earnings.exportFailed')));
+    } finally {
+      setExporting(null);
+    }
+  };
+
+  const formatDate = (date?: string | Date) => {
+    if (!date) return 'N/A';
+    const d = date instanceof Date ? date : new Date(date);
+    return d.toLocaleDateString('en-IN', {day: 'numeric', month: 'short', year: 'numeric'});
+  };
+
+  const renderStat = (label: string, value: number, color?: string) => (
+    <View style={styles.statItem}>
+      <Text style={[styles.statLabel, {color: theme.textSecondary}]}>{label}</Text>
+      <Text style={[styles.statValue, {color: color || theme.text}]}>{formatAmount(value)}</Text>
+    </View>
+  );
+
+  if (loading && !refreshing) {
+    return (
+      <View style={[styles.container, styles.loaderContainer, {backgroundColor: theme.background}]}>
+        <ActivityIndicator size="large" color={theme.primary} />
+        <Text style={[styles.loadingText, {color: theme.textSecondary}]}>
+          {String(t('earnings.loading'))}
+        </Text>
+      </View>
+    );
+  }
+
+  return (
+    <ScrollView
+      style={[styles.container, {backgroundColor: theme.background}]}
+      contentContainerStyle={styles.content}
+      refreshControl={<RefreshControl refreshing={refreshing} onRefresh={onRefresh} />}>
+      <View style={styles.periodRow}>
+        {PERIODS.map(p => (
+          <TouchableOpacity
+            key={p}
+            style={[
+              styles.periodButton,
+              {borderColor: theme.primary},
+              period === p && {backgroundColor: theme.primary},
+            ]}
+            onPress={() => setPeriod(p)}>
+            <Text style={[styles.periodText, {color: period === p ? '#fff' : theme.primary}]}>
+              {String(t(`earnings.period.${p}`))}
+            </Text>
+          </TouchableOpacity>
+        ))}
+      </View>
+
+      <View style={[styles.card, {backgroundColor: theme.card}]}>
+        <Text style={[styles.cardLabel, {color: theme.textSecondary}]}>
+          {String(t(`earnings.rangeTitle.${period}`))}
+        </Text>
+        <Text style={[styles.netAmount, {color: theme.text}]}>{formatAmount(totals.net)}</Text>
+        <Text style={[styles.cardHint, {color: theme.textSecondary}]}>
+          {String(t('earnings.jobsCount', {count: totals.jobs}))} · {String(t('earnings.gross'))} {formatAmount(totals.gross)}
+        </Text>
+
+        <View style={styles.statGrid}>
+          {renderStat(String(t('earnings.labour')), totals.labour, LABOUR_COLOR)}
+          {renderStat(String(t('earnings.materials')), totals.materials, MATERIALS_COLOR)}
+          {renderStat(String(t('earnings.cod')), totals.cod)}
+          {renderStat(String(t('earnings.online')), totals.online)}
+        </View>
+        {totals.unrecorded > 0 && (
+          <Text style={[styles.cardHint, {color: theme.textSecondary}]}>
+            {String(t('earnings.unrecorded', {amount: formatAmount(totals.unrecorded)}))}
+          </Text>
+        )}
+      </View>
+
+      <View style={[styles.card, {backgroundColor: theme.card}]}>
+        <Text style={[styles.sectionTitle, {color: theme.text}]}>{String(t('earnings.chartTitle'))}</Text>
+        {buckets.length === 0 ? (
+          <Text style={[styles.emptyText, {color: theme.textSecondary}]}>
+            {String(t('earnings.noEarnings'))}
+          </Text>
+        ) : (
+          <>
+            <EarningsBarChart buckets={buckets} theme={theme} />
+            <View style={styles.legendRow}>
+              <View style={[styles.legendDot, {backgroundColor: LABOUR_COLOR}]} />
+              <Text style={[styles.legendText, {color: theme.textSecondary}]}>
+                {String(t('earnings.labour'))}
+              </Text>
+              <View style={[styles.legendDot, {backgroundColor: MATERIALS_COLOR}]} />
+              <Text style={[styles.legendText, {color: theme.textSecondary}]}>
+                {String(t('earnings.materials'))}
+              </Text>
+            </View>
+          </>
+        )}
+      </View>
+
+      <View style={[styles.card, {backgroundColor: theme.card}]}>
+        <Text style={[styles.sectionTitle, {color: theme.text}]}>{String(t('earnings.deductions'))}</Text>
+        <View style={styles.breakdownRow}>
+          <Text style={[styles.breakdownLabel, {color: theme.textSecondary}]}>
+            {config.configured
+              ? String(t('earnings.commission', {percent: config.commissionPercent}))
+              : String(t('earnings.commissionNotConfigured'))}
+          </Text>
+          <Text style={[styles.breakdownValue, {color: theme.text}]}>
+            − {formatAmount(totals.commission)}
+          </Text>
+        </View>
+        <View style={styles.breakdownRow}>
+          <Text style={[styles.breakdownLabel, {color: theme.textSecondary}]}>
+            {config.configured
+              ? String(t('earnings.gst', {percent: config.gstPercent}))
+              : String(t('earnings.gstNotConfigured'))}
+          </Text>
+          <Text style={[styles.breakdownValue, {color: theme.text}]}>
+            − {formatAmount(totals.gst)}
+          </Text>
+        </View>
+        <View style={[styles.breakdownRow, styles.breakdownTotal, {borderTopColor: theme.border}]}>
+          <Text style={[styles.breakdownLabel, {color: theme.text}]}>
+            {totals.settlement >= 0 ? String(t('earnings.settlementDue')) : String(t('earnings.settlementOwed'))}
+          </Text>
+          <Text
+            style={[
+              styles.breakdownValue,
+              {color: totals.settlement >= 0 ? '#34C759' : '#FF3B30'},
+            ]}>
+            {formatAmount(Math.abs(totals.settlement))}
+          </Text>
+        </View>
+        <Text style={[styles.cardHint, {color: theme.textSecondary}]}>
+          {String(t('earnings.settlementHint'))}
+        </Text>
+        {!config.configured ? (
+          <Text style={[styles.cardHint, {color: theme.textSecondary}]}>
+            {String(t('earnings.ratesNotConfigured'))}
+          </Text>
+        ) : null}
+      </View>
+
+      <View style={[styles.card, {backgroundColor: theme.card}]}>
+        <Text style={[styles.sectionTitle, {color: theme.text}]}>{String(t('earnings.payouts'))}</Text>
+        {payouts.length === 0 ? (
+          <Text style={[styles.emptyText, {color: theme.textSecondary}]}>
+            {String(t('earnings.noPayouts'))}
+          </Text>
+        ) : (
+          payouts.map((payout, index) => (
+            <View
+              key={payout._id || payout.id || String(index)}
+              style={[styles.payoutRow, {borderBottomColor: theme.border}]}>
+              <View style={styles.payoutInfo}>
+                <Text style={[styles.payoutAmount, {color: theme.text}]}>
+                  {formatAmount(payout.amount)}
+                </Text>
+                <Text style={[styles.payoutMeta, {color: theme.textSecondary}]}>
+                  {formatDate(payout.periodStart)} – {formatDate(payout.periodEnd)}
+                </Text>
+                {!!payout.reference && (
+                  <Text style={[styles.payoutMeta, {color: theme.textSecondary}]}>
+                    {String(t('earnings.reference'))}: {payout.reference}
+                  </Text>
+                )}
+                {payout.status === 'failed' && !!payout.failureReason && (
+                  <Text style={[styles.payoutMeta, {color: '#FF3B30'}]}>
+                    {payout.failureReason}
+                  </Text>
+                )}
+              </View>
+              <View
+                style={[styles.statusBadge, {backgroundColor: `${PAYOUT_COLORS[payout.status]}20`}]}>
+                <Text style={[styles.statusText, {color: PAYOUT_COLORS[payout.status]}]}>
+                  {String(t(`earnings.payoutStatus.${payout.status}`))}
+                </Text>
+              </View>
+            </View>
+          ))
+        )}
+      </View>
+
+      <View style={styles.exportRow}>
+        {(['csv', 'pdf'] as const).map(format => (
+          <TouchableOpacity
+            key={format}
+            style={[styles.exportButton, {backgroundColor: theme.primary}]}
+            disabled={exporting !== null}
+            onPress={() => handleExport(format)}>
+            {exporting === format ? (
+              <ActivityIndicator size="small" color="#fff" />
+            ) : (
+              <>
+                <Icon name={format === 'csv' ? 'table-chart' : 'picture-as-pdf'} size={18} color="#fff" />
+                <Text style={styles.exportText}>
+                  {format === 'csv' ? String(t('earnings.exportCsv')) : String(t('earnings.exportPdf'))}
+                </Text>
+              </>
+            )}
+          </TouchableOpacity>
+        ))}
+      </View>
+    </ScrollView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  content: {
+    padding: 16,
+    paddingBottom: 32,
+  },
+  loaderContainer: {
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  loadingText: {
+    fontSize: 16,
+    marginTop: 16,
+  },
+  periodRow: {
+    flexDirection: 'row',
+    gap: 8,
+    marginBottom: 16,
+  },
+  periodButton: {
+    flex: 1,
+    paddingVertical: 8,
+    borderRadius: 20,
+    borderWidth: 1,
+    alignItems: 'center',
+  },
+  periodText: {
+    fontSize: 14,
+    fontWeight: '600',
+  },
+  card: {
+    padding: 16,
+    marginBottom: 12,
+    borderRadius: 12,
+    elevation: 2,
+    shadowColor: '#000',
+    shadowOffset: {width: 0, height: 1},
+    shadowOpacity: 0.22,
+    shadowRadius: 2.22,
+  },
+  cardLabel: {
+    fontSize: 14,
+  },
+  netAmount: {
+    fontSize: 32,
+    fontWeight: 'bold',
+    marginTop: 4,
+  },
+  cardHint: {
+    fontSize: 12,
+    marginTop: 8,
+  },
+  statGrid: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    marginTop: 12,
+  },
+  statItem: {
+    width: '50%',
+    paddingVertical: 6,
+  },
+  statLabel: {
+    fontSize: 12,
+  },
+  statValue: {
+    fontSize: 16,
+    fontWeight: '600',
+    marginTop: 2,
+  },
+  sectionTitle: {
+    fontSize: 16,
+    fontWeight: '600',
+    marginBottom: 12,
+  },
+  emptyText: {
+    fontSize: 14,
+    textAlign: 'center',
+    paddingVertical: 16,
+  },
+  legendRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginTop: 12,
+    gap: 6,
+  },
+  legendDot: {
+    width: 10,
+    height: 10,
+    borderRadius: 5,
+  },
+  legendText: {
+    fontSize: 12,
+    marginRight: 12,
+  },
+  breakdownRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    paddingVertical: 6,
+  },
+  breakdownTotal: {
+    borderTopWidth: 1,
+    marginTop: 6,
+    paddingTop: 10,
+  },
+  breakdownLabel: {
+    fontSize: 14,
+    flex: 1,
+  },
+  breakdownValue: {
+    fontSize: 14,
+    fontWeight: '600',
+  },
+  payoutRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 10,
+    borderBottomWidth: StyleSheet.hairlineWidth,
+  },
+  payoutInfo: {
+    flex: 1,
+  },
+  payoutAmount: {
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  payoutMeta: {
+    fontSize: 12,
+    marginTop: 2,
+  },
+  statusBadge: {
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 12,
+  },
+  statusText: {
+    fontSize: 12,
+    fontWeight: '600',
+  },
+  exportRow: {
+    flexDirection: 'row',
+    gap: 12,
+    marginTop: 4,
+  },
+  exportButton: {
+    flex: 1,
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: 8,
+    paddingVertical: 12,
+    borderRadius: 8,
+  },
+  exportText: {
+    color: '#fff',
+    fontSize: 14,
+    fontWeight: '600',
+  },
+});
@@ -0,0 +1,395 @@
+/**
+ * Job Chat Screen
+ * Provider app - Conversation with the customer of one job card: text and
+ * photos, delivery / read ticks, typing indicator, and messages queued
+ * while offline
+ */
+
+import React, {useState, useEffect, useRef, useCallback} from 'react';
+import {
+  View,
+  Text,
+  FlatList,
+  TextInput,
+  TouchableOpacity,
+  StyleSheet,
+  ActivityIndicator,
+  KeyboardAvoidingView,
+  Platform,
+  Image,
+  Alert,
+} from 'react-native';
+import Icon from 'react-native-vector-icons/MaterialIcons';
+import {useStore} from '../store';
+import {lightTheme, darkTheme} from '../utils/theme';
+import {getJobCardById, subscribeToJobCardStatus, JobCard} from '../services/jobCardService';
+import {
+  ChatError,
+  chatErrorKey,
+  ChatMessage,
+  discardChatMessage,
+  getChatClosesAt,
+  getChatMessages,
+  isChatOpen,
+  loadJobChat,
+  onChatMessages,
+  onChatTyping,
+  retryChatMessage,
+  sendChatImage,
+  sendChatText,
+  sendTypingState,
+  setActiveChat,
+} from '../services/chatService';
+import {getApiErrorMessage} from '../utils/apiErrorMessages';
+import useTranslation from '../hooks/useTranslation';
+
+const READ_COLOR = '#34B7F1';
+const FAILED_COLOR = '#FF3B30';
+
+export default function JobChatScreen({navigation, route}: any) {
+  const {jobCardId} = route.params;
+  const {t} = useTranslation();
+  const tx = (key: string, opts?: any) => String(t(key, opts));
+  const {isDarkMode} = useStore();
+  const theme = isDarkMode ? darkTheme : lightTheme;
+
+  const [jobCard, setJobCard] = useState<JobCard | null>(null);
+  const [messages, setMessages] = useState<ChatMessage[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState('');
+  const [draft, setDraft] = useState('');
+  const [customerTyping, setCustomerTyping] = useState(false);
+  const listRef = useRef<FlatList<ChatMessage>>(null);
+
+  const customerName = jobCard?.customerName || route.params?.customerName || tx('jobDetails.chat.customer');
+  const open = jobCard ? isChatOpen(jobCard) : true;
+  const closesAt = jobCard && open ? getChatClosesAt(jobCard) : null;
+
+  useEffect(() => {
+    navigation.setOptions({title: customerName});
+  }, [navigation, customerName]);
+
+  useEffect(() => {
+    setActiveChat(jobCardId);
+    void getChatMessages(jobCardId).then(setMessages);
+
+    const unsubscribeMessages = onChatMessages((id, next) => {
+      if (id === jobCardId) setMessages(next);
+    });
+    const unsubscribeTyping = onChatTyping((id, isTyping) => {
+      if (id === jobCardId) setCustomerTyping(isTyping);
+    });
+    const unsubscribeStatus = subscribeToJobCardStatus(jobCardId, status => {
+      setJobCard(prev => (prev ? {...prev, status} : prev));
+    });
+
+    (async () => {
+      try {
+        setJobCard(await getJobCardById(jobCardId));
+        await loadJobChat(jobCardId);
+      } catch (err) {
+        setError(getApiErrorMessage(err, tx('jobDetails.chat.loadFailed')));
+      } finally {
+        setLoading(false);
+      }
+    })();
+
+    return () => {
+      setActiveChat(null);
+      sendTypingState(jobCardId, false);
+      unsubscribeMessages();
+      unsubscribeTyping();
+      unsubscribeStatus();
+    };
+  }, [jobCardId]);
+
+  const scrollToEnd = useCallback(() => {
+    requestAnimationFrame(() => listRef.current?.scrollToEnd({animated: true}));
+  }, []);
+
+  const handleChangeText = (text: string) => {
+    setDraft(text);
+    sendTypingState(jobCardId, text.trim().length > 0);
+  };
+
+  const errorMessage = (err: unknown, fallbackKey: string) =>
+    err instanceof ChatError ? tx(chatErrorKey(err.reason)) : getApiErrorMessage(err, tx(fallbackKey));
+
+  const handleSend = async () => {
+    if (!draft.trim()) return;
+    const text = draft;
+    setDraft('');
+    try {
+      await sendChatText(jobCardId, text);
+      scrollToEnd();
+    } catch (err: any) {
+      setDraft(text);
+      Alert.alert(tx('common.error'), errorMessage(err, 'jobDetails.chat.failed'));
+    }
+  };
+
+  const handleAttach = () => {
+    const send = async (source: 'camera' | 'library') => {
+      try {
+        if (await sendChatImage(jobCardId, source)) scrollToEnd();
+      } catch (err: any) {
+        Alert.alert(tx('common.error'), errorMessage(err, 'jobDetails.chat.imageFailed'));
+      }
+    };
+    Alert.alert(tx('jobDetails.chat.photo'), undefined, [
+      {text: tx('jobDetails.chat.camera'), onPress: () => void send('camera')},
+      {text: tx('jobDetails.chat.library'), onPress: () => void send('library')},
+      {text: tx('common.cancel'), style: 'cancel'},
+    ]);
+  };
+
+  const handleFailedPress = (message: ChatMessage) => {
+    const reason = message.errorReason
+      ? tx(chatErrorKey(message.errorReason))
+      : message.error || tx('jobDetails.chat.failed');
+    Alert.alert(reason, undefined, [
+      {text: tx('jobDetails.chat.retry'), onPress: () => void retryChatMessage(jobCardId, message.id)},
+      {
+        text: tx('jobDetails.chat.discard'),
+        style: 'destructive',
+        onPress: () => void discardChatMessage(jobCardId, message.id),
+      },
+      {text: tx('common.cancel'), style: 'cancel'},
+    ]);
+  };
+
+  const formatTime = (value: string) =>
+    new Date(value).toLocaleTimeString('en-IN', {hour: '2-digit', minute: '2-digit'});
+
+  const renderStatus = (message: ChatMessage) => {
+    switch (message.status) {
+      case 'queued':
+      case 'sending':
+        return <Icon name="schedule" size={14} color="rgba(255,255,255,0.8)" />;
+      case 'failed':
+        return <Icon name="error-outline" size={14} color={FAILED_COLOR} />;
+      case 'sent':
+        return <Icon name="done" size={14} color="rgba(255,255,255,0.8)" />;
+      case 'delivered':
+        return <Icon name="done-all" size={14} color="rgba(255,255,255,0.8)" />;
+      case 'read':
+        return <Icon name="done-all" size={14} color={READ_COLOR} />;
+      default:
+        return null;
+    }
+  };
+
+  const renderMessage = ({item}: {item: ChatMessage}) => {
+    const mine = item.role === 'provider';
+    const imageUri = item.imageUrl || (item.localImagePath ? `file://${item.localImagePath}` : '');
+    return (
+      <TouchableOpacity
+        activeOpacity={item.status === 'failed' ? 0.6 : 1}
+        disabled={item.status !== 'failed'}
+        onPress={() => handleFailedPress(item)}
+        style={[
+          styles.bubble,
+          mine
+            ? [styles.bubbleMine, {backgroundColor: theme.primary}]
+            : [styles.bubbleTheirs, {backgroundColor: theme.card}],
+        ]}>
+        {item.type === 'image' && !!imageUri && (
+          <Image source={{uri: imageUri}} style={styles.image} resizeMode="cover" />
+        )}
+        {!!item.text && (
+          <Text style={[styles.messageText, {color: mine ? '#fff' : theme.text}]}>{item.text}</Text>
+        )}
+        <View style={styles.metaRow}>
+          <Text style={[styles.metaText, {color: mine ? 'rgba(255,255,255,0.8)' : theme.textSecondary}]}>
+            {item.status === 'queued'
+              ? tx('jobDetails.chat.queued')
+              : item.status === 'failed'
+              ? tx('jobDetails.chat.failed')
+              : formatTime(item.createdAt)}
+          </Text>
+          {mine && renderStatus(item)}
+        </View>
+      </TouchableOpacity>
+    );
+  };
+
+  if (loading && messages.length === 0) {
+    return (
+      <View style={[styles.container, styles.loaderContainer, {backgroundColor: theme.background}]}>
+        <ActivityIndicator size="large" color={theme.primary} />
+      </View>
+    );
+  }
+
+  return (
+    <KeyboardAvoidingView
+      style={[styles.container, {backgroundColor: theme.background}]}
+      behavior={Platform.OS === 'ios' ? 'padding' : undefined}
+      keyboardVerticalOffset={Platform.OS === 'ios' ? 90 : 0}>
+      {!!error && (
+        <Text style={[styles.banner, {color: FAILED_COLOR, backgroundColor: theme.card}]}>{error}</Text>
+      )}
+      {closesAt && (
+        <Text style={[styles.banner, {color: theme.textSecondary, backgroundColor: theme.card}]}>
+          {tx('jobDetails.chat.closesAt', {
+            time: closesAt.toLocaleString('en-IN', {
+              day: 'numeric',
+              month: 'short',
+              hour: '2-digit',
+              minute: '2-digit',
+            }),
+          })}
+        </Text>
+      )}
+
+      <FlatList
+        ref={listRef}
+        data={messages}
+        keyExtractor={item => item.id}
+        renderItem={renderMessage}
+        contentContainerStyle={styles.listContent}
+        onContentSizeChange={scrollToEnd}
+        ListEmptyComponent={
+          <Text style={[styles.empty, {color: theme.textSecondary}]}>{tx('jobDetails.chat.empty')}</Text>
+        }
+      />
+
+      {customerTyping && (
+        <Text style={[styles.typing, {color: theme.textSecondary}]}>
+          {tx('jobDetails.chat.typing', {name: customerName})}
+        </Text>
+      )}
+
+      {open ? (
+        <View style={[styles.composer, {backgroundColor: theme.card, borderTopColor: theme.border}]}>
+          <TouchableOpacity style={styles.iconButton} onPress={handleAttach}>
+            <Icon name="photo-camera" size={24} color={theme.primary} />
+          </TouchableOpacity>
+          <TextInput
+            style={[styles.input, {color: theme.text, borderColor: theme.border}]}
+            value={draft}
+            onChangeText={handleChangeText}
+            placeholder={tx('jobDetails.chat.placeholder')}
+            placeholderTextColor={theme.textSecondary}
+            multiline
+            maxLength={2000}
+          />
+          <TouchableOpacity
+            style={[styles.sendButton, {backgroundColor: draft.trim() ? theme.primary : theme.border}]}
+            onPress={() => void handleSend()}
+            disabled={!draft.trim()}
+            accessibilityLabel={tx('jobDetails.chat.send')}>
+            <Icon name="send" size={20} color="#fff" />
+          </TouchableOpacity>
+        </View>
+      ) : (
+        <View style={[styles.closed, {backgroundColor: theme.card}]}>
+          <Icon name="lock-outline" size={16} color={theme.textSecondary} />
+          <Text style={[styles.metaText, {color: theme.textSecondary}]}>{tx('jobDetails.chat.closed')}</Text>
+        </View>
+      )}
+    </KeyboardAvoidingView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  loaderContainer: {
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  banner: {
+    fontSize: 12,
+    textAlign: 'center',
+    paddingVertical: 6,
+    paddingHorizontal: 16,
+  },
+  listContent: {
+    padding: 12,
+    paddingBottom: 16,
+    flexGrow: 1,
+  },
+  empty: {
+    fontSize: 14,
+    textAlign: 'center',
+    marginTop: 40,
+    paddingHorizontal: 24,
+  },
+  bubble: {
+    maxWidth: '80%',
+    borderRadius: 14,
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+    marginBottom: 8,
+  },
+  bubbleMine: {
+    alignSelf: 'flex-end',
+    borderBottomRightRadius: 4,
+  },
+  bubbleTheirs: {
+    alignSelf: 'flex-start',
+    borderBottomLeftRadius: 4,
+  },
+  image: {
+    width: 200,
+    height: 200,
+    borderRadius: 10,
+    marginBottom: 4,
+  },
+  messageText: {
+    fontSize: 15,
+    lineHeight: 20,
+  },
+  metaRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'flex-end',
+    gap: 4,
+    marginTop: 2,
+  },
+  metaText: {
+    fontSize: 11,
+  },
+  typing: {
+    fontSize: 12,
+    fontStyle: 'italic',
+    paddingHorizontal: 16,
+    paddingBottom: 4,
+  },
+  composer: {
+    flexDirection: 'row',
+    alignItems: 'flex-end',
+    padding: 8,
+    gap: 8,
+    borderTopWidth: StyleSheet.hairlineWidth,
+  },
+  iconButton: {
+    padding: 8,
+  },
+  input: {
+    flex: 1,
+    minHeight: 40,
+    maxHeight: 120,
+    borderWidth: 1,
+    borderRadius: 20,
+    paddingHorizontal: 14,
+    paddingVertical: 8,
+    fontSize: 15,
+  },
+  sendButton: {
+    width: 40,
+    height: 40,
+    borderRadius: 20,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  closed: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: 6,
+    padding: 14,
+  },
+});
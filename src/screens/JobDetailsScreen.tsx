@@ -4,7 +4,7 @@
  * Replaces DoctorConsultationDetailScreen
  */
 
-import React, {useState, useEffect} from 'react';
+import React, {useState, useEffect, useRef} from 'react';
 import {
   View,
   Text,
@@ -17,22 +17,50 @@ import Icon from 'react-native-vector-icons/MaterialIcons';
 import auth from '@react-native-firebase/auth';
 import {useStore} from '../store';
 import {lightTheme, darkTheme} from '../utils/theme';
-import {getJobCardById, updateJobCardStatus, verifyPINAndCompleteTask, cancelTaskWithReason, subscribeToJobCardStatus, JobCard} from '../services/jobCardService';
+import {getJobCardById, updateJobCardStatus, verifyPINAndCompleteTask, cancelTaskWithReason, addJobCardComment, subscribeToJobCardStatus, JobCard} from '../services/jobCardService';
 import {getServiceCategoryByName} from '../services/api/serviceCategoriesApi';
+import {formatDistance} from '../services/providerLocationService';
 import PINVerificationModal from '../components/PINVerificationModal';
 import CancelTaskModal from '../components/CancelTaskModal';
 import {
-  openCall,
-  openWhatsApp,
+  contactCustomer,
+  ContactUnavailableError,
+  getDisplayPhone,
+  isContactAvailable,
+  isMaskedContact,
   openNavigate,
 } from '../services/contactActions';
-import {speakNavigateToCustomer} from '../services/voicePromptService';
+import type {ContactChannel} from '../services/api/jobCardsApi';
+import {announce} from '../services/voicePromptService';
 import StartTaskModal from '../components/StartTaskModal';
+import QuotationEditorModal from '../components/QuotationEditorModal';
+import QuotationSummary from '../components/QuotationSummary';
+import JobPhotoGallery from '../components/JobPhotoGallery';
+import {
+  getQuotation,
+  quotationToCompletionPrefill,
+  sendQuotation,
+  subscribeToQuotationStatus,
+} from '../services/quotationService';
+import type {JobCardQuotation, SendQuotationData} from '../services/api/jobCardsApi';
+import {generateJobCardInvoice, shareJobCardInvoice} from '../services/invoiceService';
+import {
+  ActiveTrip,
+  getActiveTrip,
+  onTripChange,
+  startTripTracking,
+  stopTripTracking,
+} from '../services/tripTrackingService';
 import AlertModal from '../components/AlertModal';
 import Toast from '../components/Toast';
 import JobCardComments from '../components/JobCardComments';
-import {jobCardsApi} from '../services/api/jobCardsApi';
+import PendingSyncBadge from '../components/PendingSyncBadge';
+import SyncConflictList from '../components/SyncConflictList';
 import useTranslation from '../hooks/useTranslation';
+import useJobCardOutbox from '../hooks/useJobCardOutbox';
+import useJobChatUnread from '../hooks/useJobChatUnread';
+import {isChatOpen} from '../services/chatService';
+import {getApiErrorMessage} from '../utils/apiErrorMessages';
 
 export default function JobDetailsScreen({navigation, route}: any) {
   const {jobCardId} = route.params;
@@ -40,6 +68,8 @@ export default function JobDetailsScreen({navigation, route}: any) {
   const theme = isDarkMode ? darkTheme : lightTheme;
   const currentUser = auth().currentUser;
   const {t} = useTranslation();
+  const {pendingFor, conflictsFor, dismiss} = useJobCardOutbox();
+  const {unreadFor} = useJobChatUnread();
 
   const [jobCard, setJobCard] = useState<JobCard | null>(null);
   const [loading, setLoading] = useState(true);
@@ -47,9 +77,16 @@ export default function JobDetailsScreen({navigation, route}: any) {
   const [showPINModal, setShowPINModal] = useState(false);
   const [showCancelModal, setShowCancelModal] = useState(false);
   const [showStartModal, setShowStartModal] = useState(false);
+  const [showQuotationModal, setShowQuotationModal] = useState(false);
+  const [quotation, setQuotation] = useState<JobCardQuotation | null>(null);
+  const quotationStatusRef = useRef<JobCardQuotation['status'] | null>(null);
+  const [invoiceBusy, setInvoiceBusy] = useState(false);
   const [showToast, setShowToast] = useState(false);
   const [toastMessage, setToastMessage] = useState('');
   const [questionnaireQuestions, setQuestionnaireQuestions] = useState<Record<string, string>>({});
+  const [requiresAfterPhoto, setRequiresAfterPhoto] = useState(false);
+  const [trip, setTrip] = useState<ActiveTrip | null>(() => getActiveTrip(jobCardId));
+  const tripStatusRef = useRef<ActiveTrip['status'] | null>(trip?.status || null);
   const [timeStarted, setTimeStarted] = useState<Date | undefined>(undefined);
 
   // Alert modal state
@@ -79,15 +116,63 @@ export default function JobDetailsScreen({navigation, route}: any) {
     return () => unsubscribe();
   }, [jobCardId]);
 
+  useEffect(() => {
+    const unsubscribe = onTripChange(next => {
+      if (next && next.jobCardId !== jobCardId) {
+        setTrip(null);
+        return;
+      }
+      if (next?.status === 'arrived' && tripStatusRef.current === 'en_route') {
+        setToastMessage(String(t('jobDetails.trip.arrivedToast')));
+        setShowToast(true);
+      }
+      tripStatusRef.current = next?.status || null;
+      setTrip(next);
+    });
+    return () => unsubscribe();
+  }, [jobCardId]);
+
+  useEffect(() => {
+    // Customer approved / asked for changes — fetch the full quotation
+    const unsubscribe = subscribeToQuotationStatus(jobCardId, status => {
+      const previous = quotationStatusRef.current;
+      if (previous === status) return;
+      void loadQuotation();
+      if (previous === 'sent' && (status === 'approved' || status === 'revision_requested' || status === 'rejected')) {
+        setToastMessage(String(t(`jobDetails.quotation.customerResponse.${status}`)));
+        setShowToast(true);
+      }
+    });
+
+    return () => unsubscribe();
+  }, [jobCardId]);
+
+  const applyQuotation = (next: JobCardQuotation | null) => {
+    quotationStatusRef.current = next?.status || null;
+    setQuotation(next);
+  };
+
+  const loadQuotation = async () => {
+    try {
+      applyQuotation(await getQuotation(jobCardId));
+    } catch (error) {
+      console.error('Error loading quotation:', error);
+    }
+  };
+
   const loadJobCard = async () => {
     try {
       setLoading(true);
       const job = await getJobCardById(jobCardId);
       setJobCard(job);
+      applyQuotation(job?.quotation || null);
+      if (job?.status === 'accepted') {
+        void loadQuotation();
+      }
       
-      // Fetch questionnaire questions if available
-      if (job?.questionnaireAnswers && job?.serviceType) {
-        await loadQuestionnaireQuestions(job.serviceType);
+      // Questionnaire questions and photo requirements come from the category
+      if (job?.serviceType) {
+        await loadServiceCategory(job.serviceType);
       }
     } catch (error) {
       console.error('Error loading job card:', error);
@@ -97,10 +182,11 @@ export default function JobDetailsScreen({navigation, route}: any) {
     }
   };
 
-  const loadQuestionnaireQuestions = async (serviceType: string) => {
+  const loadServiceCategory = async (serviceType: string) => {
     try {
       // Fetch service category to get questionnaire questions via API
       const category = await getServiceCategoryByName(serviceType);
+      setRequiresAfterPhoto(!!category?.requiresAfterPhoto);
 
       if (category && category.questionnaire) {
         // Create a map of questionId -> question text
@@ -114,7 +200,7 @@ export default function JobDetailsScreen({navigation, route}: any) {
         setQuestionnaireQuestions(questionsMap);
       }
     } catch (error) {
-      console.error('Error loading questionnaire questions:', error);
+      console.error('Error loading service category:', error);
       // Continue without questions - not critical
     }
   };
@@ -127,7 +213,13 @@ export default function JobDetailsScreen({navigation, route}: any) {
       setShowStartModal(false);
       const startTime = new Date();
       setTimeStarted(startTime);
-      await updateJobCardStatus(jobCardId, 'in-progress');
+      const result = await updateJobCardStatus(jobCardId, 'in-progress');
+      if (result === 'queued') {
+        setJobCard(prev => (prev ? {...prev, status: 'in-progress'} : prev));
+        setToastMessage(t('jobDetails.startQueued'));
+        setShowToast(true);
+        return;
+      }
       // Reload job card to get updated data (including PIN if generated)
       const updatedJob = await getJobCardById(jobCardId);
       if (updatedJob) {
@@ -136,13 +228,62 @@ export default function JobDetailsScreen({navigation, route}: any) {
       setToastMessage(t('jobDetails.serviceStarted'));
       setShowToast(true);
     } catch (error: any) {
-      setToastMessage(error.message || t('jobDetails.failedToStart'));
+      setToastMessage(getApiErrorMessage(error, String(t('jobDetails.failedToStart'))));
       setShowToast(true);
     } finally {
       setUpdating(false);
     }
   };
 
+  const handleSendQuotation = async (data: SendQuotationData) => {
+    const sent = await sendQuotation(jobCardId, data);
+    applyQuotation(sent);
+    setShowQuotationModal(false);
+    setToastMessage(String(t('jobDetails.quotation.sent')));
+    setShowToast(true);
+  };
+
+  const generateInvoice = async () => {
+    const {invoice, pdfUrl} = await generateJobCardInvoice(jobCardId);
+    setJobCard(prev =>
+      prev
+        ? {
+            ...prev,
+            invoiceNumber: invoice.invoiceNumber,
+            invoiceDate: invoice.invoiceDate,
+            invoicePdfUrl: pdfUrl,
+          }
+        : prev,
+    );
+  };
+
+  const handleGenerateInvoice = async () => {
+    try {
+      setInvoiceBusy(true);
+      await generateInvoice();
+      setToastMessage(String(t('jobDetails.invoice.generated')));
+      setShowToast(true);
+    } catch (error: any) {
+      setToastMessage(getApiErrorMessage(error, String(t('jobDetails.invoice.generateFailed'))));
+      setShowToast(true);
+    } finally {
+      setInvoiceBusy(false);
+    }
+  };
+
+  const handleShareInvoice = async () => {
+    if (!jobCard) return;
+    try {
+      setInvoiceBusy(true);
+      await shareJobCardInvoice(jobCard);
+    } catch (error: any) {
+      setToastMessage(getApiErrorMessage(error, String(t('jobDetails.invoice.shareFailed'))));
+      setShowToast(true);
+    } finally {
+      setInvoiceBusy(false);
+    }
+  };
+
   const handleCompleteTask = async (
     pin: string,
     amount?: number,
@@ -156,15 +297,37 @@ export default function JobDetailsScreen({navigation, route}: any) {
     timeCompleted?: Date,
   ) => {
     try {
-      await verifyPINAndCompleteTask(jobCardId, pin, amount, materials, timeStarted, timeCompleted);
-      // Reload job card
-      const updatedJob = await getJobCardById(jobCardId);
-      if (updatedJob) {
-        setJobCard(updatedJob);
+      const result = await verifyPINAndCompleteTask(
+        jobCardId,
+        pin,
+        amount,
+        materials,
+        timeStarted,
+        timeCompleted,
+        {requireAfterPhoto: requiresAfterPhoto},
+      );
+      if (result === 'queued') {
+        setJobCard(prev => (prev ? {...prev, status: 'completed'} : prev));
+      } else {
+        // Reload job card
+        const updatedJob = await getJobCardById(jobCardId);
+        if (updatedJob) {
+          setJobCard(updatedJob);
+        }
+        // Issue the invoice right away; the provider can retry from the card
+        void generateInvoice().catch(error =>
+          console.warn('Invoice generation skipped:', error?.message || error),
+        );
       }
       setShowPINModal(false);
       setTimeStarted(undefined);
-      setToastMessage(t('jobDetails.taskCompleted'));
+      setToastMessage(
+        String(
+          result === 'queued'
+            ? t('jobDetails.completeQueued')
+            : t('jobDetails.taskCompleted'),
+        ),
+      );
       setShowToast(true);
     } catch (error: any) {
       throw error; // Let the modal handle the error
@@ -173,36 +336,71 @@ export default function JobDetailsScreen({navigation, route}: any) {
 
   const handleCancelTask = async (reason: string) => {
     try {
-      await cancelTaskWithReason(jobCardId, reason);
-      // Reload job card
-      const updatedJob = await getJobCardById(jobCardId);
-      if (updatedJob) {
-        setJobCard(updatedJob);
+      const result = await cancelTaskWithReason(jobCardId, reason);
+      if (result === 'queued') {
+        setJobCard(prev => (prev ? {...prev, status: 'cancelled'} : prev));
+      } else {
+        // Reload job card
+        const updatedJob = await getJobCardById(jobCardId);
+        if (updatedJob) {
+          setJobCard(updatedJob);
+        }
       }
       setShowCancelModal(false);
-      setToastMessage(t('jobDetails.taskCancelled'));
+      setToastMessage(
+        String(
+          result === 'queued'
+            ? t('jobDetails.cancelQueued')
+            : t('jobDetails.taskCancelled'),
+        ),
+      );
       setShowToast(true);
     } catch (error: any) {
       throw error; // Let the modal handle the error
     }
   };
 
-  const handleCallCustomer = () => {
-    openCall(jobCard?.customerPhone).catch(() => {
-      showAlert(t('common.error'), t('jobDetails.phoneNotAvailable'), 'warning');
-    });
+  const handleContactCustomer = async (channel: ContactChannel) => {
+    if (!jobCard) return;
+    try {
+      const outcome = await contactCustomer(jobCard, channel);
+      if (outcome === 'bridge_requested') {
+        setToastMessage(String(t('jobDetails.contact.bridgeRequested')));
+        setShowToast(true);
+      }
+    } catch (error: any) {
+      const message =
+        error instanceof ContactUnavailableError
+          ? error.reason === 'no_number'
+            ? t('jobDetails.phoneNotAvailable')
+            : t(`jobDetails.contact.${error.reason}`)
+          : getApiErrorMessage(error, String(t('jobDetails.contact.failed')));
+      showAlert(String(t('common.error')), String(message), 'warning');
+    }
   };
 
+  const handleCallCustomer = () => void handleContactCustomer('call');
+
   const handleWhatsAppCustomer = () => {
-    openWhatsApp(jobCard?.customerPhone).catch(() => {
-      showAlert(t('common.error'), t('jobDetails.phoneNotAvailable'), 'warning');
-    });
+    // The customer's number is private — chat in the app instead
+    if (jobCard && isMaskedContact(jobCard)) {
+      navigation.navigate('JobChat', {jobCardId, customerName: jobCard.customerName});
+      return;
+    }
+    void handleContactCustomer('whatsapp');
   };
 
   const handleNavigateCustomer = async () => {
     const addr = jobCard?.customerAddress;
+    if (jobCard?.status === 'accepted') {
+      // Share the live trip with the customer; navigation works without it
+      startTripTracking(jobCard).catch(error => {
+        setToastMessage(getApiErrorMessage(error, String(t('jobDetails.trip.startFailed'))));
+        setShowToast(true);
+      });
+    }
     try {
-      await speakNavigateToCustomer();
+      await announce('navigate_to_customer');
       await openNavigate({
         latitude: addr?.latitude,
         longitude: addr?.longitude,
@@ -246,6 +444,8 @@ export default function JobDetailsScreen({navigation, route}: any) {
     });
   };
 
+  const completionPrefill = quotationToCompletionPrefill(quotation);
+
   if (loading) {
     return (
       <View style={[styles.container, styles.loaderContainer, {backgroundColor: theme.background}]}>
@@ -307,8 +507,22 @@ export default function JobDetailsScreen({navigation, route}: any) {
             </Text>
           </View>
         </View>
+        <PendingSyncBadge
+          pendingCount={pendingFor(jobCardId).length}
+          conflictCount={conflictsFor(jobCardId).length}
+          style={styles.syncBadge}
+        />
       </View>
 
+      <SyncConflictList
+        conflicts={conflictsFor(jobCardId)}
+        theme={theme}
+        onDismiss={entry => {
+          void dismiss(entry.id);
+          void loadJobCard();
+        }}
+      />
+
       {/* Customer Details */}
       <View style={[styles.card, {backgroundColor: theme.card}]}>
         <Text style={[styles.cardTitle, {color: theme.text}]}>
@@ -324,18 +538,53 @@ export default function JobDetailsScreen({navigation, route}: any) {
             <Text style={[styles.customerName, {color: theme.text}]}>
               {jobCard.customerName}
             </Text>
-            {jobCard.customerPhone && (
+            {isContactAvailable(jobCard) ? (
               <TouchableOpacity
                 style={styles.phoneButton}
                 onPress={handleCallCustomer}>
                 <Icon name="phone" size={16} color={theme.primary} />
                 <Text style={[styles.phoneText, {color: theme.primary}]}>
-                  {jobCard.customerPhone}
+                  {getDisplayPhone(jobCard) ||
+                    String(t('jobDetails.contact.maskedCall'))}
                 </Text>
               </TouchableOpacity>
+            ) : (
+              !!getDisplayPhone(jobCard) && (
+                <View style={styles.phoneButton}>
+                  <Icon name="phone-disabled" size={16} color={theme.textSecondary} />
+                  <Text style={[styles.phoneText, {color: theme.textSecondary}]}>
+                    {getDisplayPhone(jobCard)}
+                  </Text>
+                </View>
+              )
+            )}
+            {isMaskedContact(jobCard) && (
+              <Text style={[styles.contactHint, {color: theme.textSecondary}]}>
+                {String(t('jobDetails.contact.maskedHint'))}
+              </Text>
             )}
           </View>
         </View>
+        {!!jobCard.contactLog?.length && (
+          <View style={styles.contactLog}>
+            <Text style={[styles.contactLogTitle, {color: theme.textSecondary}]}>
+              {String(t('jobDetails.contact.history'))}
+            </Text>
+            {jobCard.contactLog.slice(-5).reverse().map((attempt, index) => (
+              <View key={attempt._id || index} style={styles.contactLogRow}>
+                <Icon
+                  name={attempt.channel === 'whatsapp' ? 'chat' : 'call-made'}
+                  size={14}
+                  color={attempt.outcome === 'dialled' || attempt.outcome === 'bridge_requested' ? '#34C759' : '#FF3B30'}
+                />
+                <Text style={[styles.contactHint, {color: theme.textSecondary}]}>
+                  {String(t(`jobDetails.contact.outcome.${attempt.outcome}`))} ·{' '}
+                  {formatDate(new Date(attempt.createdAt))}
+                </Text>
+              </View>
+            ))}
+          </View>
+        )}
       </View>
 
       {/* Service Details */}
@@ -461,6 +710,94 @@ export default function JobDetailsScreen({navigation, route}: any) {
         </View>
       )}
 
+      {(jobCard.status === 'accepted' || quotation) && (
+        <QuotationSummary
+          quotation={quotation}
+          theme={theme}
+          onEdit={jobCard.status === 'accepted' ? () => setShowQuotationModal(true) : undefined}
+        />
+      )}
+
+      {(jobCard.status === 'accepted' ||
+        jobCard.status === 'in-progress' ||
+        jobCard.status === 'completed') && (
+        <JobPhotoGallery
+          jobCardId={jobCardId}
+          photos={jobCard.photos}
+          theme={theme}
+          canCapture={jobCard.status !== 'completed'}
+          afterRequired={requiresAfterPhoto}
+          onError={message => {
+            setToastMessage(message);
+            setShowToast(true);
+          }}
+        />
+      )}
+
+      {jobCard.status === 'completed' && (
+        <View style={[styles.card, {backgroundColor: theme.card}]}>
+          <Text style={[styles.cardTitle, {color: theme.text}]}>
+            {String(t('jobDetails.invoice.title'))}
+          </Text>
+          <View style={styles.detailRow}>
+            <Icon name="receipt" size={20} color={theme.primary} />
+            <Text style={[styles.detailLabel, {color: theme.textSecondary}]}>
+              {String(t('jobDetails.invoice.number'))}
+            </Text>
+            <Text style={[styles.detailValue, {color: theme.text}]}>
+              {jobCard.invoiceNumber || String(t('jobDetails.invoice.notGenerated'))}
+            </Text>
+          </View>
+          <TouchableOpacity
+            style={[styles.actionButton, {backgroundColor: theme.primary, opacity: invoiceBusy ? 0.6 : 1}]}
+            onPress={() =>
+              void (jobCard.invoicePdfUrl ? handleShareInvoice() : handleGenerateInvoice())
+            }
+            disabled={invoiceBusy}>
+            {invoiceBusy ? (
+              <ActivityIndicator size="small" color="#fff" />
+            ) : (
+              <Icon name={jobCard.invoicePdfUrl ? 'share' : 'receipt-long'} size={20} color="#fff" />
+            )}
+            <Text style={styles.actionButtonText}>
+              {String(
+                jobCard.invoicePdfUrl
+                  ? t('jobDetails.invoice.share')
+                  : t('jobDetails.invoice.generate'),
+              )}
+            </Text>
+          </TouchableOpacity>
+        </View>
+      )}
+
+      {jobCard.status !== 'pending' && jobCard.status !== 'cancelled' && (
+        <TouchableOpacity
+          style={[styles.card, styles.chatRow, {backgroundColor: theme.card}]}
+          onPress={() =>
+            navigation.navigate('JobChat', {jobCardId, customerName: jobCard.customerName})
+          }>
+          <Icon name="forum" size={22} color={theme.primary} />
+          <View style={styles.chatInfo}>
+            <Text style={[styles.tripTitle, {color: theme.text}]}>
+              {String(t('jobDetails.chat.open'))}
+            </Text>
+            {!isChatOpen(jobCard) && (
+              <Text style={[styles.chatHint, {color: theme.textSecondary}]}>
+                {String(t('jobDetails.chat.closed'))}
+              </Text>
+            )}
+          </View>
+          {unreadFor(jobCardId) > 0 && (
+            <View style={[styles.chatUnread, {backgroundColor: theme.primary}]}>
+              <Text style={styles.chatUnreadText}>
+                {String(t('jobDetails.chat.unread', {count: unreadFor(jobCardId)}))}
+              </Text>
+            </View>
+          )}
+          <Icon name="chevron-right" size={24} color={theme.textSecondary} />
+        </TouchableOpacity>
+      )}
+
       <JobCardComments
         comments={(jobCard as any).comments || []}
         theme={theme}
@@ -476,15 +813,63 @@ export default function JobDetailsScreen({navigation, route}: any) {
         emptyText={String(t('jobDetails.noComments') || 'No comments yet')}
         postLabel={String(t('jobDetails.postComment') || 'Post')}
         onSubmit={async text => {
-          const updated = await jobCardsApi.addComment(jobCardId, text);
-          setJobCard(prev =>
-            prev
-              ? {...prev, comments: (updated as any).comments || []}
-              : prev,
-          );
+          const comments = await addJobCardComment(jobCardId, text);
+          if (comments === null) {
+            // Queued offline — show it until the outbox syncs
+            setJobCard(prev =>
+              prev
+                ? {
+                    ...prev,
+                    comments: [
+                      ...(prev.comments || []),
+                      {
+                        _id: `pending-${Date.now()}`,
+                        role: 'provider',
+                        text,
+                        createdAt: new Date(),
+                      },
+                    ],
+                  }
+                : prev,
+            );
+            setToastMessage(t('jobDetails.commentQueued'));
+            setShowToast(true);
+            return;
+          }
+          setJobCard(prev => (prev ? {...prev, comments} : prev));
         }}
       />
 
+      {trip && (
+        <View style={[styles.card, {backgroundColor: theme.card}]}>
+          <View style={styles.tripHeader}>
+            <Icon
+              name={trip.status === 'arrived' ? 'where-to-vote' : 'directions-car'}
+              size={22}
+              color={trip.status === 'arrived' ? '#34C759' : '#007AFF'}
+            />
+            <Text style={[styles.tripTitle, {color: theme.text}]}>
+              {String(t(trip.status === 'arrived' ? 'jobDetails.trip.arrived' : 'jobDetails.trip.enRoute'))}
+            </Text>
+          </View>
+          {trip.status === 'en_route' && trip.etaMinutes !== undefined && (
+            <Text style={[styles.tripEta, {color: theme.textSecondary}]}>
+              {String(
+                t('jobDetails.trip.eta', {
+                  minutes: trip.etaMinutes,
+                  distance: formatDistance(trip.distanceKm || 0),
+                }),
+              )}
+            </Text>
+          )}
+          <TouchableOpacity onPress={() => void stopTripTracking(jobCardId, 'stopped')}>
+            <Text style={styles.tripStop}>
+              {String(t('jobDetails.trip.stop'))}
+            </Text>
+          </TouchableOpacity>
+        </View>
+      )}
+
       {/* One-handed contact / navigate */}
       {(jobCard.status === 'accepted' ||
         jobCard.status === 'in-progress' ||
@@ -504,10 +889,12 @@ export default function JobDetailsScreen({navigation, route}: any) {
             style={styles.thumbBtn}
             onPress={handleWhatsAppCustomer}>
             <View style={[styles.thumbIcon, {backgroundColor: '#25D36620'}]}>
-              <Icon name="chat" size={26} color="#25D366" />
+              <Icon name={isMaskedContact(jobCard) ? 'forum' : 'chat'} size={26} color="#25D366" />
             </View>
             <Text style={[styles.thumbLabel, {color: theme.text}]}>
-              {t('dashboard.whatsapp')}
+              {isMaskedContact(jobCard)
+                ? String(t('jobDetails.chat.title'))
+                : t('dashboard.whatsapp')}
             </Text>
           </TouchableOpacity>
           <TouchableOpacity
@@ -565,6 +952,19 @@ export default function JobDetailsScreen({navigation, route}: any) {
         onConfirm={handleStartTask}
         onCancel={() => setShowStartModal(false)}
         loading={updating}
+        quotation={quotation}
+        onOpenQuotation={() => {
+          setShowStartModal(false);
+          setShowQuotationModal(true);
+        }}
+      />
+
+      {/* Quotation Editor */}
+      <QuotationEditorModal
+        visible={showQuotationModal}
+        initial={quotation}
+        onSubmit={handleSendQuotation}
+        onCancel={() => setShowQuotationModal(false)}
       />
 
       {/* PIN Verification Modal */}
@@ -576,6 +976,8 @@ export default function JobDetailsScreen({navigation, route}: any) {
           setTimeStarted(undefined);
         }}
         timeStarted={timeStarted}
+        initialAmount={completionPrefill.amount}
+        initialMaterials={completionPrefill.materials}
       />
 
       {/* Cancel Task Modal */}
@@ -642,6 +1044,9 @@ const styles = StyleSheet.create({
     fontSize: 14,
     marginTop: 4,
   },
+  syncBadge: {
+    marginTop: 12,
+  },
   card: {
     padding: 16,
     marginHorizontal: 16,
@@ -693,6 +1098,64 @@ const styles = StyleSheet.create({
     fontSize: 14,
     fontWeight: '500',
   },
+  contactHint: {
+    fontSize: 12,
+    marginTop: 4,
+  },
+  contactLog: {
+    marginTop: 12,
+  },
+  contactLogTitle: {
+    fontSize: 12,
+    fontWeight: '600',
+    textTransform: 'uppercase',
+  },
+  contactLogRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+  },
+  chatRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 10,
+  },
+  chatInfo: {
+    flex: 1,
+  },
+  chatHint: {
+    fontSize: 12,
+    marginTop: 2,
+  },
+  chatUnread: {
+    paddingHorizontal: 8,
+    paddingVertical: 3,
+    borderRadius: 10,
+  },
+  chatUnreadText: {
+    color: '#fff',
+    fontSize: 12,
+    fontWeight: '600',
+  },
+  tripHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+  },
+  tripTitle: {
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  tripEta: {
+    fontSize: 14,
+    marginTop: 6,
+  },
+  tripStop: {
+    color: '#FF3B30',
+    fontSize: 14,
+    fontWeight: '500',
+    marginTop: 10,
+  },
   detailRow: {
     flexDirection: 'row',
     alignItems: 'flex-start',
@@ -13,8 +13,6 @@ import {
   StyleSheet,
   ActivityIndicator,
   RefreshControl,
-  Linking,
-  Alert,
 } from 'react-native';
 import Icon from 'react-native-vector-icons/MaterialIcons';
 import {useStore} from '../store';
@@ -22,6 +20,7 @@ import {lightTheme, darkTheme} from '../utils/theme';
 import {getUserId} from '../services/session';
 import {fetchJobCardsByProvider, JobCard} from '../services/jobCardService';
 import useTranslation from '../hooks/useTranslation';
+import {maskPhone} from '../services/contactActions';
 
 export default function JobsHistoryScreen({navigation}: any) {
   const {t} = useTranslation();
@@ -73,29 +72,6 @@ export default function JobsHistoryScreen({navigation}: any) {
     });
   };
 
-  const handleCallCustomer = (phoneNumber?: string) => {
-    if (!phoneNumber) {
-      Alert.alert(t('common.error'), t('jobs.customerPhoneNotAvailable'));
-      return;
-    }
-
-    const phone = phoneNumber.replace(/[^\d+]/g, ''); // Remove non-digit characters except +
-    const phoneUrl = `tel:${phone}`;
-
-    Linking.canOpenURL(phoneUrl)
-      .then(supported => {
-        if (supported) {
-          return Linking.openURL(phoneUrl);
-        } else {
-          Alert.alert(t('common.error'), t('jobs.unableToMakeCall'));
-        }
-      })
-      .catch(err => {
-        console.error('Error opening phone dialer:', err);
-        Alert.alert(t('common.error'), t('jobs.failedToOpenDialer'));
-      });
-  };
-
   const renderJobCard = ({item}: {item: JobCard}) => (
     <TouchableOpacity
       style={[styles.jobCard, {backgroundColor: theme.card}]}
@@ -116,20 +92,13 @@ export default function JobsHistoryScreen({navigation}: any) {
             <Text style={[styles.serviceType, {color: theme.textSecondary}]}>
               {item.serviceType}
             </Text>
+            {/* Finished jobs never show the customer's real number */}
             {item.customerPhone && (
               <View style={styles.customerPhoneRow}>
-                <Icon name="phone" size={14} color={theme.primary} />
+                <Icon name="phone-disabled" size={14} color={theme.textSecondary} />
                 <Text style={[styles.customerPhone, {color: theme.textSecondary}]}>
-                  {item.customerPhone}
+                  {maskPhone(item.customerPhone)}
                 </Text>
-                <TouchableOpacity
-                  style={[styles.callButton, {backgroundColor: theme.primary}]}
-                  onPress={(e) => {
-                    e.stopPropagation();
-                    handleCallCustomer(item.customerPhone);
-                  }}>
-                  <Icon name="phone" size={14} color="#fff" />
-                </TouchableOpacity>
               </View>
             )}
           </View>
@@ -290,14 +259,6 @@ const styles = StyleSheet.create({
     fontSize: 12,
     flex: 1,
   },
-  callButton: {
-    paddingHorizontal: 8,
-    paddingVertical: 4,
-    borderRadius: 12,
-    flexDirection: 'row',
-    alignItems: 'center',
-    gap: 4,
-  },
   statusBadge: {
     paddingHorizontal: 12,
     paddingVertical: 6,
@@ -13,7 +13,6 @@ import {
   StyleSheet,
   ActivityIndicator,
   RefreshControl,
-  Linking,
   Alert,
 } from 'react-native';
 import Icon from 'react-native-vector-icons/MaterialIcons';
@@ -23,12 +22,23 @@ import {getUserId} from '../services/session';
 import {fetchJobCardsByProvider, JobCard, subscribeToProviderJobCardStatuses} from '../services/jobCardService';
 import useTranslation from '../hooks/useTranslation';
 import AdSlot from '../components/AdSlot';
+import PendingSyncBadge from '../components/PendingSyncBadge';
+import useJobCardOutbox from '../hooks/useJobCardOutbox';
+import useJobChatUnread from '../hooks/useJobChatUnread';
+import {
+  contactCustomer,
+  ContactUnavailableError,
+  getDisplayPhone,
+  isContactAvailable,
+} from '../services/contactActions';
 
 export default function JobsScreen({navigation, route}: any) {
   const {isDarkMode, currentUser} = useStore();
   const theme = isDarkMode ? darkTheme : lightTheme;
   const userId = getUserId(currentUser);
   const {t} = useTranslation();
+  const {pendingFor, conflictsFor} = useJobCardOutbox();
+  const {unreadFor, refresh: refreshUnread} = useJobChatUnread();
 
   // Get initial filter from route params, default to 'all'
   const initialFilter = route?.params?.filter || 'all';
@@ -72,6 +82,7 @@ export default function JobsScreen({navigation, route}: any) {
       setLoading(true);
       const jobs = await fetchJobCardsByProvider(userId);
       setJobCards(jobs);
+      void refreshUnread();
     } catch (error) {
       console.error('Error loading job cards:', error);
     } finally {
@@ -141,27 +152,27 @@ export default function JobsScreen({navigation, route}: any) {
     });
   };
 
-  const handleCallCustomer = (phoneNumber?: string) => {
-    if (!phoneNumber) {
-      Alert.alert(t('common.error'), t('jobs.customerPhoneNotAvailable'));
-      return;
+  const handleCallCustomer = async (job: JobCard) => {
+    try {
+      const outcome = await contactCustomer(job, 'call');
+      if (outcome === 'bridge_requested') {
+        Alert.alert(String(t('jobs.callCustomer')), String(t('jobDetails.contact.bridgeRequested')));
+      }
+    } catch (err: any) {
+      if (err instanceof ContactUnavailableError) {
+        Alert.alert(
+          String(t('common.error')),
+          String(
+            err.reason === 'no_number'
+              ? t('jobs.customerPhoneNotAvailable')
+              : t(`jobDetails.contact.${err.reason}`),
+          ),
+        );
+        return;
+      }
+      console.error('Error contacting customer:', err);
+      Alert.alert(String(t('common.error')), String(t('jobs.failedToOpenDialer')));
     }
-
-    const phone = phoneNumber.replace(/[^\d+]/g, ''); // Remove non-digit characters except +
-    const phoneUrl = `tel:${phone}`;
-
-    Linking.canOpenURL(phoneUrl)
-      .then(supported => {
-        if (supported) {
-          return Linking.openURL(phoneUrl);
-        } else {
-          Alert.alert(t('common.error'), t('jobs.unableToMakeCall'));
-        }
-      })
-      .catch(err => {
-        console.error('Error opening phone dialer:', err);
-        Alert.alert(t('common.error'), t('jobs.failedToOpenDialer'));
-      });
   };
 
   const renderJobCard = ({item}: {item: JobCard}) => (
@@ -184,36 +195,51 @@ export default function JobsScreen({navigation, route}: any) {
             <Text style={[styles.serviceType, {color: theme.textSecondary}]}>
               {item.serviceType}
             </Text>
-            {item.customerPhone && (
+            {(!!getDisplayPhone(item) || isContactAvailable(item)) && (
               <View style={styles.customerPhoneRow}>
                 <Icon name="phone" size={14} color={theme.primary} />
                 <Text style={[styles.customerPhone, {color: theme.textSecondary}]}>
-                  {item.customerPhone}
+                  {getDisplayPhone(item) || String(t('jobDetails.contact.maskedCall'))}
                 </Text>
-                <TouchableOpacity
-                  style={[styles.callButton, {backgroundColor: theme.primary}]}
-                  onPress={(e) => {
-                    e.stopPropagation();
-                    handleCallCustomer(item.customerPhone);
-                  }}>
-                  <Icon name="phone" size={14} color="#fff" />
-                </TouchableOpacity>
+                {isContactAvailable(item) && (
+                  <TouchableOpacity
+                    style={[styles.callButton, {backgroundColor: theme.primary}]}
+                    onPress={(e) => {
+                      e.stopPropagation();
+                      void handleCallCustomer(item);
+                    }}>
+                    <Icon name="phone" size={14} color="#fff" />
+                  </TouchableOpacity>
+                )}
               </View>
             )}
           </View>
         </View>
-        <View
-          style={[
-            styles.statusBadge,
-            {backgroundColor: getStatusColor(item.status) + '20'},
-          ]}>
-          <Text
+        <View style={styles.headerBadges}>
+          <View
             style={[
-              styles.statusText,
-              {color: getStatusColor(item.status)},
+              styles.statusBadge,
+              {backgroundColor: getStatusColor(item.status) + '20'},
             ]}>
-            {getStatusText(item.status)}
-          </Text>
+            <Text
+              style={[
+                styles.statusText,
+                {color: getStatusColor(item.status)},
+              ]}>
+              {getStatusText(item.status)}
+            </Text>
+          </View>
+          {unreadFor(item.id) > 0 && (
+            <TouchableOpacity
+              style={[styles.chatBadge, {backgroundColor: theme.primary}]}
+              onPress={(e) => {
+                e.stopPropagation();
+                navigation.navigate('JobChat', {jobCardId: item.id, customerName: item.customerName});
+              }}>
+              <Icon name="chat-bubble" size={12} color="#fff" />
+              <Text style={styles.chatBadgeText}>{unreadFor(item.id)}</Text>
+            </TouchableOpacity>
+          )}
         </View>
       </View>
 
@@ -241,6 +267,12 @@ export default function JobsScreen({navigation, route}: any) {
           {formatDate(item.scheduledTime || item.createdAt)}
         </Text>
       </View>
+
+      <PendingSyncBadge
+        pendingCount={pendingFor(item.id).length}
+        conflictCount={conflictsFor(item.id).length}
+        style={styles.syncBadge}
+      />
     </TouchableOpacity>
   );
 
@@ -438,6 +470,23 @@ const styles = StyleSheet.create({
     alignItems: 'center',
     gap: 1,
   },
+  headerBadges: {
+    alignItems: 'flex-end',
+    gap: 6,
+  },
+  chatBadge: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingHorizontal: 8,
+    paddingVertical: 3,
+    borderRadius: 10,
+    gap: 4,
+  },
+  chatBadgeText: {
+    color: '#fff',
+    fontSize: 12,
+    fontWeight: '700',
+  },
   statusBadge: {
     paddingHorizontal: 12,
     paddingVertical: 6,
@@ -470,6 +519,9 @@ const styles = StyleSheet.create({
   dateText: {
     fontSize: 14,
   },
+  syncBadge: {
+    marginTop: 8,
+  },
   emptyContainer: {
     flex: 1,
     alignItems: 'center',
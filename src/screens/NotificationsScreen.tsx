@@ -1,17 +1,29 @@
-import React, {useState} from 'react';
+import React, {useMemo, useState} from 'react';
 import {
   View,
   Text,
-  FlatList,
+  SectionList,
   TouchableOpacity,
   StyleSheet,
   RefreshControl,
+  ActivityIndicator,
+  Alert,
 } from 'react-native';
 import Icon from 'react-native-vector-icons/Ionicons';
 import {useStore} from '../store';
 import {lightTheme, darkTheme} from '../utils/theme';
 import type {AppNotification} from '../store';
 import useTranslation from '../hooks/useTranslation';
+import {
+  GENERAL_GROUP_KEY,
+  NotificationGroup,
+  deleteNotification,
+  groupNotificationsByJob,
+  loadMoreNotifications,
+  markAllNotificationsRead,
+  markNotificationsRead,
+  refreshNotifications,
+} from '../services/notificationCenterService';
 
 interface NotificationsScreenProps {
   navigation: any;
@@ -21,83 +33,160 @@ const NotificationsScreen: React.FC<NotificationsScreenProps> = ({
   navigation,
 }) => {
   const {t} = useTranslation();
-  const {
-    isDarkMode,
-    notifications,
-    currentUser,
-    getUserNotifications,
-    markNotificationAsRead,
-    markAllNotificationsAsRead,
-    deleteNotification,
-    clearAllNotifications,
-  } = useStore();
+  const tx = (key: string, opts?: any) => String(t(key, opts));
+  const {isDarkMode, notifications, notificationsCursor, unreadNotificationCount} = useStore();
   const theme = isDarkMode ? darkTheme : lightTheme;
   const [refreshing, setRefreshing] = useState(false);
-  
-  // Filter notifications for current user
-  const userNotifications = currentUser?.id 
-    ? getUserNotifications(currentUser.id)
-    : [];
+  const [loadingMore, setLoadingMore] = useState(false);
+  const [loadFailed, setLoadFailed] = useState(false);
+
+  const sections = useMemo(
+    () =>
+      groupNotificationsByJob(notifications).map(group => ({
+        ...group,
+        data: group.notifications,
+      })),
+    [notifications],
+  );
 
   const onRefresh = async () => {
     setRefreshing(true);
-    // Refresh notifications if needed
-    setTimeout(() => setRefreshing(false), 1000);
+    try {
+      await refreshNotifications();
+      setLoadFailed(false);
+    } catch {
+      setLoadFailed(true);
+    } finally {
+      setRefreshing(false);
+    }
+  };
+
+  const onEndReached = async () => {
+    if (loadingMore || refreshing || !notificationsCursor) return;
+    setLoadingMore(true);
+    try {
+      await loadMoreNotifications();
+    } catch {
+      setLoadFailed(true);
+    } finally {
+      setLoadingMore(false);
+    }
+  };
+
+  const handleMarkAll = async () => {
+    try {
+      await markAllNotificationsRead();
+    } catch {
+      Alert.alert(tx('common.error'), tx('notifications.actionFailed'));
+    }
+  };
+
+  const handleDelete = async (id: string) => {
+    try {
+      await deleteNotification(id);
+    } catch {
+      Alert.alert(tx('common.error'), tx('notifications.actionFailed'));
+    }
   };
 
   const handleNotificationPress = (notification: AppNotification) => {
     if (!notification.read) {
-      markNotificationAsRead(notification.id);
+      void markNotificationsRead([notification.id]);
     }
 
-    // Navigate based on notification type
-    // Use getParent() to navigate to root navigator, then to the correct tab
-    if (notification.consultationId) {
-      try {
-        // Try to navigate to ConsultationsHistory in the ConsultationsStack
-        const parent = navigation.getParent();
-        if (parent) {
-          // Navigate to Consultations tab first, then to ConsultationsHistory
-          parent.navigate('Consultations', {
-            screen: 'ConsultationsHistory',
-            params: {consultationId: notification.consultationId},
-          });
-        } else {
-          // Fallback: navigate to Consultations tab
-          navigation.navigate('Consultations');
-        }
-      } catch (error) {
-        // Fallback: just navigate to Consultations tab
-        navigation.navigate('Consultations');
-      }
-    } else if (notification.prescriptionId) {
-      // Navigate to Consultations tab
-      try {
-        const parent = navigation.getParent();
-        if (parent) {
-          parent.navigate('Consultations');
-        } else {
-          navigation.navigate('Consultations');
-        }
-      } catch (error) {
-        navigation.navigate('Consultations');
-      }
+    // Anything tied to a job opens that job; JobDetails lives on the root stack
+    if (notification.jobCardId) {
+      navigation.navigate('JobDetails', {jobCardId: notification.jobCardId});
+      return;
+    }
+
+    // The rest go to the tab that owns them
+    const tab =
+      notification.type === 'payment'
+        ? 'Earnings'
+        : notification.type === 'approval_status' || notification.type === 'review'
+        ? 'Profile'
+        : notification.type === 'new_booking'
+        ? 'Dashboard'
+        : null;
+    if (!tab) return;
+    const parent = navigation.getParent();
+    if (parent) {
+      parent.navigate(tab);
+    } else {
+      navigation.navigate(tab);
     }
   };
 
   const getNotificationIcon = (type: AppNotification['type']) => {
     switch (type) {
-      case 'consultation':
-        return 'medical-outline';
-      case 'prescription':
-        return 'document-text-outline';
-      case 'reminder':
-        return 'time-outline';
+      case 'new_booking':
+        return 'flash-outline';
+      case 'job_cancelled':
+        return 'close-circle-outline';
+      case 'comment':
+        return 'chatbubble-ellipses-outline';
+      case 'payment':
+        return 'cash-outline';
+      case 'review':
+        return 'star-outline';
+      case 'approval_status':
+        return 'shield-checkmark-outline';
       default:
         return 'notifications-outline';
     }
   };
 
+  const getIconColor = (type: AppNotification['type']) => {
+    switch (type) {
+      case 'job_cancelled':
+        return theme.error || '#FF3B30';
+      case 'payment':
+        return '#34C759';
+      case 'review':
+        return '#FF9500';
+      default:
+        return theme.primary;
+    }
+  };
+
+  const getGroupTitle = (group: NotificationGroup) => {
+    if (group.key === GENERAL_GROUP_KEY) return tx('notifications.general');
+    const name = group.notifications
+      .map(n => n.data?.customerName)
+      .find(value => typeof value === 'string' && value);
+    return name
+      ? tx('notifications.jobGroup', {name})
+      : tx('notifications.jobGroupFallback', {id: group.key.slice(-6).toUpperCase()});
+  };
+
+  const formatTime = (date: Date) => {
+    const now = new Date();
+    const diff = now.getTime() - date.getTime();
+    const minutes = Math.floor(diff / 60000);
+    const hours = Math.floor(diff / 3600000);
+    const days = Math.floor(diff / 86400000);
+
+    if (minutes < 1) return t('notifications.justNow');
+    if (minutes < 60) return t('notifications.minutesAgo', {count: minutes});
+    if (hours < 24) return t('notifications.hoursAgo', {count: hours});
+    if (days < 7) return t('notifications.daysAgo', {count: days});
+    return date.toLocaleDateString();
+  };
+
+  const renderSectionHeader = ({section}: {section: NotificationGroup}) => (
+    <View style={styles.sectionHeader}>
+      <Text style={[styles.sectionTitle, {color: theme.textSecondary}]} numberOfLines={1}>
+        {getGroupTitle(section)}
+      </Text>
+      {section.unread > 0 && (
+        <Text style={[styles.sectionBadge, {color: theme.primary}]}>
+          {tx('notifications.unreadInGroup', {count: section.unread})}
+        </Text>
+      )}
+    </View>
+  );
+
   const renderNotification = ({item}: {item: AppNotification}) => (
     <TouchableOpacity
       style={[
@@ -113,12 +202,12 @@ const NotificationsScreen: React.FC<NotificationsScreenProps> = ({
         <View
           style={[
             styles.iconContainer,
-            {backgroundColor: theme.primary + '20'},
+            {backgroundColor: getIconColor(item.type) + '20'},
           ]}>
           <Icon
             name={getNotificationIcon(item.type)}
             size={24}
-            color={theme.primary}
+            color={getIconColor(item.type)}
           />
         </View>
         <View style={styles.textContainer}>
@@ -143,7 +232,7 @@ const NotificationsScreen: React.FC<NotificationsScreenProps> = ({
           <View style={[styles.unreadDot, {backgroundColor: theme.primary}]} />
         )}
         <TouchableOpacity
-          onPress={() => deleteNotification(item.id)}
+          onPress={() => handleDelete(item.id)}
           style={styles.deleteButton}>
           <Icon name="close" size={18} color={theme.textSecondary} />
         </TouchableOpacity>
@@ -151,25 +240,9 @@ const NotificationsScreen: React.FC<NotificationsScreenProps> = ({
     </TouchableOpacity>
   );
 
-  const formatTime = (date: Date) => {
-    const now = new Date();
-    const diff = now.getTime() - date.getTime();
-    const minutes = Math.floor(diff / 60000);
-    const hours = Math.floor(diff / 3600000);
-    const days = Math.floor(diff / 86400000);
-
-    if (minutes < 1) return t('notifications.justNow');
-    if (minutes < 60) return t('notifications.minutesAgo', {count: minutes});
-    if (hours < 24) return t('notifications.hoursAgo', {count: hours});
-    if (days < 7) return t('notifications.daysAgo', {count: days});
-    return date.toLocaleDateString();
-  };
-
-  const unreadCount = userNotifications.filter(n => !n.read).length;
-
   return (
     <View style={[styles.container, {backgroundColor: theme.background}]}>
-      {userNotifications.length > 0 && (
+      {notifications.length > 0 && (
         <View
           style={[
             styles.header,
@@ -179,48 +252,63 @@ const NotificationsScreen: React.FC<NotificationsScreenProps> = ({
             },
           ]}>
           <TouchableOpacity
-            onPress={() => markAllNotificationsAsRead(currentUser?.id)}
-            disabled={unreadCount === 0}
+            onPress={handleMarkAll}
+            disabled={unreadNotificationCount === 0}
             style={[
               styles.headerButton,
-              {opacity: unreadCount === 0 ? 0.5 : 1},
+              {opacity: unreadNotificationCount === 0 ? 0.5 : 1},
             ]}>
             <Text style={[styles.headerButtonText, {color: theme.primary}]}>
               {t('notifications.markAllAsRead')}
             </Text>
           </TouchableOpacity>
-          <TouchableOpacity
-            onPress={() => clearAllNotifications(currentUser?.id)}
-            style={styles.headerButton}>
-            <Text style={[styles.headerButtonText, {color: theme.error}]}>
-              {t('notifications.clearAll')}
-            </Text>
-          </TouchableOpacity>
         </View>
       )}
 
-      {userNotifications.length === 0 ? (
-        <View style={styles.emptyContainer}>
-          <Icon name="notifications-off-outline" size={64} color={theme.textSecondary} />
-          <Text style={[styles.emptyText, {color: theme.textSecondary}]}>
-            {t('notifications.noNotifications')}
-          </Text>
-        </View>
-      ) : (
-        <FlatList
-          data={userNotifications}
-          renderItem={renderNotification}
-          keyExtractor={item => item.id}
-          refreshControl={
-            <RefreshControl
-              refreshing={refreshing}
-              onRefresh={onRefresh}
-              tintColor={theme.primary}
-            />
-          }
-          contentContainerStyle={styles.listContent}
-        />
+      {loadFailed && (
+        <Text style={[styles.errorText, {color: theme.error}]}>
+          {tx('notifications.loadFailed')}
+        </Text>
       )}
+
+      <SectionList
+        sections={sections}
+        renderItem={renderNotification}
+        renderSectionHeader={renderSectionHeader}
+        keyExtractor={item => item.id}
+        stickySectionHeadersEnabled={false}
+        onEndReached={onEndReached}
+        onEndReachedThreshold={0.4}
+        refreshControl={
+          <RefreshControl
+            refreshing={refreshing}
+            onRefresh={onRefresh}
+            tintColor={theme.primary}
+          />
+        }
+        ListEmptyComponent={
+          <View style={styles.emptyContainer}>
+            <Icon name="notifications-off-outline" size={64} color={theme.textSecondary} />
+            <Text style={[styles.emptyText, {color: theme.textSecondary}]}>
+              {t('notifications.noNotifications')}
+            </Text>
+          </View>
+        }
+        ListFooterComponent={
+          loadingMore ? (
+            <View style={styles.footer}>
+              <ActivityIndicator color={theme.primary} />
+              <Text style={[styles.footerText, {color: theme.textSecondary}]}>
+                {tx('notifications.loadingMore')}
+              </Text>
+            </View>
+          ) : null
+        }
+        contentContainerStyle={[
+          styles.listContent,
+          notifications.length === 0 && styles.listContentEmpty,
+        ]}
+      />
     </View>
   );
 };
@@ -231,7 +319,7 @@ const styles = StyleSheet.create({
   },
   header: {
     flexDirection: 'row',
-    justifyContent: 'space-between',
+    justifyContent: 'flex-end',
     paddingHorizontal: 16,
     paddingVertical: 12,
     borderBottomWidth: 1,
@@ -243,9 +331,36 @@ const styles = StyleSheet.create({
     fontSize: 14,
     fontWeight: '600',
   },
+  errorText: {
+    fontSize: 13,
+    textAlign: 'center',
+    paddingHorizontal: 16,
+    paddingTop: 12,
+  },
   listContent: {
     padding: 16,
   },
+  listContentEmpty: {
+    flexGrow: 1,
+  },
+  sectionHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    marginTop: 4,
+    marginBottom: 8,
+  },
+  sectionTitle: {
+    flex: 1,
+    fontSize: 13,
+    fontWeight: '600',
+    textTransform: 'uppercase',
+  },
+  sectionBadge: {
+    fontSize: 12,
+    fontWeight: '600',
+    marginLeft: 8,
+  },
   notificationItem: {
     marginBottom: 12,
     borderRadius: 12,
@@ -296,6 +411,16 @@ const styles = StyleSheet.create({
     padding: 4,
     marginLeft: 8,
   },
+  footer: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    paddingVertical: 12,
+    gap: 8,
+  },
+  footerText: {
+    fontSize: 13,
+  },
   emptyContainer: {
     flex: 1,
     justifyContent: 'center',
@@ -308,4 +433,3 @@ const styles = StyleSheet.create({
 });
 
 export default NotificationsScreen;
-
@@ -0,0 +1,632 @@
+/**
+ * Payout Accounts Screen
+ * Provider app - The bank account and UPI ID payouts are sent to, their
+ * verification status, and PIN re-entry before any of it changes
+ */
+
+import React, {useEffect, useRef, useState} from 'react';
+import {
+  View,
+  Text,
+  TextInput,
+  ScrollView,
+  TouchableOpacity,
+  StyleSheet,
+  ActivityIndicator,
+  Alert,
+  TextInputProps,
+} from 'react-native';
+import Icon from 'react-native-vector-icons/Ionicons';
+import {useStore} from '../store';
+import {lightTheme, darkTheme} from '../utils/theme';
+import useTranslation from '../hooks/useTranslation';
+import {getApiErrorMessage} from '../utils/apiErrorMessages';
+import PinReentryModal from '../components/PinReentryModal';
+import type {
+  IfscDetails,
+  PayoutAccount,
+  PayoutAccountType,
+  PayoutVerificationStatus,
+} from '../services/api/payoutAccountsApi';
+import {
+  canTransition,
+  getPayoutAccounts,
+  hasRecentReauth,
+  lookupIfscBranch,
+  onPayoutAccountsChange,
+  PAYOUT_ACCOUNT_TYPES,
+  payoutAccountOf,
+  ReauthRequiredError,
+  removePayoutAccount,
+  requestVerification,
+  savePayoutAccount,
+} from '../services/payoutAccountService';
+import {
+  bankNameForIfsc,
+  maskAccountNumber,
+  PayoutField,
+  PayoutFieldValidation,
+  payoutFieldErrorKey,
+  validateAccountHolderName,
+  validateAccountNumber,
+  validateAccountNumberConfirmation,
+  validateIfsc,
+  validateVpa,
+} from '../utils/bankAccounts';
+
+const STATUS_STYLE: Record<PayoutVerificationStatus, {icon: string; color: string}> = {
+  unverified: {icon: 'help-circle-outline', color: '#8E8E93'},
+  pending: {icon: 'hourglass-outline', color: '#FF9500'},
+  verified: {icon: 'checkmark-circle', color: '#34C759'},
+  failed: {icon: 'close-circle', color: '#FF3B30'},
+};
+
+const TYPE_ICON: Record<PayoutAccountType, string> = {
+  bank: 'business-outline',
+  upi: 'phone-portrait-outline',
+};
+
+interface BankForm {
+  accountHolderName: string;
+  accountNumber: string;
+  confirmAccountNumber: string;
+  ifsc: string;
+}
+
+const EMPTY_BANK_FORM: BankForm = {
+  accountHolderName: '',
+  accountNumber: '',
+  confirmAccountNumber: '',
+  ifsc: '',
+};
+
+/** A well-formed IFSC from a bank missing from the bundled table only warns */
+const blocks = (validation: PayoutFieldValidation) =>
+  !validation.valid && validation.error !== 'unknownBank';
+
+export default function PayoutAccountsScreen() {
+  const {t} = useTranslation();
+  const tx = (key: string, opts?: any) => String(t(key, opts));
+  const {isDarkMode} = useStore();
+  const theme = isDarkMode ? darkTheme : lightTheme;
+
+  const [accounts, setAccounts] = useState<PayoutAccount[] | null>(null);
+  const [editing, setEditing] = useState<PayoutAccountType | null>(null);
+  const [bankForm, setBankForm] = useState<BankForm>(EMPTY_BANK_FORM);
+  const [vpa, setVpa] = useState('');
+  const [showErrors, setShowErrors] = useState(false);
+  const [busy, setBusy] = useState<PayoutAccountType | null>(null);
+  const [showPin, setShowPin] = useState(false);
+  const [branch, setBranch] = useState<IfscDetails | null>(null);
+  /** What to run once the PIN has been re-entered */
+  const afterReauth = useRef<(() => void) | null>(null);
+
+  useEffect(() => {
+    void getPayoutAccounts(true).then(setAccounts);
+    return onPayoutAccountsChange(setAccounts);
+  }, []);
+
+  // Branch details come from the backend once the IFSC is well-formed
+  const ifsc = validateIfsc(bankForm.ifsc);
+  useEffect(() => {
+    setBranch(null);
+    if (editing !== 'bank' || ifsc.error === 'format' || ifsc.error === 'required') return;
+    let current = true;
+    void lookupIfscBranch(ifsc.normalized).then(details => {
+      if (current) setBranch(details);
+    });
+    return () => {
+      current = false;
+    };
+  }, [editing, ifsc.normalized, ifsc.error]);
+
+  const withPin = (action: () => void) => {
+    if (hasRecentReauth()) {
+      action();
+      return;
+    }
+    afterReauth.current = action;
+    setShowPin(true);
+  };
+
+  const handlePinConfirmed = () => {
+    setShowPin(false);
+    const action = afterReauth.current;
+    afterReauth.current = null;
+    action?.();
+  };
+
+  const handlePinCancel = () => {
+    setShowPin(false);
+    afterReauth.current = null;
+  };
+
+  const startEditing = (type: PayoutAccountType) =>
+    withPin(() => {
+      const account = payoutAccountOf(accounts || [], type);
+      setBankForm({
+        ...EMPTY_BANK_FORM,
+        accountHolderName: account?.bank?.accountHolderName || '',
+        ifsc: account?.bank?.ifsc || '',
+      });
+      setVpa(account?.upi?.vpa || '');
+      setShowErrors(false);
+      setEditing(type);
+    });
+
+  const bankValidation = {
+    accountHolderName: validateAccountHolderName(bankForm.accountHolderName),
+    accountNumber: validateAccountNumber(bankForm.accountNumber),
+    confirmAccountNumber: validateAccountNumberConfirmation(
+      bankForm.accountNumber,
+      bankForm.confirmAccountNumber,
+    ),
+    // A code the backend knows is fine even if its bank is not bundled
+    ifsc:
+      branch && ifsc.error === 'unknownBank' ? {...ifsc, valid: true, error: undefined} : ifsc,
+  };
+  const vpaValidation = validateVpa(vpa);
+  const bankName = branch?.bankName || bankNameForIfsc(bankForm.ifsc);
+
+  const save = async (type: PayoutAccountType) => {
+    const invalid =
+      type === 'bank'
+        ? Object.values(bankValidation).some(blocks)
+        : blocks(vpaValidation);
+    if (invalid) {
+      setShowErrors(true);
+      return;
+    }
+    try {
+      setBusy(type);
+      await savePayoutAccount(
+        type,
+        type === 'bank'
+          ? {
+              accountHolderName: bankValidation.accountHolderName.normalized,
+              accountNumber: bankValidation.accountNumber.normalized,
+              ifsc: bankValidation.ifsc.normalized,
+              bankName: bankName || undefined,
+              branch: branch?.branch,
+            }
+          : {vpa: vpaValidation.normalized},
+      );
+      setEditing(null);
+    } catch (error) {
+      if (error instanceof ReauthRequiredError) {
+        withPin(() => void save(type));
+        return;
+      }
+      Alert.alert(tx('common.error'), getApiErrorMessage(error, tx('payouts.saveFailed')));
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  const verify = async (type: PayoutAccountType) => {
+    try {
+      setBusy(type);
+      await requestVerification(type);
+    } catch (error) {
+      Alert.alert(tx('common.error'), getApiErrorMessage(error, tx('payouts.verifyFailed')));
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  const remove = async (type: PayoutAccountType) => {
+    try {
+      setBusy(type);
+      await removePayoutAccount(type);
+    } catch (error) {
+      if (error instanceof ReauthRequiredError) {
+        withPin(() => void remove(type));
+        return;
+      }
+      Alert.alert(tx('common.error'), getApiErrorMessage(error, tx('payouts.removeFailed')));
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  const confirmRemove = (type: PayoutAccountType) =>
+    withPin(() =>
+      Alert.alert(tx(`payouts.removeTitle.${type}`), tx('payouts.removeMessage'), [
+        {text: tx('common.cancel'), style: 'cancel'},
+        {text: tx('payouts.remove'), style: 'destructive', onPress: () => void remove(type)},
+      ]),
+    );
+
+  if (!accounts) {
+    return (
+      <View style={[styles.container, styles.loaderContainer, {backgroundColor: theme.background}]}>
+        <ActivityIndicator size="large" color={theme.primary} />
+      </View>
+    );
+  }
+
+  const inputStyle = [
+    styles.input,
+    {color: theme.text, borderColor: theme.border, backgroundColor: theme.background},
+  ];
+
+  const renderField = (
+    label: string,
+    value: string,
+    onChangeText: (text: string) => void,
+    field: PayoutField,
+    validation: PayoutFieldValidation,
+    props: TextInputProps = {},
+  ) => {
+    // Unknown banks warn while typing; real errors wait for the first save
+    const shown =
+      showErrors || validation.error === 'unknownBank' ? validation.error : undefined;
+    return (
+      <>
+        <Text style={[styles.label, {color: theme.textSecondary}]}>{label}</Text>
+        <TextInput
+          style={[inputStyle, shown && shown !== 'unknownBank' ? styles.inputError : null]}
+          value={value}
+          onChangeText={onChangeText}
+          placeholderTextColor={theme.textSecondary}
+          autoCorrect={false}
+          {...props}
+        />
+        {shown ? (
+          <Text
+            style={[
+              styles.fieldMessage,
+              {color: shown === 'unknownBank' ? '#FF9500' : '#FF3B30'},
+            ]}>
+            {tx(payoutFieldErrorKey(field, shown))}
+          </Text>
+        ) : null}
+      </>
+    );
+  };
+
+  const renderBankForm = () => (
+    <>
+      {renderField(
+        tx('payouts.fields.accountHolderName'),
+        bankForm.accountHolderName,
+        accountHolderName => setBankForm({...bankForm, accountHolderName}),
+        'accountHolderName',
+        bankValidation.accountHolderName,
+        {autoCapitalize: 'words'},
+      )}
+      {renderField(
+        tx('payouts.fields.accountNumber'),
+        bankForm.accountNumber,
+        accountNumber => setBankForm({...bankForm, accountNumber}),
+        'accountNumber',
+        bankValidation.accountNumber,
+        {keyboardType: 'number-pad', secureTextEntry: true, maxLength: 22},
+      )}
+      {renderField(
+        tx('payouts.fields.confirmAccountNumber'),
+        bankForm.confirmAccountNumber,
+        confirmAccountNumber => setBankForm({...bankForm, confirmAccountNumber}),
+        'accountNumber',
+        bankValidation.confirmAccountNumber,
+        {keyboardType: 'number-pad', maxLength: 22, contextMenuHidden: true},
+      )}
+      {renderField(
+        tx('payouts.fields.ifsc'),
+        bankForm.ifsc,
+        ifsc => setBankForm({...bankForm, ifsc: ifsc.toUpperCase()}),
+        'ifsc',
+        bankValidation.ifsc,
+        {autoCapitalize: 'characters', maxLength: 11, placeholder: 'SBIN0000300'},
+      )}
+      {bankName ? (
+        <View style={styles.lookupRow}>
+          <Icon name="business-outline" size={14} color={theme.primary} />
+          <Text style={[styles.hint, styles.flex, {color: theme.text}]}>
+            {branch
+              ? tx('payouts.branchLookup', {
+                  bank: bankName,
+                  branch: [branch.branch, branch.city].filter(Boolean).join(', '),
+                })
+              : bankName}
+          </Text>
+        </View>
+      ) : null}
+    </>
+  );
+
+  const renderUpiForm = () =>
+    renderField(tx('payouts.fields.vpa'), vpa, setVpa, 'vpa', vpaValidation, {
+      autoCapitalize: 'none',
+      keyboardType: 'email-address',
+      placeholder: 'name@okbank',
+    });
+
+  const renderDetails = (account: PayoutAccount) => {
+    const rows: Array<[string, string]> =
+      account.type === 'bank'
+        ? [
+            [tx('payouts.fields.accountHolderName'), account.bank?.accountHolderName || ''],
+            [tx('payouts.fields.accountNumber'), maskAccountNumber(account.bank?.accountNumber)],
+            [tx('payouts.fields.ifsc'), account.bank?.ifsc || ''],
+            [
+              tx('payouts.fields.bank'),
+              [account.bank?.bankName, account.bank?.branch].filter(Boolean).join(', ') ||
+                bankNameForIfsc(account.bank?.ifsc) ||
+                '',
+            ],
+          ]
+        : [
+            [tx('payouts.fields.vpa'), account.upi?.vpa || ''],
+            [tx('payouts.fields.registeredName'), account.upi?.holderName || ''],
+          ];
+    return rows
+      .filter(([, value]) => value)
+      .map(([label, value]) => (
+        <View key={label} style={styles.detailRow}>
+          <Text style={[styles.hint, {color: theme.textSecondary}]}>{label}</Text>
+          <Text style={[styles.detailValue, {color: theme.text}]}>{value}</Text>
+        </View>
+      ));
+  };
+
+  const renderCard = (type: PayoutAccountType) => {
+    const account = payoutAccountOf(accounts, type);
+    const isEditing = editing === type;
+    const isBusy = busy === type;
+    const status = account ? STATUS_STYLE[account.status] : null;
+
+    return (
+      <View key={type} style={[styles.card, {backgroundColor: theme.card}]}>
+        <View style={styles.cardHeader}>
+          <Icon name={TYPE_ICON[type]} size={22} color={theme.primary} />
+          <Text style={[styles.sectionTitle, styles.flex, {color: theme.text}]}>
+            {tx(`payouts.types.${type}`)}
+          </Text>
+          {account && status ? (
+            <View style={[styles.badge, {backgroundColor: status.color + '20'}]}>
+              <Icon name={status.icon} size={14} color={status.color} />
+              <Text style={[styles.badgeText, {color: status.color}]}>
+                {tx(`payouts.status.${account.status}`)}
+              </Text>
+            </View>
+          ) : null}
+        </View>
+
+        {isEditing ? (
+          <>
+            {type === 'bank' ? renderBankForm() : renderUpiForm()}
+            <Text style={[styles.hint, styles.spaced, {color: theme.textSecondary}]}>
+              {tx('payouts.reverifyHint')}
+            </Text>
+            <View style={styles.buttonRow}>
+              <TouchableOpacity
+                style={[styles.outlineButton, styles.flex, {borderColor: theme.border}]}
+                disabled={isBusy}
+                onPress={() => setEditing(null)}>
+                <Text style={[styles.outlineButtonText, {color: theme.text}]}>
+                  {tx('common.cancel')}
+                </Text>
+              </TouchableOpacity>
+              <TouchableOpacity
+                style={[styles.primaryButton, styles.flex, {backgroundColor: theme.primary}]}
+                disabled={isBusy}
+                onPress={() => void save(type)}>
+                {isBusy ? (
+                  <ActivityIndicator color="#fff" />
+                ) : (
+                  <Text style={styles.primaryButtonText}>{tx('payouts.saveAndVerify')}</Text>
+                )}
+              </TouchableOpacity>
+            </View>
+          </>
+        ) : account ? (
+          <>
+            {renderDetails(account)}
+            {account.status === 'pending' ? (
+              <Text style={[styles.hint, styles.spaced, {color: theme.textSecondary}]}>
+                {tx(`payouts.pendingHint.${type}`)}
+              </Text>
+            ) : null}
+            {account.status === 'failed' ? (
+              <Text style={[styles.fieldMessage, styles.spaced, {color: '#FF3B30'}]}>
+                {account.failureReason || tx('payouts.failedHint')}
+              </Text>
+            ) : null}
+            <View style={styles.buttonRow}>
+              {canTransition(account.status, 'pending') ? (
+                <TouchableOpacity
+                  style={[styles.outlineButton, styles.flex, {borderColor: theme.primary}]}
+                  disabled={isBusy}
+                  onPress={() => void verify(type)}>
+                  {isBusy ? (
+                    <ActivityIndicator color={theme.primary} />
+                  ) : (
+                    <Text style={[styles.outlineButtonText, {color: theme.primary}]}>
+                      {tx(account.status === 'failed' ? 'payouts.retryVerify' : 'payouts.verify')}
+                    </Text>
+                  )}
+                </TouchableOpacity>
+              ) : null}
+              <TouchableOpacity
+                style={[styles.outlineButton, styles.flex, {borderColor: theme.primary}]}
+                disabled={isBusy || account.status === 'pending'}
+                onPress={() => startEditing(type)}>
+                <Icon name="lock-closed-outline" size={14} color={theme.primary} />
+                <Text style={[styles.outlineButtonText, {color: theme.primary}]}>
+                  {tx('payouts.change')}
+                </Text>
+              </TouchableOpacity>
+              <TouchableOpacity
+                style={styles.iconButton}
+                disabled={isBusy || account.status === 'pending'}
+                onPress={() => confirmRemove(type)}>
+                <Icon name="trash-outline" size={20} color="#FF3B30" />
+              </TouchableOpacity>
+            </View>
+          </>
+        ) : (
+          <>
+            <Text style={[styles.hint, {color: theme.textSecondary}]}>
+              {tx(`payouts.emptyHint.${type}`)}
+            </Text>
+            <TouchableOpacity
+              style={[styles.outlineButton, {borderColor: theme.primary}]}
+              onPress={() => startEditing(type)}>
+              <Icon name="add" size={18} color={theme.primary} />
+              <Text style={[styles.outlineButtonText, {color: theme.primary}]}>
+                {tx(`payouts.add.${type}`)}
+              </Text>
+            </TouchableOpacity>
+          </>
+        )}
+      </View>
+    );
+  };
+
+  return (
+    <>
+      <ScrollView
+        style={[styles.container, {backgroundColor: theme.background}]}
+        contentContainerStyle={styles.content}
+        keyboardShouldPersistTaps="handled">
+        <Text style={[styles.hint, styles.intro, {color: theme.textSecondary}]}>
+          {tx('payouts.intro')}
+        </Text>
+        {PAYOUT_ACCOUNT_TYPES.map(renderCard)}
+      </ScrollView>
+      <PinReentryModal
+        visible={showPin}
+        onConfirmed={handlePinConfirmed}
+        onCancel={handlePinCancel}
+      />
+    </>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  loaderContainer: {
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  content: {
+    padding: 16,
+    paddingBottom: 32,
+  },
+  intro: {
+    marginBottom: 12,
+  },
+  card: {
+    padding: 16,
+    marginBottom: 12,
+    borderRadius: 12,
+    elevation: 2,
+    shadowColor: '#000',
+    shadowOffset: {width: 0, height: 1},
+    shadowOpacity: 0.22,
+    shadowRadius: 2.22,
+  },
+  cardHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 10,
+    marginBottom: 8,
+  },
+  sectionTitle: {
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  badge: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 4,
+    borderRadius: 12,
+    paddingHorizontal: 8,
+    paddingVertical: 3,
+  },
+  badgeText: {
+    fontSize: 12,
+    fontWeight: '600',
+  },
+  hint: {
+    fontSize: 12,
+  },
+  spaced: {
+    marginTop: 8,
+  },
+  flex: {
+    flex: 1,
+  },
+  label: {
+    fontSize: 13,
+    fontWeight: '500',
+    marginTop: 12,
+    marginBottom: 6,
+  },
+  input: {
+    borderWidth: 1,
+    borderRadius: 8,
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+    fontSize: 14,
+  },
+  inputError: {
+    borderColor: '#FF3B30',
+  },
+  fieldMessage: {
+    fontSize: 12,
+    marginTop: 4,
+  },
+  lookupRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+    marginTop: 6,
+  },
+  detailRow: {
+    paddingVertical: 6,
+  },
+  detailValue: {
+    fontSize: 14,
+    fontWeight: '500',
+    marginTop: 2,
+  },
+  buttonRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    marginTop: 16,
+  },
+  outlineButton: {
+    flexDirection: 'row',
+    justifyContent: 'center',
+    borderWidth: 1,
+    borderRadius: 8,
+    paddingVertical: 10,
+    alignItems: 'center',
+    marginTop: 8,
+    gap: 6,
+  },
+  outlineButtonText: {
+    fontSize: 14,
+    fontWeight: '600',
+  },
+  primaryButton: {
+    borderRadius: 8,
+    paddingVertical: 11,
+    alignItems: 'center',
+    marginTop: 8,
+  },
+  primaryButtonText: {
+    color: '#fff',
+    fontSize: 14,
+    fontWeight: '700',
+  },
+  iconButton: {
+    padding: 8,
+    marginTop: 8,
+  },
+});
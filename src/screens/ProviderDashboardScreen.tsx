@@ -31,12 +31,14 @@ import AlertModal from '../components/AlertModal';
 import Toast from '../components/Toast';
 import useTranslation from '../hooks/useTranslation';
 import {useIncomingBooking} from '../components/IncomingBookingContext';
+import BookingOfferStack from '../components/BookingOfferStack';
 import {
   openCall,
   openWhatsApp,
   openNavigate,
 } from '../services/contactActions';
-import {speakNavigateToCustomer} from '../services/voicePromptService';
+import {announce} from '../services/voicePromptService';
+import {onScheduledStatusChange} from '../services/availabilityService';
 
 export default function ProviderDashboardScreen({navigation}: any) {
   const {isDarkMode, currentUser} = useStore();
@@ -45,10 +47,14 @@ export default function ProviderDashboardScreen({navigation}: any) {
   const {t} = useTranslation();
   const tx = (key: string, opts?: any) => String(t(key, opts));
   const {
+    offers,
     incomingBooking,
     secondsLeft,
+    now,
+    bookingConflicts,
     acceptBooking,
     rejectBooking,
+    focusBooking,
     setPreferInlineCard,
   } = useIncomingBooking();
 
@@ -184,6 +190,17 @@ export default function ProviderDashboardScreen({navigation}: any) {
     };
   }, [incomingBooking, userId]);
 
+  // Shift start / end flipped the status (auto-toggle in Schedule)
+  useEffect(() => {
+    return onScheduledStatusChange(nowOnline => {
+      setIsOnline(nowOnline);
+      setToastMessage(
+        nowOnline ? tx('dashboard.shiftStartedOnline') : tx('dashboard.shiftEndedOffline'),
+      );
+      setShowToast(true);
+    });
+  }, [t]);
+
   const handleToggleOnline = async () => {
     try {
       isTogglingStatus.current = true;
@@ -213,10 +230,7 @@ export default function ProviderDashboardScreen({navigation}: any) {
     }
   };
 
-  const fee =
-    incomingBooking?.consultationFee ??
-    incomingBooking?.serviceFee ??
-    null;
+  const fee = incomingBooking?.serviceFee ?? null;
   const serviceType = incomingBooking?.serviceType || 'Service';
 
   if (loading && !refreshing) {
@@ -301,7 +315,7 @@ export default function ProviderDashboardScreen({navigation}: any) {
             <Text style={[styles.newJobService, {color: theme.text}]}>
               {serviceType}
             </Text>
-            {fee != null && fee !== '' ? (
+            {fee != null ? (
               <Text style={[styles.newJobFee, {color: theme.text}]}>
                 ₹{fee}
               </Text>
@@ -311,6 +325,21 @@ export default function ProviderDashboardScreen({navigation}: any) {
                 📍 {distanceLabel}
               </Text>
             ) : null}
+            {bookingConflicts.length > 0 ? (
+              <View style={styles.conflictRow}>
+                <Icon name="warning" size={16} color="#FF9500" />
+                <Text style={styles.conflictText} numberOfLines={2}>
+                  {bookingConflicts[0].kind === 'overlap'
+                    ? tx('dashboard.conflictOverlap', {
+                        name: bookingConflicts[0].jobCard.customerName,
+                      })
+                    : tx('dashboard.conflictTravel', {
+                        name: bookingConflicts[0].jobCard.customerName,
+                        minutes: bookingConflicts[0].travelMinutes,
+                      })}
+                </Text>
+              </View>
+            ) : null}
             {incomingBooking.problem ? (
               <Text
                 style={[styles.newJobProblem, {color: theme.textSecondary}]}
@@ -322,16 +351,18 @@ export default function ProviderDashboardScreen({navigation}: any) {
             <View style={styles.newJobActions}>
               <TouchableOpacity
                 style={styles.declineBtn}
-                onPress={() => void rejectBooking()}>
+                onPress={() => void rejectBooking(incomingBooking.serviceRequestId)}>
                 <Text style={styles.declineBtnText}>
                   {tx('dashboard.decline')}
                 </Text>
               </TouchableOpacity>
               <TouchableOpacity
                 style={styles.acceptBtn}
-                onPress={() => void acceptBooking()}>
+                onPress={() => void acceptBooking(incomingBooking.serviceRequestId)}>
                 <Text style={styles.acceptBtnText}>
-                  {tx('dashboard.accept')}
+                  {bookingConflicts.length > 0
+                    ? tx('dashboard.acceptAnyway')
+                    : tx('dashboard.accept')}
                 </Text>
               </TouchableOpacity>
             </View>
@@ -340,10 +371,7 @@ export default function ProviderDashboardScreen({navigation}: any) {
               <TouchableOpacity
                 style={styles.miniAction}
                 onPress={() =>
-                  openCall(
-                    incomingBooking.customerPhone ||
-                      incomingBooking.patientPhone,
-                  ).catch(() => {})
+                  openCall(incomingBooking.customerPhone).catch(() => {})
                 }>
                 <Icon name="call" size={20} color="#34C759" />
                 <Text style={styles.miniActionText}>{tx('dashboard.call')}</Text>
@@ -351,10 +379,7 @@ export default function ProviderDashboardScreen({navigation}: any) {
               <TouchableOpacity
                 style={styles.miniAction}
                 onPress={() =>
-                  openWhatsApp(
-                    incomingBooking.customerPhone ||
-                      incomingBooking.patientPhone,
-                  ).catch(() => {})
+                  openWhatsApp(incomingBooking.customerPhone).catch(() => {})
                 }>
                 <Icon name="chat" size={20} color="#25D366" />
                 <Text style={styles.miniActionText}>
@@ -364,11 +389,9 @@ export default function ProviderDashboardScreen({navigation}: any) {
               <TouchableOpacity
                 style={styles.miniAction}
                 onPress={async () => {
-                  const addr =
-                    incomingBooking.customerAddress ||
-                    incomingBooking.patientAddress;
+                  const addr = incomingBooking.customerAddress;
                   try {
-                    await speakNavigateToCustomer();
+                    await announce('navigate_to_customer');
                     await openNavigate({
                       latitude: addr?.latitude,
                       longitude: addr?.longitude,
@@ -384,6 +407,16 @@ export default function ProviderDashboardScreen({navigation}: any) {
                 </Text>
               </TouchableOpacity>
             </View>
+
+            <BookingOfferStack
+              offers={offers.filter(
+                offer => offer.booking.serviceRequestId !== incomingBooking.serviceRequestId,
+              )}
+              now={now}
+              onSelect={focusBooking}
+              onAccept={id => void acceptBooking(id)}
+              onReject={id => void rejectBooking(id)}
+            />
           </View>
         ) : null}
 
@@ -428,6 +461,34 @@ export default function ProviderDashboardScreen({navigation}: any) {
           <Icon name="chevron-right" size={24} color={theme.textSecondary} />
         </TouchableOpacity>
 
+        <TouchableOpacity
+          style={[styles.actionButton, {backgroundColor: theme.card}]}
+          onPress={() => {
+            const parent = navigation.getParent();
+            if (parent) parent.navigate('Schedule');
+            else navigation.navigate('Schedule');
+          }}>
+          <Icon name="event-available" size={24} color="#34C759" />
+          <Text style={[styles.actionButtonText, {color: theme.text}]}>
+            {tx('dashboard.mySchedule')}
+          </Text>
+          <Icon name="chevron-right" size={24} color={theme.textSecondary} />
+        </TouchableOpacity>
+
+        <TouchableOpacity
+          style={[styles.actionButton, {backgroundColor: theme.card}]}
+          onPress={() => {
+            const parent = navigation.getParent();
+            if (parent) parent.navigate('DayRoute');
+            else navigation.navigate('DayRoute');
+          }}>
+          <Icon name="route" size={24} color="#FF9500" />
+          <Text style={[styles.actionButtonText, {color: theme.text}]}>
+            {tx('dashboard.todaysRoute')}
+          </Text>
+          <Icon name="chevron-right" size={24} color={theme.textSecondary} />
+        </TouchableOpacity>
+
         <TouchableOpacity
           style={[styles.actionButton, {backgroundColor: theme.card}]}
           onPress={() => {
@@ -501,6 +562,13 @@ const styles = StyleSheet.create({
   newJobFee: {fontSize: 28, fontWeight: '800', marginBottom: 4},
   newJobDist: {fontSize: 15, marginBottom: 6},
   newJobProblem: {fontSize: 14, marginBottom: 12},
+  conflictRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+    marginBottom: 8,
+  },
+  conflictText: {flex: 1, fontSize: 13, color: '#FF9500', fontWeight: '600'},
   newJobActions: {flexDirection: 'row', gap: 12, marginBottom: 12},
   declineBtn: {
     flex: 1,
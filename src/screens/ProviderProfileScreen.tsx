@@ -18,7 +18,11 @@ import {
 import Icon from 'react-native-vector-icons/Ionicons';
 import {Select} from 'sapvt-ltd-app-packages';
 import {useStore} from '../store';
-import {getMyProfile, updateMyProfile} from '../services/api/providersApi';
+import {
+  getMyProfile,
+  updateMyProfile,
+  ProviderServiceArea,
+} from '../services/api/providersApi';
 import {getUserId} from '../services/session';
 import {lightTheme, darkTheme, commonStyles} from '../utils/theme';
 import ProviderHelpSupportModal from '../components/ProviderHelpSupportModal';
@@ -27,10 +31,61 @@ import ProviderServiceAddressFields, {
   type ProviderServiceAddressValue,
 } from '../components/ProviderServiceAddressFields';
 import ReviewsList from '../components/ReviewsList';
+import ServiceAreaEditorModal from '../components/ServiceAreaEditorModal';
+import {
+  hasInclusionRules,
+  normalizeServiceArea,
+  saveServiceArea,
+} from '../services/serviceAreaService';
+import {normalizeGstin} from '../utils/gst';
+import {idNumberErrorKey, maskIdNumber, validateGstin} from '../utils/identity';
 import useTranslation from '../hooks/useTranslation';
+import type {DocumentStatus, ProviderDocument} from '../services/api/documentsApi';
+import {
+  daysUntilExpiry,
+  DOCUMENT_KINDS,
+  documentTimeline,
+  expiryStateOf,
+  getDocuments,
+  KycStatus,
+  kycStatusOf,
+  onDocumentsChange,
+} from '../services/kycDocumentService';
+import type {PayoutAccount, PayoutVerificationStatus} from '../services/api/payoutAccountsApi';
+import {
+  getPayoutAccounts,
+  onPayoutAccountsChange,
+  PAYOUT_ACCOUNT_TYPES,
+  payoutAccountOf,
+} from '../services/payoutAccountService';
+import {maskAccountNumber} from '../utils/bankAccounts';
 
 const DRAWER_WIDTH = Math.min(320, Dimensions.get('window').width * 0.82);
 
+/** Timeline entries shown before "see all" would be needed */
+const TIMELINE_LIMIT = 8;
+
+const DOCUMENT_STATUS_STYLE: Record<DocumentStatus, {icon: string; color: string}> = {
+  pending: {icon: 'hourglass-outline', color: '#FF9500'},
+  verified: {icon: 'checkmark-circle', color: '#34C759'},
+  rejected: {icon: 'close-circle', color: '#FF3B30'},
+};
+
+const PAYOUT_STATUS_STYLE: Record<PayoutVerificationStatus, {icon: string; color: string}> = {
+  unverified: {icon: 'help-circle-outline', color: '#8E8E93'},
+  pending: {icon: 'hourglass-outline', color: '#FF9500'},
+  verified: {icon: 'checkmark-circle', color: '#34C759'},
+  failed: {icon: 'close-circle', color: '#FF3B30'},
+};
+
+const KYC_BANNER: Record<KycStatus, {icon: string; color: string; banner: 'pending' | 'rejected' | 'approved'}> = {
+  incomplete: {icon: 'document-outline', color: '#FF9500', banner: 'pending'},
+  pending: {icon: 'hourglass-outline', color: '#FF9500', banner: 'pending'},
+  rejected: {icon: 'close-circle-outline', color: '#FF3B30', banner: 'rejected'},
+  expired: {icon: 'alert-circle-outline', color: '#FF3B30', banner: 'rejected'},
+  verified: {icon: 'checkmark-circle-outline', color: '#34C759', banner: 'approved'},
+};
+
 const SERVICE_TYPES = [
   'Carpenter',
   'Electrician',
@@ -63,6 +118,8 @@ interface ProviderProfile {
   approvalStatus?: 'pending' | 'approved' | 'rejected';
   rejectionReason?: string;
   address?: ProviderServiceAddressValue | null;
+  gstin?: string;
+  serviceArea: ProviderServiceArea;
 }
 
 function resolveServiceType(provider: any): string {
@@ -135,15 +192,20 @@ function mapProvider(provider: any): ProviderProfile {
     approvalStatus: provider.approvalStatus,
     rejectionReason: provider.rejectionReason,
     address: merged,
+    gstin: provider.gstin || '',
+    serviceArea: normalizeServiceArea(provider.serviceArea),
   };
 }
 
 export default function ProviderProfileScreen({navigation}: any) {
   const [profile, setProfile] = useState<ProviderProfile | null>(null);
+  const [documents, setDocuments] = useState<ProviderDocument[]>([]);
+  const [payoutAccounts, setPayoutAccounts] = useState<PayoutAccount[]>([]);
   const [loading, setLoading] = useState(true);
   const [imageError, setImageError] = useState(false);
   const [showHelpModal, setShowHelpModal] = useState(false);
   const [showLogoutModal, setShowLogoutModal] = useState(false);
+  const [showServiceAreaModal, setShowServiceAreaModal] = useState(false);
   const [showSidebar, setShowSidebar] = useState(false);
   const [sidebarX] = useState(() => new Animated.Value(DRAWER_WIDTH));
 
@@ -152,6 +214,7 @@ export default function ProviderProfileScreen({navigation}: any) {
   const [editName, setEditName] = useState('');
   const [editServiceType, setEditServiceType] = useState('');
   const [editExperience, setEditExperience] = useState('');
+  const [editGstin, setEditGstin] = useState('');
   const [editAddress, setEditAddress] = useState<ProviderServiceAddressValue>({
     type: 'home',
     address: '',
@@ -174,6 +237,7 @@ export default function ProviderProfileScreen({navigation}: any) {
     setEditName(data.name || '');
     setEditServiceType(data.serviceType || '');
     setEditExperience(String(data.experience ?? 0));
+    setEditGstin(data.gstin || '');
     setEditAddress(
       normalizeAddress(data.address) || {
         type: 'home',
@@ -196,6 +260,7 @@ export default function ProviderProfileScreen({navigation}: any) {
       setEditName(profile.name || '');
       setEditServiceType(profile.serviceType || '');
       setEditExperience(String(profile.experience ?? 0));
+      setEditGstin(profile.gstin || '');
       setEditAddress(
         normalizeAddress(profile.address) || {
           type: 'home',
@@ -220,7 +285,11 @@ export default function ProviderProfileScreen({navigation}: any) {
 
     try {
       setLoading(true);
-      const provider = await getMyProfile();
+      const [provider, kycDocuments] = await Promise.all([
+        getMyProfile(),
+        getDocuments(true),
+      ]);
+      setDocuments(kycDocuments);
       if (provider) {
         const mapped = mapProvider(provider);
         setProfile(mapped);
@@ -256,6 +325,15 @@ export default function ProviderProfileScreen({navigation}: any) {
     void loadProviderProfile();
   }, [loadProviderProfile]);
 
+  // Document reviews pushed while the profile is open
+  useEffect(() => onDocumentsChange(setDocuments), []);
+
+  // Verification results arrive while a payout account is pending
+  useEffect(() => {
+    void getPayoutAccounts().then(setPayoutAccounts);
+    return onPayoutAccountsChange(setPayoutAccounts);
+  }, []);
+
   useFocusEffect(
     useCallback(() => {
       if (!isEditing) {
@@ -311,6 +389,15 @@ export default function ProviderProfileScreen({navigation}: any) {
       );
       return;
     }
+    const gstin = normalizeGstin(editGstin);
+    const gstinError = gstin ? validateGstin(gstin).error : undefined;
+    if (gstinError) {
+      Alert.alert(
+        String(t('common.error') || 'Error'),
+        String(t(idNumberErrorKey('gstin', gstinError))),
+      );
+      return;
+    }
 
     setSaving(true);
     try {
@@ -334,6 +421,7 @@ export default function ProviderProfileScreen({navigation}: any) {
         specialty: editServiceType.trim(),
         serviceType: editServiceType.trim(),
         experience: experienceNum,
+        gstin,
         address: addressPayload,
         location: {
           address: addressPayload.address,
@@ -375,6 +463,43 @@ export default function ProviderProfileScreen({navigation}: any) {
     }
   };
 
+  /** Errors propagate so the editor can show them inline */
+  const handleSaveServiceArea = async (area: ProviderServiceArea) => {
+    const saved = await saveServiceArea(area);
+    setProfile(prev => (prev ? {...prev, serviceArea: saved} : prev));
+    setShowServiceAreaModal(false);
+    Alert.alert(
+      String(t('common.success') || 'Success'),
+      String(t('profile.serviceArea.saved')),
+    );
+  };
+
+  const describeServiceArea = (area: ProviderServiceArea): string[] => {
+    if (!hasInclusionRules(area) && area.exclusions.length === 0) {
+      return [String(t('profile.serviceArea.unrestricted'))];
+    }
+    const lines: string[] = [];
+    if (area.maxRadiusKm) {
+      lines.push(String(t('profile.serviceArea.radiusSummary', {radius: area.maxRadiusKm})));
+    }
+    if (area.pincodes.length > 0) {
+      lines.push(String(t('profile.serviceArea.pincodesSummary', {count: area.pincodes.length})));
+    }
+    if (area.districtIds.length > 0) {
+      lines.push(String(t('profile.serviceArea.districtsSummary', {count: area.districtIds.length})));
+    }
+    if (area.boundary) {
+      lines.push(String(t('profile.serviceArea.boundarySummary')));
+    }
+    if (area.exclusions.length > 0) {
+      lines.push(String(t('profile.serviceArea.exclusionsSummary', {count: area.exclusions.length})));
+    }
+    if (area.hideOutOfArea) {
+      lines.push(String(t('profile.serviceArea.hidingOutOfArea')));
+    }
+    return lines;
+  };
+
   const handleConfirmLogout = async () => {
     setShowLogoutModal(false);
     try {
@@ -462,6 +587,9 @@ export default function ProviderProfileScreen({navigation}: any) {
     profile?.specialty ||
     String(t('profile.notSpecified'));
 
+  const kycStatus = kycStatusOf(documents);
+  const timeline = documentTimeline(documents).slice(0, TIMELINE_LIMIT);
+
   const renderAvatar = (name: string, imageUrlRaw?: string) => {
     const imageUrl = (imageUrlRaw || '').trim();
     const hasValidImage =
@@ -509,6 +637,14 @@ export default function ProviderProfileScreen({navigation}: any) {
         visible={showHelpModal}
         onClose={() => setShowHelpModal(false)}
       />
+      <ServiceAreaEditorModal
+        visible={showServiceAreaModal}
+        initial={profile?.serviceArea}
+        stateId={profile?.address?.stateId}
+        stateName={profile?.address?.state}
+        onSave={handleSaveServiceArea}
+        onCancel={() => setShowServiceAreaModal(false)}
+      />
       <LogoutConfirmationModal
         visible={showLogoutModal}
         onConfirm={handleConfirmLogout}
@@ -559,28 +695,22 @@ export default function ProviderProfileScreen({navigation}: any) {
             </View>
           ) : null}
 
-          {profile?.approvalStatus === 'pending' ? (
-            <View style={[styles.statusBanner, styles.pendingBanner]}>
-              <Icon name="hourglass-outline" size={18} color="#FF9500" />
-              <Text style={styles.statusText}>
-                {String(t('profile.profilePending'))}
-              </Text>
-            </View>
-          ) : null}
-          {profile?.approvalStatus === 'rejected' ? (
-            <View style={[styles.statusBanner, styles.rejectedBanner]}>
-              <Icon name="close-circle-outline" size={18} color="#FF3B30" />
-              <Text style={styles.statusText}>
-                {String(t('profile.profileRejected'))}
-                {profile.rejectionReason ? `: ${profile.rejectionReason}` : ''}
-              </Text>
-            </View>
-          ) : null}
-          {profile?.approvalStatus === 'approved' ? (
-            <View style={[styles.statusBanner, styles.approvedBanner]}>
-              <Icon name="checkmark-circle-outline" size={18} color="#34C759" />
+          {profile ? (
+            <View
+              style={[
+                styles.statusBanner,
+                styles[`${KYC_BANNER[kycStatus].banner}Banner` as const],
+              ]}>
+              <Icon
+                name={KYC_BANNER[kycStatus].icon}
+                size={18}
+                color={KYC_BANNER[kycStatus].color}
+              />
               <Text style={styles.statusText}>
-                {String(t('profile.profileApproved'))}
+                {String(t(`kyc.overall.${kycStatus}`))}
+                {profile.approvalStatus === 'rejected' && profile.rejectionReason
+                  ? `: ${profile.rejectionReason}`
+                  : ''}
               </Text>
             </View>
           ) : null}
@@ -697,6 +827,28 @@ export default function ProviderProfileScreen({navigation}: any) {
                 </Text>
               )}
 
+              <Text style={[styles.fieldLabel, {color: theme.textSecondary}]}>
+                {String(t('profile.gstin'))}
+              </Text>
+              {isEditing ? (
+                <TextInput
+                  style={[
+                    styles.fieldInput,
+                    {color: theme.text, borderColor: theme.border},
+                  ]}
+                  value={editGstin}
+                  onChangeText={text => setEditGstin(text.toUpperCase())}
+                  autoCapitalize="characters"
+                  maxLength={15}
+                  placeholder={String(t('profile.gstinPlaceholder'))}
+                  placeholderTextColor={theme.textSecondary}
+                />
+              ) : (
+                <Text style={[styles.fieldValue, {color: theme.text}]}>
+                  {maskIdNumber(profile.gstin) || String(t('profile.gstinNotRegistered'))}
+                </Text>
+              )}
+
               <Text style={[styles.fieldLabel, {color: theme.textSecondary}]}>
                 {String(t('profile.primaryPhone'))}
               </Text>
@@ -866,6 +1018,186 @@ export default function ProviderProfileScreen({navigation}: any) {
           </View>
         )}
 
+        {profile ? (
+          <View style={styles.section}>
+            <View style={styles.sectionHeaderRow}>
+              <Text
+                style={[
+                  styles.sectionTitleInline,
+                  {color: theme.textSecondary},
+                ]}>
+                {String(t('profile.serviceArea.title')).toUpperCase()}
+              </Text>
+              <TouchableOpacity
+                onPress={() => setShowServiceAreaModal(true)}
+                style={styles.editBtn}>
+                <Icon name="create-outline" size={22} color={theme.primary} />
+              </TouchableOpacity>
+            </View>
+            <View style={[styles.infoCard, {backgroundColor: theme.card}]}>
+              {describeServiceArea(profile.serviceArea).map(line => (
+                <View key={line} style={styles.serviceAreaRow}>
+                  <Icon name="map-outline" size={16} color={theme.primary} />
+                  <Text style={[styles.fieldValue, styles.serviceAreaText, {color: theme.text}]}>
+                    {line}
+                  </Text>
+                </View>
+              ))}
+            </View>
+          </View>
+        ) : null}
+
+        {profile ? (
+          <View style={styles.section}>
+            <View style={styles.sectionHeaderRow}>
+              <Text
+                style={[
+                  styles.sectionTitleInline,
+                  {color: theme.textSecondary},
+                ]}>
+                {String(t('kyc.verification')).toUpperCase()}
+              </Text>
+              <TouchableOpacity
+                onPress={() => navigation.navigate('ProviderProfileSetup')}
+                style={styles.editBtn}>
+                <Icon name="create-outline" size={22} color={theme.primary} />
+              </TouchableOpacity>
+            </View>
+            <View style={[styles.infoCard, {backgroundColor: theme.card}]}>
+              {DOCUMENT_KINDS.map(kind => {
+                const document = documents.find(item => item.kind === kind);
+                const statusStyle = document
+                  ? DOCUMENT_STATUS_STYLE[document.status]
+                  : {icon: 'ellipse-outline', color: theme.textSecondary};
+                const expiry = document ? expiryStateOf(document) : 'valid';
+                return (
+                  <View key={kind} style={styles.documentRow}>
+                    <Icon name={statusStyle.icon} size={18} color={statusStyle.color} />
+                    <View style={styles.documentRowText}>
+                      <Text style={[styles.fieldValue, {color: theme.text}]}>
+                        {String(t(`kyc.kinds.${kind}`))}
+                      </Text>
+                      <Text style={[styles.documentMeta, {color: theme.textSecondary}]}>
+                        {document
+                          ? String(t(`kyc.status.${document.status}`))
+                          : String(t('kyc.notUploaded'))}
+                        {document && expiry === 'expired'
+                          ? ` · ${String(t('kyc.expired'))}`
+                          : ''}
+                        {document && expiry === 'expiring'
+                          ? ` · ${String(
+                              t('kyc.expiresInDays', {count: daysUntilExpiry(document) ?? 0}),
+                            )}`
+                          : ''}
+                      </Text>
+                    </View>
+                  </View>
+                );
+              })}
+
+              <Text style={[styles.fieldLabel, {color: theme.textSecondary}]}>
+                {String(t('kyc.timelineTitle'))}
+              </Text>
+              {timeline.length === 0 ? (
+                <Text style={[styles.documentMeta, {color: theme.textSecondary}]}>
+                  {String(t('kyc.noHistory'))}
+                </Text>
+              ) : (
+                timeline.map((entry, index) => (
+                  <View key={`${entry.kind}-${entry.at}-${index}`} style={styles.timelineRow}>
+                    <View style={styles.timelineRail}>
+                      <View
+                        style={[
+                          styles.timelineDot,
+                          {backgroundColor: DOCUMENT_STATUS_STYLE[entry.status].color},
+                        ]}
+                      />
+                      {index < timeline.length - 1 ? (
+                        <View style={[styles.timelineLine, {backgroundColor: theme.border}]} />
+                      ) : null}
+                    </View>
+                    <View style={styles.timelineBody}>
+                      <Text style={[styles.timelineTitle, {color: theme.text}]}>
+                        {String(
+                          t(`kyc.timeline.${entry.by === 'provider' ? 'submitted' : entry.status}`, {
+                            name: String(t(`kyc.kinds.${entry.kind}`)),
+                          }),
+                        )}
+                      </Text>
+                      <Text style={[styles.documentMeta, {color: theme.textSecondary}]}>
+                        {new Date(entry.at).toLocaleDateString(language === 'hi' ? 'hi-IN' : 'en-IN', {
+                          day: 'numeric',
+                          month: 'short',
+                          year: 'numeric',
+                        })}
+                      </Text>
+                      {entry.reason ? (
+                        <Text style={[styles.documentMeta, {color: theme.text}]}>
+                          {entry.reason}
+                        </Text>
+                      ) : null}
+                    </View>
+                  </View>
+                ))
+              )}
+            </View>
+          </View>
+        ) : null}
+
+        {profile ? (
+          <View style={styles.section}>
+            <View style={styles.sectionHeaderRow}>
+              <Text
+                style={[
+                  styles.sectionTitleInline,
+                  {color: theme.textSecondary},
+                ]}>
+                {String(t('payouts.sectionTitle')).toUpperCase()}
+              </Text>
+              <TouchableOpacity
+                onPress={() => navigation.navigate('PayoutAccounts')}
+                style={styles.editBtn}>
+                <Icon name="create-outline" size={22} color={theme.primary} />
+              </TouchableOpacity>
+            </View>
+            <View style={[styles.infoCard, {backgroundColor: theme.card}]}>
+              {PAYOUT_ACCOUNT_TYPES.map(type => {
+                const account = payoutAccountOf(payoutAccounts, type);
+                const statusStyle = account
+                  ? PAYOUT_STATUS_STYLE[account.status]
+                  : {icon: 'ellipse-outline', color: theme.textSecondary};
+                const detail =
+                  account?.type === 'bank'
+                    ? [account.bank?.bankName, maskAccountNumber(account.bank?.accountNumber)]
+                        .filter(Boolean)
+                        .join(' · ')
+                    : account?.upi?.vpa;
+                return (
+                  <TouchableOpacity
+                    key={type}
+                    style={styles.documentRow}
+                    onPress={() => navigation.navigate('PayoutAccounts')}>
+                    <Icon name={statusStyle.icon} size={18} color={statusStyle.color} />
+                    <View style={styles.documentRowText}>
+                      <Text style={[styles.fieldValue, {color: theme.text}]}>
+                        {String(t(`payouts.types.${type}`))}
+                      </Text>
+                      <Text style={[styles.documentMeta, {color: theme.textSecondary}]}>
+                        {account
+                          ? `${detail ? `${detail} · ` : ''}${String(
+                              t(`payouts.status.${account.status}`),
+                            )}`
+                          : String(t('payouts.notAdded'))}
+                      </Text>
+                    </View>
+                    <Icon name="chevron-forward" size={18} color={theme.textSecondary} />
+                  </TouchableOpacity>
+                );
+              })}
+            </View>
+          </View>
+        ) : null}
+
         {profile && userId ? (
           <View style={styles.section}>
             <Text style={[styles.sectionTitle, {color: theme.textSecondary}]}>
@@ -1133,6 +1465,20 @@ const styles = StyleSheet.create({
   lockedRow: {flexDirection: 'row', alignItems: 'center', gap: 8},
   verifiedHint: {fontSize: 12, marginTop: 2, color: '#2F855A'},
   emptyLead: {fontSize: 14, lineHeight: 20, marginBottom: 16},
+  documentRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 10,
+    paddingVertical: 6,
+  },
+  documentRowText: {flex: 1},
+  documentMeta: {fontSize: 12, lineHeight: 18},
+  timelineRow: {flexDirection: 'row', gap: 10},
+  timelineRail: {alignItems: 'center', width: 12},
+  timelineDot: {width: 10, height: 10, borderRadius: 5, marginTop: 5},
+  timelineLine: {flex: 1, width: 2, marginTop: 2},
+  timelineBody: {flex: 1, paddingBottom: 12},
+  timelineTitle: {fontSize: 14, fontWeight: '500'},
   primaryBtn: {
     flexDirection: 'row',
     alignItems: 'center',
@@ -1143,6 +1489,8 @@ const styles = StyleSheet.create({
   },
   primaryBtnText: {color: '#fff', fontSize: 15, fontWeight: '600'},
   chipRow: {flexDirection: 'row', flexWrap: 'wrap', gap: 8, marginTop: 4},
+  serviceAreaRow: {flexDirection: 'row', alignItems: 'center', gap: 8, marginVertical: 4},
+  serviceAreaText: {flex: 1},
   chip: {
     paddingHorizontal: 12,
     paddingVertical: 6,
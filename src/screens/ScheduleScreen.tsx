@@ -0,0 +1,469 @@
+/**
+ * Schedule Screen
+ * Provider app - Weekly working hours, blackout dates and a calendar of
+ * accepted jobs (by scheduled time)
+ */
+
+import React, {useState, useEffect, useCallback, useMemo} from 'react';
+import {
+  View,
+  Text,
+  ScrollView,
+  TouchableOpacity,
+  StyleSheet,
+  ActivityIndicator,
+  Switch,
+  TextInput,
+  Alert,
+} from 'react-native';
+import {Calendar, DateData} from 'react-native-calendars';
+import type {MarkedDates} from 'react-native-calendars/src/types';
+import Icon from 'react-native-vector-icons/MaterialIcons';
+import {useStore} from '../store';
+import {lightTheme, darkTheme} from '../utils/theme';
+import {getUserId} from '../services/session';
+import {getProviderJobCards, JobCard} from '../services/jobCardService';
+import type {ProviderAvailability} from '../services/api/providersApi';
+import {
+  loadAvailability,
+  saveAvailability,
+  validateAvailability,
+  isOnShift,
+  toDateKey,
+  DEFAULT_AVAILABILITY,
+} from '../services/availabilityService';
+import WeeklyHoursEditor from '../components/WeeklyHoursEditor';
+import Toast from '../components/Toast';
+import {getApiErrorMessage} from '../utils/apiErrorMessages';
+import useTranslation from '../hooks/useTranslation';
+
+const JOB_DOT = {key: 'job', color: '#007AFF'};
+const BLACKOUT_COLOR = '#FF3B30';
+
+export default function ScheduleScreen({navigation}: any) {
+  const {t} = useTranslation();
+  const tx = (key: string, opts?: any) => String(t(key, opts));
+  const {isDarkMode, currentUser} = useStore();
+  const theme = isDarkMode ? darkTheme : lightTheme;
+  const userId = getUserId(currentUser);
+
+  const [availability, setAvailability] = useState<ProviderAvailability>(DEFAULT_AVAILABILITY);
+  const [jobCards, setJobCards] = useState<JobCard[]>([]);
+  const [selectedDate, setSelectedDate] = useState(toDateKey(new Date()));
+  const [blackoutReason, setBlackoutReason] = useState('');
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [dirty, setDirty] = useState(false);
+  const [showToast, setShowToast] = useState(false);
+
+  const loadSchedule = useCallback(async () => {
+    if (!userId) return;
+    try {
+      const [schedule, jobs] = await Promise.all([
+        loadAvailability(),
+        getProviderJobCards(userId).catch(() => [] as JobCard[]),
+      ]);
+      setAvailability(schedule);
+      setJobCards(
+        jobs.filter(
+          job =>
+            job.scheduledTime &&
+            (job.status === 'accepted' || job.status === 'in-progress'),
+        ),
+      );
+    } catch (error) {
+      console.error('Error loading schedule:', error);
+    } finally {
+      setLoading(false);
+    }
+  }, [userId]);
+
+  useEffect(() => {
+    loadSchedule();
+  }, [loadSchedule]);
+
+  const update = (patch: Partial<ProviderAvailability>) => {
+    setAvailability(prev => ({...prev, ...patch}));
+    setDirty(true);
+  };
+
+  const jobsByDate = useMemo(() => {
+    const map: Record<string, JobCard[]> = {};
+    jobCards.forEach(job => {
+      const key = toDateKey(new Date(job.scheduledTime as Date | string));
+      (map[key] = map[key] || []).push(job);
+    });
+    Object.values(map).forEach(list =>
+      list.sort(
+        (a, b) =>
+          new Date(a.scheduledTime as Date | string).getTime() -
+          new Date(b.scheduledTime as Date | string).getTime(),
+      ),
+    );
+    return map;
+  }, [jobCards]);
+
+  const markedDates = useMemo(() => {
+    const marks: MarkedDates = {};
+    Object.keys(jobsByDate).forEach(date => {
+      marks[date] = {dots: [JOB_DOT]};
+    });
+    availability.blackouts.forEach(b => {
+      marks[b.date] = {
+        ...(marks[b.date] || {}),
+        dots: [...(marks[b.date]?.dots || []), {key: 'blackout', color: BLACKOUT_COLOR}],
+        textColor: BLACKOUT_COLOR,
+      };
+    });
+    marks[selectedDate] = {
+      ...(marks[selectedDate] || {}),
+      selected: true,
+      selectedColor: theme.primary,
+    };
+    return marks;
+  }, [jobsByDate, availability.blackouts, selectedDate, theme.primary]);
+
+  const selectedBlackout = availability.blackouts.find(b => b.date === selectedDate);
+  const selectedJobs = jobsByDate[selectedDate] || [];
+
+  const toggleBlackout = () => {
+    if (selectedBlackout) {
+      update({blackouts: availability.blackouts.filter(b => b.date !== selectedDate)});
+      return;
+    }
+    if (selectedJobs.length > 0) {
+      Alert.alert(tx('common.warning'), tx('schedule.blackoutHasJobs', {count: selectedJobs.length}));
+    }
+    update({
+      blackouts: [
+        ...availability.blackouts,
+        {date: selectedDate, reason: blackoutReason.trim() || undefined},
+      ],
+    });
+    setBlackoutReason('');
+  };
+
+  const handleSave = async () => {
+    const invalid = validateAvailability(availability);
+    if (invalid) {
+      Alert.alert(tx('common.error'), tx(invalid));
+      return;
+    }
+    setSaving(true);
+    try {
+      const saved = await saveAvailability(availability);
+      setAvailability(saved);
+      setDirty(false);
+      setShowToast(true);
+    } catch (error) {
+      // Kept on the device — the auto-toggle already follows the new schedule
+      Alert.alert(tx('common.error'), getApiErrorMessage(error, tx('schedule.saveFailed')));
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const formatJobTime = (value?: Date | string) =>
+    value
+      ? new Date(value).toLocaleTimeString('en-IN', {hour: '2-digit', minute: '2-digit'})
+      : '';
+
+  if (loading) {
+    return (
+      <View style={[styles.container, styles.loaderContainer, {backgroundColor: theme.background}]}>
+        <ActivityIndicator size="large" color={theme.primary} />
+      </View>
+    );
+  }
+
+  const onShiftNow = isOnShift(availability);
+
+  return (
+    <View style={[styles.container, {backgroundColor: theme.background}]}>
+      <Toast
+        visible={showToast}
+        message={tx('schedule.saved')}
+        type="success"
+        duration={2500}
+        onHide={() => setShowToast(false)}
+      />
+      <ScrollView contentContainerStyle={styles.content}>
+        <View style={[styles.card, {backgroundColor: theme.card}]}>
+          <View style={styles.switchRow}>
+            <View style={styles.switchText}>
+              <Text style={[styles.sectionTitle, {color: theme.text}]}>
+                {tx('schedule.autoToggle')}
+              </Text>
+              <Text style={[styles.hint, {color: theme.textSecondary}]}>
+                {tx('schedule.autoToggleHint')}
+              </Text>
+            </View>
+            <Switch
+              value={availability.autoToggle}
+              onValueChange={autoToggle => update({autoToggle})}
+            />
+          </View>
+          <View style={styles.shiftStatus}>
+            <Icon
+              name={onShiftNow ? 'schedule' : 'event-busy'}
+              size={16}
+              color={onShiftNow ? '#34C759' : theme.textSecondary}
+            />
+            <Text style={[styles.hint, {color: onShiftNow ? '#34C759' : theme.textSecondary}]}>
+              {onShiftNow ? tx('schedule.onShiftNow') : tx('schedule.offShiftNow')}
+            </Text>
+          </View>
+        </View>
+
+        <View style={[styles.card, {backgroundColor: theme.card}]}>
+          <Text style={[styles.sectionTitle, {color: theme.text}]}>
+            {tx('schedule.workingHours')}
+          </Text>
+          <WeeklyHoursEditor
+            weeklyHours={availability.weeklyHours}
+            theme={theme}
+            onChange={weeklyHours => update({weeklyHours})}
+          />
+        </View>
+
+        <View style={[styles.card, {backgroundColor: theme.card}]}>
+          <Text style={[styles.sectionTitle, {color: theme.text}]}>
+            {tx('schedule.calendar')}
+          </Text>
+          <Calendar
+            current={selectedDate}
+            markingType="multi-dot"
+            markedDates={markedDates}
+            onDayPress={(day: DateData) => setSelectedDate(day.dateString)}
+            firstDay={1}
+            theme={{
+              calendarBackground: theme.card,
+              dayTextColor: theme.text,
+              monthTextColor: theme.text,
+              textSectionTitleColor: theme.textSecondary,
+              textDisabledColor: theme.border,
+              todayTextColor: theme.primary,
+              arrowColor: theme.primary,
+            }}
+          />
+          <View style={styles.legendRow}>
+            <View style={[styles.legendDot, {backgroundColor: JOB_DOT.color}]} />
+            <Text style={[styles.hint, {color: theme.textSecondary}]}>
+              {tx('schedule.legendJobs')}
+            </Text>
+            <View style={[styles.legendDot, {backgroundColor: BLACKOUT_COLOR}]} />
+            <Text style={[styles.hint, {color: theme.textSecondary}]}>
+              {tx('schedule.legendBlackout')}
+            </Text>
+          </View>
+        </View>
+
+        <View style={[styles.card, {backgroundColor: theme.card}]}>
+          <Text style={[styles.sectionTitle, {color: theme.text}]}>
+            {new Date(`${selectedDate}T00:00:00`).toLocaleDateString('en-IN', {
+              weekday: 'long',
+              day: 'numeric',
+              month: 'long',
+            })}
+          </Text>
+
+          {selectedJobs.length === 0 ? (
+            <Text style={[styles.hint, {color: theme.textSecondary}]}>
+              {tx('schedule.noJobsOnDay')}
+            </Text>
+          ) : (
+            selectedJobs.map(job => (
+              <TouchableOpacity
+                key={job.id}
+                style={[styles.jobRow, {borderBottomColor: theme.border}]}
+                onPress={() => navigation.navigate('JobDetails', {jobCardId: job.id})}>
+                <Text style={[styles.jobTime, {color: theme.primary}]}>
+                  {formatJobTime(job.scheduledTime)}
+                </Text>
+                <View style={styles.jobInfo}>
+                  <Text style={[styles.jobCustomer, {color: theme.text}]}>{job.customerName}</Text>
+                  <Text style={[styles.hint, {color: theme.textSecondary}]}>{job.serviceType}</Text>
+                </View>
+                <Icon name="chevron-right" size={22} color={theme.textSecondary} />
+              </TouchableOpacity>
+            ))
+          )}
+
+          {selectedJobs.some(job => job.status === 'accepted') && (
+            <TouchableOpacity
+              style={[styles.outlineButton, styles.routeButton, {borderColor: theme.primary}]}
+              onPress={() => navigation.navigate('DayRoute', {date: selectedDate})}>
+              <Icon name="route" size={18} color={theme.primary} />
+              <Text style={[styles.outlineButtonText, {color: theme.primary}]}>
+                {tx('schedule.route.plan')}
+              </Text>
+            </TouchableOpacity>
+          )}
+
+          {selectedBlackout ? (
+            <Text style={[styles.blackoutNote, {color: BLACKOUT_COLOR}]}>
+              {selectedBlackout.reason
+                ? tx('schedule.blackoutWithReason', {reason: selectedBlackout.reason})
+                : tx('schedule.blackoutDay')}
+            </Text>
+          ) : (
+            <TextInput
+              style={[styles.input, {color: theme.text, borderColor: theme.border}]}
+              placeholder={tx('schedule.blackoutReasonPlaceholder')}
+              placeholderTextColor={theme.textSecondary}
+              value={blackoutReason}
+              onChangeText={setBlackoutReason}
+            />
+          )}
+          <TouchableOpacity
+            style={[
+              styles.outlineButton,
+              {borderColor: selectedBlackout ? theme.primary : BLACKOUT_COLOR},
+            ]}
+            onPress={toggleBlackout}>
+            <Text
+              style={[
+                styles.outlineButtonText,
+                {color: selectedBlackout ? theme.primary : BLACKOUT_COLOR},
+              ]}>
+              {selectedBlackout ? tx('schedule.removeBlackout') : tx('schedule.addBlackout')}
+            </Text>
+          </TouchableOpacity>
+        </View>
+      </ScrollView>
+
+      <TouchableOpacity
+        style={[
+          styles.saveButton,
+          {backgroundColor: theme.primary, opacity: dirty && !saving ? 1 : 0.5},
+        ]}
+        disabled={!dirty || saving}
+        onPress={handleSave}>
+        {saving ? (
+          <ActivityIndicator size="small" color="#fff" />
+        ) : (
+          <Text style={styles.saveButtonText}>{tx('schedule.save')}</Text>
+        )}
+      </TouchableOpacity>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  loaderContainer: {
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  content: {
+    padding: 16,
+    paddingBottom: 96,
+  },
+  card: {
+    padding: 16,
+    marginBottom: 12,
+    borderRadius: 12,
+    elevation: 2,
+    shadowColor: '#000',
+    shadowOffset: {width: 0, height: 1},
+    shadowOpacity: 0.22,
+    shadowRadius: 2.22,
+  },
+  sectionTitle: {
+    fontSize: 16,
+    fontWeight: '600',
+    marginBottom: 8,
+  },
+  hint: {
+    fontSize: 12,
+  },
+  switchRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  switchText: {
+    flex: 1,
+    marginRight: 12,
+  },
+  shiftStatus: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+    marginTop: 8,
+  },
+  legendRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+    marginTop: 8,
+  },
+  legendDot: {
+    width: 8,
+    height: 8,
+    borderRadius: 4,
+    marginLeft: 6,
+  },
+  jobRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 10,
+    borderBottomWidth: StyleSheet.hairlineWidth,
+    gap: 12,
+  },
+  jobTime: {
+    width: 64,
+    fontSize: 14,
+    fontWeight: '600',
+  },
+  jobInfo: {
+    flex: 1,
+  },
+  jobCustomer: {
+    fontSize: 14,
+    fontWeight: '600',
+  },
+  blackoutNote: {
+    fontSize: 14,
+    marginTop: 12,
+  },
+  input: {
+    borderWidth: 1,
+    borderRadius: 8,
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+    marginTop: 12,
+    fontSize: 14,
+  },
+  outlineButton: {
+    borderWidth: 1,
+    borderRadius: 8,
+    paddingVertical: 10,
+    alignItems: 'center',
+    marginTop: 12,
+  },
+  routeButton: {
+    flexDirection: 'row',
+    justifyContent: 'center',
+    gap: 6,
+  },
+  outlineButtonText: {
+    fontSize: 14,
+    fontWeight: '600',
+  },
+  saveButton: {
+    position: 'absolute',
+    left: 16,
+    right: 16,
+    bottom: 16,
+    paddingVertical: 14,
+    borderRadius: 8,
+    alignItems: 'center',
+  },
+  saveButtonText: {
+    color: '#fff',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+});
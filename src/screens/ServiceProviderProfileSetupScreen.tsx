@@ -21,6 +21,23 @@ import ProviderAddressInput from '../components/ProviderAddressInput';
 import AlertModal from '../components/AlertModal';
 import ConfirmationModal from '../components/ConfirmationModal';
 import useTranslation from '../hooks/useTranslation';
+import KycDocumentCard, {DocumentDraft} from '../components/KycDocumentCard';
+import type {ProviderDocument, ProviderDocumentKind} from '../services/api/documentsApi';
+import {
+  canReplaceDocument,
+  DOCUMENT_KINDS,
+  DOCUMENT_TYPES,
+  EXPIRING_TYPES,
+  getDocuments,
+  ID_NUMBER_KINDS,
+  onDocumentsChange,
+  parseDocumentDate,
+  submitKycDocument,
+  uploadDocumentFile,
+  validateDocumentNumber,
+  withdrawKycDocument,
+} from '../services/kycDocumentService';
+import {idNumberErrorKey} from '../utils/identity';
 // Service Provider Types (replacing doctor specialties)
 const SERVICE_TYPES = [
   'Carpenter',
@@ -60,11 +77,10 @@ export default function ServiceProviderProfileSetupScreen({navigation}: any) {
   const [checking, setChecking] = useState(true);
   const [existingProfile, setExistingProfile] = useState<any>(null);
   
-  // Document upload states
-  const [idProof, setIdProof] = useState<string | null>(null);
-  const [addressProof, setAddressProof] = useState<string | null>(null);
-  const [certificate, setCertificate] = useState<string | null>(null);
-  const [uploadingDoc, setUploadingDoc] = useState<string | null>(null);
+  // KYC documents as reviewed, plus new / replacement uploads not yet submitted
+  const [documents, setDocuments] = useState<ProviderDocument[]>([]);
+  const [drafts, setDrafts] = useState<Partial<Record<ProviderDocumentKind, DocumentDraft>>>({});
+  const [uploadingDoc, setUploadingDoc] = useState<ProviderDocumentKind | null>(null);
   
   // Provider address state
   const [providerAddress, setProviderAddress] = useState<{
@@ -91,7 +107,7 @@ export default function ServiceProviderProfileSetupScreen({navigation}: any) {
   });
   const [removeDocModal, setRemoveDocModal] = useState<{
     visible: boolean;
-    docType: string | null;
+    docType: ProviderDocumentKind | null;
   }>({
     visible: false,
     docType: null,
@@ -99,6 +115,8 @@ export default function ServiceProviderProfileSetupScreen({navigation}: any) {
 
   useEffect(() => {
     checkExistingProfile();
+    // Reviews pushed while the screen is open
+    return onDocumentsChange(setDocuments);
   }, []);
 
   const checkExistingProfile = async () => {
@@ -187,11 +205,7 @@ export default function ServiceProviderProfileSetupScreen({navigation}: any) {
         const existingImage = profile.profileImage || profile.photo;
 
         // Load existing documents
-        if (profile.documents) {
-          setIdProof(profile.documents.idProof || null);
-          setAddressProof(profile.documents.addressProof || null);
-          setCertificate(profile.documents.certificate || null);
-        }
+        setDocuments(await getDocuments(true));
 
         // Load existing provider address
         if (profile.address) {
@@ -243,21 +257,19 @@ export default function ServiceProviderProfileSetupScreen({navigation}: any) {
     return await reference.getDownloadURL();
   };
 
-  const uploadDocument = async (uri: string, docType: string): Promise<string> => {
-    const extension = uri.split('.').pop()?.toLowerCase() || 'jpg';
-    const filename = `provider_documents/${docType}/${Date.now()}_${Math.random().toString(36).substring(7)}.${extension}`;
-    const reference = storage().ref(filename);
-    await reference.putFile(uri);
-    return await reference.getDownloadURL();
+  const documentOf = (kind: ProviderDocumentKind) =>
+    documents.find(document => document.kind === kind);
+
+  const updateDraft = (kind: ProviderDocumentKind, patch: Partial<DocumentDraft>) => {
+    setDrafts(current => {
+      const draft = current[kind];
+      return draft ? {...current, [kind]: {...draft, ...patch}} : current;
+    });
   };
 
-  const pickDocument = (docType: 'idProof' | 'addressProof' | 'certificate') => {
-    // Check if document is verified - prevent upload if verified (unless profile is rejected)
-    const isVerified = existingProfile?.documents?.[`${docType}Verified` as keyof typeof existingProfile.documents] as boolean;
-    const isRejected = existingProfile?.approvalStatus === 'rejected';
-    
-    // If document is verified by admin, cannot update/delete (unless profile is rejected)
-    if (isVerified && !isRejected) {
+  const pickDocument = (docType: ProviderDocumentKind) => {
+    // Verified documents are only replaced once they are about to lapse
+    if (!drafts[docType] && !canReplaceDocument(documentOf(docType))) {
       setAlertModal({
         visible: true,
         title: t('providerProfile.cannotUploadDocument'),
@@ -277,14 +289,16 @@ export default function ServiceProviderProfileSetupScreen({navigation}: any) {
           const uri = response.assets[0].uri;
           setUploadingDoc(docType);
           try {
-            const downloadURL = await uploadDocument(uri, docType);
-            if (docType === 'idProof') {
-              setIdProof(downloadURL);
-            } else if (docType === 'addressProof') {
-              setAddressProof(downloadURL);
-            } else if (docType === 'certificate') {
-              setCertificate(downloadURL);
-            }
+            const downloadURL = await uploadDocumentFile(uri, docType);
+            setDrafts(current => ({
+              ...current,
+              [docType]: {
+                // A replacement keeps the type; numbers and dates are entered afresh
+                type: documentOf(docType)?.type || DOCUMENT_TYPES[docType][0],
+                ...current[docType],
+                fileUrl: downloadURL,
+              },
+            }));
             setAlertModal({
               visible: true,
               title: t('common.success'),
@@ -325,13 +339,18 @@ export default function ServiceProviderProfileSetupScreen({navigation}: any) {
     );
   };
 
-  const removeDocument = (docType: 'idProof' | 'addressProof' | 'certificate') => {
-    // Check if document is verified - prevent deletion if verified (unless profile is rejected)
-    const isVerified = existingProfile?.documents?.[`${docType}Verified` as keyof typeof existingProfile.documents] as boolean;
-    const isRejected = existingProfile?.approvalStatus === 'rejected';
-    
-    // If document is verified by admin, cannot update/delete (unless profile is rejected)
-    if (isVerified && !isRejected) {
+  const removeDocument = (docType: ProviderDocumentKind) => {
+    // An upload not yet submitted is just discarded
+    if (drafts[docType]) {
+      setDrafts(current => {
+        const {[docType]: _discarded, ...rest} = current;
+        return rest;
+      });
+      return;
+    }
+
+    // If document is verified by admin, cannot update/delete
+    if (documentOf(docType)?.status === 'verified') {
       setAlertModal({
         visible: true,
         title: t('providerProfile.cannotRemoveDocument'),
@@ -358,17 +377,49 @@ export default function ServiceProviderProfileSetupScreen({navigation}: any) {
     });
   };
 
-  const confirmRemoveDocument = () => {
+  const confirmRemoveDocument = async () => {
     if (!removeDocModal.docType) return;
     const docType = removeDocModal.docType;
-    if (docType === 'idProof') {
-      setIdProof(null);
-    } else if (docType === 'addressProof') {
-      setAddressProof(null);
-    } else if (docType === 'certificate') {
-      setCertificate(null);
-    }
     setRemoveDocModal({visible: false, docType: null});
+    try {
+      await withdrawKycDocument(docType);
+      setDocuments(current => current.filter(document => document.kind !== docType));
+      setAlertModal({
+        visible: true,
+        title: String(t('common.success')),
+        message: String(t('providerProfile.documentRemoved')),
+        type: 'success',
+      });
+    } catch (error: any) {
+      setAlertModal({
+        visible: true,
+        title: String(t('common.error')),
+        message: error.message || String(t('kyc.removeFailed')),
+        type: 'error',
+      });
+    }
+  };
+
+  /** First problem with the pending uploads, as a message key (null when all are complete) */
+  const draftProblem = (): string | null => {
+    const today = new Date();
+    today.setHours(0, 0, 0, 0);
+    for (const kind of DOCUMENT_KINDS) {
+      const draft = drafts[kind];
+      if (!draft) continue;
+      if (!draft.fileUrl) return 'kyc.fileRequired';
+      const numberKind = ID_NUMBER_KINDS[draft.type];
+      const numberError = validateDocumentNumber(draft.type, draft.number)?.error;
+      if (numberKind && numberError) return idNumberErrorKey(numberKind, numberError);
+      const issued = parseDocumentDate(draft.issueDate);
+      const expires = parseDocumentDate(draft.expiryDate);
+      if (issued && issued > today) return 'kyc.issueInFuture';
+      if (EXPIRING_TYPES.includes(draft.type) && !expires) return 'kyc.expiryRequired';
+      if (expires && (expires <= today || (issued && expires <= issued))) {
+        return 'kyc.expiryInPast';
+      }
+    }
+    return null;
   };
 
   // Note: Availability slots generation moved to backend API
@@ -468,6 +519,17 @@ export default function ServiceProviderProfileSetupScreen({navigation}: any) {
       return;
     }
 
+    const problem = draftProblem();
+    if (problem) {
+      setAlertModal({
+        visible: true,
+        title: String(t('common.error')),
+        message: String(t(problem)),
+        type: 'error',
+      });
+      return;
+    }
+
     setLoading(true);
     try {
       const user = auth().currentUser;
@@ -503,8 +565,23 @@ export default function ServiceProviderProfileSetupScreen({navigation}: any) {
         imageUrl = profileImage;
       }
 
-      // Use user UID as document ID for consistency
-      const providerId = user.uid;
+      // New and replacement documents go back to review one by one
+      let submitted = documents;
+      for (const kind of DOCUMENT_KINDS) {
+        const draft = drafts[kind];
+        if (!draft) continue;
+        const number =
+          validateDocumentNumber(draft.type, draft.number)?.normalized || draft.number?.trim();
+        const saved = await submitKycDocument({...draft, kind, number: number || undefined});
+        submitted = [...submitted.filter(document => document.kind !== kind), saved];
+        setDrafts(current => {
+          const {[kind]: _submitted, ...rest} = current;
+          return rest;
+        });
+      }
+      setDocuments(submitted);
+      const fileUrlOf = (kind: ProviderDocumentKind) =>
+        submitted.find(document => document.kind === kind)?.fileUrl || null;
 
       const providerData: any = {
         name,
@@ -518,10 +595,11 @@ export default function ServiceProviderProfileSetupScreen({navigation}: any) {
         languages,
         profileImage: imageUrl,
         address: providerAddress,
+        // Bare URLs for tooling that predates per-document review
         documents: {
-          idProof: idProof || null,
-          addressProof: addressProof || null,
-          certificate: certificate || null,
+          idProof: fileUrlOf('idProof'),
+          addressProof: fileUrlOf('addressProof'),
+          certificate: fileUrlOf('certificate'),
         },
         rating: existingProfile?.rating || 0,
         totalConsultations: existingProfile?.totalConsultations || 0,
@@ -809,177 +887,18 @@ export default function ServiceProviderProfileSetupScreen({navigation}: any) {
           Upload documents to verify your identity and credentials
         </Text>
 
-        {/* ID Proof */}
-        <View style={styles.documentSection}>
-          <View style={styles.documentLabelRow}>
-            <Text style={styles.documentLabel}>ID Proof (Aadhaar/PAN/Driving License) *</Text>
-            {existingProfile?.documents?.idProofVerified && (
-              <View style={styles.verifiedBadge}>
-                <Icon name="verified" size={16} color="#4CAF50" />
-                <Text style={styles.verifiedBadgeText}>Verified</Text>
-              </View>
-            )}
-          </View>
-          {idProof ? (
-            <View style={styles.documentPreview}>
-              <Image source={{uri: idProof}} style={styles.documentImage} />
-              {existingProfile?.approvalStatus !== 'approved' && !existingProfile?.documents?.idProofVerified && (
-                <>
-                  <TouchableOpacity
-                    style={styles.removeDocumentButton}
-                    onPress={() => removeDocument('idProof')}>
-                    <Icon name="delete" size={20} color="#FF3B30" />
-                  </TouchableOpacity>
-                  {existingProfile?.approvalStatus === 'rejected' && (
-                    <TouchableOpacity
-                      style={styles.replaceDocumentButton}
-                      onPress={() => pickDocument('idProof')}
-                      disabled={uploadingDoc === 'idProof'}>
-                      {uploadingDoc === 'idProof' ? (
-                        <ActivityIndicator color="#007AFF" size="small" />
-                      ) : (
-                        <Icon name="cloud-upload" size={20} color="#007AFF" />
-                      )}
-                    </TouchableOpacity>
-                  )}
-                </>
-              )}
-            </View>
-          ) : (
-            <TouchableOpacity
-              style={[styles.uploadButton, uploadingDoc === 'idProof' && styles.uploadButtonDisabled]}
-              onPress={() => pickDocument('idProof')}
-              disabled={uploadingDoc === 'idProof' || (existingProfile?.documents?.idProofVerified && existingProfile?.approvalStatus !== 'rejected')}>
-              {uploadingDoc === 'idProof' ? (
-                <ActivityIndicator color="#007AFF" />
-              ) : (
-                <>
-                  <Icon name="cloud-upload" size={24} color="#007AFF" />
-                  <Text style={styles.uploadButtonText}>
-                    {existingProfile?.documents?.idProofVerified && existingProfile?.approvalStatus !== 'rejected' 
-                      ? 'Document Verified' 
-                      : 'Upload ID Proof'}
-                  </Text>
-                </>
-              )}
-            </TouchableOpacity>
-          )}
-        </View>
-
-        {/* Address Proof */}
-        <View style={styles.documentSection}>
-          <View style={styles.documentLabelRow}>
-            <Text style={styles.documentLabel}>Address Proof (Utility Bill/Rental Agreement) *</Text>
-            {existingProfile?.documents?.addressProofVerified && (
-              <View style={styles.verifiedBadge}>
-                <Icon name="verified" size={16} color="#4CAF50" />
-                <Text style={styles.verifiedBadgeText}>Verified</Text>
-              </View>
-            )}
-          </View>
-          {addressProof ? (
-            <View style={styles.documentPreview}>
-              <Image source={{uri: addressProof}} style={styles.documentImage} />
-              {existingProfile?.approvalStatus !== 'approved' && !existingProfile?.documents?.addressProofVerified && (
-                <>
-                  <TouchableOpacity
-                    style={styles.removeDocumentButton}
-                    onPress={() => removeDocument('addressProof')}>
-                    <Icon name="delete" size={20} color="#FF3B30" />
-                  </TouchableOpacity>
-                  {existingProfile?.approvalStatus === 'rejected' && (
-                    <TouchableOpacity
-                      style={styles.replaceDocumentButton}
-                      onPress={() => pickDocument('addressProof')}
-                      disabled={uploadingDoc === 'addressProof'}>
-                      {uploadingDoc === 'addressProof' ? (
-                        <ActivityIndicator color="#007AFF" size="small" />
-                      ) : (
-                        <Icon name="cloud-upload" size={20} color="#007AFF" />
-                      )}
-                    </TouchableOpacity>
-                  )}
-                </>
-              )}
-            </View>
-          ) : (
-            <TouchableOpacity
-              style={[styles.uploadButton, uploadingDoc === 'addressProof' && styles.uploadButtonDisabled]}
-              onPress={() => pickDocument('addressProof')}
-              disabled={uploadingDoc === 'addressProof' || (existingProfile?.documents?.addressProofVerified && existingProfile?.approvalStatus !== 'rejected')}>
-              {uploadingDoc === 'addressProof' ? (
-                <ActivityIndicator color="#007AFF" />
-              ) : (
-                <>
-                  <Icon name="cloud-upload" size={24} color="#007AFF" />
-                  <Text style={styles.uploadButtonText}>
-                    {existingProfile?.documents?.addressProofVerified && existingProfile?.approvalStatus !== 'rejected' 
-                      ? 'Document Verified' 
-                      : 'Upload Address Proof'}
-                  </Text>
-                </>
-              )}
-            </TouchableOpacity>
-          )}
-        </View>
-
-        {/* Certificate (Optional) */}
-        <View style={styles.documentSection}>
-          <View style={styles.documentLabelRow}>
-            <Text style={styles.documentLabel}>Professional Certificate (Optional)</Text>
-            {existingProfile?.documents?.certificateVerified && (
-              <View style={styles.verifiedBadge}>
-                <Icon name="verified" size={16} color="#4CAF50" />
-                <Text style={styles.verifiedBadgeText}>Verified</Text>
-              </View>
-            )}
-          </View>
-          <Text style={styles.optionalText}>Upload any relevant certificates or licenses</Text>
-          {certificate ? (
-            <View style={styles.documentPreview}>
-              <Image source={{uri: certificate}} style={styles.documentImage} />
-              {existingProfile?.approvalStatus !== 'approved' && !existingProfile?.documents?.certificateVerified && (
-                <>
-                  <TouchableOpacity
-                    style={styles.removeDocumentButton}
-                    onPress={() => removeDocument('certificate')}>
-                    <Icon name="delete" size={20} color="#FF3B30" />
-                  </TouchableOpacity>
-                  {existingProfile?.approvalStatus === 'rejected' && (
-                    <TouchableOpacity
-                      style={styles.replaceDocumentButton}
-                      onPress={() => pickDocument('certificate')}
-                      disabled={uploadingDoc === 'certificate'}>
-                      {uploadingDoc === 'certificate' ? (
-                        <ActivityIndicator color="#007AFF" size="small" />
-                      ) : (
-                        <Icon name="cloud-upload" size={20} color="#007AFF" />
-                      )}
-                    </TouchableOpacity>
-                  )}
-                </>
-              )}
-            </View>
-          ) : (
-            <TouchableOpacity
-              style={[styles.uploadButton, uploadingDoc === 'certificate' && styles.uploadButtonDisabled]}
-              onPress={() => pickDocument('certificate')}
-              disabled={uploadingDoc === 'certificate' || (existingProfile?.documents?.certificateVerified && existingProfile?.approvalStatus !== 'rejected')}>
-              {uploadingDoc === 'certificate' ? (
-                <ActivityIndicator color="#007AFF" />
-              ) : (
-                <>
-                  <Icon name="cloud-upload" size={24} color="#007AFF" />
-                  <Text style={styles.uploadButtonText}>
-                    {existingProfile?.documents?.certificateVerified && existingProfile?.approvalStatus !== 'rejected' 
-                      ? 'Document Verified' 
-                      : 'Upload Certificate'}
-                  </Text>
-                </>
-              )}
-            </TouchableOpacity>
-          )}
-        </View>
+        {DOCUMENT_KINDS.map(kind => (
+          <KycDocumentCard
+            key={kind}
+            kind={kind}
+            document={documents.find(document => document.kind === kind)}
+            draft={drafts[kind]}
+            uploading={uploadingDoc === kind}
+            onPickFile={() => pickDocument(kind)}
+            onChangeDraft={patch => updateDraft(kind, patch)}
+            onRemove={() => removeDocument(kind)}
+          />
+        ))}
 
         <TouchableOpacity
           style={[styles.submitButton, loading && styles.submitButtonDisabled]}
@@ -1008,7 +927,9 @@ export default function ServiceProviderProfileSetupScreen({navigation}: any) {
       <ConfirmationModal
         visible={removeDocModal.visible}
         title="Remove Document"
-        message={`Are you sure you want to remove this ${removeDocModal.docType || 'document'}?`}
+        message={`Are you sure you want to remove this ${
+          removeDocModal.docType ? t(`kyc.kinds.${removeDocModal.docType}`) : 'document'
+        }?`}
         onConfirm={confirmRemoveDocument}
         onCancel={() => setRemoveDocModal({visible: false, docType: null})}
       />
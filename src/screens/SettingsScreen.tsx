@@ -1,4 +1,4 @@
-import React, {useState} from 'react';
+import React, {useEffect, useState} from 'react';
 import {
   View,
   Text,
@@ -21,6 +21,8 @@ import LogoutConfirmationModal from '../components/LogoutConfirmationModal';
 import ConfirmationModal from '../components/ConfirmationModal';
 import AlertModal from '../components/AlertModal';
 import useTranslation from '../hooks/useTranslation';
+import {getPowerSaver, setPowerSaver} from '../services/backgroundScheduler';
+import {downloadPincodeDirectory} from '../services/geocodingService';
 
 interface SettingsScreenProps {
   navigation: any;
@@ -77,6 +79,35 @@ const SettingsScreen: React.FC<SettingsScreenProps> = ({navigation}) => {
   };
 
   const [showLogoutModal, setShowLogoutModal] = React.useState(false);
+  const [powerSaver, setPowerSaverState] = useState(false);
+
+  useEffect(() => {
+    void getPowerSaver().then(setPowerSaverState);
+  }, []);
+
+  const handlePowerSaverChange = (enabled: boolean) => {
+    setPowerSaverState(enabled);
+    void setPowerSaver(enabled);
+  };
+
+  const [downloadingPincodes, setDownloadingPincodes] = useState(false);
+
+  const handleDownloadPincodes = async () => {
+    if (downloadingPincodes) return;
+    setDownloadingPincodes(true);
+    try {
+      const count = await downloadPincodeDirectory();
+      showAlert(
+        String(t('common.success')),
+        String(t('settings.offlinePincodesDone', {count})),
+        'success',
+      );
+    } catch {
+      showAlert(String(t('common.error')), String(t('settings.offlinePincodesFailed')), 'error');
+    } finally {
+      setDownloadingPincodes(false);
+    }
+  };
 
   const handleLogout = () => {
     setShowLogoutModal(true);
@@ -313,6 +344,59 @@ const SettingsScreen: React.FC<SettingsScreenProps> = ({navigation}) => {
         />
       </View>
 
+      <View style={styles.section}>
+        <Text style={[styles.sectionTitle, {color: theme.textSecondary}]}>
+          {String(t('settings.bookings'))}
+        </Text>
+        <SettingItem
+          icon="options-outline"
+          title={String(t('bookingRules.title'))}
+          subtitle={String(t('bookingRules.settingsSubtitle'))}
+          onPress={() => navigation.navigate('BookingRules')}
+        />
+        <SettingItem
+          icon="volume-high-outline"
+          title={String(t('announcements.title'))}
+          subtitle={String(t('announcements.settingsSubtitle'))}
+          onPress={() => navigation.navigate('VoiceAnnouncements')}
+        />
+        <SettingItem
+          icon="notifications-outline"
+          title={String(t('alertProfiles.title'))}
+          subtitle={String(t('alertProfiles.settingsSubtitle'))}
+          onPress={() => navigation.navigate('AlertProfiles')}
+        />
+      </View>
+
+      <View style={styles.section}>
+        <Text style={[styles.sectionTitle, {color: theme.textSecondary}]}>
+          {String(t('settings.tracking'))}
+        </Text>
+        <SettingItem
+          icon="battery-half"
+          title={String(t('settings.powerSaver'))}
+          subtitle={String(t('settings.powerSaverSubtitle'))}
+          rightComponent={
+            <Switch
+              value={powerSaver}
+              onValueChange={handlePowerSaverChange}
+              trackColor={{false: theme.border, true: theme.primary}}
+              thumbColor="#FFFFFF"
+            />
+          }
+        />
+        <SettingItem
+          icon="cloud-download-outline"
+          title={String(t('settings.offlinePincodes'))}
+          subtitle={String(
+            downloadingPincodes
+              ? t('settings.offlinePincodesDownloading')
+              : t('settings.offlinePincodesSubtitle'),
+          )}
+          onPress={() => void handleDownloadPincodes()}
+        />
+      </View>
+
       <View style={styles.section}>
         <Text style={[styles.sectionTitle, {color: theme.textSecondary}]}>
           {t('settings.support')}
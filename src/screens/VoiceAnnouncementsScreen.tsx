@@ -0,0 +1,215 @@
+/**
+ * Voice Announcements Screen
+ * Provider app - Master switch for spoken announcements, per-event toggles
+ * and a sample in the app language
+ */
+
+import React, {useEffect, useState} from 'react';
+import {
+  View,
+  Text,
+  ScrollView,
+  TouchableOpacity,
+  StyleSheet,
+  Switch,
+  ActivityIndicator,
+} from 'react-native';
+import Icon from 'react-native-vector-icons/MaterialIcons';
+import {useStore} from '../store';
+import {lightTheme, darkTheme} from '../utils/theme';
+import useTranslation from '../hooks/useTranslation';
+import {
+  ANNOUNCEMENT_EVENTS,
+  AnnouncementEvent,
+  announce,
+  getAnnouncementPrefs,
+  hasVoiceFor,
+  isVoicePromptsEnabled,
+  setAnnouncementEnabled,
+  setVoicePromptsEnabled,
+} from '../services/voicePromptService';
+
+export default function VoiceAnnouncementsScreen() {
+  const {t} = useTranslation();
+  const tx = (key: string, opts?: any) => String(t(key, opts));
+  const {isDarkMode, language} = useStore();
+  const theme = isDarkMode ? darkTheme : lightTheme;
+
+  const [enabled, setEnabled] = useState<boolean | null>(null);
+  const [prefs, setPrefs] = useState<Record<AnnouncementEvent, boolean> | null>(null);
+  const [voiceMissing, setVoiceMissing] = useState(false);
+
+  useEffect(() => {
+    void Promise.all([isVoicePromptsEnabled(), getAnnouncementPrefs()]).then(
+      ([on, stored]) => {
+        setEnabled(on);
+        setPrefs(stored);
+      },
+    );
+  }, []);
+
+  useEffect(() => {
+    if (language === 'en') {
+      setVoiceMissing(false);
+      return;
+    }
+    void hasVoiceFor(language).then(available => setVoiceMissing(!available));
+  }, [language]);
+
+  const handleToggleAll = async (value: boolean) => {
+    setEnabled(value);
+    await setVoicePromptsEnabled(value);
+  };
+
+  const handleToggleEvent = async (event: AnnouncementEvent, value: boolean) => {
+    if (!prefs) return;
+    setPrefs({...prefs, [event]: value});
+    await setAnnouncementEnabled(event, value);
+  };
+
+  const handleSample = () => {
+    void announce('new_offer', {distanceKm: 2.5}, {preview: true});
+  };
+
+  if (enabled === null || !prefs) {
+    return (
+      <View style={[styles.container, styles.loaderContainer, {backgroundColor: theme.background}]}>
+        <ActivityIndicator size="large" color={theme.primary} />
+      </View>
+    );
+  }
+
+  return (
+    <ScrollView
+      style={[styles.container, {backgroundColor: theme.background}]}
+      contentContainerStyle={styles.content}>
+      <View style={[styles.card, {backgroundColor: theme.card}]}>
+        <View style={styles.switchRow}>
+          <Icon name="record-voice-over" size={22} color={theme.primary} />
+          <View style={styles.flex}>
+            <Text style={[styles.title, {color: theme.text}]}>
+              {tx('announcements.enabled')}
+            </Text>
+            <Text style={[styles.hint, {color: theme.textSecondary}]}>
+              {tx('announcements.enabledHint')}
+            </Text>
+          </View>
+          <Switch
+            value={enabled}
+            onValueChange={handleToggleAll}
+            trackColor={{false: theme.border, true: theme.primary}}
+            thumbColor="#FFFFFF"
+          />
+        </View>
+        {voiceMissing && (
+          <Text style={[styles.warning, {color: '#FF9500'}]}>
+            {tx('announcements.noVoice')}
+          </Text>
+        )}
+        <TouchableOpacity
+          style={[styles.outlineButton, {borderColor: theme.primary, opacity: enabled ? 1 : 0.5}]}
+          onPress={handleSample}
+          disabled={!enabled}>
+          <Icon name="play-arrow" size={18} color={theme.primary} />
+          <Text style={[styles.outlineButtonText, {color: theme.primary}]}>
+            {tx('announcements.test')}
+          </Text>
+        </TouchableOpacity>
+      </View>
+
+      <View style={[styles.card, {backgroundColor: theme.card, opacity: enabled ? 1 : 0.5}]}>
+        <Text style={[styles.sectionTitle, {color: theme.text}]}>
+          {tx('announcements.eventsTitle')}
+        </Text>
+        {ANNOUNCEMENT_EVENTS.map(event => (
+          <View key={event} style={[styles.switchRow, styles.eventRow]}>
+            <View style={styles.flex}>
+              <Text style={[styles.eventTitle, {color: theme.text}]}>
+                {tx(`announcements.events.${event}.title`)}
+              </Text>
+              <Text style={[styles.hint, {color: theme.textSecondary}]}>
+                {tx(`announcements.events.${event}.hint`)}
+              </Text>
+            </View>
+            <Switch
+              value={prefs[event]}
+              onValueChange={value => void handleToggleEvent(event, value)}
+              disabled={!enabled}
+              trackColor={{false: theme.border, true: theme.primary}}
+              thumbColor="#FFFFFF"
+            />
+          </View>
+        ))}
+      </View>
+    </ScrollView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  loaderContainer: {
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  content: {
+    padding: 16,
+    paddingBottom: 32,
+  },
+  card: {
+    padding: 16,
+    marginBottom: 12,
+    borderRadius: 12,
+    elevation: 2,
+    shadowColor: '#000',
+    shadowOffset: {width: 0, height: 1},
+    shadowOpacity: 0.22,
+    shadowRadius: 2.22,
+  },
+  sectionTitle: {
+    fontSize: 16,
+    fontWeight: '600',
+    marginBottom: 4,
+  },
+  title: {
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  hint: {
+    fontSize: 12,
+  },
+  warning: {
+    fontSize: 13,
+    marginTop: 12,
+  },
+  flex: {
+    flex: 1,
+  },
+  switchRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+  },
+  eventRow: {
+    paddingVertical: 10,
+  },
+  eventTitle: {
+    fontSize: 14,
+    fontWeight: '500',
+  },
+  outlineButton: {
+    flexDirection: 'row',
+    justifyContent: 'center',
+    borderWidth: 1,
+    borderRadius: 8,
+    paddingVertical: 10,
+    alignItems: 'center',
+    marginTop: 12,
+    gap: 6,
+  },
+  outlineButtonText: {
+    fontSize: 14,
+    fontWeight: '600',
+  },
+});
@@ -0,0 +1,222 @@
+/**
+ * Hooter alert profiles (Provider App)
+ * How an offer rings: tone, volume ramp, vibration and escalation when it
+ * goes unanswered. Immediate and scheduled requests each have a profile,
+ * and quiet hours switch to a vibrate-only one. soundService and the
+ * Android foreground service both play the profile resolved here.
+ */
+
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import {isImmediateBooking} from './bookingOfferQueue';
+import {parseTime} from './availabilityService';
+import type {NewBookingEvent} from './socketProtocol';
+
+const ALERT_PROFILES_KEY = 'hs_provider_alert_profiles';
+
+/** Bundled tones (android/app/src/main/res/raw/<tone>.wav) */
+export type AlertTone = 'hooter' | 'bell' | 'beep' | 'siren';
+export const ALERT_TONES: AlertTone[] = ['hooter', 'bell', 'beep', 'siren'];
+
+export type VibrationStyle = 'none' | 'pulse' | 'long' | 'heartbeat';
+export const VIBRATION_STYLES: VibrationStyle[] = ['pulse', 'long', 'heartbeat', 'none'];
+
+/** Off/on durations in ms, repeated while the hooter rings */
+export const VIBRATION_PATTERNS: Record<VibrationStyle, number[]> = {
+  none: [],
+  pulse: [0, 500, 200, 500],
+  long: [0, 1200, 600],
+  heartbeat: [0, 150, 100, 150, 700],
+};
+
+export type AlertProfileKind = 'immediate' | 'scheduled' | 'quiet';
+export const ALERT_PROFILE_KINDS: AlertProfileKind[] = ['immediate', 'scheduled', 'quiet'];
+
+export interface AlertEscalation {
+  enabled: boolean;
+  /** Seconds unanswered before escalating */
+  afterSec: number;
+  /** Played at full volume once escalated */
+  tone: AlertTone;
+  /** Repeat a spoken reminder while the offer waits */
+  voiceReminder: boolean;
+}
+
+export interface AlertProfile {
+  tone: AlertTone;
+  /** Vibration only */
+  silent: boolean;
+  /** 0–1 */
+  startVolume: number;
+  /** 0–1 */
+  maxVolume: number;
+  /** Seconds to go from startVolume to maxVolume (0 = straight to max) */
+  rampSec: number;
+  vibration: VibrationStyle;
+  escalation: AlertEscalation;
+}
+
+export interface QuietHours {
+  enabled: boolean;
+  /** 'HH:mm'; a window past midnight (22:00–07:00) is fine */
+  start: string;
+  end: string;
+}
+
+export interface AlertProfileSettings {
+  profiles: Record<AlertProfileKind, AlertProfile>;
+  quietHours: QuietHours;
+}
+
+/** A profile picked for one ringing, with why it was picked */
+export interface ResolvedAlertProfile extends AlertProfile {
+  kind: AlertProfileKind;
+}
+
+export const DEFAULT_ALERT_PROFILES: AlertProfileSettings = {
+  profiles: {
+    immediate: {
+      tone: 'hooter',
+      silent: false,
+      startVolume: 1,
+      maxVolume: 1,
+      rampSec: 0,
+      vibration: 'pulse',
+      escalation: {enabled: true, afterSec: 15, tone: 'siren', voiceReminder: true},
+    },
+    scheduled: {
+      tone: 'bell',
+      silent: false,
+      startVolume: 0.4,
+      maxVolume: 1,
+      rampSec: 10,
+      vibration: 'heartbeat',
+      escalation: {enabled: false, afterSec: 20, tone: 'hooter', voiceReminder: false},
+    },
+    quiet: {
+      tone: 'beep',
+      silent: true,
+      startVolume: 0.3,
+      maxVolume: 0.3,
+      rampSec: 0,
+      vibration: 'long',
+      escalation: {enabled: false, afterSec: 20, tone: 'beep', voiceReminder: false},
+    },
+  },
+  quietHours: {enabled: false, start: '22:00', end: '07:00'},
+};
+
+let cached: AlertProfileSettings | null = null;
+
+const clampVolume = (value: unknown, fallback: number) =>
+  typeof value === 'number' && Number.isFinite(value) ? Math.min(1, Math.max(0, value)) : fallback;
+
+function normalizeProfile(raw: any, fallback: AlertProfile): AlertProfile {
+  const escalation = raw?.escalation || {};
+  return {
+    tone: ALERT_TONES.includes(raw?.tone) ? raw.tone : fallback.tone,
+    silent: typeof raw?.silent === 'boolean' ? raw.silent : fallback.silent,
+    startVolume: clampVolume(raw?.startVolume, fallback.startVolume),
+    maxVolume: clampVolume(raw?.maxVolume, fallback.maxVolume),
+    rampSec: Math.max(0, Number(raw?.rampSec) || 0),
+    vibration: VIBRATION_STYLES.includes(raw?.vibration) ? raw.vibration : fallback.vibration,
+    escalation: {
+      enabled:
+        typeof escalation.enabled === 'boolean' ? escalation.enabled : fallback.escalation.enabled,
+      afterSec: Math.max(5, Number(escalation.afterSec) || fallback.escalation.afterSec),
+      tone: ALERT_TONES.includes(escalation.tone) ? escalation.tone : fallback.escalation.tone,
+      voiceReminder:
+        typeof escalation.voiceReminder === 'boolean'
+          ? escalation.voiceReminder
+          : fallback.escalation.voiceReminder,
+    },
+  };
+}
+
+export async function getAlertProfiles(): Promise<AlertProfileSettings> {
+  if (cached) return cached;
+  let stored: any = null;
+  try {
+    const raw = await AsyncStorage.getItem(ALERT_PROFILES_KEY);
+    stored = raw ? JSON.parse(raw) : null;
+  } catch {
+    stored = null;
+  }
+  const profiles = ALERT_PROFILE_KINDS.reduce(
+    (all, kind) => ({
+      ...all,
+      [kind]: normalizeProfile(stored?.profiles?.[kind], DEFAULT_ALERT_PROFILES.profiles[kind]),
+    }),
+    {} as Record<AlertProfileKind, AlertProfile>,
+  );
+  // Quiet hours never make a sound or speak, whatever was stored
+  profiles.quiet.silent = true;
+  profiles.quiet.escalation = {...profiles.quiet.escalation, enabled: false, voiceReminder: false};
+  cached = {
+    profiles,
+    quietHours: {...DEFAULT_ALERT_PROFILES.quietHours, ...(stored?.quietHours || {})},
+  };
+  return cached;
+}
+
+export async function saveAlertProfiles(settings: AlertProfileSettings): Promise<void> {
+  cached = null;
+  await AsyncStorage.setItem(ALERT_PROFILES_KEY, JSON.stringify(settings));
+}
+
+export function isWithinQuietHours(quietHours: QuietHours, now: Date = new Date()): boolean {
+  if (!quietHours.enabled) return false;
+  const start = parseTime(quietHours.start);
+  const end = parseTime(quietHours.end);
+  if (Number.isNaN(start) || Number.isNaN(end) || start === end) return false;
+  const minute = now.getHours() * 60 + now.getMinutes();
+  return start < end ? minute >= start && minute < end : minute >= start || minute < end;
+}
+
+/**
+ * The profile an offer rings with: quiet hours first, then its urgency
+ */
+export async function resolveAlertProfile(
+  booking?: NewBookingEvent | null,
+  now: Date = new Date(),
+): Promise<ResolvedAlertProfile> {
+  const {profiles, quietHours} = await getAlertProfiles();
+  const kind: AlertProfileKind = isWithinQuietHours(quietHours, now)
+    ? 'quiet'
+    : !booking || isImmediateBooking(booking, now.getTime())
+    ? 'immediate'
+    : 'scheduled';
+  return {...profiles[kind], kind};
+}
+
+/** Volume after ringing this long (linear ramp; full once escalated) */
+export function volumeAt(profile: AlertProfile, elapsedSec: number): number {
+  if (isEscalated(profile, elapsedSec)) return 1;
+  if (profile.rampSec <= 0 || profile.maxVolume <= profile.startVolume) return profile.maxVolume;
+  const progress = Math.min(1, elapsedSec / profile.rampSec);
+  return profile.startVolume + (profile.maxVolume - profile.startVolume) * progress;
+}
+
+export function isEscalated(profile: AlertProfile, elapsedSec: number): boolean {
+  return profile.escalation.enabled && elapsedSec >= profile.escalation.afterSec;
+}
+
+export function toneAt(profile: AlertProfile, elapsedSec: number): AlertTone {
+  return isEscalated(profile, elapsedSec) ? profile.escalation.tone : profile.tone;
+}
+
+/**
+ * Plain config for the native foreground service (same fields, flattened)
+ */
+export function toNativeAlertConfig(profile: ResolvedAlertProfile): Record<string, unknown> {
+  return {
+    tone: profile.tone,
+    silent: profile.silent,
+    startVolume: profile.startVolume,
+    maxVolume: profile.maxVolume,
+    rampSec: profile.rampSec,
+    vibrationPattern: VIBRATION_PATTERNS[profile.vibration],
+    escalate: profile.escalation.enabled,
+    escalateAfterSec: profile.escalation.afterSec,
+    escalationTone: profile.escalation.tone,
+  };
+}
@@ -0,0 +1,135 @@
+/**
+ * Announcement triggers (Provider App)
+ * Turns job events into voice announcements: customer cancellations and
+ * payments pushed over the socket, a heads-up before the next scheduled
+ * job, and the spoken reminder of an escalating alert profile. Offer
+ * announcements come from the incoming booking context.
+ */
+
+import {AppState, AppStateStatus} from 'react-native';
+import websocketService from './websocketService';
+import {getJobCardById, getProviderJobCards, JobCard} from './jobCardService';
+import {announce, cancelAnnouncements, stopAnnouncements} from './voicePromptService';
+
+/** Heads-up this long before a scheduled job starts */
+export const NEXT_JOB_HEADS_UP_MIN = 15;
+const CHECK_INTERVAL_MS = 60 * 1000;
+const JOBS_REFRESH_MS = 5 * 60 * 1000;
+/** Escalated alerts repeat their spoken reminder this often */
+const REMINDER_REPEAT_MS = 10 * 1000;
+const REMINDER_KEY = 'hooter:reminder';
+
+let jobs: JobCard[] = [];
+let jobsLoadedAt = 0;
+/** Jobs already announced as coming up (once per job per session) */
+const headsUpGiven = new Set<string>();
+
+const jobIdOf = (jobCard: JobCard) => String(jobCard.id || jobCard._id || '');
+
+async function loadJobs(providerId: string): Promise<JobCard[]> {
+  if (Date.now() - jobsLoadedAt < JOBS_REFRESH_MS) return jobs;
+  try {
+    jobs = await getProviderJobCards(providerId);
+    jobsLoadedAt = Date.now();
+  } catch (error: any) {
+    console.warn('[announce] job list unavailable:', error?.message || error);
+  }
+  return jobs;
+}
+
+/** Announce the next accepted job once it is within the heads-up window */
+async function checkNextJob(providerId: string): Promise<void> {
+  const now = Date.now();
+  const upcoming = (await loadJobs(providerId))
+    .filter(jobCard => jobCard.status === 'accepted' && jobCard.scheduledTime)
+    .map(jobCard => ({jobCard, at: new Date(jobCard.scheduledTime as string).getTime()}))
+    .filter(({at}) => at > now && at - now <= NEXT_JOB_HEADS_UP_MIN * 60 * 1000)
+    .sort((a, b) => a.at - b.at)[0];
+  if (!upcoming) return;
+
+  const id = jobIdOf(upcoming.jobCard);
+  if (!id || headsUpGiven.has(id)) return;
+  headsUpGiven.add(id);
+  await announce(
+    'next_job_soon',
+    {
+      service: upcoming.jobCard.serviceType,
+      customer: upcoming.jobCard.customerName,
+      minutes: Math.max(1, Math.round((upcoming.at - now) / 60000)),
+    },
+    {key: `job:${id}`, expiresAt: upcoming.at},
+  );
+}
+
+/**
+ * Spoken reminders while an escalating profile rings unanswered; returns
+ * the timer cleanup
+ */
+function remindWhileRinging(): () => void {
+  const profile = websocketService.getAlertProfile();
+  if (!profile?.escalation.enabled || !profile.escalation.voiceReminder) return () => {};
+  let repeat: ReturnType<typeof setInterval> | null = null;
+  const remind = () =>
+    void announce('offer_waiting', {}, {key: REMINDER_KEY, expiresAt: Date.now() + REMINDER_REPEAT_MS});
+  const start = setTimeout(() => {
+    remind();
+    repeat = setInterval(remind, REMINDER_REPEAT_MS);
+  }, profile.escalation.afterSec * 1000);
+  return () => {
+    clearTimeout(start);
+    if (repeat) clearInterval(repeat);
+    cancelAnnouncements(REMINDER_KEY);
+  };
+}
+
+/**
+ * Listen for announceable job events; returns the cleanup
+ */
+export function startAnnouncements(providerId: string): () => void {
+  jobsLoadedAt = 0;
+  void checkNextJob(providerId);
+
+  const unsubscribeStatus = websocketService.on('job-status-changed', async event => {
+    // Schedules moved; the next check reloads them
+    jobsLoadedAt = 0;
+    if (event.status !== 'cancelled' || event.cancelledBy === 'provider') return;
+    const jobCard =
+      jobs.find(item => jobIdOf(item) === event.jobCardId) ||
+      (await getJobCardById(event.jobCardId).catch(() => null));
+    await announce(
+      'job_cancelled',
+      {service: jobCard?.serviceType, customer: jobCard?.customerName},
+      {key: `job:${event.jobCardId}`},
+    );
+  });
+  const unsubscribePayment = websocketService.on('payment-received', event => {
+    void announce(
+      'payment_received',
+      {amount: event.amount},
+      {key: `payment:${event.paymentId}`},
+    );
+  });
+  let stopReminders = () => {};
+  const unsubscribeHooter = websocketService.onHooterChange(ringing => {
+    stopReminders();
+    stopReminders = ringing ? remindWhileRinging() : () => {};
+  });
+  const interval = setInterval(() => {
+    void checkNextJob(providerId);
+  }, CHECK_INTERVAL_MS);
+  const appState = AppState.addEventListener('change', (state: AppStateStatus) => {
+    if (state === 'active') void checkNextJob(providerId);
+  });
+
+  return () => {
+    unsubscribeStatus();
+    unsubscribePayment();
+    unsubscribeHooter();
+    stopReminders();
+    clearInterval(interval);
+    appState.remove();
+    stopAnnouncements();
+    jobs = [];
+    headsUpGiven.clear();
+  };
+}
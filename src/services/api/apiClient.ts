@@ -2,8 +2,22 @@
  * API Client — JWT from provider phone + PIN session (MongoDB).
  */
 
-import {API_BASE_URL, API_TIMEOUT} from '../../config/api';
+import {
+  API_BASE_URL,
+  API_MAX_RETRIES,
+  API_RETRY_BASE_DELAY_MS,
+  API_RETRY_MAX_DELAY_MS,
+  API_TIMEOUT,
+} from '../../config/api';
 import {forceLogoutExpiredSession, getStoredJwt} from '../session';
+import {
+  ApiError,
+  apiErrorFromResponse,
+  CancelledError,
+  NetworkError,
+  RateLimitedError,
+  TimeoutError,
+} from './apiErrors';
 
 export interface ApiResponse<T> {
   success: boolean;
@@ -16,10 +30,28 @@ export interface RequestOptions {
   method?: 'GET' | 'POST' | 'PUT' | 'DELETE' | 'PATCH';
   body?: any;
   headers?: Record<string, string>;
+  /** Per-attempt timeout; the underlying fetch is aborted when it fires */
   timeout?: number;
   skipAuth?: boolean;
+  /** Extra attempts for retryable failures (network, timeout, 408/429/5xx) */
+  retries?: number;
+  /**
+   * Sent as Idempotency-Key; generated for POST/PUT when omitted. A POST is
+   * only retried when the caller passes one — a generated key does not
+   * mean the backend dedupes that endpoint.
+   */
+  idempotencyKey?: string;
+  /** Caller-side cancellation (e.g. screen unmount) */
+  signal?: AbortSignal;
+  /** Share one in-flight request between identical concurrent GETs (default true) */
+  dedupe?: boolean;
 }
 
+const RETRYABLE_STATUS = new Set([408, 429, 500, 502, 503, 504]);
+
+/** In-flight GETs keyed by url + request headers (auth token included) */
+const inflightGets = new Map<string, Promise<unknown>>();
+
 let handlingUnauthorized = false;
 
 async function handleUnauthorized(): Promise<void> {
@@ -45,48 +77,80 @@ async function getAuthToken(): Promise<string | null> {
   }
 }
 
-export async function apiRequest<T>(
-  endpoint: string,
-  options: RequestOptions = {},
-): Promise<T> {
-  const {
-    method = 'GET',
-    body,
-    headers = {},
-    timeout = API_TIMEOUT,
-    skipAuth = false,
-  } = options;
-
-  let authToken: string | null = null;
-  if (!skipAuth) {
-    authToken = await getAuthToken();
-  }
-
-  const requestHeaders: Record<string, string> = {
-    'Content-Type': 'application/json',
-    ...headers,
-  };
+export function createIdempotencyKey(): string {
+  const rand = Math.random().toString(36).slice(2, 12);
+  return `${Date.now().toString(36)}-${rand}`;
+}
 
-  if (authToken && !skipAuth) {
-    requestHeaders.Authorization = `Bearer ${authToken}`;
+/** Exponential backoff with equal jitter, capped at API_RETRY_MAX_DELAY_MS. */
+function backoffDelay(attempt: number, retryAfterMs?: number): number {
+  if (retryAfterMs != null) {
+    return Math.min(retryAfterMs, API_RETRY_MAX_DELAY_MS);
   }
+  const exp = Math.min(
+    API_RETRY_MAX_DELAY_MS,
+    API_RETRY_BASE_DELAY_MS * 2 ** attempt,
+  );
+  return exp / 2 + Math.random() * (exp / 2);
+}
 
-  const base = API_BASE_URL.replace(/\/+$/, '');
-  const path = endpoint.startsWith('/') ? endpoint : `/${endpoint}`;
-  const url = endpoint.startsWith('http') ? endpoint : `${base}${path}`;
+function parseRetryAfter(response: Response): number | undefined {
+  const raw = response.headers?.get?.('Retry-After');
+  if (!raw) return undefined;
+  const seconds = Number(raw);
+  if (Number.isFinite(seconds)) return seconds * 1000;
+  const at = Date.parse(raw);
+  return Number.isFinite(at) ? Math.max(0, at - Date.now()) : undefined;
+}
 
-  const timeoutPromise = new Promise<never>((_, reject) => {
-    setTimeout(() => reject(new Error('Request timeout')), timeout);
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(new CancelledError('Request cancelled'));
+      return;
+    }
+    const timer = setTimeout(() => {
+      signal?.removeEventListener?.('abort', onAbort);
+      resolve();
+    }, ms);
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(new CancelledError('Request cancelled'));
+    };
+    signal?.addEventListener?.('abort', onAbort);
   });
+}
 
-  const fetchPromise = fetch(url, {
-    method,
-    headers: requestHeaders,
-    body: body ? JSON.stringify(body) : undefined,
-  });
+type Attempt = {
+  url: string;
+  method: string;
+  headers: Record<string, string>;
+  body?: any;
+  timeout: number;
+  signal?: AbortSignal;
+  skipAuth: boolean;
+  authToken: string | null;
+};
+
+async function attemptRequest<T>(req: Attempt): Promise<T> {
+  const controller = new AbortController();
+  let timedOut = false;
+  const timer = setTimeout(() => {
+    timedOut = true;
+    controller.abort();
+  }, req.timeout);
+  const forwardAbort = () => controller.abort();
+  req.signal?.addEventListener?.('abort', forwardAbort);
 
   try {
-    const response = await Promise.race([fetchPromise, timeoutPromise]);
+    const response = await fetch(req.url, {
+      method: req.method,
+      headers: req.headers,
+      body: req.body ? JSON.stringify(req.body) : undefined,
+      signal: controller.signal,
+    });
+
+    const requestId = response.headers?.get?.('X-Request-Id') || undefined;
 
     if (!response.ok) {
       let errorData: any = {};
@@ -96,45 +160,162 @@ export async function apiRequest<T>(
         errorData = {message: response.statusText};
       }
 
-      if (response.status === 401 && !skipAuth && authToken) {
+      if (response.status === 401 && !req.skipAuth && req.authToken) {
         void handleUnauthorized();
-        throw new Error(
-          errorData.message ||
-            errorData.error ||
-            'Session expired. Please sign in again.',
-        );
+        if (!errorData.message && !errorData.error) {
+          errorData.message = 'Session expired. Please sign in again.';
+        }
       }
 
-      throw new Error(
-        errorData.message ||
-          errorData.error ||
-          `HTTP ${response.status}: ${response.statusText}`,
+      throw apiErrorFromResponse(
+        response.status,
+        errorData,
+        requestId,
+        parseRetryAfter(response),
       );
     }
 
-    const data: ApiResponse<T> = await response.json();
+    const data: ApiResponse<T> & {code?: string} = await response.json();
 
     if (!data.success) {
-      throw new Error(data.message || data.error || 'API request failed');
+      throw new ApiError(data.message || data.error || 'API request failed', {
+        status: response.status,
+        code: data.code,
+        requestId,
+      });
     }
 
     return data.data as T;
   } catch (error: any) {
-    if (error.message === 'Request timeout') {
-      throw new Error(
+    if (error instanceof ApiError) throw error;
+
+    if (timedOut) {
+      throw new TimeoutError(
         'Request timed out. Please check your connection and try again.',
       );
     }
+    if (req.signal?.aborted) {
+      throw new CancelledError('Request cancelled');
+    }
 
+    // fetch rejects with a TypeError ("Network request failed") on any
+    // transport failure; anything else here is a bad JSON body
     if (
+      error instanceof TypeError ||
       error.message?.includes('Failed to fetch') ||
       error.message?.includes('Network request failed')
     ) {
-      throw new Error('Network error. Please check your internet connection.');
+      throw new NetworkError(
+        'Network error. Please check your internet connection.',
+      );
+    }
+
+    throw new ApiError(error?.message || 'API request failed');
+  } finally {
+    clearTimeout(timer);
+    req.signal?.removeEventListener?.('abort', forwardAbort);
+  }
+}
+
+function isRetryable(error: unknown): boolean {
+  if (error instanceof NetworkError || error instanceof TimeoutError) {
+    return true;
+  }
+  return (
+    error instanceof ApiError &&
+    error.status != null &&
+    RETRYABLE_STATUS.has(error.status)
+  );
+}
+
+export async function apiRequest<T>(
+  endpoint: string,
+  options: RequestOptions = {},
+): Promise<T> {
+  const {
+    method = 'GET',
+    body,
+    headers = {},
+    timeout = API_TIMEOUT,
+    skipAuth = false,
+    signal,
+    dedupe = true,
+  } = options;
+
+  let authToken: string | null = null;
+  if (!skipAuth) {
+    authToken = await getAuthToken();
+  }
+
+  const requestHeaders: Record<string, string> = {
+    'Content-Type': 'application/json',
+    ...headers,
+  };
+
+  if (authToken && !skipAuth) {
+    requestHeaders.Authorization = `Bearer ${authToken}`;
+  }
+
+  // Same key on every retry so the backend can drop duplicates (e.g. double accept)
+  const explicitIdempotencyKey = options.idempotencyKey || requestHeaders['Idempotency-Key'];
+  const idempotencyKey =
+    explicitIdempotencyKey ||
+    (method === 'POST' || method === 'PUT' ? createIdempotencyKey() : undefined);
+  if (idempotencyKey) {
+    requestHeaders['Idempotency-Key'] = idempotencyKey;
+  }
+
+  const base = API_BASE_URL.replace(/\/+$/, '');
+  const path = endpoint.startsWith('/') ? endpoint : `/${endpoint}`;
+  const url = endpoint.startsWith('http') ? endpoint : `${base}${path}`;
+
+  const canRetry =
+    method === 'GET' || method === 'PUT' || method === 'DELETE' || !!explicitIdempotencyKey;
+  const retries = canRetry ? options.retries ?? API_MAX_RETRIES : 0;
+
+  const run = async (): Promise<T> => {
+    for (let attempt = 0; ; attempt++) {
+      try {
+        return await attemptRequest<T>({
+          url,
+          method,
+          headers: requestHeaders,
+          body,
+          timeout,
+          signal,
+          skipAuth,
+          authToken,
+        });
+      } catch (error: any) {
+        if (attempt >= retries || signal?.aborted || !isRetryable(error)) {
+          throw error;
+        }
+        const retryAfterMs =
+          error instanceof RateLimitedError ? error.retryAfterMs : undefined;
+        await sleep(backoffDelay(attempt, retryAfterMs), signal);
+      }
     }
+  };
 
-    throw error;
+  // Cancellable requests get their own fetch; everything else shares
+  if (method !== 'GET' || !dedupe || signal) {
+    return run();
   }
+
+  const headerKey = Object.keys(requestHeaders)
+    .sort()
+    .map(name => `${name}:${requestHeaders[name]}`)
+    .join('|');
+  const key = `${url}|${headerKey}`;
+  const existing = inflightGets.get(key);
+  if (existing) {
+    return existing as Promise<T>;
+  }
+  const promise = run().finally(() => {
+    inflightGets.delete(key);
+  });
+  inflightGets.set(key, promise);
+  return promise;
 }
 
 export async function apiGet<T>(
@@ -0,0 +1,174 @@
+/**
+ * Typed errors thrown by apiRequest.
+ * Callers branch on the class (`instanceof NotFoundError`) instead of
+ * string-matching messages; `code` is the backend error code when the
+ * response carried one, `requestId` ties the failure to backend logs.
+ */
+
+export type ApiErrorKind =
+  | 'not_found'
+  | 'unauthorized'
+  | 'validation'
+  | 'conflict'
+  | 'rate_limited'
+  | 'network'
+  | 'timeout'
+  | 'cancelled'
+  | 'server'
+  | 'unknown';
+
+export interface ApiErrorDetails {
+  status?: number;
+  code?: string;
+  requestId?: string;
+}
+
+export class ApiError extends Error {
+  readonly kind: ApiErrorKind = 'unknown';
+  readonly status?: number;
+  readonly code?: string;
+  readonly requestId?: string;
+
+  constructor(message: string, details: ApiErrorDetails = {}) {
+    super(message);
+    this.name = 'ApiError';
+    this.status = details.status;
+    this.code = details.code;
+    this.requestId = details.requestId;
+    // Keep instanceof working when compiled down to ES5 classes
+    Object.setPrototypeOf(this, new.target.prototype);
+  }
+}
+
+export class NotFoundError extends ApiError {
+  readonly kind = 'not_found';
+  name = 'NotFoundError';
+}
+
+export class UnauthorizedError extends ApiError {
+  readonly kind = 'unauthorized';
+  name = 'UnauthorizedError';
+}
+
+export class ValidationError extends ApiError {
+  readonly kind = 'validation';
+  name = 'ValidationError';
+  /** field name → message, as reported by the backend */
+  readonly fieldErrors: Record<string, string>;
+
+  constructor(
+    message: string,
+    details: ApiErrorDetails & {fieldErrors?: Record<string, string>} = {},
+  ) {
+    super(message, details);
+    this.fieldErrors = details.fieldErrors || {};
+  }
+}
+
+export class ConflictError extends ApiError {
+  readonly kind = 'conflict';
+  name = 'ConflictError';
+}
+
+export class RateLimitedError extends ApiError {
+  readonly kind = 'rate_limited';
+  name = 'RateLimitedError';
+  readonly retryAfterMs?: number;
+
+  constructor(
+    message: string,
+    details: ApiErrorDetails & {retryAfterMs?: number} = {},
+  ) {
+    super(message, details);
+    this.retryAfterMs = details.retryAfterMs;
+  }
+}
+
+export class NetworkError extends ApiError {
+  readonly kind = 'network';
+  name = 'NetworkError';
+}
+
+export class TimeoutError extends ApiError {
+  readonly kind = 'timeout';
+  name = 'TimeoutError';
+}
+
+/** The caller aborted the request (e.g. screen unmounted). */
+export class CancelledError extends ApiError {
+  readonly kind = 'cancelled';
+  name = 'CancelledError';
+}
+
+export class ServerError extends ApiError {
+  readonly kind = 'server';
+  name = 'ServerError';
+}
+
+/** Normalise `errors` from the backend: object map or [{field, message}] list. */
+function parseFieldErrors(raw: any): Record<string, string> {
+  const out: Record<string, string> = {};
+  if (Array.isArray(raw)) {
+    raw.forEach(item => {
+      const field = item?.field || item?.path || item?.param;
+      const message = item?.message || item?.msg;
+      if (field && message) out[String(field)] = String(message);
+    });
+  } else if (raw && typeof raw === 'object') {
+    Object.entries(raw).forEach(([field, value]: [string, any]) => {
+      const message = typeof value === 'string' ? value : value?.message;
+      if (message) out[field] = String(message);
+    });
+  }
+  return out;
+}
+
+/**
+ * Build the typed error for a non-2xx response.
+ * `body` is the parsed JSON error payload (or `{message: statusText}`).
+ */
+export function apiErrorFromResponse(
+  status: number,
+  body: any,
+  requestId?: string,
+  retryAfterMs?: number,
+): ApiError {
+  const errorField = body?.error;
+  const code: string | undefined =
+    body?.code ||
+    (errorField && typeof errorField === 'object' ? errorField.code : undefined);
+  const message: string =
+    body?.message ||
+    (typeof errorField === 'string' ? errorField : errorField?.message) ||
+    `HTTP ${status}`;
+  const details: ApiErrorDetails = {
+    status,
+    code,
+    requestId: requestId || body?.requestId,
+  };
+
+  if (status === 401 || status === 403) return new UnauthorizedError(message, details);
+  if (status === 404) return new NotFoundError(message, details);
+  if (status === 409) return new ConflictError(message, details);
+  if (status === 408) return new TimeoutError(message, details);
+  if (status === 429) {
+    return new RateLimitedError(message, {...details, retryAfterMs});
+  }
+  if (status === 400 || status === 422) {
+    return new ValidationError(message, {
+      ...details,
+      fieldErrors: parseFieldErrors(body?.errors ?? body?.fieldErrors),
+    });
+  }
+  if (status >= 500) return new ServerError(message, details);
+  return new ApiError(message, details);
+}
+
+export function isApiError(error: unknown): error is ApiError {
+  return error instanceof ApiError;
+}
+
+/** No connectivity or no response in time — safe to queue and retry later. */
+export function isConnectivityError(error: unknown): boolean {
+  return error instanceof NetworkError || error instanceof TimeoutError;
+}
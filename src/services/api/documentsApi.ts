@@ -0,0 +1,102 @@
+/**
+ * Provider Documents API Service (Provider App)
+ * KYC documents are reviewed one at a time: each has its own status,
+ * rejection reason and history, and a rejected or lapsing one is replaced
+ * on its own without resubmitting the whole profile.
+ */
+
+import {apiDelete, apiGet, apiPut} from './apiClient';
+import {NotFoundError} from './apiErrors';
+
+export type ProviderDocumentKind = 'idProof' | 'addressProof' | 'certificate';
+
+/** What the uploaded document actually is */
+export type ProviderDocumentType =
+  | 'aadhaar'
+  | 'pan'
+  | 'driving_licence'
+  | 'voter_id'
+  | 'passport'
+  | 'utility_bill'
+  | 'rental_agreement'
+  | 'trade_certificate'
+  | 'vehicle_rc'
+  | 'other';
+
+export type DocumentStatus = 'pending' | 'verified' | 'rejected';
+
+export interface DocumentStatusEvent {
+  status: DocumentStatus;
+  /** ISO timestamp */
+  at: string;
+  /** Rejection reason or reviewer note */
+  reason?: string;
+  /** 'provider' for (re)submissions, 'admin' for reviews */
+  by?: 'provider' | 'admin';
+}
+
+export interface ProviderDocument {
+  _id?: string;
+  kind: ProviderDocumentKind;
+  type: ProviderDocumentType;
+  /** Document number as printed (masked by the server once verified) */
+  number?: string;
+  /** 'YYYY-MM-DD' */
+  issueDate?: string;
+  /** 'YYYY-MM-DD'; documents without one never lapse */
+  expiryDate?: string;
+  fileUrl: string;
+  status: DocumentStatus;
+  rejectionReason?: string;
+  submittedAt?: string;
+  reviewedAt?: string;
+  /** Oldest first */
+  history: DocumentStatusEvent[];
+}
+
+export interface DocumentSubmission {
+  kind: ProviderDocumentKind;
+  type: ProviderDocumentType;
+  number?: string;
+  issueDate?: string;
+  expiryDate?: string;
+  fileUrl: string;
+}
+
+/**
+ * The provider's documents, one per kind
+ */
+export async function getMyDocuments(): Promise<ProviderDocument[]> {
+  try {
+    const response = await apiGet<ProviderDocument[] | {data: ProviderDocument[]}>(
+      '/providers/me/documents',
+    );
+    return Array.isArray(response) ? response : response?.data || [];
+  } catch (error) {
+    if (error instanceof NotFoundError) {
+      return [];
+    }
+    throw error;
+  }
+}
+
+/**
+ * Submit or replace the document of `submission.kind`; it goes back to
+ * pending review
+ */
+export async function submitDocument(submission: DocumentSubmission): Promise<ProviderDocument> {
+  return apiPut<ProviderDocument>(`/providers/me/documents/${submission.kind}`, submission);
+}
+
+/**
+ * Withdraw a document that has not been verified
+ */
+export async function deleteDocument(kind: ProviderDocumentKind): Promise<void> {
+  await apiDelete(`/providers/me/documents/${kind}`);
+}
+
+export const documentsApi = {
+  getMyDocuments,
+  submit: submitDocument,
+  delete: deleteDocument,
+};
@@ -0,0 +1,98 @@
+/**
+ * Earnings API Service (Provider App)
+ * Platform commission / GST configuration and payout history.
+ * Per-job amounts come from completed job cards (see earningsService).
+ */
+
+import {apiGet} from './apiClient';
+import {NotFoundError} from './apiErrors';
+
+export interface EarningsConfig {
+  /** Platform commission on labour (service amount), in percent */
+  commissionPercent: number;
+  /** GST charged on the platform commission, in percent */
+  gstPercent: number;
+  currency: 'INR';
+  /** False when the platform has not set rates for this provider */
+  configured: boolean;
+}
+
+export interface Payout {
+  _id?: string;
+  id?: string;
+  amount: number;
+  status: 'pending' | 'processing' | 'paid' | 'failed';
+  periodStart: string | Date;
+  periodEnd: string | Date;
+  paidAt?: string | Date;
+  /** Bank / UPI reference once paid */
+  reference?: string;
+  failureReason?: string;
+  createdAt?: string | Date;
+}
+
+/**
+ * Used when the backend has no rates for this provider: nothing is
+ * deducted, and screens say so instead of showing made-up fees
+ */
+export const UNCONFIGURED_EARNINGS_CONFIG: EarningsConfig = {
+  commissionPercent: 0,
+  gstPercent: 0,
+  currency: 'INR',
+  configured: false,
+};
+
+/**
+ * Commission and GST rates applied to this provider
+ */
+export async function getEarningsConfig(): Promise<EarningsConfig> {
+  try {
+    const config = await apiGet<Partial<EarningsConfig>>('/provider/earnings/config');
+    if (!config) return UNCONFIGURED_EARNINGS_CONFIG;
+    return {...UNCONFIGURED_EARNINGS_CONFIG, ...config, configured: true};
+  } catch (error: any) {
+    if (error instanceof NotFoundError) {
+      return UNCONFIGURED_EARNINGS_CONFIG;
+    }
+    throw error;
+  }
+}
+
+/**
+ * Payout history for the authenticated provider (newest first)
+ */
+export async function getPayouts(filters?: {
+  from?: string;
+  to?: string;
+  limit?: number;
+}): Promise<Payout[]> {
+  try {
+    const params = new URLSearchParams();
+    if (filters) {
+      Object.entries(filters).forEach(([key, value]) => {
+        if (value !== undefined && value !== null) {
+          params.append(key, String(value));
+        }
+      });
+    }
+
+    const queryString = params.toString();
+    const endpoint = queryString ? `/provider/payouts?${queryString}` : '/provider/payouts';
+
+    const response = await apiGet<{data: Payout[]} | Payout[]>(endpoint);
+    if (Array.isArray(response)) {
+      return response;
+    }
+    return (response as any)?.data || [];
+  } catch (error: any) {
+    if (error instanceof NotFoundError) {
+      return [];
+    }
+    throw error;
+  }
+}
+
+export const earningsApi = {
+  getConfig: getEarningsConfig,
+  getPayouts,
+};
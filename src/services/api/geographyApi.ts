@@ -145,3 +145,54 @@ export function hasWarmGeographyMeta(): boolean {
 export function peekGeographyMeta(): GeographyMeta | null {
   return memoryCache ? normalize(memoryCache) : null;
 }
+
+/** One row of the India pincode directory (post office centroid) */
+export interface PincodeRecord {
+  pincode: string;
+  district: string;
+  state: string;
+  city?: string;
+  latitude?: number;
+  longitude?: number;
+}
+
+/** Address returned by the backend geocoding proxy */
+export interface GeocodedAddress {
+  pincode?: string;
+  address?: string;
+  city?: string;
+  district?: string;
+  state?: string;
+  country?: string;
+  latitude?: number;
+  longitude?: number;
+}
+
+/** Geocoding proxy — the backend holds provider keys and rate limits */
+export async function reverseGeocodeViaBackend(
+  latitude: number,
+  longitude: number,
+): Promise<GeocodedAddress | null> {
+  return apiGet<GeocodedAddress | null>(
+    `/geography/reverse?lat=${latitude}&lng=${longitude}`,
+    {skipAuth: true, retries: 0, timeout: 8000},
+  );
+}
+
+export async function lookupPincodeViaBackend(
+  pincode: string,
+): Promise<GeocodedAddress | null> {
+  return apiGet<GeocodedAddress | null>(
+    `/geography/pincodes/${encodeURIComponent(pincode)}`,
+    {skipAuth: true, retries: 0, timeout: 8000},
+  );
+}
+
+/** Full pincode directory for offline lookups (large — download on Wi-Fi) */
+export async function fetchPincodeDirectory(): Promise<PincodeRecord[]> {
+  const data = await apiGet<{pincodes: PincodeRecord[]} | PincodeRecord[]>(
+    '/geography/pincodes',
+    {skipAuth: true, timeout: 60000},
+  );
+  return Array.isArray(data) ? data : data?.pincodes || [];
+}
@@ -4,6 +4,7 @@
  */
 
 import {apiGet, apiPost, apiPut} from './apiClient';
+import {NotFoundError} from './apiErrors';
 
 export interface JobCard {
   _id?: string;
@@ -39,6 +40,22 @@ export interface JobCard {
   pinGeneratedAt?: string | Date;
   scheduledTime?: string | Date;
   cancellationReason?: string;
+  startedAt?: string | Date;
+  completedAt?: string | Date;
+  serviceAmount?: number;
+  materialsUsed?: UpdateJobCardStatusData['materialsUsed'];
+  jobCardPdfUrl?: string;
+  invoiceNumber?: string;
+  invoiceDate?: string | Date;
+  invoicePdfUrl?: string;
+  photos?: JobCardPhoto[];
+  trip?: JobCardTrip;
+  quotation?: JobCardQuotation;
+  /** Set by the backend when the job ends; the chat is read-only afterwards */
+  chatClosesAt?: string | Date;
+  /** How the provider may reach the customer; missing means direct dial */
+  contact?: JobCardContact;
+  contactLog?: JobCardContactAttempt[];
   comments?: Array<{
     _id: string;
     role: 'admin' | 'provider' | 'customer';
@@ -84,6 +101,149 @@ export interface UpdateJobCardStatusData {
   jobCardPdfUrl?: string;
 }
 
+export type JobPhotoPhase = 'before' | 'after';
+
+/** Provider's before / after work photo (stamped at capture) */
+export interface JobCardPhoto {
+  _id?: string;
+  phase: JobPhotoPhase;
+  url: string;
+  /** EXIF capture time when available, else when it was taken in the app */
+  capturedAt: string | Date;
+  latitude?: number;
+  longitude?: number;
+  uploadedAt?: string | Date;
+}
+
+/** Provider's trip to the customer, from tapping Navigate until the job starts */
+export type TripStatus = 'en_route' | 'arrived' | 'ended';
+
+export interface JobCardTrip {
+  status: TripStatus;
+  startedAt?: string | Date;
+  arrivedAt?: string | Date;
+  endedAt?: string | Date;
+  /** Why tracking stopped: job started / cancelled, or the provider stopped sharing */
+  endReason?: 'started' | 'cancelled' | 'stopped';
+  etaMinutes?: number;
+  distanceKm?: number;
+  updatedAt?: string | Date;
+}
+
+export interface UpdateJobCardTripData {
+  status: TripStatus;
+  etaMinutes?: number;
+  distanceKm?: number;
+  latitude?: number;
+  longitude?: number;
+  endReason?: JobCardTrip['endReason'];
+}
+
+export type QuotationStatus = 'sent' | 'approved' | 'revision_requested' | 'rejected';
+
+export interface QuotationLine {
+  kind: 'labour' | 'material';
+  description: string;
+  quantity: number;
+  unitPrice: number;
+  total: number;
+}
+
+/** Itemized estimate the customer approves before work starts */
+export interface JobCardQuotation {
+  /** Bumped by the backend on every re-send */
+  version: number;
+  lines: QuotationLine[];
+  taxPercent: number;
+  subtotal: number;
+  taxAmount: number;
+  total: number;
+  status: QuotationStatus;
+  note?: string;
+  /** Customer's reason when asking for a revision / rejecting */
+  customerComment?: string;
+  sentAt?: string | Date;
+  respondedAt?: string | Date;
+}
+
+export interface SendQuotationData {
+  lines: QuotationLine[];
+  taxPercent: number;
+  note?: string;
+}
+
+/**
+ * 'proxy': dial a temporary number that forwards to the customer.
+ * 'bridge': ask the backend to ring both phones and connect them.
+ * 'direct': masking is off; dial the customer's own number.
+ */
+export type ContactMode = 'direct' | 'proxy' | 'bridge';
+
+export interface JobCardContact {
+  mode: ContactMode;
+  proxyNumber?: string;
+  /** The proxy / bridge stops working after this time */
+  validUntil?: string | Date;
+}
+
+export type ContactChannel = 'call' | 'whatsapp';
+
+export type ContactOutcome = 'dialled' | 'bridge_requested' | 'blocked' | 'failed';
+
+export interface JobCardContactAttempt {
+  _id?: string;
+  channel: ContactChannel;
+  mode: ContactMode;
+  outcome: ContactOutcome;
+  error?: string;
+  createdAt: string | Date;
+}
+
+export interface CallBridgeResponse {
+  /** 'ringing': the provider's phone rings first, then the customer's */
+  status: 'ringing' | 'queued';
+  bridgeId?: string;
+}
+
+export type JobChatMessageType = 'text' | 'image';
+
+/** Delivery state of a message as reported by the backend */
+export type JobChatReceipt = 'sent' | 'delivered' | 'read';
+
+export interface JobChatMessage {
+  _id: string;
+  /** Id chosen by the sending device; used to de-duplicate retries */
+  clientId?: string;
+  jobCardId: string;
+  role: 'provider' | 'customer';
+  senderId?: string;
+  type: JobChatMessageType;
+  text?: string;
+  imageUrl?: string;
+  status: JobChatReceipt;
+  createdAt: string | Date;
+  deliveredAt?: string | Date;
+  readAt?: string | Date;
+}
+
+export interface SendJobChatMessageData {
+  clientId: string;
+  type: JobChatMessageType;
+  text?: string;
+  imageUrl?: string;
+}
+
+export interface SaveJobCardInvoiceData {
+  invoiceNumber: string;
+  invoiceDate: string | Date;
+  invoicePdfUrl: string;
+  taxableValue: number;
+  cgst: number;
+  sgst: number;
+  igst: number;
+  total: number;
+}
+
 /**
  * Get all job cards for the authenticated provider
  */
@@ -123,7 +283,7 @@ export async function getJobCardById(jobCardId: string): Promise<JobCard | null>
   try {
     return await apiGet<JobCard>(`/provider/jobCards/${jobCardId}`);
   } catch (error: any) {
-    if (error.message?.includes('not found') || error.message?.includes('404')) {
+    if (error instanceof NotFoundError) {
       return null;
     }
     throw error;
@@ -139,16 +299,22 @@ export async function createJobCard(data: CreateJobCardData): Promise<JobCard> {
 
 /**
  * Update job card status (provider endpoint)
+ * Pass `idempotencyKey` when replaying a queued offline action.
  */
 export async function updateJobCardStatus(
   jobCardId: string,
   status: JobCard['status'],
   updates?: Partial<UpdateJobCardStatusData>,
+  idempotencyKey?: string,
 ): Promise<JobCard> {
-  return apiPut<JobCard>(`/provider/jobCards/${jobCardId}/status`, {
-    status,
-    ...updates,
-  });
+  return apiPut<JobCard>(
+    `/provider/jobCards/${jobCardId}/status`,
+    {
+      status,
+      ...updates,
+    },
+    {idempotencyKey},
+  );
 }
 
 /**
@@ -157,8 +323,162 @@ export async function updateJobCardStatus(
 export async function addJobCardComment(
   jobCardId: string,
   text: string,
+  idempotencyKey?: string,
 ): Promise<JobCard> {
-  return apiPost<JobCard>(`/provider/jobCards/${jobCardId}/comments`, {text});
+  return apiPost<JobCard>(
+    `/provider/jobCards/${jobCardId}/comments`,
+    {text},
+    {idempotencyKey},
+  );
+}
+
+/**
+ * Latest quotation for a job card (null when none was sent yet)
+ */
+export async function getJobCardQuotation(
+  jobCardId: string,
+): Promise<JobCardQuotation | null> {
+  try {
+    return await apiGet<JobCardQuotation>(`/provider/jobCards/${jobCardId}/quotation`);
+  } catch (error: any) {
+    if (error instanceof NotFoundError) {
+      return null;
+    }
+    throw error;
+  }
+}
+
+/**
+ * Send (or re-send a revised) quotation to the customer for approval.
+ * The backend recomputes the totals and notifies the customer.
+ */
+export async function sendJobCardQuotation(
+  jobCardId: string,
+  data: SendQuotationData,
+  idempotencyKey?: string,
+): Promise<JobCardQuotation> {
+  return apiPost<JobCardQuotation>(
+    `/provider/jobCards/${jobCardId}/quotation`,
+    data,
+    {idempotencyKey},
+  );
+}
+
+/**
+ * Attach an uploaded before / after photo to a job card
+ */
+export async function addJobCardPhoto(
+  jobCardId: string,
+  photo: Omit<JobCardPhoto, '_id' | 'uploadedAt'>,
+  idempotencyKey?: string,
+): Promise<JobCard> {
+  return apiPost<JobCard>(
+    `/provider/jobCards/${jobCardId}/photos`,
+    photo,
+    {idempotencyKey},
+  );
+}
+
+/**
+ * Record a trip state change (en route / arrived / ended); the backend
+ * notifies the customer. Live positions go over the socket instead.
+ */
+export async function updateJobCardTrip(
+  jobCardId: string,
+  data: UpdateJobCardTripData,
+): Promise<JobCardTrip> {
+  return apiPost<JobCardTrip>(`/provider/jobCards/${jobCardId}/trip`, data);
+}
+
+/**
+ * Reserve the provider's next sequential invoice number for a completed job.
+ * The backend keeps one counter per provider and financial year and returns
+ * the same number when asked again for the same job card.
+ */
+export async function reserveJobCardInvoiceNumber(
+  jobCardId: string,
+): Promise<{invoiceNumber: string; invoiceDate: string}> {
+  return apiPost<{invoiceNumber: string; invoiceDate: string}>(
+    `/provider/jobCards/${jobCardId}/invoice/number`,
+    {},
+    {idempotencyKey: `invoice-number-${jobCardId}`},
+  );
+}
+
+/**
+ * Store the generated invoice next to the job card PDF
+ */
+export async function saveJobCardInvoice(
+  jobCardId: string,
+  data: SaveJobCardInvoiceData,
+): Promise<JobCard> {
+  return apiPut<JobCard>(`/provider/jobCards/${jobCardId}/invoice`, data);
+}
+
+/**
+ * Chat messages of a job card, oldest first. Pass `since` to fetch only
+ * messages created after that time.
+ */
+export async function getJobChatMessages(
+  jobCardId: string,
+  since?: string,
+): Promise<JobChatMessage[]> {
+  const query = since ? `?since=${encodeURIComponent(since)}` : '';
+  const response = await apiGet<{data: JobChatMessage[]} | JobChatMessage[]>(
+    `/provider/jobCards/${jobCardId}/chat${query}`,
+  );
+  return Array.isArray(response) ? response : response?.data || [];
+}
+
+/**
+ * Send a chat message over REST (used when the socket is down).
+ * The client id doubles as the idempotency key so retries never duplicate.
+ */
+export async function sendJobChatMessage(
+  jobCardId: string,
+  data: SendJobChatMessageData,
+): Promise<JobChatMessage> {
+  return apiPost<JobChatMessage>(`/provider/jobCards/${jobCardId}/chat`, data, {
+    idempotencyKey: `chat-${data.clientId}`,
+  });
+}
+
+/**
+ * Mark the customer's messages up to (and including) `lastMessageId` as read
+ */
+export async function markJobChatRead(
+  jobCardId: string,
+  lastMessageId: string,
+): Promise<void> {
+  await apiPost<unknown>(`/provider/jobCards/${jobCardId}/chat/read`, {lastMessageId});
+}
+
+/**
+ * Unread customer messages per job card ({jobCardId: count})
+ */
+export async function getJobChatUnreadCounts(): Promise<Record<string, number>> {
+  const response = await apiGet<{data: Record<string, number>} | Record<string, number>>(
+    '/provider/jobCards/chat/unread',
+  );
+  return ((response as any)?.data ?? response) || {};
+}
+
+/**
+ * Ask the backend to connect the provider and the customer by phone
+ * without either seeing the other's number. Only works while the job is active.
+ */
+export async function requestJobCardCallBridge(jobCardId: string): Promise<CallBridgeResponse> {
+  return apiPost<CallBridgeResponse>(`/provider/jobCards/${jobCardId}/contact/bridge`, {});
+}
+
+/**
+ * Record a call / WhatsApp attempt on the job card timeline
+ */
+export async function logJobCardContactAttempt(
+  jobCardId: string,
+  attempt: Omit<JobCardContactAttempt, '_id'>,
+): Promise<void> {
+  await apiPost<unknown>(`/provider/jobCards/${jobCardId}/contact/log`, attempt);
 }
 
 export const jobCardsApi = {
@@ -167,4 +487,16 @@ export const jobCardsApi = {
   create: createJobCard,
   updateStatus: updateJobCardStatus,
   addComment: addJobCardComment,
+  getQuotation: getJobCardQuotation,
+  sendQuotation: sendJobCardQuotation,
+  addPhoto: addJobCardPhoto,
+  updateTrip: updateJobCardTrip,
+  reserveInvoiceNumber: reserveJobCardInvoiceNumber,
+  saveInvoice: saveJobCardInvoice,
+  getChatMessages: getJobChatMessages,
+  sendChatMessage: sendJobChatMessage,
+  markChatRead: markJobChatRead,
+  getChatUnreadCounts: getJobChatUnreadCounts,
+  requestCallBridge: requestJobCardCallBridge,
+  logContactAttempt: logJobCardContactAttempt,
 };
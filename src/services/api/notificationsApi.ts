@@ -0,0 +1,97 @@
+/**
+ * Notifications API Service (Provider App)
+ * The provider's notification inbox, paged newest first. Read state lives
+ * on the server so it follows the provider across devices.
+ */
+
+import {apiDelete, apiGet, apiPost} from './apiClient';
+import {NotFoundError} from './apiErrors';
+
+export type ProviderNotificationType =
+  | 'new_booking'
+  | 'job_cancelled'
+  | 'comment'
+  | 'payment'
+  | 'review'
+  | 'approval_status'
+  | 'system';
+
+export interface ProviderNotification {
+  _id: string;
+  type: ProviderNotificationType;
+  title: string;
+  message: string;
+  jobCardId?: string;
+  serviceRequestId?: string;
+  /** Type-specific extras (amount, rating, approval status, customer name…) */
+  data?: Record<string, unknown>;
+  readAt?: string | null;
+  createdAt: string;
+}
+
+export interface NotificationPage {
+  data: ProviderNotification[];
+  /** Pass back to get the next (older) page; null on the last page */
+  nextCursor: string | null;
+  unreadCount: number;
+}
+
+/**
+ * One page of the inbox (newest first)
+ */
+export async function getNotifications(options?: {
+  cursor?: string | null;
+  limit?: number;
+}): Promise<NotificationPage> {
+  const params = new URLSearchParams();
+  if (options?.cursor) params.append('cursor', options.cursor);
+  if (options?.limit) params.append('limit', String(options.limit));
+
+  const queryString = params.toString();
+  const endpoint = queryString
+    ? `/provider/notifications?${queryString}`
+    : '/provider/notifications';
+
+  try {
+    const response = await apiGet<NotificationPage | ProviderNotification[]>(endpoint);
+    if (Array.isArray(response)) {
+      return {
+        data: response,
+        nextCursor: null,
+        unreadCount: response.filter(item => !item.readAt).length,
+      };
+    }
+    return {
+      data: response?.data || [],
+      nextCursor: response?.nextCursor ?? null,
+      unreadCount: response?.unreadCount ?? 0,
+    };
+  } catch (error) {
+    if (error instanceof NotFoundError) {
+      return {data: [], nextCursor: null, unreadCount: 0};
+    }
+    throw error;
+  }
+}
+
+/**
+ * Mark notifications read on every device
+ */
+export async function markNotificationsRead(ids: string[]): Promise<{unreadCount: number}> {
+  return apiPost<{unreadCount: number}>('/provider/notifications/read', {ids});
+}
+
+export async function markAllNotificationsRead(): Promise<{unreadCount: number}> {
+  return apiPost<{unreadCount: number}>('/provider/notifications/read-all', {});
+}
+
+export async function deleteNotification(notificationId: string): Promise<void> {
+  await apiDelete(`/provider/notifications/${notificationId}`);
+}
+
+export const notificationsApi = {
+  getNotifications,
+  markRead: markNotificationsRead,
+  markAllRead: markAllNotificationsRead,
+  delete: deleteNotification,
+};
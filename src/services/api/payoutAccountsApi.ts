@@ -0,0 +1,124 @@
+/**
+ * Payout Accounts API Service (Provider App)
+ * Where the provider is paid: one bank account and one UPI ID, each
+ * verified on its own (penny drop / VPA lookup) before payouts use it.
+ * Saving or removing an account needs a fresh PIN re-entry token.
+ */
+
+import {apiDelete, apiGet, apiPost, apiPut} from './apiClient';
+import {NotFoundError} from './apiErrors';
+
+export type PayoutAccountType = 'bank' | 'upi';
+
+export type PayoutVerificationStatus = 'unverified' | 'pending' | 'verified' | 'failed';
+
+export interface BankAccountDetails {
+  accountHolderName: string;
+  /** Digits only (masked by the server in responses) */
+  accountNumber: string;
+  ifsc: string;
+  bankName?: string;
+  branch?: string;
+}
+
+export interface UpiDetails {
+  vpa: string;
+  /** Name registered with the VPA, filled in by verification */
+  holderName?: string;
+}
+
+export interface PayoutAccount {
+  _id?: string;
+  type: PayoutAccountType;
+  bank?: BankAccountDetails;
+  upi?: UpiDetails;
+  status: PayoutVerificationStatus;
+  /** Why verification failed, as reported by the bank / NPCI */
+  failureReason?: string;
+  verifiedAt?: string;
+  updatedAt?: string;
+}
+
+export type PayoutAccountDetails = BankAccountDetails | UpiDetails;
+
+/** Branch record behind an IFSC, from the backend's copy of the RBI list */
+export interface IfscDetails {
+  ifsc: string;
+  bankName: string;
+  branch: string;
+  address?: string;
+  city?: string;
+  district?: string;
+  state?: string;
+}
+
+/** Header carrying the token from a PIN re-entry */
+export const REAUTH_HEADER = 'X-Reauth-Token';
+
+/**
+ * The provider's payout accounts (at most one per type)
+ */
+export async function getPayoutAccounts(): Promise<PayoutAccount[]> {
+  try {
+    const response = await apiGet<PayoutAccount[] | {data: PayoutAccount[]}>(
+      '/providers/me/payout-accounts',
+    );
+    return Array.isArray(response) ? response : response?.data || [];
+  } catch (error) {
+    if (error instanceof NotFoundError) {
+      return [];
+    }
+    throw error;
+  }
+}
+
+/**
+ * Add or replace the account of `type`; it goes back to unverified
+ */
+export async function savePayoutAccount(
+  type: PayoutAccountType,
+  details: PayoutAccountDetails,
+  reauthToken: string,
+): Promise<PayoutAccount> {
+  return apiPut<PayoutAccount>(`/providers/me/payout-accounts/${type}`, details, {
+    headers: {[REAUTH_HEADER]: reauthToken},
+  });
+}
+
+/**
+ * Start verification; the account is pending until the check completes
+ */
+export async function verifyPayoutAccount(type: PayoutAccountType): Promise<PayoutAccount> {
+  return apiPost<PayoutAccount>(`/providers/me/payout-accounts/${type}/verify`);
+}
+
+/**
+ * Bank and branch for an IFSC (null when the code is not on the list)
+ */
+export async function getIfscDetails(ifsc: string): Promise<IfscDetails | null> {
+  try {
+    return await apiGet<IfscDetails>(`/banks/ifsc/${encodeURIComponent(ifsc)}`);
+  } catch (error) {
+    if (error instanceof NotFoundError) {
+      return null;
+    }
+    throw error;
+  }
+}
+
+export async function deletePayoutAccount(
+  type: PayoutAccountType,
+  reauthToken: string,
+): Promise<void> {
+  await apiDelete(`/providers/me/payout-accounts/${type}`, {
+    headers: {[REAUTH_HEADER]: reauthToken},
+  });
+}
+
+export const payoutAccountsApi = {
+  getPayoutAccounts,
+  save: savePayoutAccount,
+  verify: verifyPayoutAccount,
+  delete: deletePayoutAccount,
+  getIfscDetails,
+};
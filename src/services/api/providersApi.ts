@@ -4,6 +4,62 @@
  */
 
 import {apiGet, apiPut} from './apiClient';
+import {NotFoundError} from './apiErrors';
+
+export type Weekday = 'mon' | 'tue' | 'wed' | 'thu' | 'fri' | 'sat' | 'sun';
+
+export interface WorkingHours {
+  enabled: boolean;
+  /** Local time, 'HH:mm' (24h) */
+  start: string;
+  end: string;
+}
+
+export interface AvailabilityBlackout {
+  /** Local date, 'YYYY-MM-DD' */
+  date: string;
+  reason?: string;
+}
+
+export interface ProviderAvailability {
+  weeklyHours: Record<Weekday, WorkingHours>;
+  blackouts: AvailabilityBlackout[];
+  /** Go online / offline automatically at shift start / end */
+  autoToggle: boolean;
+  /** IANA zone the hours are expressed in */
+  timezone: string;
+  updatedAt?: string | Date;
+}
+
+export interface GeoPoint {
+  latitude: number;
+  longitude: number;
+}
+
+/** Area inside the service area the provider does not go to */
+export type ServiceAreaExclusion =
+  | {id: string; kind: 'pincode'; pincode: string; label?: string}
+  | {id: string; kind: 'circle'; center: GeoPoint; radiusKm: number; label?: string}
+  | {id: string; kind: 'polygon'; points: GeoPoint[]; label?: string};
+
+/**
+ * Where the provider is willing to work. A booking is in-area when it
+ * matches any inclusion rule (radius, pincode, district, boundary) and
+ * no exclusion. With no inclusion rules, everywhere is in-area.
+ */
+export interface ProviderServiceArea {
+  /** Max travel distance from the base address */
+  maxRadiusKm?: number;
+  pincodes: string[];
+  /** Geography district ids */
+  districtIds: string[];
+  /** Optional boundary polygon (at least 3 points) */
+  boundary?: GeoPoint[];
+  exclusions: ServiceAreaExclusion[];
+  /** Do not alert for out-of-area bookings (targeted bookings still show) */
+  hideOutOfArea?: boolean;
+  updatedAt?: string | Date;
+}
 
 export interface Provider {
   _id?: string;
@@ -44,6 +100,12 @@ export interface Provider {
     landmark?: string;
   };
   photos?: string[];
+  /** GST registration; invoices are bills of supply without it */
+  gstin?: string;
+  /** Registered business name printed on invoices (defaults to name) */
+  businessName?: string;
+  availability?: ProviderAvailability;
+  serviceArea?: ProviderServiceArea;
   createdAt?: string | Date;
   updatedAt?: string | Date;
 }
@@ -95,7 +157,7 @@ export async function getProviderById(providerId: string): Promise<Provider | nu
   try {
     return await apiGet<Provider>(`/providers/${providerId}`);
   } catch (error: any) {
-    if (error.message?.includes('not found') || error.message?.includes('404')) {
+    if (error instanceof NotFoundError) {
       return null;
     }
     throw error;
@@ -141,7 +203,7 @@ export async function getMyProfile(): Promise<Provider | null> {
   try {
     return await apiGet<Provider>('/providers/me');
   } catch (error: any) {
-    if (error.message?.includes('not found') || error.message?.includes('404')) {
+    if (error instanceof NotFoundError) {
       return null;
     }
     throw error;
@@ -166,6 +228,30 @@ export async function updateProviderStatus(data: {
   await apiPut('/providers/me/status', data);
 }
 
+/**
+ * Get the provider's working hours and blackout dates
+ */
+export async function getMyAvailability(): Promise<ProviderAvailability | null> {
+  try {
+    return await apiGet<ProviderAvailability>('/providers/me/availability');
+  } catch (error: any) {
+    if (error instanceof NotFoundError) {
+      return null;
+    }
+    throw error;
+  }
+}
+
+/**
+ * Replace the provider's availability — nearby-pending matching skips
+ * providers who are off-shift or on a blackout date
+ */
+export async function updateMyAvailability(
+  availability: ProviderAvailability,
+): Promise<ProviderAvailability> {
+  return apiPut<ProviderAvailability>('/providers/me/availability', availability);
+}
+
 export const providersApi = {
   getAll: getProviders,
   getById: getProviderById,
@@ -174,4 +260,6 @@ export const providersApi = {
   getMyProfile,
   updateMyProfile,
   updateStatus: updateProviderStatus,
+  getMyAvailability,
+  updateMyAvailability,
 };
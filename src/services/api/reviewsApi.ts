@@ -4,6 +4,7 @@
  */
 
 import {apiGet, apiPost, apiPut, apiDelete} from './apiClient';
+import {NotFoundError} from './apiErrors';
 
 export interface Review {
   _id?: string;
@@ -85,7 +86,7 @@ export async function getReviewById(reviewId: string): Promise<Review | null> {
   try {
     return await apiGet<Review>(`/reviews/${reviewId}`);
   } catch (error: any) {
-    if (error.message?.includes('not found') || error.message?.includes('404')) {
+    if (error instanceof NotFoundError) {
       return null;
     }
     throw error;
@@ -4,6 +4,7 @@
  */
 
 import {apiGet} from './apiClient';
+import {NotFoundError} from './apiErrors';
 
 export interface QuestionnaireItem {
   id: string;
@@ -26,6 +27,13 @@ export interface ServiceCategory {
   enabled?: boolean;
   isActive?: boolean;
   questionnaire?: QuestionnaireItem[];
+  /** Typical on-site time in minutes */
+  estimatedDurationMinutes?: number;
+  /** GST Services Accounting Code for tax invoices */
+  sacCode?: string;
+  gstRatePercent?: number;
+  /** Completion requires at least one "after" work photo */
+  requiresAfterPhoto?: boolean;
   createdAt?: string | Date;
   updatedAt?: string | Date;
 }
@@ -53,7 +61,7 @@ export async function getServiceCategoryById(categoryId: string): Promise<Servic
   try {
     return await apiGet<ServiceCategory>(`/serviceCategories/${categoryId}`);
   } catch (error: any) {
-    if (error.message?.includes('not found') || error.message?.includes('404')) {
+    if (error instanceof NotFoundError) {
       return null;
     }
     throw error;
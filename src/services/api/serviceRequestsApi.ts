@@ -4,6 +4,7 @@
  */
 
 import {apiGet, apiPut} from './apiClient';
+import {NotFoundError} from './apiErrors';
 
 export interface ServiceRequest {
   _id?: string;
@@ -49,7 +50,7 @@ export async function getServiceRequestById(serviceRequestId: string): Promise<S
   try {
     return await apiGet<ServiceRequest>(`/provider/serviceRequests/${serviceRequestId}`);
   } catch (error: any) {
-    if (error.message?.includes('not found') || error.message?.includes('404')) {
+    if (error instanceof NotFoundError) {
       return null;
     }
     throw error;
@@ -58,6 +59,7 @@ export async function getServiceRequestById(serviceRequestId: string): Promise<S
 
 /**
  * Accept a service request (provider endpoint)
+ * Keyed per request so a retried or repeated accept is never applied twice.
  */
 export async function acceptServiceRequest(
   serviceRequestId: string,
@@ -77,7 +79,11 @@ export async function acceptServiceRequest(
       providerDetails,
     });
     
-    const response = await apiPut<ServiceRequest>(`/provider/serviceRequests/${serviceRequestId}/accept`, providerDetails || {});
+    const response = await apiPut<ServiceRequest>(
+      `/provider/serviceRequests/${serviceRequestId}/accept`,
+      providerDetails || {},
+      {idempotencyKey: `accept-${serviceRequestId}`},
+    );
     
     console.log('✅ [API] Accept response received:', {
       serviceRequestId: response?._id || response?.id,
@@ -4,6 +4,7 @@
  */
 
 import {apiGet, apiPut, apiPost} from './apiClient';
+import {NotFoundError} from './apiErrors';
 
 export interface UserLocation {
   latitude?: number;
@@ -56,7 +57,7 @@ export async function getMe(): Promise<User | null> {
   try {
     return await apiGet<User>('/users/me');
   } catch (error: any) {
-    if (error.message?.includes('not found') || error.message?.includes('404')) {
+    if (error instanceof NotFoundError) {
       return null;
     }
     throw error;
@@ -70,7 +71,7 @@ export async function getUserById(userId: string): Promise<User | null> {
   try {
     return await apiGet<User>(`/users/${userId}`);
   } catch (error: any) {
-    if (error.message?.includes('not found') || error.message?.includes('404')) {
+    if (error instanceof NotFoundError) {
       return null;
     }
     throw error;
@@ -11,6 +11,10 @@ import {GoogleSignin} from '@react-native-google-signin/google-signin';
 import type {User, UserLocation} from '../types/consultation';
 import NotificationService from './notificationService';
 import {usersApi} from './api/usersApi';
+import {stopScheduler} from './backgroundScheduler';
+import {clearJobChat} from './chatService';
+import {clearBookingDecisions} from './bookingRulesService';
+import {clearNotifications} from './notificationCenterService';
 
 // Configure Google Sign-In
 GoogleSignin.configure({
@@ -292,6 +296,13 @@ export const logout = async (): Promise<void> => {
     } catch {
       // ignore
     }
+    // Booking polls and any other periodic work end with the session
+    stopScheduler();
+    // Customer conversations must not outlive the session on a shared phone
+    await clearJobChat();
+    // The decision log names customers too
+    await clearBookingDecisions().catch(() => {});
+    await clearNotifications().catch(() => {});
 
     try {
       const websocketService = (await import('./websocketService')).default;
@@ -0,0 +1,265 @@
+/**
+ * Provider availability: weekly working hours, blackout dates and the
+ * schedule-driven online/offline toggle.
+ * The schedule is cached in AsyncStorage so the auto-toggle keeps working
+ * when the backend is unreachable; the backend copy (providersApi) is what
+ * nearby-pending matching uses to skip off-shift providers.
+ */
+
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import {AppState, AppStateStatus} from 'react-native';
+import {
+  getMyAvailability,
+  updateMyAvailability,
+  ProviderAvailability,
+  Weekday,
+  WorkingHours,
+} from './api/providersApi';
+import {setProviderOnline} from './providerLocationService';
+
+export const AVAILABILITY_STORAGE_KEY = 'hs_provider_availability';
+
+/** Date.getDay() order */
+export const WEEKDAYS: Weekday[] = ['sun', 'mon', 'tue', 'wed', 'thu', 'fri', 'sat'];
+
+const CHECK_INTERVAL_MS = 60 * 1000;
+
+export const DEFAULT_AVAILABILITY: ProviderAvailability = {
+  weeklyHours: {
+    mon: {enabled: true, start: '09:00', end: '18:00'},
+    tue: {enabled: true, start: '09:00', end: '18:00'},
+    wed: {enabled: true, start: '09:00', end: '18:00'},
+    thu: {enabled: true, start: '09:00', end: '18:00'},
+    fri: {enabled: true, start: '09:00', end: '18:00'},
+    sat: {enabled: true, start: '09:00', end: '18:00'},
+    sun: {enabled: false, start: '09:00', end: '18:00'},
+  },
+  blackouts: [],
+  autoToggle: false,
+  timezone: 'Asia/Kolkata',
+};
+
+type Listener = (isOnShift: boolean) => void;
+
+const listeners = new Set<Listener>();
+let current: ProviderAvailability | null = null;
+let checkIntervalId: ReturnType<typeof setInterval> | null = null;
+let appStateSubscription: {remove: () => void} | null = null;
+let lastOnShift: boolean | null = null;
+
+/** Local 'YYYY-MM-DD' for a date (calendar keys, blackouts) */
+export const toDateKey = (date: Date): string => {
+  const y = date.getFullYear();
+  const m = String(date.getMonth() + 1).padStart(2, '0');
+  const d = String(date.getDate()).padStart(2, '0');
+  return `${y}-${m}-${d}`;
+};
+
+/** 'HH:mm' → minutes since midnight (NaN when malformed) */
+export const parseTime = (value: string): number => {
+  const match = /^(\d{1,2}):(\d{2})$/.exec(value || '');
+  if (!match) return NaN;
+  return Number(match[1]) * 60 + Number(match[2]);
+};
+
+export const formatTime = (minutes: number): string => {
+  const normalized = ((minutes % 1440) + 1440) % 1440;
+  const h = String(Math.floor(normalized / 60)).padStart(2, '0');
+  const m = String(normalized % 60).padStart(2, '0');
+  return `${h}:${m}`;
+};
+
+/** Fill gaps from older backends / caches so callers can rely on every weekday */
+export const normalizeAvailability = (
+  raw?: Partial<ProviderAvailability> | null,
+): ProviderAvailability => {
+  const weeklyHours = {...DEFAULT_AVAILABILITY.weeklyHours};
+  WEEKDAYS.forEach(day => {
+    const hours = raw?.weeklyHours?.[day];
+    if (hours) weeklyHours[day] = {...weeklyHours[day], ...hours};
+  });
+  return {
+    ...DEFAULT_AVAILABILITY,
+    ...(raw || {}),
+    weeklyHours,
+    blackouts: Array.isArray(raw?.blackouts) ? raw!.blackouts : [],
+  };
+};
+
+export const isBlackoutDate = (
+  availability: ProviderAvailability,
+  date: Date,
+): boolean => {
+  const key = toDateKey(date);
+  return availability.blackouts.some(b => b.date === key);
+};
+
+/**
+ * Whether `date` falls inside a working shift. A shift whose end is not
+ * after its start runs past midnight; blackouts apply to the day a shift starts.
+ */
+export const isOnShift = (
+  availability: ProviderAvailability,
+  date: Date = new Date(),
+): boolean => {
+  const minutes = date.getHours() * 60 + date.getMinutes();
+
+  const shiftCovers = (day: Date, hours: WorkingHours, previousDay: boolean) => {
+    if (!hours.enabled || isBlackoutDate(availability, day)) return false;
+    const start = parseTime(hours.start);
+    const end = parseTime(hours.end);
+    if (Number.isNaN(start) || Number.isNaN(end)) return false;
+    const overnight = end <= start;
+    if (previousDay) return overnight && minutes < end;
+    return overnight ? minutes >= start : minutes >= start && minutes < end;
+  };
+
+  const today = new Date(date.getFullYear(), date.getMonth(), date.getDate());
+  const yesterday = new Date(today);
+  yesterday.setDate(today.getDate() - 1);
+
+  return (
+    shiftCovers(today, availability.weeklyHours[WEEKDAYS[today.getDay()]], false) ||
+    shiftCovers(yesterday, availability.weeklyHours[WEEKDAYS[yesterday.getDay()]], true)
+  );
+};
+
+/** Validation message key for the editor, or null when the schedule is usable */
+export const validateAvailability = (
+  availability: ProviderAvailability,
+): string | null => {
+  for (const day of WEEKDAYS) {
+    const hours = availability.weeklyHours[day];
+    if (!hours.enabled) continue;
+    if (Number.isNaN(parseTime(hours.start)) || Number.isNaN(parseTime(hours.end))) {
+      return 'schedule.invalidTime';
+    }
+    if (hours.start === hours.end) return 'schedule.emptyShift';
+  }
+  return null;
+};
+
+async function readCache(): Promise<ProviderAvailability | null> {
+  try {
+    const raw = await AsyncStorage.getItem(AVAILABILITY_STORAGE_KEY);
+    return raw ? normalizeAvailability(JSON.parse(raw)) : null;
+  } catch {
+    return null;
+  }
+}
+
+async function writeCache(availability: ProviderAvailability): Promise<void> {
+  try {
+    await AsyncStorage.setItem(AVAILABILITY_STORAGE_KEY, JSON.stringify(availability));
+  } catch (e) {
+    console.warn('[availability] failed to cache schedule', e);
+  }
+}
+
+/**
+ * Backend schedule when reachable, else the cached copy, else defaults.
+ */
+export async function loadAvailability(): Promise<ProviderAvailability> {
+  try {
+    const remote = await getMyAvailability();
+    if (remote) {
+      current = normalizeAvailability(remote);
+      await writeCache(current);
+      return current;
+    }
+  } catch (error: any) {
+    console.warn('[availability] using cached schedule:', error?.message || error);
+  }
+  current = (await readCache()) || current || normalizeAvailability(DEFAULT_AVAILABILITY);
+  return current;
+}
+
+/**
+ * Save locally first (so the auto-toggle follows it immediately), then push.
+ * Throws when the backend rejects or cannot be reached.
+ */
+export async function saveAvailability(
+  availability: ProviderAvailability,
+): Promise<ProviderAvailability> {
+  const next = normalizeAvailability({
+    ...availability,
+    blackouts: [...availability.blackouts].sort((a, b) => a.date.localeCompare(b.date)),
+    updatedAt: new Date().toISOString(),
+  });
+  current = next;
+  await writeCache(next);
+  // Re-baseline so a schedule edit does not itself flip the online status
+  lastOnShift = isOnShift(next);
+
+  const saved = await updateMyAvailability(next);
+  if (saved) {
+    current = normalizeAvailability({...next, ...saved});
+    await writeCache(current);
+  }
+  return current;
+}
+
+/** Notified with the new status whenever the schedule toggles the provider. */
+export function onScheduledStatusChange(listener: Listener): () => void {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+async function checkSchedule(): Promise<void> {
+  const availability = current || (await loadAvailability());
+  const onShift = isOnShift(availability);
+
+  // First check only records the state — opening the app never overrides a manual toggle
+  if (lastOnShift === null || lastOnShift === onShift) {
+    lastOnShift = onShift;
+    return;
+  }
+  lastOnShift = onShift;
+  if (!availability.autoToggle) return;
+
+  try {
+    await setProviderOnline(onShift);
+    listeners.forEach(cb => {
+      try {
+        cb(onShift);
+      } catch (e) {
+        console.warn('[availability] listener error', e);
+      }
+    });
+  } catch (error: any) {
+    console.warn('[availability] auto toggle failed:', error?.message || error);
+  }
+}
+
+/**
+ * Watch shift boundaries (every minute and on app foreground) and flip
+ * online status when auto-toggle is enabled. Returns a stop function.
+ */
+export function startAvailabilitySchedule(): () => void {
+  stopAvailabilitySchedule();
+
+  void loadAvailability().then(() => checkSchedule());
+  checkIntervalId = setInterval(() => {
+    void checkSchedule();
+  }, CHECK_INTERVAL_MS);
+  appStateSubscription = AppState.addEventListener(
+    'change',
+    (state: AppStateStatus) => {
+      if (state === 'active') void checkSchedule();
+    },
+  );
+
+  return stopAvailabilitySchedule;
+}
+
+export function stopAvailabilitySchedule(): void {
+  if (checkIntervalId) {
+    clearInterval(checkIntervalId);
+    checkIntervalId = null;
+  }
+  appStateSubscription?.remove();
+  appStateSubscription = null;
+  lastOnShift = null;
+}
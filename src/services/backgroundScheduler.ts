@@ -0,0 +1,222 @@
+/**
+ * Background scheduler (Provider App)
+ * One place that runs the app's periodic work — location pushes and
+ * booking polls — so it all pauses together when the provider goes off
+ * duty or loses connectivity, and stops for good on logout.
+ * Each task decides its own next delay after every run, which lets
+ * callers back off (stationary, power saver) without juggling intervals.
+ */
+
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import NetInfo, {NetInfoState} from '@react-native-community/netinfo';
+
+export const POWER_SAVER_STORAGE_KEY = 'hs_provider_power_saver';
+
+export interface ScheduledTask {
+  id: string;
+  run: () => Promise<void>;
+  /** Read after every run (and on reschedule) */
+  nextDelayMs: () => number;
+  /** Only run while the provider is on duty (default true) */
+  requiresDuty?: boolean;
+}
+
+export interface SchedulerState {
+  onDuty: boolean;
+  connected: boolean;
+  /** Connection is metered (cellular / hotspot) — tasks should save data */
+  expensive: boolean;
+  /** Battery / data saver chosen by the provider */
+  powerSaver: boolean;
+}
+
+type Entry = {
+  task: ScheduledTask;
+  timer: ReturnType<typeof setTimeout> | null;
+  running: boolean;
+};
+
+type StateListener = (state: SchedulerState) => void;
+
+const entries = new Map<string, Entry>();
+const stateListeners = new Set<StateListener>();
+const INITIAL_STATE: SchedulerState = {
+  onDuty: false,
+  connected: true,
+  expensive: false,
+  powerSaver: false,
+};
+
+let state: SchedulerState = {...INITIAL_STATE};
+let netInfoUnsubscribe: (() => void) | null = null;
+let powerSaverLoaded = false;
+
+const canRun = (task: ScheduledTask): boolean =>
+  state.connected && (task.requiresDuty === false || state.onDuty);
+
+const clearTimer = (entry: Entry) => {
+  if (entry.timer) {
+    clearTimeout(entry.timer);
+    entry.timer = null;
+  }
+};
+
+const schedule = (entry: Entry, delayMs: number) => {
+  clearTimer(entry);
+  if (!canRun(entry.task)) return;
+  entry.timer = setTimeout(() => void execute(entry), Math.max(0, delayMs));
+};
+
+async function execute(entry: Entry): Promise<void> {
+  entry.timer = null;
+  if (entry.running || entries.get(entry.task.id) !== entry || !canRun(entry.task)) return;
+  entry.running = true;
+  try {
+    await entry.task.run();
+  } catch (error: any) {
+    // Tasks handle their own failures; never let one break the loop
+    console.warn(`[scheduler] ${entry.task.id} failed:`, error?.message || error);
+  } finally {
+    entry.running = false;
+  }
+  if (entries.get(entry.task.id) === entry) {
+    schedule(entry, entry.task.nextDelayMs());
+  }
+}
+
+/** Run every runnable task now and re-arm the rest (after a state change) */
+const resumeAll = () => {
+  entries.forEach(entry => {
+    if (canRun(entry.task)) {
+      if (!entry.timer && !entry.running) schedule(entry, 0);
+    } else {
+      clearTimer(entry);
+    }
+  });
+};
+
+const setState = (patch: Partial<SchedulerState>) => {
+  const next = {...state, ...patch};
+  const keys = Object.keys(next) as (keyof SchedulerState)[];
+  if (keys.every(key => next[key] === state[key])) return;
+  const gateChanged = next.onDuty !== state.onDuty || next.connected !== state.connected;
+  state = next;
+  if (gateChanged) {
+    resumeAll();
+  } else {
+    // Saver changes only stretch or shorten the next wait
+    entries.forEach(entry => {
+      if (entry.timer) schedule(entry, entry.task.nextDelayMs());
+    });
+  }
+  const snapshot = {...state};
+  stateListeners.forEach(cb => {
+    try {
+      cb(snapshot);
+    } catch (e) {
+      console.warn('[scheduler] listener error', e);
+    }
+  });
+};
+
+const applyNetInfo = (net: NetInfoState) => {
+  setState({
+    connected: !!net.isConnected && net.isInternetReachable !== false,
+    expensive: !!(net.details as {isConnectionExpensive?: boolean} | null)?.isConnectionExpensive,
+  });
+};
+
+const ensureStarted = () => {
+  if (!powerSaverLoaded) {
+    powerSaverLoaded = true;
+    AsyncStorage.getItem(POWER_SAVER_STORAGE_KEY)
+      .then(value => setState({powerSaver: value === '1'}))
+      .catch(() => {});
+  }
+  if (netInfoUnsubscribe) return;
+  try {
+    netInfoUnsubscribe = NetInfo.addEventListener(applyNetInfo);
+  } catch (error: any) {
+    console.warn('[scheduler] NetInfo unavailable:', error?.message || error);
+  }
+};
+
+/**
+ * Add (or replace) a periodic task; it runs immediately when allowed.
+ * Returns a function that removes it.
+ */
+export function registerTask(task: ScheduledTask): () => void {
+  ensureStarted();
+  const previous = entries.get(task.id);
+  if (previous) clearTimer(previous);
+  const entry: Entry = {task, timer: null, running: false};
+  entries.set(task.id, entry);
+  schedule(entry, 0);
+  return () => {
+    if (entries.get(task.id) === entry) {
+      clearTimer(entry);
+      entries.delete(task.id);
+    }
+  };
+}
+
+/** Run a task now instead of waiting for its timer (e.g. its mode changed) */
+export function runTaskNow(id: string): void {
+  const entry = entries.get(id);
+  if (entry && !entry.running) schedule(entry, 0);
+}
+
+/** Re-read a task's delay without running it now */
+export function rescheduleTask(id: string): void {
+  const entry = entries.get(id);
+  if (entry && !entry.running) schedule(entry, entry.task.nextDelayMs());
+}
+
+/** Provider went online / offline — duty tasks follow */
+export function setOnDuty(onDuty: boolean): void {
+  setState({onDuty});
+}
+
+export const getSchedulerState = (): SchedulerState => ({...state});
+
+/** Power saver chosen by the provider, or a metered connection */
+export const isSavingPower = (): boolean => state.powerSaver || state.expensive;
+
+export async function setPowerSaver(enabled: boolean): Promise<void> {
+  powerSaverLoaded = true;
+  setState({powerSaver: enabled});
+  try {
+    await AsyncStorage.setItem(POWER_SAVER_STORAGE_KEY, enabled ? '1' : '0');
+  } catch {
+    // keeps working for this session
+  }
+}
+
+export async function getPowerSaver(): Promise<boolean> {
+  if (!powerSaverLoaded) {
+    powerSaverLoaded = true;
+    try {
+      state = {...state, powerSaver: (await AsyncStorage.getItem(POWER_SAVER_STORAGE_KEY)) === '1'};
+    } catch {
+      // default off
+    }
+  }
+  return state.powerSaver;
+}
+
+export function onSchedulerStateChange(listener: StateListener): () => void {
+  stateListeners.add(listener);
+  return () => {
+    stateListeners.delete(listener);
+  };
+}
+
+/** Logout: drop every task and stop listening for connectivity */
+export function stopScheduler(): void {
+  entries.forEach(clearTimer);
+  entries.clear();
+  netInfoUnsubscribe?.();
+  netInfoUnsubscribe = null;
+  state = {...INITIAL_STATE};
+  powerSaverLoaded = false;
+}
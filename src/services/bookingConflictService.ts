@@ -0,0 +1,178 @@
+/**
+ * Booking conflict detection (Provider App)
+ * Before accepting a request, compare it against the provider's open job
+ * cards: overlapping time windows (double booking) and back-to-back jobs
+ * whose gap is shorter than the travel time between the two addresses.
+ */
+
+import {getProviderJobCards, JobCard} from './jobCardService';
+import {
+  DEFAULT_SERVICE_CATEGORIES,
+  getServiceCategoryByName,
+} from './serviceCategoriesService';
+import {calculateDistance, calculateETA, formatDistance} from './providerLocationService';
+
+/** Used when neither the backend nor the defaults know the category */
+export const DEFAULT_JOB_DURATION_MIN = 60;
+
+export type BookingConflictKind = 'overlap' | 'travel';
+
+export interface BookingConflict {
+  kind: BookingConflictKind;
+  jobCard: JobCard;
+  /** Clashing job's estimated window */
+  jobStart: Date;
+  jobEnd: Date;
+  /** Free time between the two jobs (0 when they overlap) */
+  gapMinutes: number;
+  /** Only when both addresses have coordinates */
+  distanceKm?: number;
+  distanceFormatted?: string;
+  travelMinutes?: number;
+}
+
+type Coordinates = {latitude?: number; longitude?: number} | null | undefined;
+
+type TimeWindow = {start: Date; end: Date};
+
+const durationCache = new Map<string, number>();
+
+/**
+ * Typical on-site time for a service category (backend value, then bundled default).
+ */
+export async function estimateJobDurationMinutes(serviceType?: string): Promise<number> {
+  const name = (serviceType || '').trim();
+  if (!name) return DEFAULT_JOB_DURATION_MIN;
+  const cached = durationCache.get(name);
+  if (cached) return cached;
+
+  let minutes: number | undefined;
+  try {
+    const category = await getServiceCategoryByName(name);
+    minutes = category?.estimatedDurationMinutes;
+  } catch {
+    // Offline / backend down — fall through to bundled defaults
+  }
+  if (!minutes) {
+    minutes = DEFAULT_SERVICE_CATEGORIES.find(
+      cat => cat.name.toLowerCase() === name.toLowerCase(),
+    )?.estimatedDurationMinutes;
+  }
+  const result = minutes && minutes > 0 ? minutes : DEFAULT_JOB_DURATION_MIN;
+  durationCache.set(name, result);
+  return result;
+}
+
+const toDate = (value?: Date | string): Date | null => {
+  if (!value) return null;
+  const d = value instanceof Date ? value : new Date(value);
+  return Number.isNaN(d.getTime()) ? null : d;
+};
+
+const addMinutes = (date: Date, minutes: number) =>
+  new Date(date.getTime() + minutes * 60 * 1000);
+
+const hasCoords = (c: Coordinates): c is {latitude: number; longitude: number} =>
+  c?.latitude != null && c?.longitude != null;
+
+/**
+ * Estimated window for an open job: an in-progress job runs from when it
+ * started, otherwise from its scheduled time; unscheduled jobs are "now".
+ */
+function jobWindow(jobCard: JobCard, durationMin: number, now: Date): TimeWindow {
+  const start =
+    (jobCard.status === 'in-progress' && toDate(jobCard.startedAt)) ||
+    toDate(jobCard.scheduledTime) ||
+    now;
+  const end = addMinutes(start, durationMin);
+  // An in-progress job that overran its estimate still occupies the provider
+  return {start, end: jobCard.status === 'in-progress' && end < now ? now : end};
+}
+
+/**
+ * Conflicts between an incoming booking and the provider's open job cards.
+ * Pure — callers pass the jobs (see `checkBookingConflicts` for the loader).
+ */
+export async function detectBookingConflicts(
+  booking: any,
+  openJobs: JobCard[],
+  now: Date = new Date(),
+): Promise<BookingConflict[]> {
+  const bookingStart = toDate(booking?.scheduledTime) || now;
+  const bookingDuration = await estimateJobDurationMinutes(booking?.serviceType);
+  const bookingWindow = {start: bookingStart, end: addMinutes(bookingStart, bookingDuration)};
+  const bookingAddress: Coordinates = booking?.customerAddress || booking?.patientAddress;
+  const bookingId = String(
+    booking?.serviceRequestId || booking?.consultationId || booking?.id || '',
+  );
+
+  const conflicts: BookingConflict[] = [];
+  for (const jobCard of openJobs) {
+    if (jobCard.status !== 'accepted' && jobCard.status !== 'in-progress') continue;
+    // The job card of this very booking (re-delivered request)
+    if (bookingId && (jobCard.consultationId === bookingId || jobCard.bookingId === bookingId)) {
+      continue;
+    }
+
+    const window = jobWindow(
+      jobCard,
+      await estimateJobDurationMinutes(jobCard.serviceType),
+      now,
+    );
+
+    let distanceKm: number | undefined;
+    let travelMinutes: number | undefined;
+    if (hasCoords(bookingAddress) && hasCoords(jobCard.customerAddress)) {
+      distanceKm = calculateDistance(
+        jobCard.customerAddress.latitude,
+        jobCard.customerAddress.longitude,
+        bookingAddress.latitude,
+        bookingAddress.longitude,
+      );
+      travelMinutes = calculateETA(distanceKm);
+    }
+    const travel = {
+      distanceKm,
+      distanceFormatted: distanceKm != null ? formatDistance(distanceKm) : undefined,
+      travelMinutes,
+    };
+
+    const overlaps =
+      bookingWindow.start < window.end && window.start < bookingWindow.end;
+    if (overlaps) {
+      conflicts.push({kind: 'overlap', jobCard, jobStart: window.start, jobEnd: window.end, gapMinutes: 0, ...travel});
+      continue;
+    }
+
+    const gapMinutes = Math.round(
+      (bookingWindow.start >= window.end
+        ? bookingWindow.start.getTime() - window.end.getTime()
+        : window.start.getTime() - bookingWindow.end.getTime()) / 60000,
+    );
+    if (travelMinutes != null && travelMinutes > gapMinutes) {
+      conflicts.push({kind: 'travel', jobCard, jobStart: window.start, jobEnd: window.end, gapMinutes, ...travel});
+    }
+  }
+
+  // Double bookings first, then the tightest gaps
+  return conflicts.sort((a, b) =>
+    a.kind === b.kind ? a.gapMinutes - b.gapMinutes : a.kind === 'overlap' ? -1 : 1,
+  );
+}
+
+/**
+ * Load the provider's open job cards and check the booking against them.
+ * Never throws — a failed check must not block accepting.
+ */
+export async function checkBookingConflicts(
+  booking: any,
+  providerId: string,
+): Promise<BookingConflict[]> {
+  try {
+    const jobs = await getProviderJobCards(providerId);
+    return await detectBookingConflicts(booking, jobs);
+  } catch (error: any) {
+    console.warn('[conflicts] check skipped:', error?.message || error);
+    return [];
+  }
+}
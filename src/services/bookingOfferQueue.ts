@@ -0,0 +1,101 @@
+/**
+ * Booking offer queue (Provider App)
+ * Incoming bookings wait here side by side instead of one at a time. Each
+ * offer has its own expiry; the queue is ordered immediate-before-scheduled,
+ * then nearest first, then whichever runs out sooner.
+ */
+
+import type {NewBookingEvent} from './socketProtocol';
+import type {BookingConflict} from './bookingConflictService';
+import type {ServiceAreaCheck} from './serviceAreaService';
+import {calculateDistance, formatDistance, getLatestFix} from './providerLocationService';
+
+/** Seconds each offer stays open before it is auto-declined */
+export const OFFER_TIMEOUT_SEC = 40;
+/** Offers held at once; later ones wait for the next poll */
+export const MAX_QUEUED_OFFERS = 5;
+/** A booking scheduled this close to now is treated as immediate */
+const IMMEDIATE_WINDOW_MIN = 60;
+
+export interface BookingOffer {
+  booking: NewBookingEvent;
+  receivedAt: number;
+  expiresAt: number;
+  immediate: boolean;
+  /** From the provider's current position, or the base address as a fallback */
+  distanceKm?: number;
+  distanceFormatted?: string;
+  serviceArea: ServiceAreaCheck | null;
+  /** Undefined until the clash check has finished */
+  conflicts?: BookingConflict[];
+}
+
+export function isImmediateBooking(booking: NewBookingEvent, now = Date.now()): boolean {
+  if (!booking.scheduledTime) return true;
+  const at = new Date(booking.scheduledTime).getTime();
+  return Number.isNaN(at) || at - now <= IMMEDIATE_WINDOW_MIN * 60 * 1000;
+}
+
+/** Distance to the customer from the current position, or the base address as a fallback */
+export function bookingDistanceKm(
+  booking: NewBookingEvent,
+  serviceArea: ServiceAreaCheck | null,
+): number | undefined {
+  const fix = getLatestFix();
+  const to = booking.customerAddress;
+  if (fix && typeof to?.latitude === 'number' && typeof to?.longitude === 'number') {
+    return calculateDistance(fix.latitude, fix.longitude, to.latitude, to.longitude);
+  }
+  return serviceArea?.distanceKm;
+}
+
+export function createOffer(
+  booking: NewBookingEvent,
+  serviceArea: ServiceAreaCheck | null,
+  now = Date.now(),
+): BookingOffer {
+  const distanceKm = bookingDistanceKm(booking, serviceArea);
+  return {
+    booking,
+    receivedAt: now,
+    expiresAt: now + OFFER_TIMEOUT_SEC * 1000,
+    immediate: isImmediateBooking(booking, now),
+    distanceKm,
+    distanceFormatted: distanceKm !== undefined ? formatDistance(distanceKm) : undefined,
+    serviceArea,
+  };
+}
+
+export function compareOffers(a: BookingOffer, b: BookingOffer): number {
+  if (a.immediate !== b.immediate) return a.immediate ? -1 : 1;
+  const distanceA = a.distanceKm ?? Number.POSITIVE_INFINITY;
+  const distanceB = b.distanceKm ?? Number.POSITIVE_INFINITY;
+  if (distanceA !== distanceB) return distanceA - distanceB;
+  return a.expiresAt - b.expiresAt;
+}
+
+/** Add an offer in priority order; a full queue keeps the better ones */
+export function enqueueOffer(queue: BookingOffer[], offer: BookingOffer): BookingOffer[] {
+  if (queue.some(item => item.booking.serviceRequestId === offer.booking.serviceRequestId)) {
+    return queue;
+  }
+  return [...queue, offer].sort(compareOffers).slice(0, MAX_QUEUED_OFFERS);
+}
+
+export function removeOffer(queue: BookingOffer[], serviceRequestId: string): BookingOffer[] {
+  return queue.filter(item => item.booking.serviceRequestId !== serviceRequestId);
+}
+
+export function updateOffer(
+  queue: BookingOffer[],
+  serviceRequestId: string,
+  patch: Partial<Omit<BookingOffer, 'booking'>>,
+): BookingOffer[] {
+  return queue.map(item =>
+    item.booking.serviceRequestId === serviceRequestId ? {...item, ...patch} : item,
+  );
+}
+
+export function secondsLeftFor(offer: BookingOffer, now = Date.now()): number {
+  return Math.max(0, Math.ceil((offer.expiresAt - now) / 1000));
+}
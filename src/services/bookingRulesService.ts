@@ -0,0 +1,498 @@
+/**
+ * Booking rules (Provider App)
+ * Provider-configured filters and auto-accept rules for incoming offers.
+ * Filters keep non-matching offers silent (no hooter, no alert); auto-accept
+ * rules take matching offers without a tap, up to a daily cap per rule.
+ * Every automated decision is written to a local log the provider can
+ * review in settings.
+ */
+
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import i18n from '../i18n';
+import websocketService from './websocketService';
+import {getMyProfile} from './api/providersApi';
+import {createJobCard} from './jobCardService';
+import {checkBookingConflicts} from './bookingConflictService';
+import {bookingDistanceKm, isImmediateBooking} from './bookingOfferQueue';
+import {toDateKey} from './availabilityService';
+import {announce} from './voicePromptService';
+import notificationService from './notificationService';
+import type {NewBookingEvent} from './socketProtocol';
+import type {ServiceAreaCheck} from './serviceAreaService';
+
+const RULES_STORAGE_KEY = 'hs_provider_booking_rules';
+const DECISIONS_STORAGE_KEY = 'hs_provider_booking_decisions';
+const COUNTS_STORAGE_KEY = 'hs_provider_auto_accept_counts';
+/** Decisions kept for review; older ones roll off */
+const MAX_DECISIONS = 200;
+/** Job card attempts after an auto-accept; the booking is already ours by then */
+const JOB_CARD_ATTEMPTS = 3;
+const JOB_CARD_RETRY_MS = 2000;
+
+export type UrgencyPreference = 'any' | 'immediate' | 'scheduled';
+
+export interface BookingCriteria {
+  /** Service category names; empty matches every category */
+  categories: string[];
+  maxDistanceKm: number | null;
+  minFare: number | null;
+  urgency: UrgencyPreference;
+  /** 'HH:MM' window the job must fall in (may wrap past midnight); null = any time */
+  timeWindow: {start: string; end: string} | null;
+}
+
+export interface BookingFilters extends BookingCriteria {
+  enabled: boolean;
+}
+
+export interface AutoAcceptRule extends BookingCriteria {
+  id: string;
+  name: string;
+  enabled: boolean;
+  /** Most offers this rule accepts per day */
+  dailyCap: number;
+}
+
+export interface BookingRules {
+  filters: BookingFilters;
+  autoAcceptRules: AutoAcceptRule[];
+}
+
+/** Why an offer did not match, or why automation stepped aside */
+export type DecisionReason =
+  | 'category'
+  | 'distance'
+  | 'fare'
+  | 'urgency'
+  | 'time_of_day'
+  | 'daily_cap'
+  | 'conflict'
+  | 'accept_failed'
+  | 'job_card_failed';
+
+export type DecisionOutcome = 'filtered' | 'auto_accepted' | 'offered';
+
+export interface BookingDecision {
+  id: string;
+  serviceRequestId: string;
+  at: string;
+  outcome: DecisionOutcome;
+  ruleId?: string;
+  ruleName?: string;
+  reasons: DecisionReason[];
+  serviceType?: string;
+  customerName: string;
+  distanceKm?: number;
+  fare?: number;
+  immediate: boolean;
+  /** Error text when an auto-accept attempt or its job card failed */
+  error?: string;
+}
+
+/** What the rules look at for one offer */
+export interface BookingFacts {
+  serviceType?: string;
+  distanceKm?: number;
+  fare?: number;
+  immediate: boolean;
+  /** When the job happens: the scheduled time, else now */
+  jobTime: Date;
+}
+
+export type RulesVerdict =
+  | {action: 'ignore'; reasons: DecisionReason[]}
+  | {action: 'auto_accept'; rule: AutoAcceptRule}
+  | {action: 'offer'; reasons: DecisionReason[]};
+
+export const DEFAULT_CRITERIA: BookingCriteria = {
+  categories: [],
+  maxDistanceKm: null,
+  minFare: null,
+  urgency: 'any',
+  timeWindow: null,
+};
+
+export const DEFAULT_BOOKING_RULES: BookingRules = {
+  filters: {...DEFAULT_CRITERIA, enabled: false},
+  autoAcceptRules: [],
+};
+
+let cachedRules: BookingRules | null = null;
+/**
+ * Cap slots held by auto-accepts still in flight, by rule id. Taken in the
+ * same tick as the verdict so two offers arriving together cannot both
+ * pass a cap with one slot left; released once the acceptance is counted
+ * or has failed.
+ */
+const reservedToday = new Map<string, number>();
+const decisionListeners = new Set<(decisions: BookingDecision[]) => void>();
+
+const minutesOf = (hhmm: string): number => {
+  const [h, m] = hhmm.split(':').map(Number);
+  return (h || 0) * 60 + (m || 0);
+};
+
+function inTimeWindow(window: {start: string; end: string}, at: Date): boolean {
+  const start = minutesOf(window.start);
+  const end = minutesOf(window.end);
+  const minute = at.getHours() * 60 + at.getMinutes();
+  if (start === end) return true;
+  // Overnight windows (e.g. 20:00–06:00) wrap past midnight
+  return start < end ? minute >= start && minute < end : minute >= start || minute < end;
+}
+
+export function bookingFacts(
+  booking: NewBookingEvent,
+  serviceArea: ServiceAreaCheck | null,
+): BookingFacts {
+  const scheduled = booking.scheduledTime ? new Date(booking.scheduledTime) : null;
+  return {
+    serviceType: booking.serviceType,
+    distanceKm: bookingDistanceKm(booking, serviceArea),
+    fare: booking.serviceFee,
+    immediate: isImmediateBooking(booking),
+    jobTime: scheduled && !Number.isNaN(scheduled.getTime()) ? scheduled : new Date(),
+  };
+}
+
+/**
+ * Criteria an offer misses (empty = match). Unknown distance or fare only
+ * fails in strict mode — filters give the offer the benefit of the doubt,
+ * auto-accept does not.
+ */
+export function unmetCriteria(
+  criteria: BookingCriteria,
+  facts: BookingFacts,
+  strict: boolean,
+): DecisionReason[] {
+  const reasons: DecisionReason[] = [];
+  if (criteria.categories.length > 0) {
+    const type = facts.serviceType?.trim().toLowerCase();
+    if (!type || !criteria.categories.some(category => category.toLowerCase() === type)) {
+      reasons.push('category');
+    }
+  }
+  if (criteria.maxDistanceKm != null) {
+    if (facts.distanceKm === undefined ? strict : facts.distanceKm > criteria.maxDistanceKm) {
+      reasons.push('distance');
+    }
+  }
+  if (criteria.minFare != null) {
+    if (facts.fare === undefined ? strict : facts.fare < criteria.minFare) {
+      reasons.push('fare');
+    }
+  }
+  if (
+    (criteria.urgency === 'immediate' && !facts.immediate) ||
+    (criteria.urgency === 'scheduled' && facts.immediate)
+  ) {
+    reasons.push('urgency');
+  }
+  if (criteria.timeWindow && !inTimeWindow(criteria.timeWindow, facts.jobTime)) {
+    reasons.push('time_of_day');
+  }
+  return reasons;
+}
+
+/**
+ * Decide what to do with an offer (pure). Offers sent to this provider
+ * directly are never filtered out, but may still be auto-accepted.
+ */
+export function evaluateRules(
+  rules: BookingRules,
+  facts: BookingFacts,
+  targeted: boolean,
+  acceptedToday: Record<string, number>,
+): RulesVerdict {
+  if (rules.filters.enabled && !targeted) {
+    const reasons = unmetCriteria(rules.filters, facts, false);
+    if (reasons.length > 0) return {action: 'ignore', reasons};
+  }
+
+  const reasons = new Set<DecisionReason>();
+  for (const rule of rules.autoAcceptRules) {
+    if (!rule.enabled) continue;
+    const unmet = unmetCriteria(rule, facts, true);
+    if (unmet.length > 0) {
+      unmet.forEach(reason => reasons.add(reason));
+      continue;
+    }
+    if ((acceptedToday[rule.id] || 0) >= rule.dailyCap) {
+      reasons.add('daily_cap');
+      continue;
+    }
+    return {action: 'auto_accept', rule};
+  }
+  return {action: 'offer', reasons: [...reasons]};
+}
+
+export async function getBookingRules(): Promise<BookingRules> {
+  if (cachedRules) return cachedRules;
+  try {
+    const raw = await AsyncStorage.getItem(RULES_STORAGE_KEY);
+    const stored = raw ? (JSON.parse(raw) as Partial<BookingRules>) : {};
+    cachedRules = {
+      filters: {...DEFAULT_BOOKING_RULES.filters, ...stored.filters},
+      autoAcceptRules: (stored.autoAcceptRules || []).map(rule => ({...DEFAULT_CRITERIA, ...rule})),
+    };
+  } catch {
+    cachedRules = DEFAULT_BOOKING_RULES;
+  }
+  return cachedRules;
+}
+
+export async function saveBookingRules(rules: BookingRules): Promise<void> {
+  cachedRules = rules;
+  await AsyncStorage.setItem(RULES_STORAGE_KEY, JSON.stringify(rules));
+}
+
+export function createAutoAcceptRule(name: string): AutoAcceptRule {
+  return {
+    ...DEFAULT_CRITERIA,
+    id: `rule-${Date.now().toString(36)}`,
+    name,
+    enabled: true,
+    dailyCap: 3,
+  };
+}
+
+async function getAcceptedToday(): Promise<Record<string, number>> {
+  try {
+    const raw = await AsyncStorage.getItem(COUNTS_STORAGE_KEY);
+    const stored = raw ? JSON.parse(raw) : null;
+    return stored?.date === toDateKey(new Date()) ? stored.counts || {} : {};
+  } catch {
+    return {};
+  }
+}
+
+function withReserved(counts: Record<string, number>): Record<string, number> {
+  const merged = {...counts};
+  reservedToday.forEach((reserved, ruleId) => {
+    merged[ruleId] = (merged[ruleId] || 0) + reserved;
+  });
+  return merged;
+}
+
+function reserveSlot(ruleId: string): () => void {
+  reservedToday.set(ruleId, (reservedToday.get(ruleId) || 0) + 1);
+  return () => {
+    const left = (reservedToday.get(ruleId) || 1) - 1;
+    if (left > 0) reservedToday.set(ruleId, left);
+    else reservedToday.delete(ruleId);
+  };
+}
+
+async function countAcceptance(ruleId: string): Promise<void> {
+  const counts = await getAcceptedToday();
+  counts[ruleId] = (counts[ruleId] || 0) + 1;
+  await AsyncStorage.setItem(
+    COUNTS_STORAGE_KEY,
+    JSON.stringify({date: toDateKey(new Date()), counts}),
+  );
+}
+
+/** Offers each rule has accepted today, by rule id */
+export async function getAutoAcceptCountsToday(): Promise<Record<string, number>> {
+  return getAcceptedToday();
+}
+
+export async function getBookingDecisions(): Promise<BookingDecision[]> {
+  try {
+    const raw = await AsyncStorage.getItem(DECISIONS_STORAGE_KEY);
+    return raw ? (JSON.parse(raw) as BookingDecision[]) : [];
+  } catch {
+    return [];
+  }
+}
+
+async function recordDecision(
+  booking: NewBookingEvent,
+  facts: BookingFacts,
+  decision: Pick<BookingDecision, 'outcome' | 'reasons' | 'ruleId' | 'ruleName' | 'error'>,
+): Promise<void> {
+  const entry: BookingDecision = {
+    id: `${booking.serviceRequestId}-${Date.now()}`,
+    serviceRequestId: booking.serviceRequestId,
+    at: new Date().toISOString(),
+    serviceType: facts.serviceType,
+    customerName: booking.customerName,
+    distanceKm: facts.distanceKm,
+    fare: facts.fare,
+    immediate: facts.immediate,
+    ...decision,
+  };
+  const decisions = [entry, ...(await getBookingDecisions())].slice(0, MAX_DECISIONS);
+  try {
+    await AsyncStorage.setItem(DECISIONS_STORAGE_KEY, JSON.stringify(decisions));
+  } catch (error) {
+    console.warn('[bookingRules] could not save decision log', error);
+  }
+  decisionListeners.forEach(listener => listener(decisions));
+}
+
+export async function clearBookingDecisions(): Promise<void> {
+  await AsyncStorage.removeItem(DECISIONS_STORAGE_KEY);
+  decisionListeners.forEach(listener => listener([]));
+}
+
+export function onBookingDecisions(listener: (decisions: BookingDecision[]) => void): () => void {
+  decisionListeners.add(listener);
+  return () => decisionListeners.delete(listener);
+}
+
+async function createJobCardWithRetry(booking: NewBookingEvent, address: any): Promise<void> {
+  for (let attempt = 1; ; attempt++) {
+    try {
+      await createJobCard(booking, address);
+      return;
+    } catch (error) {
+      if (attempt >= JOB_CARD_ATTEMPTS) throw error;
+      await new Promise(resolve => setTimeout(resolve, JOB_CARD_RETRY_MS * attempt));
+    }
+  }
+}
+
+/**
+ * Accept the offer. Throws only when the accept itself fails; once the
+ * server has assigned the booking it is counted and never offered again,
+ * and a job card that still fails after retries is returned as an error
+ * for the log.
+ */
+async function autoAccept(
+  booking: NewBookingEvent,
+  rule: AutoAcceptRule,
+  providerId: string,
+): Promise<{jobCardError?: string}> {
+  const provider = await getMyProfile();
+  const address = (provider as any)?.address;
+  if (!provider || !address?.pincode) {
+    throw new Error(String(i18n.t('dashboard.addressRequired')));
+  }
+  await websocketService.acceptBooking(booking, provider._id || provider.id || providerId, provider);
+
+  try {
+    await countAcceptance(rule.id);
+  } catch (error) {
+    console.warn('[bookingRules] could not count acceptance', error);
+  }
+
+  let jobCardError: string | undefined;
+  try {
+    await createJobCardWithRetry(booking, address);
+  } catch (error: any) {
+    console.warn('[bookingRules] job card not created for accepted booking', error?.message || error);
+    jobCardError = error?.message || String(error);
+  }
+
+  const params = {
+    service: booking.serviceType || String(i18n.t('dashboard.offers.service')),
+    customer: booking.customerName,
+    rule: rule.name,
+  };
+  void announce('job_auto_accepted', {service: booking.serviceType});
+  notificationService.showLocalNotification(
+    String(i18n.t('bookingRules.notification.title')),
+    String(
+      i18n.t(
+        jobCardError
+          ? 'bookingRules.notification.jobCardFailed'
+          : 'bookingRules.notification.message',
+        params,
+      ),
+    ),
+    {type: 'auto_accepted', serviceRequestId: booking.serviceRequestId},
+  );
+  return {jobCardError};
+}
+
+/**
+ * Whether the hooter should ring for a socket offer. Registered with the
+ * socket service so filtered and auto-accepted offers stay silent.
+ */
+async function shouldRing(booking: NewBookingEvent): Promise<boolean> {
+  const rules = await getBookingRules();
+  const facts = bookingFacts(booking, null);
+  const verdict = evaluateRules(
+    rules,
+    facts,
+    booking.isTargeted,
+    withReserved(await getAcceptedToday()),
+  );
+  return verdict.action === 'offer';
+}
+
+/**
+ * Run an offer through the provider's rules. Returns 'offer' when it should
+ * be shown to the provider; 'ignored' and 'accepted' offers are done with.
+ */
+export async function applyBookingRules(
+  booking: NewBookingEvent,
+  serviceArea: ServiceAreaCheck | null,
+  providerId: string,
+): Promise<'ignored' | 'accepted' | 'offer'> {
+  const rules = await getBookingRules();
+  const facts = bookingFacts(booking, serviceArea);
+  const verdict = evaluateRules(
+    rules,
+    facts,
+    booking.isTargeted,
+    withReserved(await getAcceptedToday()),
+  );
+
+  if (verdict.action === 'ignore') {
+    await recordDecision(booking, facts, {outcome: 'filtered', reasons: verdict.reasons});
+    return 'ignored';
+  }
+
+  if (verdict.action === 'auto_accept') {
+    const {rule} = verdict;
+    const ruleRef = {ruleId: rule.id, ruleName: rule.name};
+    const releaseSlot = reserveSlot(rule.id);
+    try {
+      // A clash needs a human decision
+      const conflicts = await checkBookingConflicts(booking, providerId);
+      if (conflicts.length > 0) {
+        await recordDecision(booking, facts, {outcome: 'offered', reasons: ['conflict'], ...ruleRef});
+        // The hooter gate expected an auto-accept and kept quiet
+        void websocketService.startSound(booking);
+        return 'offer';
+      }
+      let accepted: {jobCardError?: string};
+      try {
+        accepted = await autoAccept(booking, rule, providerId);
+      } catch (error: any) {
+        console.warn('[bookingRules] auto-accept failed', error?.message || error);
+        await recordDecision(booking, facts, {
+          outcome: 'offered',
+          reasons: ['accept_failed'],
+          error: error?.message || String(error),
+          ...ruleRef,
+        });
+        void websocketService.startSound(booking);
+        return 'offer';
+      }
+      await recordDecision(booking, facts, {
+        outcome: 'auto_accepted',
+        reasons: accepted.jobCardError ? ['job_card_failed'] : [],
+        error: accepted.jobCardError,
+        ...ruleRef,
+      });
+      return 'accepted';
+    } finally {
+      releaseSlot();
+    }
+  }
+
+  // Only worth logging when automation was in play and stepped aside
+  if (verdict.reasons.length > 0) {
+    await recordDecision(booking, facts, {outcome: 'offered', reasons: verdict.reasons});
+  }
+  return 'offer';
+}
+
+/** Gate the hooter on the rules; returns the cleanup */
+export function startBookingRules(): () => void {
+  websocketService.setHooterGate(shouldRing);
+  return () => websocketService.setHooterGate(null);
+}
@@ -1,277 +1,682 @@
-import firestore from '@react-native-firebase/firestore';
-import storage from '@react-native-firebase/storage';
-import type {ChatMessage, SendMessageData} from '../types/consultation';
-
-/**
- * Chat Service
- * Handles real-time messaging using Firestore
- */
-
-const COLLECTIONS = {
-  MESSAGES: 'messages',
-  TYPING_INDICATORS: 'typing_indicators',
-};
-
 /**
- * Send a text or image message
+ * Job chat (Provider App)
+ * One conversation per job card between the provider and the customer.
+ * Messages go over the socket when it is up and fall back to REST; sends
+ * made without signal stay queued on the device and go out in order once
+ * connectivity returns. Delivery / read receipts and typing indicators
+ * travel over the socket. A conversation becomes read-only a configurable
+ * time after the job is completed.
  */
-export const sendMessage = async (
-  data: SendMessageData,
-): Promise<ChatMessage> => {
-  try {
-
-    const messageRef = firestore().collection(COLLECTIONS.MESSAGES).doc();
-
-    const message: Omit<ChatMessage, 'id'> = {
-      consultationId: data.consultationId,
-      senderId: data.senderId,
-      senderName: data.senderName,
-      senderType: data.senderType,
-      message: data.message,
-      messageType: data.messageType,
-      imageUrl: data.imageUrl,
-      timestamp: new Date(),
-      read: false,
-    };
-
-    await messageRef.set(message);
-
 
-    return {
-      id: messageRef.id,
-      ...message,
-    };
-  } catch (error) {
-    throw new Error('Failed to send message. Please try again.');
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import NetInfo from '@react-native-community/netinfo';
+import storage from '@react-native-firebase/storage';
+import RNFS from 'react-native-fs';
+import {
+  CameraOptions,
+  ImageLibraryOptions,
+  launchCamera,
+  launchImageLibrary,
+} from 'react-native-image-picker';
+import websocketService from './websocketService';
+import {isOnline} from './jobCardOutbox';
+import {ensureCameraPermission} from './jobPhotoService';
+import {createIdempotencyKey} from './api/apiClient';
+import {isConnectivityError} from './api/apiErrors';
+import {
+  jobCardsApi,
+  JobCard,
+  JobChatMessage,
+  JobChatMessageType,
+  JobChatReceipt,
+} from './api/jobCardsApi';
+
+export const JOB_CHAT_STORAGE_KEY = 'hs_provider_job_chat';
+export const CHAT_CLOSE_AFTER_STORAGE_KEY = 'hs_provider_chat_close_after_hours';
+export const DEFAULT_CHAT_CLOSE_AFTER_HOURS = 24;
+
+const CHAT_IMAGE_DIR = `${RNFS.DocumentDirectoryPath}/job_chat`;
+const SOCKET_ACK_TIMEOUT_MS = 5000;
+/** The other side is shown as typing until this long after their last signal */
+const TYPING_EXPIRE_MS = 6000;
+const TYPING_THROTTLE_MS = 3000;
+/** Sent messages kept per job on the device (unsent ones are never dropped) */
+const MAX_CACHED_MESSAGES = 200;
+
+const PICKER_OPTIONS = {
+  mediaType: 'photo',
+  quality: 0.6,
+  maxWidth: 1280,
+  maxHeight: 1280,
+} as const;
+
+export type ChatMessageStatus = 'queued' | 'sending' | 'failed' | JobChatReceipt;
+
+export interface ChatMessage {
+  /** Client id of the sending device (server id when it sent none) */
+  id: string;
+  serverId?: string;
+  jobCardId: string;
+  role: 'provider' | 'customer';
+  type: JobChatMessageType;
+  text?: string;
+  imageUrl?: string;
+  /** App-storage copy of an image that has not been uploaded yet */
+  localImagePath?: string;
+  createdAt: string;
+  status: ChatMessageStatus;
+  error?: string;
+  /** Set for failures the app itself detected (shown localized) */
+  errorReason?: ChatErrorReason;
+}
+
+/** Messages live under `jobDetails.chat.errors.<reason>` */
+export type ChatErrorReason = 'empty' | 'cameraPermission' | 'picker' | 'imageMissing';
+
+export class ChatError extends Error {
+  readonly reason: ChatErrorReason;
+
+  constructor(reason: ChatErrorReason, message: string) {
+    super(message);
+    this.name = 'ChatError';
+    this.reason = reason;
   }
-};
+}
 
-/**
- * Subscribe to messages in real-time for a specific consultation
- * Returns unsubscribe function
- */
-export const subscribeToMessages = (
-  consultationId: string,
-  callback: (messages: ChatMessage[]) => void,
-): (() => void) => {
-
-  const unsubscribe = firestore()
-    .collection(COLLECTIONS.MESSAGES)
-    .where('consultationId', '==', consultationId)
-    .orderBy('timestamp', 'asc')
-    .onSnapshot(
-      snapshot => {
-        const messages: ChatMessage[] = snapshot.docs.map(doc => ({
-          id: doc.id,
-          ...doc.data(),
-          timestamp: doc.data().timestamp?.toDate(),
-        })) as ChatMessage[];
-
-        callback(messages);
-      },
-      error => {
-      },
-    );
+export const chatErrorKey = (reason: ChatErrorReason): string =>
+  `jobDetails.chat.errors.${reason}`;
 
-  return unsubscribe;
+type ChatStore = {
+  threads: Record<string, ChatMessage[]>;
+  unread: Record<string, number>;
 };
 
-/**
- * Load paginated messages (for initial load or load more)
- */
-export const loadMessages = async (
-  consultationId: string,
-  limit: number = 50,
-  startAfterTimestamp?: Date,
-): Promise<ChatMessage[]> => {
-  try {
-
-    let query = firestore()
-      .collection(COLLECTIONS.MESSAGES)
-      .where('consultationId', '==', consultationId)
-      .orderBy('timestamp', 'desc')
-      .limit(limit);
-
-    if (startAfterTimestamp) {
-      query = query.startAfter(startAfterTimestamp);
-    }
-
-    const snapshot = await query.get();
-
-    const messages: ChatMessage[] = snapshot.docs.map(doc => ({
-      id: doc.id,
-      ...doc.data(),
-      timestamp: doc.data().timestamp?.toDate(),
-    })) as ChatMessage[];
+type ThreadListener = (jobCardId: string, messages: ChatMessage[]) => void;
+type UnreadListener = (unread: Record<string, number>) => void;
+type TypingListener = (jobCardId: string, isTyping: boolean) => void;
+
+const threadListeners = new Set<ThreadListener>();
+const unreadListeners = new Set<UnreadListener>();
+const typingListeners = new Set<TypingListener>();
+const typingTimers = new Map<string, ReturnType<typeof setTimeout>>();
+const lastTypingSentAt = new Map<string, number>();
+const inFlight = new Set<string>();
+
+let store: ChatStore = {threads: {}, unread: {}};
+let loadPromise: Promise<void> | null = null;
+let closeAfterHours = DEFAULT_CHAT_CLOSE_AFTER_HOURS;
+let activeJobCardId: string | null = null;
+let flushing: Promise<void> | null = null;
+let stopSync: (() => void) | null = null;
+
+/** Receipts only ever move forward */
+const STATUS_RANK: Record<ChatMessageStatus, number> = {
+  failed: 0,
+  queued: 0,
+  sending: 1,
+  sent: 2,
+  delivered: 3,
+  read: 4,
+};
 
-    // Reverse to show oldest first
-    return messages.reverse();
-  } catch (error) {
-    throw new Error('Failed to load messages. Please try again.');
+function ensureLoaded(): Promise<void> {
+  if (!loadPromise) {
+    loadPromise = (async () => {
+      try {
+        const raw = await AsyncStorage.getItem(JOB_CHAT_STORAGE_KEY);
+        if (raw) store = {threads: {}, unread: {}, ...JSON.parse(raw)};
+      } catch (e) {
+        console.warn('[chat] failed to read messages', e);
+      }
+    })();
   }
-};
+  return loadPromise;
+}
 
-/**
- * Mark messages as read for a specific user
- */
-export const markMessagesAsRead = async (
-  consultationId: string,
-  userId: string,
-): Promise<void> => {
+async function persist(): Promise<void> {
   try {
-
-    const snapshot = await firestore()
-      .collection(COLLECTIONS.MESSAGES)
-      .where('consultationId', '==', consultationId)
-      .where('senderId', '!=', userId)
-      .where('read', '==', false)
-      .get();
-
-    if (snapshot.empty) {
+    await AsyncStorage.setItem(JOB_CHAT_STORAGE_KEY, JSON.stringify(store));
+  } catch (e) {
+    console.warn('[chat] failed to persist messages', e);
+  }
+}
+
+function notifyThread(jobCardId: string): void {
+  const messages = store.threads[jobCardId] || [];
+  threadListeners.forEach(cb => {
+    try {
+      cb(jobCardId, messages);
+    } catch (e) {
+      console.warn('[chat] listener error', e);
+    }
+  });
+}
+
+function notifyUnread(): void {
+  const snapshot = {...store.unread};
+  unreadListeners.forEach(cb => {
+    try {
+      cb(snapshot);
+    } catch (e) {
+      console.warn('[chat] listener error', e);
+    }
+  });
+}
+
+function notifyTyping(jobCardId: string, isTyping: boolean): void {
+  typingListeners.forEach(cb => {
+    try {
+      cb(jobCardId, isTyping);
+    } catch (e) {
+      console.warn('[chat] listener error', e);
+    }
+  });
+}
+
+const isUnsent = (message: ChatMessage) => STATUS_RANK[message.status] < STATUS_RANK.sent;
+
+const fromServer = (message: JobChatMessage): ChatMessage => ({
+  id: message.clientId || message._id,
+  serverId: message._id,
+  jobCardId: message.jobCardId,
+  role: message.role,
+  type: message.type,
+  text: message.text,
+  imageUrl: message.imageUrl,
+  createdAt: new Date(message.createdAt).toISOString(),
+  status: message.status || 'sent',
+});
+
+async function setThread(jobCardId: string, messages: ChatMessage[]): Promise<void> {
+  const sorted = [...messages].sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+  const overflow = sorted.length - MAX_CACHED_MESSAGES;
+  store.threads[jobCardId] =
+    overflow > 0
+      ? sorted.filter((message, index) => index >= overflow || isUnsent(message))
+      : sorted;
+  notifyThread(jobCardId);
+  await persist();
+}
+
+/** Insert new messages and update known ones (matched by client or server id) */
+async function mergeMessages(jobCardId: string, incoming: ChatMessage[]): Promise<void> {
+  const messages = [...(store.threads[jobCardId] || [])];
+  incoming.forEach(next => {
+    const index = messages.findIndex(
+      m => m.id === next.id || (!!next.serverId && m.serverId === next.serverId),
+    );
+    if (index < 0) {
+      messages.push(next);
       return;
     }
+    const current = messages[index];
+    messages[index] = {
+      ...current,
+      ...next,
+      // Keep the local send time so the list does not reorder after sync
+      createdAt: current.createdAt,
+      status:
+        STATUS_RANK[next.status] >= STATUS_RANK[current.status] ? next.status : current.status,
+    };
+  });
+  await setThread(jobCardId, messages);
+}
+
+async function updateMessage(
+  jobCardId: string,
+  id: string,
+  patch: Partial<ChatMessage>,
+): Promise<void> {
+  const messages = store.threads[jobCardId] || [];
+  if (!messages.some(m => m.id === id)) return;
+  await setThread(
+    jobCardId,
+    messages.map(m => (m.id === id ? {...m, ...patch} : m)),
+  );
+}
+
+/** Notified with a job's messages whenever one arrives or changes state. */
+export function onChatMessages(listener: ThreadListener): () => void {
+  threadListeners.add(listener);
+  return () => {
+    threadListeners.delete(listener);
+  };
+}
+
+/** Notified with unread customer messages per job ({jobCardId: count}). */
+export function onChatUnreadChange(listener: UnreadListener): () => void {
+  unreadListeners.add(listener);
+  void ensureLoaded().then(() => listener({...store.unread}));
+  return () => {
+    unreadListeners.delete(listener);
+  };
+}
+
+/** Notified when the customer starts or stops typing in a job's chat. */
+export function onChatTyping(listener: TypingListener): () => void {
+  typingListeners.add(listener);
+  return () => {
+    typingListeners.delete(listener);
+  };
+}
+
+export async function getChatMessages(jobCardId: string): Promise<ChatMessage[]> {
+  await ensureLoaded();
+  return store.threads[jobCardId] || [];
+}
+
+export async function getChatCloseAfterHours(): Promise<number> {
+  try {
+    const raw = await AsyncStorage.getItem(CHAT_CLOSE_AFTER_STORAGE_KEY);
+    const hours = raw ? Number(raw) : NaN;
+    if (Number.isFinite(hours) && hours >= 0) closeAfterHours = hours;
+  } catch {
+    // keep the default
+  }
+  return closeAfterHours;
+}
 
-    const batch = firestore().batch();
+/** How long a chat stays open after the job is completed */
+export async function setChatCloseAfterHours(hours: number): Promise<void> {
+  closeAfterHours = Math.max(0, hours);
+  try {
+    await AsyncStorage.setItem(CHAT_CLOSE_AFTER_STORAGE_KEY, String(closeAfterHours));
+  } catch {
+    // keeps working for this session
+  }
+}
 
-    snapshot.docs.forEach(doc => {
-      batch.update(doc.ref, {read: true});
-    });
+type ChatJob = Pick<JobCard, 'status' | 'completedAt' | 'chatClosesAt'>;
 
-    await batch.commit();
+/** When the conversation becomes read-only (null while it has no end yet) */
+export function getChatClosesAt(jobCard: ChatJob): Date | null {
+  if (jobCard.chatClosesAt) return new Date(jobCard.chatClosesAt);
+  if (jobCard.status !== 'completed') return null;
+  const completedAt = jobCard.completedAt ? new Date(jobCard.completedAt) : new Date();
+  return new Date(completedAt.getTime() + closeAfterHours * 60 * 60 * 1000);
+}
 
-  } catch (error) {
-    // Non-critical error, don't throw
-  }
-};
+/** Chat is open from acceptance until the close time after completion */
+export function isChatOpen(jobCard: ChatJob, now: number = Date.now()): boolean {
+  if (jobCard.status === 'pending' || jobCard.status === 'cancelled') return false;
+  const closesAt = getChatClosesAt(jobCard);
+  return !closesAt || closesAt.getTime() > now;
+}
 
 /**
- * Get unread message count for a consultation
+ * Load a job's conversation from the backend into the local cache.
+ * Falls back to the cached messages when offline.
  */
-export const getUnreadMessageCount = async (
-  consultationId: string,
-  userId: string,
-): Promise<number> => {
+export async function loadJobChat(jobCardId: string): Promise<ChatMessage[]> {
+  await ensureLoaded();
   try {
-    const snapshot = await firestore()
-      .collection(COLLECTIONS.MESSAGES)
-      .where('consultationId', '==', consultationId)
-      .where('senderId', '!=', userId)
-      .where('read', '==', false)
-      .get();
-
-    return snapshot.size;
+    const messages = await jobCardsApi.getChatMessages(jobCardId);
+    await mergeMessages(jobCardId, messages.map(fromServer));
   } catch (error) {
-    return 0;
+    if (!isConnectivityError(error)) throw error;
   }
-};
+  void flushChatQueue();
+  return store.threads[jobCardId] || [];
+}
 
-/**
- * Send typing indicator
- * Uses Firestore document with auto-deletion after 5 seconds
- */
-export const sendTypingIndicator = async (
-  consultationId: string,
-  userId: string,
-  isTyping: boolean,
-): Promise<void> => {
+async function uploadChatImage(message: ChatMessage): Promise<string> {
+  if (!message.localImagePath) {
+    throw new ChatError('imageMissing', 'Image is no longer available');
+  }
+  const reference = storage().ref(`jobCards/${message.jobCardId}/chat/${message.id}.jpg`);
+  await reference.putFile(message.localImagePath, {contentType: 'image/jpeg'});
+  return reference.getDownloadURL();
+}
+
+async function removeLocalImage(path?: string): Promise<void> {
+  if (!path) return;
   try {
-    const docId = `${consultationId}_${userId}`;
-
-    if (isTyping) {
-      await firestore()
-        .collection(COLLECTIONS.TYPING_INDICATORS)
-        .doc(docId)
-        .set({
-          consultationId,
-          userId,
-          timestamp: new Date(),
-        });
-
-      // Auto-delete after 5 seconds
-      setTimeout(async () => {
-        await firestore()
-          .collection(COLLECTIONS.TYPING_INDICATORS)
-          .doc(docId)
-          .delete();
-      }, 5000);
-    } else {
-      await firestore()
-        .collection(COLLECTIONS.TYPING_INDICATORS)
-        .doc(docId)
-        .delete();
+    await RNFS.unlink(path);
+  } catch {
+    // already gone
+  }
+}
+
+/** Send one stored message: socket first, REST when the socket is down or silent */
+async function deliver(jobCardId: string, id: string): Promise<void> {
+  const message = (store.threads[jobCardId] || []).find(m => m.id === id);
+  if (!message || !isUnsent(message) || inFlight.has(id)) return;
+
+  inFlight.add(id);
+  try {
+    await updateMessage(jobCardId, id, {status: 'sending', error: undefined, errorReason: undefined});
+    let imageUrl = message.imageUrl;
+    if (message.type === 'image' && !imageUrl) {
+      imageUrl = await uploadChatImage(message);
+      await updateMessage(jobCardId, id, {imageUrl});
     }
-  } catch (error) {
-    // Non-critical error, don't throw
+
+    const data = {clientId: id, type: message.type, text: message.text, imageUrl};
+    let saved: JobChatMessage | null = null;
+    const ack = websocketService.emitChatEvent(
+      'chat-message',
+      {jobCardId, ...data},
+      SOCKET_ACK_TIMEOUT_MS,
+    );
+    if (ack) {
+      const response = await ack;
+      if (response?.error) throw new Error(response.error);
+      saved = response?.message || null;
+    }
+    if (!saved) {
+      saved = await jobCardsApi.sendChatMessage(jobCardId, data);
+    }
+
+    await removeLocalImage(message.localImagePath);
+    await mergeMessages(jobCardId, [{...fromServer(saved), localImagePath: undefined}]);
+  } catch (error: any) {
+    await updateMessage(
+      jobCardId,
+      id,
+      isConnectivityError(error)
+        ? {status: 'queued'}
+        : {
+            status: 'failed',
+            error: error?.message || 'Message not sent',
+            errorReason: error instanceof ChatError ? error.reason : undefined,
+          },
+    );
+  } finally {
+    inFlight.delete(id);
   }
-};
+}
+
+async function runFlush(): Promise<void> {
+  await ensureLoaded();
+  if (!(await isOnline())) return;
+
+  const attempted = new Set<string>();
+  // Oldest first across all jobs; picks up messages queued while flushing
+  for (;;) {
+    const next = Object.values(store.threads)
+      .flat()
+      .filter(m => m.status === 'queued' && !attempted.has(m.id))
+      .sort((a, b) => a.createdAt.localeCompare(b.createdAt))[0];
+    if (!next) return;
+    attempted.add(next.id);
+    await deliver(next.jobCardId, next.id);
+    const after = store.threads[next.jobCardId]?.find(m => m.id === next.id);
+    // Lost signal again — keep the rest queued in order
+    if (after?.status === 'queued') return;
+  }
+}
+
+/** Send queued messages in order. Concurrent calls share one run. */
+export function flushChatQueue(): Promise<void> {
+  if (!flushing) {
+    flushing = runFlush()
+      .catch(e => console.warn('[chat] flush failed', e))
+      .finally(() => {
+        flushing = null;
+      });
+  }
+  return flushing;
+}
+
+async function enqueue(
+  jobCardId: string,
+  message: Pick<ChatMessage, 'type' | 'text' | 'localImagePath'> & {id?: string},
+): Promise<ChatMessage> {
+  await ensureLoaded();
+  const queued: ChatMessage = {
+    id: message.id || createIdempotencyKey(),
+    jobCardId,
+    role: 'provider',
+    type: message.type,
+    text: message.text,
+    localImagePath: message.localImagePath,
+    createdAt: new Date().toISOString(),
+    status: 'queued',
+  };
+  await mergeMessages(jobCardId, [queued]);
+  stopTyping(jobCardId);
+  void flushChatQueue();
+  return queued;
+}
+
+export async function sendChatText(jobCardId: string, text: string): Promise<ChatMessage> {
+  const trimmed = text.trim();
+  if (!trimmed) throw new ChatError('empty', 'Message is empty');
+  return enqueue(jobCardId, {type: 'text', text: trimmed});
+}
 
 /**
- * Subscribe to typing indicator for other user
+ * Take (camera) or pick (library) a photo and send it.
+ * Returns null when the provider cancelled the picker.
  */
-export const subscribeToTypingIndicator = (
-  consultationId: string,
-  otherUserId: string,
-  callback: (isTyping: boolean) => void,
-): (() => void) => {
-  const docId = `${consultationId}_${otherUserId}`;
-
-  const unsubscribe = firestore()
-    .collection(COLLECTIONS.TYPING_INDICATORS)
-    .doc(docId)
-    .onSnapshot(
-      snapshot => {
-        callback(snapshot.exists);
-      },
-      error => {
-      },
+export async function sendChatImage(
+  jobCardId: string,
+  source: 'camera' | 'library',
+): Promise<ChatMessage | null> {
+  if (source === 'camera' && !(await ensureCameraPermission())) {
+    throw new ChatError('cameraPermission', 'Camera permission is required to send photos');
+  }
+  const result =
+    source === 'camera'
+      ? await launchCamera({...PICKER_OPTIONS, saveToPhotos: false} as CameraOptions)
+      : await launchImageLibrary({...PICKER_OPTIONS, selectionLimit: 1} as ImageLibraryOptions);
+  // A failed picker also comes back without assets, so check for errors first
+  if (result.errorCode) {
+    throw new ChatError(
+      result.errorCode === 'permission' ? 'cameraPermission' : 'picker',
+      result.errorMessage || 'Could not open the camera',
+    );
+  }
+  if (result.didCancel || !result.assets?.[0]?.uri) return null;
+
+  // Copy out of the picker cache so a queued image survives until it uploads
+  const id = createIdempotencyKey();
+  const localImagePath = `${CHAT_IMAGE_DIR}/${jobCardId}_${id}.jpg`;
+  await RNFS.mkdir(CHAT_IMAGE_DIR);
+  await RNFS.copyFile(result.assets[0].uri.replace(/^file:\/\//, ''), localImagePath);
+  return enqueue(jobCardId, {id, type: 'image', localImagePath});
+}
+
+/** Try a failed message again */
+export async function retryChatMessage(jobCardId: string, id: string): Promise<void> {
+  await updateMessage(jobCardId, id, {status: 'queued', error: undefined, errorReason: undefined});
+  await flushChatQueue();
+}
+
+/** Drop a message that could not be sent */
+export async function discardChatMessage(jobCardId: string, id: string): Promise<void> {
+  const messages = store.threads[jobCardId] || [];
+  const message = messages.find(m => m.id === id);
+  if (!message || !isUnsent(message)) return;
+  await removeLocalImage(message.localImagePath);
+  await setThread(
+    jobCardId,
+    messages.filter(m => m.id !== id),
+  );
+}
+
+/** Everything the customer sent so far has been seen */
+export async function markChatRead(jobCardId: string): Promise<void> {
+  await ensureLoaded();
+  const messages = store.threads[jobCardId] || [];
+  const lastCustomer = [...messages].reverse().find(m => m.role === 'customer' && m.serverId);
+
+  if (store.unread[jobCardId]) {
+    store.unread = {...store.unread, [jobCardId]: 0};
+    notifyUnread();
+  }
+  if (messages.some(m => m.role === 'customer' && m.status !== 'read')) {
+    await setThread(
+      jobCardId,
+      messages.map(m => (m.role === 'customer' ? {...m, status: 'read'} : m)),
     );
+  } else {
+    await persist();
+  }
+  if (!lastCustomer?.serverId) return;
 
-  return unsubscribe;
-};
+  const receipt = {jobCardId, lastMessageId: lastCustomer.serverId};
+  if (!websocketService.emitChatEvent('chat-read', receipt)) {
+    jobCardsApi
+      .markChatRead(jobCardId, lastCustomer.serverId)
+      .catch(error => console.warn('[chat] read receipt failed:', error?.message || error));
+  }
+}
 
 /**
- * Upload image to Firebase Storage and return URL
+ * The chat screen for `jobCardId` is in front (null when it closes).
+ * Messages arriving meanwhile are marked read instead of counted as unread.
  */
-export const uploadImage = async (imageUri: string): Promise<string> => {
-  try {
-
-    const filename = `chat_images/${Date.now()}_${Math.random()
-      .toString(36)
-      .substring(7)}.jpg`;
-    const reference = storage().ref(filename);
-
-    // Upload file
-    await reference.putFile(imageUri);
+export function setActiveChat(jobCardId: string | null): void {
+  activeJobCardId = jobCardId;
+  if (jobCardId) void markChatRead(jobCardId);
+}
+
+function stopTyping(jobCardId: string): void {
+  if (lastTypingSentAt.has(jobCardId)) {
+    lastTypingSentAt.delete(jobCardId);
+    websocketService.emitChatEvent('chat-typing', {jobCardId, isTyping: false});
+  }
+}
 
-    // Get download URL
-    const url = await reference.getDownloadURL();
+/** Tell the customer the provider is typing (throttled; socket only) */
+export function sendTypingState(jobCardId: string, isTyping: boolean): void {
+  if (!isTyping) {
+    stopTyping(jobCardId);
+    return;
+  }
+  const last = lastTypingSentAt.get(jobCardId) || 0;
+  if (Date.now() - last < TYPING_THROTTLE_MS) return;
+  if (websocketService.emitChatEvent('chat-typing', {jobCardId, isTyping: true})) {
+    lastTypingSentAt.set(jobCardId, Date.now());
+  }
+}
+
+function setCustomerTyping(jobCardId: string, isTyping: boolean): void {
+  const timer = typingTimers.get(jobCardId);
+  if (timer) clearTimeout(timer);
+  typingTimers.delete(jobCardId);
+  if (isTyping) {
+    typingTimers.set(
+      jobCardId,
+      setTimeout(() => setCustomerTyping(jobCardId, false), TYPING_EXPIRE_MS),
+    );
+  }
+  notifyTyping(jobCardId, isTyping);
+}
 
-    return url;
-  } catch (error) {
-    throw new Error('Failed to upload image. Please try again.');
+/** Unread counts from the backend (covers messages missed while the socket was down) */
+export async function refreshChatUnreadCounts(): Promise<Record<string, number>> {
+  await ensureLoaded();
+  try {
+    const counts = await jobCardsApi.getChatUnreadCounts();
+    store.unread = activeJobCardId ? {...counts, [activeJobCardId]: 0} : counts;
+    notifyUnread();
+    await persist();
+  } catch (error: any) {
+    console.warn('[chat] failed to load unread counts:', error?.message || error);
   }
-};
+  return {...store.unread};
+}
+
+async function handleIncomingMessage(data: any): Promise<void> {
+  const raw: JobChatMessage | undefined = data?.message || data;
+  if (!raw?._id || !raw.jobCardId) return;
+  await ensureLoaded();
+  const message = fromServer(raw);
+  const known = (store.threads[message.jobCardId] || []).some(
+    m => m.serverId === message.serverId || m.id === message.id,
+  );
+  await mergeMessages(message.jobCardId, [message]);
+  if (message.role !== 'customer' || known) return;
+
+  setCustomerTyping(message.jobCardId, false);
+  websocketService.emitChatEvent('chat-delivered', {
+    jobCardId: message.jobCardId,
+    messageIds: [raw._id],
+  });
+  if (activeJobCardId === message.jobCardId) {
+    await markChatRead(message.jobCardId);
+    return;
+  }
+  store.unread = {
+    ...store.unread,
+    [message.jobCardId]: (store.unread[message.jobCardId] || 0) + 1,
+  };
+  notifyUnread();
+  await persist();
+}
+
+/** Customer's device received / read the provider's messages */
+async function handleReceipt(data: any): Promise<void> {
+  const jobCardId: string | undefined = data?.jobCardId;
+  const status: JobChatReceipt | undefined = data?.status;
+  if (!jobCardId || (status !== 'delivered' && status !== 'read')) return;
+  await ensureLoaded();
+  const ids: string[] | undefined = Array.isArray(data.messageIds) ? data.messageIds : undefined;
+  const messages = store.threads[jobCardId] || [];
+  const next = messages.map(m =>
+    m.role === 'provider' &&
+    !isUnsent(m) &&
+    STATUS_RANK[status] > STATUS_RANK[m.status] &&
+    (!ids || (!!m.serverId && ids.includes(m.serverId)))
+      ? {...m, status}
+      : m,
+  );
+  if (next.some((m, index) => m !== messages[index])) {
+    await setThread(jobCardId, next);
+  }
+}
 
 /**
- * Delete a message (for sender only, within time limit)
+ * Listen for chat events and send queued messages whenever connectivity
+ * comes back. Returns a stop function.
  */
-export const deleteMessage = async (messageId: string): Promise<void> => {
+export function startChatSync(): () => void {
+  if (!stopSync) {
+    let wasConnected: boolean | null = null;
+    const unsubscribers = [
+      websocketService.onEvent('chat-message', data => void handleIncomingMessage(data)),
+      websocketService.onEvent('chat-receipt', data => void handleReceipt(data)),
+      websocketService.onEvent('chat-typing', data => {
+        if (data?.jobCardId && data.role !== 'provider') {
+          setCustomerTyping(data.jobCardId, !!data.isTyping);
+        }
+      }),
+      NetInfo.addEventListener(state => {
+        const connected = !!state.isConnected && state.isInternetReachable !== false;
+        if (connected && wasConnected !== true) {
+          void flushChatQueue();
+          void refreshChatUnreadCounts();
+        }
+        wasConnected = connected;
+      }),
+    ];
+    stopSync = () => unsubscribers.forEach(unsubscribe => unsubscribe());
+  }
+  void getChatCloseAfterHours();
+  void flushChatQueue();
+  return () => {
+    stopSync?.();
+    stopSync = null;
+  };
+}
+
+/** Logout: forget every conversation kept on this device */
+export async function clearJobChat(): Promise<void> {
+  stopSync?.();
+  stopSync = null;
+  typingTimers.forEach(clearTimeout);
+  typingTimers.clear();
+  lastTypingSentAt.clear();
+  activeJobCardId = null;
+  store = {threads: {}, unread: {}};
+  loadPromise = Promise.resolve();
+  notifyUnread();
   try {
-    await firestore().collection(COLLECTIONS.MESSAGES).doc(messageId).delete();
-
-  } catch (error) {
-    throw new Error('Failed to delete message.');
+    await AsyncStorage.removeItem(JOB_CHAT_STORAGE_KEY);
+    await RNFS.unlink(CHAT_IMAGE_DIR);
+  } catch {
+    // nothing stored yet
   }
-};
-
-export default {
-  sendMessage,
-  subscribeToMessages,
-  loadMessages,
-  markMessagesAsRead,
-  getUnreadMessageCount,
-  sendTypingIndicator,
-  subscribeToTypingIndicator,
-  uploadImage,
-  deleteMessage,
-};
+}
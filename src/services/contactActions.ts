@@ -1,8 +1,31 @@
 /**
  * One-tap customer contact / navigation helpers
+ * When a job card carries a masked contact (proxy number or call bridge),
+ * the customer's own number is never dialled or shown, and contact ends
+ * with the job.
  */
 
 import {Linking, Platform} from 'react-native';
+import {
+  jobCardsApi,
+  ContactChannel,
+  ContactOutcome,
+  JobCard,
+} from './api/jobCardsApi';
+
+type ContactJob = Pick<JobCard, 'id' | '_id' | 'status' | 'customerPhone' | 'contact'>;
+
+export type ContactUnavailableReason = 'inactive' | 'no_number' | 'whatsapp_masked';
+
+export class ContactUnavailableError extends Error {
+  readonly reason: ContactUnavailableReason;
+
+  constructor(reason: ContactUnavailableReason, message: string) {
+    super(message);
+    this.name = 'ContactUnavailableError';
+    this.reason = reason;
+  }
+}
 
 export function digitsOnlyPhone(phone?: string | null): string {
   return String(phone || '').replace(/\D/g, '');
@@ -32,12 +55,114 @@ export async function openWhatsApp(phone?: string | null): Promise<void> {
   await Linking.openURL(url);
 }
 
+/** The backend gave this job a proxy number or call bridge */
+export function isMaskedContact(job: Pick<ContactJob, 'contact'>): boolean {
+  return !!job.contact && job.contact.mode !== 'direct';
+}
+
+/** Customer can be reached while the job is accepted / in progress and any proxy is still valid */
+export function isContactAvailable(
+  job: Pick<ContactJob, 'status' | 'contact'>,
+  now: number = Date.now(),
+): boolean {
+  if (job.status !== 'accepted' && job.status !== 'in-progress') return false;
+  const validUntil = job.contact?.validUntil;
+  return !validUntil || new Date(validUntil).getTime() > now;
+}
+
+/** '98•••••210' — enough to recognise a number without exposing it */
+export function maskPhone(phone?: string | null): string {
+  const digits = digitsOnlyPhone(phone).slice(-10);
+  if (digits.length < 6) return digits.replace(/\d/g, '•');
+  return `${digits.slice(0, 2)}${'•'.repeat(digits.length - 5)}${digits.slice(-3)}`;
+}
+
+/**
+ * Number to show for a job: the proxy while masked, the real number only
+ * for direct-dial jobs still in progress, masked digits once it has ended.
+ */
+export function getDisplayPhone(job: ContactJob): string | null {
+  if (!isContactAvailable(job)) {
+    return job.customerPhone ? maskPhone(job.customerPhone) : null;
+  }
+  if (isMaskedContact(job)) return job.contact?.proxyNumber || null;
+  return job.customerPhone || null;
+}
+
+const logAttempt = (
+  job: ContactJob,
+  channel: ContactChannel,
+  outcome: ContactOutcome,
+  error?: string,
+) => {
+  const jobCardId = job.id || job._id;
+  if (!jobCardId) return;
+  jobCardsApi
+    .logContactAttempt(jobCardId, {
+      channel,
+      mode: job.contact?.mode || 'direct',
+      outcome,
+      error,
+      createdAt: new Date().toISOString(),
+    })
+    .catch(err => console.warn('[contact] failed to log attempt:', err?.message || err));
+};
+
+/**
+ * Call or WhatsApp the customer of a job, honouring number masking:
+ * proxy jobs dial the proxy, bridge jobs ask the backend to connect the
+ * call, and only unmasked jobs dial the customer directly. Every attempt
+ * is logged on the job card timeline.
+ */
+export async function contactCustomer(
+  job: ContactJob,
+  channel: ContactChannel,
+): Promise<ContactOutcome> {
+  const masked = isMaskedContact(job);
+  try {
+    if (masked && !isContactAvailable(job)) {
+      throw new ContactUnavailableError('inactive', 'Contact is only available while the job is active');
+    }
+    if (masked && channel === 'whatsapp') {
+      throw new ContactUnavailableError(
+        'whatsapp_masked',
+        'WhatsApp is not available while the customer number is private',
+      );
+    }
+
+    let outcome: ContactOutcome = 'dialled';
+    if (!masked) {
+      if (!job.customerPhone) throw new ContactUnavailableError('no_number', 'No phone number');
+      await (channel === 'whatsapp' ? openWhatsApp(job.customerPhone) : openCall(job.customerPhone));
+    } else if (job.contact?.mode === 'proxy' && job.contact.proxyNumber) {
+      await openCall(job.contact.proxyNumber);
+    } else {
+      const jobCardId = job.id || job._id;
+      if (!jobCardId) throw new ContactUnavailableError('no_number', 'No phone number');
+      await jobCardsApi.requestCallBridge(jobCardId);
+      outcome = 'bridge_requested';
+    }
+    logAttempt(job, channel, outcome);
+    return outcome;
+  } catch (error: any) {
+    logAttempt(
+      job,
+      channel,
+      error instanceof ContactUnavailableError ? 'blocked' : 'failed',
+      error?.message,
+    );
+    throw error;
+  }
+}
+
 export async function openNavigate(opts: {
   latitude?: number | null;
   longitude?: number | null;
   address?: string | null;
+  /** Start of the leg; the maps app uses the current position when omitted */
+  origin?: {latitude: number; longitude: number} | null;
 }): Promise<void> {
-  const {latitude, longitude, address} = opts;
+  const {latitude, longitude, address, origin} = opts;
   let url: string;
   if (
     typeof latitude === 'number' &&
@@ -53,6 +178,9 @@ export async function openNavigate(opts: {
   } else {
     throw new Error('No location available');
   }
+  if (origin) {
+    url += `&origin=${origin.latitude},${origin.longitude}`;
+  }
   await Linking.openURL(url);
 }
 
@@ -0,0 +1,325 @@
+/**
+ * Earnings ledger for the provider app.
+ * Builds one ledger entry per completed job card (labour vs. materials),
+ * tags it COD / online from the payment records written by razorpayService,
+ * and aggregates per day / week / month with commission and GST.
+ */
+
+import firestore from '@react-native-firebase/firestore';
+import RNFS from 'react-native-fs';
+import Share from 'react-native-share';
+import {jobCardsApi, JobCard} from './api/jobCardsApi';
+import {earningsApi, EarningsConfig} from './api/earningsApi';
+import {PDFService} from './pdfService';
+
+export type EarningsPeriod = 'day' | 'week' | 'month';
+export type PaymentMethod = 'cod' | 'online' | 'unrecorded';
+
+export interface EarningsEntry {
+  jobCardId: string;
+  completedAt: Date;
+  customerName: string;
+  serviceType: string;
+  labour: number;
+  materials: number;
+  gross: number;
+  paymentMethod: PaymentMethod;
+  commission: number;
+  gst: number;
+  net: number;
+}
+
+export interface EarningsTotals {
+  jobs: number;
+  labour: number;
+  materials: number;
+  gross: number;
+  cod: number;
+  online: number;
+  unrecorded: number;
+  commission: number;
+  gst: number;
+  net: number;
+  /**
+   * What the platform owes the provider (negative: provider owes the platform).
+   * Online payments are collected by the platform; COD cash is already with
+   * the provider, so its commission and GST are deducted from online money.
+   */
+  settlement: number;
+}
+
+export interface EarningsBucket extends EarningsTotals {
+  key: string;
+  start: Date;
+  label: string;
+}
+
+const round2 = (n: number) => Math.round(n * 100) / 100;
+
+const emptyTotals = (): EarningsTotals => ({
+  jobs: 0,
+  labour: 0,
+  materials: 0,
+  gross: 0,
+  cod: 0,
+  online: 0,
+  unrecorded: 0,
+  commission: 0,
+  gst: 0,
+  net: 0,
+  settlement: 0,
+});
+
+function toDate(value?: string | Date): Date | null {
+  if (!value) return null;
+  const d = value instanceof Date ? value : new Date(value);
+  return Number.isNaN(d.getTime()) ? null : d;
+}
+
+function materialsTotal(jobCard: JobCard): number {
+  return (jobCard.materialsUsed || []).reduce(
+    (sum, item) =>
+      sum + (item.total ?? (item.quantity || 0) * (item.unitPrice || 0)),
+    0,
+  );
+}
+
+/**
+ * Payment method per booking id from Firestore `payments`
+ * (`saveCODPaymentRecord` sets paymentMethod 'cod', `savePaymentRecord` a Razorpay id).
+ */
+async function loadPaymentMethods(
+  bookingIds: string[],
+): Promise<Record<string, PaymentMethod>> {
+  const methods: Record<string, PaymentMethod> = {};
+  const unique = Array.from(new Set(bookingIds.filter(Boolean)));
+  // Firestore `in` queries accept at most 10 values
+  for (let i = 0; i < unique.length; i += 10) {
+    const chunk = unique.slice(i, i + 10);
+    try {
+      const snapshot = await firestore()
+        .collection('payments')
+        .where('consultationId', 'in', chunk)
+        .get();
+      snapshot.forEach(doc => {
+        const data = doc.data();
+        const id = String(data.consultationId || '');
+        if (!id) return;
+        if (data.razorpayPaymentId) {
+          methods[id] = 'online';
+        } else if (data.paymentMethod === 'cod' && methods[id] !== 'online') {
+          methods[id] = 'cod';
+        }
+      });
+    } catch (error: any) {
+      console.warn('[earnings] payment lookup skipped:', error?.message || error);
+    }
+  }
+  return methods;
+}
+
+export function buildLedgerEntry(
+  jobCard: JobCard,
+  paymentMethod: PaymentMethod,
+  config: EarningsConfig,
+): EarningsEntry | null {
+  const completedAt = toDate(jobCard.completedAt) || toDate(jobCard.updatedAt);
+  if (!completedAt) return null;
+
+  const labour = jobCard.serviceAmount || 0;
+  const materials = materialsTotal(jobCard);
+  // Materials are a pass-through; commission applies to labour only
+  const commission = round2((labour * config.commissionPercent) / 100);
+  const gst = round2((commission * config.gstPercent) / 100);
+  const gross = round2(labour + materials);
+
+  return {
+    jobCardId: String(jobCard._id || jobCard.id || ''),
+    completedAt,
+    customerName: jobCard.customerName,
+    serviceType: jobCard.serviceType,
+    labour: round2(labour),
+    materials: round2(materials),
+    gross,
+    paymentMethod,
+    commission,
+    gst,
+    net: round2(gross - commission - gst),
+  };
+}
+
+export function sumEntries(entries: EarningsEntry[]): EarningsTotals {
+  const totals = entries.reduce((acc, e) => {
+    acc.jobs += 1;
+    acc.labour += e.labour;
+    acc.materials += e.materials;
+    acc.gross += e.gross;
+    acc[e.paymentMethod] += e.gross;
+    acc.commission += e.commission;
+    acc.gst += e.gst;
+    acc.net += e.net;
+    return acc;
+  }, emptyTotals());
+
+  (Object.keys(totals) as Array<keyof EarningsTotals>).forEach(key => {
+    totals[key] = round2(totals[key]);
+  });
+  totals.settlement = round2(totals.online - totals.commission - totals.gst);
+  return totals;
+}
+
+/** Monday 00:00 of the week containing `d` */
+function startOfWeek(d: Date): Date {
+  const start = new Date(d.getFullYear(), d.getMonth(), d.getDate());
+  const offset = (start.getDay() + 6) % 7;
+  start.setDate(start.getDate() - offset);
+  return start;
+}
+
+function bucketStart(d: Date, period: EarningsPeriod): Date {
+  if (period === 'day') return new Date(d.getFullYear(), d.getMonth(), d.getDate());
+  if (period === 'week') return startOfWeek(d);
+  return new Date(d.getFullYear(), d.getMonth(), 1);
+}
+
+function bucketLabel(start: Date, period: EarningsPeriod): string {
+  if (period === 'month') {
+    return start.toLocaleDateString('en-IN', {month: 'short', year: 'numeric'});
+  }
+  return start.toLocaleDateString('en-IN', {day: 'numeric', month: 'short'});
+}
+
+/** Group entries into day / week / month buckets, oldest first. */
+export function aggregateEarnings(
+  entries: EarningsEntry[],
+  period: EarningsPeriod,
+): EarningsBucket[] {
+  const groups = new Map<string, {start: Date; entries: EarningsEntry[]}>();
+  entries.forEach(entry => {
+    const start = bucketStart(entry.completedAt, period);
+    const key = start.toISOString();
+    const group = groups.get(key) || {start, entries: []};
+    group.entries.push(entry);
+    groups.set(key, group);
+  });
+
+  return Array.from(groups.entries())
+    .sort(([, a], [, b]) => a.start.getTime() - b.start.getTime())
+    .map(([key, group]) => ({
+      key,
+      start: group.start,
+      label: bucketLabel(group.start, period),
+      ...sumEntries(group.entries),
+    }));
+}
+
+/** Start of the range shown for a period: last 14 days, 12 weeks or 12 months */
+export function defaultRangeStart(period: EarningsPeriod, now = new Date()): Date {
+  if (period === 'day') {
+    const d = bucketStart(now, 'day');
+    d.setDate(d.getDate() - 13);
+    return d;
+  }
+  if (period === 'week') {
+    const d = startOfWeek(now);
+    d.setDate(d.getDate() - 7 * 11);
+    return d;
+  }
+  return new Date(now.getFullYear(), now.getMonth() - 11, 1);
+}
+
+/**
+ * Load the ledger for completed job cards since `from` (newest first).
+ */
+export async function loadEarningsLedger(from: Date): Promise<{
+  entries: EarningsEntry[];
+  config: EarningsConfig;
+}> {
+  const [jobCards, config] = await Promise.all([
+    jobCardsApi.getProviderJobCards({status: 'completed'}),
+    earningsApi.getConfig(),
+  ]);
+
+  const completed = jobCards.filter(job => job.status === 'completed');
+  const bookingIdOf = (job: JobCard) => job.consultationId || job.bookingId || '';
+  const methods = await loadPaymentMethods(completed.map(bookingIdOf));
+
+  const entries = completed
+    .map(job =>
+      buildLedgerEntry(job, methods[bookingIdOf(job)] || 'unrecorded', config),
+    )
+    .filter((e): e is EarningsEntry => !!e && e.completedAt >= from)
+    .sort((a, b) => b.completedAt.getTime() - a.completedAt.getTime());
+
+  return {entries, config};
+}
+
+function csvCell(value: string | number): string {
+  const text = String(value);
+  return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+export function buildEarningsCSV(entries: EarningsEntry[]): string {
+  const header = [
+    'Date',
+    'Job Card',
+    'Customer',
+    'Service',
+    'Labour',
+    'Materials',
+    'Gross',
+    'Payment',
+    'Commission',
+    'GST',
+    'Net',
+  ];
+  const rows = entries.map(e => [
+    e.completedAt.toISOString().slice(0, 10),
+    e.jobCardId,
+    e.customerName,
+    e.serviceType,
+    e.labour.toFixed(2),
+    e.materials.toFixed(2),
+    e.gross.toFixed(2),
+    e.paymentMethod.toUpperCase(),
+    e.commission.toFixed(2),
+    e.gst.toFixed(2),
+    e.net.toFixed(2),
+  ]);
+  return [header, ...rows].map(row => row.map(csvCell).join(',')).join('\n');
+}
+
+/** Write the ledger as CSV and open the share sheet */
+export async function shareEarningsCSV(entries: EarningsEntry[]): Promise<void> {
+  const path = `${RNFS.CachesDirectoryPath}/earnings_${Date.now()}.csv`;
+  await RNFS.writeFile(path, buildEarningsCSV(entries), 'utf8');
+  await Share.open({
+    url: `file://${path}`,
+    type: 'text/csv',
+    filename: 'earnings.csv',
+    failOnCancel: false,
+  });
+}
+
+/** Render the statement PDF via PDFService and open the share sheet */
+export async function shareEarningsStatementPDF(
+  entries: EarningsEntry[],
+  config: EarningsConfig,
+  from: Date,
+  to: Date,
+  providerName?: string,
+): Promise<void> {
+  const path = await PDFService.generateEarningsStatementPDF(
+    entries,
+    sumEntries(entries),
+    config,
+    from,
+    to,
+    providerName,
+  );
+  await Share.open({
+    url: `file://${path}`,
+    type: 'application/pdf',
+    failOnCancel: false,
+  });
+}
@@ -0,0 +1,420 @@
+/**
+ * Geocoding (Provider App)
+ * Coordinates ↔ address and pincode → address through interchangeable
+ * backends, tried in order until one answers:
+ *   - backend: our API proxy (keys and rate limits live server-side)
+ *   - nominatim: OpenStreetMap, rate-limited but free
+ *   - offline: India pincode directory (district / state / centroid),
+ *     downloaded from the backend and seeded from the geography masters
+ * Network backends are skipped while offline. Pincode results are cached
+ * in AsyncStorage, reverse results in memory.
+ */
+
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import NetInfo from '@react-native-community/netinfo';
+import {
+  fetchPincodeDirectory,
+  GeocodedAddress,
+  getGeographyMeta,
+  lookupPincodeViaBackend,
+  PincodeRecord,
+  reverseGeocodeViaBackend,
+} from './api/geographyApi';
+
+export type GeocoderId = 'backend' | 'nominatim' | 'offline' | (string & {});
+
+export interface GeocodeResult extends GeocodedAddress {
+  /** Backend that answered */
+  source: GeocoderId;
+  /** Centroid-level match — right pincode / district, not a street address */
+  approximate?: boolean;
+}
+
+export interface Geocoder {
+  id: GeocoderId;
+  /** Needs connectivity; skipped while offline */
+  requiresNetwork: boolean;
+  reverse(latitude: number, longitude: number): Promise<GeocodeResult | null>;
+  lookupPincode(pincode: string): Promise<GeocodeResult | null>;
+}
+
+export const INDIAN_PINCODE_PATTERN = /^[1-8]\d{5}$/;
+
+const CACHE_STORAGE_KEY = 'hs_provider_geocode_cache';
+const DIRECTORY_STORAGE_KEY = 'hs_geography_pincodes_v1';
+const CACHE_TTL_MS = 30 * 24 * 60 * 60 * 1000;
+const MAX_CACHED_PINCODES = 300;
+/** Offline reverse lookups snap to the nearest centroid within this distance */
+const MAX_CENTROID_DISTANCE_KM = 25;
+const NOMINATIM_URL = 'https://nominatim.openstreetmap.org';
+const NOMINATIM_HEADERS = {'User-Agent': 'HomeServices-App/1.0'};
+
+const hasAddress = (result: GeocodeResult | null): result is GeocodeResult =>
+  !!result && !!(result.address || result.city || result.district || result.state);
+
+const joinAddress = (parts: Array<string | undefined>): string =>
+  parts.filter(Boolean).join(', ');
+
+/** Equirectangular approximation — plenty for ranking nearby centroids */
+const approxDistanceKm = (lat1: number, lon1: number, lat2: number, lon2: number): number => {
+  const x = (lon2 - lon1) * Math.cos(((lat1 + lat2) / 2) * (Math.PI / 180));
+  const y = lat2 - lat1;
+  return Math.sqrt(x * x + y * y) * 111.32;
+};
+
+// ---------------------------------------------------------------------------
+// Backends
+
+const backendGeocoder: Geocoder = {
+  id: 'backend',
+  requiresNetwork: true,
+  async reverse(latitude, longitude) {
+    const data = await reverseGeocodeViaBackend(latitude, longitude);
+    return data ? {...data, source: 'backend'} : null;
+  },
+  async lookupPincode(pincode) {
+    const data = await lookupPincodeViaBackend(pincode);
+    return data ? {...data, pincode, source: 'backend'} : null;
+  },
+};
+
+const nominatimGeocoder: Geocoder = {
+  id: 'nominatim',
+  requiresNetwork: true,
+  async reverse(latitude, longitude) {
+    const response = await fetch(
+      `${NOMINATIM_URL}/reverse?format=json&lat=${latitude}&lon=${longitude}&addressdetails=1`,
+      {headers: NOMINATIM_HEADERS},
+    );
+    if (!response.ok) {
+      throw new Error('Reverse geocoding failed');
+    }
+    const data = await response.json();
+    const address = data.address || {};
+
+    // Extract pincode (postcode in OSM)
+    const pincode = address.postcode || address.pin_code || undefined;
+    const city = address.city || address.town || address.village || address.county || undefined;
+    const state = address.state || undefined;
+    // An Indian pincode wins over a wrong country from bad GPS coordinates;
+    // the caller re-resolves the address from the pincode in that case
+    const country = pincode && INDIAN_PINCODE_PATTERN.test(pincode) ? 'India' : address.country;
+
+    return {
+      pincode,
+      address:
+        joinAddress([
+          address.house_number || address.house_name,
+          address.road,
+          address.neighbourhood || address.suburb,
+          city,
+          state,
+          pincode,
+          country,
+        ]) ||
+        data.display_name ||
+        undefined,
+      city,
+      district: address.state_district || address.county || undefined,
+      state,
+      country,
+      latitude,
+      longitude,
+      source: 'nominatim',
+      approximate: !!address.country && country !== address.country,
+    };
+  },
+  async lookupPincode(pincode) {
+    const isIndian = INDIAN_PINCODE_PATTERN.test(pincode);
+    // For India, search with country code to ensure accurate results
+    const response = await fetch(
+      `${NOMINATIM_URL}/search?format=json&postalcode=${encodeURIComponent(pincode)}` +
+        `${isIndian ? '&countrycodes=in' : ''}&addressdetails=1&limit=5`,
+      {headers: NOMINATIM_HEADERS},
+    );
+    if (!response.ok) {
+      throw new Error('Geocoding failed');
+    }
+    const data = await response.json();
+    if (!Array.isArray(data) || data.length === 0) return null;
+
+    const result =
+      (isIndian &&
+        data.find((item: any) => item.address?.country === 'India' || item.address?.country_code === 'in')) ||
+      data[0];
+    const address = result.address || {};
+    const city = address.city || address.town || address.village || address.county || address.district || undefined;
+    const state = address.state || address.state_district || undefined;
+    // Force India for Indian pincodes if the API returns another country
+    const country = isIndian ? 'India' : address.country || undefined;
+
+    return {
+      pincode,
+      address:
+        joinAddress([address.road, address.neighbourhood || address.suburb, city, state, pincode, country]) ||
+        result.display_name ||
+        undefined,
+      city,
+      district: address.state_district || address.county || undefined,
+      state,
+      country,
+      latitude: result.lat ? parseFloat(result.lat) : undefined,
+      longitude: result.lon ? parseFloat(result.lon) : undefined,
+      source: 'nominatim',
+    };
+  },
+};
+
+// Offline directory: downloaded rows win over the district seed
+let directory: Map<string, PincodeRecord> | null = null;
+let directoryLoading: Promise<Map<string, PincodeRecord>> | null = null;
+
+async function loadDirectory(): Promise<Map<string, PincodeRecord>> {
+  if (directory) return directory;
+  if (directoryLoading) return directoryLoading;
+  directoryLoading = (async () => {
+    const map = new Map<string, PincodeRecord>();
+    try {
+      const meta = await getGeographyMeta();
+      meta.districts.forEach(district => {
+        if (district.pincode) {
+          map.set(district.pincode, {
+            pincode: district.pincode,
+            district: district.name,
+            state: district.stateName,
+          });
+        }
+      });
+    } catch {
+      // no masters cached yet
+    }
+    try {
+      const raw = await AsyncStorage.getItem(DIRECTORY_STORAGE_KEY);
+      const rows: PincodeRecord[] = raw ? JSON.parse(raw)?.pincodes || [] : [];
+      rows.forEach(row => map.set(row.pincode, row));
+    } catch {
+      // corrupt download — seed only
+    }
+    directory = map;
+    return map;
+  })().finally(() => {
+    directoryLoading = null;
+  });
+  return directoryLoading;
+}
+
+const fromRecord = (record: PincodeRecord, approximate: boolean): GeocodeResult => ({
+  pincode: record.pincode,
+  address: joinAddress([record.city, record.district, record.state, record.pincode, 'India']),
+  city: record.city || record.district,
+  district: record.district,
+  state: record.state,
+  country: 'India',
+  latitude: record.latitude,
+  longitude: record.longitude,
+  source: 'offline',
+  approximate,
+});
+
+const offlineGeocoder: Geocoder = {
+  id: 'offline',
+  requiresNetwork: false,
+  async reverse(latitude, longitude) {
+    const map = await loadDirectory();
+    let nearest: PincodeRecord | null = null;
+    let nearestKm = MAX_CENTROID_DISTANCE_KM;
+    map.forEach(record => {
+      if (typeof record.latitude !== 'number' || typeof record.longitude !== 'number') return;
+      const km = approxDistanceKm(latitude, longitude, record.latitude, record.longitude);
+      if (km < nearestKm) {
+        nearest = record;
+        nearestKm = km;
+      }
+    });
+    return nearest ? {...fromRecord(nearest, true), latitude, longitude} : null;
+  },
+  async lookupPincode(pincode) {
+    const map = await loadDirectory();
+    const exact = map.get(pincode);
+    if (exact) return fromRecord(exact, false);
+    // The first three digits are the sorting district — close enough for district / state
+    const prefix = pincode.slice(0, 3);
+    for (const record of map.values()) {
+      if (record.pincode.startsWith(prefix)) {
+        return {
+          ...fromRecord(record, true),
+          pincode,
+          address: joinAddress([record.district, record.state, pincode, 'India']),
+          latitude: undefined,
+          longitude: undefined,
+        };
+      }
+    }
+    return null;
+  },
+};
+
+// ---------------------------------------------------------------------------
+// Registry
+
+const geocoders = new Map<GeocoderId, Geocoder>([
+  [backendGeocoder.id, backendGeocoder],
+  [nominatimGeocoder.id, nominatimGeocoder],
+  [offlineGeocoder.id, offlineGeocoder],
+]);
+let order: GeocoderId[] = ['backend', 'nominatim', 'offline'];
+
+/** Add or replace a backend (it is appended to the order when new) */
+export function registerGeocoder(geocoder: Geocoder): void {
+  geocoders.set(geocoder.id, geocoder);
+  if (!order.includes(geocoder.id)) order = [...order, geocoder.id];
+}
+
+/** Fallback order; unknown ids are ignored */
+export function setGeocoderOrder(ids: GeocoderId[]): void {
+  order = ids.filter(id => geocoders.has(id));
+}
+
+export const getGeocoderOrder = (): GeocoderId[] => [...order];
+
+const isConnected = async (): Promise<boolean> => {
+  try {
+    const state = await NetInfo.fetch();
+    return !!state.isConnected && state.isInternetReachable !== false;
+  } catch {
+    return true;
+  }
+};
+
+async function firstAnswer(
+  query: (geocoder: Geocoder) => Promise<GeocodeResult | null>,
+  label: string,
+): Promise<GeocodeResult | null> {
+  const online = await isConnected();
+  let approximate: GeocodeResult | null = null;
+  for (const id of order) {
+    const geocoder = geocoders.get(id);
+    if (!geocoder || (geocoder.requiresNetwork && !online)) continue;
+    try {
+      const result = await query(geocoder);
+      if (!hasAddress(result)) continue;
+      if (!result.approximate) return result;
+      // Keep looking for a precise answer; fall back to this one
+      approximate = approximate || result;
+    } catch (error: any) {
+      console.warn(`[geocoding] ${id} ${label} failed:`, error?.message || error);
+    }
+  }
+  return approximate;
+}
+
+// ---------------------------------------------------------------------------
+// Caches
+
+type CachedResult = GeocodeResult & {cachedAt: number};
+
+let pincodeCache: Record<string, CachedResult> | null = null;
+const reverseCache = new Map<string, GeocodeResult>();
+const MAX_REVERSE_CACHE = 100;
+
+async function readPincodeCache(): Promise<Record<string, CachedResult>> {
+  if (pincodeCache) return pincodeCache;
+  try {
+    const raw = await AsyncStorage.getItem(CACHE_STORAGE_KEY);
+    pincodeCache = raw ? JSON.parse(raw) : {};
+  } catch {
+    pincodeCache = {};
+  }
+  return pincodeCache!;
+}
+
+async function writePincodeCache(pincode: string, result: GeocodeResult): Promise<void> {
+  const cache = await readPincodeCache();
+  cache[pincode] = {...result, cachedAt: Date.now()};
+  const keys = Object.keys(cache);
+  if (keys.length > MAX_CACHED_PINCODES) {
+    keys
+      .sort((a, b) => cache[a].cachedAt - cache[b].cachedAt)
+      .slice(0, keys.length - MAX_CACHED_PINCODES)
+      .forEach(key => delete cache[key]);
+  }
+  try {
+    await AsyncStorage.setItem(CACHE_STORAGE_KEY, JSON.stringify(cache));
+  } catch {
+    // memory cache still helps this session
+  }
+}
+
+/** ~110 m grid, so nearby fixes share a lookup */
+const reverseKey = (latitude: number, longitude: number) =>
+  `${latitude.toFixed(3)},${longitude.toFixed(3)}`;
+
+// ---------------------------------------------------------------------------
+// Public API
+
+/** Address for a pincode, or null when no backend knows it */
+export async function geocodePincode(pincode: string): Promise<GeocodeResult | null> {
+  const trimmed = pincode.trim();
+  if (!trimmed) return null;
+  const cache = await readPincodeCache();
+  const cached = cache[trimmed];
+  if (cached && Date.now() - cached.cachedAt < CACHE_TTL_MS) {
+    return cached;
+  }
+  const result = await firstAnswer(geocoder => geocoder.lookupPincode(trimmed), 'pincode');
+  // Approximate answers are retried next time in case a precise backend is back
+  if (result && !result.approximate) void writePincodeCache(trimmed, result);
+  return result;
+}
+
+/** Address for coordinates, or null when no backend could resolve them */
+export async function reverseGeocode(
+  latitude: number,
+  longitude: number,
+): Promise<GeocodeResult | null> {
+  const key = reverseKey(latitude, longitude);
+  const cached = reverseCache.get(key);
+  if (cached) return cached;
+
+  let result = await firstAnswer(geocoder => geocoder.reverse(latitude, longitude), 'reverse');
+  // Nominatim flags a wrong country next to an Indian pincode (bad GPS
+  // coordinates): trust the pincode's address instead
+  if (result?.approximate && result.source === 'nominatim' && result.pincode) {
+    const byPincode = await geocodePincode(result.pincode);
+    if (byPincode?.address) {
+      result = {...byPincode, latitude, longitude};
+    }
+  }
+  if (result && !result.approximate) {
+    if (reverseCache.size >= MAX_REVERSE_CACHE) {
+      reverseCache.delete(reverseCache.keys().next().value as string);
+    }
+    reverseCache.set(key, result);
+  }
+  return result;
+}
+
+/**
+ * Download the full pincode directory for offline lookups.
+ * Returns the number of rows stored.
+ */
+export async function downloadPincodeDirectory(): Promise<number> {
+  const rows = await fetchPincodeDirectory();
+  await AsyncStorage.setItem(
+    DIRECTORY_STORAGE_KEY,
+    JSON.stringify({pincodes: rows, downloadedAt: Date.now()}),
+  );
+  directory = null;
+  await loadDirectory();
+  return rows.length;
+}
+
+export async function clearGeocodeCache(): Promise<void> {
+  pincodeCache = {};
+  reverseCache.clear();
+  try {
+    await AsyncStorage.removeItem(CACHE_STORAGE_KEY);
+  } catch {
+    // ignore
+  }
+}
@@ -2,6 +2,11 @@ import Geolocation from 'react-native-geolocation-service';
 import GeolocationCommunity from '@react-native-community/geolocation';
 import {Platform, PermissionsAndroid, Alert} from 'react-native';
 import {logger} from '../utils/logger';
+import {
+  geocodePincode,
+  INDIAN_PINCODE_PATTERN,
+  reverseGeocode,
+} from './geocodingService';
 
 export interface LocationData {
   latitude: number;
@@ -379,7 +384,7 @@ class GeolocationService {
 
   /**
    * Reverse geocode coordinates to get address and pincode
-   * Uses OpenStreetMap Nominatim API (free, no API key required)
+   * Goes through the geocoder chain (backend proxy, Nominatim, offline directory)
    */
   async reverseGeocode(
     latitude: number,
@@ -392,95 +397,23 @@ class GeolocationService {
     country?: string;
   }> {
     try {
-      const url = `https://nominatim.openstreetmap.org/reverse?format=json&lat=${latitude}&lon=${longitude}&addressdetails=1`;
-      
-      const response = await fetch(url, {
-        headers: {
-          'User-Agent': 'HomeServices-App/1.0',
-        },
-      });
-
-      if (!response.ok) {
-        throw new Error('Reverse geocoding failed');
-      }
-
-      const data = await response.json();
-      const address = data.address || {};
-
-      // Extract pincode (postcode in OSM)
-      const pincode = address.postcode || address.pin_code || undefined;
-      const city = address.city || address.town || address.village || address.county || undefined;
-      const state = address.state || undefined;
-      let country = address.country || undefined;
-
-      // Override country to India if pincode is Indian format (6 digits starting with 1-8)
-      // This handles cases where GPS coordinates are incorrect but pincode is detected correctly
-      if (pincode && /^[1-8]\d{5}$/.test(pincode)) {
-        country = 'India';
-
-        // If we detected an Indian pincode but country from API was not India,
-        // it means GPS coordinates are wrong. Re-geocode using the pincode to get correct data.
-        if (address.country && address.country !== 'India') {
-          try {
-            const pincodeData = await this.geocodePincode(pincode);
-            if (pincodeData.address) {
-              return {
-                pincode,
-                address: pincodeData.address,
-                city: pincodeData.city,
-                state: pincodeData.state,
-                country: 'India',
-              };
-            }
-          } catch (error) {
-            // If pincode geocoding fails, continue with current data but corrected country
-          }
-        }
-      }
-
-      // Build full address string
-      const addressParts = [];
-      if (address.house_number || address.house_name) {
-        addressParts.push(address.house_number || address.house_name);
-      }
-      if (address.road) {
-        addressParts.push(address.road);
-      }
-      if (address.neighbourhood || address.suburb) {
-        addressParts.push(address.neighbourhood || address.suburb);
-      }
-      if (city) {
-        addressParts.push(city);
-      }
-      if (state) {
-        addressParts.push(state);
-      }
-      if (pincode) {
-        addressParts.push(pincode);
-      }
-      if (country) {
-        addressParts.push(country);
-      }
-
-      const fullAddress = addressParts.join(', ');
-
+      const result = await reverseGeocode(latitude, longitude);
+      if (!result) return {};
       return {
-        pincode,
-        address: fullAddress || data.display_name || undefined,
-        city,
-        state,
-        country,
+        pincode: result.pincode,
+        address: result.address,
+        city: result.city || result.district,
+        state: result.state,
+        country: result.country,
       };
     } catch (error) {
-      // Fallback: Try Google Geocoding API if you have API key
-      // For now, return empty object
       return {};
     }
   }
 
   /**
    * Forward geocode pincode to get address
-   * Uses OpenStreetMap Nominatim API (free, no API key required)
+   * Goes through the geocoder chain (backend proxy, Nominatim, offline directory)
    */
   async geocodePincode(pincode: string): Promise<{
     address?: string;
@@ -490,147 +423,67 @@ class GeolocationService {
     latitude?: number;
     longitude?: number;
   }> {
+    // Indian pincodes report the country even when nothing else is known
+    const fallback = INDIAN_PINCODE_PATTERN.test(pincode.trim()) ? {country: 'India'} : {};
     try {
-      // Check if this is an Indian pincode (6 digits starting with 1-8)
-      const isIndianPincode = /^[1-8]\d{5}$/.test(pincode.trim());
-      
-      if (isIndianPincode) {
-        // For India, search with country code to ensure accurate results
-        const url = `https://nominatim.openstreetmap.org/search?format=json&postalcode=${encodeURIComponent(pincode)}&countrycodes=in&addressdetails=1&limit=5`;
-        
-        const response = await fetch(url, {
-          headers: {
-            'User-Agent': 'HomeServices-App/1.0',
-          },
-        });
-
-        if (!response.ok) {
-          throw new Error('Geocoding failed');
-        }
-
-        const data = await response.json();
-        
-        if (!data || data.length === 0) {
-          // Return empty but indicate it's India
-          return {
-            country: 'India',
-          };
-        }
-
-        // Find the result with India as country, or use first result if all are India
-        let result = data.find((item: any) => item.address?.country === 'India' || item.address?.country_code === 'in');
-        if (!result) {
-          result = data[0];
-        }
-
-        const address = result.address || {};
-        
-        // Validate country - must be India for Indian pincodes
-        let country = address.country || address.country_code?.toUpperCase() === 'IN' ? 'India' : undefined;
-        if (isIndianPincode && country !== 'India') {
-          // Force India for Indian pincodes if API returns wrong country
-          country = 'India';
-        }
-        
-        const city = address.city || address.town || address.village || address.county || address.district || undefined;
-        const state = address.state || address.state_district || undefined;
-        
-        // Build full address string
-        const addressParts = [];
-        if (address.road) {
-          addressParts.push(address.road);
-        }
-        if (address.neighbourhood || address.suburb) {
-          addressParts.push(address.neighbourhood || address.suburb);
-        }
-        if (city) {
-          addressParts.push(city);
-        }
-        if (state) {
-          addressParts.push(state);
-        }
-        addressParts.push(pincode.trim());
-        if (country) {
-          addressParts.push(country);
-        }
-
-        const fullAddress = addressParts.join(', ');
-
-        return {
-          address: fullAddress || result.display_name || undefined,
-          city,
-          state,
-          country: country || 'India', // Default to India for Indian pincodes
-          latitude: result.lat ? parseFloat(result.lat) : undefined,
-          longitude: result.lon ? parseFloat(result.lon) : undefined,
-        };
-      } else {
-        // For non-Indian pincodes, use standard geocoding
-        const url = `https://nominatim.openstreetmap.org/search?format=json&postalcode=${encodeURIComponent(pincode)}&addressdetails=1&limit=1`;
-        
-        const response = await fetch(url, {
-          headers: {
-            'User-Agent': 'HomeServices-App/1.0',
-          },
-        });
-
-        if (!response.ok) {
-          throw new Error('Geocoding failed');
-        }
-
-        const data = await response.json();
-        
-        if (!data || data.length === 0) {
-          return {};
-        }
+      const result = await geocodePincode(pincode);
+      if (!result) return fallback;
+      return {
+        address: result.address,
+        city: result.city || result.district,
+        state: result.state,
+        country: result.country || fallback.country,
+        latitude: result.latitude,
+        longitude: result.longitude,
+      };
+    } catch (error) {
+      return fallback;
+    }
+  }
 
-        const result = data[0];
-        const address = result.address || {};
-        
-        const city = address.city || address.town || address.village || address.county || undefined;
-        const state = address.state || undefined;
-        const country = address.country || undefined;
-        
-        // Build full address string
-        const addressParts = [];
-        if (address.road) {
-          addressParts.push(address.road);
-        }
-        if (address.neighbourhood || address.suburb) {
-          addressParts.push(address.neighbourhood || address.suburb);
-        }
-        if (city) {
-          addressParts.push(city);
-        }
-        if (state) {
-          addressParts.push(state);
-        }
-        addressParts.push(pincode);
-        if (country) {
-          addressParts.push(country);
-        }
+  /**
+   * Continuous position updates (no reverse geocoding — meant for frequent fixes).
+   * Returns a function that stops the watch.
+   */
+  watchPosition(
+    onLocation: (location: LocationData & {accuracy?: number; timestamp: number}) => void,
+    onError?: (error: Error) => void,
+    options: {distanceFilter?: number; interval?: number; highAccuracy?: boolean} = {},
+  ): () => void {
+    if (!GeolocationCommunity || typeof GeolocationCommunity.watchPosition !== 'function') {
+      onError?.(new Error('Location services unavailable. Please set your location manually.'));
+      return () => {};
+    }
 
-        const fullAddress = addressParts.join(', ');
+    let watchId: number | null = null;
+    try {
+      watchId = GeolocationCommunity.watchPosition(
+        position =>
+          onLocation({
+            latitude: position.coords.latitude,
+            longitude: position.coords.longitude,
+            accuracy: position.coords.accuracy,
+            timestamp: position.timestamp,
+          }),
+        error => onError?.(new Error(error?.message || 'Location watch failed')),
+        {
+          enableHighAccuracy: options.highAccuracy ?? true,
+          distanceFilter: options.distanceFilter ?? 20,
+          interval: options.interval ?? 5000,
+          fastestInterval: Math.min(options.interval ?? 5000, 2000),
+          maximumAge: 5000,
+        },
+      );
+    } catch (error: any) {
+      onError?.(error instanceof Error ? error : new Error(String(error)));
+    }
 
-        return {
-          address: fullAddress || result.display_name || undefined,
-          city,
-          state,
-          country,
-          latitude: result.lat ? parseFloat(result.lat) : undefined,
-          longitude: result.lon ? parseFloat(result.lon) : undefined,
-        };
+    return () => {
+      if (watchId !== null) {
+        GeolocationCommunity.clearWatch(watchId);
+        watchId = null;
       }
-    } catch (error) {
-      // For Indian pincodes, return at least country info even on error
-      const isIndianPincode = /^[1-8]\d{5}$/.test(pincode.trim());
-      if (isIndianPincode) {
-        return {
-          country: 'India',
-        };
-      }
-      return {};
-    }
+    };
   }
 
   /**
@@ -5,15 +5,17 @@
  */
 
 import { NativeModules, Platform } from 'react-native';
+import {ResolvedAlertProfile, toNativeAlertConfig} from './alertProfileService';
 
 const { HooterServiceModule } = NativeModules;
 
 class HooterForegroundService {
   /**
    * Start playing hooter sound via foreground service
-   * This will play continuously until stopped
+   * This will play continuously until stopped, shaped by the alert profile
+   * (the same one soundService plays)
    */
-  async startHooter(): Promise<void> {
+  async startHooter(profile: ResolvedAlertProfile | null = null): Promise<void> {
     if (Platform.OS !== 'android') {
       console.warn('⚠️ HooterForegroundService is Android-only');
       return;
@@ -26,7 +28,7 @@ class HooterForegroundService {
 
     try {
       console.log('🔊 Starting hooter via foreground service...');
-      await HooterServiceModule.startHooter();
+      await HooterServiceModule.startHooter(profile ? toNativeAlertConfig(profile) : null);
       console.log('✅ Hooter foreground service started');
     } catch (error: any) {
       console.error('❌ Failed to start hooter foreground service:', error);
@@ -0,0 +1,333 @@
+/**
+ * GST tax invoices for completed jobs (Provider App)
+ * Builds the invoice from the job card (approved quotation lines or the
+ * completion amount + materials), splits GST into CGST/SGST or IGST by
+ * place of supply, renders it via PDFService with a QR code of the invoice
+ * payload, and stores the PDF next to the job card PDF.
+ * Providers without a GSTIN get a bill of supply (no tax charged).
+ */
+
+import RNFS from 'react-native-fs';
+import Share from 'react-native-share';
+import QRCode from 'qrcode';
+import {jobCardsApi, JobCard} from './api/jobCardsApi';
+import {providersApi, Provider} from './api/providersApi';
+import {getServiceCategoryByName} from './serviceCategoriesService';
+import {uploadPDFToStorage} from './jobCardService';
+import {PDFService} from './pdfService';
+import {
+  getGstinStateCode,
+  getGstStateCode,
+  getGstStateName,
+  isValidGstinFormat,
+  normalizeGstin,
+} from '../utils/gst';
+import {amountInWords} from '../utils/amountInWords';
+
+/** Fallback when the category has no SAC code: other services n.e.c. */
+export const DEFAULT_SAC_CODE = '999799';
+export const DEFAULT_GST_RATE_PERCENT = 18;
+
+export interface InvoiceParty {
+  name: string;
+  address: string;
+  stateName?: string;
+  stateCode?: string;
+  gstin?: string;
+  phone?: string;
+}
+
+export interface InvoiceLine {
+  description: string;
+  sacCode: string;
+  quantity: number;
+  unitPrice: number;
+  taxableValue: number;
+}
+
+export interface TaxInvoice {
+  invoiceNumber: string;
+  invoiceDate: Date;
+  jobCardId: string;
+  /** False when the provider is not GST registered (bill of supply) */
+  isTaxInvoice: boolean;
+  supplier: InvoiceParty;
+  recipient: InvoiceParty;
+  placeOfSupply: {stateCode?: string; stateName?: string};
+  interState: boolean;
+  lines: InvoiceLine[];
+  gstRatePercent: number;
+  taxableValue: number;
+  cgst: number;
+  sgst: number;
+  igst: number;
+  total: number;
+  amountInWords: string;
+}
+
+const round2 = (n: number) => Math.round(n * 100) / 100;
+
+const formatAddress = (address?: {
+  address?: string;
+  city?: string;
+  state?: string;
+  pincode?: string;
+}): string =>
+  [address?.address, address?.city, address?.state, address?.pincode]
+    .filter(Boolean)
+    .join(', ');
+
+/**
+ * CGST + SGST (half each) within a state, IGST across states.
+ */
+export const splitTax = (
+  tax: number,
+  interState: boolean,
+): {cgst: number; sgst: number; igst: number} => {
+  if (interState) return {cgst: 0, sgst: 0, igst: tax};
+  const half = round2(tax / 2);
+  // Keep cgst + sgst equal to the total tax after rounding
+  return {cgst: half, sgst: round2(tax - half), igst: 0};
+};
+
+/**
+ * Job amounts are quoted before tax (as on the quotation and the job card
+ * PDF), so GST is added on top of the taxable value at the job's rate.
+ */
+export const addGst = (
+  lines: InvoiceLine[],
+  ratePercent: number,
+): {taxableValue: number; tax: number} => {
+  const taxableValue = round2(lines.reduce((sum, line) => sum + line.taxableValue, 0));
+  const tax = ratePercent > 0 ? round2((taxableValue * ratePercent) / 100) : 0;
+  return {taxableValue, tax};
+};
+
+/**
+ * GST rate for the job: the approved quotation's tax rate, which the
+ * customer agreed to, otherwise the category's rate
+ */
+export const jobGstRatePercent = (jobCard: JobCard, categoryRatePercent?: number): number => {
+  const quotation = jobCard.quotation?.status === 'approved' ? jobCard.quotation : undefined;
+  return quotation ? quotation.taxPercent || 0 : categoryRatePercent ?? DEFAULT_GST_RATE_PERCENT;
+};
+
+/**
+ * Invoice lines: labour from the approved quotation when there is one,
+ * otherwise the completion amount; materials as recorded at completion.
+ * Values are before tax.
+ */
+export const buildInvoiceLines = (jobCard: JobCard, sacCode: string): InvoiceLine[] => {
+  const lines: InvoiceLine[] = [];
+  const quotation = jobCard.quotation?.status === 'approved' ? jobCard.quotation : undefined;
+  const labourLines = quotation ? quotation.lines.filter(line => line.kind === 'labour') : [];
+  const quotedLabour = round2(labourLines.reduce((sum, line) => sum + line.total, 0));
+
+  // The provider may have adjusted the amount at completion — the quote only itemizes it
+  if (labourLines.length > 0 && quotedLabour === round2(jobCard.serviceAmount || 0)) {
+    labourLines.forEach(line =>
+      lines.push({
+        description: line.description,
+        sacCode,
+        quantity: line.quantity,
+        unitPrice: line.unitPrice,
+        taxableValue: round2(line.total),
+      }),
+    );
+  } else if (jobCard.serviceAmount) {
+    lines.push({
+      description: `${jobCard.serviceType} service`,
+      sacCode,
+      quantity: 1,
+      unitPrice: jobCard.serviceAmount,
+      taxableValue: round2(jobCard.serviceAmount),
+    });
+  }
+
+  // Materials are part of the composite service supply, billed under its SAC
+  (jobCard.materialsUsed || []).forEach(material => {
+    const quantity = material.quantity || 1;
+    const taxableValue = round2(
+      material.total || quantity * (material.unitPrice || 0),
+    );
+    if (taxableValue <= 0) return;
+    lines.push({
+      description: material.description,
+      sacCode,
+      quantity,
+      unitPrice: material.unitPrice || round2(taxableValue / quantity),
+      taxableValue,
+    });
+  });
+
+  return lines;
+};
+
+/**
+ * Assemble the invoice for a completed job card (pure — no network).
+ */
+export const buildTaxInvoice = (
+  jobCard: JobCard,
+  provider: Provider | null,
+  options: {
+    invoiceNumber: string;
+    invoiceDate: Date;
+    sacCode?: string;
+    gstRatePercent?: number;
+  },
+): TaxInvoice => {
+  const gstin = provider?.gstin && isValidGstinFormat(provider.gstin)
+    ? normalizeGstin(provider.gstin)
+    : undefined;
+  const supplierStateCode =
+    getGstinStateCode(gstin) ||
+    getGstStateCode(jobCard.providerAddress?.state || provider?.location?.state);
+  // Services at the customer's premises: place of supply is the customer's state
+  const recipientStateCode = getGstStateCode(jobCard.customerAddress?.state) || supplierStateCode;
+  const interState =
+    !!supplierStateCode && !!recipientStateCode && supplierStateCode !== recipientStateCode;
+
+  const gstRatePercent = gstin ? jobGstRatePercent(jobCard, options.gstRatePercent) : 0;
+  const lines = buildInvoiceLines(jobCard, options.sacCode || DEFAULT_SAC_CODE);
+  const {taxableValue, tax} = addGst(lines, gstRatePercent);
+  const {cgst, sgst, igst} = splitTax(tax, interState);
+  // Same total as the job card PDF: amount + materials + tax
+  const total = round2(taxableValue + tax);
+
+  return {
+    invoiceNumber: options.invoiceNumber,
+    invoiceDate: options.invoiceDate,
+    jobCardId: String(jobCard._id || jobCard.id || ''),
+    isTaxInvoice: !!gstin,
+    supplier: {
+      name: provider?.businessName || provider?.name || jobCard.providerName,
+      address: formatAddress(jobCard.providerAddress),
+      stateCode: supplierStateCode || undefined,
+      stateName: getGstStateName(supplierStateCode) || undefined,
+      gstin,
+      phone: provider?.phone || provider?.phoneNumber,
+    },
+    recipient: {
+      name: jobCard.customerName,
+      address: formatAddress(jobCard.customerAddress),
+      stateCode: recipientStateCode || undefined,
+      stateName: getGstStateName(recipientStateCode) || jobCard.customerAddress?.state,
+      phone: jobCard.customerPhone,
+    },
+    placeOfSupply: {
+      stateCode: recipientStateCode || undefined,
+      stateName: getGstStateName(recipientStateCode) || undefined,
+    },
+    interState,
+    lines,
+    gstRatePercent,
+    taxableValue,
+    cgst,
+    sgst,
+    igst,
+    total,
+    amountInWords: amountInWords(total),
+  };
+};
+
+/** Compact payload encoded in the invoice QR code */
+export const buildInvoiceQRPayload = (invoice: TaxInvoice): string =>
+  JSON.stringify({
+    inv: invoice.invoiceNumber,
+    dt: invoice.invoiceDate.toISOString().slice(0, 10),
+    sgstin: invoice.supplier.gstin || null,
+    pos: invoice.placeOfSupply.stateCode || null,
+    sac: invoice.lines[0]?.sacCode || null,
+    val: invoice.taxableValue,
+    cgst: invoice.cgst,
+    sgst: invoice.sgst,
+    igst: invoice.igst,
+    tot: invoice.total,
+  });
+
+/** Local PDF paths from this session, so sharing does not re-download */
+const localInvoicePaths = new Map<string, string>();
+
+/**
+ * Generate (or regenerate) the invoice for a completed job, upload it and
+ * record it on the job card. Regenerating keeps the reserved number.
+ */
+export async function generateJobCardInvoice(
+  jobCardId: string,
+): Promise<{invoice: TaxInvoice; pdfUrl: string; localPath: string}> {
+  const jobCard = await jobCardsApi.getById(jobCardId);
+  if (!jobCard) {
+    throw new Error('Job card not found');
+  }
+  if (jobCard.status !== 'completed') {
+    throw new Error('Invoices can only be generated for completed jobs');
+  }
+
+  const [provider, category] = await Promise.all([
+    providersApi.getMyProfile().catch(() => null),
+    getServiceCategoryByName(jobCard.serviceType).catch(() => null),
+  ]);
+
+  const reserved = jobCard.invoiceNumber
+    ? {invoiceNumber: jobCard.invoiceNumber, invoiceDate: String(jobCard.invoiceDate || new Date().toISOString())}
+    : await jobCardsApi.reserveInvoiceNumber(jobCardId);
+
+  const invoice = buildTaxInvoice(jobCard, provider, {
+    invoiceNumber: reserved.invoiceNumber,
+    invoiceDate: new Date(reserved.invoiceDate),
+    sacCode: category?.sacCode,
+    gstRatePercent: category?.gstRatePercent,
+  });
+
+  const qrSvg = await QRCode.toString(buildInvoiceQRPayload(invoice), {
+    type: 'svg',
+    errorCorrectionLevel: 'M',
+    margin: 0,
+    width: 120,
+  });
+  const localPath = await PDFService.generateTaxInvoicePDF(invoice, qrSvg);
+  const pdfUrl = await uploadPDFToStorage(localPath, jobCardId, 'invoice');
+
+  await jobCardsApi.saveInvoice(jobCardId, {
+    invoiceNumber: invoice.invoiceNumber,
+    invoiceDate: invoice.invoiceDate.toISOString(),
+    invoicePdfUrl: pdfUrl,
+    taxableValue: invoice.taxableValue,
+    cgst: invoice.cgst,
+    sgst: invoice.sgst,
+    igst: invoice.igst,
+    total: invoice.total,
+  });
+
+  localInvoicePaths.set(jobCardId, localPath);
+  return {invoice, pdfUrl, localPath};
+}
+
+/**
+ * Open the share sheet for a job's invoice, downloading it when it was
+ * generated on another device / session.
+ */
+export async function shareJobCardInvoice(
+  jobCard: Pick<JobCard, '_id' | 'id' | 'invoiceNumber' | 'invoicePdfUrl'>,
+): Promise<void> {
+  const jobCardId = String(jobCard._id || jobCard.id || '');
+  let path = localInvoicePaths.get(jobCardId);
+  if (!path || !(await RNFS.exists(path))) {
+    if (!jobCard.invoicePdfUrl) {
+      throw new Error('No invoice generated for this job yet');
+    }
+    const safeName = (jobCard.invoiceNumber || jobCardId).replace(/[^A-Za-z0-9_-]/g, '_');
+    path = `${RNFS.CachesDirectoryPath}/Invoice_${safeName}.pdf`;
+    const {promise} = RNFS.downloadFile({fromUrl: jobCard.invoicePdfUrl, toFile: path});
+    const result = await promise;
+    if (result.statusCode < 200 || result.statusCode >= 300) {
+      throw new Error('Failed to download invoice');
+    }
+    localInvoicePaths.set(jobCardId, path);
+  }
+  await Share.open({
+    url: `file://${path}`,
+    type: 'application/pdf',
+    failOnCancel: false,
+  });
+}
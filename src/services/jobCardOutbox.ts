@@ -0,0 +1,365 @@
+/**
+ * Offline outbox for job card actions (start / complete / cancel / comment).
+ * Actions taken without signal are persisted in AsyncStorage with an
+ * idempotency key and replayed in order once NetInfo reports connectivity.
+ * Replays that no longer apply (e.g. admin cancelled the job meanwhile) are
+ * kept as conflicts so the provider can see what was not applied.
+ * Each provider signed in on the device has their own queue, so nobody
+ * replays another provider's actions.
+ */
+
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import NetInfo, {NetInfoState} from '@react-native-community/netinfo';
+import {jobCardsApi, JobCard} from './api/jobCardsApi';
+import {createIdempotencyKey} from './api/apiClient';
+import {isConnectivityError} from './api/apiErrors';
+import {getUserId, readStoredUser} from './session';
+
+export const OUTBOX_STORAGE_KEY = 'hs_provider_job_outbox';
+
+export type OutboxActionType = 'start' | 'complete' | 'cancel' | 'comment';
+
+export type OutboxMaterial = {
+  description: string;
+  quantity?: number;
+  unitPrice?: number;
+  total?: number;
+};
+
+export type OutboxPayload = {
+  /** start: only on entries queued by older versions; the PIN is now generated when the start syncs */
+  taskPIN?: string;
+  /** complete */
+  enteredPIN?: string;
+  amount?: number;
+  materials?: OutboxMaterial[];
+  timeStarted?: string;
+  timeCompleted?: string;
+  /** cancel */
+  cancellationReason?: string;
+  /** comment */
+  text?: string;
+};
+
+export interface OutboxEntry {
+  /** Also sent as the Idempotency-Key header on replay */
+  id: string;
+  jobCardId: string;
+  type: OutboxActionType;
+  payload: OutboxPayload;
+  createdAt: number;
+  attempts: number;
+  state: 'pending' | 'conflict';
+  conflictReason?: string;
+  /** Server status seen when the conflict was detected */
+  serverStatus?: JobCard['status'];
+}
+
+type Listener = (entries: OutboxEntry[]) => void;
+
+const listeners = new Set<Listener>();
+let entries: OutboxEntry[] = [];
+/** Provider set by startOutboxSync; before that, the stored session user */
+let ownerId: string | null = null;
+/** Provider whose queue is in `entries` */
+let loadedOwner: string | null = null;
+let loadPromise: Promise<void> | null = null;
+let flushing: Promise<void> | null = null;
+let netInfoUnsubscribe: (() => void) | null = null;
+
+export async function isOnline(): Promise<boolean> {
+  try {
+    const state = await NetInfo.fetch();
+    return isConnectedState(state);
+  } catch {
+    // Assume online — the request itself will tell us otherwise
+    return true;
+  }
+}
+
+function isConnectedState(state: NetInfoState): boolean {
+  return !!state.isConnected && state.isInternetReachable !== false;
+}
+
+const storageKeyFor = (owner: string) => `${OUTBOX_STORAGE_KEY}:${owner}`;
+
+async function currentOwner(): Promise<string> {
+  if (ownerId) return ownerId;
+  try {
+    return getUserId(await readStoredUser()) || 'anonymous';
+  } catch {
+    return 'anonymous';
+  }
+}
+
+async function ensureLoaded(): Promise<void> {
+  const owner = await currentOwner();
+  if (loadedOwner === owner) return;
+  if (!loadPromise) {
+    loadPromise = (async () => {
+      try {
+        const raw = await AsyncStorage.getItem(storageKeyFor(owner));
+        entries = raw ? JSON.parse(raw) : [];
+      } catch (e) {
+        console.warn('[outbox] failed to read queue', e);
+        entries = [];
+      }
+      loadedOwner = owner;
+    })().finally(() => {
+      loadPromise = null;
+    });
+  }
+  await loadPromise;
+  // Another provider's queue was loading; load this one
+  if (loadedOwner !== owner) await ensureLoaded();
+}
+
+async function persist(next: OutboxEntry[]): Promise<void> {
+  entries = next;
+  try {
+    if (loadedOwner) {
+      await AsyncStorage.setItem(storageKeyFor(loadedOwner), JSON.stringify(next));
+    }
+  } catch (e) {
+    console.warn('[outbox] failed to persist queue', e);
+  }
+  listeners.forEach(cb => {
+    try {
+      cb(entries);
+    } catch (e) {
+      console.warn('[outbox] listener error', e);
+    }
+  });
+}
+
+export function onOutboxChange(listener: Listener): () => void {
+  listeners.add(listener);
+  void ensureLoaded().then(() => listener(entries));
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+export async function getOutboxEntries(): Promise<OutboxEntry[]> {
+  await ensureLoaded();
+  return entries;
+}
+
+export async function enqueueJobCardAction(
+  jobCardId: string,
+  type: OutboxActionType,
+  payload: OutboxPayload = {},
+): Promise<OutboxEntry> {
+  await ensureLoaded();
+  const entry: OutboxEntry = {
+    id: `jc-${createIdempotencyKey()}`,
+    jobCardId,
+    type,
+    payload,
+    createdAt: Date.now(),
+    attempts: 0,
+    state: 'pending',
+  };
+  await persist([...entries, entry]);
+  return entry;
+}
+
+/** True while earlier actions for this job are still waiting to sync. */
+export async function hasQueuedActions(jobCardId: string): Promise<boolean> {
+  await ensureLoaded();
+  return entries.some(e => e.jobCardId === jobCardId);
+}
+
+/** True while the job's start has not synced — the customer has no PIN yet. */
+export async function hasQueuedStart(jobCardId: string): Promise<boolean> {
+  await ensureLoaded();
+  return entries.some(e => e.jobCardId === jobCardId && e.type === 'start');
+}
+
+/** Provider acknowledged a conflict — drop it so later actions can replay. */
+export async function dismissOutboxEntry(id: string): Promise<void> {
+  await ensureLoaded();
+  await persist(entries.filter(e => e.id !== id));
+  void flushOutbox();
+}
+
+/**
+ * Why `entry` can no longer be applied to `jobCard`,
+ * 'done' when the server already reflects it, or null when it should replay.
+ */
+function checkReplay(
+  entry: OutboxEntry,
+  jobCard: JobCard,
+): string | 'done' | null {
+  const status = jobCard.status;
+  switch (entry.type) {
+    case 'start':
+      if (status === 'accepted') return null;
+      if (
+        status === 'in-progress' &&
+        (!entry.payload.taskPIN || jobCard.taskPIN === entry.payload.taskPIN)
+      ) {
+        return 'done';
+      }
+      return `Job is ${status}; start was not applied`;
+    case 'complete':
+      if (status === 'completed') return 'done';
+      if (status !== 'in-progress') {
+        return `Job is ${status}; completion was not applied`;
+      }
+      if (jobCard.taskPIN && jobCard.taskPIN !== entry.payload.enteredPIN) {
+        return 'PIN entered offline does not match the customer PIN';
+      }
+      return null;
+    case 'cancel':
+      if (status === 'cancelled') return 'done';
+      if (status === 'completed') return 'Job was already completed';
+      return null;
+    case 'comment':
+      if (status === 'cancelled' || status === 'pending') {
+        return `Job is ${status}; comment was not posted`;
+      }
+      return null;
+    default:
+      return 'Unknown action';
+  }
+}
+
+async function replayEntry(entry: OutboxEntry): Promise<void> {
+  const service = await import('./jobCardService');
+  const {payload} = entry;
+  const options = {queueOffline: false, idempotencyKey: entry.id};
+
+  switch (entry.type) {
+    case 'start':
+      await service.updateJobCardStatus(entry.jobCardId, 'in-progress', {
+        ...options,
+        taskPIN: payload.taskPIN,
+      });
+      return;
+    case 'complete':
+      await service.verifyPINAndCompleteTask(
+        entry.jobCardId,
+        payload.enteredPIN || '',
+        payload.amount,
+        payload.materials,
+        payload.timeStarted ? new Date(payload.timeStarted) : undefined,
+        payload.timeCompleted ? new Date(payload.timeCompleted) : undefined,
+        options,
+      );
+      return;
+    case 'cancel':
+      await service.cancelTaskWithReason(
+        entry.jobCardId,
+        payload.cancellationReason || '',
+        options,
+      );
+      return;
+    case 'comment':
+      await service.addJobCardComment(entry.jobCardId, payload.text || '', options);
+      return;
+  }
+}
+
+async function runFlush(): Promise<void> {
+  await ensureLoaded();
+  if (!(await isOnline())) return;
+
+  const blockedJobs = new Set(
+    entries.filter(e => e.state === 'conflict').map(e => e.jobCardId),
+  );
+
+  // Snapshot ids: entries enqueued while flushing are picked up next round
+  const queue = entries.filter(e => e.state === 'pending').map(e => e.id);
+
+  for (const id of queue) {
+    const entry = entries.find(e => e.id === id);
+    if (!entry || entry.state !== 'pending') continue;
+    // Keep per-job ordering: nothing replays behind an unresolved conflict
+    if (blockedJobs.has(entry.jobCardId)) continue;
+
+    const update = (patch: Partial<OutboxEntry> | null) =>
+      persist(
+        patch === null
+          ? entries.filter(e => e.id !== id)
+          : entries.map(e => (e.id === id ? {...e, ...patch} : e)),
+      );
+
+    try {
+      const jobCard = await jobCardsApi.getById(entry.jobCardId);
+      if (!jobCard) {
+        await update({state: 'conflict', conflictReason: 'Job card no longer exists'});
+        blockedJobs.add(entry.jobCardId);
+        continue;
+      }
+
+      const verdict = checkReplay(entry, jobCard);
+      if (verdict === 'done') {
+        await update(null);
+        continue;
+      }
+      if (verdict) {
+        await update({
+          state: 'conflict',
+          conflictReason: verdict,
+          serverStatus: jobCard.status,
+        });
+        blockedJobs.add(entry.jobCardId);
+        continue;
+      }
+
+      await replayEntry(entry);
+      await update(null);
+    } catch (error: any) {
+      if (isConnectivityError(error)) {
+        // Lost signal again — keep the rest queued in order
+        await update({attempts: entry.attempts + 1});
+        return;
+      }
+      await update({
+        state: 'conflict',
+        attempts: entry.attempts + 1,
+        conflictReason: error?.message || 'Failed to sync action',
+      });
+      blockedJobs.add(entry.jobCardId);
+    }
+  }
+}
+
+/** Replay pending actions in order. Concurrent calls share one run. */
+export function flushOutbox(): Promise<void> {
+  if (!flushing) {
+    flushing = runFlush()
+      .catch(e => console.warn('[outbox] flush failed', e))
+      .finally(() => {
+        flushing = null;
+      });
+  }
+  return flushing;
+}
+
+/**
+ * Start replaying `userId`'s queue whenever connectivity comes back.
+ * Returns a stop function that also unloads the queue.
+ */
+export function startOutboxSync(userId: string): () => void {
+  ownerId = userId;
+  if (!netInfoUnsubscribe) {
+    let wasConnected: boolean | null = null;
+    netInfoUnsubscribe = NetInfo.addEventListener(state => {
+      const connected = isConnectedState(state);
+      if (connected && wasConnected !== true) {
+        void flushOutbox();
+      }
+      wasConnected = connected;
+    });
+  }
+  void flushOutbox();
+  return () => {
+    netInfoUnsubscribe?.();
+    netInfoUnsubscribe = null;
+    ownerId = null;
+    loadedOwner = null;
+    entries = [];
+  };
+}
@@ -9,11 +9,33 @@ import storage from '@react-native-firebase/storage';
 import RNFS from 'react-native-fs';
 import fcmNotificationService from './fcmNotificationService';
 import {generatePIN} from '../utils/pinGenerator';
-import {jobCardsApi, CreateJobCardData} from './api/jobCardsApi';
+import {
+  jobCardsApi,
+  CreateJobCardData,
+  JobCardPhoto,
+  JobCardContact,
+  JobCardContactAttempt,
+  JobCardQuotation,
+  JobCardTrip,
+  UpdateJobCardStatusData,
+} from './api/jobCardsApi';
 import {providersApi} from './api/providersApi';
 import {usersApi} from './api/usersApi';
+import {isApiError, isConnectivityError, ValidationError} from './api/apiErrors';
 import {PDFService} from './pdfService';
+import {finishJobPhotos, hasAfterPhoto} from './jobPhotoService';
+import {stopTripTracking} from './tripTrackingService';
 import {SOCKET_URL} from '../config/api';
+import {serviceRequestIdOf} from './socketProtocol';
+import {
+  enqueueJobCardAction,
+  flushOutbox,
+  hasQueuedActions,
+  hasQueuedStart,
+  isOnline,
+  OutboxActionType,
+  OutboxPayload,
+} from './jobCardOutbox';
 
 export interface JobCard {
   id?: string;
@@ -50,6 +72,22 @@ export interface JobCard {
   pinGeneratedAt?: Date | string;
   scheduledTime?: Date | string;
   cancellationReason?: string;
+  startedAt?: Date | string;
+  completedAt?: Date | string;
+  serviceAmount?: number;
+  materialsUsed?: UpdateJobCardStatusData['materialsUsed'];
+  jobCardPdfUrl?: string;
+  invoiceNumber?: string;
+  invoiceDate?: Date | string;
+  invoicePdfUrl?: string;
+  photos?: JobCardPhoto[];
+  trip?: JobCardTrip;
+  quotation?: JobCardQuotation;
+  /** Set by the backend when the job ends; the chat is read-only afterwards */
+  chatClosesAt?: Date | string;
+  /** How the provider may reach the customer; missing means direct dial */
+  contact?: JobCardContact;
+  contactLog?: JobCardContactAttempt[];
   comments?: Array<{
     _id: string;
     role: 'admin' | 'provider' | 'customer';
@@ -62,6 +100,52 @@ export interface JobCard {
   updatedAt: Date | string;
 }
 
+/** 'queued' when the action was saved to the offline outbox for later sync */
+export type JobCardActionResult = 'synced' | 'queued';
+
+export interface JobCardActionOptions {
+  /** Save to the offline outbox instead of failing without network (default true) */
+  queueOffline?: boolean;
+  /** Outbox entry id, sent as Idempotency-Key when replaying */
+  idempotencyKey?: string;
+}
+
+/**
+ * Run `action` online, or queue it in the outbox when offline / the request
+ * fails for lack of connectivity.
+ */
+const runOrQueue = async (
+  jobCardId: string,
+  type: OutboxActionType,
+  payload: OutboxPayload,
+  options: JobCardActionOptions,
+  action: () => Promise<void>,
+): Promise<JobCardActionResult> => {
+  const queueOffline = options.queueOffline !== false;
+  if (queueOffline && !(await isOnline())) {
+    await enqueueJobCardAction(jobCardId, type, payload);
+    return 'queued';
+  }
+  // Keep order: never overtake actions for this job that are still queued
+  if (queueOffline && (await hasQueuedActions(jobCardId))) {
+    await enqueueJobCardAction(jobCardId, type, payload);
+    void flushOutbox();
+    return 'queued';
+  }
+  try {
+    await action();
+    // A successful request means we are back online — drain anything queued
+    if (queueOffline) void flushOutbox();
+    return 'synced';
+  } catch (error) {
+    if (queueOffline && isConnectivityError(error)) {
+      await enqueueJobCardAction(jobCardId, type, payload);
+      return 'queued';
+    }
+    throw error;
+  }
+};
+
 /**
  * Create a job card when provider accepts a booking
  * Uses backend API for data operations
@@ -159,8 +243,8 @@ export const createJobCard = async (
       customerAddress: customerAddress as any,
       serviceType: provider.specialization || provider.specialty || 'Service',
       problem: problem || undefined,
-      consultationId: bookingData.consultationId,
-      bookingId: bookingData.bookingId || bookingData.id,
+      consultationId: bookingData.consultationId || bookingData.serviceRequestId,
+      bookingId: serviceRequestIdOf(bookingData),
       scheduledTime: bookingData.scheduledTime
         ? (bookingData.scheduledTime instanceof Date
             ? bookingData.scheduledTime
@@ -251,10 +335,42 @@ export const getProviderJobCards = async (providerId: string): Promise<JobCard[]
 /**
  * Update job card status via API
  * Also updates Realtime Database for real-time sync
+ * Starting a job offline is queued without a PIN; the PIN is generated
+ * when the start syncs, so the customer receives it with the start.
+ * Any live trip to the job ends once the start has synced or it is closed.
  */
 export const updateJobCardStatus = async (
   jobCardId: string,
   status: JobCard['status'],
+  options: JobCardActionOptions & {taskPIN?: string} = {},
+): Promise<JobCardActionResult> => {
+  if (status !== 'in-progress') {
+    await applyJobCardStatus(jobCardId, status, undefined, options.idempotencyKey);
+    if (status === 'cancelled' || status === 'completed') {
+      void stopTripTracking(jobCardId, status === 'cancelled' ? 'cancelled' : 'stopped');
+    }
+    return 'synced';
+  }
+  const result = await runOrQueue(jobCardId, 'start', {}, options, () =>
+    applyJobCardStatus(
+      jobCardId,
+      status,
+      options.taskPIN || generatePIN(),
+      options.idempotencyKey,
+    ),
+  );
+  // A queued start has not reached the customer; keep sharing the trip until it syncs
+  if (result === 'synced') {
+    void stopTripTracking(jobCardId, 'started');
+  }
+  return result;
+};
+
+const applyJobCardStatus = async (
+  jobCardId: string,
+  status: JobCard['status'],
+  taskPIN: string | undefined,
+  idempotencyKey?: string,
 ): Promise<void> => {
   const {requireSessionUser, getUserId} = await import('./session');
   const sessionUser = await requireSessionUser();
@@ -272,11 +388,6 @@ export const updateJobCardStatus = async (
   const problem = jobCardData.problem;
   const providerId = jobCardData.providerId || getUserId(sessionUser) || '';
 
-  let taskPIN: string | undefined;
-  if (status === 'in-progress') {
-    taskPIN = generatePIN();
-  }
-
   // API first — this is the source of truth
   try {
     const updateData: any = {status};
@@ -284,9 +395,10 @@ export const updateJobCardStatus = async (
       updateData.taskPIN = taskPIN;
       updateData.pinGeneratedAt = new Date();
     }
-    await jobCardsApi.updateStatus(jobCardId, status, updateData);
+    await jobCardsApi.updateStatus(jobCardId, status, updateData, idempotencyKey);
   } catch (apiError: any) {
     console.error('Error updating job card status via API:', apiError);
+    if (isApiError(apiError)) throw apiError;
     throw new Error(
       apiError?.message || 'Failed to update job card status',
     );
@@ -465,9 +577,13 @@ export const subscribeToCustomerJobCardStatuses = (
 /**
  * Upload PDF to Firebase Storage and return URL
  */
-const uploadPDFToStorage = async (pdfPath: string, jobCardId: string): Promise<string> => {
+export const uploadPDFToStorage = async (
+  pdfPath: string,
+  jobCardId: string,
+  prefix: string = 'jobCard',
+): Promise<string> => {
   try {
-    const filename = `jobCards/${jobCardId}/jobCard_${Date.now()}.pdf`;
+    const filename = `jobCards/${jobCardId}/${prefix}_${Date.now()}.pdf`;
     const reference = storage().ref(filename);
 
     // Upload file
@@ -485,6 +601,10 @@ const uploadPDFToStorage = async (pdfPath: string, jobCardId: string): Promise<s
 /**
  * Verify PIN and complete task via API
  * Generates job card PDF and stores it
+ * Offline, the PIN is verified when the outbox replays. A job whose start
+ * has not synced yet cannot be completed: the customer has no PIN.
+ * With `requireAfterPhoto` (categories that configure it) completion is
+ * refused until at least one "after" photo has been taken.
  */
 export const verifyPINAndCompleteTask = async (
   jobCardId: string,
@@ -498,6 +618,54 @@ export const verifyPINAndCompleteTask = async (
   }>,
   timeStarted?: Date,
   timeCompleted?: Date,
+  options: JobCardActionOptions & {requireAfterPhoto?: boolean} = {},
+): Promise<JobCardActionResult> => {
+  if (options.requireAfterPhoto && !(await hasAfterPhoto(jobCardId))) {
+    throw new ValidationError('Add at least one photo of the finished work before completing.', {
+      code: 'AFTER_PHOTO_REQUIRED',
+    });
+  }
+
+  if (options.queueOffline !== false && (await hasQueuedStart(jobCardId))) {
+    throw new ValidationError(
+      'The job start has not synced yet, so the customer has no PIN. Go online to sync it first.',
+      {code: 'START_NOT_SYNCED'},
+    );
+  }
+
+  const completedAt = timeCompleted || new Date();
+  return runOrQueue(
+    jobCardId,
+    'complete',
+    {
+      enteredPIN,
+      amount,
+      materials,
+      timeStarted: timeStarted?.toISOString(),
+      timeCompleted: completedAt.toISOString(),
+    },
+    options,
+    () =>
+      completeTask(
+        jobCardId,
+        enteredPIN,
+        amount,
+        materials,
+        timeStarted,
+        completedAt,
+        options.idempotencyKey,
+      ),
+  );
+};
+
+const completeTask = async (
+  jobCardId: string,
+  enteredPIN: string,
+  amount: number | undefined,
+  materials: UpdateJobCardStatusData['materialsUsed'],
+  timeStarted: Date | undefined,
+  timeCompleted: Date,
+  idempotencyKey?: string,
 ): Promise<void> => {
   try {
     const {requireSessionUser} = await import('./session');
@@ -558,12 +726,17 @@ export const verifyPINAndCompleteTask = async (
     }
 
     // Complete the task via API with PDF URL
-    await jobCardsApi.updateStatus(jobCardId, 'completed', {
-      completedAt: timeCompleted || new Date(),
-      serviceAmount: amount,
-      materialsUsed: materials,
-      jobCardPdfUrl: pdfUrl,
-    });
+    await jobCardsApi.updateStatus(
+      jobCardId,
+      'completed',
+      {
+        completedAt: timeCompleted,
+        serviceAmount: amount,
+        materialsUsed: materials,
+        jobCardPdfUrl: pdfUrl,
+      },
+      idempotencyKey,
+    );
 
     // Best-effort RTDB mirror
     try {
@@ -572,7 +745,7 @@ export const verifyPINAndCompleteTask = async (
         .update({
           status: 'completed',
           updatedAt: Date.now(),
-          completedAt: timeCompleted ? timeCompleted.getTime() : Date.now(),
+          completedAt: timeCompleted.getTime(),
         });
     } catch (rtdbError: any) {
       console.warn(
@@ -581,20 +754,43 @@ export const verifyPINAndCompleteTask = async (
       );
     }
 
+    // The job card holds the photos now; the local index can let them go
+    void finishJobPhotos(jobCardId).catch(photoError =>
+      console.warn('[photos] cleanup after completion failed:', photoError?.message || photoError),
+    );
+
     // Clear PIN by updating via API (PIN will be cleared by backend)
     // The backend should handle clearing the PIN after successful completion
   } catch (error: any) {
     console.error('Error verifying PIN and completing task:', error);
+    if (isApiError(error)) throw error;
     throw new Error(error.message || 'Failed to verify PIN and complete task');
   }
 };
 
 /**
- * Cancel task with reason via API
+ * Cancel task with reason via API (queued when offline)
  */
 export const cancelTaskWithReason = async (
   jobCardId: string,
   cancellationReason: string,
+  options: JobCardActionOptions = {},
+): Promise<JobCardActionResult> => {
+  const result = await runOrQueue(
+    jobCardId,
+    'cancel',
+    {cancellationReason: cancellationReason.trim()},
+    options,
+    () => cancelTask(jobCardId, cancellationReason, options.idempotencyKey),
+  );
+  void stopTripTracking(jobCardId, 'cancelled');
+  return result;
+};
+
+const cancelTask = async (
+  jobCardId: string,
+  cancellationReason: string,
+  idempotencyKey?: string,
 ): Promise<void> => {
   try {
     const {requireSessionUser} = await import('./session');
@@ -615,9 +811,12 @@ export const cancelTaskWithReason = async (
     const problem = jobCardData.problem;
 
     // Update job card status to cancelled via API
-    await jobCardsApi.updateStatus(jobCardId, 'cancelled', {
-      cancellationReason: cancellationReason.trim(),
-    });
+    await jobCardsApi.updateStatus(
+      jobCardId,
+      'cancelled',
+      {cancellationReason: cancellationReason.trim()},
+      idempotencyKey,
+    );
 
     // Best-effort RTDB mirror
     try {
@@ -652,6 +851,28 @@ export const cancelTaskWithReason = async (
     }
   } catch (error: any) {
     console.error('Error cancelling task:', error);
+    if (isApiError(error)) throw error;
     throw new Error(error.message || 'Failed to cancel task');
   }
 };
+
+/**
+ * Add a comment to a job card (queued when offline).
+ * Returns the updated comment list, or null when the comment was queued.
+ */
+export const addJobCardComment = async (
+  jobCardId: string,
+  text: string,
+  options: JobCardActionOptions = {},
+): Promise<JobCard['comments'] | null> => {
+  let comments: JobCard['comments'] | null = null;
+  await runOrQueue(jobCardId, 'comment', {text}, options, async () => {
+    const updated = await jobCardsApi.addComment(
+      jobCardId,
+      text,
+      options.idempotencyKey,
+    );
+    comments = updated.comments || [];
+  });
+  return comments;
+};
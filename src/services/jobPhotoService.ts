@@ -0,0 +1,333 @@
+/**
+ * Before / after work photos (Provider App)
+ * Photos are compressed by the picker, stamped with their capture time
+ * (EXIF when available) and GPS position, copied into app storage and
+ * uploaded to Firebase Storage with retries. The local index survives app
+ * restarts so failed uploads can be retried, and lets completion check for
+ * an "after" photo while offline.
+ */
+
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import {PermissionsAndroid, Platform} from 'react-native';
+import storage from '@react-native-firebase/storage';
+import RNFS from 'react-native-fs';
+import {
+  Asset,
+  CameraOptions,
+  ImageLibraryOptions,
+  launchCamera,
+  launchImageLibrary,
+} from 'react-native-image-picker';
+import GeolocationService from './geolocationService';
+import {createIdempotencyKey} from './api/apiClient';
+import {isConnectivityError} from './api/apiErrors';
+import {jobCardsApi, JobCardPhoto, JobPhotoPhase} from './api/jobCardsApi';
+
+export const JOB_PHOTOS_STORAGE_KEY = 'hs_provider_job_photos';
+
+const PHOTO_DIR = `${RNFS.DocumentDirectoryPath}/job_photos`;
+const MAX_UPLOAD_ATTEMPTS = 3;
+const RETRY_BASE_DELAY_MS = 1000;
+const LOCATION_TIMEOUT_MS = 5000;
+
+/** Client-side compression, applied by the picker */
+const PICKER_OPTIONS = {
+  mediaType: 'photo',
+  quality: 0.7,
+  maxWidth: 1600,
+  maxHeight: 1600,
+  includeExtra: true,
+} as const;
+
+export type JobPhotoUploadStatus = 'pending' | 'uploading' | 'uploaded' | 'failed';
+
+export interface LocalJobPhoto {
+  id: string;
+  jobCardId: string;
+  phase: JobPhotoPhase;
+  /** App-storage copy; removed once uploaded */
+  localPath?: string;
+  url?: string;
+  capturedAt: string;
+  latitude?: number;
+  longitude?: number;
+  status: JobPhotoUploadStatus;
+  attempts: number;
+  error?: string;
+}
+
+type Listener = (jobCardId: string, photos: LocalJobPhoto[]) => void;
+
+const listeners = new Set<Listener>();
+let cache: LocalJobPhoto[] | null = null;
+const inFlight = new Set<string>();
+/** Completed jobs whose uploaded records are dropped as soon as they land */
+const finishedJobs = new Set<string>();
+
+async function readIndex(): Promise<LocalJobPhoto[]> {
+  if (cache) return cache;
+  try {
+    const raw = await AsyncStorage.getItem(JOB_PHOTOS_STORAGE_KEY);
+    cache = raw ? JSON.parse(raw) : [];
+  } catch {
+    cache = [];
+  }
+  return cache!;
+}
+
+async function writeIndex(photos: LocalJobPhoto[]): Promise<void> {
+  cache = photos;
+  try {
+    await AsyncStorage.setItem(JOB_PHOTOS_STORAGE_KEY, JSON.stringify(photos));
+  } catch (e) {
+    console.warn('[photos] failed to persist photo index', e);
+  }
+}
+
+async function updatePhoto(id: string, patch: Partial<LocalJobPhoto>): Promise<LocalJobPhoto | null> {
+  const photos = await readIndex();
+  const index = photos.findIndex(p => p.id === id);
+  if (index < 0) return null;
+  const updated = {...photos[index], ...patch};
+  const next = [...photos];
+  next[index] = updated;
+  await writeIndex(next);
+  notify(updated.jobCardId, next);
+  return updated;
+}
+
+function notify(jobCardId: string, photos: LocalJobPhoto[]): void {
+  const forJob = photos.filter(p => p.jobCardId === jobCardId);
+  listeners.forEach(cb => {
+    try {
+      cb(jobCardId, forJob);
+    } catch (e) {
+      console.warn('[photos] listener error', e);
+    }
+  });
+}
+
+/** Notified with a job's local photos whenever one is added or changes state. */
+export function onJobPhotosChange(listener: Listener): () => void {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+/** Photos taken on this device for a job (any upload state) */
+export async function getLocalJobPhotos(jobCardId: string): Promise<LocalJobPhoto[]> {
+  return (await readIndex()).filter(p => p.jobCardId === jobCardId);
+}
+
+/** EXIF 'YYYY:MM:DD HH:mm:ss' or ISO → ISO string */
+const parseExifTimestamp = (value?: string): string | null => {
+  if (!value) return null;
+  const exif = /^(\d{4}):(\d{2}):(\d{2})[ T](\d{2}):(\d{2}):(\d{2})/.exec(value);
+  const date = exif
+    ? new Date(+exif[1], +exif[2] - 1, +exif[3], +exif[4], +exif[5], +exif[6])
+    : new Date(value);
+  return Number.isNaN(date.getTime()) ? null : date.toISOString();
+};
+
+/** Current position for stamping; never prompts and gives up after a few seconds */
+async function currentPosition(): Promise<{latitude: number; longitude: number} | null> {
+  try {
+    const location = await Promise.race([
+      GeolocationService.getCurrentLocation(),
+      new Promise<null>(resolve => setTimeout(() => resolve(null), LOCATION_TIMEOUT_MS)),
+    ]);
+    return location ? {latitude: location.latitude, longitude: location.longitude} : null;
+  } catch {
+    return null;
+  }
+}
+
+/** Android asks at runtime; iOS prompts from the picker itself */
+export async function ensureCameraPermission(): Promise<boolean> {
+  if (Platform.OS !== 'android') return true;
+  const result = await PermissionsAndroid.request(PermissionsAndroid.PERMISSIONS.CAMERA);
+  return result === PermissionsAndroid.RESULTS.GRANTED;
+}
+
+/**
+ * Take (camera) or pick (library) photos for a job. Camera shots are
+ * GPS-stamped at capture; library picks keep only their EXIF time since
+ * the current position says nothing about where they were taken.
+ * Returns the new local records (empty when cancelled).
+ */
+export async function captureJobPhotos(
+  jobCardId: string,
+  phase: JobPhotoPhase,
+  source: 'camera' | 'library',
+): Promise<LocalJobPhoto[]> {
+  if (source === 'camera' && !(await ensureCameraPermission())) {
+    throw new Error('Camera permission is required to take work photos');
+  }
+
+  const result =
+    source === 'camera'
+      ? await launchCamera({...PICKER_OPTIONS, saveToPhotos: false} as CameraOptions)
+      : await launchImageLibrary({...PICKER_OPTIONS, selectionLimit: 5} as ImageLibraryOptions);
+  // A failed picker also comes back without assets, so check for errors first
+  if (result.errorCode) {
+    throw new Error(result.errorMessage || 'Could not open the camera');
+  }
+  if (result.didCancel || !result.assets?.length) return [];
+
+  const position = source === 'camera' ? await currentPosition() : null;
+  await RNFS.mkdir(PHOTO_DIR);
+
+  const added: LocalJobPhoto[] = [];
+  for (const asset of result.assets as Asset[]) {
+    if (!asset.uri) continue;
+    const id = createIdempotencyKey();
+    const localPath = `${PHOTO_DIR}/${jobCardId}_${phase}_${id}.jpg`;
+    await RNFS.copyFile(asset.uri.replace(/^file:\/\//, ''), localPath);
+    added.push({
+      id,
+      jobCardId,
+      phase,
+      localPath,
+      capturedAt: parseExifTimestamp(asset.timestamp) || new Date().toISOString(),
+      latitude: position?.latitude,
+      longitude: position?.longitude,
+      status: 'pending',
+      attempts: 0,
+    });
+  }
+
+  const photos = [...(await readIndex()), ...added];
+  await writeIndex(photos);
+  notify(jobCardId, photos);
+  added.forEach(photo => void uploadJobPhoto(photo.id));
+  return added;
+}
+
+const delay = (ms: number) => new Promise<void>(resolve => setTimeout(resolve, ms));
+
+/**
+ * Upload one photo (storage + job card record), retrying with backoff.
+ * Leaves it 'failed' when every attempt fails; `retryJobPhotoUploads` picks it up again.
+ */
+export async function uploadJobPhoto(id: string): Promise<LocalJobPhoto | null> {
+  if (inFlight.has(id)) return null;
+  const photo = (await readIndex()).find(p => p.id === id);
+  if (!photo || photo.status === 'uploaded' || !photo.localPath) return photo || null;
+
+  inFlight.add(id);
+  try {
+    await updatePhoto(id, {status: 'uploading', error: undefined});
+    let lastError: any;
+    for (let attempt = 0; attempt < MAX_UPLOAD_ATTEMPTS; attempt++) {
+      if (attempt > 0) await delay(RETRY_BASE_DELAY_MS * 2 ** (attempt - 1));
+      try {
+        const reference = storage().ref(
+          `jobCards/${photo.jobCardId}/photos/${photo.phase}_${photo.id}.jpg`,
+        );
+        await reference.putFile(photo.localPath, {
+          contentType: 'image/jpeg',
+          customMetadata: {
+            phase: photo.phase,
+            capturedAt: photo.capturedAt,
+            ...(photo.latitude != null && photo.longitude != null
+              ? {latitude: String(photo.latitude), longitude: String(photo.longitude)}
+              : {}),
+          },
+        });
+        const url = await reference.getDownloadURL();
+        await jobCardsApi.addPhoto(
+          photo.jobCardId,
+          {
+            phase: photo.phase,
+            url,
+            capturedAt: photo.capturedAt,
+            latitude: photo.latitude,
+            longitude: photo.longitude,
+          },
+          `photo-${photo.id}`,
+        );
+
+        try {
+          await RNFS.unlink(photo.localPath);
+        } catch (cleanupError) {
+          console.warn('[photos] failed to remove local copy:', cleanupError);
+        }
+        const uploaded = await updatePhoto(id, {
+          status: 'uploaded',
+          url,
+          localPath: undefined,
+          attempts: photo.attempts + attempt + 1,
+        });
+        if (finishedJobs.has(photo.jobCardId)) {
+          await pruneUploadedJobPhotos(photo.jobCardId);
+        }
+        return uploaded;
+      } catch (error: any) {
+        lastError = error;
+        // No point hammering while offline — wait for the next retry pass
+        if (isConnectivityError(error)) break;
+      }
+    }
+    console.warn('[photos] upload failed:', lastError?.message || lastError);
+    return await updatePhoto(id, {
+      status: 'failed',
+      attempts: photo.attempts + 1,
+      error: lastError?.message || 'Upload failed',
+    });
+  } finally {
+    inFlight.delete(id);
+  }
+}
+
+/** Retry every photo of a job (or all jobs) that has not been uploaded yet. */
+export async function retryJobPhotoUploads(jobCardId?: string): Promise<void> {
+  const waiting = (await readIndex()).filter(
+    p =>
+      (!jobCardId || p.jobCardId === jobCardId) &&
+      (p.status === 'pending' || p.status === 'failed' || p.status === 'uploading'),
+  );
+  for (const photo of waiting) {
+    await uploadJobPhoto(photo.id);
+  }
+}
+
+/**
+ * Whether the job has at least one "after" photo — taken on this device
+ * (even if still uploading) or already attached to the job card.
+ */
+export async function hasAfterPhoto(
+  jobCardId: string,
+  knownPhotos: JobCardPhoto[] = [],
+): Promise<boolean> {
+  if (knownPhotos.some(p => p.phase === 'after')) return true;
+  const local = await getLocalJobPhotos(jobCardId);
+  if (local.some(p => p.phase === 'after')) return true;
+  try {
+    const jobCard = await jobCardsApi.getById(jobCardId);
+    return !!jobCard?.photos?.some(p => p.phase === 'after');
+  } catch {
+    return false;
+  }
+}
+
+/** Forget uploaded records of a finished job (the job card has them now). */
+export async function pruneUploadedJobPhotos(jobCardId: string): Promise<void> {
+  const photos = await readIndex();
+  const next = photos.filter(p => !(p.jobCardId === jobCardId && p.status === 'uploaded'));
+  if (next.length !== photos.length) {
+    await writeIndex(next);
+    notify(jobCardId, next);
+  }
+}
+
+/**
+ * Once a job is completed: push anything still waiting, then drop the
+ * uploaded records. Uploads still running are pruned when they finish;
+ * failed ones stay for the next retry pass.
+ */
+export async function finishJobPhotos(jobCardId: string): Promise<void> {
+  finishedJobs.add(jobCardId);
+  await retryJobPhotoUploads(jobCardId);
+  await pruneUploadedJobPhotos(jobCardId);
+}
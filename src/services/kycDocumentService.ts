@@ -0,0 +1,307 @@
+/**
+ * KYC documents (Provider App)
+ * The provider's verification documents as typed records: what each one
+ * is, its number and validity dates, and its own review status. Keeps a
+ * cached copy in step with admin reviews pushed over the socket and
+ * schedules local reminders before a document lapses.
+ *
+ * Profiles created before per-document review only carry bare URLs in
+ * `provider.documents`; those are read as documents with a status derived
+ * from the old `<kind>Verified` flags and the profile's approval status.
+ */
+
+import storage from '@react-native-firebase/storage';
+import i18n from '../i18n';
+import {IdNumberKind, IdNumberValidation, validateIdNumber} from '../utils/identity';
+import {
+  documentsApi,
+  DocumentStatus,
+  DocumentStatusEvent,
+  DocumentSubmission,
+  ProviderDocument,
+  ProviderDocumentKind,
+  ProviderDocumentType,
+} from './api/documentsApi';
+import {getMyProfile, Provider} from './api/providersApi';
+import notificationService from './notificationService';
+import websocketService from './websocketService';
+
+export const DOCUMENT_KINDS: ProviderDocumentKind[] = ['idProof', 'addressProof', 'certificate'];
+export const REQUIRED_DOCUMENT_KINDS: ProviderDocumentKind[] = ['idProof', 'addressProof'];
+
+/** Document types accepted for each kind, most common first */
+export const DOCUMENT_TYPES: Record<ProviderDocumentKind, ProviderDocumentType[]> = {
+  idProof: ['aadhaar', 'pan', 'driving_licence', 'voter_id', 'passport'],
+  addressProof: ['aadhaar', 'utility_bill', 'rental_agreement', 'driving_licence', 'passport'],
+  certificate: ['trade_certificate', 'vehicle_rc', 'other'],
+};
+
+/** Document types whose number has a known format (checked before submitting) */
+export const ID_NUMBER_KINDS: Partial<Record<ProviderDocumentType, IdNumberKind>> = {
+  aadhaar: 'aadhaar',
+  pan: 'pan',
+  driving_licence: 'driving_licence',
+  vehicle_rc: 'vehicle_registration',
+};
+
+/** Types that carry an expiry date (and so get reminders) */
+export const EXPIRING_TYPES: ProviderDocumentType[] = [
+  'driving_licence',
+  'passport',
+  'rental_agreement',
+  'trade_certificate',
+  'vehicle_rc',
+];
+
+/** Remind this many days before expiry (0 = on the day) */
+export const EXPIRY_REMINDER_DAYS = [30, 7, 0];
+/** A document is "expiring" inside this window */
+export const EXPIRING_SOON_DAYS = 30;
+const REMINDER_HOUR = 10;
+/** Local notification ids are numeric on Android */
+const REMINDER_ID_BASE = 7300;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export type ExpiryState = 'valid' | 'expiring' | 'expired';
+
+/** Overall KYC standing shown on the profile */
+export type KycStatus = 'incomplete' | 'rejected' | 'expired' | 'pending' | 'verified';
+
+export interface TimelineEntry extends DocumentStatusEvent {
+  kind: ProviderDocumentKind;
+}
+
+type DocumentsListener = (documents: ProviderDocument[]) => void;
+
+let cached: ProviderDocument[] | null = null;
+const listeners = new Set<DocumentsListener>();
+
+function setDocuments(documents: ProviderDocument[]): ProviderDocument[] {
+  cached = documents;
+  listeners.forEach(listener => listener(documents));
+  return documents;
+}
+
+/** 'YYYY-MM-DD' → local midnight (null when unset or malformed) */
+export function parseDocumentDate(value?: string): Date | null {
+  const match = /^(\d{4})-(\d{2})-(\d{2})$/.exec(value || '');
+  if (!match) return null;
+  const date = new Date(Number(match[1]), Number(match[2]) - 1, Number(match[3]));
+  return Number.isNaN(date.getTime()) ? null : date;
+}
+
+export function formatDocumentDate(date: Date): string {
+  const pad = (n: number) => String(n).padStart(2, '0');
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+}
+
+/** Whole days until expiry (negative once expired, null without an expiry) */
+export function daysUntilExpiry(document: ProviderDocument, now: Date = new Date()): number | null {
+  const expiry = parseDocumentDate(document.expiryDate);
+  if (!expiry) return null;
+  const today = new Date(now.getFullYear(), now.getMonth(), now.getDate());
+  return Math.round((expiry.getTime() - today.getTime()) / DAY_MS);
+}
+
+/** Validation of a document's number (null for types without a known format) */
+export function validateDocumentNumber(
+  type: ProviderDocumentType,
+  number?: string,
+): IdNumberValidation | null {
+  const kind = ID_NUMBER_KINDS[type];
+  return kind ? validateIdNumber(kind, number) : null;
+}
+
+export function expiryStateOf(document: ProviderDocument, now: Date = new Date()): ExpiryState {
+  const days = daysUntilExpiry(document, now);
+  if (days === null || days > EXPIRING_SOON_DAYS) return 'valid';
+  return days < 0 ? 'expired' : 'expiring';
+}
+
+/**
+ * Whether the provider may upload a new file for this kind: always when
+ * missing or rejected, and for verified documents only once they are
+ * about to lapse
+ */
+export function canReplaceDocument(document?: ProviderDocument | null): boolean {
+  if (!document || document.status !== 'verified') return true;
+  return expiryStateOf(document) !== 'valid';
+}
+
+export function kycStatusOf(documents: ProviderDocument[], now: Date = new Date()): KycStatus {
+  const byKind = new Map(documents.map(document => [document.kind, document]));
+  if (REQUIRED_DOCUMENT_KINDS.some(kind => !byKind.has(kind))) return 'incomplete';
+  if (documents.some(document => document.status === 'rejected')) return 'rejected';
+  if (documents.some(document => expiryStateOf(document, now) === 'expired')) return 'expired';
+  if (documents.some(document => document.status === 'pending')) return 'pending';
+  return 'verified';
+}
+
+/** Every status change across all documents, newest first */
+export function documentTimeline(documents: ProviderDocument[]): TimelineEntry[] {
+  return documents
+    .flatMap(document =>
+      (document.history || []).map(event => ({...event, kind: document.kind})),
+    )
+    .sort((a, b) => new Date(b.at).getTime() - new Date(a.at).getTime());
+}
+
+function legacyDocuments(provider: Provider | null): ProviderDocument[] {
+  const legacy = (provider as any)?.documents;
+  if (!legacy) return [];
+  const at = String(provider?.updatedAt || provider?.createdAt || new Date().toISOString());
+  return DOCUMENT_KINDS.filter(kind => typeof legacy[kind] === 'string' && legacy[kind]).map(
+    kind => {
+      const status: DocumentStatus = legacy[`${kind}Verified`]
+        ? 'verified'
+        : provider?.approvalStatus === 'rejected'
+        ? 'rejected'
+        : 'pending';
+      const rejectionReason = status === 'rejected' ? provider?.rejectionReason : undefined;
+      return {
+        kind,
+        type: kind === 'certificate' ? 'trade_certificate' : 'other',
+        fileUrl: legacy[kind],
+        status,
+        rejectionReason,
+        history: [
+          {status: 'pending', at, by: 'provider'},
+          ...(status === 'pending'
+            ? []
+            : [{status, at, reason: rejectionReason, by: 'admin' as const}]),
+        ],
+      };
+    },
+  );
+}
+
+/**
+ * The provider's documents (cached; `refresh` goes back to the server)
+ */
+export async function getDocuments(refresh = false): Promise<ProviderDocument[]> {
+  if (cached && !refresh) return cached;
+  let documents: ProviderDocument[] = [];
+  try {
+    documents = await documentsApi.getMyDocuments();
+  } catch (error: any) {
+    console.warn('[kyc] documents unavailable:', error?.message || error);
+  }
+  if (documents.length === 0) {
+    documents = legacyDocuments(await getMyProfile().catch(() => null));
+  }
+  return setDocuments(documents);
+}
+
+export function onDocumentsChange(listener: DocumentsListener): () => void {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+/** Upload a picked file to storage; returns its download URL */
+export async function uploadDocumentFile(uri: string, kind: ProviderDocumentKind): Promise<string> {
+  const extension = uri.split('.').pop()?.toLowerCase() || 'jpg';
+  const filename = `provider_documents/${kind}/${Date.now()}_${Math.random().toString(36).substring(7)}.${extension}`;
+  const reference = storage().ref(filename);
+  await reference.putFile(uri);
+  return await reference.getDownloadURL();
+}
+
+/**
+ * Submit a new or replacement document; it goes back to pending review
+ */
+export async function submitKycDocument(submission: DocumentSubmission): Promise<ProviderDocument> {
+  const saved = await documentsApi.submit(submission);
+  const documents = [
+    ...(cached || []).filter(document => document.kind !== submission.kind),
+    saved,
+  ];
+  setDocuments(documents);
+  scheduleExpiryReminders(documents);
+  return saved;
+}
+
+export async function withdrawKycDocument(kind: ProviderDocumentKind): Promise<void> {
+  await documentsApi.delete(kind);
+  const documents = (cached || []).filter(document => document.kind !== kind);
+  setDocuments(documents);
+  scheduleExpiryReminders(documents);
+}
+
+const reminderId = (kind: ProviderDocumentKind, days: number) =>
+  String(REMINDER_ID_BASE + DOCUMENT_KINDS.indexOf(kind) * 100 + days);
+
+function cancelExpiryReminders(): void {
+  DOCUMENT_KINDS.forEach(kind =>
+    EXPIRY_REMINDER_DAYS.forEach(days => notificationService.cancelNotification(reminderId(kind, days))),
+  );
+}
+
+/**
+ * (Re)schedule the lapse reminders for every document with an expiry date.
+ * Rejected documents are skipped — the provider already has to replace them.
+ */
+export function scheduleExpiryReminders(documents: ProviderDocument[], now: Date = new Date()): void {
+  cancelExpiryReminders();
+  documents.forEach(document => {
+    const expiry = parseDocumentDate(document.expiryDate);
+    if (!expiry || document.status === 'rejected') return;
+    const name = String(i18n.t(`kyc.kinds.${document.kind}`));
+    EXPIRY_REMINDER_DAYS.forEach(days => {
+      const at = new Date(expiry.getTime() - days * DAY_MS);
+      at.setHours(REMINDER_HOUR, 0, 0, 0);
+      if (at.getTime() <= now.getTime()) return;
+      notificationService.scheduleNotification(
+        reminderId(document.kind, days),
+        String(i18n.t('kyc.reminder.title', {name})),
+        days === 0
+          ? String(i18n.t('kyc.reminder.today', {name}))
+          : String(i18n.t('kyc.reminder.message', {name, count: days})),
+        at,
+        undefined,
+        {type: 'document_expiry', kind: document.kind},
+      );
+    });
+  });
+}
+
+/**
+ * Keep documents in step with admin reviews; returns the cleanup
+ */
+export function startDocumentSync(): () => void {
+  void getDocuments(true).then(scheduleExpiryReminders);
+
+  const unsubscribe = websocketService.on('document-status-changed', event => {
+    const documents = (cached || []).map(document =>
+      document.kind === event.kind
+        ? {
+            ...document,
+            status: event.status,
+            rejectionReason: event.status === 'rejected' ? event.rejectionReason : undefined,
+            reviewedAt: event.updatedAt,
+            history: [
+              ...(document.history || []),
+              {
+                status: event.status,
+                at: event.updatedAt,
+                reason: event.rejectionReason,
+                by: 'admin' as const,
+              },
+            ],
+          }
+        : document,
+    );
+    setDocuments(documents);
+    scheduleExpiryReminders(documents);
+    // The server copy has the full history (and masked numbers)
+    void getDocuments(true);
+  });
+
+  return () => {
+    unsubscribe();
+    cancelExpiryReminders();
+    cached = null;
+  };
+}
@@ -0,0 +1,202 @@
+/**
+ * Notification center (Provider App)
+ * Keeps the store's inbox in step with the server: the first page on start
+ * and whenever the app returns to the foreground, live pushes over the
+ * socket, and read state changed on other devices. Reads made offline are
+ * queued and sent with the next sync.
+ */
+
+import {AppState} from 'react-native';
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import {useStore} from '../store';
+import type {AppNotification} from '../store';
+import {notificationsApi, ProviderNotification} from './api/notificationsApi';
+import {isConnectivityError} from './api/apiErrors';
+import websocketService from './websocketService';
+
+const PAGE_SIZE = 20;
+const PENDING_READS_STORAGE_KEY = 'hs_provider_notification_reads';
+
+export const GENERAL_GROUP_KEY = 'general';
+
+export interface NotificationGroup {
+  /** Job card id, or GENERAL_GROUP_KEY for notifications without a job */
+  key: string;
+  jobCardId?: string;
+  /** Newest first */
+  notifications: AppNotification[];
+  unread: number;
+}
+
+export function toAppNotification(notification: ProviderNotification): AppNotification {
+  return {
+    id: notification._id,
+    title: notification.title,
+    message: notification.message,
+    type: notification.type,
+    jobCardId: notification.jobCardId,
+    serviceRequestId: notification.serviceRequestId,
+    data: notification.data,
+    read: !!notification.readAt,
+    createdAt: new Date(notification.createdAt),
+  };
+}
+
+/**
+ * One group per job card plus one for everything else (approvals, system
+ * messages), ordered by each group's newest notification.
+ */
+export function groupNotificationsByJob(notifications: AppNotification[]): NotificationGroup[] {
+  const groups = new Map<string, NotificationGroup>();
+  notifications.forEach(notification => {
+    const key = notification.jobCardId || GENERAL_GROUP_KEY;
+    const group = groups.get(key) || {
+      key,
+      jobCardId: notification.jobCardId,
+      notifications: [],
+      unread: 0,
+    };
+    group.notifications.push(notification);
+    if (!notification.read) group.unread += 1;
+    groups.set(key, group);
+  });
+  return [...groups.values()]
+    .map(group => ({
+      ...group,
+      notifications: group.notifications.sort(
+        (a, b) => b.createdAt.getTime() - a.createdAt.getTime(),
+      ),
+    }))
+    .sort(
+      (a, b) =>
+        b.notifications[0].createdAt.getTime() - a.notifications[0].createdAt.getTime(),
+    );
+}
+
+async function getPendingReads(): Promise<string[]> {
+  try {
+    const raw = await AsyncStorage.getItem(PENDING_READS_STORAGE_KEY);
+    return raw ? JSON.parse(raw) : [];
+  } catch {
+    return [];
+  }
+}
+
+async function queueReads(ids: string[]): Promise<void> {
+  const pending = new Set([...(await getPendingReads()), ...ids]);
+  await AsyncStorage.setItem(PENDING_READS_STORAGE_KEY, JSON.stringify([...pending]));
+}
+
+async function flushPendingReads(): Promise<void> {
+  const pending = await getPendingReads();
+  if (pending.length === 0) return;
+  await notificationsApi.markRead(pending);
+  await AsyncStorage.removeItem(PENDING_READS_STORAGE_KEY);
+}
+
+/** Reload the newest page (replaces the cached inbox) */
+export async function refreshNotifications(): Promise<void> {
+  try {
+    await flushPendingReads();
+  } catch (error) {
+    console.warn('[notifications] pending reads not sent yet', error);
+  }
+  const page = await notificationsApi.getNotifications({limit: PAGE_SIZE});
+  // Reads still queued locally win over the server's copy
+  const pending = new Set(await getPendingReads());
+  const notifications = page.data
+    .map(toAppNotification)
+    .map(n => (pending.has(n.id) ? {...n, read: true} : n));
+  const unread = Math.max(
+    0,
+    page.unreadCount - page.data.filter(n => !n.readAt && pending.has(n._id)).length,
+  );
+  useStore.getState().setNotifications(notifications, page.nextCursor, unread);
+}
+
+/** Append the next older page; false when there is nothing more */
+export async function loadMoreNotifications(): Promise<boolean> {
+  const {notificationsCursor, upsertNotifications} = useStore.getState();
+  if (!notificationsCursor) return false;
+  const page = await notificationsApi.getNotifications({
+    cursor: notificationsCursor,
+    limit: PAGE_SIZE,
+  });
+  upsertNotifications(page.data.map(toAppNotification), {cursor: page.nextCursor});
+  return !!page.nextCursor;
+}
+
+export async function markNotificationsRead(ids: string[]): Promise<void> {
+  const unreadIds = ids.filter(id =>
+    useStore.getState().notifications.some(n => n.id === id && !n.read),
+  );
+  if (unreadIds.length === 0) return;
+  useStore.getState().setNotificationsRead(unreadIds);
+  try {
+    const {unreadCount} = await notificationsApi.markRead(unreadIds);
+    useStore.getState().setNotificationsRead([], unreadCount);
+  } catch (error) {
+    if (isConnectivityError(error)) {
+      await queueReads(unreadIds);
+      return;
+    }
+    console.warn('[notifications] mark read failed', error);
+  }
+}
+
+export async function markAllNotificationsRead(): Promise<void> {
+  const previous = useStore.getState().notifications;
+  const previousUnread = useStore.getState().unreadNotificationCount;
+  useStore.getState().setNotificationsRead('all');
+  try {
+    await notificationsApi.markAllRead();
+  } catch (error) {
+    // Put the unread markers back so the inbox matches the server
+    useStore.getState().setNotifications(
+      previous,
+      useStore.getState().notificationsCursor,
+      previousUnread,
+    );
+    throw error;
+  }
+}
+
+export async function deleteNotification(id: string): Promise<void> {
+  await notificationsApi.delete(id);
+  useStore.getState().removeNotification(id);
+}
+
+/** Drop the cached inbox (logout) */
+export async function clearNotifications(): Promise<void> {
+  useStore.getState().setNotifications([], null, 0);
+  await AsyncStorage.removeItem(PENDING_READS_STORAGE_KEY);
+}
+
+/** Live inbox updates; returns the cleanup */
+export function startNotificationSync(): () => void {
+  const refresh = () =>
+    refreshNotifications().catch(error =>
+      console.warn('[notifications] refresh failed', error?.message || error),
+    );
+  void refresh();
+
+  const unsubscribeNew = websocketService.on('notification', payload => {
+    const {notifications, unreadNotificationCount, upsertNotifications} = useStore.getState();
+    const isNew = !notifications.some(n => n.id === payload._id);
+    upsertNotifications([toAppNotification(payload)], {
+      unreadCount: unreadNotificationCount + (isNew && !payload.readAt ? 1 : 0),
+    });
+  });
+  const unsubscribeRead = websocketService.on('notifications-read', ({ids, unreadCount}) => {
+    useStore.getState().setNotificationsRead(ids, unreadCount);
+  });
+  const appState = AppState.addEventListener('change', state => {
+    if (state === 'active') void refresh();
+  });
+
+  return () => {
+    unsubscribeNew();
+    unsubscribeRead();
+    appState.remove();
+  };
+}
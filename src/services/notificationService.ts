@@ -183,9 +183,11 @@ class NotificationService {
     message: string,
     date: Date,
     repeatType?: 'day' | 'week' | 'time',
+    data?: Record<string, any>,
+    channelId: string = 'general-reminders',
   ) {
     PushNotification.localNotificationSchedule({
-      channelId: 'medicine-reminders',
+      channelId,
       id: id,
       title: title,
       message: message,
@@ -194,6 +196,24 @@ class NotificationService {
       repeatType: repeatType,
       playSound: true,
       soundName: 'default',
+      userInfo: data,
+    });
+  }
+
+  /** Show a notification right away (app-generated, not from FCM) */
+  showLocalNotification(
+    title: string,
+    message: string,
+    data?: Record<string, any>,
+    channelId: string = 'general-reminders',
+  ) {
+    PushNotification.localNotification({
+      channelId,
+      title,
+      message,
+      playSound: true,
+      soundName: 'default',
+      userInfo: data,
     });
   }
 
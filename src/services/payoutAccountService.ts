@@ -0,0 +1,241 @@
+/**
+ * Payout accounts (Provider App)
+ * The bank account and UPI ID payouts go to, each moving through
+ * unverified → pending → verified / failed. Keeps a cached copy and polls
+ * while a verification is running.
+ *
+ * Payout details are the one thing a borrowed, unlocked phone could use to
+ * redirect earnings, so saving or removing them needs the provider's PIN
+ * again. The PIN is checked through the normal PIN login; the token it
+ * returns is held in memory for a few minutes and sent as proof of the
+ * re-entry — it never replaces the current session.
+ */
+
+import {useStore} from '../store';
+import {isValidIfsc, normalizeIfsc} from '../utils/bankAccounts';
+import {INDIA_DIAL_CODE, localTenDigits} from '../utils/phone';
+import {isApiError} from './api/apiErrors';
+import {loginPin} from './api/phoneAuthApi';
+import {
+  IfscDetails,
+  PayoutAccount,
+  PayoutAccountDetails,
+  PayoutAccountType,
+  payoutAccountsApi,
+  PayoutVerificationStatus,
+} from './api/payoutAccountsApi';
+
+export const PAYOUT_ACCOUNT_TYPES: PayoutAccountType[] = ['bank', 'upi'];
+
+/** Allowed status changes; saving new details always starts over at unverified */
+export const PAYOUT_TRANSITIONS: Record<PayoutVerificationStatus, PayoutVerificationStatus[]> = {
+  unverified: ['pending'],
+  pending: ['verified', 'failed'],
+  verified: ['unverified'],
+  failed: ['pending', 'unverified'],
+};
+
+/** Server code (403) for a missing, expired or foreign re-entry token */
+const REAUTH_REQUIRED_CODE = 'REAUTH_REQUIRED';
+
+/** How long a PIN re-entry unlocks editing */
+export const REAUTH_WINDOW_MS = 5 * 60 * 1000;
+const POLL_INTERVAL_MS = 5000;
+/** Give up polling after ~2 minutes; the next refresh picks the result up */
+const POLL_MAX_ATTEMPTS = 24;
+
+export class ReauthRequiredError extends Error {
+  constructor(message = 'Re-enter your PIN to change payout details') {
+    super(message);
+    this.name = 'ReauthRequiredError';
+  }
+}
+
+type PayoutAccountsListener = (accounts: PayoutAccount[]) => void;
+
+let cached: PayoutAccount[] | null = null;
+const listeners = new Set<PayoutAccountsListener>();
+let reauth: {token: string; expiresAt: number} | null = null;
+let pollTimer: ReturnType<typeof setTimeout> | null = null;
+let pollAttempts = 0;
+/** IFSC → branch (null = not on the list); branch records do not change */
+const ifscCache = new Map<string, IfscDetails | null>();
+
+function setAccounts(accounts: PayoutAccount[]): PayoutAccount[] {
+  cached = accounts;
+  listeners.forEach(listener => listener(accounts));
+  return accounts;
+}
+
+function replaceAccount(account: PayoutAccount): void {
+  setAccounts([...(cached || []).filter(item => item.type !== account.type), account]);
+}
+
+export function canTransition(
+  from: PayoutVerificationStatus,
+  to: PayoutVerificationStatus,
+): boolean {
+  return PAYOUT_TRANSITIONS[from].includes(to);
+}
+
+export function payoutAccountOf(
+  accounts: PayoutAccount[],
+  type: PayoutAccountType,
+): PayoutAccount | undefined {
+  return accounts.find(account => account.type === type);
+}
+
+/**
+ * The provider's payout accounts (cached; `refresh` goes back to the server)
+ */
+export async function getPayoutAccounts(refresh = false): Promise<PayoutAccount[]> {
+  if (cached && !refresh) return cached;
+  try {
+    setAccounts(await payoutAccountsApi.getPayoutAccounts());
+  } catch (error: any) {
+    console.warn('[payouts] accounts unavailable:', error?.message || error);
+  }
+  schedulePoll();
+  return cached || [];
+}
+
+export function onPayoutAccountsChange(listener: PayoutAccountsListener): () => void {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+/**
+ * Branch details for a well-formed IFSC. Null when the backend does not
+ * know the code or cannot be reached — the form then shows the bank name
+ * from the bundled bank-code table only.
+ */
+export async function lookupIfscBranch(value: string): Promise<IfscDetails | null> {
+  const ifsc = normalizeIfsc(value);
+  if (!isValidIfsc(ifsc)) return null;
+  if (ifscCache.has(ifsc)) return ifscCache.get(ifsc) || null;
+  try {
+    const details = await payoutAccountsApi.getIfscDetails(ifsc);
+    ifscCache.set(ifsc, details);
+    return details;
+  } catch (error: any) {
+    console.warn('[payouts] IFSC lookup failed:', error?.message || error);
+    return null;
+  }
+}
+
+export function hasRecentReauth(now: number = Date.now()): boolean {
+  return !!reauth && reauth.expiresAt > now;
+}
+
+export function clearReauth(): void {
+  reauth = null;
+}
+
+/**
+ * Check the provider's PIN against the signed-in phone number and unlock
+ * payout changes for REAUTH_WINDOW_MS. Rejects with the API error on a
+ * wrong PIN.
+ */
+export async function confirmPin(pin: string): Promise<void> {
+  const {currentUser} = useStore.getState();
+  const phone = currentUser?.phone || currentUser?.phoneNumber;
+  if (!phone) {
+    throw new Error('No phone number on this account');
+  }
+  const {token} = await loginPin(INDIA_DIAL_CODE + localTenDigits(phone), pin);
+  reauth = {token, expiresAt: Date.now() + REAUTH_WINDOW_MS};
+}
+
+function reauthToken(): string {
+  if (!reauth || !hasRecentReauth()) {
+    reauth = null;
+    throw new ReauthRequiredError();
+  }
+  return reauth.token;
+}
+
+/** Run a protected call; a token the server no longer accepts means re-entering the PIN */
+async function withReauth<T>(call: (token: string) => Promise<T>): Promise<T> {
+  try {
+    return await call(reauthToken());
+  } catch (error) {
+    if (isApiError(error) && error.code === REAUTH_REQUIRED_CODE) {
+      reauth = null;
+      throw new ReauthRequiredError();
+    }
+    throw error;
+  }
+}
+
+/**
+ * Save new details for `type` and start verifying them. Throws
+ * ReauthRequiredError when the PIN has not been re-entered recently.
+ */
+export async function savePayoutAccount(
+  type: PayoutAccountType,
+  details: PayoutAccountDetails,
+): Promise<PayoutAccount> {
+  const saved = await withReauth(token => payoutAccountsApi.save(type, details, token));
+  replaceAccount(saved);
+  try {
+    return await requestVerification(type);
+  } catch (error: any) {
+    // Saved but unverified; the provider can retry from the screen
+    console.warn('[payouts] verification not started:', error?.message || error);
+    return saved;
+  }
+}
+
+/**
+ * Start (or retry) verification of a saved account
+ */
+export async function requestVerification(type: PayoutAccountType): Promise<PayoutAccount> {
+  const current = payoutAccountOf(cached || [], type);
+  if (!current || !canTransition(current.status, 'pending')) {
+    throw new Error(`Cannot verify a ${current?.status || 'missing'} ${type} account`);
+  }
+  const account = await payoutAccountsApi.verify(type);
+  replaceAccount(account);
+  pollAttempts = 0;
+  schedulePoll();
+  return account;
+}
+
+export async function removePayoutAccount(type: PayoutAccountType): Promise<void> {
+  await withReauth(token => payoutAccountsApi.delete(type, token));
+  setAccounts((cached || []).filter(account => account.type !== type));
+}
+
+function stopPolling(): void {
+  if (pollTimer) clearTimeout(pollTimer);
+  pollTimer = null;
+}
+
+/** Poll while any account is pending verification */
+function schedulePoll(): void {
+  stopPolling();
+  const pending = (cached || []).some(account => account.status === 'pending');
+  if (!pending || pollAttempts >= POLL_MAX_ATTEMPTS) return;
+  pollTimer = setTimeout(() => {
+    pollTimer = null;
+    pollAttempts += 1;
+    void getPayoutAccounts(true);
+  }, POLL_INTERVAL_MS);
+}
+
+/**
+ * Load payout accounts for the signed-in provider (resuming any pending
+ * verification poll); the cleanup forgets them and the PIN re-entry
+ */
+export function startPayoutAccountSync(): () => void {
+  pollAttempts = 0;
+  void getPayoutAccounts(true);
+
+  return () => {
+    stopPolling();
+    cached = null;
+    reauth = null;
+  };
+}
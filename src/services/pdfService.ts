@@ -1,6 +1,9 @@
 import RNHTMLtoPDF from 'react-native-html-to-pdf';
 import type {Consultation} from '../types/consultation';
 import type {JobCard} from './jobCardService';
+import type {EarningsConfig} from './api/earningsApi';
+import type {EarningsEntry, EarningsTotals} from './earningsService';
+import type {TaxInvoice} from './invoiceService';
 
 export class PDFService {
   /**
@@ -461,8 +464,14 @@ export class PDFService {
       }, 0);
     }
 
-    // Total cost = amount (service fee) + materials total
-    const totalCost = (amount || 0) + materialsTotal;
+    // Approved quotation: itemized labour lines and its tax rate
+    const quotation = jobCard.quotation?.status === 'approved' ? jobCard.quotation : undefined;
+    const labourLines = quotation ? quotation.lines.filter(line => line.kind === 'labour') : [];
+    const taxPercent = quotation?.taxPercent || 0;
+    const taxAmount = Math.round(((amount || 0) + materialsTotal) * taxPercent) / 100;
+
+    // Total cost = amount (service fee) + materials total + tax
+    const totalCost = (amount || 0) + materialsTotal + taxAmount;
 
     return `
       <!DOCTYPE html>
@@ -668,6 +677,28 @@ export class PDFService {
             text-align: right;
           }
 
+          .photo-grid {
+            display: flex;
+            flex-wrap: wrap;
+            gap: 10px;
+          }
+
+          .photo-item {
+            width: 120px;
+            font-size: 10px;
+            color: #666;
+          }
+
+          .photo-item img {
+            width: 120px;
+            height: 120px;
+            object-fit: cover;
+            border-radius: 4px;
+            border: 1px solid #E0E0E0;
+            display: block;
+            margin-bottom: 4px;
+          }
+
           .footer {
             margin-top: 40px;
             padding-top: 20px;
@@ -746,6 +777,33 @@ export class PDFService {
             </table>
           </div>
 
+          <!-- Labour (approved quotation) -->
+          ${labourLines.length > 0 ? `
+          <div class="materials-section">
+            <div class="section-title">Labour</div>
+            <table class="materials-table">
+              <thead>
+                <tr>
+                  <th>Description</th>
+                  <th>Quantity</th>
+                  <th>Rate</th>
+                  <th>Total</th>
+                </tr>
+              </thead>
+              <tbody>
+                ${labourLines.map(line => `
+                  <tr>
+                    <td>${line.description}</td>
+                    <td>${line.quantity}</td>
+                    <td>₹${line.unitPrice.toFixed(2)}</td>
+                    <td>₹${line.total.toFixed(2)}</td>
+                  </tr>
+                `).join('')}
+              </tbody>
+            </table>
+          </div>
+          ` : ''}
+
           <!-- Materials Used -->
           ${materials && materials.length > 0 ? `
           <div class="materials-section">
@@ -777,6 +835,12 @@ export class PDFService {
           <div class="materials-section" style="margin-top: 20px;">
             <table class="materials-table">
               <tbody>
+                ${taxAmount > 0 ? `
+                <tr>
+                  <td colspan="3">Tax (${taxPercent}%):</td>
+                  <td>₹${taxAmount.toFixed(2)}</td>
+                </tr>
+                ` : ''}
                 <tr class="total-row">
                   <td colspan="3">Total Cost of Job:</td>
                   <td>₹${totalCost.toFixed(2)}</td>
@@ -789,9 +853,29 @@ export class PDFService {
           <div style="margin-top: 15px; padding: 10px; background: #F9F9F9; border-radius: 4px; font-size: 12px; color: #666;">
             <strong>Service Fee:</strong> ₹${amount.toFixed(2)}
             ${materialsTotal > 0 ? ` | <strong>Materials:</strong> ₹${materialsTotal.toFixed(2)}` : ''}
+            ${quotation ? ` | <strong>As per quotation v${quotation.version}</strong>${quotation.respondedAt ? ` approved on ${this.formatDate(quotation.respondedAt)}` : ''}` : ''}
           </div>
           ` : ''}
 
+          <!-- Work Photos -->
+          ${(['before', 'after'] as const).map(phase => {
+            const photos = (jobCard.photos || []).filter(photo => photo.phase === phase);
+            return photos.length > 0 ? `
+          <div class="materials-section">
+            <div class="section-title">${phase === 'before' ? 'Before Work' : 'After Work'}</div>
+            <div class="photo-grid">
+              ${photos.map(photo => `
+                <div class="photo-item">
+                  <img src="${photo.url}" />
+                  ${this.formatDateTime(photo.capturedAt)}
+                  ${photo.latitude != null && photo.longitude != null ? `<br/>${photo.latitude.toFixed(5)}, ${photo.longitude.toFixed(5)}` : ''}
+                </div>
+              `).join('')}
+            </div>
+          </div>
+          ` : '';
+          }).join('')}
+
           <div class="footer">
             <p>Generated on ${new Date().toLocaleString('en-US', {
               day: 'numeric',
@@ -851,4 +935,252 @@ export class PDFService {
       throw new Error('Failed to generate job card PDF');
     }
   }
+
+  /**
+   * Generate earnings statement HTML (ledger + commission / GST summary)
+   */
+  private static generateEarningsStatementHTML(
+    entries: EarningsEntry[],
+    totals: EarningsTotals,
+    config: EarningsConfig,
+    from: Date,
+    to: Date,
+    providerName?: string,
+  ): string {
+    const money = (n: number) => `₹${n.toFixed(2)}`;
+    const rows = entries
+      .map(
+        e => `
+          <tr>
+            <td>${this.formatDateTime(e.completedAt)}</td>
+            <td>${e.customerName || '-'}<br/><span class="muted">${e.serviceType || ''}</span></td>
+            <td class="num">${money(e.labour)}</td>
+            <td class="num">${money(e.materials)}</td>
+            <td>${e.paymentMethod.toUpperCase()}</td>
+            <td class="num">${money(e.commission + e.gst)}</td>
+            <td class="num">${money(e.net)}</td>
+          </tr>`,
+      )
+      .join('');
+
+    return `
+      <!DOCTYPE html>
+      <html>
+      <head>
+        <meta charset="UTF-8">
+        <style>
+          body { font-family: -apple-system, Roboto, Arial, sans-serif; padding: 24px; color: #1a1a1a; font-size: 12px; }
+          h1 { font-size: 22px; margin: 0 0 4px; }
+          .muted { color: #6B7280; font-size: 11px; }
+          .summary { display: flex; flex-wrap: wrap; margin: 20px 0; }
+          .summary div { width: 33%; padding: 8px 0; }
+          .summary strong { display: block; font-size: 15px; }
+          table { width: 100%; border-collapse: collapse; }
+          th, td { text-align: left; padding: 6px 4px; border-bottom: 1px solid #E5E7EB; vertical-align: top; }
+          th { background: #F3F4F6; font-size: 11px; }
+          .num { text-align: right; }
+          .footer { margin-top: 24px; color: #6B7280; font-size: 10px; text-align: center; }
+        </style>
+      </head>
+      <body>
+        <h1>Earnings Statement</h1>
+        <p class="muted">${providerName ? providerName + ' · ' : ''}${this.formatDate(from)} – ${this.formatDate(to)}</p>
+
+        <div class="summary">
+          <div>Jobs<strong>${totals.jobs}</strong></div>
+          <div>Labour<strong>${money(totals.labour)}</strong></div>
+          <div>Materials<strong>${money(totals.materials)}</strong></div>
+          <div>Cash (COD)<strong>${money(totals.cod)}</strong></div>
+          <div>Online<strong>${money(totals.online)}</strong></div>
+          <div>Not recorded<strong>${money(totals.unrecorded)}</strong></div>
+          <div>Commission (${config.configured ? `${config.commissionPercent}%` : 'not configured'})<strong>${money(totals.commission)}</strong></div>
+          <div>GST on commission (${config.configured ? `${config.gstPercent}%` : 'not configured'})<strong>${money(totals.gst)}</strong></div>
+          <div>Net earnings<strong>${money(totals.net)}</strong></div>
+          <div>Settlement due<strong>${money(totals.settlement)}</strong></div>
+        </div>
+
+        <table>
+          <thead>
+            <tr>
+              <th>Completed</th>
+              <th>Customer / Service</th>
+              <th class="num">Labour</th>
+              <th class="num">Materials</th>
+              <th>Payment</th>
+              <th class="num">Fees</th>
+              <th class="num">Net</th>
+            </tr>
+          </thead>
+          <tbody>${rows}</tbody>
+        </table>
+
+        <p class="footer">Generated on ${this.formatDateTime(new Date())} · HomeServices - Professional Service Management</p>
+      </body>
+      </html>
+    `;
+  }
+
+  /**
+   * Generate earnings statement PDF for a date range
+   */
+  static async generateEarningsStatementPDF(
+    entries: EarningsEntry[],
+    totals: EarningsTotals,
+    config: EarningsConfig,
+    from: Date,
+    to: Date,
+    providerName?: string,
+  ): Promise<string> {
+    try {
+      const htmlContent = this.generateEarningsStatementHTML(
+        entries,
+        totals,
+        config,
+        from,
+        to,
+        providerName,
+      );
+      const options = {
+        html: htmlContent,
+        fileName: `Earnings_${from.toISOString().slice(0, 10)}_${to.toISOString().slice(0, 10)}`,
+        directory: 'Documents',
+      };
+
+      const file = await RNHTMLtoPDF.convert(options);
+      return file.filePath || '';
+    } catch (error) {
+      console.error('Error generating earnings statement PDF:', error);
+      throw new Error('Failed to generate earnings statement PDF');
+    }
+  }
+
+  /**
+   * Generate GST tax invoice HTML (or bill of supply when unregistered)
+   */
+  private static generateTaxInvoiceHTML(invoice: TaxInvoice, qrSvg: string): string {
+    const money = (n: number) => `₹${n.toFixed(2)}`;
+    // GSTINs print in full: a tax invoice is only valid with both parties'
+    // registration numbers (personal ids never reach a PDF)
+    const party = (p: TaxInvoice['supplier']) => `
+      <strong>${p.name || '-'}</strong><br/>
+      ${p.address || ''}<br/>
+      ${p.stateName ? `State: ${p.stateName}${p.stateCode ? ` (${p.stateCode})` : ''}<br/>` : ''}
+      ${p.gstin ? `GSTIN: ${p.gstin}<br/>` : ''}
+      ${p.phone ? `Phone: ${p.phone}` : ''}`;
+    const rows = invoice.lines
+      .map(
+        (line, index) => `
+          <tr>
+            <td>${index + 1}</td>
+            <td>${line.description}</td>
+            <td>${line.sacCode}</td>
+            <td class="num">${line.quantity}</td>
+            <td class="num">${money(line.unitPrice)}</td>
+            <td class="num">${money(line.taxableValue)}</td>
+          </tr>`,
+      )
+      .join('');
+    const halfRate = invoice.gstRatePercent / 2;
+    const taxRows = !invoice.isTaxInvoice
+      ? ''
+      : invoice.interState
+      ? `<tr><td colspan="5">IGST @ ${invoice.gstRatePercent}%</td><td class="num">${money(invoice.igst)}</td></tr>`
+      : `<tr><td colspan="5">CGST @ ${halfRate}%</td><td class="num">${money(invoice.cgst)}</td></tr>
+         <tr><td colspan="5">SGST @ ${halfRate}%</td><td class="num">${money(invoice.sgst)}</td></tr>`;
+
+    return `
+      <!DOCTYPE html>
+      <html>
+      <head>
+        <meta charset="UTF-8">
+        <style>
+          body { font-family: -apple-system, Roboto, Arial, sans-serif; padding: 24px; color: #1a1a1a; font-size: 12px; }
+          h1 { font-size: 20px; margin: 0 0 4px; }
+          .muted { color: #6B7280; font-size: 11px; }
+          .header { display: flex; justify-content: space-between; align-items: flex-start; border-bottom: 2px solid #FF6B35; padding-bottom: 12px; }
+          .parties { display: flex; margin: 16px 0; }
+          .parties div { width: 50%; line-height: 1.5; }
+          .label { font-size: 10px; text-transform: uppercase; color: #6B7280; margin-bottom: 4px; }
+          table { width: 100%; border-collapse: collapse; }
+          th, td { text-align: left; padding: 6px 4px; border-bottom: 1px solid #E5E7EB; vertical-align: top; }
+          th { background: #F3F4F6; font-size: 11px; }
+          .num { text-align: right; }
+          .total-row td { font-weight: 700; font-size: 14px; border-top: 2px solid #1a1a1a; }
+          .words { margin-top: 12px; padding: 8px; background: #F9F9F9; border-radius: 4px; }
+          .qr svg { width: 110px; height: 110px; }
+          .footer { margin-top: 24px; color: #6B7280; font-size: 10px; text-align: center; }
+        </style>
+      </head>
+      <body>
+        <div class="header">
+          <div>
+            <h1>${invoice.isTaxInvoice ? 'Tax Invoice' : 'Bill of Supply'}</h1>
+            <p>Invoice No: <strong>${invoice.invoiceNumber}</strong></p>
+            <p>Invoice Date: ${this.formatDate(invoice.invoiceDate)}</p>
+            <p class="muted">Job Card: ${invoice.jobCardId}</p>
+            <p class="muted">Place of Supply: ${invoice.placeOfSupply.stateName || '-'}${invoice.placeOfSupply.stateCode ? ` (${invoice.placeOfSupply.stateCode})` : ''}</p>
+          </div>
+          <div class="qr">${qrSvg}</div>
+        </div>
+
+        <div class="parties">
+          <div>
+            <div class="label">Supplier</div>
+            ${party(invoice.supplier)}
+          </div>
+          <div>
+            <div class="label">Bill To</div>
+            ${party(invoice.recipient)}
+          </div>
+        </div>
+
+        <table>
+          <thead>
+            <tr>
+              <th>#</th>
+              <th>Description</th>
+              <th>HSN/SAC</th>
+              <th class="num">Qty</th>
+              <th class="num">Rate</th>
+              <th class="num">Taxable Value</th>
+            </tr>
+          </thead>
+          <tbody>
+            ${rows}
+            <tr><td colspan="5">Taxable Value</td><td class="num">${money(invoice.taxableValue)}</td></tr>
+            ${taxRows}
+            <tr class="total-row"><td colspan="5">Invoice Total</td><td class="num">${money(invoice.total)}</td></tr>
+          </tbody>
+        </table>
+
+        <div class="words"><strong>Amount in words:</strong> ${invoice.amountInWords}</div>
+        ${invoice.isTaxInvoice ? '' : '<p class="muted" style="margin-top: 8px;">Supplier not registered under GST — no tax charged.</p>'}
+
+        <p class="footer">This is a computer-generated invoice and does not require a signature · HomeServices - Professional Service Management</p>
+      </body>
+      </html>
+    `;
+  }
+
+  /**
+   * Generate GST tax invoice PDF for a completed job
+   * @param invoice - Invoice built by invoiceService
+   * @param qrSvg - SVG markup of the invoice QR code
+   */
+  static async generateTaxInvoicePDF(invoice: TaxInvoice, qrSvg: string): Promise<string> {
+    try {
+      const htmlContent = this.generateTaxInvoiceHTML(invoice, qrSvg);
+      const options = {
+        html: htmlContent,
+        fileName: `Invoice_${invoice.invoiceNumber.replace(/[^A-Za-z0-9_-]/g, '_')}`,
+        directory: 'Documents',
+      };
+
+      const file = await RNHTMLtoPDF.convert(options);
+      return file.filePath || '';
+    } catch (error) {
+      console.error('Error generating tax invoice PDF:', error);
+      throw new Error('Failed to generate tax invoice PDF');
+    }
+  }
 }
@@ -11,6 +11,14 @@ import {
   updateProviderStatus,
 } from './api/providersApi';
 import {getUserId, isLoggedIn, requireSessionUser} from './session';
+import {
+  isSavingPower,
+  onSchedulerStateChange,
+  registerTask,
+  runTaskNow,
+  setOnDuty,
+} from './backgroundScheduler';
+import {getActiveTrip, onTripChange} from './tripTrackingService';
 
 export interface ProviderLocation {
   latitude: number;
@@ -55,8 +63,50 @@ const isTransientLocationError = (error: unknown): boolean => {
   );
 };
 
-/** Single active GPS interval — survives screen remounts; stopped on logout */
-let trackingIntervalId: ReturnType<typeof setInterval> | null = null;
+/**
+ * How hard location tracking works: high frequency only while en route to
+ * a job, distance-filtered when idle, and coarse when saving power.
+ */
+export type TrackingMode = 'en_route' | 'idle' | 'power_saver';
+
+type TrackingProfile = {
+  /** OS-level filter for the position watch; smaller moves are not pushed */
+  distanceFilterM: number;
+  /** Wait between push checks while moving */
+  baseDelayMs: number;
+  /** Ceiling for the stationary backoff — also the heartbeat interval */
+  maxDelayMs: number;
+  highAccuracy: boolean;
+};
+
+const TRACKING_PROFILES: Record<TrackingMode, TrackingProfile> = {
+  en_route: {distanceFilterM: 20, baseDelayMs: 15 * 1000, maxDelayMs: 15 * 1000, highAccuracy: true},
+  idle: {distanceFilterM: 100, baseDelayMs: 30 * 1000, maxDelayMs: 5 * 60 * 1000, highAccuracy: true},
+  power_saver: {
+    distanceFilterM: 250,
+    baseDelayMs: 2 * 60 * 1000,
+    maxDelayMs: 15 * 60 * 1000,
+    highAccuracy: false,
+  },
+};
+
+const LOCATION_TASK_ID = 'provider-location';
+
+type TrackedFix = {latitude: number; longitude: number; accuracy?: number; timestamp: number};
+
+type TrackingState = {
+  mode: TrackingMode;
+  providerId: string | null;
+  latestFix: TrackedFix | null;
+  lastPushed: {latitude: number; longitude: number; at: number} | null;
+  /** Consecutive checks without movement — drives the backoff */
+  stillCount: number;
+  stopWatch: (() => void) | null;
+  cleanup: Array<() => void>;
+};
+
+/** Single active tracker — survives screen remounts; stopped on logout */
+let tracking: TrackingState | null = null;
 
 /**
  * Calculate distance between two coordinates (Haversine formula)
@@ -117,6 +167,9 @@ export const setProviderOnline = async (isOnline: boolean): Promise<void> => {
       } as any);
     }
 
+    // Booking polls and location pushes follow the duty status
+    setOnDuty(isOnline);
+
     // Optional Firebase RTDB mirror — JWT sessions usually lack Firebase auth,
     // so permission-denied is expected and must not fail the toggle.
     try {
@@ -143,6 +196,56 @@ export const setProviderOnline = async (isOnline: boolean): Promise<void> => {
   }
 };
 
+/**
+ * Push a position to the backend (and the optional RTDB mirror).
+ * Returns false when a transient backend issue made it skip the update.
+ */
+const publishProviderLocation = async (
+  providerLocation: ProviderLocation,
+  providerId: string | null,
+): Promise<boolean> => {
+  try {
+    await updateProviderStatus({
+      currentLocation: {
+        latitude: providerLocation.latitude,
+        longitude: providerLocation.longitude,
+      },
+    });
+  } catch (statusErr) {
+    // Avoid a second Mongo hit when the API is already timing out
+    if (isTransientLocationError(statusErr)) {
+      console.warn(
+        '⚠️ Location status update skipped (transient backend/DB issue):',
+        (statusErr as any)?.message || statusErr,
+      );
+      return false;
+    }
+    await updateMyProfile({
+      currentLocation: {
+        ...providerLocation,
+        updatedAt: new Date().toISOString(),
+      },
+      lastSeen: new Date().toISOString(),
+      updatedAt: new Date().toISOString(),
+    } as any);
+  }
+
+  // Optional RTDB mirror — never fail the call
+  try {
+    if (providerId) {
+      const database = require('@react-native-firebase/database').default;
+      await database()
+        .ref(`providers/${providerId}/location`)
+        .set(providerLocation);
+    }
+  } catch {
+    // ignore RTDB permission errors under JWT auth
+  }
+
+  console.log('Provider location updated:', providerLocation);
+  return true;
+};
+
 /**
  * Update provider's current location when online.
  */
@@ -176,56 +279,18 @@ export const updateProviderLocation = async (): Promise<void> => {
       return;
     }
 
-    const providerLocation: ProviderLocation = {
-      latitude: location.latitude,
-      longitude: location.longitude,
-      address: location.address,
-      city: location.city,
-      state: location.state,
-      pincode: location.pincode,
-      updatedAt: Date.now(),
-    };
-
-    try {
-      await updateProviderStatus({
-        currentLocation: {
-          latitude: providerLocation.latitude,
-          longitude: providerLocation.longitude,
-        },
-      });
-    } catch (statusErr) {
-      // Avoid a second Mongo hit when the API is already timing out
-      if (isTransientLocationError(statusErr)) {
-        console.warn(
-          '⚠️ Location status update skipped (transient backend/DB issue):',
-          (statusErr as any)?.message || statusErr,
-        );
-        return;
-      }
-      await updateMyProfile({
-        currentLocation: {
-          ...providerLocation,
-          updatedAt: new Date().toISOString(),
-        },
-        lastSeen: new Date().toISOString(),
-        updatedAt: new Date().toISOString(),
-      } as any);
-    }
-
-    // Optional RTDB mirror — never fail the call
-    try {
-      const providerId = getUserId(provider);
-      if (providerId) {
-        const database = require('@react-native-firebase/database').default;
-        await database()
-          .ref(`providers/${providerId}/location`)
-          .set(providerLocation);
-      }
-    } catch {
-      // ignore RTDB permission errors under JWT auth
-    }
-
-    console.log('Provider location updated:', providerLocation);
+    await publishProviderLocation(
+      {
+        latitude: location.latitude,
+        longitude: location.longitude,
+        address: location.address,
+        city: location.city,
+        state: location.state,
+        pincode: location.pincode,
+        updatedAt: Date.now(),
+      },
+      getUserId(provider),
+    );
   } catch (error: any) {
     const msg = error?.message || String(error) || '';
     if (
@@ -246,44 +311,155 @@ export const updateProviderLocation = async (): Promise<void> => {
   }
 };
 
+const resolveTrackingMode = (): TrackingMode => {
+  if (getActiveTrip()) return 'en_route';
+  return isSavingPower() ? 'power_saver' : 'idle';
+};
+
+export const getTrackingMode = (): TrackingMode | null => tracking?.mode ?? null;
+
+/** Most recent fix from the tracker (null when tracking is off or has no fix yet) */
+export const getLatestFix = (): TrackedFix | null => tracking?.latestFix ?? null;
+
+/** (Re)start the position watch when the mode changed or it is not running */
+const applyTrackingMode = (force = false) => {
+  const state = tracking;
+  if (!state) return;
+  const mode = resolveTrackingMode();
+  if (!force && mode === state.mode && state.stopWatch) return;
+
+  const changed = mode !== state.mode;
+  state.mode = mode;
+  state.stillCount = 0;
+  state.stopWatch?.();
+  const profile = TRACKING_PROFILES[mode];
+  state.stopWatch = GeolocationService.watchPosition(
+    location => {
+      if (tracking === state) state.latestFix = location;
+    },
+    error => console.warn('[tracking] location watch error:', error.message),
+    {
+      distanceFilter: profile.distanceFilterM,
+      interval: profile.baseDelayMs,
+      highAccuracy: profile.highAccuracy,
+    },
+  );
+  if (changed) runTaskNow(LOCATION_TASK_ID);
+};
+
+/**
+ * One scheduler run: push the latest fix when the provider moved past the
+ * mode's distance filter or the heartbeat is due; otherwise back off.
+ */
+const pushTrackedLocation = async (): Promise<void> => {
+  const state = tracking;
+  if (!state) return;
+  try {
+    // Logged out — do not hit the API
+    if (!(await isLoggedIn())) {
+      stopLocationTracking();
+      return;
+    }
+    if ((await GeolocationService.checkLocationPermission()) !== 'granted') {
+      return;
+    }
+    // Permission may have been granted after tracking started
+    if (!state.stopWatch) applyTrackingMode(true);
+
+    let fix = state.latestFix;
+    if (!fix) {
+      // The watch has not reported yet (or is unavailable) — ask once
+      const location = await GeolocationService.getCurrentLocation();
+      fix = {latitude: location.latitude, longitude: location.longitude, timestamp: Date.now()};
+      state.latestFix = fix;
+    }
+
+    const profile = TRACKING_PROFILES[state.mode];
+    const now = Date.now();
+    const last = state.lastPushed;
+    const moved =
+      !last ||
+      calculateDistance(last.latitude, last.longitude, fix.latitude, fix.longitude) * 1000 >=
+        profile.distanceFilterM;
+    const heartbeatDue = !last || now - last.at >= profile.maxDelayMs;
+    state.stillCount = moved ? 0 : state.stillCount + 1;
+    if (!moved && !heartbeatDue) return;
+
+    const published = await publishProviderLocation(
+      {latitude: fix.latitude, longitude: fix.longitude, updatedAt: now},
+      state.providerId,
+    );
+    if (published && tracking === state) {
+      state.lastPushed = {latitude: fix.latitude, longitude: fix.longitude, at: now};
+    }
+  } catch (error: any) {
+    // Never console.error here — LogBox turns it into a red screen
+    const errorMessage = error?.message || String(error) || '';
+    if (
+      errorMessage.toLowerCase().includes('not authenticated') ||
+      errorMessage.toLowerCase().includes('permission') ||
+      isTransientLocationError(error)
+    ) {
+      return;
+    }
+    console.warn('Location tracking issue (non-critical):', errorMessage);
+  }
+};
+
+const nextTrackingDelay = (): number => {
+  const profile = TRACKING_PROFILES[tracking?.mode ?? 'idle'];
+  const backoff = profile.baseDelayMs * 2 ** (tracking?.stillCount ?? 0);
+  return Math.min(backoff, profile.maxDelayMs);
+};
+
+/**
+ * Start adaptive location tracking. Pushes run on the background
+ * scheduler, so they pause while off duty or offline.
+ */
 export const startLocationTracking = (): (() => void) => {
   // Replace any previous tracker (e.g. remount / re-toggle)
   stopLocationTracking();
 
-  const updateLocation = async () => {
-    try {
-      // Logged out — do not hit the API
-      if (!(await isLoggedIn())) {
-        stopLocationTracking();
-        return;
-      }
-      await updateProviderLocation();
-    } catch (error: any) {
-      // Never console.error here — LogBox turns it into a red screen
-      const errorMessage = error?.message || String(error) || '';
-      if (
-        errorMessage.toLowerCase().includes('not authenticated') ||
-        errorMessage.toLowerCase().includes('permission') ||
-        isTransientLocationError(error)
-      ) {
-        return;
-      }
-      console.warn('Location tracking issue (non-critical):', errorMessage);
-    }
+  const state: TrackingState = {
+    mode: resolveTrackingMode(),
+    providerId: null,
+    latestFix: null,
+    lastPushed: null,
+    stillCount: 0,
+    stopWatch: null,
+    cleanup: [],
   };
-
-  updateLocation();
-  trackingIntervalId = setInterval(updateLocation, 30000);
+  tracking = state;
+
+  void getMyProfile()
+    .then(provider => {
+      if (tracking === state) state.providerId = getUserId(provider);
+    })
+    .catch(() => {});
+  void GeolocationService.checkLocationPermission().then(status => {
+    if (tracking === state && status === 'granted') applyTrackingMode(true);
+  });
+
+  state.cleanup.push(
+    onTripChange(() => applyTrackingMode()),
+    onSchedulerStateChange(() => applyTrackingMode()),
+    registerTask({
+      id: LOCATION_TASK_ID,
+      run: pushTrackedLocation,
+      nextDelayMs: nextTrackingDelay,
+    }),
+  );
 
   return stopLocationTracking;
 };
 
 /** Stop GPS pings — call on logout / going offline */
 export const stopLocationTracking = (): void => {
-  if (trackingIntervalId) {
-    clearInterval(trackingIntervalId);
-    trackingIntervalId = null;
-  }
+  const state = tracking;
+  if (!state) return;
+  tracking = null;
+  state.stopWatch?.();
+  state.cleanup.forEach(fn => fn());
 };
 
 export const getProviderStatus = async (
@@ -0,0 +1,184 @@
+/**
+ * Job quotations (Provider App)
+ * Between `accepted` and `in-progress` the provider sends an itemized
+ * estimate; the job can only be started once the customer approves it.
+ * The backend owns the quotation; the customer's response is mirrored to
+ * RTDB `jobCards/{id}/quotation` so the provider sees it live.
+ */
+
+import database from '@react-native-firebase/database';
+import {
+  jobCardsApi,
+  JobCardQuotation,
+  QuotationLine,
+  QuotationStatus,
+  SendQuotationData,
+} from './api/jobCardsApi';
+
+/** Why the job cannot be started yet */
+export type StartBlockReason = 'missing' | 'awaiting' | 'revision_requested' | 'rejected';
+
+export interface QuotationTotals {
+  labourTotal: number;
+  materialsTotal: number;
+  subtotal: number;
+  taxAmount: number;
+  total: number;
+}
+
+export interface CompletionPrefill {
+  amount?: number;
+  materials?: Array<{
+    description: string;
+    quantity?: number;
+    unitPrice?: number;
+    total?: number;
+  }>;
+}
+
+const roundMoney = (value: number) => Math.round(value * 100) / 100;
+
+export const lineTotal = (quantity: number, unitPrice: number): number =>
+  roundMoney((Number.isFinite(quantity) ? quantity : 0) * (Number.isFinite(unitPrice) ? unitPrice : 0));
+
+export const calculateQuotationTotals = (
+  lines: QuotationLine[],
+  taxPercent: number,
+): QuotationTotals => {
+  const sumOf = (kind: QuotationLine['kind']) =>
+    roundMoney(
+      lines
+        .filter(line => line.kind === kind)
+        .reduce((sum, line) => sum + lineTotal(line.quantity, line.unitPrice), 0),
+    );
+  const labourTotal = sumOf('labour');
+  const materialsTotal = sumOf('material');
+  const subtotal = roundMoney(labourTotal + materialsTotal);
+  const taxAmount = roundMoney((subtotal * (taxPercent > 0 ? taxPercent : 0)) / 100);
+  return {labourTotal, materialsTotal, subtotal, taxAmount, total: roundMoney(subtotal + taxAmount)};
+};
+
+/** Validation message key for the editor, or null when the quote can be sent */
+export const validateQuotation = (data: SendQuotationData): string | null => {
+  if (data.lines.length === 0) return 'jobDetails.quotation.noLines';
+  for (const line of data.lines) {
+    if (!line.description.trim()) return 'jobDetails.quotation.missingDescription';
+    if (!(line.quantity > 0) || !(line.unitPrice >= 0)) {
+      return 'jobDetails.quotation.invalidAmount';
+    }
+  }
+  if (!(data.taxPercent >= 0) || data.taxPercent > 100) {
+    return 'jobDetails.quotation.invalidTax';
+  }
+  if (calculateQuotationTotals(data.lines, data.taxPercent).total <= 0) {
+    return 'jobDetails.quotation.invalidAmount';
+  }
+  return null;
+};
+
+/** null when the job may start (quotation approved) */
+export const getStartBlockReason = (
+  quotation?: JobCardQuotation | null,
+): StartBlockReason | null => {
+  if (!quotation) return 'missing';
+  switch (quotation.status) {
+    case 'approved':
+      return null;
+    case 'revision_requested':
+      return 'revision_requested';
+    case 'rejected':
+      return 'rejected';
+    default:
+      return 'awaiting';
+  }
+};
+
+/**
+ * Completion form values from an approved quote: labour lines become the
+ * service amount, material lines the materials list.
+ */
+export const quotationToCompletionPrefill = (
+  quotation?: JobCardQuotation | null,
+): CompletionPrefill => {
+  if (!quotation || quotation.status !== 'approved') return {};
+  const {labourTotal} = calculateQuotationTotals(quotation.lines, quotation.taxPercent);
+  const materials = quotation.lines
+    .filter(line => line.kind === 'material')
+    .map(line => ({
+      description: line.description,
+      quantity: line.quantity,
+      unitPrice: line.unitPrice,
+      total: lineTotal(line.quantity, line.unitPrice),
+    }));
+  return {
+    amount: labourTotal > 0 ? labourTotal : undefined,
+    materials: materials.length > 0 ? materials : undefined,
+  };
+};
+
+/**
+ * Latest quotation for the job (null when none was sent yet)
+ */
+export const getQuotation = async (jobCardId: string): Promise<JobCardQuotation | null> =>
+  jobCardsApi.getQuotation(jobCardId);
+
+/**
+ * Send the quotation to the customer. Totals are recomputed here so the
+ * customer sees exactly what the editor showed.
+ */
+export const sendQuotation = async (
+  jobCardId: string,
+  data: SendQuotationData,
+): Promise<JobCardQuotation> => {
+  const lines = data.lines.map(line => ({
+    ...line,
+    description: line.description.trim(),
+    total: lineTotal(line.quantity, line.unitPrice),
+  }));
+  const quotation = await jobCardsApi.sendQuotation(jobCardId, {
+    ...data,
+    lines,
+    note: data.note?.trim() || undefined,
+  });
+
+  // Best-effort RTDB mirror so the customer app updates live
+  try {
+    await database()
+      .ref(`jobCards/${jobCardId}/quotation`)
+      .set({
+        status: quotation.status,
+        version: quotation.version,
+        total: quotation.total,
+        updatedAt: Date.now(),
+      });
+  } catch (rtdbError: any) {
+    console.warn(
+      'RTDB quotation mirror skipped:',
+      rtdbError?.message || rtdbError,
+    );
+  }
+
+  return quotation;
+};
+
+/**
+ * Subscribe to quotation status changes (customer approves / asks for a revision).
+ * Returns unsubscribe function
+ */
+export const subscribeToQuotationStatus = (
+  jobCardId: string,
+  callback: (status: QuotationStatus, version: number) => void,
+): (() => void) => {
+  const quotationRef = database().ref(`jobCards/${jobCardId}/quotation`);
+
+  const onChange = quotationRef.on('value', snapshot => {
+    const data = snapshot.val();
+    if (data && data.status) {
+      callback(data.status, Number(data.version) || 0);
+    }
+  });
+
+  return () => {
+    quotationRef.off('value', onChange);
+  };
+};
@@ -0,0 +1,245 @@
+/**
+ * Day route planner (Provider App)
+ * Orders a day's accepted jobs into one route: each job must be reached
+ * within its time window (scheduled time + a grace period), travel is
+ * estimated from the straight-line distance between customer addresses.
+ * Starts from the earliest-deadline order and improves it with 2-opt;
+ * stops that still cannot be reached in time are flagged, not dropped.
+ */
+
+import {getProviderJobCards, JobCard} from './jobCardService';
+import {estimateJobDurationMinutes} from './bookingConflictService';
+import {calculateDistance, calculateETA, formatDistance} from './providerLocationService';
+import GeolocationService from './geolocationService';
+import {getMyProfile} from './api/providersApi';
+import {getServiceAreaBase} from './serviceAreaService';
+import {toDateKey} from './availabilityService';
+
+/** How late after the scheduled time the provider may still arrive */
+export const ARRIVAL_GRACE_MIN = 30;
+/** Working day used for jobs without a scheduled time */
+const DAY_START_HOUR = 8;
+const DAY_END_HOUR = 20;
+/** Cost of one minute late vs. one minute driving */
+const LATENESS_WEIGHT = 100;
+const WAIT_WEIGHT = 0.1;
+
+type Point = {latitude: number; longitude: number};
+
+export interface RoutePlanStop {
+  jobCard: JobCard;
+  /** 1-based position in the route */
+  sequence: number;
+  windowStart: Date;
+  windowEnd: Date;
+  /** Job has a scheduled time (otherwise any time of the working day) */
+  hasWindow: boolean;
+  durationMinutes: number;
+  /** From the previous stop (or the start); missing when either side has no coordinates */
+  distanceKm?: number;
+  distanceFormatted?: string;
+  travelMinutes?: number;
+  arrival: Date;
+  /** Idle time before the window opens */
+  waitMinutes: number;
+  /** Arrival after the window closed */
+  lateMinutes: number;
+  infeasible: boolean;
+  /** Previous point for the navigation leg */
+  from?: Point;
+  location?: Point;
+}
+
+export interface RoutePlan {
+  date: string;
+  start: Point | null;
+  startTime: Date;
+  stops: RoutePlanStop[];
+  totalDistanceKm: number;
+  totalTravelMinutes: number;
+  finishTime: Date;
+  infeasibleCount: number;
+  /** Jobs placed by time only because their address has no coordinates */
+  unlocatedCount: number;
+}
+
+export type PlannerJob = {
+  jobCard: JobCard;
+  location?: Point;
+  windowStart: Date;
+  windowEnd: Date;
+  hasWindow: boolean;
+  durationMinutes: number;
+};
+
+const addMinutes = (date: Date, minutes: number) => new Date(date.getTime() + minutes * 60 * 1000);
+
+const minutesBetween = (from: Date, to: Date) => (to.getTime() - from.getTime()) / 60000;
+
+const toPoint = (c?: {latitude?: number; longitude?: number} | null): Point | undefined =>
+  typeof c?.latitude === 'number' && typeof c?.longitude === 'number'
+    ? {latitude: c.latitude, longitude: c.longitude}
+    : undefined;
+
+const atHour = (dateKey: string, hour: number) =>
+  new Date(`${dateKey}T${String(hour).padStart(2, '0')}:00:00`);
+
+function legBetween(from: Point | undefined, to: Point | undefined) {
+  if (!from || !to) return null;
+  const distanceKm = calculateDistance(from.latitude, from.longitude, to.latitude, to.longitude);
+  return {distanceKm, travelMinutes: calculateETA(distanceKm)};
+}
+
+/** Walk a route in order and time every stop */
+function simulate(order: PlannerJob[], start: Point | null, startTime: Date) {
+  let clock = startTime;
+  let position: Point | undefined = start || undefined;
+  let cost = 0;
+  const stops: RoutePlanStop[] = order.map((job, index) => {
+    const leg = legBetween(position, job.location);
+    const arrival = addMinutes(clock, leg?.travelMinutes ?? 0);
+    const waitMinutes = Math.max(0, minutesBetween(arrival, job.windowStart));
+    const lateMinutes = Math.max(0, minutesBetween(job.windowEnd, arrival));
+    const serviceStart = waitMinutes > 0 ? job.windowStart : arrival;
+    cost += (leg?.travelMinutes ?? 0) + lateMinutes * LATENESS_WEIGHT + waitMinutes * WAIT_WEIGHT;
+
+    const stop: RoutePlanStop = {
+      jobCard: job.jobCard,
+      sequence: index + 1,
+      windowStart: job.windowStart,
+      windowEnd: job.windowEnd,
+      hasWindow: job.hasWindow,
+      durationMinutes: job.durationMinutes,
+      distanceKm: leg?.distanceKm,
+      distanceFormatted: leg ? formatDistance(leg.distanceKm) : undefined,
+      travelMinutes: leg?.travelMinutes,
+      arrival,
+      waitMinutes: Math.round(waitMinutes),
+      lateMinutes: Math.round(lateMinutes),
+      infeasible: lateMinutes > 0,
+      from: position,
+      location: job.location,
+    };
+    clock = addMinutes(serviceStart, job.durationMinutes);
+    // An unlocated stop keeps the provider where they were for the next leg
+    position = job.location || position;
+    return stop;
+  });
+  return {stops, cost, finishTime: clock};
+}
+
+/**
+ * Order jobs for one day (pure — see `planDayRoute` for the loader).
+ * Earliest deadline first, then 2-opt segment reversals while they lower
+ * travel + lateness.
+ */
+export function optimizeRoute(
+  jobs: PlannerJob[],
+  start: Point | null,
+  startTime: Date,
+): {stops: RoutePlanStop[]; finishTime: Date} {
+  let order = [...jobs].sort(
+    (a, b) =>
+      a.windowEnd.getTime() - b.windowEnd.getTime() ||
+      a.windowStart.getTime() - b.windowStart.getTime(),
+  );
+  let best = simulate(order, start, startTime);
+
+  let improved = true;
+  while (improved) {
+    improved = false;
+    for (let i = 0; i < order.length - 1; i++) {
+      for (let k = i + 1; k < order.length; k++) {
+        const candidate = [
+          ...order.slice(0, i),
+          ...order.slice(i, k + 1).reverse(),
+          ...order.slice(k + 1),
+        ];
+        const result = simulate(candidate, start, startTime);
+        if (result.cost < best.cost - 0.01) {
+          order = candidate;
+          best = result;
+          improved = true;
+        }
+      }
+    }
+  }
+  return {stops: best.stops, finishTime: best.finishTime};
+}
+
+async function toPlannerJob(jobCard: JobCard, dateKey: string): Promise<PlannerJob> {
+  const durationMinutes = await estimateJobDurationMinutes(jobCard.serviceType);
+  const scheduled = jobCard.scheduledTime ? new Date(jobCard.scheduledTime) : null;
+  const hasWindow = !!scheduled && !Number.isNaN(scheduled.getTime());
+  return {
+    jobCard,
+    location: toPoint(jobCard.customerAddress),
+    windowStart: hasWindow ? scheduled! : atHour(dateKey, DAY_START_HOUR),
+    windowEnd: hasWindow
+      ? addMinutes(scheduled!, ARRIVAL_GRACE_MIN)
+      : addMinutes(atHour(dateKey, DAY_END_HOUR), -durationMinutes),
+    hasWindow,
+    durationMinutes,
+  };
+}
+
+/** Where the day starts: current position for today, else the base address */
+async function resolveStart(isToday: boolean): Promise<Point | null> {
+  if (isToday) {
+    try {
+      if ((await GeolocationService.checkLocationPermission()) === 'granted') {
+        const location = await GeolocationService.getCurrentLocation();
+        return {latitude: location.latitude, longitude: location.longitude};
+      }
+    } catch {
+      // fall back to the base address
+    }
+  }
+  try {
+    return getServiceAreaBase(await getMyProfile());
+  } catch {
+    return null;
+  }
+}
+
+/** Accepted jobs on a day ('YYYY-MM-DD'); unscheduled ones belong to today */
+export async function getJobsForDay(providerId: string, dateKey: string): Promise<JobCard[]> {
+  const jobs = await getProviderJobCards(providerId);
+  return jobs.filter(
+    job =>
+      job.status === 'accepted' &&
+      (job.scheduledTime
+        ? toDateKey(new Date(job.scheduledTime)) === dateKey
+        : dateKey === toDateKey(new Date())),
+  );
+}
+
+/**
+ * Plan the route for a day's accepted jobs. Today starts now from the
+ * current position; other days start at the working-day start from home.
+ */
+export async function planDayRoute(
+  providerId: string,
+  dateKey: string = toDateKey(new Date()),
+  jobCards?: JobCard[],
+): Promise<RoutePlan> {
+  const jobs = jobCards ?? (await getJobsForDay(providerId, dateKey));
+  const isToday = dateKey === toDateKey(new Date());
+  const plannerJobs = await Promise.all(jobs.map(job => toPlannerJob(job, dateKey)));
+  const start = await resolveStart(isToday);
+  const dayStart = atHour(dateKey, DAY_START_HOUR);
+  const startTime = isToday && Date.now() > dayStart.getTime() ? new Date() : dayStart;
+
+  const {stops, finishTime} = optimizeRoute(plannerJobs, start, startTime);
+  return {
+    date: dateKey,
+    start,
+    startTime,
+    stops,
+    totalDistanceKm: stops.reduce((sum, stop) => sum + (stop.distanceKm ?? 0), 0),
+    totalTravelMinutes: stops.reduce((sum, stop) => sum + (stop.travelMinutes ?? 0), 0),
+    finishTime,
+    infeasibleCount: stops.filter(stop => stop.infeasible).length,
+    unlocatedCount: stops.filter(stop => !stop.location).length,
+  };
+}
@@ -0,0 +1,312 @@
+/**
+ * Provider service area (Provider App)
+ * Max radius from the base address, served pincodes / districts, an
+ * optional boundary polygon and exclusion zones. Bookings are classified
+ * as in-area / out-of-area with the distance from the base address; the
+ * incoming booking flow uses it to annotate (or skip) alerts.
+ * Saved on the provider profile so backend matching can use it too.
+ */
+
+import {
+  getMyProfile,
+  updateMyProfile,
+  GeoPoint,
+  Provider,
+  ProviderServiceArea,
+  ServiceAreaExclusion,
+} from './api/providersApi';
+import {getGeographyMeta, GeographyDistrict} from './api/geographyApi';
+import {calculateDistance, formatDistance} from './providerLocationService';
+
+export const EMPTY_SERVICE_AREA: ProviderServiceArea = {
+  pincodes: [],
+  districtIds: [],
+  exclusions: [],
+};
+
+export const MAX_SERVICE_RADIUS_KM = 200;
+
+const CONTEXT_TTL_MS = 5 * 60 * 1000;
+
+export const PINCODE_PATTERN = /^[1-9]\d{5}$/;
+
+export type ServiceAreaStatus = 'in_area' | 'out_of_area' | 'unknown';
+
+export type ServiceAreaReason =
+  /** No inclusion rules — the provider serves everywhere */
+  | 'unrestricted'
+  | 'radius'
+  | 'pincode'
+  | 'district'
+  | 'boundary'
+  | 'excluded'
+  | 'beyond_radius'
+  | 'not_served'
+  /** Rules need coordinates the booking does not have */
+  | 'no_location';
+
+export interface ServiceAreaCheck {
+  status: ServiceAreaStatus;
+  reason: ServiceAreaReason;
+  /** From the provider's base address, when both have coordinates */
+  distanceKm?: number;
+  distanceFormatted?: string;
+  /** Label of the exclusion zone that matched */
+  exclusionLabel?: string;
+}
+
+type Address = {
+  pincode?: string;
+  city?: string;
+  district?: string;
+  state?: string;
+  latitude?: number;
+  longitude?: number;
+} | null | undefined;
+
+const toPoint = (address: Address): GeoPoint | null =>
+  typeof address?.latitude === 'number' && typeof address?.longitude === 'number'
+    ? {latitude: address.latitude, longitude: address.longitude}
+    : null;
+
+const normalizeName = (value?: string) => (value || '').trim().toLowerCase();
+
+/** Fill gaps from older profiles so callers can rely on the arrays */
+export const normalizeServiceArea = (
+  area?: Partial<ProviderServiceArea> | null,
+): ProviderServiceArea => ({
+  ...EMPTY_SERVICE_AREA,
+  ...(area || {}),
+  pincodes: area?.pincodes || [],
+  districtIds: area?.districtIds || [],
+  exclusions: area?.exclusions || [],
+  boundary: area?.boundary && area.boundary.length >= 3 ? area.boundary : undefined,
+});
+
+export const hasInclusionRules = (area: ProviderServiceArea): boolean =>
+  !!area.maxRadiusKm ||
+  area.pincodes.length > 0 ||
+  area.districtIds.length > 0 ||
+  !!area.boundary;
+
+/** Ray casting; points on the edge may fall either way */
+export const isPointInPolygon = (point: GeoPoint, polygon: GeoPoint[]): boolean => {
+  if (polygon.length < 3) return false;
+  let inside = false;
+  for (let i = 0, j = polygon.length - 1; i < polygon.length; j = i++) {
+    const a = polygon[i];
+    const b = polygon[j];
+    const crosses =
+      a.latitude > point.latitude !== b.latitude > point.latitude &&
+      point.longitude <
+        ((b.longitude - a.longitude) * (point.latitude - a.latitude)) /
+          (b.latitude - a.latitude) +
+          a.longitude;
+    if (crosses) inside = !inside;
+  }
+  return inside;
+};
+
+const matchesExclusion = (
+  exclusion: ServiceAreaExclusion,
+  pincode: string | undefined,
+  point: GeoPoint | null,
+): boolean => {
+  switch (exclusion.kind) {
+    case 'pincode':
+      return !!pincode && exclusion.pincode === pincode;
+    case 'circle':
+      return (
+        !!point &&
+        calculateDistance(
+          point.latitude,
+          point.longitude,
+          exclusion.center.latitude,
+          exclusion.center.longitude,
+        ) <= exclusion.radiusKm
+      );
+    case 'polygon':
+      return !!point && isPointInPolygon(point, exclusion.points);
+  }
+};
+
+const matchesDistrict = (district: GeographyDistrict, address: Address): boolean => {
+  if (!address) return false;
+  if (district.pincode && address.pincode === district.pincode) return true;
+  const name = normalizeName(district.name);
+  const sameName =
+    name === normalizeName(address.district) || name === normalizeName(address.city);
+  const sameState =
+    !address.state || !district.stateName ||
+    normalizeName(district.stateName) === normalizeName(address.state);
+  return sameName && sameState;
+};
+
+/**
+ * Classify an address against a service area (pure — no network).
+ * `districts` are the geography records for `area.districtIds`.
+ */
+export const evaluateServiceArea = (
+  area: ProviderServiceArea,
+  base: GeoPoint | null,
+  address: Address,
+  districts: GeographyDistrict[] = [],
+): ServiceAreaCheck => {
+  const point = toPoint(address);
+  const pincode = address?.pincode?.trim();
+  const distanceKm =
+    base && point
+      ? calculateDistance(base.latitude, base.longitude, point.latitude, point.longitude)
+      : undefined;
+  const withDistance = (check: Omit<ServiceAreaCheck, 'distanceKm' | 'distanceFormatted'>) => ({
+    ...check,
+    distanceKm,
+    distanceFormatted: distanceKm !== undefined ? formatDistance(distanceKm) : undefined,
+  });
+
+  const exclusion = area.exclusions.find(zone => matchesExclusion(zone, pincode, point));
+  if (exclusion) {
+    return withDistance({status: 'out_of_area', reason: 'excluded', exclusionLabel: exclusion.label});
+  }
+
+  if (!hasInclusionRules(area)) {
+    return withDistance({status: 'in_area', reason: 'unrestricted'});
+  }
+  if (pincode && area.pincodes.includes(pincode)) {
+    return withDistance({status: 'in_area', reason: 'pincode'});
+  }
+  const selected = districts.filter(d => area.districtIds.includes(d._id));
+  if (selected.some(d => matchesDistrict(d, address))) {
+    return withDistance({status: 'in_area', reason: 'district'});
+  }
+  if (area.maxRadiusKm && distanceKm !== undefined && distanceKm <= area.maxRadiusKm) {
+    return withDistance({status: 'in_area', reason: 'radius'});
+  }
+  if (area.boundary && point && isPointInPolygon(point, area.boundary)) {
+    return withDistance({status: 'in_area', reason: 'boundary'});
+  }
+
+  // Geometric rules cannot be checked without coordinates on both sides
+  const radiusUncheckable = !!area.maxRadiusKm && distanceKm === undefined;
+  const boundaryUncheckable = !!area.boundary && !point;
+  if (radiusUncheckable || boundaryUncheckable) {
+    return withDistance({status: 'unknown', reason: 'no_location'});
+  }
+  return withDistance({
+    status: 'out_of_area',
+    reason: area.maxRadiusKm && distanceKm !== undefined ? 'beyond_radius' : 'not_served',
+  });
+};
+
+/** Validation message key for the editor, or null when the area is usable */
+export const validateServiceArea = (area: ProviderServiceArea): string | null => {
+  if (
+    area.maxRadiusKm !== undefined &&
+    (!(area.maxRadiusKm > 0) || area.maxRadiusKm > MAX_SERVICE_RADIUS_KM)
+  ) {
+    return 'profile.serviceArea.invalidRadius';
+  }
+  if (area.pincodes.some(pincode => !PINCODE_PATTERN.test(pincode))) {
+    return 'profile.serviceArea.invalidPincode';
+  }
+  if (area.boundary && area.boundary.length < 3) {
+    return 'profile.serviceArea.polygonTooSmall';
+  }
+  for (const zone of area.exclusions) {
+    if (zone.kind === 'pincode' && !PINCODE_PATTERN.test(zone.pincode)) {
+      return 'profile.serviceArea.invalidPincode';
+    }
+    if (zone.kind === 'circle' && !(zone.radiusKm > 0)) {
+      return 'profile.serviceArea.invalidRadius';
+    }
+    if (zone.kind === 'polygon' && zone.points.length < 3) {
+      return 'profile.serviceArea.polygonTooSmall';
+    }
+  }
+  return null;
+};
+
+/** Base address the radius is measured from */
+export const getServiceAreaBase = (provider: Provider | null): GeoPoint | null => {
+  const address = provider?.address && typeof provider.address === 'object'
+    ? (provider.address as Address)
+    : null;
+  return toPoint(provider?.location) || toPoint(address);
+};
+
+type ServiceAreaContext = {
+  area: ProviderServiceArea;
+  base: GeoPoint | null;
+  districts: GeographyDistrict[];
+  loadedAt: number;
+};
+
+let context: ServiceAreaContext | null = null;
+
+async function loadContext(provider?: Provider | null): Promise<ServiceAreaContext> {
+  if (!provider && context && Date.now() - context.loadedAt < CONTEXT_TTL_MS) {
+    return context;
+  }
+  const profile = provider ?? (await getMyProfile());
+  const area = normalizeServiceArea(profile?.serviceArea);
+  let districts: GeographyDistrict[] = [];
+  if (area.districtIds.length > 0) {
+    try {
+      districts = (await getGeographyMeta()).districts.filter(d =>
+        area.districtIds.includes(d._id),
+      );
+    } catch {
+      // Pincode / radius rules still work without the district names
+    }
+  }
+  context = {area, base: getServiceAreaBase(profile), districts, loadedAt: Date.now()};
+  return context;
+}
+
+export async function getServiceArea(): Promise<ProviderServiceArea> {
+  return (await loadContext()).area;
+}
+
+/** Persist on the provider profile; throws when the backend rejects it */
+export async function saveServiceArea(area: ProviderServiceArea): Promise<ProviderServiceArea> {
+  const next = normalizeServiceArea({
+    ...area,
+    pincodes: Array.from(new Set(area.pincodes.map(pincode => pincode.trim()))),
+    updatedAt: new Date().toISOString(),
+  });
+  const updated = await updateMyProfile({serviceArea: next});
+  await loadContext({...updated, serviceArea: updated?.serviceArea || next});
+  return context!.area;
+}
+
+/**
+ * In-area / out-of-area for an incoming booking. Null when the provider
+ * profile cannot be loaded (the booking is then shown unannotated).
+ */
+export async function checkBookingServiceArea(bookingData: any): Promise<ServiceAreaCheck | null> {
+  try {
+    const {area, base, districts} = await loadContext();
+    const address = bookingData?.customerAddress || bookingData?.patientAddress;
+    return evaluateServiceArea(area, base, address, districts);
+  } catch (error: any) {
+    console.warn('[serviceArea] check skipped:', error?.message || error);
+    return null;
+  }
+}
+
+/**
+ * Whether to skip the alert for a booking: the provider chose to hide
+ * out-of-area requests. Bookings sent to this provider directly always show.
+ */
+export async function shouldSkipBookingAlert(
+  bookingData: any,
+  check: ServiceAreaCheck | null,
+): Promise<boolean> {
+  if (check?.status !== 'out_of_area') return false;
+  if (bookingData?.providerId || bookingData?.isTargeted) return false;
+  try {
+    return !!(await loadContext()).area.hideOutOfArea;
+  } catch {
+    return false;
+  }
+}
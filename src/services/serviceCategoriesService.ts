@@ -30,6 +30,10 @@ export interface ServiceCategory {
   order: number; // Display order
   questionnaire?: QuestionnaireQuestion[]; // Questions for this service category
   requiresVehicle?: boolean; // For driver/transport services
+  estimatedDurationMinutes?: number; // Typical on-site time, used for booking conflict checks
+  sacCode?: string; // GST Services Accounting Code printed on tax invoices
+  gstRatePercent?: number; // GST rate for the service (invoices)
+  requiresAfterPhoto?: boolean; // Completion needs at least one "after" work photo
   createdAt?: Date;
   updatedAt?: Date;
 }
@@ -49,6 +53,9 @@ export const DEFAULT_SERVICE_CATEGORIES: Omit<ServiceCategory, 'id' | 'createdAt
     description: 'Plumbing repairs and installations',
     isActive: true,
     order: 1,
+    estimatedDurationMinutes: 60,
+    sacCode: '995462',
+    gstRatePercent: 18,
   },
   {
     name: 'Electrician',
@@ -57,6 +64,9 @@ export const DEFAULT_SERVICE_CATEGORIES: Omit<ServiceCategory, 'id' | 'createdAt
     description: 'Electrical repairs and installations',
     isActive: true,
     order: 2,
+    estimatedDurationMinutes: 60,
+    sacCode: '995461',
+    gstRatePercent: 18,
   },
   {
     name: 'Carpenter',
@@ -65,6 +75,9 @@ export const DEFAULT_SERVICE_CATEGORIES: Omit<ServiceCategory, 'id' | 'createdAt
     description: 'Carpentry and woodwork',
     isActive: true,
     order: 3,
+    estimatedDurationMinutes: 120,
+    sacCode: '995476',
+    gstRatePercent: 18,
   },
   {
     name: 'AC Repair',
@@ -73,6 +86,9 @@ export const DEFAULT_SERVICE_CATEGORIES: Omit<ServiceCategory, 'id' | 'createdAt
     description: 'Air conditioning repair and service',
     isActive: true,
     order: 4,
+    estimatedDurationMinutes: 90,
+    sacCode: '995463',
+    gstRatePercent: 18,
   },
   {
     name: 'Appliance Repair',
@@ -81,6 +97,9 @@ export const DEFAULT_SERVICE_CATEGORIES: Omit<ServiceCategory, 'id' | 'createdAt
     description: 'Home appliance repairs',
     isActive: true,
     order: 5,
+    estimatedDurationMinutes: 90,
+    sacCode: '998719',
+    gstRatePercent: 18,
   },
   {
     name: 'Painter',
@@ -89,6 +108,9 @@ export const DEFAULT_SERVICE_CATEGORIES: Omit<ServiceCategory, 'id' | 'createdAt
     description: 'Painting services',
     isActive: true,
     order: 6,
+    estimatedDurationMinutes: 240,
+    sacCode: '995473',
+    gstRatePercent: 18,
   },
   {
     name: 'Cleaning Service',
@@ -97,6 +119,9 @@ export const DEFAULT_SERVICE_CATEGORIES: Omit<ServiceCategory, 'id' | 'createdAt
     description: 'Home and office cleaning',
     isActive: true,
     order: 7,
+    estimatedDurationMinutes: 180,
+    sacCode: '998533',
+    gstRatePercent: 18,
   },
   {
     name: 'Pest Control',
@@ -105,6 +130,9 @@ export const DEFAULT_SERVICE_CATEGORIES: Omit<ServiceCategory, 'id' | 'createdAt
     description: 'Pest control and extermination',
     isActive: true,
     order: 8,
+    estimatedDurationMinutes: 90,
+    sacCode: '998531',
+    gstRatePercent: 18,
   },
   {
     name: 'Mason',
@@ -212,6 +240,10 @@ export const getServiceCategoryByName = async (
         order: category.order || 0,
         questionnaire: category.questionnaire,
         requiresVehicle: category.requiresVehicle,
+        estimatedDurationMinutes: category.estimatedDurationMinutes,
+        sacCode: category.sacCode,
+        gstRatePercent: category.gstRatePercent,
+        requiresAfterPhoto: category.requiresAfterPhoto,
         createdAt: category.createdAt ? (category.createdAt instanceof Date ? category.createdAt : new Date(category.createdAt)) : new Date(),
         updatedAt: category.updatedAt ? (category.updatedAt instanceof Date ? category.updatedAt : new Date(category.updatedAt)) : new Date(),
       } as ServiceCategory;
@@ -0,0 +1,351 @@
+/**
+ * Socket event protocol (Provider App)
+ * The catalogue of server → provider events, their payload types and the
+ * runtime checks that turn raw socket data into those types. Handlers only
+ * ever receive validated payloads; anything malformed is dropped here.
+ *
+ * Versioning: the client announces SOCKET_PROTOCOL_VERSION in the
+ * connection query and the server answers with the version it speaks in a
+ * `protocol` event. Version 1 servers send bare legacy payloads (ids under
+ * serviceRequestId / consultationId / bookingId / id); version 2 wraps
+ * every payload as `{v, data}` with canonical field names. Both are
+ * accepted and normalised to the same types.
+ */
+
+import type {JobCard} from './api/jobCardsApi';
+import type {ProviderNotification, ProviderNotificationType} from './api/notificationsApi';
+import type {DocumentStatus, ProviderDocumentKind} from './api/documentsApi';
+
+export const SOCKET_PROTOCOL_VERSION = 2;
+/** Oldest server protocol this app still understands */
+export const MIN_SOCKET_PROTOCOL_VERSION = 1;
+
+export interface BookingAddress {
+  address: string;
+  city?: string;
+  state?: string;
+  pincode?: string;
+  latitude?: number;
+  longitude?: number;
+}
+
+export interface NewBookingEvent {
+  serviceRequestId: string;
+  customerId?: string;
+  customerName: string;
+  customerPhone?: string;
+  customerAddress?: BookingAddress;
+  serviceType?: string;
+  problem?: string;
+  scheduledTime?: string;
+  questionnaireAnswers?: Record<string, unknown>;
+  serviceFee?: number;
+  /** Set when the customer picked this provider (not a broadcast) */
+  providerId?: string;
+  isTargeted: boolean;
+  status?: string;
+  createdAt?: string;
+}
+
+export interface BookingWithdrawnEvent {
+  serviceRequestId: string;
+  reason?: string;
+}
+
+export interface BookingTakenByOtherEvent {
+  serviceRequestId: string;
+  takenByProviderId?: string;
+}
+
+export interface JobStatusChangedEvent {
+  jobCardId: string;
+  status: JobCard['status'];
+  updatedAt: string;
+  cancellationReason?: string;
+  /** Who cancelled (cancelled jobs; older servers leave it out) */
+  cancelledBy?: 'customer' | 'provider' | 'admin';
+}
+
+export interface CommentAddedEvent {
+  jobCardId: string;
+  comment: {
+    _id: string;
+    role: 'admin' | 'provider' | 'customer';
+    authorId?: string;
+    authorName?: string;
+    text: string;
+    createdAt?: string;
+  };
+}
+
+export interface PaymentReceivedEvent {
+  paymentId: string;
+  amount: number;
+  jobCardId?: string;
+  serviceRequestId?: string;
+  method?: string;
+  receivedAt: string;
+}
+
+/** Read state changed on another device */
+export interface NotificationsReadEvent {
+  /** 'all' when every notification was marked read */
+  ids: string[] | 'all';
+  unreadCount?: number;
+}
+
+/** An admin reviewed one KYC document */
+export interface DocumentStatusChangedEvent {
+  kind: ProviderDocumentKind;
+  status: DocumentStatus;
+  rejectionReason?: string;
+  updatedAt: string;
+}
+
+export interface SocketEventMap {
+  'new-booking': NewBookingEvent;
+  'booking-withdrawn': BookingWithdrawnEvent;
+  'booking-taken-by-other': BookingTakenByOtherEvent;
+  'job-status-changed': JobStatusChangedEvent;
+  'comment-added': CommentAddedEvent;
+  'payment-received': PaymentReceivedEvent;
+  notification: ProviderNotification;
+  'notifications-read': NotificationsReadEvent;
+  'document-status-changed': DocumentStatusChangedEvent;
+}
+
+export type SocketEventName = keyof SocketEventMap;
+
+type Raw = Record<string, any>;
+
+const JOB_STATUSES: JobCard['status'][] = [
+  'pending',
+  'accepted',
+  'in-progress',
+  'completed',
+  'cancelled',
+];
+const COMMENT_ROLES: CommentAddedEvent['comment']['role'][] = ['admin', 'provider', 'customer'];
+const NOTIFICATION_TYPES: ProviderNotificationType[] = [
+  'new_booking',
+  'job_cancelled',
+  'comment',
+  'payment',
+  'review',
+  'approval_status',
+  'system',
+];
+
+const DOCUMENT_KINDS: ProviderDocumentKind[] = ['idProof', 'addressProof', 'certificate'];
+const DOCUMENT_STATUSES: DocumentStatus[] = ['pending', 'verified', 'rejected'];
+
+const isObject = (value: unknown): value is Raw =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const str = (value: unknown): string | undefined => {
+  if (typeof value === 'number') return String(value);
+  return typeof value === 'string' && value.trim() ? value.trim() : undefined;
+};
+
+const num = (value: unknown): number | undefined => {
+  const n = typeof value === 'string' ? Number(value) : value;
+  return typeof n === 'number' && Number.isFinite(n) ? n : undefined;
+};
+
+/** Date-ish value → ISO string */
+const isoDate = (value: unknown): string | undefined => {
+  if (value === undefined || value === null || value === '') return undefined;
+  if (isObject(value) && typeof value.toDate === 'function') value = value.toDate();
+  const date = value instanceof Date ? value : new Date(value as string | number);
+  return Number.isNaN(date.getTime()) ? undefined : date.toISOString();
+};
+
+/**
+ * The one place legacy id aliases are resolved. Version 1 servers (and
+ * REST responses) name the service request id inconsistently.
+ */
+export function serviceRequestIdOf(raw: unknown): string | undefined {
+  if (!isObject(raw)) return undefined;
+  return (
+    str(raw.serviceRequestId) ||
+    str(raw.consultationId) ||
+    str(raw.bookingId) ||
+    str(raw.id) ||
+    str(raw._id)
+  );
+}
+
+function parseAddress(raw: unknown): BookingAddress | undefined {
+  if (!isObject(raw)) return undefined;
+  const address = str(raw.address) || str(raw.fullAddress);
+  if (!address) return undefined;
+  return {
+    address,
+    city: str(raw.city),
+    state: str(raw.state),
+    pincode: str(raw.pincode),
+    latitude: num(raw.latitude),
+    longitude: num(raw.longitude),
+  };
+}
+
+/** Booking from a socket push or a pending-requests poll; null when unusable */
+export function parseBooking(raw: unknown): NewBookingEvent | null {
+  if (!isObject(raw)) return null;
+  const serviceRequestId = serviceRequestIdOf(raw);
+  if (!serviceRequestId) return null;
+  const providerId = str(raw.providerId);
+  return {
+    serviceRequestId,
+    customerId: str(raw.customerId) || str(raw.patientId),
+    customerName: str(raw.customerName) || str(raw.patientName) || 'Customer',
+    customerPhone: str(raw.customerPhone) || str(raw.patientPhone),
+    customerAddress: parseAddress(raw.customerAddress) || parseAddress(raw.patientAddress),
+    serviceType: str(raw.serviceType),
+    problem: str(raw.problem) || str(raw.symptoms),
+    scheduledTime: isoDate(raw.scheduledTime),
+    questionnaireAnswers: isObject(raw.questionnaireAnswers) ? raw.questionnaireAnswers : undefined,
+    serviceFee: num(raw.serviceFee) ?? num(raw.consultationFee),
+    providerId,
+    isTargeted: !!providerId || raw.isTargeted === true,
+    status: str(raw.status),
+    createdAt: isoDate(raw.createdAt),
+  };
+}
+
+const parsers: {[E in SocketEventName]: (raw: Raw) => SocketEventMap[E] | null} = {
+  'new-booking': parseBooking,
+
+  'booking-withdrawn': raw => {
+    const serviceRequestId = serviceRequestIdOf(raw);
+    return serviceRequestId ? {serviceRequestId, reason: str(raw.reason)} : null;
+  },
+
+  'booking-taken-by-other': raw => {
+    const serviceRequestId = serviceRequestIdOf(raw);
+    return serviceRequestId
+      ? {
+          serviceRequestId,
+          takenByProviderId: str(raw.takenByProviderId) || str(raw.providerId),
+        }
+      : null;
+  },
+
+  'job-status-changed': raw => {
+    const jobCardId = str(raw.jobCardId) || str(raw._id);
+    const status = raw.status as JobCard['status'];
+    if (!jobCardId || !JOB_STATUSES.includes(status)) return null;
+    return {
+      jobCardId,
+      status,
+      updatedAt: isoDate(raw.updatedAt) || new Date().toISOString(),
+      cancellationReason: str(raw.cancellationReason),
+      cancelledBy: ['customer', 'provider', 'admin'].includes(raw.cancelledBy)
+        ? raw.cancelledBy
+        : undefined,
+    };
+  },
+
+  'comment-added': raw => {
+    const jobCardId = str(raw.jobCardId);
+    const comment = isObject(raw.comment) ? raw.comment : null;
+    const text = str(comment?.text);
+    if (!jobCardId || !comment || !text || !str(comment._id)) return null;
+    if (!COMMENT_ROLES.includes(comment.role)) return null;
+    return {
+      jobCardId,
+      comment: {
+        _id: str(comment._id)!,
+        role: comment.role,
+        authorId: str(comment.authorId),
+        authorName: str(comment.authorName),
+        text,
+        createdAt: isoDate(comment.createdAt),
+      },
+    };
+  },
+
+  'payment-received': raw => {
+    const paymentId = str(raw.paymentId) || str(raw.razorpayPaymentId);
+    const amount = num(raw.amount);
+    if (!paymentId || amount === undefined || amount < 0) return null;
+    return {
+      paymentId,
+      amount,
+      jobCardId: str(raw.jobCardId),
+      serviceRequestId: str(raw.serviceRequestId),
+      method: str(raw.method),
+      receivedAt: isoDate(raw.receivedAt) || new Date().toISOString(),
+    };
+  },
+
+  notification: raw => {
+    const _id = str(raw._id) || str(raw.id);
+    const title = str(raw.title);
+    if (!_id || !title) return null;
+    return {
+      _id,
+      // Types added server-side later still land in the inbox
+      type: NOTIFICATION_TYPES.includes(raw.type) ? raw.type : 'system',
+      title,
+      message: str(raw.message) || '',
+      jobCardId: str(raw.jobCardId),
+      serviceRequestId: str(raw.serviceRequestId),
+      data: isObject(raw.data) ? raw.data : undefined,
+      readAt: isoDate(raw.readAt) ?? null,
+      createdAt: isoDate(raw.createdAt) || new Date().toISOString(),
+    };
+  },
+
+  'notifications-read': raw => {
+    const ids =
+      raw.ids === 'all' || raw.all === true
+        ? 'all'
+        : Array.isArray(raw.ids)
+          ? raw.ids.map(str).filter((id: string | undefined): id is string => !!id)
+          : null;
+    if (!ids) return null;
+    return {ids, unreadCount: num(raw.unreadCount)};
+  },
+
+  'document-status-changed': raw => {
+    const kind = (raw.kind || raw.documentKind) as ProviderDocumentKind;
+    const status = raw.status as DocumentStatus;
+    if (!DOCUMENT_KINDS.includes(kind) || !DOCUMENT_STATUSES.includes(status)) return null;
+    return {
+      kind,
+      status,
+      rejectionReason: str(raw.rejectionReason) || str(raw.reason),
+      updatedAt: isoDate(raw.updatedAt) || new Date().toISOString(),
+    };
+  },
+};
+
+export const SOCKET_EVENTS = Object.keys(parsers) as SocketEventName[];
+
+/**
+ * Validate a raw payload for `event`. Unwraps version 2 envelopes; returns
+ * null (and logs once per call) for anything that does not fit the type.
+ */
+export function parseSocketEvent<E extends SocketEventName>(
+  event: E,
+  raw: unknown,
+): SocketEventMap[E] | null {
+  const data = isObject(raw) && typeof raw.v === 'number' && 'data' in raw ? raw.data : raw;
+  if (!isObject(data)) {
+    console.warn(`[socket] dropped ${event}: payload is not an object`);
+    return null;
+  }
+  const payload = parsers[event](data) as SocketEventMap[E] | null;
+  if (!payload) {
+    console.warn(`[socket] dropped malformed ${event} payload:`, Object.keys(data));
+  }
+  return payload;
+}
+
+/** Server protocol version from its `protocol` / `room-joined` reply (null when it sent none) */
+export function negotiatedVersionOf(raw: unknown): number | null {
+  if (!isObject(raw)) return null;
+  const version = num(raw.protocolVersion ?? raw.version);
+  return version === undefined ? null : Math.floor(version);
+}
@@ -6,6 +6,13 @@
  */
 
 import { Platform, Vibration } from 'react-native';
+import {
+  AlertTone,
+  ResolvedAlertProfile,
+  VIBRATION_PATTERNS,
+  toneAt,
+  volumeAt,
+} from './alertProfileService';
 
 // Lazy-load react-native-sound so we can catch "not linked" errors and run without sound
 let SoundModule: typeof import('react-native-sound') | null = null;
@@ -22,6 +29,11 @@ class SoundService {
   private hooterSoundLoaded: boolean = false;
   private continuousPlayInterval: ReturnType<typeof setInterval> | null = null;
   private isPlayingContinuously: boolean = false;
+  /** Tone the loaded sound object holds */
+  private currentTone: AlertTone = 'hooter';
+  /** Profile of the current ringing (null: plain hooter) */
+  private profile: ResolvedAlertProfile | null = null;
+  private ringStartedAt = 0;
 
   constructor() {
     if (!SoundModule) return;
@@ -40,10 +52,24 @@ class SoundService {
   }
 
   /**
-   * Load the hooter sound file
+   * Load the hooter sound file (or another bundled tone)
    */
-  private loadHooterSound(): void {
+  private loadHooterSound(tone: AlertTone = this.currentTone): void {
     if (!SoundModule) return;
+    if (tone !== this.currentTone) {
+      // A different tone replaces the loaded one
+      if (this.hooterSound) {
+        try {
+          this.hooterSound.stop();
+          this.hooterSound.release();
+        } catch (e) {
+          // Ignore errors when releasing
+        }
+      }
+      this.hooterSound = null;
+      this.hooterSoundLoaded = false;
+      this.currentTone = tone;
+    }
     // Only load sound if not already loaded
     if (this.hooterSoundLoaded && this.hooterSound) {
       console.log('✅ Hooter sound already loaded');
@@ -87,14 +113,15 @@ class SoundService {
       // For iOS: Use Sound.MAIN_BUNDLE
       const basePath = Platform.OS === 'android' ? undefined : SoundModule.MAIN_BUNDLE;
       
+      const file = `${tone}.wav`;
       console.log('📦 Creating Sound instance with:', {
-        file: 'hooter.wav',
+        file,
         basePath: basePath === undefined ? 'undefined (Android res/raw)' : 'Sound.MAIN_BUNDLE',
         platform: Platform.OS,
       });
       
       const soundInstance = new SoundModule(
-        'hooter.wav',
+        file,
         basePath,
         (error) => {
         if (error) {
@@ -144,7 +171,7 @@ class SoundService {
   /**
    * Play hooter sound (single play)
    */
-  playHooterSound(): void {
+  playHooterSound(volume: number = 1.0): void {
     if (!SoundModule) return;
     console.log('🔊 [PLAY] Attempting to play hooter sound...');
 
@@ -154,7 +181,7 @@ class SoundService {
       this.loadHooterSound();
       // Wait a bit for sound to load, then try again
       setTimeout(() => {
-          this.playHooterSound();
+          this.playHooterSound(volume);
       }, 1000);
       return;
     }
@@ -174,7 +201,7 @@ class SoundService {
           console.log('⏳ [PLAY] Sound duration is 0, waiting...');
           // Try again after a delay
           setTimeout(() => {
-            this.playHooterSound();
+            this.playHooterSound(volume);
           }, 500);
           return;
         }
@@ -186,11 +213,13 @@ class SoundService {
   
     console.log('🔊 [PLAY] Playing hooter sound now (ready:', isReady, ')...');
   
-    // Vibrate for haptic feedback
-    try {
-      Vibration.vibrate([0, 500, 200, 500]);
-    } catch (vibError) {
-      console.warn('⚠️ Vibration failed:', vibError);
+    // Vibrate for haptic feedback (a profile ringing runs its own pattern)
+    if (!this.profile) {
+      try {
+        Vibration.vibrate([0, 500, 200, 500]);
+      } catch (vibError) {
+        console.warn('⚠️ Vibration failed:', vibError);
+      }
     }
   
     try {
@@ -198,8 +227,7 @@ class SoundService {
       this.hooterSound.stop();
       // Reset to beginning
       this.hooterSound.reset();
-      // Set volume to maximum
-      this.hooterSound.setVolume(1.0);
+      this.hooterSound.setVolume(volume);
 
       console.log('🔊 [PLAY] Calling sound.play()...');
 
@@ -239,14 +267,28 @@ class SoundService {
   }
 
   /**
-   * Start playing hooter sound continuously (every 2 seconds)
+   * Start playing hooter sound continuously (every 2 seconds), shaped by
+   * the alert profile: tone, volume ramp, vibration and escalation
    */
-  startContinuousPlay(): void {
-    if (!SoundModule) return;
+  startContinuousPlay(profile: ResolvedAlertProfile | null = null): void {
     if (this.isPlayingContinuously) {
       console.log('🔊 Continuous play already running');
       return;
     }
+    if (this.ringStartedAt === 0) {
+      this.profile = profile;
+      this.ringStartedAt = Date.now();
+      this.startVibration();
+    }
+    // Vibrate-only profile (quiet hours)
+    if (profile?.silent) {
+      this.isPlayingContinuously = true;
+      return;
+    }
+    if (!SoundModule) return;
+    if (profile && profile.tone !== this.currentTone) {
+      this.loadHooterSound(profile.tone);
+    }
 
     console.log('🔊 Starting continuous hooter sound playback');
     
@@ -263,7 +305,8 @@ class SoundService {
               console.log('✅ Sound loaded, starting continuous play');
               this.hooterSoundLoaded = true;
               clearInterval(checkInterval);
-              this.startContinuousPlay();
+              // Unless it was stopped while the tone loaded
+              if (this.ringStartedAt) this.startContinuousPlay(profile);
     }
           } catch (e) {
             // Still loading
@@ -291,14 +334,14 @@ class SoundService {
         } else {
           console.log('⏳ Sound duration is 0, waiting...');
           setTimeout(() => {
-            this.startContinuousPlay();
+            if (this.ringStartedAt) this.startContinuousPlay(profile);
           }, 500);
           return;
         }
       } catch (e) {
         console.log('⏳ Sound not ready yet, waiting...');
         setTimeout(() => {
-          this.startContinuousPlay();
+          if (this.ringStartedAt) this.startContinuousPlay(profile);
         }, 500);
         return;
       }
@@ -308,13 +351,13 @@ class SoundService {
     console.log('🔊 Continuous play started, will play every 2 seconds');
 
     // Play immediately
-    this.playHooterSound();
+    this.playProfileTick();
 
     // Then play every 2 seconds
     this.continuousPlayInterval = setInterval(() => {
       if (this.isPlayingContinuously) {
         console.log('🔊 Playing hooter (continuous loop)');
-        this.playHooterSound();
+        this.playProfileTick();
       } else {
         console.log('🔇 Continuous play stopped, clearing interval');
         if (this.continuousPlayInterval) {
@@ -325,10 +368,43 @@ class SoundService {
     }, 2000);
   }
 
+  /**
+   * One beat of the ringing: the tone and volume for how long it has rung
+   */
+  private playProfileTick(): void {
+    if (!this.profile) {
+      this.playHooterSound();
+      return;
+    }
+    const elapsedSec = (Date.now() - this.ringStartedAt) / 1000;
+    const tone = toneAt(this.profile, elapsedSec);
+    if (tone !== this.currentTone) {
+      // Escalation tone plays from the next beat once loaded
+      this.loadHooterSound(tone);
+      return;
+    }
+    this.playHooterSound(volumeAt(this.profile, elapsedSec));
+  }
+
+  private startVibration(): void {
+    const pattern = this.profile ? VIBRATION_PATTERNS[this.profile.vibration] : [];
+    if (pattern.length === 0) return;
+    try {
+      Vibration.vibrate(pattern, true);
+    } catch (vibError) {
+      console.warn('⚠️ Vibration failed:', vibError);
+    }
+  }
+
   /**
    * Stop continuous hooter sound playback
    */
   stopContinuousPlay(): void {
+    if (this.ringStartedAt !== 0) {
+      Vibration.cancel();
+      this.ringStartedAt = 0;
+      this.profile = null;
+    }
     if (!this.isPlayingContinuously) {
       return;
     }
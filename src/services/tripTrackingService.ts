@@ -0,0 +1,281 @@
+/**
+ * Live trip tracking (Provider App)
+ * From the moment the provider taps Navigate on an accepted job until the
+ * job is started or cancelled: streams high-frequency positions tied to the
+ * job card, publishes ETA updates to the customer over the socket, and
+ * detects arrival with a geofence around the customer's address.
+ * Only one trip can be active at a time; starting another ends the first.
+ */
+
+import database from '@react-native-firebase/database';
+import GeolocationService from './geolocationService';
+import websocketService from './websocketService';
+import {calculateDistance, calculateETA} from './providerLocationService';
+import {jobCardsApi, JobCard, JobCardTrip, TripStatus} from './api/jobCardsApi';
+
+/** Within this distance of the customer the provider counts as arrived */
+export const ARRIVAL_RADIUS_METERS = 150;
+/** Fixes less precise than this cannot trigger arrival */
+const MAX_ARRIVAL_ACCURACY_METERS = 100;
+const TRIP_DISTANCE_FILTER_METERS = 20;
+const TRIP_INTERVAL_MS = 5000;
+/** Throttle for socket / RTDB publishes */
+const MIN_PUBLISH_INTERVAL_MS = 5000;
+
+export interface ActiveTrip {
+  jobCardId: string;
+  customerId?: string;
+  destination?: {latitude: number; longitude: number};
+  status: Exclude<TripStatus, 'ended'>;
+  startedAt: number;
+  arrivedAt?: number;
+  etaMinutes?: number;
+  distanceKm?: number;
+  lastLocation?: {latitude: number; longitude: number; accuracy?: number; timestamp: number};
+}
+
+type TripListener = (trip: ActiveTrip | null) => void;
+
+const listeners = new Set<TripListener>();
+let activeTrip: ActiveTrip | null = null;
+let stopWatch: (() => void) | null = null;
+let stopStatusWatch: (() => void) | null = null;
+let lastPublishedAt = 0;
+/** Start in progress (awaiting location permission); repeat taps join it */
+let pendingStart: {jobCardId: string; promise: Promise<ActiveTrip>} | null = null;
+
+const notify = () => {
+  const snapshot = activeTrip ? {...activeTrip} : null;
+  listeners.forEach(cb => {
+    try {
+      cb(snapshot);
+    } catch (e) {
+      console.warn('[trip] listener error', e);
+    }
+  });
+};
+
+/** Notified on every trip change (position, ETA, arrival) and with null when it ends. */
+export function onTripChange(listener: TripListener): () => void {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+export const getActiveTrip = (jobCardId?: string): ActiveTrip | null =>
+  activeTrip && (!jobCardId || activeTrip.jobCardId === jobCardId) ? {...activeTrip} : null;
+
+/** Record a trip state on the job card; the customer is notified by the backend */
+const recordTripState = (jobCardId: string, data: Parameters<typeof jobCardsApi.updateTrip>[1]) =>
+  jobCardsApi.updateTrip(jobCardId, data).catch(error =>
+    console.warn('[trip] failed to record trip state:', error?.message || error),
+  );
+
+/** Optional RTDB mirror for customers without a socket connection */
+const mirrorTrip = async (jobCardId: string, trip: Partial<JobCardTrip> & Record<string, unknown>) => {
+  try {
+    await database().ref(`jobCards/${jobCardId}/trip`).set({...trip, updatedAt: Date.now()});
+  } catch {
+    // ignore RTDB permission errors under JWT auth
+  }
+};
+
+const publishPosition = (trip: ActiveTrip, force = false) => {
+  const now = Date.now();
+  if (!force && now - lastPublishedAt < MIN_PUBLISH_INTERVAL_MS) return;
+  lastPublishedAt = now;
+
+  const payload = {
+    jobCardId: trip.jobCardId,
+    customerId: trip.customerId,
+    status: trip.status,
+    latitude: trip.lastLocation?.latitude,
+    longitude: trip.lastLocation?.longitude,
+    etaMinutes: trip.etaMinutes,
+    distanceKm: trip.distanceKm,
+    timestamp: now,
+  };
+  websocketService.emitTripEvent('trip-update', payload);
+  void mirrorTrip(trip.jobCardId, payload);
+};
+
+const handlePosition = (location: {
+  latitude: number;
+  longitude: number;
+  accuracy?: number;
+  timestamp: number;
+}) => {
+  const trip = activeTrip;
+  if (!trip) return;
+
+  trip.lastLocation = location;
+  if (trip.destination) {
+    trip.distanceKm = calculateDistance(
+      location.latitude,
+      location.longitude,
+      trip.destination.latitude,
+      trip.destination.longitude,
+    );
+    trip.etaMinutes = calculateETA(trip.distanceKm);
+  }
+
+  const arrived =
+    trip.status === 'en_route' &&
+    trip.distanceKm !== undefined &&
+    trip.distanceKm * 1000 <= ARRIVAL_RADIUS_METERS &&
+    (location.accuracy === undefined || location.accuracy <= MAX_ARRIVAL_ACCURACY_METERS);
+
+  if (arrived) {
+    trip.status = 'arrived';
+    trip.arrivedAt = Date.now();
+    trip.etaMinutes = 0;
+    websocketService.emitTripEvent('trip-arrived', {
+      jobCardId: trip.jobCardId,
+      customerId: trip.customerId,
+      latitude: location.latitude,
+      longitude: location.longitude,
+      timestamp: trip.arrivedAt,
+    });
+    void recordTripState(trip.jobCardId, {
+      status: 'arrived',
+      latitude: location.latitude,
+      longitude: location.longitude,
+      distanceKm: trip.distanceKm,
+    });
+  }
+
+  publishPosition(trip, arrived);
+  notify();
+};
+
+/** Stop tracking as soon as the job leaves the accepted state (started, cancelled by anyone) */
+const watchJobStatus = (jobCardId: string): (() => void) => {
+  try {
+    const ref = database().ref(`jobCards/${jobCardId}/status`);
+    const handler = ref.on('value', snapshot => {
+      const status = snapshot.val() as JobCard['status'] | null;
+      if (status === 'in-progress' || status === 'completed') {
+        void stopTripTracking(jobCardId, 'started');
+      } else if (status === 'cancelled') {
+        void stopTripTracking(jobCardId, 'cancelled');
+      }
+    });
+    return () => ref.off('value', handler);
+  } catch (error: any) {
+    console.warn('[trip] job status watch unavailable:', error?.message || error);
+    return () => {};
+  }
+};
+
+async function beginTrip(
+  jobCard: Pick<JobCard, 'customerId' | 'customerAddress'>,
+  jobCardId: string,
+  previous?: Promise<ActiveTrip>,
+): Promise<ActiveTrip> {
+  // Let a start for another job settle first so its watcher is ended below
+  await previous?.catch(() => undefined);
+  if (activeTrip?.jobCardId === jobCardId) {
+    return {...activeTrip};
+  }
+  if (activeTrip) {
+    await stopTripTracking(activeTrip.jobCardId, 'stopped');
+  }
+
+  let permission = await GeolocationService.checkLocationPermission();
+  if (permission !== 'granted') {
+    permission = await GeolocationService.requestLocationPermission();
+  }
+  if (permission !== 'granted') {
+    throw new Error('Location permission not granted. Please enable location permission in settings.');
+  }
+
+  const {latitude, longitude} = jobCard.customerAddress || ({} as JobCard['customerAddress']);
+  activeTrip = {
+    jobCardId,
+    customerId: jobCard.customerId,
+    destination:
+      typeof latitude === 'number' && typeof longitude === 'number'
+        ? {latitude, longitude}
+        : undefined,
+    status: 'en_route',
+    startedAt: Date.now(),
+  };
+  lastPublishedAt = 0;
+
+  // Never leave an earlier watcher running without a handle to stop it
+  stopWatch?.();
+  stopStatusWatch?.();
+  stopWatch = GeolocationService.watchPosition(
+    handlePosition,
+    error => console.warn('[trip] location watch error:', error.message),
+    {distanceFilter: TRIP_DISTANCE_FILTER_METERS, interval: TRIP_INTERVAL_MS},
+  );
+  stopStatusWatch = watchJobStatus(jobCardId);
+
+  void recordTripState(jobCardId, {status: 'en_route'});
+  void mirrorTrip(jobCardId, {status: 'en_route', startedAt: new Date(activeTrip.startedAt).toISOString()});
+  notify();
+  return {...activeTrip};
+}
+
+/**
+ * Put the provider "en route" to an accepted job and start streaming.
+ * Calling it again for the same job (even while the first call is still
+ * asking for permission) joins that trip; for another job it ends the
+ * previous trip first.
+ */
+export async function startTripTracking(
+  jobCard: Pick<JobCard, '_id' | 'id' | 'customerId' | 'customerAddress' | 'status'>,
+): Promise<ActiveTrip> {
+  const jobCardId = String(jobCard._id || jobCard.id || '');
+  if (!jobCardId) {
+    throw new Error('Job card id is required to start a trip');
+  }
+  if (jobCard.status !== 'accepted') {
+    throw new Error('Trips can only be started for accepted jobs');
+  }
+  if (activeTrip?.jobCardId === jobCardId) {
+    return {...activeTrip};
+  }
+  if (pendingStart?.jobCardId === jobCardId) {
+    return pendingStart.promise;
+  }
+
+  // Claimed before the first await so a second tap cannot start another watcher
+  const start = {jobCardId, promise: beginTrip(jobCard, jobCardId, pendingStart?.promise)};
+  pendingStart = start;
+  try {
+    return await start.promise;
+  } finally {
+    if (pendingStart === start) pendingStart = null;
+  }
+}
+
+/**
+ * End the trip for a job (no-op when that job has no active trip).
+ * Called automatically when the job is started or cancelled.
+ */
+export async function stopTripTracking(
+  jobCardId: string,
+  reason: NonNullable<JobCardTrip['endReason']> = 'stopped',
+): Promise<void> {
+  if (!activeTrip || activeTrip.jobCardId !== jobCardId) return;
+  const trip = activeTrip;
+  activeTrip = null;
+
+  stopWatch?.();
+  stopWatch = null;
+  stopStatusWatch?.();
+  stopStatusWatch = null;
+
+  websocketService.emitTripEvent('trip-ended', {
+    jobCardId,
+    customerId: trip.customerId,
+    reason,
+    timestamp: Date.now(),
+  });
+  void mirrorTrip(jobCardId, {status: 'ended', endReason: reason});
+  notify();
+  await recordTripState(jobCardId, {status: 'ended', endReason: reason});
+}
@@ -1,14 +1,111 @@
 /**
- * Short voice prompts for field providers (TTS).
+ * Voice announcements for field providers (TTS).
+ * Job events are spoken from i18n templates in the app language, with a
+ * phone voice that matches it (English when none is installed).
  * Graceful no-op if react-native-tts is missing / not linked yet.
+ *
+ * Speech shares the speaker with the offer hooter: announcements about the
+ * ringing offer are spoken over it, everything else waits until it stops.
+ * A more urgent announcement cuts off a less urgent one, and anything that
+ * waited past its expiry is dropped.
  */
 
 import AsyncStorage from '@react-native-async-storage/async-storage';
+import i18n from '../i18n';
+import {useStore} from '../store';
+import websocketService from './websocketService';
 
 const VOICE_ENABLED_KEY = '@hs_provider_voice_prompts';
+const EVENT_PREFS_KEY = 'hs_provider_announcement_events';
+
+export type AnnouncementEvent =
+  | 'new_offer'
+  | 'offer_expiring'
+  | 'offer_waiting'
+  | 'job_cancelled'
+  | 'payment_received'
+  | 'next_job_soon'
+  | 'navigate_to_customer'
+  | 'job_auto_accepted';
+
+/** In the order the settings screen lists them */
+export const ANNOUNCEMENT_EVENTS: AnnouncementEvent[] = [
+  'new_offer',
+  'offer_expiring',
+  'offer_waiting',
+  'job_cancelled',
+  'payment_received',
+  'next_job_soon',
+  'navigate_to_customer',
+  'job_auto_accepted',
+];
+
+/** Higher cuts off lower; equal waits its turn */
+const PRIORITY: Record<AnnouncementEvent, number> = {
+  offer_expiring: 3,
+  new_offer: 2,
+  offer_waiting: 2,
+  job_cancelled: 2,
+  next_job_soon: 1,
+  navigate_to_customer: 1,
+  job_auto_accepted: 1,
+  payment_received: 0,
+};
+
+/** About the offer the hooter is ringing for, so they may talk over it */
+const OVER_HOOTER: AnnouncementEvent[] = ['new_offer', 'offer_expiring', 'offer_waiting'];
+
+/** How long a waiting announcement stays worth saying */
+const DEFAULT_TTL_MS = 2 * 60 * 1000;
+/** Engines that never report the end of an utterance don't stall the queue */
+const MAX_UTTERANCE_MS = 15 * 1000;
+
+const TTS_LOCALES: Record<'en' | 'hi', string> = {
+  en: 'en-IN',
+  hi: 'hi-IN',
+};
+
+export interface AnnouncementParams {
+  service?: string;
+  customer?: string;
+  distanceKm?: number;
+  seconds?: number;
+  minutes?: number;
+  /** Rupees */
+  amount?: number;
+}
+
+export interface AnnounceOptions {
+  /** What the announcement is about (e.g. `offer:<id>`); see `cancelAnnouncements` */
+  key?: string;
+  /** Dropped if still waiting at this time (epoch ms) */
+  expiresAt?: number;
+  /** Spoken even when the event is switched off (settings sample) */
+  preview?: boolean;
+}
+
+interface QueuedAnnouncement {
+  event: AnnouncementEvent;
+  params: AnnouncementParams;
+  key?: string;
+  expiresAt: number;
+}
+
+interface VoiceChoice {
+  /** Installed voice for the language, when the engine lists voices */
+  voiceId?: string;
+  available: boolean;
+}
 
 let ttsModule: any = null;
 let loadAttempted = false;
+let queue: QueuedAnnouncement[] = [];
+let current: QueuedAnnouncement | null = null;
+let currentUtteranceId: string | null = null;
+let utteranceTimer: ReturnType<typeof setTimeout> | null = null;
+let hooterWatch: (() => void) | null = null;
+let appliedLanguage: string | null = null;
+const voiceChoices = new Map<string, VoiceChoice>();
 
 function getTts(): any | null {
   if (loadAttempted) return ttsModule;
@@ -16,6 +113,15 @@ function getTts(): any | null {
   try {
     // eslint-disable-next-line @typescript-eslint/no-var-requires
     ttsModule = require('react-native-tts').default;
+    const onEnd = (event: any) => {
+      // Ends of utterances we already moved past (cut off) are ignored
+      if (event?.utteranceId != null && String(event.utteranceId) !== currentUtteranceId) {
+        return;
+      }
+      finishUtterance();
+    };
+    ttsModule.addEventListener?.('tts-finish', onEnd);
+    ttsModule.addEventListener?.('tts-cancel', onEnd);
   } catch {
     ttsModule = null;
   }
@@ -34,31 +140,237 @@ export async function isVoicePromptsEnabled(): Promise<boolean> {
 
 export async function setVoicePromptsEnabled(enabled: boolean): Promise<void> {
   await AsyncStorage.setItem(VOICE_ENABLED_KEY, enabled ? '1' : '0');
+  if (!enabled) stopAnnouncements();
 }
 
-export async function speakPrompt(text: string): Promise<void> {
+/** Per-event toggles (every event is on until switched off) */
+export async function getAnnouncementPrefs(): Promise<Record<AnnouncementEvent, boolean>> {
+  let stored: Partial<Record<AnnouncementEvent, boolean>> = {};
   try {
-    const enabled = await isVoicePromptsEnabled();
-    if (!enabled) return;
-    const Tts = getTts();
-    if (!Tts) return;
+    const raw = await AsyncStorage.getItem(EVENT_PREFS_KEY);
+    if (raw) stored = JSON.parse(raw);
+  } catch {
+    stored = {};
+  }
+  return ANNOUNCEMENT_EVENTS.reduce(
+    (prefs, event) => ({...prefs, [event]: stored[event] !== false}),
+    {} as Record<AnnouncementEvent, boolean>,
+  );
+}
+
+export async function setAnnouncementEnabled(
+  event: AnnouncementEvent,
+  enabled: boolean,
+): Promise<void> {
+  const prefs = await getAnnouncementPrefs();
+  await AsyncStorage.setItem(EVENT_PREFS_KEY, JSON.stringify({...prefs, [event]: enabled}));
+  if (!enabled) {
+    queue = queue.filter(item => item.event !== event);
+    if (current?.event === event) interruptCurrent(false);
+  }
+}
+
+async function chooseVoice(Tts: any, language: string): Promise<VoiceChoice> {
+  const cached = voiceChoices.get(language);
+  if (cached) return cached;
+  let choice: VoiceChoice = {available: true};
+  try {
+    const voices: any[] = (await Tts.voices?.()) || [];
+    // Engines that list nothing get the locale and do their best
+    if (voices.length > 0) {
+      const matching = voices
+        .filter(
+          voice =>
+            !voice.notInstalled &&
+            String(voice.language || '')
+              .toLowerCase()
+              .replace('_', '-')
+              .startsWith(language),
+        )
+        .sort(
+          (a, b) =>
+            Number(!!a.networkConnectionRequired) - Number(!!b.networkConnectionRequired) ||
+            (b.quality ?? 0) - (a.quality ?? 0),
+        );
+      choice = {voiceId: matching[0]?.id, available: matching.length > 0};
+    }
+  } catch (e) {
+    console.warn('[voice] voice list unavailable', e);
+  }
+  voiceChoices.set(language, choice);
+  return choice;
+}
+
+/**
+ * Whether the phone can speak the language (settings hint); English is the
+ * fallback when it can't
+ */
+export async function hasVoiceFor(language: 'en' | 'hi'): Promise<boolean> {
+  const Tts = getTts();
+  if (!Tts) return false;
+  return (await chooseVoice(Tts, language)).available;
+}
+
+/** Point the engine at the app language's voice; returns the language it will speak */
+async function applyVoice(Tts: any, wanted: 'en' | 'hi'): Promise<'en' | 'hi'> {
+  const choice = await chooseVoice(Tts, wanted);
+  const language = choice.available ? wanted : 'en';
+  if (appliedLanguage !== language) {
     try {
-      await Tts.stop();
-    } catch {
-      /* ignore */
+      await Tts.setDefaultLanguage?.(TTS_LOCALES[language]);
+      const {voiceId} = language === wanted ? choice : await chooseVoice(Tts, language);
+      if (voiceId) await Tts.setDefaultVoice?.(voiceId);
+      appliedLanguage = language;
+    } catch (e) {
+      console.warn('[voice] could not switch voice', e);
     }
-    Tts.setDefaultLanguage?.('en-IN');
+  }
+  return language;
+}
+
+function formatKm(km: number): string {
+  return km < 10 ? km.toFixed(1).replace(/\.0$/, '') : String(Math.round(km));
+}
+
+function renderAnnouncement(
+  event: AnnouncementEvent,
+  params: AnnouncementParams,
+  lng: 'en' | 'hi',
+): string {
+  const tx = (key: string, opts?: any) =>
+    String(i18n.t(`announcements.templates.${key}`, {...opts, lng}));
+  const service = params.service || String(i18n.t('announcements.fallbackService', {lng}));
+  switch (event) {
+    case 'new_offer':
+      return params.distanceKm != null
+        ? tx('newOfferNearby', {service, distance: tx('km', {value: formatKm(params.distanceKm)})})
+        : tx('newOffer', {service});
+    case 'offer_expiring':
+      return tx('offerExpiring', {count: params.seconds ?? 10});
+    case 'offer_waiting':
+      return tx('offerWaiting');
+    case 'job_cancelled':
+      return params.customer
+        ? tx('jobCancelledBy', {service, customer: params.customer})
+        : tx('jobCancelled', {service});
+    case 'payment_received':
+      return tx('paymentReceived', {amount: Math.round(params.amount ?? 0)});
+    case 'next_job_soon':
+      return params.customer
+        ? tx('nextJobSoonFor', {service, customer: params.customer, count: params.minutes ?? 15})
+        : tx('nextJobSoon', {service, count: params.minutes ?? 15});
+    case 'navigate_to_customer':
+      return tx('navigateToCustomer');
+    case 'job_auto_accepted':
+      return tx('jobAutoAccepted', {service});
+  }
+}
+
+const canSpeakNow = (item: QueuedAnnouncement) =>
+  !websocketService.isHooterRinging() || OVER_HOOTER.includes(item.event);
+
+function finishUtterance(): void {
+  if (utteranceTimer) {
+    clearTimeout(utteranceTimer);
+    utteranceTimer = null;
+  }
+  current = null;
+  currentUtteranceId = null;
+  void speakNext();
+}
+
+/** Stop what is being said; `requeue` says it again later */
+function interruptCurrent(requeue: boolean): void {
+  if (!current) return;
+  if (requeue) queue.unshift(current);
+  try {
+    getTts()?.stop();
+  } catch {
+    /* ignore */
+  }
+  finishUtterance();
+}
+
+async function speakNext(): Promise<void> {
+  if (current) return;
+  const now = Date.now();
+  queue = queue.filter(item => item.expiresAt > now);
+  const next = queue.find(canSpeakNow);
+  const Tts = getTts();
+  if (!next || !Tts) return;
+  queue = queue.filter(item => item !== next);
+  current = next;
+  try {
+    const language = await applyVoice(Tts, useStore.getState().language);
     Tts.setDefaultRate?.(0.48);
-    await Tts.speak(text);
+    utteranceTimer = setTimeout(finishUtterance, MAX_UTTERANCE_MS);
+    const utteranceId = await Tts.speak(renderAnnouncement(next.event, next.params, language));
+    if (current === next && utteranceId != null) currentUtteranceId = String(utteranceId);
   } catch (e) {
     console.warn('[voice] speak failed', e);
+    if (current === next) finishUtterance();
   }
 }
 
-export async function speakNewJobReceived(): Promise<void> {
-  await speakPrompt('New job received');
+function watchHooter(): void {
+  if (hooterWatch) return;
+  hooterWatch = websocketService.onHooterChange(ringing => {
+    if (ringing) {
+      // Whatever was being said would be drowned out; say it after the hooter
+      if (current && !OVER_HOOTER.includes(current.event)) interruptCurrent(true);
+    } else {
+      void speakNext();
+    }
+  });
+}
+
+/**
+ * Speak a job event in the app language (when voice and the event are on)
+ */
+export async function announce(
+  event: AnnouncementEvent,
+  params: AnnouncementParams = {},
+  options: AnnounceOptions = {},
+): Promise<void> {
+  try {
+    if (!(await isVoicePromptsEnabled())) return;
+    if (!options.preview && !(await getAnnouncementPrefs())[event]) return;
+    if (!getTts()) return;
+    watchHooter();
+
+    const item: QueuedAnnouncement = {
+      event,
+      params,
+      key: options.key,
+      expiresAt: options.expiresAt ?? Date.now() + DEFAULT_TTL_MS,
+    };
+    // A newer announcement of the same kind about the same thing replaces the old one
+    if (item.key) {
+      queue = queue.filter(queued => !(queued.key === item.key && queued.event === event));
+    }
+    // Stable sort: most urgent first, first come first served within a priority
+    queue = [...queue, item].sort((a, b) => PRIORITY[b.event] - PRIORITY[a.event]);
+
+    if (current && PRIORITY[event] > PRIORITY[current.event] && canSpeakNow(item)) {
+      interruptCurrent(false);
+      return;
+    }
+    void speakNext();
+  } catch (e) {
+    console.warn('[voice] announce failed', e);
+  }
+}
+
+/**
+ * Forget announcements about something that is settled (an answered offer)
+ */
+export function cancelAnnouncements(key: string): void {
+  queue = queue.filter(item => item.key !== key);
+  if (current?.key === key) interruptCurrent(false);
 }
 
-export async function speakNavigateToCustomer(): Promise<void> {
-  await speakPrompt('Navigate to customer');
+/** Silence everything (voice switched off, logout) */
+export function stopAnnouncements(): void {
+  queue = [];
+  interruptCurrent(false);
 }
@@ -6,16 +6,40 @@
 import io, { Socket } from 'socket.io-client';
 import soundService from './soundService';
 import hooterForegroundService from './hooterForegroundService';
+import {resolveAlertProfile, ResolvedAlertProfile} from './alertProfileService';
 import {serviceRequestsApi} from './api/serviceRequestsApi';
 import {providersApi} from './api/providersApi';
 import {SOCKET_URL} from '../config/api';
+import {isApiError} from './api/apiErrors';
+import {
+  MIN_SOCKET_PROTOCOL_VERSION,
+  negotiatedVersionOf,
+  NewBookingEvent,
+  parseSocketEvent,
+  SOCKET_PROTOCOL_VERSION,
+  SocketEventMap,
+  SocketEventName,
+} from './socketProtocol';
+
+type BookingCallback = (booking: NewBookingEvent) => void;
+/** Decides whether an offer rings the hooter (false keeps it silent) */
+type HooterGate = (booking: NewBookingEvent) => Promise<boolean>;
 
 class WebSocketService {
   private socket: Socket | null = null;
   private isConnected: boolean = false;
   private currentProviderId: string | null = null;
-  private bookingCallbacks: Array<(bookingData: any) => void> = [];
+  private bookingCallbacks: BookingCallback[] = [];
+  private hooterGate: HooterGate | null = null;
+  private hooterRinging = false;
+  /** Alert profile the hooter is ringing with */
+  private alertProfile: ResolvedAlertProfile | null = null;
+  private hooterListeners = new Set<(ringing: boolean) => void>();
+  /** Protocol the server speaks (1 until it says otherwise) */
+  private protocolVersion = 1;
   private _connectErrorLogged = false;
+  /** Handlers for other server events (chat, receipts…), kept across reconnects */
+  private eventHandlers = new Map<string, Set<(data: any) => void>>();
 
   constructor() {
     // Sound is now handled by soundService
@@ -24,7 +48,7 @@ class WebSocketService {
   /**
    * Register callback for new bookings (used by UI components)
    */
-  onNewBooking(callback: (bookingData: any) => void): () => void {
+  onNewBooking(callback: BookingCallback): () => void {
     console.log('📝 [WEBSOCKET] Registering booking callback. Current callbacks:', this.bookingCallbacks.length);
     this.bookingCallbacks.push(callback);
     console.log('✅ [WEBSOCKET] Callback registered. Total callbacks:', this.bookingCallbacks.length);
@@ -110,9 +134,11 @@ class WebSocketService {
         query: {
           providerId: providerIdToConnect,
           clientType: 'provider-app',
+          protocolVersion: String(SOCKET_PROTOCOL_VERSION),
         },
       });
       this.socket = socket;
+      this.eventHandlers.forEach((_, event) => this.attachEventDispatcher(socket, event));
 
       socket.on('connect', () => {
         if (this.socket !== socket) {
@@ -142,7 +168,10 @@ class WebSocketService {
         }
       });
 
+      socket.on('protocol', (data: unknown) => this.applyProtocolVersion(data));
+
       socket.on('room-joined', (data: any) => {
+        this.applyProtocolVersion(data);
         console.log('✅ Room join confirmed:', data);
         console.log(`✅ Provider ${this.currentProviderId} is now in room: ${data.room}`);
         console.log(`📊 Room size: ${data.roomSize || 'unknown'}`);
@@ -214,13 +243,16 @@ class WebSocketService {
     console.log('📋 [WEBSOCKET] Setting up booking listener. Current callbacks at setup time:', currentCallbackCount);
     console.log('📋 [WEBSOCKET] Note: Listener will check callbacks at EVENT TIME, not setup time');
     
-    this.socket.on('new-booking', (bookingData: any) => {
+    this.socket.on('new-booking', (raw: unknown) => {
+      // Malformed pushes never reach the hooter or the UI
+      const bookingData = parseSocketEvent('new-booking', raw);
+      if (!bookingData) return;
       // Check callbacks at EVENT TIME (when booking arrives), not at listener setup time
       const callbacksAtEventTime = this.bookingCallbacks.length;
       console.log('🔔 [WEBSOCKET] ===== NEW BOOKING EVENT RECEIVED =====');
       console.log('🔔 [WEBSOCKET] New booking received via WebSocket:', {
-        bookingId: bookingData.consultationId || bookingData.id || bookingData.bookingId,
-        customerName: bookingData.customerName || bookingData.patientName,
+        serviceRequestId: bookingData.serviceRequestId,
+        customerName: bookingData.customerName,
         providerId: this.currentProviderId,
         socketId: this.socket?.id,
         callbacksRegisteredAtSetup: currentCallbackCount,
@@ -280,11 +312,11 @@ class WebSocketService {
    * Plays sound and notifies UI components via callbacks
    * The modal UI will handle displaying the booking details
    */
-  private async handleNewBooking(bookingData: any): Promise<void> {
+  private async handleNewBooking(bookingData: NewBookingEvent): Promise<void> {
     console.log('🔔 [WEBSOCKET] Processing new booking:', {
-      consultationId: bookingData?.consultationId || bookingData?.id || bookingData?.bookingId,
-      customerName: bookingData?.customerName || bookingData?.patientName,
-      serviceType: bookingData?.serviceType,
+      serviceRequestId: bookingData.serviceRequestId,
+      customerName: bookingData.customerName,
+      serviceType: bookingData.serviceType,
     });
     console.log('📋 [WEBSOCKET] Number of registered callbacks:', this.bookingCallbacks.length);
 
@@ -293,19 +325,18 @@ class WebSocketService {
       console.error('❌ [WEBSOCKET] Make sure ProviderDashboardScreen has registered a callback via onNewBooking()');
     }
 
-    // Start hooter sound via foreground service (works even in background)
-    // Fallback to regular soundService if foreground service not available
-    if (hooterForegroundService.isAvailable()) {
+    let ring = true;
+    if (this.hooterGate) {
       try {
-        console.log('🔊 [WEBSOCKET] Starting hooter via foreground service...');
-        await hooterForegroundService.startHooter();
+        ring = await this.hooterGate(bookingData);
       } catch (error) {
-        console.warn('⚠️ [WEBSOCKET] Failed to start foreground service, falling back to regular sound:', error);
-        soundService.startContinuousPlay();
+        console.warn('⚠️ [WEBSOCKET] Hooter gate failed, ringing anyway:', error);
       }
+    }
+    if (ring) {
+      await this.startSound(bookingData);
     } else {
-      console.log('🔊 [WEBSOCKET] Using regular soundService (foreground service not available)');
-      soundService.startContinuousPlay();
+      console.log('🔕 [WEBSOCKET] Offer handled by booking rules, hooter stays silent');
     }
 
     // Notify all registered callbacks (for UI components)
@@ -322,10 +353,83 @@ class WebSocketService {
     });
   }
 
+  /**
+   * Filter offers before the hooter rings (booking rules); null rings for all
+   */
+  setHooterGate(gate: HooterGate | null): void {
+    this.hooterGate = gate;
+  }
+
+  /**
+   * Whether the offer hooter is ringing right now
+   */
+  isHooterRinging(): boolean {
+    return this.hooterRinging;
+  }
+
+  /**
+   * Alert profile of the current ringing (null when quiet)
+   */
+  getAlertProfile(): ResolvedAlertProfile | null {
+    return this.alertProfile;
+  }
+
+  /**
+   * Follow the hooter starting and stopping (voice announcements wait for it)
+   */
+  onHooterChange(listener: (ringing: boolean) => void): () => void {
+    this.hooterListeners.add(listener);
+    return () => {
+      this.hooterListeners.delete(listener);
+    };
+  }
+
+  private setHooterRinging(ringing: boolean): void {
+    if (this.hooterRinging === ringing) return;
+    this.hooterRinging = ringing;
+    this.hooterListeners.forEach(listener => listener(ringing));
+  }
+
+  /**
+   * Start the continuous hooter for an offer that needs an answer, with
+   * the alert profile for its urgency (or quiet hours)
+   */
+  async startSound(booking?: NewBookingEvent): Promise<void> {
+    let profile: ResolvedAlertProfile | null = null;
+    try {
+      profile = await resolveAlertProfile(booking);
+    } catch (error) {
+      console.warn('⚠️ [WEBSOCKET] Alert profile unavailable, using the plain hooter:', error);
+    }
+    if (this.hooterRinging) {
+      // An immediate request arriving during a scheduled one's ringing takes over
+      if (profile?.kind !== 'immediate' || this.alertProfile?.kind !== 'scheduled') return;
+      this.stopSound();
+    }
+    this.alertProfile = profile;
+    this.setHooterRinging(true);
+    // Start hooter sound via foreground service (works even in background)
+    // Fallback to regular soundService if foreground service not available
+    if (hooterForegroundService.isAvailable()) {
+      try {
+        console.log('🔊 [WEBSOCKET] Starting hooter via foreground service...');
+        await hooterForegroundService.startHooter(profile);
+      } catch (error) {
+        console.warn('⚠️ [WEBSOCKET] Failed to start foreground service, falling back to regular sound:', error);
+        soundService.startContinuousPlay(profile);
+      }
+    } else {
+      console.log('🔊 [WEBSOCKET] Using regular soundService (foreground service not available)');
+      soundService.startContinuousPlay(profile);
+    }
+  }
+
   /**
    * Stop continuous sound (called when booking is accepted or dismissed)
    */
   stopSound(): void {
+    this.alertProfile = null;
+    this.setHooterRinging(false);
     // Stop foreground service if available, otherwise stop regular sound
     if (hooterForegroundService.isAvailable()) {
       hooterForegroundService.stopHooter().catch((error) => {
@@ -341,21 +445,13 @@ class WebSocketService {
    * Accept a booking/service request
    * Updates the status to 'accepted' and assigns provider with provider details
    */
-  async acceptBooking(bookingData: any, providerId: string, providerProfile?: any): Promise<void> {
+  async acceptBooking(
+    bookingData: NewBookingEvent,
+    providerId: string,
+    providerProfile?: any,
+  ): Promise<void> {
+    const {serviceRequestId} = bookingData;
     try {
-      // Support both old (consultationId) and new (serviceRequestId/id) field names
-      const serviceRequestId = bookingData.serviceRequestId || 
-                               bookingData.id || 
-                               bookingData.bookingId ||
-                               bookingData.consultationId; // Backward compatibility
-      
-      if (!serviceRequestId) {
-        console.error('❌ [ACCEPT] Service Request ID not found in booking data. Available keys:', Object.keys(bookingData));
-        console.error('❌ [ACCEPT] Full booking data:', JSON.stringify(bookingData, null, 2));
-        throw new Error('Service Request ID not found in booking data');
-      }
-      
-      console.log('📋 [ACCEPT] Extracted serviceRequestId:', serviceRequestId, 'from bookingData keys:', Object.keys(bookingData));
 
       console.log('📋 [ACCEPT] Starting acceptBooking:', {
         serviceRequestId,
@@ -408,6 +504,7 @@ class WebSocketService {
         );
       } catch (apiError: any) {
         console.warn('⚠️ [ACCEPT] API accept failed:', apiError.message);
+        if (isApiError(apiError)) throw apiError;
         throw new Error(
           apiError?.message ||
             `Service request not found: ${serviceRequestId}. Please try again.`,
@@ -424,9 +521,10 @@ class WebSocketService {
       console.error('❌ [ACCEPT] Error accepting booking:', {
         error: error.message,
         code: error.code,
-        serviceRequestId: bookingData.serviceRequestId || bookingData.id || bookingData.bookingId || bookingData.consultationId,
+        serviceRequestId,
         providerId,
       });
+      if (isApiError(error)) throw error;
       throw new Error(`Failed to accept booking: ${error.message}`);
     }
   }
@@ -436,16 +534,9 @@ class WebSocketService {
    * Specific-provider: marks request rejected so customer sees provider is not ready.
    * Open (broadcast): API dismisses without cancelling for other providers.
    */
-  async rejectBooking(bookingData: any): Promise<void> {
+  async rejectBooking(bookingData: Pick<NewBookingEvent, 'serviceRequestId'>): Promise<void> {
     try {
-      const serviceRequestId = bookingData.serviceRequestId ||
-                               bookingData.id ||
-                               bookingData.bookingId ||
-                               bookingData.consultationId;
-
-      if (!serviceRequestId) {
-        throw new Error('Service Request ID not found in booking data');
-      }
+      const {serviceRequestId} = bookingData;
 
       console.log('📋 [REJECT] Starting rejectBooking:', serviceRequestId);
 
@@ -459,12 +550,14 @@ class WebSocketService {
         return;
       } catch (apiError: any) {
         console.warn('⚠️ [REJECT] MongoDB API error:', apiError.message);
+        if (isApiError(apiError)) throw apiError;
         throw new Error(
           apiError?.message || `Failed to reject booking: ${serviceRequestId}`,
         );
       }
     } catch (error: any) {
       console.error('❌ [REJECT] Error rejecting booking:', error);
+      if (isApiError(error)) throw error;
       throw new Error(`Failed to reject booking: ${error.message}`);
     }
   }
@@ -472,7 +565,7 @@ class WebSocketService {
   /**
    * Remove booking callback (deprecated - use unsubscribe function from onNewBooking)
    */
-  offNewBooking(callback?: (bookingData: any) => void): void {
+  offNewBooking(callback?: BookingCallback): void {
     if (callback) {
       this.bookingCallbacks = this.bookingCallbacks.filter(cb => cb !== callback);
     } else {
@@ -491,12 +584,137 @@ class WebSocketService {
       this.socket = null;
       this.isConnected = false;
       this.currentProviderId = null;
+      this.protocolVersion = 1;
       console.log('WebSocket disconnected');
     }
 
     // Sound is managed by soundService, not here
   }
 
+  /**
+   * Relay a live trip event (position / ETA / arrival) to the customer.
+   * Returns false when the socket is down so callers can fall back.
+   */
+  emitTripEvent(
+    event: 'trip-update' | 'trip-arrived' | 'trip-ended',
+    payload: Record<string, unknown>,
+  ): boolean {
+    if (!this.socket?.connected) {
+      return false;
+    }
+    this.socket.emit(event, {...payload, providerId: this.currentProviderId});
+    return true;
+  }
+
+  /**
+   * Emit a chat event for a job card. With `ackTimeoutMs` the promise
+   * resolves with the server's acknowledgement, or null on timeout.
+   * Returns false (without emitting) when the socket is down.
+   */
+  emitChatEvent(
+    event: 'chat-message' | 'chat-typing' | 'chat-delivered' | 'chat-read',
+    payload: Record<string, unknown>,
+    ackTimeoutMs?: number,
+  ): false | Promise<any> {
+    const socket = this.socket;
+    if (!socket?.connected) {
+      return false;
+    }
+    const data = {...payload, providerId: this.currentProviderId};
+    if (!ackTimeoutMs) {
+      socket.emit(event, data);
+      return Promise.resolve(null);
+    }
+    return new Promise(resolve => {
+      socket.timeout(ackTimeoutMs).emit(event, data, (err: any, response: any) => {
+        resolve(err ? null : response ?? null);
+      });
+    });
+  }
+
+  /**
+   * Subscribe to a catalogued server event. The handler only sees payloads
+   * that passed validation. New bookings go through `onNewBooking`, which
+   * also starts the hooter.
+   */
+  on<E extends Exclude<SocketEventName, 'new-booking'>>(
+    event: E,
+    handler: (payload: SocketEventMap[E]) => void,
+  ): () => void {
+    return this.onEvent(event, raw => {
+      const payload = parseSocketEvent(event, raw);
+      if (payload) handler(payload);
+    });
+  }
+
+  onBookingWithdrawn(handler: (payload: SocketEventMap['booking-withdrawn']) => void): () => void {
+    return this.on('booking-withdrawn', handler);
+  }
+
+  onBookingTakenByOther(
+    handler: (payload: SocketEventMap['booking-taken-by-other']) => void,
+  ): () => void {
+    return this.on('booking-taken-by-other', handler);
+  }
+
+  onJobStatusChanged(handler: (payload: SocketEventMap['job-status-changed']) => void): () => void {
+    return this.on('job-status-changed', handler);
+  }
+
+  onCommentAdded(handler: (payload: SocketEventMap['comment-added']) => void): () => void {
+    return this.on('comment-added', handler);
+  }
+
+  onPaymentReceived(handler: (payload: SocketEventMap['payment-received']) => void): () => void {
+    return this.on('payment-received', handler);
+  }
+
+  /** Protocol version agreed with the server */
+  getProtocolVersion(): number {
+    return this.protocolVersion;
+  }
+
+  private applyProtocolVersion(data: unknown): void {
+    const version = negotiatedVersionOf(data);
+    if (version === null || version === this.protocolVersion) return;
+    this.protocolVersion = Math.min(version, SOCKET_PROTOCOL_VERSION);
+    console.log(`📋 [WEBSOCKET] Server protocol v${version}, using v${this.protocolVersion}`);
+    if (version < MIN_SOCKET_PROTOCOL_VERSION) {
+      console.warn(
+        `⚠️ [WEBSOCKET] Server protocol v${version} is older than supported v${MIN_SOCKET_PROTOCOL_VERSION}`,
+      );
+    }
+  }
+
+  /**
+   * Listen for a server event on the current and any future socket.
+   * Returns an unsubscribe function.
+   */
+  onEvent(event: string, handler: (data: any) => void): () => void {
+    let handlers = this.eventHandlers.get(event);
+    if (!handlers) {
+      handlers = new Set();
+      this.eventHandlers.set(event, handlers);
+      if (this.socket) this.attachEventDispatcher(this.socket, event);
+    }
+    handlers.add(handler);
+    return () => {
+      handlers?.delete(handler);
+    };
+  }
+
+  private attachEventDispatcher(socket: Socket, event: string): void {
+    socket.on(event, (data: any) => {
+      this.eventHandlers.get(event)?.forEach(handler => {
+        try {
+          handler(data);
+        } catch (error) {
+          console.warn(`⚠️ [WEBSOCKET] ${event} handler error:`, error);
+        }
+      });
+    });
+  }
+
   /**
    * Get connection status
    */
@@ -7,19 +7,25 @@ import type {
   ChatMessage,
   Prescription,
 } from '../types/consultation';
+import type {ProviderNotificationType} from '../services/api/notificationsApi';
 
+export type AppNotificationType = ProviderNotificationType;
+
+/** Inbox entry mirrored from the server (see notificationCenterService) */
 export interface AppNotification {
   id: string;
   title: string;
   message: string;
-  type: 'consultation' | 'prescription' | 'reminder' | 'system';
-  consultationId?: string;
-  prescriptionId?: string;
-  userId: string; // User ID who should receive this notification (patientId or doctorId)
+  type: AppNotificationType;
+  jobCardId?: string;
+  serviceRequestId?: string;
+  data?: Record<string, unknown>;
   read: boolean;
   createdAt: Date;
 }
 
+const NOTIFICATIONS_STORAGE_KEY = 'hs_provider_notifications';
+
 interface AppState {
   // Theme
   isDarkMode: boolean;
@@ -67,20 +73,37 @@ interface AppState {
   setPrescriptions: (prescriptions: Prescription[]) => void;
   addPrescription: (prescription: Prescription) => void;
 
-  // Notifications
+  // Notifications (server inbox cache, newest first)
   notifications: AppNotification[];
-  addNotification: (notification: AppNotification) => void;
-  markNotificationAsRead: (id: string) => void;
-  markAllNotificationsAsRead: (userId?: string) => void;
-  deleteNotification: (id: string) => void;
-  clearAllNotifications: (userId?: string) => void;
-  getUnreadCount: (userId?: string) => number;
-  getUserNotifications: (userId: string) => AppNotification[];
+  /** Cursor for the next older page; null when everything is loaded */
+  notificationsCursor: string | null;
+  /** Unread count as reported by the server */
+  unreadNotificationCount: number;
+  setNotifications: (
+    notifications: AppNotification[],
+    cursor: string | null,
+    unreadCount: number,
+  ) => void;
+  /** Merge new or changed notifications by id */
+  upsertNotifications: (
+    notifications: AppNotification[],
+    options?: {cursor?: string | null; unreadCount?: number},
+  ) => void;
+  setNotificationsRead: (ids: string[] | 'all', unreadCount?: number) => void;
+  removeNotification: (id: string) => void;
+  getUnreadCount: () => number;
 
   // Hydration
   hydrate: () => Promise<void>;
 }
 
+/** Offline copy of the first inbox pages; the server stays the source of truth */
+const persistNotifications = (notifications: AppNotification[]) =>
+  AsyncStorage.setItem(
+    NOTIFICATIONS_STORAGE_KEY,
+    JSON.stringify(notifications.slice(0, 100)),
+  ).catch(() => {});
+
 export const useStore = create<AppState>((set, get) => ({
   isDarkMode: false,
   isLoading: false,
@@ -95,6 +118,8 @@ export const useStore = create<AppState>((set, get) => ({
   chatMessages: {},
   prescriptions: [],
   notifications: [],
+  notificationsCursor: null,
+  unreadNotificationCount: 0,
   currentPincode: null,
 
   toggleTheme: async () => {
@@ -190,58 +215,55 @@ export const useStore = create<AppState>((set, get) => ({
   },
 
   // Notification actions
-  addNotification: async (notification: AppNotification) => {
-    const notifications = [notification, ...get().notifications].slice(0, 100); // Keep last 100
-    set({notifications});
-    await AsyncStorage.setItem('notifications', JSON.stringify(notifications));
+  setNotifications: async (notifications, cursor, unreadCount) => {
+    set({notifications, notificationsCursor: cursor, unreadNotificationCount: unreadCount});
+    await persistNotifications(notifications);
   },
 
-  markNotificationAsRead: async (id: string) => {
-    const notifications = get().notifications.map(n =>
-      n.id === id ? {...n, read: true} : n,
+  upsertNotifications: async (incoming, options = {}) => {
+    const byId = new Map(get().notifications.map(n => [n.id, n]));
+    incoming.forEach(n => byId.set(n.id, n));
+    const notifications = [...byId.values()].sort(
+      (a, b) => b.createdAt.getTime() - a.createdAt.getTime(),
     );
-    set({notifications});
-    await AsyncStorage.setItem('notifications', JSON.stringify(notifications));
+    set({
+      notifications,
+      ...(options.cursor !== undefined ? {notificationsCursor: options.cursor} : {}),
+      ...(options.unreadCount !== undefined ? {unreadNotificationCount: options.unreadCount} : {}),
+    });
+    await persistNotifications(notifications);
   },
 
-  markAllNotificationsAsRead: async (userId?: string) => {
-    const notifications = get().notifications.map(n => {
-      if (userId && n.userId !== userId) return n;
-      return {...n, read: true};
+  setNotificationsRead: async (ids, unreadCount) => {
+    const notifications = get().notifications.map(n =>
+      ids === 'all' || ids.includes(n.id) ? {...n, read: true} : n,
+    );
+    const newlyRead = get().notifications.filter(
+      n => !n.read && (ids === 'all' || ids.includes(n.id)),
+    ).length;
+    set({
+      notifications,
+      unreadNotificationCount:
+        unreadCount ??
+        (ids === 'all' ? 0 : Math.max(0, get().unreadNotificationCount - newlyRead)),
     });
-    set({notifications});
-    await AsyncStorage.setItem('notifications', JSON.stringify(notifications));
+    await persistNotifications(notifications);
   },
 
-  deleteNotification: async (id: string) => {
+  removeNotification: async (id: string) => {
+    const removed = get().notifications.find(n => n.id === id);
     const notifications = get().notifications.filter(n => n.id !== id);
-    set({notifications});
-    await AsyncStorage.setItem('notifications', JSON.stringify(notifications));
-  },
-
-  clearAllNotifications: async (userId?: string) => {
-    if (userId) {
-      const notifications = get().notifications.filter(n => n.userId !== userId);
-      set({notifications});
-      await AsyncStorage.setItem('notifications', JSON.stringify(notifications));
-    } else {
-      set({notifications: []});
-      await AsyncStorage.removeItem('notifications');
-    }
-  },
-
-  getUnreadCount: (userId?: string) => {
-    const notifications = userId 
-      ? get().notifications.filter(n => n.userId === userId)
-      : get().notifications;
-    return notifications.filter(n => !n.read).length;
+    set({
+      notifications,
+      unreadNotificationCount:
+        removed && !removed.read
+          ? Math.max(0, get().unreadNotificationCount - 1)
+          : get().unreadNotificationCount,
+    });
+    await persistNotifications(notifications);
   },
 
-  getUserNotifications: (userId: string) => {
-    return get().notifications
-      .filter(n => n.userId === userId)
-      .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
-  },
+  getUnreadCount: () => get().unreadNotificationCount,
 
   hydrate: async () => {
     try {
@@ -260,10 +282,13 @@ export const useStore = create<AppState>((set, get) => ({
         AsyncStorage.getItem('providers'),
         AsyncStorage.getItem('consultations'),
         AsyncStorage.getItem('prescriptions'),
-        AsyncStorage.getItem('notifications'),
+        AsyncStorage.getItem(NOTIFICATIONS_STORAGE_KEY),
       ]);
 
       const storedLanguage = (language || 'en') as 'en' | 'hi';
+      const cachedNotifications: AppNotification[] = notifications
+        ? JSON.parse(notifications).map((n: any) => ({...n, createdAt: new Date(n.createdAt)}))
+        : [];
       
       // Initialize i18n with stored language
       const {changeLanguage} = await import('../i18n');
@@ -276,10 +301,8 @@ export const useStore = create<AppState>((set, get) => ({
         doctors: doctors ? JSON.parse(doctors) : [],
         consultations: consultations ? JSON.parse(consultations) : [],
         prescriptions: prescriptions ? JSON.parse(prescriptions) : [],
-        notifications: notifications ? JSON.parse(notifications).map((n: any) => ({
-          ...n,
-          createdAt: new Date(n.createdAt),
-        })) : [],
+        notifications: cachedNotifications,
+        unreadNotificationCount: cachedNotifications.filter(n => !n.read).length,
       });
     } catch (error) {
     }
@@ -0,0 +1,16 @@
+declare module 'qrcode' {
+  export interface QRCodeToStringOptions {
+    type?: 'svg' | 'utf8' | 'terminal';
+    errorCorrectionLevel?: 'L' | 'M' | 'Q' | 'H';
+    margin?: number;
+    width?: number;
+    color?: {dark?: string; light?: string};
+  }
+
+  export function toString(text: string, options?: QRCodeToStringOptions): Promise<string>;
+
+  const QRCode: {
+    toString: typeof toString;
+  };
+  export default QRCode;
+}
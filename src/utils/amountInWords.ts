@@ -0,0 +1,55 @@
+/**
+ * Rupee amounts in words using the Indian numbering system
+ * (thousand, lakh, crore), as printed on tax invoices.
+ */
+
+const ONES = [
+  '', 'One', 'Two', 'Three', 'Four', 'Five', 'Six', 'Seven', 'Eight', 'Nine',
+  'Ten', 'Eleven', 'Twelve', 'Thirteen', 'Fourteen', 'Fifteen', 'Sixteen',
+  'Seventeen', 'Eighteen', 'Nineteen',
+];
+
+const TENS = ['', '', 'Twenty', 'Thirty', 'Forty', 'Fifty', 'Sixty', 'Seventy', 'Eighty', 'Ninety'];
+
+/** 0–99 */
+const twoDigits = (n: number): string =>
+  n < 20 ? ONES[n] : `${TENS[Math.floor(n / 10)]}${n % 10 ? ' ' + ONES[n % 10] : ''}`;
+
+/** 0–999 */
+const threeDigits = (n: number): string => {
+  const hundreds = Math.floor(n / 100);
+  const rest = n % 100;
+  return [hundreds ? `${ONES[hundreds]} Hundred` : '', rest ? twoDigits(rest) : '']
+    .filter(Boolean)
+    .join(' ');
+};
+
+/** Whole number in words, e.g. 1234567 → "Twelve Lakh Thirty Four Thousand Five Hundred Sixty Seven" */
+export const numberToIndianWords = (value: number): string => {
+  let n = Math.floor(Math.abs(value));
+  if (n === 0) return 'Zero';
+
+  const parts: string[] = [];
+  const crore = Math.floor(n / 10000000);
+  n %= 10000000;
+  const lakh = Math.floor(n / 100000);
+  n %= 100000;
+  const thousand = Math.floor(n / 1000);
+  n %= 1000;
+
+  // Above 99 crore the crore part itself is spelled out recursively
+  if (crore) parts.push(`${numberToIndianWords(crore)} Crore`);
+  if (lakh) parts.push(`${twoDigits(lakh)} Lakh`);
+  if (thousand) parts.push(`${twoDigits(thousand)} Thousand`);
+  if (n) parts.push(threeDigits(n));
+  return parts.join(' ');
+};
+
+/** 1200.5 → "Rupees One Thousand Two Hundred and Fifty Paise Only" */
+export const amountInWords = (amount: number): string => {
+  const paiseTotal = Math.round(Math.abs(amount) * 100);
+  const rupees = Math.floor(paiseTotal / 100);
+  const paise = paiseTotal % 100;
+  const words = `Rupees ${numberToIndianWords(rupees)}`;
+  return paise ? `${words} and ${twoDigits(paise)} Paise Only` : `${words} Only`;
+};
@@ -0,0 +1,44 @@
+/**
+ * Map typed API errors to localized, actionable messages (errors.json).
+ * Backend error codes win over the generic per-kind message.
+ */
+
+import i18n from '../i18n';
+import {ApiError, ApiErrorKind, isApiError} from '../services/api/apiErrors';
+
+const KIND_KEYS: Record<ApiErrorKind, string> = {
+  not_found: 'errors.notFound',
+  unauthorized: 'errors.unauthorized',
+  validation: 'errors.validation',
+  conflict: 'errors.conflict',
+  rate_limited: 'errors.rateLimited',
+  network: 'errors.network',
+  timeout: 'errors.timeout',
+  cancelled: 'errors.cancelled',
+  server: 'errors.serverError',
+  unknown: 'errors.generic',
+};
+
+/** i18n key for an API error, e.g. `errors.codes.JOB_CARD_NOT_FOUND`. */
+export function apiErrorMessageKey(error: ApiError): string {
+  if (error.code) {
+    const codeKey = `errors.codes.${error.code}`;
+    if (i18n.exists(codeKey)) return codeKey;
+  }
+  return KIND_KEYS[error.kind] || KIND_KEYS.unknown;
+}
+
+/**
+ * User-facing message for any thrown value.
+ * Non-API errors keep their own message (they are already app-specific).
+ */
+export function getApiErrorMessage(error: unknown, fallback?: string): string {
+  if (isApiError(error)) {
+    if (error.kind === 'unknown' && !error.code && error.message) {
+      return error.message;
+    }
+    return String(i18n.t(apiErrorMessageKey(error)));
+  }
+  const message = error instanceof Error ? error.message : '';
+  return message || fallback || String(i18n.t('errors.generic'));
+}
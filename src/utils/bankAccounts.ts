@@ -0,0 +1,152 @@
+/**
+ * Payout account details: IFSC format, bank name from the bundled bank-code
+ * table, account number and UPI VPA validation, and masking of account
+ * numbers for display. Branch details are not bundled (there are well over
+ * a lakh branches); they come from the backend's IFSC lookup.
+ */
+
+import {maskIdNumber} from './identity';
+
+/** Four-letter bank code, a zero reserved by RBI, six-character branch code */
+export const IFSC_PATTERN = /^[A-Z]{4}0[A-Z0-9]{6}$/;
+
+/** handle@psp — the handle may carry dots, hyphens and underscores */
+const VPA_PATTERN = /^[a-z0-9][a-z0-9._-]{1,255}@[a-z][a-z0-9]{1,63}$/;
+
+const ACCOUNT_NUMBER_MIN = 9;
+const ACCOUNT_NUMBER_MAX = 18;
+
+/** Why a payout field was rejected; messages live under `payouts.validation.<field>.<error>` */
+export type PayoutFieldError = 'required' | 'format' | 'unknownBank' | 'mismatch';
+
+export type PayoutField = 'ifsc' | 'accountNumber' | 'vpa' | 'accountHolderName';
+
+export interface PayoutFieldValidation {
+  valid: boolean;
+  /** What should be stored */
+  normalized: string;
+  error?: PayoutFieldError;
+}
+
+/** Bank names by the first four IFSC characters */
+const BANKS: Record<string, string> = {
+  SBIN: 'State Bank of India',
+  HDFC: 'HDFC Bank',
+  ICIC: 'ICICI Bank',
+  UTIB: 'Axis Bank',
+  KKBK: 'Kotak Mahindra Bank',
+  PUNB: 'Punjab National Bank',
+  BARB: 'Bank of Baroda',
+  CNRB: 'Canara Bank',
+  UBIN: 'Union Bank of India',
+  BKID: 'Bank of India',
+  IOBA: 'Indian Overseas Bank',
+  IDIB: 'Indian Bank',
+  MAHB: 'Bank of Maharashtra',
+  UCBA: 'UCO Bank',
+  CBIN: 'Central Bank of India',
+  PSIB: 'Punjab & Sind Bank',
+  YESB: 'Yes Bank',
+  INDB: 'IndusInd Bank',
+  IDFB: 'IDFC First Bank',
+  FDRL: 'Federal Bank',
+  SIBL: 'South Indian Bank',
+  KARB: 'Karnataka Bank',
+  KVBL: 'Karur Vysya Bank',
+  CIUB: 'City Union Bank',
+  TMBL: 'Tamilnad Mercantile Bank',
+  DLXB: 'Dhanlaxmi Bank',
+  JAKA: 'Jammu & Kashmir Bank',
+  RATN: 'RBL Bank',
+  BDBL: 'Bandhan Bank',
+  CSBK: 'CSB Bank',
+  NTBL: 'Nainital Bank',
+  AUBL: 'AU Small Finance Bank',
+  ESFB: 'Equitas Small Finance Bank',
+  UJVN: 'Ujjivan Small Finance Bank',
+  AIRP: 'Airtel Payments Bank',
+  PYTM: 'Paytm Payments Bank',
+  IPOS: 'India Post Payments Bank',
+  FINO: 'Fino Payments Bank',
+  IBKL: 'IDBI Bank',
+  DBSS: 'DBS Bank India',
+  SCBL: 'Standard Chartered Bank',
+  HSBC: 'HSBC',
+  CITI: 'Citibank',
+  DEUT: 'Deutsche Bank',
+  SRCB: 'Saraswat Co-operative Bank',
+  COSB: 'Cosmos Co-operative Bank',
+  SVCB: 'SVC Co-operative Bank',
+};
+
+const result = (normalized: string, error?: PayoutFieldError): PayoutFieldValidation => ({
+  valid: !error,
+  normalized,
+  error,
+});
+
+export const normalizeIfsc = (value?: string | null): string =>
+  (value || '').replace(/\s/g, '').toUpperCase();
+
+export const isValidIfsc = (value?: string | null): boolean =>
+  IFSC_PATTERN.test(normalizeIfsc(value));
+
+/** Bank name from the IFSC's bank code; null for malformed codes and unlisted banks */
+export function bankNameForIfsc(value?: string | null): string | null {
+  const ifsc = normalizeIfsc(value);
+  if (!IFSC_PATTERN.test(ifsc)) return null;
+  return BANKS[ifsc.slice(0, 4)] || null;
+}
+
+/**
+ * Format is enforced; a well-formed code from a bank missing from the
+ * table is flagged so the UI can warn, but the server has the final say
+ */
+export function validateIfsc(value?: string | null): PayoutFieldValidation {
+  const ifsc = normalizeIfsc(value);
+  if (!ifsc) return result(ifsc, 'required');
+  if (!IFSC_PATTERN.test(ifsc)) return result(ifsc, 'format');
+  return result(ifsc, bankNameForIfsc(ifsc) ? undefined : 'unknownBank');
+}
+
+/** 9–18 digits, spaces and hyphens ignored */
+export function validateAccountNumber(value?: string | null): PayoutFieldValidation {
+  const accountNumber = (value || '').replace(/[\s-]/g, '');
+  if (!accountNumber) return result(accountNumber, 'required');
+  const pattern = new RegExp(`^\\d{${ACCOUNT_NUMBER_MIN},${ACCOUNT_NUMBER_MAX}}$`);
+  if (!pattern.test(accountNumber) || /^0+$/.test(accountNumber)) {
+    return result(accountNumber, 'format');
+  }
+  return result(accountNumber);
+}
+
+/** The re-typed account number must match the first entry */
+export function validateAccountNumberConfirmation(
+  accountNumber?: string | null,
+  confirmation?: string | null,
+): PayoutFieldValidation {
+  const confirmed = (confirmation || '').replace(/[\s-]/g, '');
+  if (!confirmed) return result(confirmed, 'required');
+  const expected = (accountNumber || '').replace(/[\s-]/g, '');
+  return result(confirmed, confirmed === expected ? undefined : 'mismatch');
+}
+
+export function validateAccountHolderName(value?: string | null): PayoutFieldValidation {
+  const name = (value || '').replace(/\s+/g, ' ').trim();
+  if (!name) return result(name, 'required');
+  return result(name, /^[A-Za-z][A-Za-z .'-]{1,99}$/.test(name) ? undefined : 'format');
+}
+
+/** VPAs are case-insensitive; stored lower-case */
+export function validateVpa(value?: string | null): PayoutFieldValidation {
+  const vpa = (value || '').trim().toLowerCase();
+  if (!vpa) return result(vpa, 'required');
+  return result(vpa, VPA_PATTERN.test(vpa) ? undefined : 'format');
+}
+
+/** i18n key for a failed validation */
+export const payoutFieldErrorKey = (field: PayoutField, error: PayoutFieldError): string =>
+  `payouts.validation.${field}.${error}`;
+
+/** Everything but the last four digits replaced with X */
+export const maskAccountNumber = (value?: string | null): string => maskIdNumber(value);
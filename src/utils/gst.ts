@@ -0,0 +1,112 @@
+/**
+ * GST helpers: state codes (first two digits of a GSTIN / place of supply)
+ * and GSTIN format and checksum checks.
+ */
+
+export interface GstState {
+  code: string;
+  name: string;
+}
+
+export const GST_STATES: GstState[] = [
+  {code: '01', name: 'Jammu and Kashmir'},
+  {code: '02', name: 'Himachal Pradesh'},
+  {code: '03', name: 'Punjab'},
+  {code: '04', name: 'Chandigarh'},
+  {code: '05', name: 'Uttarakhand'},
+  {code: '06', name: 'Haryana'},
+  {code: '07', name: 'Delhi'},
+  {code: '08', name: 'Rajasthan'},
+  {code: '09', name: 'Uttar Pradesh'},
+  {code: '10', name: 'Bihar'},
+  {code: '11', name: 'Sikkim'},
+  {code: '12', name: 'Arunachal Pradesh'},
+  {code: '13', name: 'Nagaland'},
+  {code: '14', name: 'Manipur'},
+  {code: '15', name: 'Mizoram'},
+  {code: '16', name: 'Tripura'},
+  {code: '17', name: 'Meghalaya'},
+  {code: '18', name: 'Assam'},
+  {code: '19', name: 'West Bengal'},
+  {code: '20', name: 'Jharkhand'},
+  {code: '21', name: 'Odisha'},
+  {code: '22', name: 'Chhattisgarh'},
+  {code: '23', name: 'Madhya Pradesh'},
+  {code: '24', name: 'Gujarat'},
+  {code: '26', name: 'Dadra and Nagar Haveli and Daman and Diu'},
+  {code: '27', name: 'Maharashtra'},
+  {code: '29', name: 'Karnataka'},
+  {code: '30', name: 'Goa'},
+  {code: '31', name: 'Lakshadweep'},
+  {code: '32', name: 'Kerala'},
+  {code: '33', name: 'Tamil Nadu'},
+  {code: '34', name: 'Puducherry'},
+  {code: '35', name: 'Andaman and Nicobar Islands'},
+  {code: '36', name: 'Telangana'},
+  {code: '37', name: 'Andhra Pradesh'},
+  {code: '38', name: 'Ladakh'},
+];
+
+/** Common spellings that differ from the official names above */
+const STATE_ALIASES: Record<string, string> = {
+  'new delhi': '07',
+  'nct of delhi': '07',
+  orissa: '21',
+  pondicherry: '34',
+  'jammu & kashmir': '01',
+  'andaman & nicobar islands': '35',
+  'daman and diu': '26',
+  'dadra and nagar haveli': '26',
+};
+
+const normalizeName = (name: string) =>
+  name.trim().toLowerCase().replace(/\s+/g, ' ');
+
+/** GST state code for a state name (null when unknown) */
+export const getGstStateCode = (stateName?: string | null): string | null => {
+  if (!stateName) return null;
+  const normalized = normalizeName(stateName);
+  const match = GST_STATES.find(s => normalizeName(s.name) === normalized);
+  return match?.code || STATE_ALIASES[normalized] || null;
+};
+
+export const getGstStateName = (code?: string | null): string | null =>
+  GST_STATES.find(s => s.code === code)?.name || null;
+
+/** 2-digit state, PAN, entity number, 'Z', check character */
+export const GSTIN_PATTERN = /^\d{2}[A-Z]{5}\d{4}[A-Z][1-9A-Z]Z[0-9A-Z]$/;
+
+export const normalizeGstin = (value: string): string =>
+  value.replace(/\s+/g, '').toUpperCase();
+
+export const isValidGstinFormat = (value?: string | null): boolean =>
+  !!value &&
+  GSTIN_PATTERN.test(normalizeGstin(value)) &&
+  !!getGstStateName(normalizeGstin(value).slice(0, 2));
+
+/** State code a GSTIN is registered in */
+export const getGstinStateCode = (gstin?: string | null): string | null =>
+  isValidGstinFormat(gstin) ? normalizeGstin(gstin!).slice(0, 2) : null;
+
+const GSTIN_CHARSET = '0123456789ABCDEFGHIJKLMNOPQRSTUVWXYZ';
+
+/**
+ * Check character for the first 14 characters of a GSTIN (base-36 Luhn
+ * variant: every second character weighted 2, digits of the product summed
+ * in base 36)
+ */
+export const gstinCheckCharacter = (first14: string): string => {
+  let sum = 0;
+  for (let i = 0; i < 14; i++) {
+    const product = GSTIN_CHARSET.indexOf(first14[i]) * (i % 2 === 0 ? 1 : 2);
+    sum += Math.floor(product / 36) + (product % 36);
+  }
+  return GSTIN_CHARSET[(36 - (sum % 36)) % 36];
+};
+
+/** Format, state code and check character */
+export const isValidGstin = (value?: string | null): boolean => {
+  if (!isValidGstinFormat(value)) return false;
+  const gstin = normalizeGstin(value!);
+  return gstinCheckCharacter(gstin.slice(0, 14)) === gstin[14];
+};
@@ -0,0 +1,167 @@
+/**
+ * Indian identity numbers: format and checksum validation for Aadhaar,
+ * PAN, GSTIN, driving licences and vehicle registrations, and masking so
+ * only the last four characters are ever shown.
+ */
+
+import {getGstStateName, GSTIN_PATTERN, gstinCheckCharacter} from './gst';
+
+export type IdNumberKind =
+  | 'aadhaar'
+  | 'pan'
+  | 'gstin'
+  | 'driving_licence'
+  | 'vehicle_registration';
+
+/** Why a number was rejected; messages live under `kyc.validation.<kind>.<error>` */
+export type IdNumberError = 'required' | 'format' | 'checksum' | 'stateCode' | 'year';
+
+export interface IdNumberValidation {
+  valid: boolean;
+  /** Upper-case, separators removed — what should be stored */
+  normalized: string;
+  error?: IdNumberError;
+}
+
+/** Characters shown unmasked */
+export const VISIBLE_ID_CHARS = 4;
+const MASK_CHAR = 'X';
+
+/** Transport department state codes used in licence and registration numbers */
+const RTO_STATE_CODES = [
+  'AN', 'AP', 'AR', 'AS', 'BR', 'CG', 'CH', 'DD', 'DL', 'DN', 'GA', 'GJ',
+  'HP', 'HR', 'JH', 'JK', 'KA', 'KL', 'LA', 'LD', 'MH', 'ML', 'MN', 'MP',
+  'MZ', 'NL', 'OD', 'OR', 'PB', 'PY', 'RJ', 'SK', 'TG', 'TN', 'TR', 'TS',
+  'UA', 'UK', 'UP', 'WB',
+];
+
+/** Fourth PAN character: holder type (person, company, HUF, firm, trust…) */
+const PAN_HOLDER_TYPES = 'PCHFATBLJG';
+
+// Verhoeff dihedral-group tables
+const VERHOEFF_D = [
+  [0, 1, 2, 3, 4, 5, 6, 7, 8, 9],
+  [1, 2, 3, 4, 0, 6, 7, 8, 9, 5],
+  [2, 3, 4, 0, 1, 7, 8, 9, 5, 6],
+  [3, 4, 0, 1, 2, 8, 9, 5, 6, 7],
+  [4, 0, 1, 2, 3, 9, 5, 6, 7, 8],
+  [5, 9, 8, 7, 6, 0, 4, 3, 2, 1],
+  [6, 5, 9, 8, 7, 1, 0, 4, 3, 2],
+  [7, 6, 5, 9, 8, 2, 1, 0, 4, 3],
+  [8, 7, 6, 5, 9, 3, 2, 1, 0, 4],
+  [9, 8, 7, 6, 5, 4, 3, 2, 1, 0],
+];
+const VERHOEFF_P = [
+  [0, 1, 2, 3, 4, 5, 6, 7, 8, 9],
+  [1, 5, 7, 6, 2, 8, 3, 0, 9, 4],
+  [5, 8, 0, 3, 7, 9, 6, 1, 4, 2],
+  [8, 9, 1, 6, 0, 4, 3, 5, 2, 7],
+  [9, 4, 5, 3, 1, 2, 6, 8, 7, 0],
+  [4, 2, 8, 6, 5, 7, 3, 9, 0, 1],
+  [2, 7, 9, 3, 8, 0, 6, 4, 1, 5],
+  [7, 0, 4, 6, 9, 1, 3, 2, 5, 8],
+];
+
+/** Whether a digit string (check digit last) passes the Verhoeff check */
+export const isValidVerhoeff = (digits: string): boolean => {
+  if (!/^\d+$/.test(digits)) return false;
+  let check = 0;
+  digits
+    .split('')
+    .reverse()
+    .forEach((digit, i) => {
+      check = VERHOEFF_D[check][VERHOEFF_P[i % 8][Number(digit)]];
+    });
+  return check === 0;
+};
+
+/** Upper-case with spaces, hyphens, dots and slashes removed */
+export const normalizeIdNumber = (value?: string | null): string =>
+  (value || '').replace(/[\s\-./]/g, '').toUpperCase();
+
+const result = (normalized: string, error?: IdNumberError): IdNumberValidation => ({
+  valid: !error,
+  normalized,
+  error,
+});
+
+/** 12 digits, never starting with 0 or 1, Verhoeff check digit last */
+export function validateAadhaar(value?: string | null): IdNumberValidation {
+  const aadhaar = normalizeIdNumber(value);
+  if (!aadhaar) return result(aadhaar, 'required');
+  if (!/^[2-9]\d{11}$/.test(aadhaar)) return result(aadhaar, 'format');
+  return result(aadhaar, isValidVerhoeff(aadhaar) ? undefined : 'checksum');
+}
+
+/** AAAAA9999A with a known holder type in the fourth place */
+export function validatePan(value?: string | null): IdNumberValidation {
+  const pan = normalizeIdNumber(value);
+  if (!pan) return result(pan, 'required');
+  const valid = /^[A-Z]{5}\d{4}[A-Z]$/.test(pan) && PAN_HOLDER_TYPES.includes(pan[3]);
+  return result(pan, valid ? undefined : 'format');
+}
+
+/** State code, embedded PAN, entity number, 'Z', check character */
+export function validateGstin(value?: string | null): IdNumberValidation {
+  const gstin = normalizeIdNumber(value);
+  if (!gstin) return result(gstin, 'required');
+  if (!GSTIN_PATTERN.test(gstin)) return result(gstin, 'format');
+  if (!getGstStateName(gstin.slice(0, 2))) return result(gstin, 'stateCode');
+  if (!validatePan(gstin.slice(2, 12)).valid) return result(gstin, 'format');
+  return result(gstin, gstinCheckCharacter(gstin.slice(0, 14)) === gstin[14] ? undefined : 'checksum');
+}
+
+/** SS RR YYYY NNNNNNN: state, RTO, year of issue, serial */
+export function validateDrivingLicence(
+  value?: string | null,
+  now: Date = new Date(),
+): IdNumberValidation {
+  const licence = normalizeIdNumber(value);
+  if (!licence) return result(licence, 'required');
+  const match = /^([A-Z]{2})(\d{2})(\d{4})(\d{7})$/.exec(licence);
+  if (!match) return result(licence, 'format');
+  if (!RTO_STATE_CODES.includes(match[1])) return result(licence, 'stateCode');
+  const year = Number(match[3]);
+  if (year < 1950 || year > now.getFullYear()) return result(licence, 'year');
+  return result(licence);
+}
+
+/** SS 00 AAA 0000, or the Bharat series YY BH 0000 AA */
+export function validateVehicleRegistration(value?: string | null): IdNumberValidation {
+  const registration = normalizeIdNumber(value);
+  if (!registration) return result(registration, 'required');
+  if (/^\d{2}BH\d{4}[A-HJ-NP-Z]{1,2}$/.test(registration)) return result(registration);
+  const match = /^([A-Z]{2})(\d{1,2})([A-Z]{0,3})(\d{1,4})$/.exec(registration);
+  if (!match) return result(registration, 'format');
+  if (!RTO_STATE_CODES.includes(match[1])) return result(registration, 'stateCode');
+  return result(registration);
+}
+
+const VALIDATORS: Record<IdNumberKind, (value?: string | null) => IdNumberValidation> = {
+  aadhaar: validateAadhaar,
+  pan: validatePan,
+  gstin: validateGstin,
+  driving_licence: value => validateDrivingLicence(value),
+  vehicle_registration: validateVehicleRegistration,
+};
+
+export function validateIdNumber(kind: IdNumberKind, value?: string | null): IdNumberValidation {
+  return VALIDATORS[kind](value);
+}
+
+/** i18n key for a failed validation */
+export const idNumberErrorKey = (kind: IdNumberKind, error: IdNumberError): string =>
+  `kyc.validation.${kind}.${error}`;
+
+/**
+ * Everything but the last four characters replaced with X. Aadhaar is
+ * grouped as printed (XXXX XXXX 1234). Numbers the server already masked
+ * come out the same.
+ */
+export function maskIdNumber(value?: string | null, kind?: IdNumberKind): string {
+  const normalized = normalizeIdNumber(value).replace(/[*•]/g, MASK_CHAR);
+  if (!normalized) return '';
+  const hidden = Math.max(0, normalized.length - VISIBLE_ID_CHARS);
+  const masked = MASK_CHAR.repeat(hidden) + normalized.slice(hidden);
+  return kind === 'aadhaar' ? masked.replace(/(.{4})(?=.)/g, '$1 ') : masked;
+}